@@ -5,20 +5,29 @@
 
 import { useEffect, useMemo, useState } from "react";
 import {
+  AchievementUnlockedNotification,
+  CraftingCompleteNotification,
   ExplorationCompleteNotification,
   Layout,
+  LevelUpNotification,
+  LocationDiscoveredNotification,
+  MoveLearnedNotification,
   type NavigationTab,
   OfflineReport,
+  PetDeathNotification,
+  SkillTrainingCompleteNotification,
   StageTransitionNotification,
   TrainingCompleteNotification,
 } from "@/components/game";
 import {
+  AchievementsScreen,
   BattleScreen,
   CareScreen,
   ExplorationScreen,
   InventoryScreen,
   MapScreen,
   MenuScreen,
+  MovesScreen,
   NewGameScreen,
   QuestScreen,
   SkillsScreen,
@@ -27,22 +36,11 @@ import {
 import { Button } from "@/components/ui/button";
 import { LoadingState } from "@/components/ui/loading-state";
 import { GameProvider } from "@/game/context/GameContext";
-import {
-  type BattleRewards,
-  createCombatantFromPet,
-  createWildCombatant,
-  initializeBattle,
-} from "@/game/core/battle/battle";
-import { updateQuestProgress } from "@/game/core/quests/quests";
 import { useGameState } from "@/game/hooks/useGameState";
-import type { BattleActionEvent, GameEvent } from "@/game/types/event";
-import { ObjectiveType } from "@/game/types/quest";
+import { selectBattleRewards } from "@/game/state/selectors";
+import type { BattleActionEvent } from "@/game/types/event";
 import "./index.css";
 
-/** Filter out battle events from pending events to prevent animation replay */
-const clearBattleEvents = (events: GameEvent[]) =>
-  events.filter((e) => e.type !== "battleAction" && e.type !== "battleEnd");
-
 /**
  * Main game content that renders based on active tab.
  */
@@ -53,8 +51,15 @@ function GameContent({
   activeTab: NavigationTab;
   onTabChange: (tab: NavigationTab) => void;
 }) {
-  const { state, isLoading, loadError, offlineReport, notification, actions } =
-    useGameState();
+  const {
+    state,
+    isLoading,
+    loadError,
+    canRepairSave,
+    offlineReport,
+    notification,
+    actions,
+  } = useGameState();
 
   // Get active battle from game state (persisted across page refreshes)
   const activeBattle = state?.activeBattle ?? null;
@@ -87,6 +92,17 @@ function GameContent({
     return (
       <div className="flex flex-col items-center justify-center h-screen gap-4">
         <p className="text-destructive">Error loading game: {loadError}</p>
+        {canRepairSave && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Invalid values can be replaced with defaults. Some progress may be
+              lost.
+            </p>
+            <Button variant="outline" onClick={actions.repairSave}>
+              Repair Save
+            </Button>
+          </>
+        )}
         <Button onClick={actions.resetGame}>Start New Game</Button>
       </div>
     );
@@ -97,103 +113,137 @@ function GameContent({
     return <NewGameScreen onStartGame={actions.startNewGame} />;
   }
 
-  // Handle starting a battle
-  const handleStartBattle = (enemySpeciesId: string, enemyLevel: number) => {
-    if (!state?.pet) return;
-
-    // Set pet activity state to Battling and initialize battle inside updateState
-    // to avoid stale pet data from concurrent state updates
-    actions.updateState((prev) => {
-      if (!prev.pet) return prev;
+  // Show overlays for the offline report and the first pending notification
+  const renderOverlays = () => (
+    <>
+      {offlineReport && (
+        <OfflineReport
+          report={offlineReport}
+          onDismiss={actions.dismissOfflineReport}
+        />
+      )}
+      {notification?.type === "stageTransition" && (
+        <StageTransitionNotification
+          previousStage={notification.previousStage}
+          newStage={notification.newStage}
+          petName={notification.petName}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "trainingComplete" && (
+        <TrainingCompleteNotification
+          facilityName={notification.facilityName}
+          statsGained={notification.statsGained}
+          petName={notification.petName}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "explorationComplete" && (
+        <ExplorationCompleteNotification
+          locationName={notification.locationName}
+          itemsFound={notification.itemsFound}
+          message={notification.message}
+          petName={notification.petName}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "moveLearned" && (
+        <MoveLearnedNotification
+          moveId={notification.moveId}
+          moveName={notification.moveName}
+          source={notification.source}
+          petName={notification.petName}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "petLevelUp" && (
+        <LevelUpNotification
+          newLevel={notification.newLevel}
+          statsGained={notification.statsGained}
+          petName={notification.petName}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "craftingComplete" && (
+        <CraftingCompleteNotification
+          recipeName={notification.recipeName}
+          itemId={notification.itemId}
+          quantity={notification.quantity}
+          bonusOutput={notification.bonusOutput}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "skillTrainingComplete" && (
+        <SkillTrainingCompleteNotification
+          offerName={notification.offerName}
+          npcName={notification.npcName}
+          skillType={notification.skillType}
+          xpGained={notification.xpGained}
+          newLevel={notification.newLevel}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "locationDiscovered" && (
+        <LocationDiscoveredNotification
+          locationId={notification.locationId}
+          locationName={notification.locationName}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "achievementUnlocked" && (
+        <AchievementUnlockedNotification
+          achievementId={notification.achievementId}
+          achievementName={notification.achievementName}
+          rewards={notification.rewards}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+      {notification?.type === "petDeath" && (
+        <PetDeathNotification
+          petName={notification.petName}
+          speciesId={notification.speciesId}
+          cause={notification.cause}
+          ageTicks={notification.ageTicks}
+          onDismiss={actions.dismissNotification}
+        />
+      )}
+    </>
+  );
 
-      const playerCombatant = createCombatantFromPet(prev.pet, true);
-      const enemyCombatant = createWildCombatant(enemySpeciesId, enemyLevel);
-      const battleState = initializeBattle(playerCombatant, enemyCombatant);
+  // Show adoption screen if the pet has died
+  if (!state.pet) {
+    const previousPet = state.memorial[state.memorial.length - 1];
+    return (
+      <>
+        <NewGameScreen
+          onStartGame={actions.adoptPet}
+          previousPetName={previousPet?.name}
+          unlocks={state.unlocks}
+        />
+        {renderOverlays()}
+      </>
+    );
+  }
 
-      return {
-        ...prev,
-        pet: { ...prev.pet, activityState: "battling" as const },
-        activeBattle: { enemySpeciesId, enemyLevel, battleState },
-        // Clear stale battle events to prevent animation replay
-        pendingEvents: clearBattleEvents(prev.pendingEvents),
-      };
+  // Handle starting a battle (the engine sets up the battle state)
+  const handleStartBattle = (enemySpeciesId: string, enemyLevel: number) => {
+    actions.dispatchBattleAction({
+      type: "BATTLE_START",
+      payload: { enemySpeciesId, enemyLevel },
     });
-
     onTabChange("battle");
   };
 
-  // Handle battle end
-  const handleBattleEnd = (victory: boolean, rewards: BattleRewards) => {
-    // Reset pet activity state, clear battle, and apply rewards
-    actions.updateState((prev) => {
-      // First reset activity state, clear battle, and clear battle events
-      const stateWithIdlePet = {
-        ...prev,
-        pet: prev.pet
-          ? { ...prev.pet, activityState: "idle" as const }
-          : prev.pet,
-        activeBattle: undefined,
-        // Clear battle events to prevent animation replay in next battle
-        pendingEvents: clearBattleEvents(prev.pendingEvents),
-      };
-
-      if (!victory) {
-        return stateWithIdlePet;
-      }
-
-      // Award coins
-      const stateWithCoins = {
-        ...stateWithIdlePet,
-        player: {
-          ...stateWithIdlePet.player,
-          currency: {
-            ...stateWithIdlePet.player.currency,
-            coins: stateWithIdlePet.player.currency.coins + rewards.coins,
-          },
-        },
-      };
-
-      // Update quest progress for defeating the enemy
-      // Use specific species ID if available, otherwise use "any"
-      // Note: objectives with target "any" will match any species ID
-      const defeatedTarget = prev.activeBattle?.enemySpeciesId ?? "any";
-      const finalState = updateQuestProgress(
-        stateWithCoins,
-        ObjectiveType.Defeat,
-        defeatedTarget,
-      );
-
-      return finalState;
-    });
-
-    onTabChange("exploration");
-  };
-
-  // Handle fleeing from battle
-  const handleFlee = () => {
-    // Reset pet activity state, clear battle, and clear battle events
-    actions.updateState((prev) => ({
-      ...prev,
-      pet: prev.pet
-        ? { ...prev.pet, activityState: "idle" as const }
-        : prev.pet,
-      activeBattle: undefined,
-      pendingEvents: clearBattleEvents(prev.pendingEvents),
-    }));
-
-    onTabChange("exploration");
-  };
-
   const renderScreen = () => {
     // Battle screen (special case - not in normal navigation)
     if (activeTab === "battle" && activeBattle) {
       return (
         <BattleScreen
           battleState={activeBattle.battleState}
-          onBattleEnd={handleBattleEnd}
-          onFlee={handleFlee}
           battleEvents={battleEvents}
           dispatch={actions.dispatchBattleAction}
+          inventory={state.player.inventory}
+          rewards={selectBattleRewards(state)}
         />
       );
     }
@@ -204,15 +254,19 @@ function GameContent({
       case "inventory":
         return <InventoryScreen />;
       case "map":
-        return <MapScreen />;
+        return <MapScreen onBattleStarted={() => onTabChange("battle")} />;
       case "exploration":
         return <ExplorationScreen onStartBattle={handleStartBattle} />;
       case "training":
         return <TrainingScreen />;
+      case "moves":
+        return <MovesScreen />;
       case "skills":
         return <SkillsScreen />;
       case "quests":
         return <QuestScreen />;
+      case "achievements":
+        return <AchievementsScreen />;
       case "menu":
         return <MenuScreen />;
       case "battle":
@@ -229,37 +283,7 @@ function GameContent({
   return (
     <Layout activeTab={activeTab} onTabChange={onTabChange}>
       <div className={isBattleActive ? "" : "pb-20"}>{renderScreen()}</div>
-      {offlineReport && (
-        <OfflineReport
-          report={offlineReport}
-          onDismiss={actions.dismissOfflineReport}
-        />
-      )}
-      {notification?.type === "stageTransition" && (
-        <StageTransitionNotification
-          previousStage={notification.previousStage}
-          newStage={notification.newStage}
-          petName={notification.petName}
-          onDismiss={actions.dismissNotification}
-        />
-      )}
-      {notification?.type === "trainingComplete" && (
-        <TrainingCompleteNotification
-          facilityName={notification.facilityName}
-          statsGained={notification.statsGained}
-          petName={notification.petName}
-          onDismiss={actions.dismissNotification}
-        />
-      )}
-      {notification?.type === "explorationComplete" && (
-        <ExplorationCompleteNotification
-          locationName={notification.locationName}
-          itemsFound={notification.itemsFound}
-          message={notification.message}
-          petName={notification.petName}
-          onDismiss={actions.dismissNotification}
-        />
-      )}
+      {renderOverlays()}
     </Layout>
   );
 }
@@ -0,0 +1,84 @@
+/**
+ * Achievement card showing progress toward a single achievement.
+ */
+
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  type AchievementProgress,
+  describeAchievementReward,
+} from "@/game/core/achievements";
+import { AchievementsUI } from "@/game/data/uiText";
+import type { Achievement } from "@/game/types/achievement";
+import type { Timestamp } from "@/game/types/common";
+import { cn } from "@/lib/utils";
+
+interface AchievementCardProps {
+  achievement: Achievement;
+  progress: AchievementProgress;
+  /** When the achievement was unlocked (undefined while locked) */
+  unlockedAt?: Timestamp;
+}
+
+/**
+ * Displays an achievement with its progress bar and rewards.
+ */
+export function AchievementCard({
+  achievement,
+  progress,
+  unlockedAt,
+}: AchievementCardProps) {
+  const isUnlocked = unlockedAt !== undefined;
+  const percent =
+    progress.target > 0
+      ? Math.floor((progress.current / progress.target) * 100)
+      : 100;
+
+  return (
+    <Card className={cn("overflow-hidden", !isUnlocked && "opacity-80")}>
+      <CardContent className="pt-4 pb-3 px-4 space-y-2">
+        <div className="flex items-start gap-3">
+          <span className={cn("text-2xl", !isUnlocked && "grayscale")}>
+            {achievement.emoji}
+          </span>
+          <div className="min-w-0 flex-1">
+            <div className="font-semibold">{achievement.name}</div>
+            <p className="text-sm text-muted-foreground">
+              {achievement.description}
+            </p>
+          </div>
+        </div>
+
+        {/* Progress bar */}
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {isUnlocked
+                ? AchievementsUI.unlockedOn(
+                    new Date(unlockedAt).toLocaleDateString(),
+                  )
+                : `${percent}%`}
+            </span>
+            <span>
+              {progress.current} / {progress.target}
+            </span>
+          </div>
+          <div className="h-2 bg-muted rounded-full overflow-hidden">
+            <div
+              className={cn(
+                "h-full transition-all duration-300",
+                isUnlocked ? "bg-green-500" : "bg-primary",
+              )}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+
+        {/* Rewards */}
+        <div className="text-xs text-muted-foreground">
+          {AchievementsUI.rewardsLabel}:{" "}
+          {achievement.rewards.map(describeAchievementReward).join(" · ")}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
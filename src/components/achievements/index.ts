@@ -0,0 +1,5 @@
+/**
+ * Export all achievement components.
+ */
+
+export { AchievementCard } from "./AchievementCard";
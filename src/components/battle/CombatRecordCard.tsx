@@ -0,0 +1,108 @@
+/**
+ * Battle statistics panel showing the player's combat record.
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getLocation } from "@/game/data/locations";
+import { getSpeciesById } from "@/game/data/species";
+import type { CombatRecord, WinLossRecord } from "@/game/types/combatRecord";
+
+interface CombatRecordCardProps {
+  record: CombatRecord;
+}
+
+/**
+ * A labelled statistic.
+ */
+function Stat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Wins and losses per species or location, most battles first.
+ */
+function ResultList({
+  title,
+  results,
+  getName,
+}: {
+  title: string;
+  results: Record<string, WinLossRecord>;
+  getName: (id: string) => string;
+}) {
+  const entries = Object.entries(results).sort(
+    ([, a], [, b]) => b.wins + b.losses - (a.wins + a.losses),
+  );
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="font-semibold">{title}</h4>
+      {entries.map(([id, result]) => (
+        <Stat
+          key={id}
+          label={getName(id)}
+          value={`${result.wins}W / ${result.losses}L`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Displays wins, losses, streaks and per-species and per-location results.
+ */
+export function CombatRecordCard({ record }: CombatRecordCardProps) {
+  const totalBattles = record.wins + record.losses + record.fled;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <span>⚔️</span>
+          <span>Battle Record</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {totalBattles === 0 ? (
+          <p className="text-muted-foreground text-center">
+            No battles fought yet.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <Stat label="Wins" value={record.wins} />
+              <Stat label="Losses" value={record.losses} />
+              <Stat label="Fled" value={record.fled} />
+              <Stat
+                label="Current win streak"
+                value={record.currentWinStreak}
+              />
+              <Stat label="Best win streak" value={record.bestWinStreak} />
+              <Stat
+                label="Highest level defeated"
+                value={record.highestLevelDefeated || "-"}
+              />
+              <Stat label="Damage dealt" value={record.totalDamageDealt} />
+            </div>
+            <ResultList
+              title="By Species"
+              results={record.bySpecies}
+              getName={(id) => getSpeciesById(id)?.name ?? id}
+            />
+            <ResultList
+              title="By Location"
+              results={record.byLocation}
+              getName={(id) => getLocation(id)?.name ?? id}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
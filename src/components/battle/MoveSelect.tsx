@@ -2,13 +2,22 @@
  * Move selection component for battle.
  */
 
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { type Combatant, canUseMove } from "@/game/core/battle/turn";
+import { getItemById } from "@/game/data/items";
 import {
   DamageType,
   type DamageType as DamageTypeValue,
 } from "@/game/types/constants";
+import type { Inventory } from "@/game/types/gameState";
+import {
+  type BattleItem,
+  isBattleItem,
+  isMedicineItem,
+  type MedicineItem,
+} from "@/game/types/item";
 import type { Move, MoveSlot } from "@/game/types/move";
 import { cn } from "@/lib/utils";
 
@@ -25,40 +34,146 @@ function getDamageTypeEmoji(type: DamageTypeValue): string {
   return DAMAGE_TYPE_EMOJIS[type] ?? "💥";
 }
 
+interface BattleItemOption {
+  item: BattleItem | MedicineItem;
+  quantity: number;
+}
+
+/**
+ * Get the battle items and medicine in the inventory.
+ */
+function getBattleItemOptions(inventory: Inventory): BattleItemOption[] {
+  const options: BattleItemOption[] = [];
+  for (const invItem of inventory.items) {
+    const item = getItemById(invItem.itemId);
+    if (item && (isBattleItem(item) || isMedicineItem(item))) {
+      options.push({ item, quantity: invItem.quantity });
+    }
+  }
+  return options;
+}
+
 interface MoveSelectProps {
   combatant: Combatant;
   onSelectMove: (move: Move) => void;
+  /** Player inventory for the item picker */
+  inventory?: Inventory;
+  onUseItem?: (itemId: string) => void;
   disabled?: boolean;
 }
 
 /**
  * Displays available moves for the player to select.
+ * When an inventory is provided, battle items and medicine can be used instead.
  */
 export function MoveSelect({
   combatant,
   onSelectMove,
+  inventory,
+  onUseItem,
   disabled = false,
 }: MoveSelectProps) {
+  const [showItems, setShowItems] = useState(false);
+  const canUseItems = inventory !== undefined && onUseItem !== undefined;
+  const itemOptions = canUseItems ? getBattleItemOptions(inventory) : [];
+
   return (
     <Card>
-      <CardHeader className="py-2 sm:pb-2">
-        <CardTitle className="text-sm sm:text-base">Select Move</CardTitle>
+      <CardHeader className="py-2 sm:pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm sm:text-base">
+          {showItems ? "Use Item" : "Select Move"}
+        </CardTitle>
+        {canUseItems && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setShowItems(!showItems)}
+          >
+            {showItems ? "⚔️ Moves" : "🎒 Items"}
+          </Button>
+        )}
       </CardHeader>
       <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-1.5 sm:gap-2 py-2 sm:py-4">
-        {combatant.moveSlots.map((slot) => (
-          <MoveButton
-            key={slot.move.id}
-            slot={slot}
-            combatant={combatant}
-            onSelect={() => onSelectMove(slot.move)}
-            disabled={disabled}
-          />
-        ))}
+        {showItems && canUseItems ? (
+          itemOptions.length === 0 ? (
+            <p className="text-xs sm:text-sm text-muted-foreground sm:col-span-2">
+              No battle items or medicine in inventory.
+            </p>
+          ) : (
+            itemOptions.map(({ item, quantity }) => (
+              <ItemButton
+                key={item.id}
+                item={item}
+                quantity={quantity}
+                onSelect={() => onUseItem(item.id)}
+                disabled={disabled}
+              />
+            ))
+          )
+        ) : (
+          combatant.moveSlots.map((slot) => (
+            <MoveButton
+              key={slot.move.id}
+              slot={slot}
+              combatant={combatant}
+              onSelect={() => onSelectMove(slot.move)}
+              disabled={disabled}
+            />
+          ))
+        )}
       </CardContent>
     </Card>
   );
 }
 
+interface ItemButtonProps {
+  item: BattleItem | MedicineItem;
+  quantity: number;
+  onSelect: () => void;
+  disabled: boolean;
+}
+
+/**
+ * Get a short summary of what a battle item or medicine does.
+ */
+function getItemEffectSummary(item: BattleItem | MedicineItem): string {
+  if (isBattleItem(item)) {
+    return `+${item.modifierValue}% ${item.statModifier} (${item.duration} turns)`;
+  }
+  if (item.isFullRestore) return "Full HP, cures all";
+  const parts: string[] = [];
+  if (item.healAmount) parts.push(`+${item.healAmount} HP`);
+  if (item.cureStatus?.length)
+    parts.push(`Cures ${item.cureStatus.join(", ")}`);
+  return parts.join(", ");
+}
+
+function ItemButton({ item, quantity, onSelect, disabled }: ItemButtonProps) {
+  return (
+    <Button
+      variant="outline"
+      className="h-auto py-1.5 px-2 sm:py-2 sm:px-3 flex flex-col items-start text-left gap-0.5 sm:gap-1"
+      onClick={onSelect}
+      disabled={disabled}
+      title={item.description}
+    >
+      <div className="flex items-center gap-1 w-full">
+        <span className="text-xs sm:text-sm">{item.icon}</span>
+        <span className="font-medium text-xs sm:text-sm flex-1 truncate">
+          {item.name}
+        </span>
+        <span className="text-[10px] sm:text-xs text-muted-foreground">
+          x{quantity}
+        </span>
+      </div>
+      <div className="text-[10px] sm:text-xs text-muted-foreground w-full truncate">
+        {getItemEffectSummary(item)}
+      </div>
+    </Button>
+  );
+}
+
 interface MoveButtonProps {
   slot: MoveSlot;
   combatant: Combatant;
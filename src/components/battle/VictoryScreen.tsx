@@ -5,6 +5,9 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import type { BattleRewards } from "@/game/core/battle/battle";
+import { isValidSkillType } from "@/game/core/exploration/exploration";
+import { getItemById } from "@/game/data/items";
+import { getSkillDisplayName, getSkillEmoji } from "@/game/types/skill";
 import { cn } from "@/lib/utils";
 
 interface VictoryScreenProps {
@@ -21,6 +24,8 @@ export function VictoryScreen({
   rewards,
   onContinue,
 }: VictoryScreenProps) {
+  const skillXp = Object.entries(rewards.skillXp).filter(([, xp]) => xp > 0);
+
   return (
     <div className="flex flex-col items-center justify-center h-full gap-6 p-4">
       <Card
@@ -40,7 +45,10 @@ export function VictoryScreen({
               <p className="text-center text-muted-foreground">
                 You won the battle!
               </p>
-              {(rewards.coins > 0 || rewards.items.length > 0) && (
+              {(rewards.coins > 0 ||
+                rewards.experience > 0 ||
+                rewards.items.length > 0 ||
+                skillXp.length > 0) && (
                 <div className="space-y-2">
                   <h3 className="font-semibold text-sm">Rewards</h3>
                   {rewards.coins > 0 && (
@@ -49,17 +57,53 @@ export function VictoryScreen({
                       <span>{rewards.coins} coins</span>
                     </div>
                   )}
-                  {rewards.items.map((item) => (
+                  {rewards.experience > 0 && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <span>⭐</span>
+                      <span>{rewards.experience} XP</span>
+                    </div>
+                  )}
+                  {skillXp.map(([skillId, xp]) => (
                     <div
-                      key={item.itemId}
+                      key={skillId}
                       className="flex items-center gap-2 text-sm"
                     >
-                      <span>📦</span>
                       <span>
-                        {item.itemId} x{item.quantity}
+                        {isValidSkillType(skillId)
+                          ? getSkillEmoji(skillId)
+                          : "📈"}
+                      </span>
+                      <span>
+                        {xp}{" "}
+                        {isValidSkillType(skillId)
+                          ? getSkillDisplayName(skillId)
+                          : skillId}{" "}
+                        XP
                       </span>
                     </div>
                   ))}
+                  {rewards.items.map((drop) => {
+                    const item = getItemById(drop.itemId);
+                    return (
+                      <div
+                        key={drop.itemId}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <span>{item?.icon ?? "📦"}</span>
+                        <span>
+                          {item?.name ?? drop.itemId} x{drop.quantity}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  {rewards.overflowNotes?.map((note) => (
+                    <p
+                      key={note}
+                      className="text-xs text-orange-600 dark:text-orange-400"
+                    >
+                      {note}
+                    </p>
+                  ))}
                 </div>
               )}
             </>
@@ -4,6 +4,7 @@
 
 export { BattleArena } from "./BattleArena";
 export { BattleLog } from "./BattleLog";
+export { CombatRecordCard } from "./CombatRecordCard";
 export { MoveSelect } from "./MoveSelect";
 export { PetBattleCard } from "./PetBattleCard";
 export { VictoryScreen } from "./VictoryScreen";
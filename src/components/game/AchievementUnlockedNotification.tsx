@@ -0,0 +1,82 @@
+/**
+ * Achievement unlocked notification component.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getAchievement } from "@/game/data/achievements";
+import { cn } from "@/lib/utils";
+
+interface AchievementUnlockedNotificationProps {
+  achievementId: string;
+  achievementName: string;
+  rewards: string[];
+  onDismiss: () => void;
+}
+
+/**
+ * Display a notification when an achievement is unlocked.
+ */
+export function AchievementUnlockedNotification({
+  achievementId,
+  achievementName,
+  rewards,
+  onDismiss,
+}: AchievementUnlockedNotificationProps) {
+  const [isAnimating, setIsAnimating] = useState(true);
+  const achievement = getAchievement(achievementId);
+
+  // Reset animation after initial display
+  useEffect(() => {
+    const timer = setTimeout(() => setIsAnimating(false), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-sm",
+          isAnimating && "animate-in zoom-in-95 duration-300",
+        )}
+      >
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">
+            {achievement?.emoji ?? "🏆"}
+          </div>
+          <DialogTitle className="text-xl text-center">
+            Achievement Unlocked: {achievementName}!
+          </DialogTitle>
+          {achievement && (
+            <DialogDescription className="text-center">
+              {achievement.description}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rewards.length > 0 && (
+            <div className="bg-muted/50 rounded-lg p-3">
+              <h4 className="text-sm font-medium mb-2">Rewards</h4>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {rewards.map((reward) => (
+                  <li key={reward}>{reward}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
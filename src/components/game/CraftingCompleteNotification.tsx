@@ -0,0 +1,81 @@
+/**
+ * Crafting complete notification component.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getItemById } from "@/game/data/items";
+import { cn } from "@/lib/utils";
+
+interface CraftingCompleteNotificationProps {
+  recipeName: string;
+  itemId: string;
+  quantity: number;
+  bonusOutput: boolean;
+  onDismiss: () => void;
+}
+
+/**
+ * Display a notification when a timed craft finishes.
+ */
+export function CraftingCompleteNotification({
+  recipeName,
+  itemId,
+  quantity,
+  bonusOutput,
+  onDismiss,
+}: CraftingCompleteNotificationProps) {
+  const [isAnimating, setIsAnimating] = useState(true);
+  const item = getItemById(itemId);
+
+  // Reset animation after initial display
+  useEffect(() => {
+    const timer = setTimeout(() => setIsAnimating(false), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-sm",
+          isAnimating && "animate-in zoom-in-95 duration-300",
+        )}
+      >
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">{item?.icon ?? "🔨"}</div>
+          <DialogTitle className="text-xl text-center">
+            Crafting Complete!
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            Your {recipeName} is ready.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-center">
+            Received{" "}
+            <span className="font-semibold">
+              {quantity}x {item?.name ?? itemId}
+            </span>
+          </p>
+          {bonusOutput && (
+            <p className="text-xs text-muted-foreground text-center">
+              Your Crafting skill produced a bonus!
+            </p>
+          )}
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Pet level up notification component.
+ */
+
+import { useEffect, useState } from "react";
+import { StatsGainedDisplay } from "@/components/shared";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { BattleStats } from "@/game/types/stats";
+import { cn } from "@/lib/utils";
+
+interface LevelUpNotificationProps {
+  newLevel: number;
+  statsGained: Partial<BattleStats>;
+  petName: string;
+  onDismiss: () => void;
+}
+
+/**
+ * Display a notification when the pet gains a level.
+ */
+export function LevelUpNotification({
+  newLevel,
+  statsGained,
+  petName,
+  onDismiss,
+}: LevelUpNotificationProps) {
+  const [isAnimating, setIsAnimating] = useState(true);
+
+  // Reset animation after initial display
+  useEffect(() => {
+    const timer = setTimeout(() => setIsAnimating(false), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-sm",
+          isAnimating && "animate-in zoom-in-95 duration-300",
+        )}
+      >
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">⭐</div>
+          <DialogTitle className="text-xl text-center">
+            Level {newLevel}!
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            <span className="font-semibold text-foreground">{petName}</span>{" "}
+            reached level {newLevel}!
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <StatsGainedDisplay statsGained={statsGained} />
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Location discovered notification component.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getLocation } from "@/game/data/locations";
+import { cn } from "@/lib/utils";
+
+interface LocationDiscoveredNotificationProps {
+  locationId: string;
+  locationName: string;
+  onDismiss: () => void;
+}
+
+/**
+ * Display a notification when a hidden location is discovered.
+ */
+export function LocationDiscoveredNotification({
+  locationId,
+  locationName,
+  onDismiss,
+}: LocationDiscoveredNotificationProps) {
+  const [isAnimating, setIsAnimating] = useState(true);
+  const location = getLocation(locationId);
+
+  // Reset animation after initial display
+  useEffect(() => {
+    const timer = setTimeout(() => setIsAnimating(false), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-sm",
+          isAnimating && "animate-in zoom-in-95 duration-300",
+        )}
+      >
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">
+            {location?.emoji ?? "🗺️"}
+          </div>
+          <DialogTitle className="text-xl text-center">
+            Discovered: {locationName}!
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            A hidden location has been added to your map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {location && (
+            <p className="text-sm text-muted-foreground text-center">
+              {location.description}
+            </p>
+          )}
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Move learned notification component.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getMoveById } from "@/game/data/moves";
+import type { MoveLearnSource } from "@/game/types/move";
+import { cn } from "@/lib/utils";
+
+interface MoveLearnedNotificationProps {
+  moveId: string;
+  moveName: string;
+  source: MoveLearnSource;
+  petName: string;
+  onDismiss: () => void;
+}
+
+/**
+ * Description of how the move was learned.
+ */
+const SOURCE_DESCRIPTIONS: Record<MoveLearnSource, string> = {
+  training: "picked up a new move during training",
+  quest: "was taught a new move as a quest reward",
+  battle: "learned a new move from the heat of battle",
+  level: "learned a new move by reaching a new level",
+};
+
+/**
+ * Display a notification when the pet learns a new move.
+ */
+export function MoveLearnedNotification({
+  moveId,
+  moveName,
+  source,
+  petName,
+  onDismiss,
+}: MoveLearnedNotificationProps) {
+  const [isAnimating, setIsAnimating] = useState(true);
+  const move = getMoveById(moveId);
+
+  // Reset animation after initial display
+  useEffect(() => {
+    const timer = setTimeout(() => setIsAnimating(false), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-sm",
+          isAnimating && "animate-in zoom-in-95 duration-300",
+        )}
+      >
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">✨</div>
+          <DialogTitle className="text-xl text-center">
+            New Move: {moveName}!
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            <span className="font-semibold text-foreground">{petName}</span>{" "}
+            {SOURCE_DESCRIPTIONS[source]}!
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {move && (
+            <p className="text-sm text-muted-foreground text-center">
+              {move.description}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground text-center">
+            Manage equipped moves from the Moves tab.
+          </p>
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
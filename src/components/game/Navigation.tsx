@@ -13,8 +13,10 @@ export type NavigationTab =
   | "map"
   | "exploration"
   | "training"
+  | "moves"
   | "skills"
   | "quests"
+  | "achievements"
   | "menu"
   | "battle";
 
@@ -29,8 +31,10 @@ const TABS: { id: NavigationTab; label: string; icon: string }[] = [
   { id: "map", label: "Map", icon: "🗺️" },
   { id: "exploration", label: "Explore", icon: "🌿" },
   { id: "training", label: "Train", icon: "💪" },
+  { id: "moves", label: "Moves", icon: "⚔️" },
   { id: "skills", label: "Skills", icon: "⭐" },
   { id: "quests", label: "Quests", icon: "📜" },
+  { id: "achievements", label: "Awards", icon: "🏆" },
   { id: "menu", label: "Menu", icon: "⚙️" },
 ];
 
@@ -13,9 +13,15 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { getItemById } from "@/game/data/items";
-import { toDisplay, toDisplayCare } from "@/game/types/common";
+import {
+  formatTicksAsTime,
+  toDisplay,
+  toDisplayCare,
+} from "@/game/types/common";
+import { DEATH_CAUSE_DISPLAY_NAMES } from "@/game/types/memorial";
 import type {
   OfflineExplorationResult,
+  OfflinePetDeathResult,
   OfflineReport as OfflineReportType,
   OfflineTrainingResult,
 } from "@/game/types/offline";
@@ -180,6 +186,31 @@ function TrainingResultCard({ result }: { result: OfflineTrainingResult }) {
   );
 }
 
+/**
+ * Display the death of the pet during offline time.
+ */
+function PetDeathCard({ petDeath }: { petDeath: OfflinePetDeathResult }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-2xl">🪦</span>
+        <div>
+          <p className="font-medium">{petDeath.petName} has passed away</p>
+          <p className="text-sm text-muted-foreground">
+            Age {formatTicksAsTime(petDeath.ageTicks)}
+          </p>
+        </div>
+      </div>
+      <div className="bg-destructive/10 rounded-lg p-3 text-sm">
+        <span className="text-muted-foreground">Cause: </span>
+        <span className="text-destructive font-medium">
+          {DEATH_CAUSE_DISPLAY_NAMES[petDeath.cause]}
+        </span>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Page types for the offline report.
  */
@@ -198,8 +229,11 @@ export function OfflineReport({ report, onDismiss }: OfflineReportProps) {
     maxStats,
     poopBefore,
     poopAfter,
+    levelBefore,
+    levelAfter,
     explorationResults,
     trainingResults,
+    petDeath,
   } = report;
 
   const hasExplorationResults = explorationResults.length > 0;
@@ -308,6 +342,8 @@ export function OfflineReport({ report, onDismiss }: OfflineReportProps) {
 
         {currentPage === "stats" && (
           <>
+            {petDeath && <PetDeathCard petDeath={petDeath} />}
+
             {hasPetInfo && (
               <div className="space-y-4">
                 <p className="text-sm">
@@ -353,6 +389,17 @@ export function OfflineReport({ report, onDismiss }: OfflineReportProps) {
                       </span>
                     </div>
                   )}
+
+                  {levelBefore !== null &&
+                    levelAfter !== null &&
+                    levelAfter > levelBefore && (
+                      <div className="flex justify-between items-center py-1">
+                        <span className="text-muted-foreground">Level</span>
+                        <span className="text-green-500">
+                          {levelBefore} → {levelAfter}
+                        </span>
+                      </div>
+                    )}
                 </div>
 
                 {(afterStats.satiety === 0 ||
@@ -0,0 +1,74 @@
+/**
+ * Pet death notification component.
+ */
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getSpeciesById } from "@/game/data/species";
+import { formatTicksAsTime, type Tick } from "@/game/types/common";
+import {
+  DEATH_CAUSE_DISPLAY_NAMES,
+  type DeathCause,
+} from "@/game/types/memorial";
+
+interface PetDeathNotificationProps {
+  petName: string;
+  speciesId: string;
+  cause: DeathCause;
+  ageTicks: Tick;
+  onDismiss: () => void;
+}
+
+/**
+ * Display a notification when the pet has died.
+ */
+export function PetDeathNotification({
+  petName,
+  speciesId,
+  cause,
+  ageTicks,
+  onDismiss,
+}: PetDeathNotificationProps) {
+  const speciesName = getSpeciesById(speciesId)?.name ?? speciesId;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">🪦</div>
+          <DialogTitle className="text-xl text-center">
+            Farewell, {petName}
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            <span className="font-semibold text-foreground">{petName}</span> has
+            passed away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="text-muted-foreground">Species:</div>
+            <div>{speciesName}</div>
+            <div className="text-muted-foreground">Age:</div>
+            <div>{formatTicksAsTime(ageTicks)}</div>
+            <div className="text-muted-foreground">Cause:</div>
+            <div>{DEATH_CAUSE_DISPLAY_NAMES[cause]}</div>
+          </div>
+          <p className="text-sm text-muted-foreground text-center">
+            {petName} will be remembered in the memorial. Your items, coins,
+            skills and quests are waiting for your next companion.
+          </p>
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
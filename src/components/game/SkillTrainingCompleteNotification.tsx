@@ -0,0 +1,89 @@
+/**
+ * Skill training complete notification component.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  getSkillDisplayName,
+  getSkillEmoji,
+  type SkillType,
+} from "@/game/types/skill";
+import { cn } from "@/lib/utils";
+
+interface SkillTrainingCompleteNotificationProps {
+  offerName: string;
+  npcName: string;
+  skillType: SkillType;
+  xpGained: number;
+  newLevel?: number;
+  onDismiss: () => void;
+}
+
+/**
+ * Display a notification when a skill-training session finishes.
+ */
+export function SkillTrainingCompleteNotification({
+  offerName,
+  npcName,
+  skillType,
+  xpGained,
+  newLevel,
+  onDismiss,
+}: SkillTrainingCompleteNotificationProps) {
+  const [isAnimating, setIsAnimating] = useState(true);
+  const skillName = getSkillDisplayName(skillType);
+
+  // Reset animation after initial display
+  useEffect(() => {
+    const timer = setTimeout(() => setIsAnimating(false), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-sm",
+          isAnimating && "animate-in zoom-in-95 duration-300",
+        )}
+      >
+        <DialogHeader className="text-center">
+          <div className="text-6xl mb-2 text-center">
+            {getSkillEmoji(skillType)}
+          </div>
+          <DialogTitle className="text-xl text-center">
+            Training Complete!
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            {npcName} finished your {offerName} session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-center">
+            Gained{" "}
+            <span className="font-semibold">
+              {xpGained} {skillName} XP
+            </span>
+          </p>
+          {newLevel !== undefined && (
+            <p className="text-xs text-muted-foreground text-center">
+              {skillName} reached level {newLevel}!
+            </p>
+          )}
+          <Button onClick={onDismiss} className="w-full">
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
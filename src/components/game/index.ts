@@ -2,10 +2,17 @@
  * Re-export game UI components.
  */
 
+export { AchievementUnlockedNotification } from "./AchievementUnlockedNotification";
+export { CraftingCompleteNotification } from "./CraftingCompleteNotification";
 export { ExplorationCompleteNotification } from "./ExplorationCompleteNotification";
 export { Header } from "./Header";
 export { Layout } from "./Layout";
+export { LevelUpNotification } from "./LevelUpNotification";
+export { LocationDiscoveredNotification } from "./LocationDiscoveredNotification";
+export { MoveLearnedNotification } from "./MoveLearnedNotification";
 export { Navigation, type NavigationTab } from "./Navigation";
 export { OfflineReport } from "./OfflineReport";
+export { PetDeathNotification } from "./PetDeathNotification";
+export { SkillTrainingCompleteNotification } from "./SkillTrainingCompleteNotification";
 export { StageTransitionNotification } from "./StageTransitionNotification";
 export { TrainingCompleteNotification } from "./TrainingCompleteNotification";
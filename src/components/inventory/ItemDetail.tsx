@@ -2,16 +2,23 @@
  * Detail panel for displaying item information.
  */
 
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatTicksAsTime, toDisplay } from "@/game/types/common";
 import { ItemCategory, Rarity } from "@/game/types/constants";
 import type { InventoryItem } from "@/game/types/gameState";
-import type { Item } from "@/game/types/item";
-import { isToyItem } from "@/game/types/item";
+import type { EquipmentSpecialEffect, Item } from "@/game/types/item";
+import { isEquipmentItem, isToyItem } from "@/game/types/item";
 
 interface ItemDetailProps {
   inventoryItem: InventoryItem;
   itemDef: Item;
+  /** Called when the player equips the item (equipment only) */
+  onEquip?: () => void;
+  /** Called when the player moves the item to or from storage */
+  onTransfer?: () => void;
+  /** Label for the transfer button */
+  transferLabel?: string;
 }
 
 /**
@@ -58,6 +65,15 @@ function getRarityTextClass(rarity: Rarity): string {
   }
 }
 
+/**
+ * Display labels for equipment special effects.
+ */
+const SPECIAL_EFFECT_LABELS: Record<EquipmentSpecialEffect["type"], string> = {
+  critRate: "Crit Rate",
+  dropRate: "Drop Rate",
+  trainingBonus: "Training Gains",
+};
+
 /**
  * Get item-specific stat details.
  */
@@ -105,8 +121,32 @@ function getItemStats(itemDef: Item): { label: string; value: string }[] {
         value: `${itemDef.poopRemoved}`,
       });
       break;
+    case ItemCategory.Equipment:
+      stats.push({
+        label: "Slot",
+        value: itemDef.slot.charAt(0).toUpperCase() + itemDef.slot.slice(1),
+      });
+      for (const [stat, bonus] of Object.entries(itemDef.statBonuses)) {
+        stats.push({
+          label: stat.charAt(0).toUpperCase() + stat.slice(1),
+          value: `+${bonus}`,
+        });
+      }
+      for (const effect of itemDef.specialEffects ?? []) {
+        stats.push({
+          label: SPECIAL_EFFECT_LABELS[effect.type],
+          value: `+${effect.value}%`,
+        });
+      }
+      stats.push({
+        label: "Wears From",
+        value:
+          itemDef.degradeActivity.charAt(0).toUpperCase() +
+          itemDef.degradeActivity.slice(1),
+      });
+      break;
     default:
-      // Future item types (medicine, battle, equipment, material, key) will be handled here
+      // Future item types (medicine, battle, material, key) will be handled here
       break;
   }
 
@@ -116,9 +156,18 @@ function getItemStats(itemDef: Item): { label: string; value: string }[] {
 /**
  * Display detailed information about a selected item.
  */
-export function ItemDetail({ inventoryItem, itemDef }: ItemDetailProps) {
+export function ItemDetail({
+  inventoryItem,
+  itemDef,
+  onEquip,
+  onTransfer,
+  transferLabel,
+}: ItemDetailProps) {
   const durability = inventoryItem.currentDurability;
-  const maxDurability = isToyItem(itemDef) ? itemDef.maxDurability : undefined;
+  const maxDurability =
+    isToyItem(itemDef) || isEquipmentItem(itemDef)
+      ? itemDef.maxDurability
+      : undefined;
   const stats = getItemStats(itemDef);
 
   return (
@@ -179,6 +228,18 @@ export function ItemDetail({ inventoryItem, itemDef }: ItemDetailProps) {
             </div>
           </div>
         )}
+
+        {onEquip && isEquipmentItem(itemDef) && (
+          <Button className="w-full" onClick={onEquip}>
+            Equip
+          </Button>
+        )}
+
+        {onTransfer && transferLabel && (
+          <Button className="w-full" variant="outline" onClick={onTransfer}>
+            {transferLabel}
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
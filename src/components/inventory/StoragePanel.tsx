@@ -0,0 +1,86 @@
+/**
+ * Home storage panel for taking stored items back into the bag.
+ */
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { STORAGE_CAPACITY } from "@/game/core/storage";
+import { getItemById } from "@/game/data/items";
+import { StorageUI } from "@/game/data/uiText";
+import { useGameState } from "@/game/hooks/useGameState";
+import { withdrawItem } from "@/game/state/actions/storage";
+import { selectStorage } from "@/game/state/selectors";
+import { ItemDetail } from "./ItemDetail";
+import { ItemGrid } from "./ItemGrid";
+
+/**
+ * Lists the items in storage. Selecting an item shows its details and lets
+ * the player take the stack back into their bag.
+ */
+export function StoragePanel() {
+  const { state, actions } = useGameState();
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (!state) return null;
+
+  const storage = selectStorage(state);
+  const selectedItem =
+    selectedIndex !== null ? storage.items[selectedIndex] : undefined;
+  const selectedItemDef = selectedItem
+    ? getItemById(selectedItem.itemId)
+    : undefined;
+
+  const handleWithdraw = () => {
+    if (!selectedItem) return;
+    const result = withdrawItem(
+      state,
+      selectedItem.itemId,
+      selectedItem.quantity,
+    );
+    setMessage(result.message);
+    if (result.success) {
+      actions.updateState(() => result.state);
+      setSelectedIndex(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center justify-between">
+            <span>{StorageUI.title}</span>
+            <span className="text-sm font-normal text-muted-foreground">
+              {StorageUI.slotsUsed(storage.items.length, STORAGE_CAPACITY)}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {StorageUI.description}
+          </p>
+          {storage.items.length > 0 ? (
+            <ItemGrid
+              items={storage.items}
+              selectedIndex={selectedIndex}
+              onSelectItem={setSelectedIndex}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">{StorageUI.empty}</p>
+          )}
+          {message && <p className="text-sm">{message}</p>}
+        </CardContent>
+      </Card>
+
+      {selectedItem && selectedItemDef && (
+        <ItemDetail
+          inventoryItem={selectedItem}
+          itemDef={selectedItemDef}
+          onTransfer={handleWithdraw}
+          transferLabel={StorageUI.withdrawLabel}
+        />
+      )}
+    </div>
+  );
+}
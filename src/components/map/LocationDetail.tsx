@@ -5,15 +5,19 @@
 import { NPCDisplay } from "@/components/npc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { innStays } from "@/game/data/innStays";
+import { getLocation } from "@/game/data/locations";
 import { getNpcsAtLocation } from "@/game/data/npcs";
 import {
   FacilityDisplay,
   FacilityDisplayFallback,
   LocationTypeNames,
   LocationUI,
+  RestUI,
 } from "@/game/data/uiText";
+import { formatTicksAsTime, PERCENTAGE_MAX } from "@/game/types/common";
 import type { Location } from "@/game/types/location";
-import { type FacilityType, LocationType } from "@/game/types/location";
+import { FacilityType, LocationType } from "@/game/types/location";
 
 interface LocationDetailProps {
   location: Location;
@@ -21,8 +25,18 @@ interface LocationDetailProps {
   canTravel: boolean;
   travelMessage?: string;
   energyCost?: number;
+  /** Location IDs the travel route passes through, ending with this location */
+  route?: string[];
   onTravel: () => void;
   onNpcClick?: (npcId: string) => void;
+  /** Called to take an inn stay at the current location */
+  onInnStay?: (stayId: string) => void;
+  /** Ticks left in the pet's inn stay (if staying at an inn) */
+  innStayTicksRemaining?: number;
+  /** Called to rest at the current location's rest point */
+  onRestPoint?: () => void;
+  /** Ticks until the current location's rest point can be used again */
+  restPointCooldown?: number;
 }
 
 /**
@@ -67,11 +81,23 @@ export function LocationDetail({
   canTravel,
   travelMessage,
   energyCost,
+  route,
   onTravel,
   onNpcClick,
+  onInnStay,
+  innStayTicksRemaining,
+  onRestPoint,
+  restPointCooldown = 0,
 }: LocationDetailProps) {
   const typeDisplay = getLocationTypeDisplay(location.type);
   const npcs = isCurrentLocation ? getNpcsAtLocation(location.id) : [];
+  const hasInn =
+    isCurrentLocation && location.facilities.includes(FacilityType.Inn);
+  const hasRestPoint =
+    isCurrentLocation && location.facilities.includes(FacilityType.RestPoint);
+  const routeNames = (route ?? []).map(
+    (locationId) => getLocation(locationId)?.name ?? locationId,
+  );
 
   return (
     <Card>
@@ -127,6 +153,70 @@ export function LocationDetail({
           </div>
         )}
 
+        {/* Inn stays (only shown for current location) */}
+        {hasInn && onInnStay && (
+          <div>
+            <h4 className="text-sm font-medium mb-1">
+              {FacilityDisplay[FacilityType.Inn].emoji}{" "}
+              {FacilityDisplay[FacilityType.Inn].name}
+            </h4>
+            {innStayTicksRemaining !== undefined ? (
+              <p className="text-sm text-muted-foreground">
+                {RestUI.resting} · {formatTicksAsTime(innStayTicksRemaining)}{" "}
+                {RestUI.timeRemaining}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {RestUI.innDescription}
+                </p>
+                {innStays.map((stay) => (
+                  <div
+                    key={stay.id}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium">{stay.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatTicksAsTime(stay.durationTicks)}
+                        {stay.careRestore > 0 &&
+                          ` · +${Math.round(stay.careRestore * PERCENTAGE_MAX)}% ${RestUI.careRestore}`}
+                      </div>
+                    </div>
+                    <Button size="sm" onClick={() => onInnStay(stay.id)}>
+                      {RestUI.stayLabel} (🪙 {stay.cost})
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Rest point (only shown for current location) */}
+        {hasRestPoint && onRestPoint && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <h4 className="text-sm font-medium">
+                {FacilityDisplay[FacilityType.RestPoint].emoji}{" "}
+                {FacilityDisplay[FacilityType.RestPoint].name}
+              </h4>
+              <p className="text-xs text-muted-foreground">
+                {restPointCooldown > 0
+                  ? `${RestUI.readyIn} ${formatTicksAsTime(restPointCooldown)}`
+                  : RestUI.restPointDescription}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              disabled={restPointCooldown > 0}
+              onClick={onRestPoint}
+            >
+              {RestUI.restLabel}
+            </Button>
+          </div>
+        )}
+
         {/* NPCs (only shown for current location) */}
         {isCurrentLocation && npcs.length > 0 && (
           <div>
@@ -145,6 +235,24 @@ export function LocationDetail({
           </div>
         )}
 
+        {/* Route Preview (only for routes through other locations) */}
+        {!isCurrentLocation && routeNames.length > 1 && (
+          <div className="space-y-1 text-sm">
+            <div>
+              <span className="text-muted-foreground">{LocationUI.route} </span>
+              <span className="font-medium">{routeNames.join(" → ")}</span>
+            </div>
+            {energyCost !== undefined && (
+              <div>
+                <span className="text-muted-foreground">
+                  {LocationUI.totalEnergy}{" "}
+                </span>
+                <span className="font-medium">⚡ {energyCost}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Travel Button */}
         {!isCurrentLocation && (
           <div className="pt-2">
@@ -2,8 +2,8 @@
  * Dialogue screen component for NPC conversations.
  */
 
-import { useCallback, useMemo, useState } from "react";
-import { DialogueBox } from "@/components/npc";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { DialogueBox, SkillTrainingPanel } from "@/components/npc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -12,8 +12,20 @@ import {
   selectChoice,
   startDialogue,
 } from "@/game/core/dialogue";
-import { completeQuest, startQuest } from "@/game/core/quests/quests";
+import {
+  getAffinityLevel,
+  getNpcRelationship,
+  giftItem,
+  MAX_AFFINITY,
+  talkToNpc,
+} from "@/game/core/relationships";
+import {
+  cancelSkillTraining,
+  startSkillTraining,
+} from "@/game/core/skillTraining";
+import { getItemById } from "@/game/data/items";
 import { getNpc } from "@/game/data/npcs";
+import { RelationshipUI, SkillTrainingUI } from "@/game/data/uiText";
 import { useGameState } from "@/game/hooks/useGameState";
 import { DialogueActionType, DialogueNodeType } from "@/game/types/npc";
 
@@ -21,11 +33,17 @@ interface DialogueScreenProps {
   npcId: string;
   onClose: () => void;
   onOpenShop?: (npcId: string) => void;
+  onOpenCrafting?: (npcId: string) => void;
+  /** Called when a dialogue choice starts a battle */
+  onStartBattle?: () => void;
 }
 
 /** Duration in ms to show error messages */
 const ERROR_DISPLAY_DURATION = 3000;
 
+/** Duration in ms to show action results */
+const NOTICE_DISPLAY_DURATION = 3000;
+
 /**
  * Full-screen dialogue interface for NPC conversations.
  */
@@ -33,10 +51,31 @@ export function DialogueScreen({
   npcId,
   onClose,
   onOpenShop,
+  onOpenCrafting,
+  onStartBattle,
 }: DialogueScreenProps) {
   const npc = getNpc(npcId);
   const { state: gameState, actions } = useGameState();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showGifts, setShowGifts] = useState(false);
+  const [showTraining, setShowTraining] = useState(false);
+
+  // Talking to an NPC for the first time today raises affinity
+  const { updateState } = actions;
+  useEffect(() => {
+    updateState((currentState) => talkToNpc(currentState, npcId));
+  }, [updateState, npcId]);
+
+  const showError = useCallback((message: string) => {
+    setErrorMessage(message);
+    setTimeout(() => setErrorMessage(null), ERROR_DISPLAY_DURATION);
+  }, []);
+
+  const showNotice = useCallback((message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(null), NOTICE_DISPLAY_DURATION);
+  }, []);
 
   // Initialize dialogue state with a single startDialogue call
   const [dialogue, setDialogue] = useState(() => {
@@ -66,38 +105,102 @@ export function DialogueScreen({
     (index: number) => {
       if (!dialogueState) return;
 
+      // The choice's actions run against the game state; if one fails,
+      // the dialogue stays where it is
       const result = selectChoice(dialogueState, index, gameState || undefined);
-      if (result.success && result.state && result.node) {
-        // Handle quest actions BEFORE advancing dialogue
-        if (result.action && gameState) {
-          const questActionMap: Record<
-            string,
-            typeof startQuest | typeof completeQuest
-          > = {
-            [DialogueActionType.StartQuest]: startQuest,
-            [DialogueActionType.CompleteQuest]: completeQuest,
-          };
-
-          const actionFn = questActionMap[result.action.type];
-          if (actionFn) {
-            const questResult = actionFn(gameState, result.action.targetId);
-            if (!questResult.success) {
-              // Show error message to user
-              setErrorMessage(questResult.message);
-              setTimeout(() => setErrorMessage(null), ERROR_DISPLAY_DURATION);
-              return;
-            }
-            actions.updateState(() => questResult.state);
-          }
-        }
+      if (!result.success) {
+        showError(result.message);
+        return;
+      }
+      if (!result.state || !result.node) return;
+
+      const updatedState = result.gameState;
+      if (updatedState) {
+        actions.updateState(() => updatedState);
+      }
+      if (result.notices.length > 0) {
+        showNotice(result.notices.join(" "));
+      }
 
-        // Only advance dialogue after successful quest action (or no action)
-        setDialogue({ state: result.state, node: result.node });
+      const shopAction = result.actions.find(
+        (action) => action.type === DialogueActionType.OpenShop,
+      );
+      if (shopAction) {
+        onOpenShop?.(shopAction.targetId ?? npcId);
+        onClose();
+        return;
       }
+      if (
+        result.actions.some(
+          (action) => action.type === DialogueActionType.StartBattle,
+        )
+      ) {
+        onStartBattle?.();
+        onClose();
+        return;
+      }
+
+      setDialogue({ state: result.state, node: result.node });
     },
-    [dialogueState, gameState, actions],
+    [
+      dialogueState,
+      gameState,
+      actions,
+      npcId,
+      onOpenShop,
+      onStartBattle,
+      onClose,
+      showError,
+      showNotice,
+    ],
   );
 
+  // Handle giving a gift
+  const handleGift = useCallback(
+    (itemId: string) => {
+      actions.updateState((currentState) => {
+        const result = giftItem(currentState, npcId, itemId);
+        if (!result.success) {
+          showError(result.message);
+          return currentState;
+        }
+        showNotice(result.message);
+        setShowGifts(false);
+        return result.state;
+      });
+    },
+    [actions, npcId, showError, showNotice],
+  );
+
+  // Handle starting a skill-training session
+  const handleStartTraining = useCallback(
+    (offerId: string) => {
+      actions.updateState((currentState) => {
+        const result = startSkillTraining(currentState, offerId);
+        if (!result.success) {
+          showError(result.message);
+          return currentState;
+        }
+        showNotice(result.message);
+        return result.state;
+      });
+    },
+    [actions, showError, showNotice],
+  );
+
+  // Handle cancelling the skill-training session
+  const handleCancelTraining = useCallback(() => {
+    actions.updateState((currentState) => {
+      const result = cancelSkillTraining(currentState);
+      if (!result.success) {
+        showError(result.message);
+        return currentState;
+      }
+      showNotice(result.message);
+      return result.state;
+    });
+  }, [actions, showError, showNotice]);
+
   // Filter choices based on conditions
   const availableChoices = useMemo(() => {
     if (!currentNode?.choices) return [];
@@ -105,9 +208,11 @@ export function DialogueScreen({
       .map((choice, index) => ({ choice, index }))
       .filter(({ choice }) => {
         if (!choice.conditions || !gameState) return true;
-        return choice.conditions.every((c) => checkCondition(gameState, c));
+        return choice.conditions.every((c) =>
+          checkCondition(gameState, c, npcId),
+        );
       });
-  }, [currentNode, gameState]);
+  }, [currentNode, gameState, npcId]);
 
   // Handle shop button
   const handleOpenShop = useCallback(() => {
@@ -115,6 +220,12 @@ export function DialogueScreen({
     onClose();
   }, [npcId, onOpenShop, onClose]);
 
+  // Handle crafting button
+  const handleOpenCrafting = useCallback(() => {
+    onOpenCrafting?.(npcId);
+    onClose();
+  }, [npcId, onOpenCrafting, onClose]);
+
   if (!npc) {
     return (
       <Card>
@@ -143,6 +254,14 @@ export function DialogueScreen({
     );
   }
 
+  const relationship = gameState ? getNpcRelationship(gameState, npcId) : null;
+  const giftableItems = gameState
+    ? gameState.player.inventory.items.flatMap((inventoryItem) => {
+        const itemDef = getItemById(inventoryItem.itemId);
+        return itemDef ? [{ inventoryItem, itemDef }] : [];
+      })
+    : [];
+
   return (
     <div className="space-y-4">
       <Card>
@@ -150,20 +269,105 @@ export function DialogueScreen({
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <span className="text-2xl">{npc.emoji}</span>
-              <CardTitle className="text-lg">{npc.name}</CardTitle>
+              <div>
+                <CardTitle className="text-lg">{npc.name}</CardTitle>
+                {relationship && (
+                  <span className="text-xs text-muted-foreground">
+                    {
+                      RelationshipUI.levelNames[
+                        getAffinityLevel(relationship.affinity)
+                      ]
+                    }{" "}
+                    · {RelationshipUI.affinityLabel} {relationship.affinity}/
+                    {MAX_AFFINITY}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              {npc.trainingOffers && npc.trainingOffers.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowTraining((show) => !show)}
+                  aria-label={SkillTrainingUI.trainLabel}
+                  aria-expanded={showTraining}
+                >
+                  🎓
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowGifts((show) => !show)}
+                aria-label={RelationshipUI.giftLabel}
+                aria-expanded={showGifts}
+              >
+                🎁
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                aria-label="Close dialogue"
+              >
+                ✕
+              </Button>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onClose}
-              aria-label="Close dialogue"
-            >
-              ✕
-            </Button>
           </div>
         </CardHeader>
+        {showGifts && relationship && (
+          <CardContent className="space-y-2">
+            <h4 className="font-semibold text-sm">
+              {RelationshipUI.giftLabel}
+            </h4>
+            <p className="text-xs text-muted-foreground">
+              {relationship.giftedToday
+                ? RelationshipUI.alreadyGifted
+                : RelationshipUI.giftDescription}
+            </p>
+            {giftableItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {RelationshipUI.noGifts}
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {giftableItems.map(({ inventoryItem, itemDef }) => (
+                  <Button
+                    key={inventoryItem.itemId}
+                    size="sm"
+                    variant="outline"
+                    disabled={relationship.giftedToday}
+                    onClick={() => handleGift(inventoryItem.itemId)}
+                  >
+                    {itemDef.icon} {itemDef.name} ×{inventoryItem.quantity}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        )}
+        {showTraining && gameState && (
+          <CardContent>
+            <SkillTrainingPanel
+              npc={npc}
+              gameState={gameState}
+              onStart={handleStartTraining}
+              onCancel={handleCancelTraining}
+            />
+          </CardContent>
+        )}
       </Card>
 
+      {/* Action results */}
+      {notice && (
+        <Card className="bg-primary/10 border-primary">
+          <CardContent className="py-2 text-center text-sm">
+            {notice}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Error message */}
       {errorMessage && (
         <Card className="border-destructive bg-destructive/10">
@@ -224,6 +428,20 @@ export function DialogueScreen({
           </div>
         </>
       )}
+
+      {currentNode.type === DialogueNodeType.Crafting && (
+        <>
+          <DialogueBox npc={npc} text={currentNode.text} />
+          <div className="flex flex-col gap-2">
+            <Button className="w-full" onClick={handleOpenCrafting}>
+              Start Crafting
+            </Button>
+            <Button variant="outline" className="w-full" onClick={onClose}>
+              Maybe Later
+            </Button>
+          </div>
+        </>
+      )}
     </div>
   );
 }
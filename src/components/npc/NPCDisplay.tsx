@@ -35,6 +35,10 @@ const ROLE_DISPLAY: Record<NpcRole, { name: string; color: string }> = {
     name: "Lore",
     color: "text-orange-600 dark:text-orange-400",
   },
+  [NpcRole.Crafter]: {
+    name: "Crafter",
+    color: "text-red-600 dark:text-red-400",
+  },
 };
 
 /**
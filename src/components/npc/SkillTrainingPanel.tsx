@@ -0,0 +1,113 @@
+/**
+ * Skill training panel for trainer NPCs.
+ */
+
+import { Button } from "@/components/ui/button";
+import {
+  canStartSkillTraining,
+  getSessionsRemaining,
+  getSkillTrainingProgress,
+} from "@/game/core/skillTraining";
+import { getTrainingOffer } from "@/game/data/npcs";
+import { SkillTrainingUI } from "@/game/data/uiText";
+import { formatTicksAsTime } from "@/game/types/common";
+import type { GameState } from "@/game/types/gameState";
+import type { NPC } from "@/game/types/npc";
+import { getSkillDisplayName, getSkillEmoji } from "@/game/types/skill";
+
+interface SkillTrainingPanelProps {
+  npc: NPC;
+  gameState: GameState;
+  onStart: (offerId: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists a trainer's sessions, or the progress of the session in progress.
+ */
+export function SkillTrainingPanel({
+  npc,
+  gameState,
+  onStart,
+  onCancel,
+}: SkillTrainingPanelProps) {
+  const activeTraining = gameState.activeSkillTraining;
+  const activeOffer = activeTraining
+    ? getTrainingOffer(activeTraining.offerId)
+    : undefined;
+
+  if (activeTraining && activeOffer) {
+    return (
+      <div className="space-y-3">
+        <h4 className="font-semibold text-sm">
+          {SkillTrainingUI.inProgress}: {activeOffer.offer.name} (
+          {activeOffer.npc.name})
+        </h4>
+        <div className="h-3 w-full bg-secondary rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary transition-all duration-300"
+            style={{ width: `${getSkillTrainingProgress(activeTraining)}%` }}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {SkillTrainingUI.timeRemaining}
+          </span>
+          <span className="text-sm font-medium">
+            {formatTicksAsTime(activeTraining.ticksRemaining)}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={onCancel}
+        >
+          {SkillTrainingUI.cancelLabel}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-sm">{SkillTrainingUI.trainLabel}</h4>
+      <p className="text-xs text-muted-foreground">
+        {SkillTrainingUI.description}
+      </p>
+      {(npc.trainingOffers ?? []).map((offer) => {
+        const check = canStartSkillTraining(gameState, offer.id);
+        return (
+          <div
+            key={offer.id}
+            className="flex items-center justify-between gap-2 border rounded-md p-2"
+          >
+            <div className="min-w-0">
+              <div className="font-medium text-sm">
+                {getSkillEmoji(offer.skill)} {offer.name}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                +{offer.xpGranted} {getSkillDisplayName(offer.skill)} XP ·{" "}
+                {formatTicksAsTime(offer.durationTicks)} · 🪙 {offer.cost}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {SkillTrainingUI.sessionsLeft}{" "}
+                {getSessionsRemaining(gameState, offer)}/{offer.dailyLimit}
+                {offer.requiredLevel !== undefined &&
+                  ` · ${SkillTrainingUI.requiresLevel} ${offer.requiredLevel}`}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              disabled={!check.canStart}
+              title={check.canStart ? undefined : check.message}
+              onClick={() => onStart(offer.id)}
+            >
+              {SkillTrainingUI.startLabel}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
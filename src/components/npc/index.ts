@@ -5,3 +5,4 @@
 export { DialogueBox } from "./DialogueBox";
 export { DialogueScreen } from "./DialogueScreen";
 export { NPCDisplay } from "./NPCDisplay";
+export { SkillTrainingPanel } from "./SkillTrainingPanel";
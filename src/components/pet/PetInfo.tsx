@@ -1,5 +1,5 @@
 /**
- * Pet info component displaying name, species, age, and stage.
+ * Pet info component displaying name, species, age, stage, and level.
  */
 
 import { Card, CardContent } from "@/components/ui/card";
@@ -31,6 +31,27 @@ export function PetInfo({ info }: PetInfoProps) {
               {info.ageDays} day{info.ageDays !== 1 ? "s" : ""} old
             </span>
           </div>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Lv. {info.level}</span>
+              <span className="text-muted-foreground">
+                {info.xpForNextLevel > 0
+                  ? `${info.currentXp}/${info.xpForNextLevel} XP`
+                  : "Max level"}
+              </span>
+            </div>
+            <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all duration-300"
+                style={{ width: `${info.levelProgress}%` }}
+              />
+            </div>
+            {info.isAtLevelCap && info.xpForNextLevel > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Level cap reached for this stage. Grow up to keep levelling.
+              </p>
+            )}
+          </div>
           {info.isSleeping && (
             <div className="text-center text-sm text-blue-500 font-medium">
               💤 Sleeping...
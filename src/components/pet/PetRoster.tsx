@@ -0,0 +1,198 @@
+/**
+ * Pet roster panel for switching the active pet and adopting new pets.
+ */
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ErrorDialog } from "@/components/ui/error-dialog";
+import { Input } from "@/components/ui/input";
+import { calculatePetMaxStats } from "@/game/core/petStats";
+import { isRosterFull, MAX_ROSTER_SIZE } from "@/game/core/roster";
+import { getAvailableSpecies } from "@/game/core/unlocks";
+import { getSpeciesById } from "@/game/data/species";
+import { RosterUI } from "@/game/data/uiText";
+import { useGameState } from "@/game/hooks/useGameState";
+import { adoptPet } from "@/game/state/actions/adoption";
+import { switchActivePet } from "@/game/state/actions/roster";
+import { selectBenchedPets } from "@/game/state/selectors";
+import { DEFAULT_LOCATION_ID, PERCENTAGE_MAX } from "@/game/types/common";
+import { GROWTH_STAGE_DISPLAY_NAMES } from "@/game/types/constants";
+import type { Pet } from "@/game/types/pet";
+import { cn } from "@/lib/utils";
+
+/**
+ * Care Life as a percentage of the pet's maximum.
+ */
+function getCareLifePercent(pet: Pet): number {
+  const maxCareLife = calculatePetMaxStats(pet)?.careLife ?? 0;
+  if (maxCareLife <= 0) return 0;
+  return Math.round(
+    (pet.careLifeStats.careLife / maxCareLife) * PERCENTAGE_MAX,
+  );
+}
+
+/**
+ * A benched pet with a button to make it active.
+ */
+function BenchedPetRow({
+  pet,
+  canSwitch,
+  onSwitch,
+}: {
+  pet: Pet;
+  canSwitch: boolean;
+  onSwitch: () => void;
+}) {
+  const species = getSpeciesById(pet.identity.speciesId);
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="text-2xl">{species?.emoji ?? "🐾"}</span>
+        <div className="min-w-0">
+          <div className="font-medium truncate">{pet.identity.name}</div>
+          <div className="text-xs text-muted-foreground">
+            {GROWTH_STAGE_DISPLAY_NAMES[pet.growth.stage]} · Lv.{" "}
+            {pet.progression.level} · {RosterUI.careLifeLabel}{" "}
+            {getCareLifePercent(pet)}%
+          </div>
+        </div>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!canSwitch}
+        onClick={onSwitch}
+      >
+        {RosterUI.switchLabel}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Lists the benched pets in the daycare. At home, a benched pet can be made
+ * active and new pets can be adopted while the roster has room.
+ */
+export function PetRoster() {
+  const { state, actions } = useGameState();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [petName, setPetName] = useState("");
+  const [speciesId, setSpeciesId] = useState<string | null>(null);
+  const unlocks = state?.unlocks;
+  const availableSpecies = useMemo(
+    () => (unlocks ? getAvailableSpecies(unlocks) : []),
+    [unlocks],
+  );
+
+  if (!state) return null;
+
+  const benchedPets = selectBenchedPets(state);
+  const isHome = state.player.currentLocationId === DEFAULT_LOCATION_ID;
+  const rosterSize = benchedPets.length + (state.pet ? 1 : 0);
+  const canAdopt = isHome && !isRosterFull(state);
+  const trimmedName = petName.trim();
+
+  const handleSwitch = (petId: string) => {
+    actions.updateState((currentState) => {
+      const result = switchActivePet(currentState, petId);
+      if (!result.success) {
+        setErrorMessage(result.message);
+      }
+      return result.state;
+    });
+  };
+
+  const handleAdopt = () => {
+    if (!speciesId || trimmedName.length === 0) return;
+    actions.updateState((currentState) => {
+      const result = adoptPet(currentState, trimmedName, speciesId);
+      if (!result.success) {
+        setErrorMessage(result.message);
+        return currentState;
+      }
+      setPetName("");
+      setSpeciesId(null);
+      return result.state;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span>{RosterUI.title}</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {rosterSize}/{MAX_ROSTER_SIZE}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {RosterUI.daycareDescription}
+        </p>
+
+        {benchedPets.length > 0 ? (
+          <div className="space-y-3">
+            {benchedPets.map((pet) => (
+              <BenchedPetRow
+                key={pet.identity.id}
+                pet={pet}
+                canSwitch={isHome}
+                onSwitch={() => handleSwitch(pet.identity.id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{RosterUI.emptyBench}</p>
+        )}
+
+        {!isHome && (
+          <p className="text-xs text-muted-foreground">{RosterUI.awayHint}</p>
+        )}
+
+        {canAdopt && (
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="font-semibold text-sm">{RosterUI.adoptTitle}</h4>
+            <div className="flex flex-wrap gap-2">
+              {availableSpecies.map((species) => (
+                <Button
+                  key={species.id}
+                  size="sm"
+                  variant="outline"
+                  className={cn(
+                    speciesId === species.id && "ring-2 ring-primary",
+                  )}
+                  aria-pressed={speciesId === species.id}
+                  onClick={() => setSpeciesId(species.id)}
+                >
+                  {species.emoji} {species.name}
+                </Button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                aria-label={RosterUI.nameLabel}
+                placeholder={RosterUI.namePlaceholder}
+                value={petName}
+                onChange={(e) => setPetName(e.target.value)}
+                maxLength={20}
+              />
+              <Button
+                onClick={handleAdopt}
+                disabled={!speciesId || trimmedName.length === 0}
+              >
+                {RosterUI.adoptLabel}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <ErrorDialog
+        open={errorMessage !== null}
+        onOpenChange={() => setErrorMessage(null)}
+        message={errorMessage ?? ""}
+      />
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import type { CareStatDisplay } from "@/game/state/selectors";
+import { formatTicksAsTime, type Tick } from "@/game/types/common";
 import type { CareThreshold } from "@/game/types/constants";
 import { cn } from "@/lib/utils";
 
@@ -102,12 +103,14 @@ function StatBar({
 
 interface PetStatusProps {
   careStats: CareStatDisplay;
+  /** Ticks until the pet recovers from exhaustion, if exhausted */
+  exhaustionTicks?: Tick;
 }
 
 /**
- * Displays all care stat bars.
+ * Displays all care stat bars, and exhaustion after a battle defeat.
  */
-export function PetStatus({ careStats }: PetStatusProps) {
+export function PetStatus({ careStats, exhaustionTicks }: PetStatusProps) {
   return (
     <Card>
       <CardHeader className="pb-2">
@@ -138,6 +141,15 @@ export function PetStatus({ careStats }: PetStatusProps) {
           percent={careStats.happinessPercent}
           threshold={careStats.happinessThreshold}
         />
+        {exhaustionTicks !== undefined && exhaustionTicks > 0 && (
+          <div className="flex items-center justify-between text-sm text-purple-600 dark:text-purple-400">
+            <span className="flex items-center gap-1">
+              <span>😵</span>
+              <span>Exhausted</span>
+            </span>
+            <span>Recovers in {formatTicksAsTime(exhaustionTicks)}</span>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
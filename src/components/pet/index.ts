@@ -5,5 +5,6 @@
 export { EnergyBar } from "./EnergyBar";
 export { GrowthProgress } from "./GrowthProgress";
 export { PetInfo } from "./PetInfo";
+export { PetRoster } from "./PetRoster";
 export { PetSprite } from "./PetSprite";
 export { PetStatus } from "./PetStatus";
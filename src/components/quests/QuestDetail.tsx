@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { areAllRequiredObjectivesComplete } from "@/game/core/quests";
 import { getItemById } from "@/game/data/items";
+import { getMoveById } from "@/game/data/moves";
 import { getNpc } from "@/game/data/npcs";
 import type { Quest, QuestProgress, QuestReward } from "@/game/types/quest";
 import { QuestType } from "@/game/types/quest";
@@ -39,6 +40,8 @@ function formatReward(reward: QuestReward): string {
       return `${reward.quantity} ${reward.target} XP`;
     case "unlock":
       return `Unlock: ${reward.target}`;
+    case "move":
+      return `Move: ${getMoveById(reward.target)?.name ?? reward.target}`;
     default: {
       // Exhaustive check - ensures all reward types are handled
       const _exhaustiveCheck: never = reward.type;
@@ -0,0 +1,69 @@
+/**
+ * Achievements screen showing progress toward every achievement.
+ */
+
+import { AchievementCard } from "@/components/achievements";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getAchievementProgress } from "@/game/core/achievements";
+import { achievements } from "@/game/data/achievements";
+import { AchievementsUI } from "@/game/data/uiText";
+import { useGameState } from "@/game/hooks/useGameState";
+import { selectAchievements } from "@/game/state/selectors";
+import { AchievementCategory } from "@/game/types/achievement";
+
+/**
+ * Achievements screen listing achievements by category.
+ */
+export function AchievementsScreen() {
+  const { state } = useGameState();
+
+  if (!state) {
+    return null;
+  }
+
+  const { unlocked } = selectAchievements(state);
+  const unlockedCount = achievements.filter(
+    (achievement) => unlocked[achievement.id] !== undefined,
+  ).length;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <span>🏆</span>
+              {AchievementsUI.title}
+            </span>
+            <span className="text-sm font-normal text-muted-foreground">
+              {AchievementsUI.unlockedCount(unlockedCount, achievements.length)}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            {AchievementsUI.description}
+          </p>
+        </CardContent>
+      </Card>
+
+      {Object.values(AchievementCategory).map((category) => (
+        <section key={category} className="space-y-3">
+          <h3 className="font-semibold">
+            {AchievementsUI.categoryNames[category]}
+          </h3>
+          {achievements
+            .filter((achievement) => achievement.category === category)
+            .map((achievement) => (
+              <AchievementCard
+                key={achievement.id}
+                achievement={achievement}
+                progress={getAchievementProgress(state, achievement)}
+                unlockedAt={unlocked[achievement.id]}
+              />
+            ))}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -23,11 +23,10 @@ import {
   BattlePhase,
   type BattleRewards,
   type BattleState,
-  calculateBattleRewards,
-  isBattleComplete,
 } from "@/game/core/battle/battle";
 import type { BattleAction } from "@/game/core/battle/battleActions";
 import type { BattleActionEvent } from "@/game/types/event";
+import type { Inventory } from "@/game/types/gameState";
 import type { Move } from "@/game/types/move";
 
 /** Duration for attack animations (ms) */
@@ -35,12 +34,14 @@ const ATTACK_ANIMATION_DURATION_MS = 400;
 
 interface BattleScreenProps {
   battleState: BattleState;
-  onBattleEnd: (victory: boolean, rewards: BattleRewards) => void;
-  onFlee?: () => void;
   /** Battle events from the game state for UI animations */
   battleEvents?: BattleActionEvent[];
   /** Dispatch function for battle actions */
   dispatch: (action: BattleAction) => void;
+  /** Player inventory for using battle items and medicine */
+  inventory?: Inventory;
+  /** Rewards for the finished battle (null while the battle is ongoing) */
+  rewards: BattleRewards | null;
 }
 
 interface AnimationState {
@@ -65,10 +66,10 @@ const initialAnimationState: AnimationState = {
  */
 export function BattleScreen({
   battleState,
-  onBattleEnd,
-  onFlee,
   battleEvents = [],
   dispatch,
+  inventory,
+  rewards,
 }: BattleScreenProps) {
   const [isAnimating, setIsAnimating] = useState(false);
   const [animationState, setAnimationState] = useState<AnimationState>(
@@ -152,8 +153,11 @@ export function BattleScreen({
           await triggerAttackAnimation(true);
         } else if (event.action === "enemyAttack") {
           await triggerAttackAnimation(false);
-        } else if (event.action === "turnResolved") {
-          // turnResolved has no animation, but may include DoT damage
+        } else if (
+          event.action === "turnResolved" ||
+          event.action === "playerUseItem"
+        ) {
+          // turnResolved and item use have no animation, but may change HP
           // Signal BattleArena to sync HP immediately
           triggerHpSync();
         }
@@ -186,13 +190,33 @@ export function BattleScreen({
     });
   };
 
+  // Handle player item use
+  const handleUseItem = (itemId: string) => {
+    if (battleState.phase !== BattlePhase.PlayerTurn || isAnimating) {
+      return;
+    }
+
+    dispatch({
+      type: "BATTLE_USE_ITEM",
+      payload: { itemId },
+    });
+  };
+
+  // Handle flee attempt (may fail and take the player's turn)
+  const handleFlee = () => {
+    if (battleState.phase !== BattlePhase.PlayerTurn || isAnimating) {
+      return;
+    }
+
+    dispatch({ type: "BATTLE_FLEE" });
+  };
+
   // Memoize battle completion info to avoid recalculating
   const battleResult = useMemo(() => {
-    if (!isBattleComplete(battleState)) return null;
+    if (!rewards) return null;
     const isVictory = battleState.phase === BattlePhase.Victory;
-    const rewards = calculateBattleRewards(battleState, isVictory);
     return { isVictory, rewards };
-  }, [battleState]);
+  }, [battleState, rewards]);
 
   // Clear processed events when battle ends to prevent memory leak
   useEffect(() => {
@@ -204,7 +228,7 @@ export function BattleScreen({
   // Show victory/defeat screen
   if (battleResult) {
     const handleContinue = () => {
-      onBattleEnd(battleResult.isVictory, battleResult.rewards);
+      dispatch({ type: "BATTLE_CLAIM_REWARDS" });
     };
     return (
       <VictoryScreen
@@ -260,15 +284,17 @@ export function BattleScreen({
           <MoveSelect
             combatant={battleState.player}
             onSelectMove={handleSelectMove}
+            inventory={inventory}
+            onUseItem={handleUseItem}
             disabled={isAnimating}
           />
         )}
 
         {/* Flee button */}
-        {onFlee && isPlayerTurn && (
+        {isPlayerTurn && (
           <Button
             variant="outline"
-            onClick={onFlee}
+            onClick={handleFlee}
             disabled={isAnimating}
             className="w-full"
           >
@@ -16,6 +16,7 @@ import {
   EnergyBar,
   GrowthProgress,
   PetInfo,
+  PetRoster,
   PetSprite,
   PetStatus,
 } from "@/components/pet";
@@ -161,7 +162,7 @@ export function CareScreen() {
       <GrowthProgress progress={growthProgress} />
 
       {/* Care Stats */}
-      <PetStatus careStats={careStats} />
+      <PetStatus careStats={careStats} exhaustionTicks={pet.exhaustionTicks} />
 
       {/* Energy */}
       <EnergyBar energy={energy} />
@@ -219,6 +220,9 @@ export function CareScreen() {
           </CardContent>
         </Card>
       )}
+
+      {/* Roster and daycare */}
+      <PetRoster />
     </div>
   );
 }
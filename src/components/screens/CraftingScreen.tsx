@@ -0,0 +1,285 @@
+/**
+ * Crafting screen for turning materials into items.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  canCraft,
+  cancelCraft,
+  craftItem,
+  getAvailableIngredientQuantity,
+  getCraftingProgress,
+} from "@/game/core/crafting";
+import { withRng } from "@/game/core/rng";
+import { getItemById } from "@/game/data/items";
+import { getNpc } from "@/game/data/npcs";
+import { ALL_RECIPES, getRecipe } from "@/game/data/recipes";
+import { FacilityDisplay } from "@/game/data/uiText";
+import { useGameState } from "@/game/hooks/useGameState";
+import { selectInventory } from "@/game/state/selectors";
+import { formatTicksAsTime } from "@/game/types/common";
+import {
+  IngredientType,
+  type Recipe,
+  type RecipeIngredient,
+} from "@/game/types/crafting";
+import type { Inventory } from "@/game/types/gameState";
+import { FacilityType } from "@/game/types/location";
+import { SkillType } from "@/game/types/skill";
+import { cn } from "@/lib/utils";
+
+interface CraftingScreenProps {
+  /** NPC offering crafting (omit when crafting at a workshop facility) */
+  npcId?: string;
+  onClose: () => void;
+}
+
+/**
+ * Get the display label for an ingredient.
+ */
+function getIngredientLabel(ingredient: RecipeIngredient): string {
+  if (ingredient.type === IngredientType.Item) {
+    return getItemById(ingredient.itemId)?.name ?? ingredient.itemId;
+  }
+  return `Any ${ingredient.tag} material`;
+}
+
+/**
+ * Single recipe card with ingredients and craft button.
+ */
+function RecipeCard({
+  recipe,
+  inventory,
+  canCraftRecipe,
+  reason,
+  onCraft,
+}: {
+  recipe: Recipe;
+  inventory: Inventory;
+  canCraftRecipe: boolean;
+  reason: string;
+  onCraft: (recipeId: string) => void;
+}) {
+  const output = getItemById(recipe.output.itemId);
+
+  return (
+    <Card className={cn(!canCraftRecipe && "opacity-70")}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <span className="text-2xl">{output?.icon ?? "❓"}</span>
+          <div className="flex-1">
+            <CardTitle className="text-base">{recipe.name}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {recipe.description}
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <ul className="space-y-1 text-sm">
+          {recipe.ingredients.map((ingredient) => {
+            const have = getAvailableIngredientQuantity(inventory, ingredient);
+            const key =
+              ingredient.type === IngredientType.Item
+                ? ingredient.itemId
+                : `tag_${ingredient.tag}`;
+            return (
+              <li key={key} className="flex justify-between">
+                <span>{getIngredientLabel(ingredient)}</span>
+                <span
+                  className={cn(
+                    "font-medium",
+                    have < ingredient.quantity && "text-destructive",
+                  )}
+                >
+                  {have}/{ingredient.quantity}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Lv. {recipe.requiredLevel}</span>
+          <span>+{recipe.xpReward} XP</span>
+          <span>
+            {recipe.durationTicks
+              ? formatTicksAsTime(recipe.durationTicks)
+              : "Instant"}
+          </span>
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!canCraftRecipe}
+          onClick={() => onCraft(recipe.id)}
+        >
+          {canCraftRecipe ? "Craft" : reason}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Full crafting interface listing recipes and the craft in progress.
+ */
+export function CraftingScreen({ npcId, onClose }: CraftingScreenProps) {
+  const { state, actions } = useGameState();
+  const [message, setMessage] = useState<string | null>(null);
+  const messageTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const npc = npcId ? getNpc(npcId) : undefined;
+  const workshop = FacilityDisplay[FacilityType.Workshop];
+
+  // Clear message timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (messageTimeoutRef.current !== null) {
+        clearTimeout(messageTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // Helper to show temporary message
+  const showMessage = useCallback((msg: string) => {
+    if (messageTimeoutRef.current !== null) {
+      clearTimeout(messageTimeoutRef.current);
+    }
+    setMessage(msg);
+    messageTimeoutRef.current = setTimeout(() => {
+      setMessage(null);
+      messageTimeoutRef.current = null;
+    }, 2000);
+  }, []);
+
+  // Handle crafting a recipe
+  const handleCraft = useCallback(
+    (recipeId: string) => {
+      if (!state) return;
+      const { result, rngState } = withRng(state.rngState, (rng) =>
+        craftItem(state, recipeId, rng),
+      );
+      if (result.success) {
+        actions.updateState(() => ({ ...result.state, rngState }));
+      }
+      showMessage(result.message);
+    },
+    [state, actions, showMessage],
+  );
+
+  // Handle cancelling the active craft
+  const handleCancel = useCallback(() => {
+    if (!state) return;
+    const result = cancelCraft(state);
+    if (result.success) {
+      actions.updateState(() => result.state);
+    }
+    showMessage(result.message);
+  }, [state, actions, showMessage]);
+
+  if (!state) {
+    return null;
+  }
+
+  const inventory = selectInventory(state);
+  const craftingLevel = state.player.skills[SkillType.Crafting].level;
+  const activeCraft = state.activeCraft;
+  const activeRecipe = activeCraft ? getRecipe(activeCraft.recipeId) : null;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-2xl">{npc?.emoji ?? workshop.emoji}</span>
+              <div>
+                <CardTitle className="text-lg">Crafting</CardTitle>
+                <span className="text-sm text-muted-foreground">
+                  {npc?.name ?? workshop.name} · Crafting Lv. {craftingLevel}
+                </span>
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              aria-label="Close crafting"
+            >
+              ✕
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {/* Message display */}
+      {message && (
+        <Card className="bg-primary/10 border-primary">
+          <CardContent className="py-2 text-center text-sm">
+            {message}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Craft in progress */}
+      {activeCraft && activeRecipe && (
+        <Card className="border-primary/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">
+              Crafting {activeRecipe.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="h-3 w-full bg-secondary rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all duration-300"
+                style={{ width: `${getCraftingProgress(activeCraft)}%` }}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                Time remaining
+              </span>
+              <span className="text-sm font-medium">
+                {formatTicksAsTime(activeCraft.ticksRemaining)}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={handleCancel}
+            >
+              Cancel Crafting
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recipes */}
+      <div className="grid gap-3 sm:grid-cols-2">
+        {ALL_RECIPES.map((recipe) => {
+          const check = canCraft(state, recipe.id);
+          return (
+            <RecipeCard
+              key={recipe.id}
+              recipe={recipe}
+              inventory={inventory}
+              canCraftRecipe={check.canCraft}
+              reason={check.message}
+              onCraft={handleCraft}
+            />
+          );
+        })}
+      </div>
+
+      {/* Back button */}
+      <Button variant="outline" className="w-full" onClick={onClose}>
+        Leave
+      </Button>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { LocationHeader } from "@/components/map";
 import {
   ActivityBlockedCard,
   getActivityBlockingInfo,
+  getExhaustionBlockingInfo,
 } from "@/components/shared";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,10 +25,13 @@ import {
   getActivityCooldownRemaining,
   getAvailableActivities,
 } from "@/game/core/exploration/exploration";
+import { withRng } from "@/game/core/rng";
 import { getLocation } from "@/game/data/locations";
+import { getSpeciesById } from "@/game/data/species";
 import { useGameState } from "@/game/hooks/useGameState";
 import {
   cancelExploration,
+  fleeEncounter,
   startExploration,
 } from "@/game/state/actions/exploration";
 import {
@@ -117,6 +121,7 @@ export function ExplorationScreen({
   const isExploring = pet.activityState === ActivityState.Exploring;
   const isBlocked = pet.activityState !== ActivityState.Idle;
   const blockingInfo = getActivityBlockingInfo(pet, "explore");
+  const exhaustionInfo = getExhaustionBlockingInfo(pet, "battle");
 
   // Check if current location is a wild area
   const isWildArea = currentLocation?.type === LocationType.Wild;
@@ -147,11 +152,30 @@ export function ExplorationScreen({
     }
   };
 
+  // Handle fighting the wild pet that interrupted exploration
+  const pendingEncounter = state.pendingEncounter;
+  const handleFightEncounter = () => {
+    if (!pendingEncounter || !onStartBattle) return;
+    onStartBattle(pendingEncounter.speciesId, pendingEncounter.level);
+  };
+
+  // Handle running away from the wild pet (ends the exploration)
+  const handleFleeEncounter = () => {
+    const result = fleeEncounter(state);
+    if (result.success) {
+      actions.updateState(() => result.state);
+    }
+  };
+
   // Handle seeking battle
   const handleSeekBattle = () => {
     if (!pet || !onStartBattle) return;
 
-    const encounterResult = forceEncounter(currentLocationId, pet);
+    const { result: encounterResult, rngState } = withRng(
+      state.rngState,
+      (rng) => forceEncounter(currentLocationId, pet, rng),
+    );
+    actions.updateState((prev) => ({ ...prev, rngState }));
     if (encounterResult.hasEncounter && encounterResult.speciesId) {
       onStartBattle(encounterResult.speciesId, encounterResult.level ?? 1);
     }
@@ -179,6 +203,41 @@ export function ExplorationScreen({
         <ActivityBlockedCard blockingInfo={blockingInfo} />
       )}
 
+      {/* Wild Encounter (pauses exploration until resolved) */}
+      {isExploring && pendingEncounter && (
+        <Card className="border-destructive">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <span>⚠️</span>
+              Wild Encounter!
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-3">
+              A wild{" "}
+              {getSpeciesById(pendingEncounter.speciesId)?.name ??
+                pendingEncounter.speciesId}{" "}
+              (Lv. {pendingEncounter.level}) interrupted the exploration. Win
+              the battle to keep exploring, or run away and abandon it.
+            </p>
+            <div className="flex gap-2">
+              {onStartBattle && (
+                <Button onClick={handleFightEncounter} className="flex-1">
+                  Fight
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={handleFleeEncounter}
+                className="flex-1"
+              >
+                Run Away
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Active Exploration Progress */}
       {isExploring && pet.activeExploration && (
         <ExplorationProgress
@@ -198,7 +257,10 @@ export function ExplorationScreen({
           />
 
           {/* Battle Option */}
-          {hasBattleArea && onStartBattle && (
+          {hasBattleArea && onStartBattle && exhaustionInfo && (
+            <ActivityBlockedCard blockingInfo={exhaustionInfo} />
+          )}
+          {hasBattleArea && onStartBattle && !exhaustionInfo && (
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="text-base flex items-center gap-2">
@@ -5,13 +5,25 @@
 import { useMemo, useState } from "react";
 import { ItemDetail } from "@/components/inventory/ItemDetail";
 import { ItemGrid } from "@/components/inventory/ItemGrid";
+import { StoragePanel } from "@/components/inventory/StoragePanel";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { EmptyState } from "@/components/ui/empty-state";
 import { LoadingState } from "@/components/ui/loading-state";
+import { EQUIPMENT_SLOTS, equipItem, unequipItem } from "@/game/core/equipment";
+import { CARRIED_INVENTORY_CAPACITY } from "@/game/core/inventory";
+import { hasStorageAccess } from "@/game/core/storage";
 import { getItemById } from "@/game/data/items";
+import { StorageUI } from "@/game/data/uiText";
 import { useGameState } from "@/game/hooks/useGameState";
-import { selectCurrency, selectInventory } from "@/game/state/selectors";
+import { depositItem } from "@/game/state/actions/storage";
+import {
+  selectCurrency,
+  selectInventory,
+  selectPet,
+} from "@/game/state/selectors";
 import { ItemCategory } from "@/game/types/constants";
+import type { EquipmentSlot } from "@/game/types/item";
 import { cn } from "@/lib/utils";
 
 /**
@@ -27,14 +39,16 @@ const CATEGORY_FILTERS: {
   { id: "Drink", label: "Drink", icon: "🥤" },
   { id: "Toy", label: "Toys", icon: "🧸" },
   { id: "Cleaning", label: "Clean", icon: "🧹" },
+  { id: "Equipment", label: "Gear", icon: "💍" },
 ];
 
 /**
  * Main inventory screen showing all items with filtering and details.
  */
 export function InventoryScreen() {
-  const { state, isLoading } = useGameState();
+  const { state, isLoading, actions } = useGameState();
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
   const [categoryFilter, setCategoryFilter] = useState<
     "all" | keyof typeof ItemCategory
   >("all");
@@ -75,6 +89,44 @@ export function InventoryScreen() {
   const selectedItemDef = selectedItem
     ? getItemById(selectedItem.itemId)
     : null;
+  const pet = selectPet(state);
+
+  const handleEquip = () => {
+    if (!selectedItem) return;
+    const result = equipItem(
+      state,
+      state.player.inventory.items.indexOf(selectedItem),
+    );
+    setMessage(result.message);
+    if (result.success) {
+      actions.updateState(() => result.state);
+      setSelectedIndex(null);
+    }
+  };
+
+  const canUseStorage = hasStorageAccess(state);
+
+  const handleDeposit = () => {
+    if (!selectedItem) return;
+    const result = depositItem(
+      state,
+      selectedItem.itemId,
+      selectedItem.quantity,
+    );
+    setMessage(result.message);
+    if (result.success) {
+      actions.updateState(() => result.state);
+      setSelectedIndex(null);
+    }
+  };
+
+  const handleUnequip = (slot: EquipmentSlot) => {
+    const result = unequipItem(state, slot);
+    setMessage(result.message);
+    if (result.success) {
+      actions.updateState(() => result.state);
+    }
+  };
 
   return (
     <div className="space-y-4">
@@ -82,7 +134,15 @@ export function InventoryScreen() {
       <Card>
         <CardHeader className="pb-2">
           <div className="flex items-center justify-between">
-            <CardTitle className="text-lg">Inventory</CardTitle>
+            <div>
+              <CardTitle className="text-lg">Inventory</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {StorageUI.slotsUsed(
+                  state.player.inventory.items.length,
+                  CARRIED_INVENTORY_CAPACITY,
+                )}
+              </p>
+            </div>
             <div className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
               <span className="text-lg">🪙</span>
               <span className="font-medium">{selectCurrency(state).coins}</span>
@@ -113,6 +173,54 @@ export function InventoryScreen() {
         </CardContent>
       </Card>
 
+      {/* Equipped items */}
+      {pet && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Equipped</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {EQUIPMENT_SLOTS.map((slot) => {
+              const equipped = pet.equipment[slot];
+              const itemDef = equipped ? getItemById(equipped.itemId) : null;
+              return (
+                <div
+                  key={slot}
+                  className="flex items-center justify-between gap-2 rounded-lg border p-2"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-2xl">{itemDef?.icon ?? "⬜"}</span>
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {slot}
+                      </p>
+                      <p className="text-sm font-medium truncate">
+                        {itemDef?.name ?? "Empty"}
+                      </p>
+                      {equipped && itemDef && "maxDurability" in itemDef && (
+                        <p className="text-xs text-muted-foreground">
+                          Durability: {equipped.currentDurability}/
+                          {itemDef.maxDurability}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {equipped && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleUnequip(slot)}
+                    >
+                      Unequip
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Item Grid */}
       <Card>
         <CardContent className="pt-4">
@@ -121,13 +229,22 @@ export function InventoryScreen() {
             selectedIndex={selectedIndex}
             onSelectItem={setSelectedIndex}
           />
+          {message && <p className="text-sm mt-3">{message}</p>}
         </CardContent>
       </Card>
 
       {/* Item Detail Panel */}
       {selectedItem && selectedItemDef && (
-        <ItemDetail inventoryItem={selectedItem} itemDef={selectedItemDef} />
+        <ItemDetail
+          inventoryItem={selectedItem}
+          itemDef={selectedItemDef}
+          onEquip={pet ? handleEquip : undefined}
+          onTransfer={canUseStorage ? handleDeposit : undefined}
+          transferLabel={StorageUI.depositLabel}
+        />
       )}
+
+      {canUseStorage && <StoragePanel />}
     </div>
   );
 }
@@ -5,16 +5,29 @@
 import { useMemo, useState } from "react";
 import { LocationDetail, LocationHeader, LocationNode } from "@/components/map";
 import { DialogueScreen } from "@/components/npc";
+import { CraftingScreen } from "@/components/screens/CraftingScreen";
 import { ShopScreen } from "@/components/screens/ShopScreen";
 import {
   ActivityBlockedCard,
   getActivityBlockingInfo,
 } from "@/components/shared";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { EmptyState } from "@/components/ui/empty-state";
 import { ErrorDialog } from "@/components/ui/error-dialog";
 import { LoadingState } from "@/components/ui/loading-state";
-import { getConnectedLocations, getLocation } from "@/game/data/locations";
+import {
+  getRestPointCooldownRemaining,
+  restAtRestPoint,
+  startInnStay,
+} from "@/game/core/rest";
+import { isLocationDiscovered } from "@/game/core/unlocks";
+import {
+  allLocations,
+  getConnectedLocations,
+  getLocation,
+} from "@/game/data/locations";
+import { FacilityDisplay } from "@/game/data/uiText";
 import { useGameState } from "@/game/hooks/useGameState";
 import { checkCanTravel, travelToLocation } from "@/game/state/actions/travel";
 import {
@@ -22,11 +35,17 @@ import {
   selectEnergy,
   selectPet,
 } from "@/game/state/selectors";
+import { FacilityType } from "@/game/types/location";
 
 /**
  * Main map screen showing world locations and travel options.
  */
-export function MapScreen() {
+export function MapScreen({
+  onBattleStarted,
+}: {
+  /** Called when a conversation starts a battle */
+  onBattleStarted?: () => void;
+}) {
   const { state, isLoading, actions } = useGameState();
   const [selectedLocationId, setSelectedLocationId] = useState<string | null>(
     null,
@@ -34,36 +53,61 @@ export function MapScreen() {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [talkingToNpcId, setTalkingToNpcId] = useState<string | null>(null);
   const [shoppingAtNpcId, setShoppingAtNpcId] = useState<string | null>(null);
+  // Crafting source: an NPC crafter, or the location's workshop (no npcId)
+  const [crafting, setCrafting] = useState<{ npcId?: string } | null>(null);
 
   // Get current location
   const currentLocationId = state ? selectCurrentLocationId(state) : "home";
   const currentLocation = getLocation(currentLocationId);
 
-  // Get connected locations
+  // Get connected locations (hidden locations stay off the map until discovered)
+  const unlocks = state?.unlocks;
   const connectedLocations = useMemo(() => {
-    return getConnectedLocations(currentLocationId);
-  }, [currentLocationId]);
+    return getConnectedLocations(currentLocationId).filter(
+      (location) => unlocks && isLocationDiscovered(unlocks, location),
+    );
+  }, [currentLocationId, unlocks]);
 
-  // Calculate travel info for each connected location
+  // Calculate travel info (including the route) for every other location
   const travelInfo = useMemo(() => {
     if (!state) return {};
 
     const info: Record<
       string,
-      { canTravel: boolean; message: string; energyCost?: number }
+      {
+        canTravel: boolean;
+        message: string;
+        energyCost?: number;
+        route?: string[];
+      }
     > = {};
 
-    for (const location of connectedLocations) {
+    for (const location of allLocations) {
+      if (location.id === currentLocationId) continue;
       const result = checkCanTravel(state, location.id);
       info[location.id] = {
         canTravel: result.canTravel,
         message: result.message,
         energyCost: result.energyCost,
+        route: result.route,
       };
     }
 
     return info;
-  }, [state, connectedLocations]);
+  }, [state, currentLocationId]);
+
+  // Locations reachable only by passing through other locations
+  const distantLocations = useMemo(() => {
+    const connectedIds = new Set(connectedLocations.map((l) => l.id));
+    return allLocations.filter(
+      (location) =>
+        location.id !== currentLocationId &&
+        unlocks !== undefined &&
+        isLocationDiscovered(unlocks, location) &&
+        !connectedIds.has(location.id) &&
+        travelInfo[location.id]?.route !== undefined,
+    );
+  }, [connectedLocations, currentLocationId, travelInfo, unlocks]);
 
   // Get selected location
   const selectedLocation = selectedLocationId
@@ -83,6 +127,28 @@ export function MapScreen() {
     }
   };
 
+  // Handle taking an inn stay
+  const handleInnStay = (stayId: string) => {
+    actions.updateState((currentState) => {
+      const result = startInnStay(currentState, stayId);
+      if (!result.success) {
+        setErrorMessage(result.message);
+      }
+      return result.state;
+    });
+  };
+
+  // Handle resting at a rest point
+  const handleRestPoint = () => {
+    actions.updateState((currentState) => {
+      const result = restAtRestPoint(currentState);
+      if (!result.success) {
+        setErrorMessage(result.message);
+      }
+      return result.state;
+    });
+  };
+
   // Handle NPC click
   const handleNpcClick = (npcId: string) => {
     setTalkingToNpcId(npcId);
@@ -104,6 +170,17 @@ export function MapScreen() {
     setShoppingAtNpcId(null);
   };
 
+  // Handle crafting open (from an NPC)
+  const handleOpenCrafting = (npcId: string) => {
+    setTalkingToNpcId(null);
+    setCrafting({ npcId });
+  };
+
+  // Handle crafting close
+  const handleCloseCrafting = () => {
+    setCrafting(null);
+  };
+
   if (isLoading) {
     return <LoadingState />;
   }
@@ -120,6 +197,13 @@ export function MapScreen() {
     return <ShopScreen npcId={shoppingAtNpcId} onClose={handleCloseShop} />;
   }
 
+  // If crafting, show crafting screen
+  if (crafting) {
+    return (
+      <CraftingScreen npcId={crafting.npcId} onClose={handleCloseCrafting} />
+    );
+  }
+
   // If talking to an NPC, show dialogue screen
   if (talkingToNpcId) {
     return (
@@ -127,6 +211,8 @@ export function MapScreen() {
         npcId={talkingToNpcId}
         onClose={handleDialogueClose}
         onOpenShop={handleOpenShop}
+        onOpenCrafting={handleOpenCrafting}
+        onStartBattle={onBattleStarted}
       />
     );
   }
@@ -134,6 +220,9 @@ export function MapScreen() {
   const energy = selectEnergy(state);
   const currentEnergy = energy ? energy.energy : 0;
   const blockingInfo = pet ? getActivityBlockingInfo(pet, "travel") : null;
+  const workshop = currentLocation.facilities.includes(FacilityType.Workshop)
+    ? FacilityDisplay[FacilityType.Workshop]
+    : null;
 
   return (
     <>
@@ -175,6 +264,44 @@ export function MapScreen() {
           </CardContent>
         </Card>
 
+        {/* Distant Locations (reached through other locations) */}
+        {distantLocations.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Distant Locations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2 justify-center">
+                {distantLocations.map((location) => (
+                  <LocationNode
+                    key={location.id}
+                    location={location}
+                    isCurrentLocation={false}
+                    isSelected={selectedLocationId === location.id}
+                    energyCost={travelInfo[location.id]?.energyCost}
+                    onClick={() => setSelectedLocationId(location.id)}
+                  />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Workshop (crafting facility at the current location) */}
+        {workshop && (
+          <Card>
+            <CardContent className="flex items-center justify-between gap-2 pt-4">
+              <div className="flex items-center gap-2">
+                <span className="text-2xl">{workshop.emoji}</span>
+                <span className="font-medium">{workshop.name}</span>
+              </div>
+              <Button size="sm" onClick={() => setCrafting({})}>
+                Craft Items
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Activity Blocking Status */}
         {blockingInfo && <ActivityBlockedCard blockingInfo={blockingInfo} />}
 
@@ -186,6 +313,7 @@ export function MapScreen() {
             canTravel={travelInfo[selectedLocation.id]?.canTravel ?? false}
             travelMessage={travelInfo[selectedLocation.id]?.message}
             energyCost={travelInfo[selectedLocation.id]?.energyCost}
+            route={travelInfo[selectedLocation.id]?.route}
             onTravel={() => handleTravel(selectedLocation.id)}
             onNpcClick={handleNpcClick}
           />
@@ -199,6 +327,18 @@ export function MapScreen() {
             canTravel={false}
             onTravel={() => {}}
             onNpcClick={handleNpcClick}
+            onInnStay={handleInnStay}
+            innStayTicksRemaining={pet?.activeInnStay?.ticksRemaining}
+            onRestPoint={handleRestPoint}
+            restPointCooldown={
+              pet
+                ? getRestPointCooldownRemaining(
+                    pet,
+                    currentLocationId,
+                    state.totalTicks,
+                  )
+                : 0
+            }
           />
         )}
       </div>
@@ -3,6 +3,7 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import { CombatRecordCard } from "@/components/battle";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -13,9 +14,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { getSpeciesById } from "@/game/data/species";
 import { useGameState } from "@/game/hooks/useGameState";
 import { exportSave, importSave, saveGame } from "@/game/state/persistence";
-import { selectLastSaveTime } from "@/game/state/selectors";
+import {
+  selectCombatRecord,
+  selectLastSaveTime,
+  selectMemorial,
+} from "@/game/state/selectors";
+import { formatTicksAsTime } from "@/game/types/common";
+import { DEATH_CAUSE_DISPLAY_NAMES } from "@/game/types/memorial";
 
 /**
  * Menu screen with save management and settings.
@@ -26,6 +34,8 @@ export function MenuScreen() {
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  // Contents of an imported save that failed validation but can be repaired
+  const [repairableImport, setRepairableImport] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const saveStatusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
     null,
@@ -76,6 +86,7 @@ export function MenuScreen() {
 
   const handleImportClick = () => {
     setImportError(null);
+    setRepairableImport(null);
     fileInputRef.current?.click();
   };
 
@@ -83,6 +94,7 @@ export function MenuScreen() {
     setShowImportDialog(open);
     if (!open) {
       setImportError(null);
+      setRepairableImport(null);
     }
   };
 
@@ -99,6 +111,7 @@ export function MenuScreen() {
         showSaveStatus("Save imported successfully!");
       } else {
         setImportError(result.error);
+        setRepairableImport(result.canRepair ? text : null);
       }
     } catch (error) {
       console.error("File import error:", error);
@@ -111,12 +124,27 @@ export function MenuScreen() {
     }
   };
 
+  const handleImportWithRepairs = () => {
+    if (!repairableImport) return;
+
+    const result = importSave(repairableImport, { repair: true });
+    if (result.success) {
+      actions.updateState(() => result.state);
+      handleImportDialogChange(false);
+      showSaveStatus("Save repaired and imported!");
+    } else {
+      setImportError(result.error);
+      setRepairableImport(null);
+    }
+  };
+
   const handleResetGame = () => {
     actions.resetGame();
     setShowResetConfirm(false);
   };
 
   const lastSaveTime = state ? selectLastSaveTime(state) : null;
+  const memorial = state ? selectMemorial(state) : [];
 
   return (
     <div className="space-y-4">
@@ -175,6 +203,40 @@ export function MenuScreen() {
         </CardContent>
       </Card>
 
+      {/* Battle Record */}
+      {state && <CombatRecordCard record={selectCombatRecord(state)} />}
+
+      {/* Memorial */}
+      {memorial.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <span>🪦</span>
+              <span>Memorial</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {memorial.map((entry) => (
+              <div
+                key={entry.petId}
+                className="flex justify-between items-center"
+              >
+                <span>
+                  <span className="font-medium">{entry.name}</span>{" "}
+                  <span className="text-muted-foreground">
+                    ({getSpeciesById(entry.speciesId)?.name ?? entry.speciesId},{" "}
+                    {formatTicksAsTime(entry.ageTicks)})
+                  </span>
+                </span>
+                <span className="text-muted-foreground">
+                  {DEATH_CAUSE_DISPLAY_NAMES[entry.cause]}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Game Info */}
       <Card>
         <CardHeader>
@@ -265,6 +327,12 @@ export function MenuScreen() {
           {importError && (
             <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
               {importError}
+              {repairableImport && (
+                <p className="mt-1 text-muted-foreground">
+                  Invalid values can be replaced with defaults. Some progress
+                  may be lost.
+                </p>
+              )}
             </div>
           )}
           <DialogFooter>
@@ -274,6 +342,12 @@ export function MenuScreen() {
             >
               Cancel
             </Button>
+            {repairableImport && (
+              <Button variant="outline" onClick={handleImportWithRepairs}>
+                <span className="mr-2">🔧</span>
+                Import with Repairs
+              </Button>
+            )}
             <Button onClick={handleImportClick}>
               <span className="mr-2">📁</span>
               Select File
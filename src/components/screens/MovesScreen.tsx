@@ -0,0 +1,217 @@
+/**
+ * Moves screen for managing the pet's equipped battle moves.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { LoadingState } from "@/components/ui/loading-state";
+import { getDefaultMoves, getMoveById } from "@/game/data/moves";
+import { useGameState } from "@/game/hooks/useGameState";
+import { equipMove, unequipMove } from "@/game/state/actions/moves";
+import { selectPet } from "@/game/state/selectors";
+import { ActivityState } from "@/game/types/constants";
+import { DEFAULT_MOVE_SLOTS, type Move } from "@/game/types/move";
+import { cn } from "@/lib/utils";
+
+/**
+ * Compact summary of a move's battle properties.
+ */
+function MoveSummary({ move }: { move: Move }) {
+  return (
+    <div className="min-w-0">
+      <p className="font-medium text-sm truncate">{move.name}</p>
+      <p className="text-xs text-muted-foreground">{move.description}</p>
+      <div className="flex gap-2 text-xs text-muted-foreground mt-0.5">
+        {move.power > 0 && <span>Pwr: {move.power.toFixed(1)}</span>}
+        {move.staminaCost !== 0 && (
+          <span>
+            {move.staminaCost < 0 ? "+" : "-"}
+            {Math.abs(move.staminaCost)} SP
+          </span>
+        )}
+        {move.cooldown > 0 && <span>CD: {move.cooldown}</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Moves screen showing innate moves, equipped slots and learned moves.
+ */
+export function MovesScreen() {
+  const { state, isLoading, actions } = useGameState();
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (isLoading) {
+    return <LoadingState />;
+  }
+
+  const pet = state ? selectPet(state) : null;
+
+  if (!state || !pet) {
+    return <EmptyState message="No pet to manage moves for." />;
+  }
+
+  const { learned, equipped } = pet.moves;
+  const isBattling = pet.activityState === ActivityState.Battling;
+  const slots = Array.from({ length: DEFAULT_MOVE_SLOTS }, (_, slotIndex) => ({
+    slotIndex,
+    moveId: equipped[slotIndex],
+  }));
+  const unequippedMoves = learned.filter(
+    (moveId) => !equipped.includes(moveId),
+  );
+
+  // Equip into the selected slot, or the first free slot if none is selected
+  const targetSlot =
+    selectedSlot ??
+    (equipped.length < DEFAULT_MOVE_SLOTS ? equipped.length : null);
+
+  const handleEquip = (moveId: string) => {
+    if (targetSlot === null) return;
+    const result = equipMove(state, moveId, targetSlot);
+    setMessage(result.message);
+    if (result.success) {
+      actions.updateState(() => result.state);
+      setSelectedSlot(null);
+    }
+  };
+
+  const handleUnequip = (slotIndex: number) => {
+    const result = unequipMove(state, slotIndex);
+    setMessage(result.message);
+    if (result.success) {
+      actions.updateState(() => result.state);
+      setSelectedSlot(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2">
+            <span>⚔️</span>
+            Moves
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Equip up to {DEFAULT_MOVE_SLOTS} learned moves to use in battle.
+            Select a slot, then choose a move to place in it.
+          </p>
+          {isBattling && (
+            <p className="text-sm text-destructive">
+              Moves cannot be changed during battle.
+            </p>
+          )}
+          {message && <p className="text-sm">{message}</p>}
+        </CardContent>
+      </Card>
+
+      {/* Equipped slots */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Equipped Moves</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2">
+          {slots.map(({ slotIndex, moveId }) => {
+            const move = moveId ? getMoveById(moveId) : undefined;
+            const isSelected = selectedSlot === slotIndex;
+            return (
+              <div
+                key={slotIndex}
+                className={cn(
+                  "flex items-center justify-between gap-2 rounded-lg border p-2",
+                  isSelected && "ring-2 ring-primary border-primary",
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex-1 text-left disabled:cursor-not-allowed"
+                  onClick={() => setSelectedSlot(isSelected ? null : slotIndex)}
+                  disabled={isBattling}
+                  aria-pressed={isSelected}
+                >
+                  {move ? (
+                    <MoveSummary move={move} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Slot {slotIndex + 1}: Empty
+                    </p>
+                  )}
+                </button>
+                {move && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleUnequip(slotIndex)}
+                    disabled={isBattling}
+                  >
+                    Unequip
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Learned moves not currently equipped */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Learned Moves</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2">
+          {unequippedMoves.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {learned.length === 0
+                ? "No moves learned yet. Moves can be learned from training, quests and battles."
+                : "All learned moves are equipped."}
+            </p>
+          ) : (
+            unequippedMoves.map((moveId) => {
+              const move = getMoveById(moveId);
+              if (!move) return null;
+              return (
+                <div
+                  key={moveId}
+                  className="flex items-center justify-between gap-2 rounded-lg border p-2"
+                >
+                  <MoveSummary move={move} />
+                  <Button
+                    size="sm"
+                    onClick={() => handleEquip(moveId)}
+                    disabled={isBattling || targetSlot === null}
+                  >
+                    Equip
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Innate moves */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Innate Moves</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2">
+          {getDefaultMoves().map((move) => (
+            <div key={move.id} className="rounded-lg border p-2">
+              <MoveSummary move={move} />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Innate moves are always available and do not use a slot.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,13 +13,21 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { getStarterSpecies } from "@/game/data/species";
+import { getAvailableSpecies } from "@/game/core/unlocks";
 import type { Species } from "@/game/types/species";
+import { createInitialUnlocks, type Unlocks } from "@/game/types/unlock";
 import { cn } from "@/lib/utils";
 
 interface NewGameScreenProps {
   /** Callback when the player starts a new game */
   onStartGame: (petName: string, speciesId: string) => void;
+  /**
+   * Name of the pet that died, when adopting a new pet into an existing game.
+   * Switches the screen copy from starting a new game to adoption.
+   */
+  previousPetName?: string;
+  /** Content unlocked in the existing game; unlocked species can be adopted */
+  unlocks?: Unlocks;
 }
 
 interface SpeciesCardProps {
@@ -81,22 +89,32 @@ function SpeciesCard({ species, isSelected, onSelect }: SpeciesCardProps) {
 
 /**
  * New game screen with species selection and pet naming.
+ * Also used to adopt a new pet after the previous one has died.
  */
-export function NewGameScreen({ onStartGame }: NewGameScreenProps) {
+export function NewGameScreen({
+  onStartGame,
+  previousPetName,
+  unlocks,
+}: NewGameScreenProps) {
   const [petName, setPetName] = useState("");
   const [selectedSpecies, setSelectedSpecies] = useState<string | null>(null);
-  const starterSpecies = useMemo(() => getStarterSpecies(), []);
+  const availableSpecies = useMemo(
+    () => getAvailableSpecies(unlocks ?? createInitialUnlocks()),
+    [unlocks],
+  );
 
   const trimmedName = petName.trim();
   const isValid = trimmedName.length > 0 && selectedSpecies !== null;
 
+  const isAdoption = previousPetName !== undefined;
+
   const handleStart = () => {
     if (isValid && selectedSpecies !== null) {
       onStartGame(trimmedName, selectedSpecies);
     }
   };
 
-  if (starterSpecies.length === 0) {
+  if (availableSpecies.length === 0) {
     return (
       <div className="min-h-screen bg-background p-4">
         <div className="mx-auto max-w-2xl">
@@ -117,7 +135,9 @@ export function NewGameScreen({ onStartGame }: NewGameScreenProps) {
         <div className="text-center">
           <h1 className="text-4xl font-bold">🐾 Digital Pets</h1>
           <p className="text-muted-foreground mt-2">
-            Welcome! Choose your new companion and give them a name.
+            {isAdoption
+              ? `${previousPetName} will always be remembered. When you are ready, choose a new companion to continue your journey.`
+              : "Welcome! Choose your new companion and give them a name."}
           </p>
         </div>
 
@@ -134,7 +154,7 @@ export function NewGameScreen({ onStartGame }: NewGameScreenProps) {
               role="radiogroup"
               aria-labelledby="species-selection-title"
             >
-              {starterSpecies.map((species) => (
+              {availableSpecies.map((species) => (
                 <SpeciesCard
                   key={species.id}
                   species={species}
@@ -180,7 +200,7 @@ export function NewGameScreen({ onStartGame }: NewGameScreenProps) {
             disabled={!isValid}
             className="px-8"
           >
-            Start Your Adventure! 🎉
+            {isAdoption ? "Adopt Your New Pet! 🏡" : "Start Your Adventure! 🎉"}
           </Button>
         </div>
       </div>
@@ -8,14 +8,25 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { findInventoryItem } from "@/game/core/inventory";
-import { buyItem, calculateSellPrice, sellItem } from "@/game/core/shop";
+import {
+  buyItem,
+  calculateBuyPrice,
+  calculateSellPrice,
+  getShopListings,
+  sellItem,
+} from "@/game/core/shop";
 import { getItemById } from "@/game/data/items";
 import { getNpc } from "@/game/data/npcs";
 import { getShopForNpc } from "@/game/data/shops";
 import { useGameState } from "@/game/hooks/useGameState";
-import { selectCurrency, selectInventory } from "@/game/state/selectors";
+import {
+  selectCurrency,
+  selectInventory,
+  selectSkills,
+} from "@/game/state/selectors";
 import type { InventoryItem } from "@/game/types/gameState";
 import type { Item } from "@/game/types/item";
+import { SkillType } from "@/game/types/skill";
 import { cn } from "@/lib/utils";
 
 interface ShopScreenProps {
@@ -37,6 +48,7 @@ export function ShopScreen({ npcId, onClose }: ShopScreenProps) {
   const shop = npc?.shopId ? getShopForNpc(npc.shopId) : undefined;
   const currency = state ? selectCurrency(state) : null;
   const playerCoins = currency?.coins ?? 0;
+  const tradingLevel = state ? selectSkills(state)[SkillType.Trading].level : 1;
 
   // Clear message timeout on unmount
   useEffect(() => {
@@ -59,19 +71,22 @@ export function ShopScreen({ npcId, onClose }: ShopScreenProps) {
     }, 2000);
   }, []);
 
-  // Get shop items with their definitions
+  // Get the shop's current listings with their item definitions
   const shopItems = useMemo(() => {
-    if (!shop) return [];
-    return shop.items
-      .map((shopItem) => ({
-        shopItem,
-        itemDef: getItemById(shopItem.itemId),
-      }))
-      .filter(
-        (item): item is { shopItem: typeof item.shopItem; itemDef: Item } =>
-          item.itemDef !== undefined,
-      );
-  }, [shop]);
+    if (!state || !shop) return [];
+    return getShopListings(state, shop).flatMap((listing) => {
+      const itemDef = getItemById(listing.shopItem.itemId);
+      return itemDef
+        ? [
+            {
+              ...listing,
+              itemDef,
+              price: calculateBuyPrice(listing, tradingLevel),
+            },
+          ]
+        : [];
+    });
+  }, [state, shop, tradingLevel]);
 
   // Get player's sellable items (stackable items with quantity > 0)
   const sellableItems = useMemo(() => {
@@ -90,12 +105,12 @@ export function ShopScreen({ npcId, onClose }: ShopScreenProps) {
         acc.push({
           inventoryItem: invItem,
           itemDef,
-          sellPrice: calculateSellPrice(shop.id, invItem.itemId),
+          sellPrice: calculateSellPrice(shop.id, invItem.itemId, tradingLevel),
         });
       }
       return acc;
     }, []);
-  }, [state, shop]);
+  }, [state, shop, tradingLevel]);
 
   // Get selected item details
   const selectedShopItem = useMemo(() => {
@@ -245,8 +260,9 @@ export function ShopScreen({ npcId, onClose }: ShopScreenProps) {
             <BuySellPanel
               mode="buy"
               itemDef={selectedShopItem.itemDef}
-              shopItem={selectedShopItem.shopItem}
+              listing={selectedShopItem}
               playerCoins={playerCoins}
+              tradingLevel={tradingLevel}
               onBuy={handleBuy}
               onSell={() => {}}
             />
@@ -309,6 +325,7 @@ export function ShopScreen({ npcId, onClose }: ShopScreenProps) {
               inventoryItem={selectedSellItem.inventoryItem}
               playerCoins={playerCoins}
               sellPrice={selectedSellItem.sellPrice}
+              tradingLevel={tradingLevel}
               onBuy={() => {}}
               onSell={handleSell}
             />
@@ -14,6 +14,8 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { EmptyState } from "@/components/ui/empty-state";
 import { LoadingState } from "@/components/ui/loading-state";
+import { isExhausted } from "@/game/core/exhaustion";
+import { checkTrainingCare } from "@/game/core/training";
 import { getAllFacilities } from "@/game/data/facilities";
 import { useGameState } from "@/game/hooks/useGameState";
 import { cancelTraining, startTraining } from "@/game/state/actions/training";
@@ -45,6 +47,7 @@ export function TrainingScreen() {
   const isTraining = pet.activityState === ActivityState.Training;
   const isBlocked = pet.activityState !== ActivityState.Idle;
   const blockingInfo = getActivityBlockingInfo(pet, "train");
+  const careCheck = checkTrainingCare(pet);
 
   // Handle starting a training session
   const handleStartTraining = (
@@ -84,6 +87,17 @@ export function TrainingScreen() {
               Train your pet to improve battle stats. Each session costs energy
               and takes time to complete.
             </p>
+            {isExhausted(pet) && (
+              <p className="text-sm text-purple-600 dark:text-purple-400 mt-2">
+                😵 Your pet is exhausted from a battle defeat. Training gains
+                are halved until it recovers.
+              </p>
+            )}
+            {!careCheck.allowed && (
+              <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+                {careCheck.message}
+              </p>
+            )}
           </CardContent>
         )}
       </Card>
@@ -112,9 +126,7 @@ export function TrainingScreen() {
             <FacilityCard
               key={facility.id}
               facility={facility}
-              petStage={pet.growth.stage}
-              currentEnergy={currentEnergy}
-              isTraining={isTraining}
+              pet={pet}
               onSelectSession={handleStartTraining}
             />
           ))}
@@ -2,12 +2,15 @@
  * Re-export screen components.
  */
 
+export { AchievementsScreen } from "./AchievementsScreen";
 export { BattleScreen } from "./BattleScreen";
 export { CareScreen } from "./CareScreen";
+export { CraftingScreen } from "./CraftingScreen";
 export { ExplorationScreen } from "./ExplorationScreen";
 export { InventoryScreen } from "./InventoryScreen";
 export { MapScreen } from "./MapScreen";
 export { MenuScreen } from "./MenuScreen";
+export { MovesScreen } from "./MovesScreen";
 export { NewGameScreen } from "./NewGameScreen";
 export { QuestScreen } from "./QuestScreen";
 export { ShopScreen } from "./ShopScreen";
@@ -3,6 +3,8 @@
  */
 
 import { Card, CardContent } from "@/components/ui/card";
+import { isExhausted } from "@/game/core/exhaustion";
+import { formatTicksAsTime } from "@/game/types/common";
 import { ActivityState } from "@/game/types/constants";
 import type { Pet } from "@/game/types/pet";
 
@@ -68,6 +70,25 @@ export function getActivityBlockingInfo(
   }
 }
 
+/**
+ * Get blocking information for an exhausted pet trying to battle.
+ * Returns null if the pet is not exhausted.
+ */
+export function getExhaustionBlockingInfo(
+  pet: Pet,
+  actionDescription: string,
+): ActivityBlockingInfo | null {
+  if (!isExhausted(pet)) return null;
+  return {
+    blocked: true,
+    emoji: "😵",
+    title: "Your pet is exhausted...",
+    message: `Let your pet rest for ${formatTicksAsTime(pet.exhaustionTicks ?? 0)} to ${actionDescription}. Sleeping speeds up recovery.`,
+    colorClass:
+      "border-purple-200 bg-purple-50 dark:border-purple-800 dark:bg-purple-950 text-purple-700 dark:text-purple-300",
+  };
+}
+
 interface ActivityBlockedCardProps {
   blockingInfo: ActivityBlockingInfo;
 }
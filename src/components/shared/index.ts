@@ -6,5 +6,6 @@
 export {
   ActivityBlockedCard,
   getActivityBlockingInfo,
+  getExhaustionBlockingInfo,
 } from "./ActivityBlockedCard";
 export { StatsGainedDisplay } from "./StatsGainedDisplay";
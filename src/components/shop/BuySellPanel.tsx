@@ -5,6 +5,12 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { calculateBuyPrice, calculateBuyTotal } from "@/game/core/shop";
+import {
+  BULK_PURCHASE_QUANTITY,
+  getBulkDiscountRate,
+  getTradingPriceBonus,
+} from "@/game/core/trading";
 import { toDisplay, toDisplayCare } from "@/game/types/common";
 import type { InventoryItem } from "@/game/types/gameState";
 import type { Item } from "@/game/types/item";
@@ -18,7 +24,12 @@ import {
   isMedicineItem,
   isToyItem,
 } from "@/game/types/item";
-import type { ShopItem } from "@/game/types/shop";
+import {
+  type ShopListing,
+  ShopListingSource,
+  UNLIMITED_STOCK,
+} from "@/game/types/shop";
+import { cn } from "@/lib/utils";
 
 /**
  * Format a care stat value as a range if floor and ceil differ.
@@ -77,13 +88,37 @@ function getItemEffect(item: Item): string | null {
   return null;
 }
 
+/**
+ * Get the largest quantity of a listing the player can afford.
+ * The bulk discount can make one more item affordable than the unit price
+ * suggests, so this keeps counting up while the discounted total still fits.
+ */
+function getMaxAffordable(
+  listing: ShopListing,
+  playerCoins: number,
+  tradingLevel: number,
+): number {
+  const unitPrice = calculateBuyPrice(listing, tradingLevel);
+  if (unitPrice <= 0) return 0;
+  let quantity = Math.floor(playerCoins / unitPrice);
+  while (
+    calculateBuyTotal(listing, quantity + 1, tradingLevel) <= playerCoins
+  ) {
+    quantity++;
+  }
+  return quantity;
+}
+
 interface BuySellPanelProps {
   mode: "buy" | "sell";
   itemDef: Item;
-  shopItem?: ShopItem;
+  listing?: ShopListing;
   inventoryItem?: InventoryItem;
   playerCoins: number;
+  /** Sell price each, including the Trading bonus */
   sellPrice?: number;
+  /** Player's Trading level, used to show and apply price modifiers */
+  tradingLevel?: number;
   onBuy: (quantity: number) => void;
   onSell: (quantity: number) => void;
 }
@@ -94,26 +129,46 @@ interface BuySellPanelProps {
 export function BuySellPanel({
   mode,
   itemDef,
-  shopItem,
+  listing,
   inventoryItem,
   playerCoins,
   sellPrice,
+  tradingLevel = 1,
   onBuy,
   onSell,
 }: BuySellPanelProps) {
   const [quantity, setQuantity] = useState(1);
   const itemEffect = getItemEffect(itemDef);
 
-  const maxBuyQuantity =
-    shopItem && shopItem.buyPrice > 0
-      ? Math.floor(playerCoins / shopItem.buyPrice)
-      : 0;
+  const remainingStock = listing?.remaining ?? UNLIMITED_STOCK;
+  const isBuyback = listing?.source === ShopListingSource.Buyback;
+  const unitBuyPrice = listing ? calculateBuyPrice(listing, tradingLevel) : 0;
+  const maxAffordable = listing
+    ? getMaxAffordable(listing, playerCoins, tradingLevel)
+    : 0;
+  const isLimited = remainingStock !== UNLIMITED_STOCK;
+  const maxBuyQuantity = isLimited
+    ? Math.min(maxAffordable, remainingStock)
+    : maxAffordable;
   const maxSellQuantity = inventoryItem?.quantity ?? 0;
 
-  const totalBuyCost = shopItem ? shopItem.buyPrice * quantity : 0;
+  const totalBuyCost = listing
+    ? calculateBuyTotal(listing, quantity, tradingLevel)
+    : 0;
+  const priceBonusPercent = Math.round(
+    getTradingPriceBonus(tradingLevel) * 100,
+  );
+  const bulkDiscountPercent = Math.round(
+    getBulkDiscountRate(tradingLevel) * 100,
+  );
+  const isBulkPurchase = quantity >= BULK_PURCHASE_QUANTITY;
   const totalSellValue = sellPrice ? sellPrice * quantity : 0;
 
-  const canBuy = mode === "buy" && quantity > 0 && playerCoins >= totalBuyCost;
+  const canBuy =
+    mode === "buy" &&
+    quantity > 0 &&
+    playerCoins >= totalBuyCost &&
+    (!isLimited || quantity <= remainingStock);
   const canSell =
     mode === "sell" && quantity > 0 && quantity <= maxSellQuantity;
 
@@ -155,11 +210,16 @@ export function BuySellPanel({
 
         {/* Price info */}
         <div className="flex justify-between text-sm">
-          {mode === "buy" && shopItem && (
+          {mode === "buy" && listing && (
             <>
               <span>Price each:</span>
               <span className="text-yellow-600 dark:text-yellow-400">
-                🪙 {shopItem.buyPrice}
+                {unitBuyPrice < listing.shopItem.buyPrice && (
+                  <span className="mr-1 text-muted-foreground line-through">
+                    {listing.shopItem.buyPrice}
+                  </span>
+                )}
+                🪙 {unitBuyPrice}
               </span>
             </>
           )}
@@ -173,6 +233,35 @@ export function BuySellPanel({
           )}
         </div>
 
+        {/* Trading modifiers */}
+        <div className="space-y-1 rounded-md bg-muted/50 p-2 text-xs">
+          <div className="flex justify-between">
+            <span>Trading Lv. {tradingLevel}</span>
+            <span className="text-muted-foreground">
+              {mode === "buy" && isBuyback
+                ? "No discounts on buyback"
+                : priceBonusPercent > 0
+                  ? mode === "buy"
+                    ? `${priceBonusPercent}% off`
+                    : `+${priceBonusPercent}% sell price`
+                  : "No bonus yet"}
+            </span>
+          </div>
+          {mode === "buy" && !isBuyback && bulkDiscountPercent > 0 && (
+            <div
+              className={cn(
+                "flex justify-between",
+                isBulkPurchase
+                  ? "font-medium text-green-600 dark:text-green-400"
+                  : "text-muted-foreground",
+              )}
+            >
+              <span>Bulk ({BULK_PURCHASE_QUANTITY}+)</span>
+              <span>{bulkDiscountPercent}% off the total</span>
+            </div>
+          )}
+        </div>
+
         {/* Quantity selector */}
         <div className="flex items-center justify-center gap-4">
           <Button
@@ -232,10 +321,18 @@ export function BuySellPanel({
 
         {/* Available info */}
         <div className="text-xs text-muted-foreground text-center">
-          {mode === "buy" && maxBuyQuantity > 0 && (
-            <span>You can afford up to {maxBuyQuantity}</span>
+          {mode === "buy" && isLimited && remainingStock === 0 && (
+            <span className="text-red-500">
+              Sold out until the next restock
+            </span>
+          )}
+          {mode === "buy" && isLimited && remainingStock > 0 && (
+            <span>{remainingStock} left in stock. </span>
+          )}
+          {mode === "buy" && maxAffordable > 0 && remainingStock !== 0 && (
+            <span>You can afford up to {maxAffordable}</span>
           )}
-          {mode === "buy" && maxBuyQuantity === 0 && (
+          {mode === "buy" && maxAffordable === 0 && remainingStock !== 0 && (
             <span className="text-red-500">Not enough coins</span>
           )}
           {mode === "sell" && inventoryItem && (
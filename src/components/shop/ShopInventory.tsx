@@ -4,14 +4,16 @@
 
 import { Rarity } from "@/game/types/constants";
 import type { Item } from "@/game/types/item";
-import type { ShopItem } from "@/game/types/shop";
+import {
+  type ShopListing,
+  ShopListingSource,
+  UNLIMITED_STOCK,
+} from "@/game/types/shop";
 import { cn } from "@/lib/utils";
 
 interface ShopInventoryProps {
-  items: Array<{
-    shopItem: ShopItem;
-    itemDef: Item;
-  }>;
+  /** Listings with their item definitions and Trading-adjusted unit price */
+  items: Array<ShopListing & { itemDef: Item; price: number }>;
   selectedItemId: string | null;
   playerCoins: number;
   onSelectItem: (itemId: string) => void;
@@ -35,8 +37,17 @@ function getRarityClass(rarity: Rarity): string {
   }
 }
 
+/**
+ * Labels for listings that are not part of the shop's regular stock.
+ */
+const LISTING_SOURCE_LABELS: Partial<Record<ShopListingSource, string>> = {
+  [ShopListingSource.Rotating]: "Today",
+  [ShopListingSource.Buyback]: "Buyback",
+};
+
 /**
  * Displays a grid of items available for purchase in a shop.
+ * Limited items show how many are left until the next restock.
  */
 export function ShopInventory({
   items,
@@ -54,9 +65,11 @@ export function ShopInventory({
 
   return (
     <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
-      {items.map(({ shopItem, itemDef }) => {
+      {items.map(({ shopItem, itemDef, price, remaining, source }) => {
         const isSelected = selectedItemId === shopItem.itemId;
-        const canAfford = playerCoins >= shopItem.buyPrice;
+        const canAfford = playerCoins >= price;
+        const isSoldOut = remaining === 0;
+        const sourceLabel = LISTING_SOURCE_LABELS[source];
 
         return (
           <button
@@ -68,9 +81,19 @@ export function ShopInventory({
               "relative flex flex-col items-center justify-center gap-1 p-2 rounded-lg border-2 transition-all hover:bg-accent",
               getRarityClass(itemDef.rarity),
               isSelected && "ring-2 ring-primary bg-primary/10",
-              !canAfford && "opacity-50",
+              (!canAfford || isSoldOut) && "opacity-50",
             )}
           >
+            {sourceLabel && (
+              <span className="absolute top-1 left-1 text-[10px] bg-primary text-primary-foreground px-1 rounded">
+                {sourceLabel}
+              </span>
+            )}
+            {remaining !== UNLIMITED_STOCK && (
+              <span className="absolute top-1 right-1 text-xs bg-background/80 px-1 rounded">
+                {isSoldOut ? "Sold out" : `×${remaining}`}
+              </span>
+            )}
             <span className="text-2xl">{itemDef.icon}</span>
             <span className="text-xs font-medium truncate max-w-full">
               {itemDef.name}
@@ -83,7 +106,7 @@ export function ShopInventory({
                   : "text-red-500",
               )}
             >
-              🪙 {shopItem.buyPrice}
+              🪙 {price}
             </span>
           </button>
         );
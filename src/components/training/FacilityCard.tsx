@@ -4,48 +4,101 @@
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { isSessionAvailable } from "@/game/core/training";
+import {
+  calculateTrainingGains,
+  canStartTraining,
+  getFacilityMultiplier,
+  getTrainingAffinity,
+  getTrainingStatCap,
+} from "@/game/core/training";
 import type {
+  TrainableStat,
   TrainingFacility,
   TrainingSession,
   TrainingSessionType,
 } from "@/game/types/activity";
-import { formatTicksAsTime } from "@/game/types/common";
-import type { GrowthStage } from "@/game/types/constants";
+import { formatTicksAsTime, PERCENTAGE_MAX } from "@/game/types/common";
+import type { Pet } from "@/game/types/pet";
 import { cn } from "@/lib/utils";
 
 interface FacilityCardProps {
   facility: TrainingFacility;
-  petStage: GrowthStage;
-  currentEnergy: number;
-  isTraining: boolean;
+  pet: Pet;
   onSelectSession: (
     facilityId: string,
     sessionType: TrainingSessionType,
   ) => void;
 }
 
+/**
+ * Stat label with the species affinity, when the pet has one.
+ */
+function StatLabel({ pet, stat }: { pet: Pet; stat: TrainableStat }) {
+  const affinity = getTrainingAffinity(pet, stat);
+  return (
+    <span>
+      {stat}
+      {affinity !== 1 && (
+        <span
+          className={cn(
+            affinity > 1
+              ? "text-green-600 dark:text-green-400"
+              : "text-red-600 dark:text-red-400",
+          )}
+        >
+          {" "}
+          ×{affinity}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Facility fatigue or variety bonus, as a signed percentage.
+ */
+function FacilityModifier({
+  pet,
+  facilityId,
+}: {
+  pet: Pet;
+  facilityId: string;
+}) {
+  const percent = Math.round(
+    (getFacilityMultiplier(pet, facilityId) - 1) * PERCENTAGE_MAX,
+  );
+  if (percent === 0) return null;
+
+  return percent > 0 ? (
+    <span className="text-green-600 dark:text-green-400">
+      Variety +{percent}%
+    </span>
+  ) : (
+    <span className="text-orange-600 dark:text-orange-400">
+      Fatigue {percent}%
+    </span>
+  );
+}
+
 /**
  * Session button component.
  */
 function SessionButton({
   session,
   facilityId,
-  petStage,
-  currentEnergy,
-  isTraining,
+  pet,
   onSelect,
 }: {
   session: TrainingSession;
   facilityId: string;
-  petStage: GrowthStage;
-  currentEnergy: number;
-  isTraining: boolean;
+  pet: Pet;
   onSelect: (facilityId: string, sessionType: TrainingSessionType) => void;
 }) {
-  const available = isSessionAvailable(session, petStage);
-  const hasEnergy = currentEnergy >= session.energyCost;
-  const canStart = available && hasEnergy && !isTraining;
+  const canStart = canStartTraining(pet, facilityId, session.type).canTrain;
+  const gains = calculateTrainingGains(pet, facilityId, session.type);
+  const primaryStatGain = gains?.primaryStatGain ?? session.primaryStatGain;
+  const secondaryStatGain =
+    gains?.secondaryStatGain ?? session.secondaryStatGain;
 
   return (
     <Button
@@ -63,8 +116,9 @@ function SessionButton({
         {formatTicksAsTime(session.durationTicks)} · ⚡{session.energyCost}
       </span>
       <span className="text-[10px]">
-        +{session.primaryStatGain}
-        {session.secondaryStatGain > 0 && ` / +${session.secondaryStatGain}`}
+        +{primaryStatGain}
+        {session.secondaryStatGain > 0 && ` / +${secondaryStatGain}`}
+        {gains?.capped && " (cap)"}
       </span>
     </Button>
   );
@@ -75,9 +129,7 @@ function SessionButton({
  */
 export function FacilityCard({
   facility,
-  petStage,
-  currentEnergy,
-  isTraining,
+  pet,
   onSelectSession,
 }: FacilityCardProps) {
   return (
@@ -88,22 +140,25 @@ export function FacilityCard({
           <div className="flex-1">
             <CardTitle className="text-base">{facility.name}</CardTitle>
             <p className="text-xs text-muted-foreground">
-              {facility.primaryStat} / {facility.secondaryStat}
+              <StatLabel pet={pet} stat={facility.primaryStat} /> /{" "}
+              <StatLabel pet={pet} stat={facility.secondaryStat} />
             </p>
           </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-2">
         <p className="text-sm text-muted-foreground">{facility.description}</p>
+        <p className="text-xs text-muted-foreground flex gap-2">
+          <span>Stat cap {getTrainingStatCap(pet.growth.stage)}</span>
+          <FacilityModifier pet={pet} facilityId={facility.id} />
+        </p>
         <div className="flex gap-2">
           {facility.sessions.map((session) => (
             <SessionButton
               key={session.type}
               session={session}
               facilityId={facility.id}
-              petStage={petStage}
-              currentEnergy={currentEnergy}
-              isTraining={isTraining}
+              pet={pet}
               onSelect={onSelectSession}
             />
           ))}
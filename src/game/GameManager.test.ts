@@ -220,7 +220,7 @@ test("GameManager.dispatchBattleAction() processes battle action correctly", ()
   const updateState: StateUpdateCallback = (updater) => {
     const player = createTestCombatant({ name: "Player Pet", isPlayer: true });
     const enemy = createTestCombatant({ name: "Enemy Pet", isPlayer: false });
-    const battleState = initializeBattle(player, enemy);
+    const battleState = initializeBattle(player, enemy, 1);
     // Ensure it's player turn
     const playerTurnBattle = {
       ...battleState,
@@ -15,6 +15,8 @@ import {
   refreshDailyQuests,
   refreshWeeklyQuests,
 } from "@/game/core/quests/quests";
+import { createRng } from "@/game/core/rng";
+import { restockShops } from "@/game/core/shop";
 import { processOfflineCatchup } from "@/game/core/tickProcessor";
 import { calculateElapsedTicks, MAX_OFFLINE_TICKS } from "@/game/core/time";
 import {
@@ -24,6 +26,7 @@ import {
 } from "@/game/data/starting";
 import { createGameManager, type GameManager } from "@/game/GameManager";
 import { useGameNotifications } from "@/game/hooks/useGameNotifications";
+import { adoptPet as adoptPetAction } from "@/game/state/actions/adoption";
 import {
   deleteSave,
   hasSave,
@@ -51,8 +54,12 @@ export interface GameContextActions {
   save: () => boolean;
   /** Reset the game to initial state */
   resetGame: () => void;
+  /** Load the save with invalid values replaced by defaults */
+  repairSave: () => void;
   /** Start a new game with given pet name and species */
   startNewGame: (petName: string, speciesId: string) => void;
+  /** Adopt a new pet after the previous one died, keeping player progress */
+  adoptPet: (petName: string, speciesId: string) => void;
   /** Dismiss the offline report */
   dismissOfflineReport: () => void;
   /** Dismiss a notification */
@@ -69,6 +76,8 @@ export interface GameContextValue {
   isLoading: boolean;
   /** Load error message if any */
   loadError: string | null;
+  /** Whether the save that failed to load can be repaired */
+  canRepairSave: boolean;
   /** Whether a save exists (for showing new game vs load game) */
   hasSaveData: boolean;
   /** Offline report to display (null if none or dismissed) */
@@ -101,6 +110,7 @@ export function GameProvider({ children }: GameProviderProps) {
   const [state, setState] = useState<GameState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [canRepairSave, setCanRepairSave] = useState(false);
   const [hasSaveData, setHasSaveData] = useState(false);
   const [offlineReport, setOfflineReport] = useState<OfflineReport | null>(
     null,
@@ -206,6 +216,7 @@ export function GameProvider({ children }: GameProviderProps) {
         startGame(result.state);
       } else if (!result.success) {
         setLoadError(result.error);
+        setCanRepairSave(result.canRepair ?? false);
       }
       // If save exists but is not initialized (e.g., from a previous incomplete game creation),
       // delete the corrupted save and let user start fresh
@@ -247,8 +258,24 @@ export function GameProvider({ children }: GameProviderProps) {
     setHasSaveData(false);
     setState(null);
     setLoadError(null);
+    setCanRepairSave(false);
   }, []);
 
+  const repairSave = useCallback(() => {
+    const result = loadGame({ repair: true });
+    if (!result.success) {
+      setLoadError(result.error);
+      setCanRepairSave(false);
+      return;
+    }
+
+    setLoadError(null);
+    setCanRepairSave(false);
+    if (result.state.isInitialized) {
+      startGame(result.state);
+    }
+  }, [startGame]);
+
   const startNewGame = useCallback(
     (petName: string, speciesId: string) => {
       // Stop any existing game loop before starting a new one
@@ -285,6 +312,10 @@ export function GameProvider({ children }: GameProviderProps) {
       newState = refreshDailyQuests(newState);
       newState = refreshWeeklyQuests(newState);
 
+      // Stock the shops, including the first day's rotating items
+      const rng = createRng(newState.rngState);
+      newState = { ...restockShops(newState, rng), rngState: rng.state };
+
       // Start the game with the new state
       // Note: setHasSaveData is set after startGame for consistency,
       // ensuring state is initialized before marking that save data exists.
@@ -294,6 +325,19 @@ export function GameProvider({ children }: GameProviderProps) {
     [startGame],
   );
 
+  const adoptPet = useCallback(
+    (petName: string, speciesId: string) => {
+      updateState((state) => {
+        const result = adoptPetAction(state, petName, speciesId);
+        if (!result.success) {
+          console.error("Failed to adopt pet:", result.message);
+        }
+        return result.state;
+      });
+    },
+    [updateState],
+  );
+
   const dispatchBattleAction = useCallback((action: BattleAction) => {
     if (gameManagerRef.current) {
       gameManagerRef.current.dispatchBattleAction(action);
@@ -304,6 +348,7 @@ export function GameProvider({ children }: GameProviderProps) {
     state,
     isLoading,
     loadError,
+    canRepairSave,
     hasSaveData,
     offlineReport,
     notification,
@@ -312,7 +357,9 @@ export function GameProvider({ children }: GameProviderProps) {
       dispatchBattleAction,
       save,
       resetGame,
+      repairSave,
       startNewGame,
+      adoptPet,
       dismissOfflineReport,
       dismissNotification,
     },
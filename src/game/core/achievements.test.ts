@@ -0,0 +1,203 @@
+/**
+ * Tests for achievement tracking and rewards.
+ */
+
+import { expect, test } from "bun:test";
+import { isUnlocked } from "@/game/core/unlocks";
+import {
+  achievementCartographer,
+  achievementFirstMeal,
+  achievementWellFed,
+} from "@/game/data/achievements";
+import { allLocations } from "@/game/data/locations";
+import { SPECIES } from "@/game/data/species";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import {
+  type CareActionEvent,
+  createEvent,
+  type TravelEvent,
+} from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import { UnlockType } from "@/game/types/unlock";
+import {
+  getAchievementBonusMaxStats,
+  getAchievementProgress,
+  processAchievements,
+  recordAchievementEvents,
+} from "./achievements";
+
+function careEvent(action: CareActionEvent["action"]): CareActionEvent {
+  return createEvent<CareActionEvent>(
+    {
+      type: "careAction",
+      action,
+      itemId: "food_kibble",
+      petName: "Test Pet",
+      message: "",
+    },
+    1000,
+  );
+}
+
+function travelEvent(toLocationId: string): TravelEvent {
+  return createEvent<TravelEvent>(
+    {
+      type: "travel",
+      fromLocationId: "home",
+      toLocationId,
+      toLocationName: toLocationId,
+    },
+    1000,
+  );
+}
+
+function withWins(state: GameState, wins: number): GameState {
+  return { ...state, combatRecord: { ...state.combatRecord, wins } };
+}
+
+test("recordAchievementEvents counts only matching events", () => {
+  const result = recordAchievementEvents(createInitialAchievementState(), [
+    careEvent("feed"),
+    careEvent("feed"),
+    careEvent("clean"),
+  ]);
+
+  expect(result.progress[achievementWellFed.id]).toBe(2);
+  expect(result.progress.hydrated).toBeUndefined();
+});
+
+test("recordAchievementEvents stops counting unlocked achievements", () => {
+  const achievementState = {
+    ...createInitialAchievementState(),
+    progress: { [achievementFirstMeal.id]: 1 },
+    unlocked: { [achievementFirstMeal.id]: 500 },
+  };
+
+  const result = recordAchievementEvents(achievementState, [careEvent("feed")]);
+
+  expect(result.progress[achievementFirstMeal.id]).toBe(1);
+  expect(result.progress[achievementWellFed.id]).toBe(1);
+});
+
+test("recordAchievementEvents remembers visited locations", () => {
+  const achievementState = createInitialAchievementState();
+
+  const result = recordAchievementEvents(achievementState, [
+    travelEvent("willowbrook"),
+    travelEvent("willowbrook"),
+  ]);
+
+  expect(result.visitedLocations).toEqual(["home", "willowbrook"]);
+  expect(recordAchievementEvents(achievementState, [])).toBe(achievementState);
+});
+
+test("processAchievements unlocks achievements and grants their rewards", () => {
+  const state = createTestGameState();
+
+  const result = processAchievements(state, [careEvent("feed")], 1000);
+
+  expect(result.achievements.unlocked[achievementFirstMeal.id]).toBe(1000);
+  expect(result.player.currency.coins).toBe(state.player.currency.coins + 25);
+  expect(result.pendingEvents).toContainEqual({
+    type: "achievementUnlocked",
+    achievementId: achievementFirstMeal.id,
+    achievementName: achievementFirstMeal.name,
+    timestamp: 1000,
+  });
+  expect(result.pendingNotifications).toEqual([
+    {
+      type: "achievementUnlocked",
+      achievementId: achievementFirstMeal.id,
+      achievementName: achievementFirstMeal.name,
+      rewards: ["25 coins"],
+    },
+  ]);
+});
+
+test("processAchievements leaves the state alone when nothing changes", () => {
+  const state = createTestGameState();
+  expect(processAchievements(state, [], 1000)).toBe(state);
+});
+
+test("processAchievements checks the combat record", () => {
+  const result = processAchievements(
+    withWins(createTestGameState(), 1),
+    [],
+    1000,
+  );
+
+  expect(result.achievements.unlocked.first_victory).toBe(1000);
+  expect(result.player.inventory.items).toContainEqual(
+    expect.objectContaining({ itemId: "medicine_potion", quantity: 3 }),
+  );
+});
+
+test("processAchievements grants species unlocks", () => {
+  const result = processAchievements(
+    withWins(createTestGameState(), 50),
+    [],
+    1000,
+  );
+
+  expect(
+    isUnlocked(result.unlocks, UnlockType.Species, SPECIES.SHADOWMOTH.id),
+  ).toBe(true);
+});
+
+test("bonus max stat rewards apply to every pet on the roster", () => {
+  const benched = createTestPet({ identity: { id: "benched" } });
+  const state = createTestGameState(createTestPet(), {
+    benchedPets: [benched],
+    achievements: {
+      ...createInitialAchievementState(),
+      progress: { [achievementWellFed.id]: 99 },
+      unlocked: { [achievementFirstMeal.id]: 500 },
+    },
+  });
+
+  const result = processAchievements(state, [careEvent("feed")], 1000);
+
+  expect(result.pet?.bonusMaxStats.satiety).toBe(
+    (state.pet?.bonusMaxStats.satiety ?? 0) + 10_000,
+  );
+  expect(result.benchedPets[0]?.bonusMaxStats.satiety).toBe(
+    benched.bonusMaxStats.satiety + 10_000,
+  );
+  expect(getAchievementBonusMaxStats(result.achievements).satiety).toBe(10_000);
+});
+
+test("visiting every location unlocks Cartographer", () => {
+  const state = createTestGameState(createTestPet(), {
+    achievements: {
+      ...createInitialAchievementState(),
+      visitedLocations: allLocations.map((location) => location.id),
+    },
+  });
+
+  const result = processAchievements(state, [], 1000);
+
+  expect(result.achievements.unlocked[achievementCartographer.id]).toBe(1000);
+});
+
+test("getAchievementProgress reports progress toward the target", () => {
+  const state = createTestGameState(createTestPet(), {
+    achievements: {
+      ...createInitialAchievementState(),
+      progress: { [achievementWellFed.id]: 40 },
+      unlocked: { [achievementCartographer.id]: 500 },
+    },
+  });
+
+  expect(getAchievementProgress(state, achievementWellFed)).toEqual({
+    current: 40,
+    target: 100,
+  });
+  expect(getAchievementProgress(state, achievementCartographer)).toEqual({
+    current: allLocations.length,
+    target: allLocations.length,
+  });
+});
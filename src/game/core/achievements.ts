@@ -0,0 +1,356 @@
+/**
+ * Achievement tracking and rewards.
+ *
+ * Event-based achievements count matching game events as they happen.
+ * Other achievements are checked against the current state: the combat
+ * record, visited locations, skill levels and pet levels. Achievements are
+ * checked after every game tick and after care and travel actions, and
+ * unlock as soon as their condition is met.
+ */
+
+import { emitEvent } from "@/game/core/events";
+import { createDefaultBonusMaxStats } from "@/game/core/petStats";
+import { getRoster } from "@/game/core/roster";
+import { receiveItem } from "@/game/core/storage";
+import { getUnlockDisplayName, grantUnlock } from "@/game/core/unlocks";
+import { achievements } from "@/game/data/achievements";
+import { getItemById } from "@/game/data/items";
+import { allLocations } from "@/game/data/locations";
+import {
+  type Achievement,
+  type AchievementCondition,
+  AchievementConditionType,
+  type AchievementMaxStatBonus,
+  type AchievementReward,
+  AchievementRewardType,
+  type AchievementState,
+} from "@/game/types/achievement";
+import { now, toDisplay } from "@/game/types/common";
+import {
+  type AchievementUnlockedEvent,
+  createEvent,
+  type GameEvent,
+} from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import type { BonusMaxStats, Pet } from "@/game/types/pet";
+import { SKILL_TIER_THRESHOLDS } from "@/game/types/skill";
+import { UnlockType } from "@/game/types/unlock";
+
+/**
+ * Progress toward an achievement.
+ */
+export interface AchievementProgress {
+  /** Current value */
+  current: number;
+  /** Value needed to unlock */
+  target: number;
+}
+
+/**
+ * Display labels for achievement max stat bonuses.
+ */
+const MAX_STAT_BONUS_LABELS: Record<keyof AchievementMaxStatBonus, string> = {
+  satiety: "Max Satiety",
+  hydration: "Max Hydration",
+  happiness: "Max Happiness",
+  energy: "Max Energy",
+  careLife: "Max Care Life",
+};
+
+/**
+ * Check if an achievement has been unlocked.
+ */
+export function isAchievementUnlocked(
+  achievementState: AchievementState,
+  achievementId: string,
+): boolean {
+  return achievementState.unlocked[achievementId] !== undefined;
+}
+
+/**
+ * Check if an event counts toward an event-based condition.
+ */
+function eventMatchesCondition(
+  event: GameEvent,
+  condition: AchievementCondition,
+): boolean {
+  if (condition.type !== AchievementConditionType.Event) return false;
+  if (event.type !== condition.eventType) return false;
+
+  const fields: Record<string, unknown> = { ...event };
+  return Object.entries(condition.match ?? {}).every(
+    ([key, value]) => fields[key] === value,
+  );
+}
+
+/**
+ * Count events toward locked event-based achievements and remember the
+ * locations the player travels to.
+ */
+export function recordAchievementEvents(
+  achievementState: AchievementState,
+  events: GameEvent[],
+): AchievementState {
+  let progress = achievementState.progress;
+  let visitedLocations = achievementState.visitedLocations;
+
+  for (const event of events) {
+    if (
+      event.type === "travel" &&
+      !visitedLocations.includes(event.toLocationId)
+    ) {
+      visitedLocations = [...visitedLocations, event.toLocationId];
+    }
+
+    for (const achievement of achievements) {
+      const { condition } = achievement;
+      if (
+        condition.type !== AchievementConditionType.Event ||
+        isAchievementUnlocked(achievementState, achievement.id) ||
+        !eventMatchesCondition(event, condition)
+      ) {
+        continue;
+      }
+      progress = {
+        ...progress,
+        [achievement.id]: Math.min(
+          (progress[achievement.id] ?? 0) + 1,
+          condition.count,
+        ),
+      };
+    }
+  }
+
+  if (
+    progress === achievementState.progress &&
+    visitedLocations === achievementState.visitedLocations
+  ) {
+    return achievementState;
+  }
+  return { ...achievementState, progress, visitedLocations };
+}
+
+/**
+ * Get the progress toward an achievement.
+ * Unlocked achievements always report full progress.
+ */
+export function getAchievementProgress(
+  state: GameState,
+  achievement: Achievement,
+): AchievementProgress {
+  const progress = getConditionProgress(state, achievement);
+  if (isAchievementUnlocked(state.achievements, achievement.id)) {
+    return { current: progress.target, target: progress.target };
+  }
+  return {
+    current: Math.min(progress.current, progress.target),
+    target: progress.target,
+  };
+}
+
+/**
+ * Measure the current value of an achievement's condition.
+ */
+function getConditionProgress(
+  state: GameState,
+  achievement: Achievement,
+): AchievementProgress {
+  const { condition } = achievement;
+  switch (condition.type) {
+    case AchievementConditionType.Event:
+      return {
+        current: state.achievements.progress[achievement.id] ?? 0,
+        target: condition.count,
+      };
+    case AchievementConditionType.BattlesWon:
+      return { current: state.combatRecord.wins, target: condition.count };
+    case AchievementConditionType.LocationsVisited:
+      return {
+        current: allLocations.filter((location) =>
+          state.achievements.visitedLocations.includes(location.id),
+        ).length,
+        target: allLocations.length,
+      };
+    case AchievementConditionType.SkillTier:
+      return {
+        current: Math.max(
+          ...Object.values(state.player.skills).map((skill) => skill.level),
+        ),
+        target: SKILL_TIER_THRESHOLDS[condition.tier].min,
+      };
+    case AchievementConditionType.PetLevel:
+      return {
+        current: Math.max(
+          0,
+          ...getRoster(state).map((pet) => pet.progression.level),
+        ),
+        target: condition.level,
+      };
+  }
+}
+
+/**
+ * Describe an achievement reward for display.
+ */
+export function describeAchievementReward(reward: AchievementReward): string {
+  switch (reward.type) {
+    case AchievementRewardType.Currency:
+      return `${reward.amount} coins`;
+    case AchievementRewardType.Item:
+      return `${reward.quantity}x ${getItemById(reward.itemId)?.name ?? reward.itemId}`;
+    case AchievementRewardType.BonusMaxStats:
+      return Object.entries(reward.bonus)
+        .map(
+          ([stat, value]) =>
+            `${MAX_STAT_BONUS_LABELS[stat as keyof AchievementMaxStatBonus]} +${toDisplay(value ?? 0)}`,
+        )
+        .join(", ");
+    case AchievementRewardType.Species:
+      return `Unlocked: ${getUnlockDisplayName(UnlockType.Species, reward.speciesId)}`;
+  }
+}
+
+/**
+ * Add an achievement max stat bonus to a pet's bonus max stats.
+ */
+function addMaxStatBonus(
+  bonusMaxStats: BonusMaxStats,
+  bonus: AchievementMaxStatBonus,
+): BonusMaxStats {
+  return {
+    ...bonusMaxStats,
+    satiety: bonusMaxStats.satiety + (bonus.satiety ?? 0),
+    hydration: bonusMaxStats.hydration + (bonus.hydration ?? 0),
+    happiness: bonusMaxStats.happiness + (bonus.happiness ?? 0),
+    energy: bonusMaxStats.energy + (bonus.energy ?? 0),
+    careLife: bonusMaxStats.careLife + (bonus.careLife ?? 0),
+  };
+}
+
+/**
+ * Get the total bonus max stats from every unlocked achievement.
+ * New pets start with these bonuses.
+ */
+export function getAchievementBonusMaxStats(
+  achievementState: AchievementState,
+): BonusMaxStats {
+  let bonusMaxStats = createDefaultBonusMaxStats();
+  for (const achievement of achievements) {
+    if (!isAchievementUnlocked(achievementState, achievement.id)) continue;
+    for (const reward of achievement.rewards) {
+      if (reward.type === AchievementRewardType.BonusMaxStats) {
+        bonusMaxStats = addMaxStatBonus(bonusMaxStats, reward.bonus);
+      }
+    }
+  }
+  return bonusMaxStats;
+}
+
+/**
+ * Grant a single achievement reward.
+ * Bonus max stats are permanent and apply to every pet on the roster.
+ */
+function grantAchievementReward(
+  state: GameState,
+  reward: AchievementReward,
+): GameState {
+  switch (reward.type) {
+    case AchievementRewardType.Currency:
+      return {
+        ...state,
+        player: {
+          ...state.player,
+          currency: {
+            ...state.player.currency,
+            coins: state.player.currency.coins + reward.amount,
+          },
+        },
+      };
+    case AchievementRewardType.Item:
+      return receiveItem(state, reward.itemId, reward.quantity).state;
+    case AchievementRewardType.BonusMaxStats: {
+      const applyBonus = (pet: Pet): Pet => ({
+        ...pet,
+        bonusMaxStats: addMaxStatBonus(pet.bonusMaxStats, reward.bonus),
+      });
+      return {
+        ...state,
+        pet: state.pet ? applyBonus(state.pet) : null,
+        benchedPets: state.benchedPets.map(applyBonus),
+      };
+    }
+    case AchievementRewardType.Species:
+      return grantUnlock(state, UnlockType.Species, reward.speciesId).state;
+  }
+}
+
+/**
+ * Unlock an achievement and grant its rewards.
+ * Emits an achievementUnlocked event and queues a notification.
+ */
+function unlockAchievement(
+  state: GameState,
+  achievement: Achievement,
+  timestamp: number,
+): GameState {
+  let updatedState: GameState = {
+    ...state,
+    achievements: {
+      ...state.achievements,
+      unlocked: { ...state.achievements.unlocked, [achievement.id]: timestamp },
+    },
+  };
+  for (const reward of achievement.rewards) {
+    updatedState = grantAchievementReward(updatedState, reward);
+  }
+
+  const event = createEvent<AchievementUnlockedEvent>(
+    {
+      type: "achievementUnlocked",
+      achievementId: achievement.id,
+      achievementName: achievement.name,
+    },
+    timestamp,
+  );
+
+  return {
+    ...emitEvent(updatedState, event),
+    pendingNotifications: [
+      ...updatedState.pendingNotifications,
+      {
+        type: "achievementUnlocked",
+        achievementId: achievement.id,
+        achievementName: achievement.name,
+        rewards: achievement.rewards.map(describeAchievementReward),
+      },
+    ],
+  };
+}
+
+/**
+ * Count events toward achievements, then unlock every achievement whose
+ * condition is now met.
+ */
+export function processAchievements(
+  state: GameState,
+  events: GameEvent[],
+  timestamp: number = now(),
+): GameState {
+  let updatedState = state;
+  const achievementState = recordAchievementEvents(state.achievements, events);
+  if (achievementState !== state.achievements) {
+    updatedState = { ...state, achievements: achievementState };
+  }
+
+  for (const achievement of achievements) {
+    if (isAchievementUnlocked(updatedState.achievements, achievement.id)) {
+      continue;
+    }
+    const { current, target } = getConditionProgress(updatedState, achievement);
+    if (current >= target) {
+      updatedState = unlockAchievement(updatedState, achievement, timestamp);
+    }
+  }
+
+  return updatedState;
+}
@@ -9,6 +9,7 @@ import { ActivityState } from "@/game/types/constants";
 import {
   checkActivityIdle,
   checkActivityRequirements,
+  checkCanBattle,
   checkEnergy,
 } from "./activityGating";
 
@@ -123,3 +124,30 @@ test("checkActivityRequirements skips energy check when not provided", () => {
   expect(result.allowed).toBe(true);
   expect(result.message).toBe("");
 });
+
+test("checkCanBattle allows a rested pet", () => {
+  const pet = createTestPet();
+  expect(checkCanBattle(pet).allowed).toBe(true);
+});
+
+test("checkCanBattle blocks an exhausted pet", () => {
+  const pet = createTestPet({ exhaustionTicks: 120 });
+  const result = checkCanBattle(pet);
+
+  expect(result.allowed).toBe(false);
+  expect(result.message).toContain("1h");
+});
+
+test("checkActivityRequirements blocks battles while exhausted", () => {
+  const pet = createTestPet({ exhaustionTicks: 120 });
+
+  expect(
+    checkActivityRequirements(pet, "battle", undefined, ActivityState.Battling)
+      .allowed,
+  ).toBe(false);
+  // Other activities are still allowed
+  expect(
+    checkActivityRequirements(pet, "train", undefined, ActivityState.Training)
+      .allowed,
+  ).toBe(true);
+});
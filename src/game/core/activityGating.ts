@@ -4,11 +4,13 @@
  * This module provides consistent blocking rules for actions that require:
  * - The pet to be idle (not sleeping, training, exploring, or battling)
  * - Sufficient energy to perform the action
+ * - The pet to have recovered from exhaustion (battles only)
  */
 
+import { isExhausted } from "@/game/core/exhaustion";
 import { ActivityMessages, EnergyMessages } from "@/game/data/messages";
 import type { MicroValue } from "@/game/types/common";
-import { toDisplay } from "@/game/types/common";
+import { formatTicksAsTime, toDisplay } from "@/game/types/common";
 import { ActivityState } from "@/game/types/constants";
 import type { Pet } from "@/game/types/pet";
 
@@ -70,8 +72,24 @@ export function checkEnergy(
   return { allowed: true, message: "" };
 }
 
+/**
+ * Check if the pet has recovered from exhaustion and can battle.
+ */
+export function checkCanBattle(pet: Pet): ActivityGatingResult {
+  if (isExhausted(pet)) {
+    return {
+      allowed: false,
+      message: ActivityMessages.tooExhaustedToBattle(
+        formatTicksAsTime(pet.exhaustionTicks ?? 0),
+      ),
+    };
+  }
+  return { allowed: true, message: "" };
+}
+
 /**
  * Combined check for activity idle state and energy requirements.
+ * Battles (sameActivityState of Battling) also require the pet not to be exhausted.
  *
  * @param pet - The pet to check
  * @param attemptedAction - Description of the action being attempted
@@ -94,6 +112,14 @@ export function checkActivityRequirements(
     return activityCheck;
   }
 
+  // Exhausted pets cannot battle
+  if (sameActivityState === ActivityState.Battling) {
+    const battleCheck = checkCanBattle(pet);
+    if (!battleCheck.allowed) {
+      return battleCheck;
+    }
+  }
+
   // Then check energy if required
   if (requiredEnergy !== undefined) {
     const energyCheck = checkEnergy(pet.energyStats.energy, requiredEnergy);
@@ -3,13 +3,22 @@
  */
 
 import { expect, test } from "bun:test";
+import { createRng } from "@/game/core/rng";
+import { basicAttack } from "@/game/data/moves";
 import { SPECIES } from "@/game/data/species";
 import { createTestCombatant } from "@/game/testing/createTestCombatant";
-import { createDefaultBattleStats } from "@/game/testing/createTestPet";
 import {
+  createDefaultBattleStats,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import {
+  attemptFlee,
   BattlePhase,
   calculateBattleRewards,
+  calculateFleeChance,
+  createCombatantFromPet,
   createWildCombatant,
+  executePlayerTurn,
   initializeBattle,
   isBattleComplete,
 } from "./battle";
@@ -19,7 +28,7 @@ test("initializeBattle sets phase to PlayerTurn when player has equal or higher
   const player = createTestCombatant({ name: "Player Pet", isPlayer: true });
   const enemy = createTestCombatant({ name: "Enemy Pet", isPlayer: false });
 
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   expect(state.phase).toBe(BattlePhase.PlayerTurn);
   expect(state.turn).toBe(1);
@@ -44,7 +53,7 @@ test("initializeBattle sets phase to EnemyTurn when enemy has higher initiative"
     derivedStats: calculateDerivedStats(fastBattleStats),
   });
 
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   expect(state.phase).toBe(BattlePhase.EnemyTurn);
   expect(state.turnOrder[0]).toBe("enemy");
@@ -54,7 +63,7 @@ test("initializeBattle sets correct combatants", () => {
   const player = createTestCombatant({ name: "Player Pet", isPlayer: true });
   const enemy = createTestCombatant({ name: "Enemy Pet", isPlayer: false });
 
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   expect(state.player.name).toBe("Player Pet");
   expect(state.enemy.name).toBe("Enemy Pet");
@@ -64,7 +73,7 @@ test("initializeBattle creates initial log entry", () => {
   const player = createTestCombatant({ name: "Hero", isPlayer: true });
   const enemy = createTestCombatant({ name: "Villain", isPlayer: false });
 
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   expect(state.log.length).toBeGreaterThan(0);
   expect(state.log[0]?.type).toBe("system");
@@ -73,7 +82,7 @@ test("initializeBattle creates initial log entry", () => {
 test("isBattleComplete returns true for Victory phase", () => {
   const player = createTestCombatant();
   const enemy = createTestCombatant();
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   const victoryState = { ...state, phase: BattlePhase.Victory };
   expect(isBattleComplete(victoryState)).toBe(true);
@@ -82,7 +91,7 @@ test("isBattleComplete returns true for Victory phase", () => {
 test("isBattleComplete returns true for Defeat phase", () => {
   const player = createTestCombatant();
   const enemy = createTestCombatant();
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   const defeatState = { ...state, phase: BattlePhase.Defeat };
   expect(isBattleComplete(defeatState)).toBe(true);
@@ -91,7 +100,7 @@ test("isBattleComplete returns true for Defeat phase", () => {
 test("isBattleComplete returns false for PlayerTurn phase", () => {
   const player = createTestCombatant();
   const enemy = createTestCombatant();
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   expect(isBattleComplete(state)).toBe(false);
 });
@@ -99,7 +108,7 @@ test("isBattleComplete returns false for PlayerTurn phase", () => {
 test("calculateBattleRewards returns coins for victory", () => {
   const player = createTestCombatant();
   const enemy = createTestCombatant();
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   const rewards = calculateBattleRewards(state, true);
 
@@ -109,13 +118,33 @@ test("calculateBattleRewards returns coins for victory", () => {
 test("calculateBattleRewards returns 0 coins for defeat", () => {
   const player = createTestCombatant();
   const enemy = createTestCombatant();
-  const state = initializeBattle(player, enemy);
+  const state = initializeBattle(player, enemy, 1);
 
   const rewards = calculateBattleRewards(state, false);
 
   expect(rewards.coins).toBe(0);
 });
 
+test("initializeBattle stores the battle rng state", () => {
+  const player = createTestCombatant({ isPlayer: true });
+  const enemy = createTestCombatant({ isPlayer: false });
+
+  expect(initializeBattle(player, enemy, 42).rngState).toBe(42);
+});
+
+test("executePlayerTurn is reproducible from the same rng state", () => {
+  const player = createTestCombatant({ name: "Player Pet", isPlayer: true });
+  const enemy = createTestCombatant({ name: "Enemy Pet", isPlayer: false });
+  const state = initializeBattle(player, enemy, 1234);
+  const move = basicAttack;
+
+  const first = executePlayerTurn(state, move);
+  const second = executePlayerTurn(state, move);
+
+  expect(second).toEqual(first);
+  expect(first.rngState).not.toBe(state.rngState);
+});
+
 test("createWildCombatant creates combatant with scaled stats", () => {
   const level1 = createWildCombatant(SPECIES.FLORABIT.id, 1);
   const level10 = createWildCombatant(SPECIES.FLORABIT.id, 10);
@@ -136,3 +165,116 @@ test("createWildCombatant sets correct name format", () => {
 test("createWildCombatant throws for unknown species", () => {
   expect(() => createWildCombatant("unknown_species", 1)).toThrow();
 });
+
+test("createCombatantFromPet includes innate and equipped moves", () => {
+  const pet = createTestPet({
+    moves: { learned: ["quick_strike", "harden"], equipped: ["harden"] },
+  });
+  const combatant = createCombatantFromPet(pet, true);
+  expect(combatant.moveSlots.map((slot) => slot.move.id)).toEqual([
+    "basic_attack",
+    "rest",
+    "harden",
+  ]);
+});
+
+test("createCombatantFromPet adds equipment crit rate to critical chance", () => {
+  const pet = createTestPet();
+  const equippedPet = createTestPet({
+    equipment: {
+      accessory: { itemId: "equip_hunters_eye", currentDurability: 10 },
+      charm: null,
+    },
+  });
+  const base = createCombatantFromPet(pet, true);
+  const equipped = createCombatantFromPet(equippedPet, true);
+  expect(equipped.derivedStats.criticalChance).toBe(
+    base.derivedStats.criticalChance + 5,
+  );
+});
+
+test("calculateFleeChance is 50% for equal agility", () => {
+  const player = createTestCombatant({ isPlayer: true });
+  const enemy = createTestCombatant({ isPlayer: false });
+
+  expect(calculateFleeChance(player, enemy)).toBe(0.5);
+});
+
+test("calculateFleeChance rises with the player's agility advantage", () => {
+  const fast = createDefaultBattleStats();
+  fast.agility = 20;
+  const slow = createDefaultBattleStats();
+  slow.agility = 10;
+  const player = createTestCombatant({ battleStats: fast });
+  const enemy = createTestCombatant({ battleStats: slow, isPlayer: false });
+
+  expect(calculateFleeChance(player, enemy)).toBeCloseTo(0.7);
+  expect(calculateFleeChance(enemy, player)).toBeCloseTo(0.3);
+});
+
+test("calculateFleeChance is clamped", () => {
+  const fast = createDefaultBattleStats();
+  fast.agility = 200;
+  const slow = createDefaultBattleStats();
+  slow.agility = 1;
+  const player = createTestCombatant({ battleStats: fast });
+  const enemy = createTestCombatant({ battleStats: slow, isPlayer: false });
+
+  expect(calculateFleeChance(player, enemy)).toBe(0.95);
+  expect(calculateFleeChance(enemy, player)).toBe(0.1);
+});
+
+/**
+ * Find a battle rng seed whose first roll satisfies the predicate.
+ */
+function findSeed(predicate: (roll: number) => boolean): number {
+  for (let seed = 1; seed < 1000; seed++) {
+    if (predicate(createRng(seed).next())) return seed;
+  }
+  throw new Error("No matching seed");
+}
+
+test("attemptFlee escapes when the roll is under the flee chance", () => {
+  const player = createTestCombatant({ name: "Player Pet", isPlayer: true });
+  const enemy = createTestCombatant({ name: "Enemy Pet", isPlayer: false });
+  const state = initializeBattle(
+    player,
+    enemy,
+    findSeed((roll) => roll < 0.5),
+  );
+
+  const result = attemptFlee(state);
+
+  expect(result.escaped).toBe(true);
+  expect(result.state.log.at(-1)?.message).toBe(
+    "Player Pet fled from the battle!",
+  );
+});
+
+test("attemptFlee takes the player's turn when it fails", () => {
+  const player = createTestCombatant({ name: "Player Pet", isPlayer: true });
+  const enemy = createTestCombatant({ name: "Enemy Pet", isPlayer: false });
+  const state = initializeBattle(
+    player,
+    enemy,
+    findSeed((roll) => roll >= 0.5),
+  );
+
+  const result = attemptFlee(state);
+
+  expect(result.escaped).toBe(false);
+  expect(result.state.phase).toBe(BattlePhase.EnemyTurn);
+  expect(result.state.playerActed).toBe(true);
+  expect(result.state.rngState).not.toBe(state.rngState);
+});
+
+test("attemptFlee does nothing outside the player's turn", () => {
+  const player = createTestCombatant({ isPlayer: true });
+  const enemy = createTestCombatant({ isPlayer: false });
+  const state = {
+    ...initializeBattle(player, enemy, 1),
+    phase: BattlePhase.EnemyTurn,
+  };
+
+  expect(attemptFlee(state)).toEqual({ state, escaped: false });
+});
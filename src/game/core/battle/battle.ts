@@ -2,12 +2,21 @@
  * Battle state machine for managing combat flow.
  */
 
+import { getEquipmentEffectTotal } from "@/game/core/equipment";
+import { getPetBattleMoves } from "@/game/core/moves";
+import { createRng, type RngState, type SeededRng } from "@/game/core/rng";
 import { getDefaultMoves } from "@/game/data/moves";
 import { getInitialGrowthStage, getSpeciesById } from "@/game/data/species";
 import type { Move, MoveSlot } from "@/game/types/move";
 import type { Pet } from "@/game/types/pet";
+import { SkillType } from "@/game/types/skill";
 import type { BattleStats } from "@/game/types/stats";
-import { BATTLE_REWARD_CONSTANTS } from "./constants";
+import {
+  applyItemToCombatant,
+  type BattleUsableItem,
+  type ItemUseOutcome,
+} from "./battleItems";
+import { BATTLE_FLEE_CONSTANTS, BATTLE_REWARD_CONSTANTS } from "./constants";
 import { calculateDerivedStats } from "./stats";
 import {
   type Combatant,
@@ -94,6 +103,8 @@ export interface BattleState {
   playerActed: boolean;
   /** Whether enemy has acted this turn */
   enemyActed: boolean;
+  /** Random number generator state for this battle */
+  rngState: RngState;
 }
 
 /**
@@ -102,10 +113,14 @@ export interface BattleState {
 export interface BattleRewards {
   /** Currency earned */
   coins: number;
-  /** Experience points (for future use) */
+  /** Pet experience points */
   experience: number;
   /** Items dropped (item ID to quantity) */
   items: { itemId: string; quantity: number }[];
+  /** Player skill XP earned (skill ID to XP) */
+  skillXp: Record<string, number>;
+  /** Notes for drops sent to storage or lost because the bag is full */
+  overflowNotes?: string[];
 }
 
 /**
@@ -120,10 +135,15 @@ function createMoveSlots(moves: Move[]): MoveSlot[] {
 
 /**
  * Create a combatant from a pet.
+ * The combatant uses the pet's innate moves plus its equipped moves.
+ * Equipment crit rate bonuses are added to the critical chance.
  */
 export function createCombatantFromPet(pet: Pet, isPlayer: boolean): Combatant {
   const species = getSpeciesById(pet.identity.speciesId);
-  const derivedStats = calculateDerivedStats(pet.battleStats);
+  const derivedStats = calculateDerivedStats(
+    pet.battleStats,
+    getEquipmentEffectTotal(pet, "critRate"),
+  );
 
   return {
     name: pet.identity.name,
@@ -132,7 +152,7 @@ export function createCombatantFromPet(pet: Pet, isPlayer: boolean): Combatant {
     derivedStats,
     resistances: species?.resistances ?? pet.resistances,
     statusEffects: [],
-    moveSlots: createMoveSlots(getDefaultMoves()),
+    moveSlots: createMoveSlots(getPetBattleMoves(pet)),
     isPlayer,
   };
 }
@@ -183,10 +203,12 @@ export function createWildCombatant(
 
 /**
  * Initialize a new battle.
+ * @param rngState - Seed for the battle's random decisions
  */
 export function initializeBattle(
   player: Combatant,
   enemy: Combatant,
+  rngState: RngState,
 ): BattleState {
   const turnOrder = determineTurnOrder(player, enemy);
   const firstActor = turnOrder[0];
@@ -208,6 +230,7 @@ export function initializeBattle(
     turnOrderIndex: 0,
     playerActed: false,
     enemyActed: false,
+    rngState,
   };
 }
 
@@ -290,6 +313,7 @@ function executeTurnForActor(
   state: BattleState,
   move: Move,
   actorId: "player" | "enemy",
+  rng: SeededRng,
 ): BattleState {
   const isPlayer = actorId === "player";
   const actorCombatant = isPlayer ? state.player : state.enemy;
@@ -300,6 +324,7 @@ function executeTurnForActor(
     targetCombatant,
     move,
     actorId,
+    rng,
   );
 
   const newLog = addActionLogs(
@@ -336,6 +361,7 @@ function executeTurnForActor(
         endCheck.winner === "player" ? BattlePhase.Victory : BattlePhase.Defeat,
       playerActed: isPlayer ? true : state.playerActed,
       enemyActed: isPlayer ? state.enemyActed : true,
+      rngState: rng.state,
     };
   }
 
@@ -354,6 +380,7 @@ function executeTurnForActor(
     turnOrderIndex: nextIndex,
     playerActed: isPlayer ? true : state.playerActed,
     enemyActed: isPlayer ? state.enemyActed : true,
+    rngState: rng.state,
   };
 }
 
@@ -364,7 +391,173 @@ export function executePlayerTurn(state: BattleState, move: Move): BattleState {
   if (state.phase !== BattlePhase.PlayerTurn) {
     return state;
   }
-  return executeTurnForActor(state, move, "player");
+  return executeTurnForActor(state, move, "player", createRng(state.rngState));
+}
+
+/**
+ * Add log entries for an item used by the player.
+ */
+function addItemLogs(
+  log: BattleLogEntry[],
+  turn: number,
+  item: BattleUsableItem,
+  outcome: ItemUseOutcome,
+  actorName: string,
+): BattleLogEntry[] {
+  const newLogs: BattleLogEntry[] = [
+    ...log,
+    { turn, message: `${actorName} used ${item.name}!`, type: "action" },
+  ];
+
+  if (outcome.buffApplied?.stat) {
+    newLogs.push({
+      turn,
+      message: `${actorName}'s ${outcome.buffApplied.stat} rose by ${outcome.buffApplied.value}%!`,
+      type: "effect",
+    });
+  }
+
+  if (outcome.healed > 0) {
+    newLogs.push({
+      turn,
+      message: `${actorName} recovered ${outcome.healed} HP!`,
+      type: "effect",
+    });
+  }
+
+  for (const effectName of outcome.cured) {
+    newLogs.push({
+      turn,
+      message: `${actorName} is no longer ${effectName}!`,
+      type: "effect",
+    });
+  }
+
+  if (
+    !outcome.buffApplied &&
+    outcome.healed === 0 &&
+    outcome.cured.length === 0
+  ) {
+    newLogs.push({ turn, message: "It had no effect.", type: "effect" });
+  }
+
+  return newLogs;
+}
+
+/**
+ * Execute the player's turn by using an item instead of a move.
+ * Using an item takes the player's action for the turn. Items can be used
+ * while stunned, since the item is administered to the pet.
+ */
+export function executePlayerItemTurn(
+  state: BattleState,
+  item: BattleUsableItem,
+): BattleState {
+  if (state.phase !== BattlePhase.PlayerTurn) {
+    return state;
+  }
+
+  const rng = createRng(state.rngState);
+  const outcome = applyItemToCombatant(state.player, item, rng);
+  const { nextPhase, nextIndex } = determineNextPhase(
+    state.turnOrder,
+    state.turnOrderIndex,
+  );
+
+  return {
+    ...state,
+    player: outcome.combatant,
+    log: addItemLogs(state.log, state.turn, item, outcome, state.player.name),
+    phase: nextPhase,
+    turnOrderIndex: nextIndex,
+    playerActed: true,
+    rngState: rng.state,
+  };
+}
+
+/**
+ * Calculate the player's chance to flee from the enemy.
+ * Faster pets escape more easily.
+ */
+export function calculateFleeChance(
+  player: Combatant,
+  enemy: Combatant,
+): number {
+  const agilityDifference =
+    player.battleStats.agility - enemy.battleStats.agility;
+  const chance =
+    BATTLE_FLEE_CONSTANTS.BASE_FLEE_CHANCE +
+    agilityDifference * BATTLE_FLEE_CONSTANTS.AGILITY_SCALING;
+  return Math.min(
+    BATTLE_FLEE_CONSTANTS.MAX_FLEE_CHANCE,
+    Math.max(BATTLE_FLEE_CONSTANTS.MIN_FLEE_CHANCE, chance),
+  );
+}
+
+/**
+ * Result of attempting to flee.
+ */
+export interface FleeAttempt {
+  /** Updated battle state */
+  state: BattleState;
+  /** Whether the player escaped (the battle is over) */
+  escaped: boolean;
+}
+
+/**
+ * Attempt to flee on the player's turn.
+ * A failed attempt takes the player's action for the turn.
+ */
+export function attemptFlee(state: BattleState): FleeAttempt {
+  if (state.phase !== BattlePhase.PlayerTurn) {
+    return { state, escaped: false };
+  }
+
+  const rng = createRng(state.rngState);
+  const escaped = rng.next() < calculateFleeChance(state.player, state.enemy);
+
+  if (escaped) {
+    return {
+      state: {
+        ...state,
+        log: [
+          ...state.log,
+          {
+            turn: state.turn,
+            message: `${state.player.name} fled from the battle!`,
+            type: "system",
+          },
+        ],
+        playerActed: true,
+        rngState: rng.state,
+      },
+      escaped: true,
+    };
+  }
+
+  const { nextPhase, nextIndex } = determineNextPhase(
+    state.turnOrder,
+    state.turnOrderIndex,
+  );
+
+  return {
+    state: {
+      ...state,
+      log: [
+        ...state.log,
+        {
+          turn: state.turn,
+          message: `${state.player.name} tried to flee but couldn't escape!`,
+          type: "action",
+        },
+      ],
+      phase: nextPhase,
+      turnOrderIndex: nextIndex,
+      playerActed: true,
+      rngState: rng.state,
+    },
+    escaped: false,
+  };
 }
 
 /**
@@ -374,8 +567,9 @@ export function executeEnemyTurn(state: BattleState): BattleState {
   if (state.phase !== BattlePhase.EnemyTurn) {
     return state;
   }
-  const move = selectAIMove(state.enemy);
-  return executeTurnForActor(state, move, "enemy");
+  const rng = createRng(state.rngState);
+  const move = selectAIMove(state.enemy, rng);
+  return executeTurnForActor(state, move, "enemy", rng);
 }
 
 /**
@@ -466,6 +660,7 @@ export function calculateBattleRewards(
       coins: 0,
       experience: 0,
       items: [],
+      skillXp: {},
     };
   }
 
@@ -483,7 +678,11 @@ export function calculateBattleRewards(
       BATTLE_REWARD_CONSTANTS.BASE_EXPERIENCE_REWARD +
         enemyPower * BATTLE_REWARD_CONSTANTS.EXPERIENCE_POWER_SCALING,
     ),
-    items: [], // Items could be added based on encounter tables
+    // Drops need the pet and skills, so they are rolled at the game level
+    items: [],
+    skillXp: {
+      [SkillType.Scouting]: BATTLE_REWARD_CONSTANTS.SCOUTING_XP_REWARD,
+    },
   };
 }
 
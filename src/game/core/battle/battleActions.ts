@@ -6,6 +6,18 @@
  * This decouples the UI from the battle logic.
  */
 
+/**
+ * Start battle action - dispatched when the player engages a wild pet.
+ * Also resolves a wild encounter that interrupted exploration.
+ */
+export interface BattleStartAction {
+  type: "BATTLE_START";
+  payload: {
+    enemySpeciesId: string;
+    enemyLevel: number;
+  };
+}
+
 /**
  * Player attack action - dispatched when player selects a move.
  */
@@ -16,7 +28,39 @@ export interface BattlePlayerAttackAction {
   };
 }
 
+/**
+ * Use item action - dispatched when player uses a battle item or medicine.
+ * Using an item takes the player's turn.
+ */
+export interface BattleUseItemAction {
+  type: "BATTLE_USE_ITEM";
+  payload: {
+    itemId: string;
+  };
+}
+
+/**
+ * Flee action - dispatched when the player tries to escape.
+ * Success depends on agility; a failed attempt takes the player's turn.
+ */
+export interface BattleFleeAction {
+  type: "BATTLE_FLEE";
+}
+
+/**
+ * Claim rewards action - dispatched when the player leaves a finished battle.
+ * Applies victory rewards (or the defeat outcome) and ends the battle.
+ */
+export interface BattleClaimRewardsAction {
+  type: "BATTLE_CLAIM_REWARDS";
+}
+
 /**
  * Union type of all battle actions.
  */
-export type BattleAction = BattlePlayerAttackAction;
+export type BattleAction =
+  | BattleStartAction
+  | BattlePlayerAttackAction
+  | BattleUseItemAction
+  | BattleFleeAction
+  | BattleClaimRewardsAction;
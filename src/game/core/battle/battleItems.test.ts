@@ -0,0 +1,109 @@
+/**
+ * Tests for battle item and medicine usage.
+ */
+
+import { expect, test } from "bun:test";
+import { createRng } from "@/game/core/rng";
+import { BATTLE_ITEMS } from "@/game/data/items/battle";
+import { FOOD_ITEMS } from "@/game/data/items/food";
+import { MEDICINE_ITEMS } from "@/game/data/items/medicine";
+import { createTestCombatant } from "@/game/testing/createTestCombatant";
+import { type StatusEffect, StatusEffectType } from "@/game/types/move";
+import {
+  applyBattleItem,
+  applyMedicineItem,
+  isBattleUsableItem,
+} from "./battleItems";
+
+const poison: StatusEffect = {
+  id: "effect_poison",
+  type: StatusEffectType.DamageOverTime,
+  name: "Poison",
+  value: 3,
+  duration: 3,
+};
+
+const stun: StatusEffect = {
+  id: "effect_stun",
+  type: StatusEffectType.Stun,
+  name: "Stunned",
+  value: 0,
+  duration: 1,
+};
+
+const hardened: StatusEffect = {
+  id: "effect_hardened",
+  type: StatusEffectType.StatBuff,
+  name: "Hardened",
+  stat: "endurance",
+  value: 20,
+  duration: 3,
+};
+
+function createWoundedCombatant(statusEffects: StatusEffect[] = []) {
+  const combatant = createTestCombatant({ statusEffects });
+  return {
+    ...combatant,
+    derivedStats: { ...combatant.derivedStats, currentHealth: 10 },
+  };
+}
+
+test("isBattleUsableItem accepts battle items and medicine only", () => {
+  expect(isBattleUsableItem(BATTLE_ITEMS.ATTACK_BOOST)).toBe(true);
+  expect(isBattleUsableItem(MEDICINE_ITEMS.POTION)).toBe(true);
+  expect(isBattleUsableItem(FOOD_ITEMS.APPLE)).toBe(false);
+});
+
+test("applyBattleItem adds a stat buff for the item's duration", () => {
+  const outcome = applyBattleItem(
+    createTestCombatant(),
+    BATTLE_ITEMS.ATTACK_BOOST,
+    createRng(1),
+  );
+  expect(outcome.buffApplied).toMatchObject({
+    type: StatusEffectType.StatBuff,
+    name: "Attack Boost",
+    stat: "strength",
+    value: 15,
+    duration: 3,
+  });
+  expect(outcome.combatant.statusEffects).toHaveLength(1);
+});
+
+test("applyMedicineItem heals up to max health", () => {
+  const combatant = createWoundedCombatant();
+  const outcome = applyMedicineItem(combatant, MEDICINE_ITEMS.POTION);
+  const { maxHealth } = combatant.derivedStats;
+  expect(outcome.combatant.derivedStats.currentHealth).toBe(
+    Math.min(maxHealth, 10 + 50),
+  );
+  expect(outcome.healed).toBe(Math.min(maxHealth, 60) - 10);
+});
+
+test("applyMedicineItem cures matching status effects only", () => {
+  const combatant = createWoundedCombatant([poison, stun, hardened]);
+  const outcome = applyMedicineItem(combatant, MEDICINE_ITEMS.ANTIDOTE);
+  expect(outcome.cured).toEqual(["Poison"]);
+  expect(outcome.healed).toBe(0);
+  expect(outcome.combatant.statusEffects.map((e) => e.name)).toEqual([
+    "Stunned",
+    "Hardened",
+  ]);
+});
+
+test("applyMedicineItem matches cure status by effect type", () => {
+  const combatant = createWoundedCombatant([stun]);
+  const outcome = applyMedicineItem(combatant, MEDICINE_ITEMS.SMELLING_SALTS);
+  expect(outcome.cured).toEqual(["Stunned"]);
+  expect(outcome.combatant.statusEffects).toHaveLength(0);
+});
+
+test("applyMedicineItem full restore heals fully and keeps buffs", () => {
+  const combatant = createWoundedCombatant([poison, stun, hardened]);
+  const outcome = applyMedicineItem(combatant, MEDICINE_ITEMS.FULL_RESTORE);
+  expect(outcome.combatant.derivedStats.currentHealth).toBe(
+    combatant.derivedStats.maxHealth,
+  );
+  expect(outcome.cured).toEqual(["Poison", "Stunned"]);
+  expect(outcome.combatant.statusEffects).toEqual([hardened]);
+});
@@ -0,0 +1,136 @@
+/**
+ * Battle item and medicine usage during combat.
+ *
+ * Using an item takes the combatant's action for the turn. Battle items
+ * apply a temporary stat buff; medicine heals and/or cures status effects.
+ */
+
+import type { Rng } from "@/game/core/rng";
+import {
+  type BattleItem,
+  type Item,
+  isBattleItem,
+  isMedicineItem,
+  type MedicineItem,
+} from "@/game/types/item";
+import {
+  createStatusEffectId,
+  type StatusEffect,
+  StatusEffectType,
+} from "@/game/types/move";
+import type { Combatant } from "./turn";
+
+/**
+ * Items that can be used during battle.
+ */
+export type BattleUsableItem = BattleItem | MedicineItem;
+
+/**
+ * Outcome of using an item on a combatant.
+ */
+export interface ItemUseOutcome {
+  /** Combatant after the item was applied */
+  combatant: Combatant;
+  /** Stat buff applied (battle items) */
+  buffApplied?: StatusEffect;
+  /** Health restored (medicine) */
+  healed: number;
+  /** Names of status effects removed (medicine) */
+  cured: string[];
+}
+
+/**
+ * Check if an item can be used during battle.
+ */
+export function isBattleUsableItem(item: Item): item is BattleUsableItem {
+  return isBattleItem(item) || isMedicineItem(item);
+}
+
+/**
+ * Check if a status effect is harmful (can be cured by medicine).
+ */
+function isHarmfulEffect(effect: StatusEffect): boolean {
+  return effect.type !== StatusEffectType.StatBuff;
+}
+
+/**
+ * Check if a status effect matches a medicine's cure status ID.
+ * Matches by effect type (e.g. "stun") or by effect name (e.g. "Poison").
+ */
+function matchesCureStatus(effect: StatusEffect, statusId: string): boolean {
+  return effect.type === statusId || effect.name.toLowerCase() === statusId;
+}
+
+/**
+ * Apply a battle item's stat buff to a combatant.
+ */
+export function applyBattleItem(
+  combatant: Combatant,
+  item: BattleItem,
+  rng: Rng,
+): ItemUseOutcome {
+  const buff: StatusEffect = {
+    id: createStatusEffectId(rng),
+    type: StatusEffectType.StatBuff,
+    name: item.name,
+    stat: item.statModifier,
+    value: item.modifierValue,
+    duration: item.duration,
+  };
+
+  return {
+    combatant: {
+      ...combatant,
+      statusEffects: [...combatant.statusEffects, buff],
+    },
+    buffApplied: buff,
+    healed: 0,
+    cured: [],
+  };
+}
+
+/**
+ * Apply a medicine item to a combatant.
+ * Full restore heals to max health and removes all harmful effects.
+ */
+export function applyMedicineItem(
+  combatant: Combatant,
+  item: MedicineItem,
+): ItemUseOutcome {
+  const { currentHealth, maxHealth } = combatant.derivedStats;
+  const healAmount = item.isFullRestore ? maxHealth : (item.healAmount ?? 0);
+  const newHealth = Math.min(maxHealth, currentHealth + healAmount);
+
+  const cureStatus = item.cureStatus ?? [];
+  const shouldCure = (effect: StatusEffect): boolean =>
+    isHarmfulEffect(effect) &&
+    (item.isFullRestore === true ||
+      cureStatus.some((statusId) => matchesCureStatus(effect, statusId)));
+
+  const cured = combatant.statusEffects.filter(shouldCure);
+
+  return {
+    combatant: {
+      ...combatant,
+      derivedStats: { ...combatant.derivedStats, currentHealth: newHealth },
+      statusEffects: combatant.statusEffects.filter(
+        (effect) => !shouldCure(effect),
+      ),
+    },
+    healed: newHealth - currentHealth,
+    cured: cured.map((effect) => effect.name),
+  };
+}
+
+/**
+ * Apply a battle-usable item to a combatant.
+ */
+export function applyItemToCombatant(
+  combatant: Combatant,
+  item: BattleUsableItem,
+  rng: Rng,
+): ItemUseOutcome {
+  return isBattleItem(item)
+    ? applyBattleItem(combatant, item, rng)
+    : applyMedicineItem(combatant, item);
+}
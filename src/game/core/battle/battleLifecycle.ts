@@ -0,0 +1,299 @@
+/**
+ * Battle lifecycle: starting battles, ending them and applying rewards.
+ *
+ * These functions operate on the whole game state and are pure, so the
+ * battle reducer can use them and tests can exercise them directly.
+ */
+
+import {
+  checkActivityRequirements,
+  checkCanBattle,
+} from "@/game/core/activityGating";
+import { degradeEquipment } from "@/game/core/equipment";
+import { applyExhaustion } from "@/game/core/exhaustion";
+import {
+  applySkillXpGains,
+  resolveEncounterBattle,
+  rollDropTables,
+} from "@/game/core/exploration/exploration";
+import { grantMove, rollBattleMoveLearn } from "@/game/core/moves";
+import { grantPetExperience } from "@/game/core/petLevel";
+import { updateQuestProgress } from "@/game/core/quests/quests";
+import { createRng, deriveSeed } from "@/game/core/rng";
+import { describeItemOverflow, receiveItem } from "@/game/core/storage";
+import { unlockDiscoveredSpecies } from "@/game/core/unlocks";
+import { getSpeciesById } from "@/game/data/species";
+import { getBattleDropTable } from "@/game/data/tables/battleDrops";
+import { now } from "@/game/types/common";
+import { ActivityState } from "@/game/types/constants";
+import type { GameEvent } from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import { MoveLearnSource } from "@/game/types/move";
+import { ObjectiveType, QuestState } from "@/game/types/quest";
+import {
+  BattlePhase,
+  type BattleRewards,
+  calculateBattleRewards,
+  createCombatantFromPet,
+  createWildCombatant,
+  initializeBattle,
+  isBattleComplete,
+} from "./battle";
+
+/**
+ * Filter out battle events so animations from a previous battle don't replay.
+ */
+export function clearBattleEvents(events: GameEvent[]): GameEvent[] {
+  return events.filter(
+    (e) => e.type !== "battleAction" && e.type !== "battleEnd",
+  );
+}
+
+/**
+ * Check if the pet is free to start a battle.
+ * Idle pets can seek battles; exploring pets can only fight the wild
+ * encounter that interrupted their exploration. Exhausted pets cannot battle.
+ */
+function canStartBattle(state: GameState): boolean {
+  if (!state.pet || state.activeBattle) return false;
+  if (
+    state.pet.activityState === ActivityState.Exploring &&
+    state.pendingEncounter !== undefined
+  ) {
+    return checkCanBattle(state.pet).allowed;
+  }
+  return checkActivityRequirements(
+    state.pet,
+    "battle",
+    undefined,
+    ActivityState.Battling,
+  ).allowed;
+}
+
+/**
+ * Start a battle against a wild pet.
+ * The battle draws from its own rng, seeded from the game's.
+ * Returns the state unchanged if a battle cannot start.
+ */
+export function startBattle(
+  state: GameState,
+  enemySpeciesId: string,
+  enemyLevel: number,
+): GameState {
+  if (!state.pet || !canStartBattle(state)) return state;
+  if (!getSpeciesById(enemySpeciesId)) return state;
+
+  const rng = createRng(state.rngState);
+  const battleState = initializeBattle(
+    createCombatantFromPet(state.pet, true),
+    createWildCombatant(enemySpeciesId, enemyLevel),
+    deriveSeed(rng),
+  );
+
+  return {
+    ...state,
+    rngState: rng.state,
+    pet: { ...state.pet, activityState: ActivityState.Battling },
+    activeBattle: { enemySpeciesId, enemyLevel, battleState },
+    // The battle resolves any wild encounter that interrupted exploration
+    pendingEncounter: undefined,
+    // Clear stale battle events to prevent animation replay
+    pendingEvents: clearBattleEvents(state.pendingEvents),
+  };
+}
+
+/**
+ * End the active battle without rewards.
+ * The pet resumes an interrupted exploration after a victory; otherwise
+ * the exploration is abandoned and the pet returns to idle.
+ */
+export function endBattle(state: GameState, victory: boolean): GameState {
+  if (!state.activeBattle) return state;
+
+  return {
+    ...state,
+    pet: state.pet ? resolveEncounterBattle(state.pet, victory) : state.pet,
+    activeBattle: undefined,
+    // Clear battle events to prevent animation replay in the next battle
+    pendingEvents: clearBattleEvents(state.pendingEvents),
+  };
+}
+
+/**
+ * Get the rewards for the finished active battle.
+ * Victory drops are rolled from the defeated species' drop table using the
+ * battle's final rng state, so the victory screen shows exactly what
+ * claiming will award.
+ * Returns null if there is no finished battle.
+ */
+export function getBattleRewards(state: GameState): BattleRewards | null {
+  const activeBattle = state.activeBattle;
+  if (!activeBattle || !isBattleComplete(activeBattle.battleState)) {
+    return null;
+  }
+
+  const victory = activeBattle.battleState.phase === BattlePhase.Victory;
+  const rewards = calculateBattleRewards(activeBattle.battleState, victory);
+  const dropTable = getBattleDropTable(activeBattle.enemySpeciesId);
+  if (!victory || !state.pet || !dropTable) return rewards;
+
+  const completedQuestIds = state.quests
+    .filter((q) => q.state === QuestState.Completed)
+    .map((q) => q.questId);
+
+  const items = rollDropTables(
+    [dropTable],
+    state.pet,
+    state.player.skills,
+    completedQuestIds,
+    createRng(activeBattle.battleState.rngState),
+  );
+  return {
+    ...rewards,
+    items,
+    overflowNotes: receiveBattleDrops(state, items).overflowNotes,
+  };
+}
+
+/**
+ * Give battle drops to the player. Drops that do not fit in the bag go to
+ * storage, and only drops the player keeps are returned as kept.
+ */
+function receiveBattleDrops(
+  state: GameState,
+  items: BattleRewards["items"],
+): {
+  state: GameState;
+  keptItems: BattleRewards["items"];
+  overflowNotes: string[];
+} {
+  let updatedState = state;
+  const keptItems: BattleRewards["items"] = [];
+  const overflowNotes: string[] = [];
+  for (const drop of items) {
+    const received = receiveItem(updatedState, drop.itemId, drop.quantity);
+    updatedState = received.state;
+    const kept = received.carried + received.stored;
+    if (kept > 0) {
+      keptItems.push({ itemId: drop.itemId, quantity: kept });
+    }
+    const note = describeItemOverflow(drop.itemId, received);
+    if (note) {
+      overflowNotes.push(note);
+    }
+  }
+  return { state: updatedState, keptItems, overflowNotes };
+}
+
+/**
+ * Apply victory rewards to the game state: coins, pet experience, item
+ * drops, skill XP, Defeat and Collect quest progress, and a rare chance to
+ * learn a new move. Defeating a discovery species unlocks it for adoption.
+ *
+ * @param timestamp Timestamp for level up and move learned events
+ */
+export function applyBattleRewards(
+  state: GameState,
+  rewards: BattleRewards,
+  defeatedSpeciesId: string,
+  timestamp: number = now(),
+): GameState {
+  const { skills } = applySkillXpGains(state.player.skills, rewards.skillXp);
+  const stateWithRewards: GameState = {
+    ...state,
+    player: {
+      ...state.player,
+      currency: {
+        ...state.player.currency,
+        coins: state.player.currency.coins + rewards.coins,
+      },
+      skills,
+    },
+  };
+
+  // Drops that do not fit in the bag are sent to storage
+  const { state: stateWithItems, keptItems } = receiveBattleDrops(
+    stateWithRewards,
+    rewards.items,
+  );
+
+  const stateWithExperience = grantPetExperience(
+    stateWithItems,
+    rewards.experience,
+    timestamp,
+  );
+
+  // Objectives with target "any" match any species ID
+  const stateWithDefeat = updateQuestProgress(
+    unlockDiscoveredSpecies(stateWithExperience, defeatedSpeciesId),
+    ObjectiveType.Defeat,
+    defeatedSpeciesId,
+  );
+
+  // Only drops the player kept count towards Collect objectives
+  const stateWithQuests = keptItems.reduce(
+    (s, drop) =>
+      updateQuestProgress(s, ObjectiveType.Collect, drop.itemId, drop.quantity),
+    stateWithDefeat,
+  );
+
+  // Very rarely, the pet learns a new move from the battle
+  const rng = createRng(stateWithQuests.rngState);
+  const learnedMoveId = stateWithQuests.pet
+    ? rollBattleMoveLearn(stateWithQuests.pet, rng)
+    : null;
+  const stateWithRng = { ...stateWithQuests, rngState: rng.state };
+  if (!learnedMoveId) {
+    return stateWithRng;
+  }
+  return grantMove(
+    stateWithRng,
+    learnedMoveId,
+    MoveLearnSource.Battle,
+    timestamp,
+  ).state;
+}
+
+/**
+ * Leave a finished battle, wearing down battle equipment. Victory applies
+ * rewards; defeat leaves the pet exhausted.
+ * Returns the state unchanged if there is no finished battle.
+ *
+ * @param timestamp Timestamp for events raised by the rewards
+ */
+export function claimBattleRewards(
+  state: GameState,
+  timestamp: number = now(),
+): GameState {
+  const activeBattle = state.activeBattle;
+  // Rewards are rolled before equipment wears down so they match the preview
+  const rewards = getBattleRewards(state);
+  if (!activeBattle || !rewards) {
+    return state;
+  }
+
+  const victory = activeBattle.battleState.phase === BattlePhase.Victory;
+  const endedState = endBattle(state, victory);
+  const stateWithWornEquipment: GameState = {
+    ...endedState,
+    pet: endedState.pet
+      ? degradeEquipment(endedState.pet, "battle").pet
+      : endedState.pet,
+  };
+
+  if (!victory) {
+    return {
+      ...stateWithWornEquipment,
+      pet: stateWithWornEquipment.pet
+        ? applyExhaustion(stateWithWornEquipment.pet)
+        : stateWithWornEquipment.pet,
+    };
+  }
+
+  return applyBattleRewards(
+    stateWithWornEquipment,
+    rewards,
+    activeBattle.enemySpeciesId,
+    timestamp,
+  );
+}
@@ -26,7 +26,7 @@ function createTestBattleState(
     moveSlots: [{ move: basicAttack, currentCooldown: 0 }],
   });
   return {
-    ...initializeBattle(player, enemy),
+    ...initializeBattle(player, enemy, 1),
     ...overrides,
   };
 }
@@ -186,7 +186,7 @@ test("processBattleTick emits battleEnd event when enemy is defeated by DoT", ()
   });
 
   const battleState: BattleState = {
-    ...initializeBattle(player, enemy),
+    ...initializeBattle(player, enemy, 1),
     phase: BattlePhase.TurnResolution, // Test end-of-turn processing
     playerActed: true,
     enemyActed: true,
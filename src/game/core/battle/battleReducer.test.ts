@@ -3,11 +3,26 @@
  */
 
 import { expect, test } from "bun:test";
+import { createRng } from "@/game/core/rng";
 import { basicAttack } from "@/game/data/moves";
 import { SPECIES } from "@/game/data/species";
 import { createTestCombatant } from "@/game/testing/createTestCombatant";
-import { createInitialGameState, type GameState } from "@/game/types/gameState";
-import { BattlePhase, type BattleState, initializeBattle } from "./battle";
+import {
+  createTestGameState as createTestGameStateWithPet,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { ActivityState } from "@/game/types/constants";
+import {
+  createInitialGameState,
+  type GameState,
+  type InventoryItem,
+} from "@/game/types/gameState";
+import {
+  BattlePhase,
+  type BattleState,
+  calculateBattleRewards,
+  initializeBattle,
+} from "./battle";
 import { battleReducer } from "./battleReducer";
 import type { Combatant } from "./turn";
 
@@ -22,7 +37,7 @@ function createTestBattleState(): BattleState {
     isPlayer: false,
     moveSlots: [{ move: basicAttack, currentCooldown: 0 }],
   });
-  return initializeBattle(player, enemy);
+  return initializeBattle(player, enemy, 1);
 }
 
 function createTestGameState(battleState: BattleState): GameState {
@@ -168,6 +183,14 @@ test("battleReducer emits battleEnd event when battle completes", () => {
   const endEvent = newState.pendingEvents.find((e) => e.type === "battleEnd");
   expect(endEvent).toBeDefined();
   expect(endEvent?.type).toBe("battleEnd");
+
+  // The win is recorded in the combat record
+  expect(newState.combatRecord.wins).toBe(1);
+  expect(newState.combatRecord.bySpecies[SPECIES.FLORABIT.id]).toEqual({
+    wins: 1,
+    losses: 0,
+  });
+  expect(newState.combatRecord.totalDamageDealt).toBe(100);
 });
 
 test("battleReducer uses provided currentTime for events", () => {
@@ -208,3 +231,163 @@ test("battleReducer marks playerActed true after attack", () => {
 
   expect(newState.activeBattle?.battleState.playerActed).toBe(true);
 });
+
+function withInventory(state: GameState, items: InventoryItem[]): GameState {
+  return {
+    ...state,
+    player: { ...state.player, inventory: { items } },
+  };
+}
+
+test("battleReducer uses an item, consumes it and ends the player's turn", () => {
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    phase: BattlePhase.PlayerTurn,
+  };
+  const state = withInventory(createTestGameState(battleState), [
+    { itemId: "battle_attack_boost", quantity: 2, currentDurability: null },
+  ]);
+  const action = {
+    type: "BATTLE_USE_ITEM" as const,
+    payload: { itemId: "battle_attack_boost" },
+  };
+
+  const newState = battleReducer(state, action, 1000);
+
+  const newBattleState = newState.activeBattle?.battleState;
+  expect(newState.player.inventory.items).toEqual([
+    { itemId: "battle_attack_boost", quantity: 1, currentDurability: null },
+  ]);
+  expect(newBattleState?.playerActed).toBe(true);
+  expect(newBattleState?.phase).not.toBe(BattlePhase.PlayerTurn);
+  expect(newBattleState?.player.statusEffects[0]?.name).toBe("Attack Boost");
+  expect(
+    newBattleState?.log.some((entry) =>
+      entry.message.includes("used Attack Boost"),
+    ),
+  ).toBe(true);
+  const battleEvent = newState.pendingEvents.find(
+    (e) => e.type === "battleAction",
+  );
+  expect(battleEvent).toMatchObject({
+    action: "playerUseItem",
+    itemName: "Attack Boost",
+  });
+});
+
+test("battleReducer ignores items not in inventory", () => {
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    phase: BattlePhase.PlayerTurn,
+  };
+  const state = withInventory(createTestGameState(battleState), []);
+  const action = {
+    type: "BATTLE_USE_ITEM" as const,
+    payload: { itemId: "medicine_potion" },
+  };
+
+  expect(battleReducer(state, action, 1000)).toBe(state);
+});
+
+test("battleReducer ignores items that cannot be used in battle", () => {
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    phase: BattlePhase.PlayerTurn,
+  };
+  const state = withInventory(createTestGameState(battleState), [
+    { itemId: "food_apple", quantity: 1, currentDurability: null },
+  ]);
+  const action = {
+    type: "BATTLE_USE_ITEM" as const,
+    payload: { itemId: "food_apple" },
+  };
+
+  expect(battleReducer(state, action, 1000)).toBe(state);
+});
+
+/**
+ * Find a battle rng seed whose first roll satisfies the predicate.
+ */
+function findSeed(predicate: (roll: number) => boolean): number {
+  for (let seed = 1; seed < 1000; seed++) {
+    if (predicate(createRng(seed).next())) return seed;
+  }
+  throw new Error("No matching seed");
+}
+
+test("battleReducer starts a battle", () => {
+  const state = createTestGameStateWithPet(createTestPet());
+  const action = {
+    type: "BATTLE_START" as const,
+    payload: { enemySpeciesId: SPECIES.FLORABIT.id, enemyLevel: 2 },
+  };
+
+  const newState = battleReducer(state, action, 1000);
+
+  expect(newState.activeBattle?.enemySpeciesId).toBe(SPECIES.FLORABIT.id);
+  expect(newState.pet?.activityState).toBe(ActivityState.Battling);
+});
+
+test("battleReducer ends the battle when fleeing succeeds", () => {
+  // Equal agility gives a 50% flee chance
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    rngState: findSeed((roll) => roll < 0.5),
+  };
+  const state = {
+    ...createTestGameState(battleState),
+    pet: createTestPet({ activityState: ActivityState.Battling }),
+  };
+
+  const newState = battleReducer(state, { type: "BATTLE_FLEE" }, 1000);
+
+  expect(newState.activeBattle).toBeUndefined();
+  expect(newState.pet?.activityState).toBe(ActivityState.Idle);
+  expect(newState.combatRecord.fled).toBe(1);
+});
+
+test("battleReducer takes the player's turn when fleeing fails", () => {
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    rngState: findSeed((roll) => roll >= 0.5),
+  };
+  const state = createTestGameState(battleState);
+
+  const newState = battleReducer(state, { type: "BATTLE_FLEE" }, 1000);
+
+  expect(newState.activeBattle?.battleState.phase).not.toBe(
+    BattlePhase.PlayerTurn,
+  );
+  expect(newState.activeBattle?.battleState.playerActed).toBe(true);
+  const event = newState.pendingEvents[0];
+  expect(event?.type === "battleAction" && event.action).toBe("playerFlee");
+});
+
+test("battleReducer ignores flee outside the player's turn", () => {
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    phase: BattlePhase.EnemyTurn,
+  };
+  const state = createTestGameState(battleState);
+
+  expect(battleReducer(state, { type: "BATTLE_FLEE" }, 1000)).toBe(state);
+});
+
+test("battleReducer claims rewards for a finished battle", () => {
+  const battleState: BattleState = {
+    ...createTestBattleState(),
+    phase: BattlePhase.Victory,
+  };
+  const state = {
+    ...createTestGameState(battleState),
+    pet: createTestPet({ activityState: ActivityState.Battling }),
+  };
+  const rewards = calculateBattleRewards(battleState, true);
+
+  const newState = battleReducer(state, { type: "BATTLE_CLAIM_REWARDS" }, 1000);
+
+  expect(newState.activeBattle).toBeUndefined();
+  expect(newState.player.currency.coins).toBe(
+    state.player.currency.coins + rewards.coins,
+  );
+});
@@ -9,16 +9,23 @@
  * intent via actions, and this reducer handles the logic.
  */
 
+import { recordBattleFled } from "@/game/core/combatRecord";
 import { emitEvent } from "@/game/core/events";
+import { hasItem, removeItem } from "@/game/core/inventory";
+import { getItemById } from "@/game/data/items";
 import { type BattleActionEvent, createEvent } from "@/game/types/event";
 import type { GameState } from "@/game/types/gameState";
 import {
+  attemptFlee,
   BattlePhase,
   type BattleState,
+  executePlayerItemTurn,
   executePlayerTurn,
   isBattleComplete,
 } from "./battle";
 import type { BattleAction } from "./battleActions";
+import { isBattleUsableItem } from "./battleItems";
+import { claimBattleRewards, endBattle, startBattle } from "./battleLifecycle";
 import { emitBattleEndEvent, updateBattleState } from "./battleUtils";
 
 /**
@@ -88,6 +95,101 @@ function processPlayerAttackAction(
   return newState;
 }
 
+/**
+ * Process a player use item action.
+ * Consumes one of the item from inventory and applies it to the player's pet.
+ */
+function processUseItemAction(
+  state: GameState,
+  itemId: string,
+  currentTime: number,
+): GameState {
+  if (!state.activeBattle) return state;
+
+  const { battleState } = state.activeBattle;
+
+  // Validate it's the player's turn
+  if (battleState.phase !== BattlePhase.PlayerTurn) {
+    return state;
+  }
+
+  // Validate the item can be used in battle and is in inventory
+  const item = getItemById(itemId);
+  if (
+    !item ||
+    !isBattleUsableItem(item) ||
+    !hasItem(state.player.inventory, itemId)
+  ) {
+    return state;
+  }
+
+  const newBattleState = executePlayerItemTurn(battleState, item);
+
+  let newState = updateBattleState(
+    {
+      ...state,
+      player: {
+        ...state.player,
+        inventory: removeItem(state.player.inventory, itemId),
+      },
+    },
+    newBattleState,
+  );
+
+  newState = emitEvent(
+    newState,
+    createEvent<BattleActionEvent>(
+      {
+        type: "battleAction",
+        action: "playerUseItem",
+        actorName: battleState.player.name,
+        itemName: item.name,
+      },
+      currentTime,
+    ),
+  );
+
+  return newState;
+}
+
+/**
+ * Process a player flee action.
+ * Escaping ends the battle (abandoning any interrupted exploration);
+ * a failed attempt takes the player's turn.
+ */
+function processFleeAction(state: GameState, currentTime: number): GameState {
+  if (!state.activeBattle) return state;
+
+  const { battleState } = state.activeBattle;
+
+  // Validate it's the player's turn
+  if (battleState.phase !== BattlePhase.PlayerTurn) {
+    return state;
+  }
+
+  const { state: newBattleState, escaped } = attemptFlee(battleState);
+  if (escaped) {
+    const endedState = endBattle(state, false);
+    return {
+      ...endedState,
+      combatRecord: recordBattleFled(endedState.combatRecord),
+    };
+  }
+
+  return emitEvent(
+    updateBattleState(state, newBattleState),
+    createEvent<BattleActionEvent>(
+      {
+        type: "battleAction",
+        action: "playerFlee",
+        actorName: battleState.player.name,
+        message: `${battleState.player.name} couldn't escape!`,
+      },
+      currentTime,
+    ),
+  );
+}
+
 /**
  * Battle reducer - processes battle actions and returns new game state.
  * This runs purely in the engine domain, decoupled from the UI.
@@ -98,12 +200,24 @@ export function battleReducer(
   currentTime: number = Date.now(),
 ): GameState {
   switch (action.type) {
+    case "BATTLE_START":
+      return startBattle(
+        state,
+        action.payload.enemySpeciesId,
+        action.payload.enemyLevel,
+      );
     case "BATTLE_PLAYER_ATTACK":
       return processPlayerAttackAction(
         state,
         action.payload.moveName,
         currentTime,
       );
+    case "BATTLE_USE_ITEM":
+      return processUseItemAction(state, action.payload.itemId, currentTime);
+    case "BATTLE_FLEE":
+      return processFleeAction(state, currentTime);
+    case "BATTLE_CLAIM_REWARDS":
+      return claimBattleRewards(state, currentTime);
     default:
       return state;
   }
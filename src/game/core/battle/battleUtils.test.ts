@@ -24,7 +24,7 @@ function createTestBattleState(
     moveSlots: [{ move: basicAttack, currentCooldown: 0 }],
   });
   return {
-    ...initializeBattle(player, enemy),
+    ...initializeBattle(player, enemy, 1),
     ...overrides,
   };
 }
@@ -5,6 +5,7 @@
  * to maintain DRY principles and ensure consistency.
  */
 
+import { recordBattleEnd } from "@/game/core/combatRecord";
 import { emitEvent } from "@/game/core/events";
 import { type BattleEndEvent, createEvent } from "@/game/types/event";
 import type { GameState } from "@/game/types/gameState";
@@ -28,7 +29,7 @@ export function updateBattleState(
 }
 
 /**
- * Emit a battle end event.
+ * Emit a battle end event and record the result in the combat record.
  */
 export function emitBattleEndEvent(
   state: GameState,
@@ -37,7 +38,7 @@ export function emitBattleEndEvent(
 ): GameState {
   const isVictory = battleState.phase === BattlePhase.Victory;
   return emitEvent(
-    state,
+    recordBattleEnd(state, battleState),
     createEvent<BattleEndEvent>(
       {
         type: "battleEnd",
@@ -10,4 +10,23 @@ export const BATTLE_REWARD_CONSTANTS = {
   BASE_EXPERIENCE_REWARD: 10,
   /** Experience reward scaling per point of enemy power */
   EXPERIENCE_POWER_SCALING: 0.3,
+  /** Scouting skill XP for winning a battle */
+  SCOUTING_XP_REWARD: 5,
+  /** Chance to learn a new move after winning a battle (very rare) */
+  MOVE_LEARN_CHANCE: 0.02,
+} as const;
+
+/**
+ * Flee chance constants.
+ * The chance to escape scales with the player's agility advantage.
+ */
+export const BATTLE_FLEE_CONSTANTS = {
+  /** Chance to flee when both combatants have equal agility */
+  BASE_FLEE_CHANCE: 0.5,
+  /** Flee chance change per point of agility difference */
+  AGILITY_SCALING: 0.02,
+  /** Minimum chance to flee */
+  MIN_FLEE_CHANCE: 0.1,
+  /** Maximum chance to flee */
+  MAX_FLEE_CHANCE: 0.95,
 } as const;
@@ -3,6 +3,7 @@
  */
 
 import { expect, test } from "bun:test";
+import { createRng, createSequenceRng } from "@/game/core/rng";
 import { DamageType } from "@/game/types/constants";
 import type { Move } from "@/game/types/move";
 import {
@@ -13,6 +14,8 @@ import {
   calculateHitChance,
   calculateResistanceMultiplier,
   DAMAGE_CONSTANTS,
+  rollCritical,
+  rollHit,
 } from "./damage";
 
 const createTestMove = (overrides: Partial<Move> = {}): Move => ({
@@ -143,9 +146,10 @@ test("calculateEnduranceMitigation returns 1 for 0 endurance", () => {
 test("applyVariance returns value within variance range", () => {
   const baseDamage = 100;
   const results: number[] = [];
+  const rng = createRng(1);
 
   for (let i = 0; i < 100; i++) {
-    results.push(applyVariance(baseDamage));
+    results.push(applyVariance(baseDamage, rng));
   }
 
   const minExpected = Math.round(baseDamage * DAMAGE_CONSTANTS.MIN_VARIANCE);
@@ -159,13 +163,31 @@ test("applyVariance returns value within variance range", () => {
 
 test("applyVariance returns rounded integer", () => {
   const baseDamage = 100;
+  const rng = createRng(1);
 
   for (let i = 0; i < 10; i++) {
-    const result = applyVariance(baseDamage);
+    const result = applyVariance(baseDamage, rng);
     expect(Number.isInteger(result)).toBe(true);
   }
 });
 
+test("applyVariance scales across the variance range with the roll", () => {
+  expect(applyVariance(100, createSequenceRng([0]))).toBe(85);
+  expect(applyVariance(100, createSequenceRng([0.5]))).toBe(100);
+  expect(applyVariance(100, createSequenceRng([0.999]))).toBe(115);
+});
+
+// Tests for rollHit and rollCritical
+test("rollHit succeeds when the roll is within the hit chance", () => {
+  expect(rollHit(80, createSequenceRng([0.79]))).toBe(true);
+  expect(rollHit(80, createSequenceRng([0.81]))).toBe(false);
+});
+
+test("rollCritical succeeds when the roll is within the critical chance", () => {
+  expect(rollCritical(10, createSequenceRng([0.05]))).toBe(true);
+  expect(rollCritical(10, createSequenceRng([0.5]))).toBe(false);
+});
+
 // Tests for calculateDamage (full pipeline)
 test("calculateDamage returns 0 damage for self-targeting moves", () => {
   const attacker = {
@@ -201,7 +223,7 @@ test("calculateDamage returns 0 damage for self-targeting moves", () => {
   };
   const move = createTestMove({ target: "self", power: 2.0 });
 
-  const result = calculateDamage(attacker, defender, move);
+  const result = calculateDamage(attacker, defender, move, createRng(1));
 
   expect(result.damage).toBe(0);
   expect(result.isHit).toBe(true);
@@ -243,7 +265,7 @@ test("calculateDamage returns 0 damage for zero power and zero flat damage moves
   };
   const move = createTestMove({ power: 0, flatDamage: 0 });
 
-  const result = calculateDamage(attacker, defender, move);
+  const result = calculateDamage(attacker, defender, move, createRng(1));
 
   expect(result.damage).toBe(0);
 });
@@ -282,7 +304,7 @@ test("calculateDamage deals damage for zero power moves with flat damage", () =>
   };
   const move = createTestMove({ power: 0, flatDamage: 15 });
 
-  const result = calculateDamage(attacker, defender, move);
+  const result = calculateDamage(attacker, defender, move, createRng(1));
 
   // Damage should be based on flatDamage, variance, and mitigations
   expect(result.damage).toBeGreaterThan(0);
@@ -323,7 +345,7 @@ test("calculateDamage deals at least 1 damage on hit", () => {
   };
   const move = createTestMove({ power: 0.1, flatDamage: 0 });
 
-  const result = calculateDamage(attacker, defender, move);
+  const result = calculateDamage(attacker, defender, move, createRng(1));
 
   if (result.isHit) {
     expect(result.damage).toBeGreaterThanOrEqual(1);
@@ -379,10 +401,61 @@ test("calculateDamage applies resistance reduction", () => {
   let noResistTotal = 0;
   let resistTotal = 0;
   for (let i = 0; i < 50; i++) {
-    noResistTotal += calculateDamage(attacker, noResistDefender, move).damage;
-    resistTotal += calculateDamage(attacker, resistDefender, move).damage;
+    noResistTotal += calculateDamage(
+      attacker,
+      noResistDefender,
+      move,
+      createRng(i),
+    ).damage;
+    resistTotal += calculateDamage(
+      attacker,
+      resistDefender,
+      move,
+      createRng(i),
+    ).damage;
   }
 
   // Resistant defender should take less damage on average
   expect(resistTotal / 50).toBeLessThan(noResistTotal / 50);
 });
+
+test("calculateDamage gives identical results for the same rng seed", () => {
+  const attacker = {
+    battleStats: {
+      strength: 20,
+      endurance: 10,
+      agility: 10,
+      precision: 30,
+      fortitude: 10,
+      cunning: 10,
+    },
+    criticalChance: 25,
+    criticalDamage: 1.5,
+  };
+  const defender = {
+    battleStats: {
+      strength: 10,
+      endurance: 20,
+      agility: 10,
+      precision: 10,
+      fortitude: 10,
+      cunning: 10,
+    },
+    resistances: {
+      slashing: 0,
+      piercing: 0,
+      crushing: 0,
+      chemical: 0,
+      thermal: 0,
+      electric: 0,
+    },
+    dodgeChance: 10,
+  };
+  const move = createTestMove({ power: 2.0 });
+
+  for (let seed = 0; seed < 20; seed++) {
+    expect(calculateDamage(attacker, defender, move, createRng(seed))).toEqual(
+      calculateDamage(attacker, defender, move, createRng(seed)),
+    );
+  }
+});
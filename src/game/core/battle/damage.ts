@@ -2,6 +2,7 @@
  * Damage calculation for the battle system.
  */
 
+import type { Rng } from "@/game/core/rng";
 import type { DamageType } from "@/game/types/constants";
 import type { Move } from "@/game/types/move";
 import type { BattleStats, DamageResistances } from "@/game/types/stats";
@@ -86,15 +87,15 @@ export function calculateHitChance(
 /**
  * Roll for whether an attack hits.
  */
-export function rollHit(hitChance: number): boolean {
-  return Math.random() * DAMAGE_CONSTANTS.PERCENTAGE_SCALE <= hitChance;
+export function rollHit(hitChance: number, rng: Rng): boolean {
+  return rng.next() * DAMAGE_CONSTANTS.PERCENTAGE_SCALE <= hitChance;
 }
 
 /**
  * Roll for whether an attack is a critical hit.
  */
-export function rollCritical(criticalChance: number): boolean {
-  return Math.random() * DAMAGE_CONSTANTS.PERCENTAGE_SCALE <= criticalChance;
+export function rollCritical(criticalChance: number, rng: Rng): boolean {
+  return rng.next() * DAMAGE_CONSTANTS.PERCENTAGE_SCALE <= criticalChance;
 }
 
 /**
@@ -124,10 +125,10 @@ export function calculateEnduranceMitigation(targetEndurance: number): number {
 /**
  * Apply damage variance.
  */
-export function applyVariance(damage: number): number {
+export function applyVariance(damage: number, rng: Rng): number {
   const variance =
     DAMAGE_CONSTANTS.MIN_VARIANCE +
-    Math.random() *
+    rng.next() *
       (DAMAGE_CONSTANTS.MAX_VARIANCE - DAMAGE_CONSTANTS.MIN_VARIANCE);
   return Math.round(damage * variance);
 }
@@ -147,6 +148,7 @@ export function calculateDamage(
     dodgeChance: number;
   },
   move: Move,
+  rng: Rng,
 ): DamageResult {
   // Self-targeting moves (buffs) deal no damage
   // Zero power AND zero flat damage means no damage (pure effect moves)
@@ -169,7 +171,7 @@ export function calculateDamage(
     defender.dodgeChance,
     move.accuracyModifier,
   );
-  const isHit = rollHit(hitChance);
+  const isHit = rollHit(hitChance, rng);
 
   if (!isHit) {
     return {
@@ -182,7 +184,7 @@ export function calculateDamage(
   }
 
   // 3. Roll for critical
-  const isCritical = rollCritical(attacker.criticalChance);
+  const isCritical = rollCritical(attacker.criticalChance, rng);
   let damage = baseDamage;
 
   // 4. Apply critical multiplier
@@ -202,7 +204,7 @@ export function calculateDamage(
   damage *= calculateEnduranceMitigation(defender.battleStats.endurance);
 
   // 7. Apply variance
-  damage = applyVariance(damage);
+  damage = applyVariance(damage, rng);
 
   // Ensure minimum 1 damage on hit
   damage = Math.max(1, damage);
@@ -41,9 +41,11 @@ export const BATTLE_CONSTANTS = {
 
 /**
  * Calculate derived battle stats from base battle stats.
+ * @param critChanceBonus - Extra critical chance (%) from equipment, still subject to the cap
  */
 export function calculateDerivedStats(
   baseStats: BattleStats,
+  critChanceBonus = 0,
 ): DerivedBattleStats {
   const {
     strength: _strength,
@@ -78,7 +80,8 @@ export function calculateDerivedStats(
   const criticalChance = Math.min(
     BATTLE_CONSTANTS.MAX_CRIT_CHANCE,
     BATTLE_CONSTANTS.BASE_CRIT_CHANCE +
-      precision * BATTLE_CONSTANTS.CRIT_PER_PRECISION,
+      precision * BATTLE_CONSTANTS.CRIT_PER_PRECISION +
+      critChanceBonus,
   );
 
   // Critical damage: base multiplier + cunning scaling
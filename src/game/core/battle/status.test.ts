@@ -3,6 +3,7 @@
  */
 
 import { expect, test } from "bun:test";
+import { createRng, createSequenceRng } from "@/game/core/rng";
 import { DamageType } from "@/game/types/constants";
 import {
   type MoveEffect,
@@ -29,7 +30,7 @@ test("applyMoveEffect creates status effect when apply chance succeeds", () => {
     targetsSelf: true,
   };
 
-  const result = applyMoveEffect(effect, 10);
+  const result = applyMoveEffect(effect, 10, createRng(1));
 
   expect(result).not.toBeNull();
   expect(result?.name).toBe("Strength Up");
@@ -49,7 +50,7 @@ test("applyMoveEffect returns null when apply chance fails", () => {
     targetsSelf: true,
   };
 
-  const result = applyMoveEffect(effect, 10);
+  const result = applyMoveEffect(effect, 10, createRng(1));
 
   expect(result).toBeNull();
 });
@@ -66,9 +67,10 @@ test("applyMoveEffect can be resisted by high fortitude for debuffs", () => {
   };
 
   // Run many times with max fortitude (should resist most)
+  const rng = createRng(1);
   let resistedCount = 0;
   for (let i = 0; i < 100; i++) {
-    const result = applyMoveEffect(effect, 100); // Very high fortitude
+    const result = applyMoveEffect(effect, 100, rng); // Very high fortitude
     if (result === null) resistedCount++;
   }
 
@@ -77,6 +79,25 @@ test("applyMoveEffect can be resisted by high fortitude for debuffs", () => {
   expect(resistedCount).toBeGreaterThan(50);
 });
 
+test("applyMoveEffect draws apply and resist rolls from the rng", () => {
+  const effect: MoveEffect = {
+    type: StatusEffectType.StatDebuff,
+    name: "Weakness",
+    stat: "strength",
+    value: 20,
+    duration: 3,
+    applyChance: 0.5,
+    targetsSelf: false,
+  };
+
+  // 20 fortitude = 30% resist chance
+  expect(applyMoveEffect(effect, 20, createSequenceRng([0.6]))).toBeNull();
+  expect(applyMoveEffect(effect, 20, createSequenceRng([0.4, 0.2]))).toBeNull();
+  expect(
+    applyMoveEffect(effect, 20, createSequenceRng([0.4, 0.5])),
+  ).not.toBeNull();
+});
+
 test("applyMoveEffect includes damageType for DoT effects", () => {
   const effect: MoveEffect = {
     type: StatusEffectType.DamageOverTime,
@@ -88,7 +109,7 @@ test("applyMoveEffect includes damageType for DoT effects", () => {
     damageType: DamageType.Chemical,
   };
 
-  const result = applyMoveEffect(effect, 0); // 0 fortitude = no resistance
+  const result = applyMoveEffect(effect, 0, createRng(1)); // 0 fortitude = no resistance
 
   expect(result?.damageType).toBe(DamageType.Chemical);
 });
@@ -2,6 +2,7 @@
  * Status effect processing for the battle system.
  */
 
+import type { Rng } from "@/game/core/rng";
 import {
   createStatusEffectId,
   type MoveEffect,
@@ -23,9 +24,10 @@ const FORTITUDE_RESIST_BONUS = 1.5;
 export function applyMoveEffect(
   effect: MoveEffect,
   targetFortitude: number,
+  rng: Rng,
 ): StatusEffect | null {
   // Roll for application
-  if (Math.random() > effect.applyChance) {
+  if (rng.next() > effect.applyChance) {
     return null;
   }
 
@@ -38,13 +40,13 @@ export function applyMoveEffect(
     const resistChance =
       (targetFortitude * FORTITUDE_RESIST_BONUS) /
       DAMAGE_CONSTANTS.PERCENTAGE_SCALE;
-    if (Math.random() < resistChance) {
+    if (rng.next() < resistChance) {
       return null; // Resisted
     }
   }
 
   return {
-    id: createStatusEffectId(),
+    id: createStatusEffectId(rng),
     type: effect.type,
     name: effect.name,
     stat: effect.stat,
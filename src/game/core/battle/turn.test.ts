@@ -3,6 +3,7 @@
  */
 
 import { expect, test } from "bun:test";
+import { createRng, createSequenceRng } from "@/game/core/rng";
 import { createTestCombatant } from "@/game/testing/createTestCombatant";
 import { DamageType } from "@/game/types/constants";
 import { type Move, type MoveSlot, StatusEffectType } from "@/game/types/move";
@@ -249,7 +250,7 @@ test("executeAction deducts stamina cost", () => {
   const target = createTestCombatant();
   const move = createTestMove({ staminaCost: 15 });
 
-  const result = executeAction(actor, target, move, "player");
+  const result = executeAction(actor, target, move, "player", createRng(1));
 
   expect(result.actor.derivedStats.currentStamina).toBe(35);
 });
@@ -261,7 +262,7 @@ test("executeAction sets move cooldown", () => {
   });
   const target = createTestCombatant();
 
-  const result = executeAction(actor, target, move, "player");
+  const result = executeAction(actor, target, move, "player", createRng(1));
 
   const updatedSlot = result.actor.moveSlots.find(
     (slot) => slot.move.id === "cooldown_move",
@@ -284,7 +285,7 @@ test("executeAction returns wasStunned true when actor is stunned", () => {
   const target = createTestCombatant();
   const move = createTestMove();
 
-  const result = executeAction(actor, target, move, "player");
+  const result = executeAction(actor, target, move, "player", createRng(1));
 
   expect(result.action.wasStunned).toBe(true);
 });
@@ -327,7 +328,7 @@ test("executeAction deals damage to target", () => {
   });
   const move = createTestMove({ power: 2.0, flatDamage: 10 });
 
-  const result = executeAction(actor, target, move, "player");
+  const result = executeAction(actor, target, move, "player", createRng(1));
 
   // Should have dealt damage (exact amount varies due to variance)
   expect(result.target.derivedStats.currentHealth).toBeLessThan(100);
@@ -548,7 +549,7 @@ test("selectAIMove returns a move from available moves", () => {
     ],
   });
 
-  const move = selectAIMove(enemy);
+  const move = selectAIMove(enemy, createRng(1));
 
   expect(["Attack 1", "Attack 2"]).toContain(move.name);
 });
@@ -562,7 +563,7 @@ test("selectAIMove falls back to first move when all on cooldown", () => {
     ],
   });
 
-  const move = selectAIMove(enemy);
+  const move = selectAIMove(enemy, createRng(1));
 
   expect(move.name).toBe("Fallback");
 });
@@ -572,7 +573,9 @@ test("selectAIMove throws when enemy has no moves", () => {
     moveSlots: [],
   });
 
-  expect(() => selectAIMove(enemy)).toThrow("Enemy has no moves available");
+  expect(() => selectAIMove(enemy, createRng(1))).toThrow(
+    "Enemy has no moves available",
+  );
 });
 
 test("selectAIMove prefers high damage moves", () => {
@@ -605,12 +608,43 @@ test("selectAIMove prefers high damage moves", () => {
   });
 
   // Run multiple times to account for randomness (30% support move chance)
+  const rng = createRng(1);
   let highPowerCount = 0;
   for (let i = 0; i < 100; i++) {
-    const move = selectAIMove(enemy);
+    const move = selectAIMove(enemy, rng);
     if (move.name === "High Power") highPowerCount++;
   }
 
   // Should select high power move most of the time (around 70%)
   expect(highPowerCount).toBeGreaterThan(50);
 });
+
+test("selectAIMove uses a support move when the rng rolls under 30%", () => {
+  const attackMove = createTestMove({ id: "attack", name: "Attack" });
+  const supportMove = createTestMove({
+    id: "support",
+    name: "Support",
+    power: 0,
+    target: "self",
+    effects: [
+      {
+        type: StatusEffectType.StatBuff,
+        name: "Strength Up",
+        stat: "strength",
+        value: 20,
+        duration: 3,
+        applyChance: 1.0,
+        targetsSelf: true,
+      },
+    ],
+  });
+  const enemy = createTestCombatant({
+    moveSlots: [
+      { move: attackMove, currentCooldown: 0 },
+      { move: supportMove, currentCooldown: 0 },
+    ],
+  });
+
+  expect(selectAIMove(enemy, createSequenceRng([0.1, 0])).name).toBe("Support");
+  expect(selectAIMove(enemy, createSequenceRng([0.5])).name).toBe("Attack");
+});
@@ -2,6 +2,7 @@
  * Turn order and action resolution for the battle system.
  */
 
+import { type Rng, randomIndex } from "@/game/core/rng";
 import type { Move, MoveSlot, StatusEffect } from "@/game/types/move";
 import type {
   BattleStats,
@@ -111,6 +112,7 @@ export function executeAction(
   target: Combatant,
   move: Move,
   actorId: "player" | "enemy",
+  rng: Rng,
 ): { actor: Combatant; target: Combatant; action: TurnAction } {
   const action: TurnAction = {
     actor: actorId,
@@ -162,6 +164,7 @@ export function executeAction(
         dodgeChance: target.derivedStats.dodgeChance,
       },
       move,
+      rng,
     );
 
     action.damageResult = damageResult;
@@ -185,6 +188,7 @@ export function executeAction(
     const appliedEffect = applyMoveEffect(
       effect,
       targetCombatant.battleStats.fortitude,
+      rng,
     );
 
     if (appliedEffect) {
@@ -284,7 +288,7 @@ export function checkBattleEnd(
 /**
  * Select an AI move for the enemy.
  */
-export function selectAIMove(enemy: Combatant): Move {
+export function selectAIMove(enemy: Combatant, rng: Rng): Move {
   const available = getAvailableMoves(enemy);
 
   if (available.length === 0) {
@@ -301,8 +305,8 @@ export function selectAIMove(enemy: Combatant): Move {
   const supportMoves = available.filter((slot) => slot.move.effects.length > 0);
 
   // 30% chance to use a support move if available
-  if (supportMoves.length > 0 && Math.random() < 0.3) {
-    const index = Math.floor(Math.random() * supportMoves.length);
+  if (supportMoves.length > 0 && rng.next() < 0.3) {
+    const index = randomIndex(rng, supportMoves.length);
     const move = supportMoves[index]?.move;
     if (move) return move;
   }
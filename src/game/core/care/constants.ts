@@ -135,3 +135,9 @@ export const CARE_LIFE_RECOVERY_THRESHOLD_50 = 50;
  */
 export const ENERGY_REGEN_AWAKE: MicroValue = 40;
 export const ENERGY_REGEN_SLEEPING: MicroValue = 120;
+
+/**
+ * Energy regeneration per tick while staying at an inn (micro-units).
+ * Three times the sleeping rate: ~43.2 display/hour.
+ */
+export const ENERGY_REGEN_INN: MicroValue = 360;
@@ -26,6 +26,7 @@ export {
   CARE_LIFE_RECOVERY_AT_100,
   // Energy
   ENERGY_REGEN_AWAKE,
+  ENERGY_REGEN_INN,
   ENERGY_REGEN_SLEEPING,
   // Poop system
   MAX_POOP_COUNT,
@@ -0,0 +1,95 @@
+/**
+ * Tests for combat record tracking.
+ */
+
+import { expect, test } from "bun:test";
+import { SPECIES } from "@/game/data/species";
+import {
+  CombatStat,
+  createInitialCombatRecord,
+} from "@/game/types/combatRecord";
+import {
+  type BattleOutcome,
+  getCombatRecordValue,
+  recordBattleFled,
+  recordBattleOutcome,
+} from "./combatRecord";
+
+const win: BattleOutcome = {
+  victory: true,
+  speciesId: SPECIES.FLORABIT.id,
+  locationId: "meadow",
+  enemyLevel: 4,
+  damageDealt: 30,
+};
+
+const loss: BattleOutcome = {
+  victory: false,
+  speciesId: SPECIES.ROCKPUP.id,
+  locationId: "misty_woods",
+  enemyLevel: 7,
+  damageDealt: 12,
+};
+
+test("recordBattleOutcome tracks wins and losses by species and location", () => {
+  const record = recordBattleOutcome(
+    recordBattleOutcome(createInitialCombatRecord(), win),
+    loss,
+  );
+
+  expect(record.wins).toBe(1);
+  expect(record.losses).toBe(1);
+  expect(record.totalDamageDealt).toBe(42);
+  expect(record.bySpecies).toEqual({
+    [SPECIES.FLORABIT.id]: { wins: 1, losses: 0 },
+    [SPECIES.ROCKPUP.id]: { wins: 0, losses: 1 },
+  });
+  expect(record.byLocation).toEqual({
+    meadow: { wins: 1, losses: 0 },
+    misty_woods: { wins: 0, losses: 1 },
+  });
+});
+
+test("recordBattleOutcome only counts defeated enemies for highest level", () => {
+  const record = recordBattleOutcome(
+    recordBattleOutcome(createInitialCombatRecord(), win),
+    loss,
+  );
+  expect(record.highestLevelDefeated).toBe(4);
+});
+
+test("win streaks end on a loss but the best streak is kept", () => {
+  let record = createInitialCombatRecord();
+  record = recordBattleOutcome(record, win);
+  record = recordBattleOutcome(record, win);
+  record = recordBattleOutcome(record, loss);
+  record = recordBattleOutcome(record, win);
+
+  expect(record.currentWinStreak).toBe(1);
+  expect(record.bestWinStreak).toBe(2);
+});
+
+test("recordBattleFled counts escapes and ends the win streak", () => {
+  const record = recordBattleFled(
+    recordBattleOutcome(createInitialCombatRecord(), win),
+  );
+  expect(record.fled).toBe(1);
+  expect(record.currentWinStreak).toBe(0);
+  expect(record.bestWinStreak).toBe(1);
+});
+
+test("getCombatRecordValue queries stats, species and locations", () => {
+  const record = recordBattleOutcome(
+    recordBattleOutcome(createInitialCombatRecord(), win),
+    loss,
+  );
+
+  expect(getCombatRecordValue(record, "any")).toBe(1);
+  expect(getCombatRecordValue(record, CombatStat.Losses)).toBe(1);
+  expect(getCombatRecordValue(record, CombatStat.HighestLevelDefeated)).toBe(4);
+  expect(getCombatRecordValue(record, CombatStat.DamageDealt)).toBe(42);
+  expect(getCombatRecordValue(record, SPECIES.FLORABIT.id)).toBe(1);
+  expect(getCombatRecordValue(record, SPECIES.ROCKPUP.id)).toBe(0);
+  expect(getCombatRecordValue(record, "meadow")).toBe(1);
+  expect(getCombatRecordValue(record, "unknown_target")).toBe(0);
+});
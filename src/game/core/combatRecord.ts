@@ -0,0 +1,148 @@
+/**
+ * Combat record tracking.
+ *
+ * Every finished battle is recorded when its battle end event is emitted, and
+ * every escape when the pet flees. Quest requirements and dialogue
+ * conditions query the record by statistic, species or location.
+ */
+
+import { BattlePhase, type BattleState } from "@/game/core/battle/battle";
+import { getLocation } from "@/game/data/locations";
+import { getSpeciesById } from "@/game/data/species";
+import {
+  type CombatRecord,
+  CombatStat,
+  type WinLossRecord,
+} from "@/game/types/combatRecord";
+import type { GameState } from "@/game/types/gameState";
+
+/**
+ * Outcome of a finished battle.
+ */
+export interface BattleOutcome {
+  /** Whether the player won */
+  victory: boolean;
+  /** Enemy species ID */
+  speciesId: string;
+  /** Location where the battle took place */
+  locationId: string;
+  /** Enemy level */
+  enemyLevel: number;
+  /** Damage dealt to the enemy over the battle */
+  damageDealt: number;
+}
+
+/**
+ * Add a win or loss to a per-species or per-location entry.
+ */
+function addResult(
+  results: Record<string, WinLossRecord>,
+  key: string,
+  victory: boolean,
+): Record<string, WinLossRecord> {
+  const current = results[key] ?? { wins: 0, losses: 0 };
+  return {
+    ...results,
+    [key]: victory
+      ? { ...current, wins: current.wins + 1 }
+      : { ...current, losses: current.losses + 1 },
+  };
+}
+
+/**
+ * Record a finished battle.
+ * A loss resets the current win streak.
+ */
+export function recordBattleOutcome(
+  record: CombatRecord,
+  outcome: BattleOutcome,
+): CombatRecord {
+  const currentWinStreak = outcome.victory ? record.currentWinStreak + 1 : 0;
+  return {
+    ...record,
+    wins: record.wins + (outcome.victory ? 1 : 0),
+    losses: record.losses + (outcome.victory ? 0 : 1),
+    currentWinStreak,
+    bestWinStreak: Math.max(record.bestWinStreak, currentWinStreak),
+    highestLevelDefeated: outcome.victory
+      ? Math.max(record.highestLevelDefeated, outcome.enemyLevel)
+      : record.highestLevelDefeated,
+    totalDamageDealt: record.totalDamageDealt + outcome.damageDealt,
+    bySpecies: addResult(record.bySpecies, outcome.speciesId, outcome.victory),
+    byLocation: addResult(
+      record.byLocation,
+      outcome.locationId,
+      outcome.victory,
+    ),
+  };
+}
+
+/**
+ * Record an escape. Fleeing ends the current win streak.
+ */
+export function recordBattleFled(record: CombatRecord): CombatRecord {
+  return { ...record, fled: record.fled + 1, currentWinStreak: 0 };
+}
+
+/**
+ * Record the active battle's result in the game state's combat record.
+ * Damage dealt is the health the enemy lost over the battle.
+ */
+export function recordBattleEnd(
+  state: GameState,
+  battleState: BattleState,
+): GameState {
+  if (!state.activeBattle) return state;
+
+  const { enemy } = battleState;
+  return {
+    ...state,
+    combatRecord: recordBattleOutcome(state.combatRecord, {
+      victory: battleState.phase === BattlePhase.Victory,
+      speciesId: state.activeBattle.enemySpeciesId,
+      locationId: state.player.currentLocationId,
+      enemyLevel: state.activeBattle.enemyLevel,
+      damageDealt: Math.max(
+        0,
+        enemy.derivedStats.maxHealth - enemy.derivedStats.currentHealth,
+      ),
+    }),
+  };
+}
+
+/**
+ * Query a value from the combat record.
+ * The target is a CombatStat, "any" (total wins), a species ID (wins
+ * against that species) or a location ID (wins at that location).
+ * Unknown targets return 0.
+ */
+export function getCombatRecordValue(
+  record: CombatRecord,
+  target: string,
+): number {
+  switch (target) {
+    case "any":
+    case CombatStat.Wins:
+      return record.wins;
+    case CombatStat.Losses:
+      return record.losses;
+    case CombatStat.Fled:
+      return record.fled;
+    case CombatStat.WinStreak:
+      return record.currentWinStreak;
+    case CombatStat.BestWinStreak:
+      return record.bestWinStreak;
+    case CombatStat.HighestLevelDefeated:
+      return record.highestLevelDefeated;
+    case CombatStat.DamageDealt:
+      return record.totalDamageDealt;
+  }
+
+  if (getSpeciesById(target)) {
+    return record.bySpecies[target]?.wins ?? 0;
+  }
+  if (getLocation(target)) {
+    return record.byLocation[target]?.wins ?? 0;
+  }
+  return 0;
+}
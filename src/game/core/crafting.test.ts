@@ -0,0 +1,230 @@
+/**
+ * Tests for crafting logic.
+ */
+
+import { expect, test } from "bun:test";
+import { CARRIED_INVENTORY_CAPACITY } from "@/game/core/inventory";
+import { createRng, createSequenceRng } from "@/game/core/rng";
+import {
+  EQUIPMENT_ITEMS,
+  MATERIAL_ITEMS,
+  MEDICINE_ITEMS,
+  TOY_ITEMS,
+} from "@/game/data/items";
+import { StorageMessages } from "@/game/data/messages";
+import {
+  bandageRecipe,
+  ironBangleRecipe,
+  potionRecipe,
+} from "@/game/data/recipes";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import type { GameState, InventoryItem } from "@/game/types/gameState";
+import { createInitialSkills, SkillType } from "@/game/types/skill";
+import {
+  canCraft,
+  cancelCraft,
+  craftItem,
+  getBonusOutputChance,
+  processCraftingTick,
+} from "./crafting";
+
+function stack(itemId: string, quantity: number): InventoryItem {
+  return { itemId, quantity, currentDurability: null };
+}
+
+function createCraftingState(
+  items: InventoryItem[],
+  craftingLevel = 1,
+): GameState {
+  const skills = createInitialSkills();
+  return createTestGameState(undefined, {
+    player: {
+      inventory: { items },
+      skills: {
+        ...skills,
+        [SkillType.Crafting]: { ...skills.crafting, level: craftingLevel },
+      },
+    },
+  });
+}
+
+// canCraft tests
+test("canCraft succeeds when ingredients and level are met", () => {
+  const state = createCraftingState([
+    stack(MATERIAL_ITEMS.FIBER.id, 2),
+    stack(MATERIAL_ITEMS.HERB.id, 1),
+  ]);
+  expect(canCraft(state, bandageRecipe.id).canCraft).toBe(true);
+});
+
+test("canCraft fails when ingredients are missing", () => {
+  const state = createCraftingState([stack(MATERIAL_ITEMS.FIBER.id, 2)]);
+  expect(canCraft(state, bandageRecipe.id).canCraft).toBe(false);
+});
+
+test("canCraft fails below the recipe's Crafting level", () => {
+  const state = createCraftingState([
+    stack(MATERIAL_ITEMS.IRON_ORE.id, 3),
+    stack(MATERIAL_ITEMS.WOOD.id, 2),
+  ]);
+  const result = canCraft(state, ironBangleRecipe.id);
+  expect(result.canCraft).toBe(false);
+  expect(result.message).toBe("Requires Crafting level 8.");
+});
+
+test("canCraft matches tag ingredients against material crafting tags", () => {
+  const state = createCraftingState(
+    [stack(MATERIAL_ITEMS.HERB.id, 3), stack(MATERIAL_ITEMS.FIBER.id, 1)],
+    potionRecipe.requiredLevel,
+  );
+  expect(canCraft(state, potionRecipe.id).canCraft).toBe(true);
+
+  const short = createCraftingState(
+    [stack(MATERIAL_ITEMS.HERB.id, 3)],
+    potionRecipe.requiredLevel,
+  );
+  expect(canCraft(short, potionRecipe.id).canCraft).toBe(false);
+});
+
+// craftItem tests
+test("craftItem consumes ingredients, adds output and grants Crafting XP", () => {
+  const state = createCraftingState([
+    stack(MATERIAL_ITEMS.FIBER.id, 3),
+    stack(MATERIAL_ITEMS.HERB.id, 1),
+  ]);
+
+  const result = craftItem(state, bandageRecipe.id, createSequenceRng([0.99]));
+
+  expect(result.success).toBe(true);
+  expect(result.outcome?.bonusOutput).toBe(false);
+  expect(result.state.player.inventory.items).toEqual([
+    stack(MATERIAL_ITEMS.FIBER.id, 1),
+    stack(MEDICINE_ITEMS.BANDAGE.id, 1),
+  ]);
+  expect(result.state.player.skills.crafting.currentXp).toBe(
+    bandageRecipe.xpReward,
+  );
+});
+
+test("craftItem produces bonus output on a successful roll", () => {
+  const state = createCraftingState([
+    stack(MATERIAL_ITEMS.FIBER.id, 2),
+    stack(MATERIAL_ITEMS.HERB.id, 1),
+  ]);
+  const result = craftItem(state, bandageRecipe.id, createSequenceRng([0]));
+  expect(result.outcome?.bonusOutput).toBe(true);
+  expect(result.state.player.inventory.items).toEqual([
+    stack(MEDICINE_ITEMS.BANDAGE.id, 2),
+  ]);
+});
+
+test("craftItem splits tag ingredients across matching materials", () => {
+  const state = createCraftingState(
+    [
+      stack(MATERIAL_ITEMS.IRON_ORE.id, 3),
+      stack(MATERIAL_ITEMS.WOOD.id, 1),
+      stack(MATERIAL_ITEMS.STONE.id, 4),
+    ],
+    ironBangleRecipe.requiredLevel,
+  );
+
+  const result = craftItem(state, ironBangleRecipe.id, createRng(1));
+
+  expect(result.success).toBe(true);
+  expect(result.state.player.inventory.items).toEqual([
+    stack(MATERIAL_ITEMS.STONE.id, 3),
+  ]);
+  expect(result.state.activeCraft?.consumedItems).toEqual([
+    { itemId: MATERIAL_ITEMS.IRON_ORE.id, quantity: 3 },
+    { itemId: MATERIAL_ITEMS.WOOD.id, quantity: 1 },
+    { itemId: MATERIAL_ITEMS.STONE.id, quantity: 1 },
+  ]);
+});
+
+test("craftItem fails while another craft is in progress", () => {
+  const state = createCraftingState(
+    [stack(MATERIAL_ITEMS.IRON_ORE.id, 6), stack(MATERIAL_ITEMS.WOOD.id, 4)],
+    ironBangleRecipe.requiredLevel,
+  );
+  const first = craftItem(state, ironBangleRecipe.id, createRng(1));
+  const second = craftItem(first.state, ironBangleRecipe.id, createRng(1));
+  expect(second.success).toBe(false);
+  expect(second.state).toBe(first.state);
+});
+
+// processCraftingTick tests
+test("processCraftingTick finishes a timed craft after its duration", () => {
+  const state = createCraftingState(
+    [stack(MATERIAL_ITEMS.IRON_ORE.id, 3), stack(MATERIAL_ITEMS.WOOD.id, 2)],
+    ironBangleRecipe.requiredLevel,
+  );
+  let current = craftItem(state, ironBangleRecipe.id, createRng(1)).state;
+  const duration = ironBangleRecipe.durationTicks ?? 0;
+
+  for (let i = 0; i < duration - 1; i++) {
+    const result = processCraftingTick(current, createSequenceRng([0.99]));
+    expect(result.outcome).toBeUndefined();
+    current = result.state;
+  }
+  expect(current.activeCraft?.ticksRemaining).toBe(1);
+
+  const final = processCraftingTick(current, createSequenceRng([0.99]));
+  expect(final.outcome?.quantity).toBe(1);
+  expect(final.state.activeCraft).toBeUndefined();
+  expect(final.state.player.inventory.items).toEqual([
+    {
+      itemId: EQUIPMENT_ITEMS.IRON_BANGLE.id,
+      quantity: 1,
+      currentDurability: EQUIPMENT_ITEMS.IRON_BANGLE.maxDurability,
+    },
+  ]);
+});
+
+// cancelCraft tests
+test("cancelCraft refunds the consumed ingredients", () => {
+  const items = [
+    stack(MATERIAL_ITEMS.IRON_ORE.id, 3),
+    stack(MATERIAL_ITEMS.WOOD.id, 2),
+  ];
+  const state = createCraftingState(items, ironBangleRecipe.requiredLevel);
+  const started = craftItem(state, ironBangleRecipe.id, createRng(1)).state;
+
+  const result = cancelCraft(started);
+
+  expect(result.success).toBe(true);
+  expect(result.state.activeCraft).toBeUndefined();
+  expect(result.state.player.inventory.items).toEqual(items);
+});
+
+test("cancelCraft sends refunds that do not fit in the bag to storage", () => {
+  const items = [
+    stack(MATERIAL_ITEMS.IRON_ORE.id, 3),
+    stack(MATERIAL_ITEMS.WOOD.id, 2),
+  ];
+  const state = createCraftingState(items, ironBangleRecipe.requiredLevel);
+  const started = craftItem(state, ironBangleRecipe.id, createRng(1)).state;
+  const fullBag = Array.from({ length: CARRIED_INVENTORY_CAPACITY }, () => ({
+    itemId: TOY_ITEMS.BALL.id,
+    quantity: 1,
+    currentDurability: 1,
+  }));
+  const filled: GameState = {
+    ...started,
+    player: { ...started.player, inventory: { items: fullBag } },
+  };
+
+  const result = cancelCraft(filled);
+
+  expect(result.success).toBe(true);
+  expect(result.state.player.inventory.items).toEqual(fullBag);
+  expect(result.state.player.storage.items).toEqual(items);
+  expect(result.message).toContain(
+    StorageMessages.sentToStorage(3, MATERIAL_ITEMS.IRON_ORE.name),
+  );
+});
+
+// getBonusOutputChance tests
+test("getBonusOutputChance scales with Crafting level", () => {
+  expect(getBonusOutputChance(1)).toBeCloseTo(0.1);
+  expect(getBonusOutputChance(21)).toBeCloseTo(0.2);
+});
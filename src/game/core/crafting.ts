@@ -0,0 +1,414 @@
+/**
+ * Crafting logic: recipe checks, consuming ingredients and producing items.
+ *
+ * Ingredients are consumed when a craft starts. Instant recipes complete
+ * immediately; recipes with a duration become the active craft and finish
+ * through the tick processor.
+ */
+
+import { getItemQuantity, removeItem } from "@/game/core/inventory";
+import type { Rng } from "@/game/core/rng";
+import {
+  addXpToPlayerSkill,
+  getSkillEffectMultiplier,
+  meetsSkillRequirement,
+} from "@/game/core/skills";
+import { describeItemOverflow, receiveItem } from "@/game/core/storage";
+import { getItemById } from "@/game/data/items";
+import { CraftingMessages } from "@/game/data/messages";
+import { getRecipe } from "@/game/data/recipes";
+import { PERCENTAGE_MAX } from "@/game/types/common";
+import type {
+  ActiveCraft,
+  ConsumedMaterial,
+  Recipe,
+  RecipeIngredient,
+} from "@/game/types/crafting";
+import { IngredientType } from "@/game/types/crafting";
+import { type CraftingCompleteEvent, createEvent } from "@/game/types/event";
+import type { GameState, Inventory } from "@/game/types/gameState";
+import { isMaterialItem } from "@/game/types/item";
+import { SkillType } from "@/game/types/skill";
+
+/**
+ * Base chance (0.0 to 1.0) of producing bonus output at Crafting level 1.
+ * Scaled by the Crafting skill effect multiplier.
+ */
+export const CRAFTING_BONUS_OUTPUT_CHANCE = 0.1;
+
+/**
+ * Result of checking whether a recipe can be crafted.
+ */
+export interface CanCraftResult {
+  canCraft: boolean;
+  message: string;
+}
+
+/**
+ * Outcome of a finished craft.
+ */
+export interface CraftOutcome {
+  /** Recipe that was crafted */
+  recipe: Recipe;
+  /** Quantity produced (including bonus output) */
+  quantity: number;
+  /** Whether the bonus output roll succeeded */
+  bonusOutput: boolean;
+  /** Whether the Crafting skill leveled up */
+  leveledUp: boolean;
+}
+
+/**
+ * Result of crafting or cancelling a craft.
+ */
+export interface CraftResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+  /** Set when the craft finished (instant recipes only) */
+  outcome?: CraftOutcome;
+}
+
+/**
+ * Ingredients resolved against an inventory.
+ */
+interface ResolvedIngredients {
+  /** Inventory with the ingredients removed */
+  inventory: Inventory;
+  /** Items consumed, merged by item ID */
+  consumed: ConsumedMaterial[];
+}
+
+/**
+ * Check if an inventory item matches a crafting tag.
+ */
+function hasCraftingTag(itemId: string, tag: string): boolean {
+  const itemDef = getItemById(itemId);
+  return (
+    itemDef !== undefined &&
+    isMaterialItem(itemDef) &&
+    itemDef.craftingTags.includes(tag)
+  );
+}
+
+/**
+ * Record a consumed quantity, merging with earlier entries for the same item.
+ */
+function recordConsumed(
+  consumed: ConsumedMaterial[],
+  itemId: string,
+  quantity: number,
+): ConsumedMaterial[] {
+  const existing = consumed.find((entry) => entry.itemId === itemId);
+  if (!existing) {
+    return [...consumed, { itemId, quantity }];
+  }
+  return consumed.map((entry) =>
+    entry === existing
+      ? { ...entry, quantity: entry.quantity + quantity }
+      : entry,
+  );
+}
+
+/**
+ * Resolve recipe ingredients against an inventory.
+ * Specific items are taken first so tag ingredients don't use them up;
+ * tag ingredients take matching materials in inventory order.
+ * Returns null if the inventory doesn't hold enough ingredients.
+ */
+function resolveIngredients(
+  inventory: Inventory,
+  ingredients: RecipeIngredient[],
+): ResolvedIngredients | null {
+  let remaining = inventory;
+  let consumed: ConsumedMaterial[] = [];
+
+  const ordered = [
+    ...ingredients.filter((i) => i.type === IngredientType.Item),
+    ...ingredients.filter((i) => i.type === IngredientType.Tag),
+  ];
+
+  for (const ingredient of ordered) {
+    if (ingredient.type === IngredientType.Item) {
+      if (getItemQuantity(remaining, ingredient.itemId) < ingredient.quantity) {
+        return null;
+      }
+      remaining = removeItem(remaining, ingredient.itemId, ingredient.quantity);
+      consumed = recordConsumed(
+        consumed,
+        ingredient.itemId,
+        ingredient.quantity,
+      );
+      continue;
+    }
+
+    let needed = ingredient.quantity;
+    const matchingIds = [
+      ...new Set(
+        remaining.items
+          .filter((invItem) => hasCraftingTag(invItem.itemId, ingredient.tag))
+          .map((invItem) => invItem.itemId),
+      ),
+    ];
+    for (const itemId of matchingIds) {
+      if (needed <= 0) break;
+      const take = Math.min(needed, getItemQuantity(remaining, itemId));
+      remaining = removeItem(remaining, itemId, take);
+      consumed = recordConsumed(consumed, itemId, take);
+      needed -= take;
+    }
+    if (needed > 0) {
+      return null;
+    }
+  }
+
+  return { inventory: remaining, consumed };
+}
+
+/**
+ * Count how many items in the inventory can satisfy an ingredient.
+ */
+export function getAvailableIngredientQuantity(
+  inventory: Inventory,
+  ingredient: RecipeIngredient,
+): number {
+  if (ingredient.type === IngredientType.Item) {
+    return getItemQuantity(inventory, ingredient.itemId);
+  }
+  return inventory.items
+    .filter((invItem) => hasCraftingTag(invItem.itemId, ingredient.tag))
+    .reduce((total, invItem) => total + invItem.quantity, 0);
+}
+
+/**
+ * Calculate craft progress as a percentage (0-100).
+ */
+export function getCraftingProgress(craft: ActiveCraft): number {
+  const elapsed = craft.durationTicks - craft.ticksRemaining;
+  return Math.round((elapsed / craft.durationTicks) * PERCENTAGE_MAX);
+}
+
+/**
+ * Calculate the chance (0.0 to 1.0) of producing bonus output.
+ */
+export function getBonusOutputChance(craftingLevel: number): number {
+  return Math.min(
+    1,
+    CRAFTING_BONUS_OUTPUT_CHANCE * getSkillEffectMultiplier(craftingLevel),
+  );
+}
+
+/**
+ * Check whether the player can craft a recipe.
+ */
+export function canCraft(state: GameState, recipeId: string): CanCraftResult {
+  const recipe = getRecipe(recipeId);
+  if (!recipe) {
+    return { canCraft: false, message: CraftingMessages.recipeNotFound };
+  }
+
+  if (state.activeCraft) {
+    return { canCraft: false, message: CraftingMessages.alreadyCrafting };
+  }
+
+  if (
+    !meetsSkillRequirement(
+      state.player.skills,
+      SkillType.Crafting,
+      recipe.requiredLevel,
+    )
+  ) {
+    return {
+      canCraft: false,
+      message: CraftingMessages.levelTooLow(recipe.requiredLevel),
+    };
+  }
+
+  if (!resolveIngredients(state.player.inventory, recipe.ingredients)) {
+    return { canCraft: false, message: CraftingMessages.missingIngredients };
+  }
+
+  return { canCraft: true, message: CraftingMessages.canCraft };
+}
+
+/**
+ * Produce a recipe's output, grant Crafting XP and clear the active craft.
+ *
+ * @param rng - Random source for the bonus output roll
+ */
+export function completeCraft(
+  state: GameState,
+  recipe: Recipe,
+  rng: Rng,
+): { state: GameState; outcome: CraftOutcome } {
+  const craftingLevel = state.player.skills[SkillType.Crafting].level;
+  const bonusOutput = rng.next() < getBonusOutputChance(craftingLevel);
+  const quantity = recipe.output.quantity * (bonusOutput ? 2 : 1);
+
+  const { skills, result } = addXpToPlayerSkill(
+    state.player.skills,
+    SkillType.Crafting,
+    recipe.xpReward,
+  );
+
+  // Output that does not fit in the bag is sent to storage
+  const received = receiveItem(
+    { ...state, player: { ...state.player, skills } },
+    recipe.output.itemId,
+    quantity,
+  );
+
+  return {
+    state: { ...received.state, activeCraft: undefined },
+    outcome: {
+      recipe,
+      quantity,
+      bonusOutput,
+      leveledUp: result.leveledUp,
+    },
+  };
+}
+
+/**
+ * Craft a recipe, consuming its ingredients.
+ * Instant recipes complete immediately; timed recipes start the active craft.
+ *
+ * @param rng - Random source for the bonus output roll
+ */
+export function craftItem(
+  state: GameState,
+  recipeId: string,
+  rng: Rng,
+): CraftResult {
+  const check = canCraft(state, recipeId);
+  const recipe = getRecipe(recipeId);
+  if (!check.canCraft || !recipe) {
+    return { success: false, state, message: check.message };
+  }
+
+  const resolved = resolveIngredients(
+    state.player.inventory,
+    recipe.ingredients,
+  );
+  if (!resolved) {
+    return {
+      success: false,
+      state,
+      message: CraftingMessages.missingIngredients,
+    };
+  }
+
+  const consumedState: GameState = {
+    ...state,
+    player: { ...state.player, inventory: resolved.inventory },
+  };
+
+  if (recipe.durationTicks && recipe.durationTicks > 0) {
+    return {
+      success: true,
+      state: {
+        ...consumedState,
+        activeCraft: {
+          recipeId: recipe.id,
+          durationTicks: recipe.durationTicks,
+          ticksRemaining: recipe.durationTicks,
+          consumedItems: resolved.consumed,
+        },
+      },
+      message: CraftingMessages.craftStarted(recipe.name),
+    };
+  }
+
+  const completed = completeCraft(consumedState, recipe, rng);
+  return {
+    success: true,
+    state: completed.state,
+    message: CraftingMessages.crafted(
+      getItemById(recipe.output.itemId)?.name ?? recipe.name,
+      completed.outcome.quantity,
+      completed.outcome.bonusOutput,
+    ),
+    outcome: completed.outcome,
+  };
+}
+
+/**
+ * Advance the active craft by one tick.
+ * Returns the craft outcome when it finishes on this tick.
+ *
+ * @param rng - Random source for the bonus output roll
+ */
+export function processCraftingTick(
+  state: GameState,
+  rng: Rng,
+): { state: GameState; outcome?: CraftOutcome } {
+  const activeCraft = state.activeCraft;
+  if (!activeCraft) {
+    return { state };
+  }
+
+  const recipe = getRecipe(activeCraft.recipeId);
+  if (!recipe) {
+    return { state: { ...state, activeCraft: undefined } };
+  }
+
+  const ticksRemaining = activeCraft.ticksRemaining - 1;
+  if (ticksRemaining > 0) {
+    return {
+      state: { ...state, activeCraft: { ...activeCraft, ticksRemaining } },
+    };
+  }
+
+  return completeCraft(state, recipe, rng);
+}
+
+/**
+ * Create a craftingComplete event for a finished timed craft.
+ */
+export function createCraftingCompleteEvent(
+  outcome: CraftOutcome,
+  timestamp: number,
+): CraftingCompleteEvent {
+  return createEvent<CraftingCompleteEvent>(
+    {
+      type: "craftingComplete",
+      recipeName: outcome.recipe.name,
+      itemId: outcome.recipe.output.itemId,
+      quantity: outcome.quantity,
+      bonusOutput: outcome.bonusOutput,
+    },
+    timestamp,
+  );
+}
+
+/**
+ * Cancel the active craft and return its consumed ingredients.
+ * Ingredients that do not fit in the bag are sent to storage.
+ */
+export function cancelCraft(state: GameState): CraftResult {
+  const activeCraft = state.activeCraft;
+  if (!activeCraft) {
+    return { success: false, state, message: CraftingMessages.noActiveCraft };
+  }
+
+  let refundedState: GameState = { ...state, activeCraft: undefined };
+  const overflowNotes: string[] = [];
+  for (const consumed of activeCraft.consumedItems) {
+    const received = receiveItem(
+      refundedState,
+      consumed.itemId,
+      consumed.quantity,
+    );
+    refundedState = received.state;
+    const note = describeItemOverflow(consumed.itemId, received);
+    if (note) {
+      overflowNotes.push(note);
+    }
+  }
+
+  return {
+    success: true,
+    state: refundedState,
+    message: [CraftingMessages.craftCancelled, ...overflowNotes].join(" "),
+  };
+}
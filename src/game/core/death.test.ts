@@ -0,0 +1,172 @@
+/**
+ * Tests for pet death detection and memorial recording.
+ */
+
+import { expect, test } from "bun:test";
+import { initializeBattle } from "@/game/core/battle/battle";
+import { SPECIES } from "@/game/data/species";
+import { createTestCombatant } from "@/game/testing/createTestCombatant";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { DeathCause } from "@/game/types/memorial";
+import {
+  applyPetDeath,
+  createMemorialEntry,
+  determineDeathCause,
+  isPetDead,
+} from "./death";
+
+function createDyingPet(
+  careStats: { satiety: number; hydration: number; happiness: number },
+  poopCount = 0,
+) {
+  return createTestPet({
+    careStats,
+    careLifeStats: { careLife: 0 },
+    poop: { count: poopCount, ticksUntilNext: 480 },
+  });
+}
+
+test("isPetDead returns false while Care Life remains", () => {
+  const pet = createTestPet({ careLifeStats: { careLife: 1 } });
+  expect(isPetDead(pet)).toBe(false);
+});
+
+test("isPetDead returns true when Care Life is 0", () => {
+  const pet = createTestPet({ careLifeStats: { careLife: 0 } });
+  expect(isPetDead(pet)).toBe(true);
+});
+
+test("determineDeathCause returns starvation when only satiety is 0", () => {
+  const pet = createDyingPet({
+    satiety: 0,
+    hydration: 40_000,
+    happiness: 40_000,
+  });
+  expect(determineDeathCause(pet)).toBe(DeathCause.Starvation);
+});
+
+test("determineDeathCause returns dehydration when only hydration is 0", () => {
+  const pet = createDyingPet({
+    satiety: 40_000,
+    hydration: 0,
+    happiness: 40_000,
+  });
+  expect(determineDeathCause(pet)).toBe(DeathCause.Dehydration);
+});
+
+test("determineDeathCause returns heartbreak when only happiness is 0", () => {
+  const pet = createDyingPet({
+    satiety: 40_000,
+    hydration: 40_000,
+    happiness: 0,
+  });
+  expect(determineDeathCause(pet)).toBe(DeathCause.Heartbreak);
+});
+
+test("determineDeathCause returns filth when only poop caused the drain", () => {
+  const pet = createDyingPet(
+    { satiety: 40_000, hydration: 40_000, happiness: 40_000 },
+    7,
+  );
+  expect(determineDeathCause(pet)).toBe(DeathCause.Filth);
+});
+
+test("determineDeathCause returns neglect when multiple stats are 0", () => {
+  const pet = createDyingPet({ satiety: 0, hydration: 0, happiness: 40_000 });
+  expect(determineDeathCause(pet)).toBe(DeathCause.Neglect);
+});
+
+test("createMemorialEntry records pet identity and age", () => {
+  const pet = createTestPet({
+    growth: { stage: "child", substage: 2, birthTime: 1000, ageTicks: 500 },
+  });
+  const entry = createMemorialEntry(pet, DeathCause.Neglect, 5000);
+
+  expect(entry).toEqual({
+    petId: pet.identity.id,
+    name: pet.identity.name,
+    speciesId: pet.identity.speciesId,
+    stage: "child",
+    ageTicks: 500,
+    birthTime: 1000,
+    deathTime: 5000,
+    cause: DeathCause.Neglect,
+  });
+});
+
+test("applyPetDeath returns null when the pet is alive", () => {
+  const state = createTestGameState(createTestPet());
+  expect(applyPetDeath(state, Date.now())).toBeNull();
+});
+
+test("applyPetDeath returns null when there is no pet", () => {
+  const state = createTestGameState(null);
+  expect(applyPetDeath(state, Date.now())).toBeNull();
+});
+
+test("applyPetDeath removes the pet and records it in the memorial", () => {
+  const pet = createDyingPet({
+    satiety: 0,
+    hydration: 40_000,
+    happiness: 40_000,
+  });
+  const state = createTestGameState(pet);
+  const result = applyPetDeath(state, 5000);
+
+  expect(result).not.toBeNull();
+  expect(result?.state.pet).toBeNull();
+  expect(result?.state.memorial).toHaveLength(1);
+  expect(result?.state.memorial[0]?.cause).toBe(DeathCause.Starvation);
+  expect(result?.memorialEntry.deathTime).toBe(5000);
+});
+
+test("applyPetDeath makes the first benched pet active", () => {
+  const pet = createDyingPet({ satiety: 0, hydration: 0, happiness: 0 });
+  const first = createTestPet({ identity: { id: "first" } });
+  const second = createTestPet({ identity: { id: "second" } });
+  const state = createTestGameState(pet, { benchedPets: [first, second] });
+  const result = applyPetDeath(state, 5000);
+
+  expect(result?.state.pet).toBe(first);
+  expect(result?.state.benchedPets).toEqual([second]);
+  expect(result?.state.memorial).toHaveLength(1);
+});
+
+test("applyPetDeath keeps player progress and ends the active battle", () => {
+  const pet = createDyingPet({ satiety: 0, hydration: 0, happiness: 0 });
+  const state = createTestGameState(pet, {
+    player: { currency: { coins: 250 } },
+    activeBattle: {
+      enemySpeciesId: SPECIES.FLORABIT.id,
+      enemyLevel: 1,
+      battleState: initializeBattle(
+        createTestCombatant(),
+        createTestCombatant({ isPlayer: false }),
+        1,
+      ),
+    },
+  });
+  const result = applyPetDeath(state, 5000);
+
+  expect(result?.state.activeBattle).toBeUndefined();
+  expect(result?.state.player).toEqual(state.player);
+  expect(result?.state.quests).toEqual(state.quests);
+});
+
+test("applyPetDeath clears a pending wild encounter", () => {
+  const pet = createDyingPet({ satiety: 0, hydration: 0, happiness: 0 });
+  const state = createTestGameState(pet, {
+    pendingEncounter: {
+      speciesId: SPECIES.FLORABIT.id,
+      level: 1,
+      locationId: "misty_woods",
+      activityId: "forage_misty_woods",
+    },
+  });
+  const result = applyPetDeath(state, 5000);
+
+  expect(result?.state.pendingEncounter).toBeUndefined();
+});
@@ -0,0 +1,115 @@
+/**
+ * Pet death detection and memorial recording.
+ *
+ * Per spec (care.md): When Care Life reaches 0, the pet dies permanently.
+ * The pet is moved to the memorial and any activity it was engaged in
+ * (training, exploration, battle) ends with it. The first benched pet on
+ * the roster then becomes the active pet.
+ */
+
+import { POOP_CARE_LIFE_DRAIN_THRESHOLD } from "@/game/core/care/constants";
+import { toDisplayCare } from "@/game/types/common";
+import type { GameState } from "@/game/types/gameState";
+import { DeathCause, type MemorialEntry } from "@/game/types/memorial";
+import type { Pet } from "@/game/types/pet";
+
+/**
+ * Result of applying a pet death to game state.
+ */
+export interface PetDeathResult {
+  /** Updated game state with the pet removed */
+  state: GameState;
+  /** Memorial entry recorded for the pet */
+  memorialEntry: MemorialEntry;
+}
+
+/**
+ * Check if a pet's Care Life has been depleted.
+ */
+export function isPetDead(pet: Pet): boolean {
+  return pet.careLifeStats.careLife <= 0;
+}
+
+/**
+ * Determine the cause of death from the pet's state when it died.
+ * A single critical care stat names the cause directly; several critical
+ * stats count as general neglect.
+ */
+export function determineDeathCause(pet: Pet): DeathCause {
+  const criticalCauses: DeathCause[] = [];
+  if (toDisplayCare(pet.careStats.satiety) <= 0) {
+    criticalCauses.push(DeathCause.Starvation);
+  }
+  if (toDisplayCare(pet.careStats.hydration) <= 0) {
+    criticalCauses.push(DeathCause.Dehydration);
+  }
+  if (toDisplayCare(pet.careStats.happiness) <= 0) {
+    criticalCauses.push(DeathCause.Heartbreak);
+  }
+
+  if (criticalCauses.length === 1) {
+    return criticalCauses[0] ?? DeathCause.Neglect;
+  }
+  if (
+    criticalCauses.length === 0 &&
+    pet.poop.count >= POOP_CARE_LIFE_DRAIN_THRESHOLD
+  ) {
+    return DeathCause.Filth;
+  }
+  return DeathCause.Neglect;
+}
+
+/**
+ * Create a memorial entry for a pet.
+ */
+export function createMemorialEntry(
+  pet: Pet,
+  cause: DeathCause,
+  deathTime: number,
+): MemorialEntry {
+  return {
+    petId: pet.identity.id,
+    name: pet.identity.name,
+    speciesId: pet.identity.speciesId,
+    stage: pet.growth.stage,
+    ageTicks: pet.growth.ageTicks,
+    birthTime: pet.growth.birthTime,
+    deathTime,
+    cause,
+  };
+}
+
+/**
+ * Apply the pet's death to game state if its Care Life is depleted.
+ * Records the pet in the memorial, replaces it with the first benched pet
+ * (if any), and ends any active battle.
+ * Inventory, currency, skills and quests are kept for the next pet.
+ * Returns null if there is no pet or the pet is still alive.
+ */
+export function applyPetDeath(
+  state: GameState,
+  deathTime: number,
+): PetDeathResult | null {
+  const pet = state.pet;
+  if (!pet || !isPetDead(pet)) {
+    return null;
+  }
+
+  const memorialEntry = createMemorialEntry(
+    pet,
+    determineDeathCause(pet),
+    deathTime,
+  );
+
+  return {
+    state: {
+      ...state,
+      pet: state.benchedPets[0] ?? null,
+      benchedPets: state.benchedPets.slice(1),
+      memorial: [...state.memorial, memorialEntry],
+      activeBattle: undefined,
+      pendingEncounter: undefined,
+    },
+    memorialEntry,
+  };
+}
@@ -10,8 +10,18 @@ import {
   selectChoice,
   startDialogue,
 } from "@/game/core/dialogue";
+import { DIALOGUE_CHOICE_SOCIAL_XP } from "@/game/core/relationships";
+import { MATERIAL_ITEMS } from "@/game/data/items";
+import { DialogueMessages } from "@/game/data/messages";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
+import { ActivityState, GrowthStage } from "@/game/types/constants";
 import type { DialogueState } from "@/game/types/npc";
-import { DialogueNodeType } from "@/game/types/npc";
+import { DialogueActionType, DialogueNodeType } from "@/game/types/npc";
+import { SkillType } from "@/game/types/skill";
 
 // startDialogue tests
 test("startDialogue succeeds with valid NPC", () => {
@@ -146,11 +156,72 @@ test("selectChoice ends when selecting farewell", () => {
     dialogueId: "mira_dialogue",
     currentNodeId: "greeting",
   };
-  const result = selectChoice(state, 2); // "Just passing through. Goodbye!"
+  const result = selectChoice(state, 3); // "Just passing through. Goodbye!"
   expect(result.success).toBe(true);
   expect(result.ended).toBe(true);
 });
 
+test("selectChoice runs the choice's actions and awards Social XP", () => {
+  const state: DialogueState = {
+    npcId: "herbalist_fern",
+    dialogueId: "fern_dialogue",
+    currentNodeId: "greeting",
+  };
+  const gameState = createTestGameState(undefined, {
+    player: {
+      inventory: {
+        items: [
+          {
+            itemId: MATERIAL_ITEMS.HERB.id,
+            quantity: 5,
+            currentDurability: null,
+          },
+        ],
+      },
+      currency: { coins: 0 },
+    },
+  });
+
+  const result = selectChoice(state, 3, gameState); // "I gathered some herbs for you."
+
+  expect(result.success).toBe(true);
+  expect(result.state?.currentNodeId).toBe("herb_delivery");
+  expect(result.actions.map((action) => action.type)).toEqual([
+    DialogueActionType.TakeItem,
+    DialogueActionType.GiveCoins,
+    DialogueActionType.ModifyAffinity,
+  ]);
+  expect(result.gameState?.player.inventory.items).toEqual([]);
+  expect(result.gameState?.player.currency.coins).toBe(40);
+  expect(result.gameState?.player.skills[SkillType.Social].currentXp).toBe(
+    DIALOGUE_CHOICE_SOCIAL_XP,
+  );
+  expect(result.notices).toHaveLength(2);
+});
+
+test("selectChoice stays on the node when an action fails", () => {
+  const state: DialogueState = {
+    npcId: "trainer_blaze",
+    dialogueId: "blaze_dialogue",
+    currentNodeId: "greeting",
+  };
+  const pet = createTestPet({
+    growth: { stage: GrowthStage.Adult },
+    activityState: ActivityState.Sleeping,
+  });
+  const gameState = {
+    ...createTestGameState(pet),
+    combatRecord: { ...createInitialCombatRecord(), wins: 10 },
+  };
+
+  const result = selectChoice(state, 3, gameState); // "Spar with my pet!"
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(DialogueMessages.cannotBattle);
+  expect(result.state).toBe(state);
+  expect(result.gameState).toBeUndefined();
+});
+
 // isTerminalNode tests
 test("isTerminalNode returns true for end node", () => {
   const node = {
@@ -170,6 +241,15 @@ test("isTerminalNode returns true for shop node", () => {
   expect(isTerminalNode(node)).toBe(true);
 });
 
+test("isTerminalNode returns true for crafting node", () => {
+  const node = {
+    id: "forge",
+    type: DialogueNodeType.Crafting,
+    text: "The anvil's yours.",
+  };
+  expect(isTerminalNode(node)).toBe(true);
+});
+
 test("isTerminalNode returns false for message node", () => {
   const node = {
     id: "msg",
@@ -2,12 +2,25 @@
  * Dialogue navigation logic.
  */
 
+import { getCombatRecordValue } from "@/game/core/combatRecord";
+import {
+  applyDialogueActions,
+  getChoiceActions,
+} from "@/game/core/dialogueActions";
 import { getItemQuantity } from "@/game/core/inventory";
 import { areAllRequiredObjectivesComplete } from "@/game/core/quests/objectives";
 import { getQuestState } from "@/game/core/quests/quests";
+import {
+  getAffinity,
+  grantDialogueSocialXp,
+  hasDialogueFlag,
+} from "@/game/core/relationships";
 import { getDialogue } from "@/game/data/dialogues";
+import { DialogueMessages } from "@/game/data/messages";
 import { getNpc } from "@/game/data/npcs";
 import { getQuest } from "@/game/data/quests";
+import { CombatStat } from "@/game/types/combatRecord";
+import { GROWTH_STAGE_ORDER, type GrowthStage } from "@/game/types/constants";
 import type { GameState } from "@/game/types/gameState";
 import {
   type DialogueAction,
@@ -17,6 +30,7 @@ import {
   DialogueNodeType,
   type DialogueState,
 } from "@/game/types/npc";
+import { SkillType } from "@/game/types/skill";
 
 /**
  * Result of starting a dialogue.
@@ -39,6 +53,18 @@ export interface AdvanceDialogueResult {
   ended: boolean;
 }
 
+/**
+ * Result of selecting a dialogue choice.
+ */
+export interface SelectChoiceResult extends AdvanceDialogueResult {
+  /** Actions the choice performed, in order */
+  actions: DialogueAction[];
+  /** Game state after the choice's actions and Social XP (if a game state was given) */
+  gameState?: GameState;
+  /** Messages from the choice's actions and skill level ups */
+  notices: string[];
+}
+
 /**
  * Compare two numbers using the specified comparison operator.
  */
@@ -71,13 +97,16 @@ function compareNumbers(
 
 /**
  * Check if a condition is met.
+ * Affinity conditions without a target check the NPC being spoken to.
  */
 export function checkCondition(
   state: GameState,
   condition: DialogueCondition,
+  npcId?: string,
 ): boolean {
   switch (condition.type) {
     case DialogueConditionType.QuestState: {
+      if (!condition.targetId) return false;
       const questState = getQuestState(state, condition.targetId) || "locked";
       const targetValue = condition.value;
       if (typeof targetValue !== "string") {
@@ -90,6 +119,7 @@ export function checkCondition(
       return false;
     }
     case DialogueConditionType.SkillLevel: {
+      if (!condition.targetId) return false;
       const skill =
         state.player.skills[
           condition.targetId as keyof typeof state.player.skills
@@ -104,6 +134,7 @@ export function checkCondition(
     }
     case DialogueConditionType.HasItem: {
       const itemId = condition.targetId;
+      if (!itemId) return false;
       const quantity = Number(condition.value ?? 1);
       if (Number.isNaN(quantity)) {
         return false;
@@ -117,6 +148,7 @@ export function checkCondition(
     }
     case DialogueConditionType.QuestObjectivesComplete: {
       const questId = condition.targetId;
+      if (!questId) return false;
       const quest = getQuest(questId);
       if (!quest) return false;
 
@@ -132,6 +164,74 @@ export function checkCondition(
 
       return areComplete === targetValue;
     }
+    case DialogueConditionType.CombatRecord: {
+      const targetValue = Number(condition.value ?? 1);
+      if (Number.isNaN(targetValue)) {
+        return false;
+      }
+      return compareNumbers(
+        getCombatRecordValue(state.combatRecord, condition.targetId ?? "any"),
+        targetValue,
+        condition.comparison || "gte",
+      );
+    }
+    case DialogueConditionType.Affinity: {
+      const targetNpcId = condition.targetId ?? npcId;
+      const targetValue = Number(condition.value ?? 0);
+      if (!targetNpcId || Number.isNaN(targetValue)) {
+        return false;
+      }
+      return compareNumbers(
+        getAffinity(state, targetNpcId),
+        targetValue,
+        condition.comparison || "gte",
+      );
+    }
+    case DialogueConditionType.PetGrowthStage: {
+      if (!state.pet) return false;
+      const targetIndex = GROWTH_STAGE_ORDER.indexOf(
+        condition.value as GrowthStage,
+      );
+      if (targetIndex === -1) {
+        return false;
+      }
+      return compareNumbers(
+        GROWTH_STAGE_ORDER.indexOf(state.pet.growth.stage),
+        targetIndex,
+        condition.comparison || "gte",
+      );
+    }
+    case DialogueConditionType.FlagSet: {
+      if (!condition.targetId) return false;
+      const targetValue =
+        condition.value === undefined ? true : !!condition.value;
+      return hasDialogueFlag(state, condition.targetId) === targetValue;
+    }
+    case DialogueConditionType.Coins: {
+      const targetValue = Number(condition.value ?? 0);
+      if (Number.isNaN(targetValue)) {
+        return false;
+      }
+      return compareNumbers(
+        state.player.currency.coins,
+        targetValue,
+        condition.comparison || "gte",
+      );
+    }
+    case DialogueConditionType.BattleWins: {
+      const targetValue = Number(condition.value ?? 1);
+      if (Number.isNaN(targetValue)) {
+        return false;
+      }
+      return compareNumbers(
+        getCombatRecordValue(
+          state.combatRecord,
+          condition.targetId ?? CombatStat.Wins,
+        ),
+        targetValue,
+        condition.comparison || "gte",
+      );
+    }
     default:
       return false;
   }
@@ -219,6 +319,15 @@ export function advanceDialogue(state: DialogueState): AdvanceDialogueResult {
     };
   }
 
+  // For crafting nodes, dialogue ends (crafting interface takes over)
+  if (currentNode.type === DialogueNodeType.Crafting) {
+    return {
+      success: true,
+      message: "Opening crafting.",
+      ended: true,
+    };
+  }
+
   // For choice nodes, cannot advance without selecting
   if (currentNode.type === DialogueNodeType.Choice) {
     return {
@@ -273,18 +382,22 @@ export function advanceDialogue(state: DialogueState): AdvanceDialogueResult {
 
 /**
  * Select a choice in a dialogue (for choice nodes).
+ * With a game state, the choice's actions run against it and the player
+ * earns Social XP; if an action fails, the dialogue stays where it is.
  */
 export function selectChoice(
   state: DialogueState,
   choiceIndex: number,
   gameState?: GameState,
-): AdvanceDialogueResult & { action?: DialogueAction } {
+): SelectChoiceResult {
+  const noEffects = { actions: [], notices: [] };
   const currentNode = getCurrentNode(state);
   if (!currentNode) {
     return {
       success: false,
       message: "Current node not found.",
       ended: true,
+      ...noEffects,
     };
   }
 
@@ -295,6 +408,7 @@ export function selectChoice(
       state,
       node: currentNode,
       ended: false,
+      ...noEffects,
     };
   }
 
@@ -309,6 +423,7 @@ export function selectChoice(
       state,
       node: currentNode,
       ended: false,
+      ...noEffects,
     };
   }
 
@@ -321,6 +436,7 @@ export function selectChoice(
       state,
       node: currentNode,
       ended: false,
+      ...noEffects,
     };
   }
 
@@ -336,10 +452,11 @@ export function selectChoice(
         state,
         node: currentNode,
         ended: false,
+        ...noEffects,
       };
     }
     const conditionsMet = choice.conditions.every((condition) =>
-      checkCondition(gameState, condition),
+      checkCondition(gameState, condition, state.npcId),
     );
     if (!conditionsMet) {
       return {
@@ -348,6 +465,7 @@ export function selectChoice(
         state,
         node: currentNode,
         ended: false,
+        ...noEffects,
       };
     }
   }
@@ -359,18 +477,44 @@ export function selectChoice(
       success: false,
       message: "Next node not found.",
       ended: true,
+      ...noEffects,
     };
   }
 
+  const actions = getChoiceActions(choice);
+  let updatedGameState: GameState | undefined;
+  const notices: string[] = [];
+  if (gameState) {
+    const actionResult = applyDialogueActions(gameState, actions, state.npcId);
+    if (!actionResult.success) {
+      return {
+        success: false,
+        message: actionResult.messages.join(" "),
+        state,
+        node: currentNode,
+        ended: false,
+        ...noEffects,
+      };
+    }
+    const socialResult = grantDialogueSocialXp(actionResult.state, state.npcId);
+    updatedGameState = socialResult.state;
+    notices.push(...actionResult.messages);
+    if (socialResult.leveledUp) {
+      notices.push(
+        DialogueMessages.socialLevelUp(
+          updatedGameState.player.skills[SkillType.Social].level,
+        ),
+      );
+    }
+  }
+
   const newState: DialogueState = {
     ...state,
     currentNodeId: choice.nextNodeId,
   };
 
-  // Check if the next node is an end or shop node
-  const ended =
-    nextNode.type === DialogueNodeType.End ||
-    nextNode.type === DialogueNodeType.Shop;
+  // Check if the next node is a terminal node
+  const ended = isTerminalNode(nextNode);
 
   return {
     success: true,
@@ -378,15 +522,19 @@ export function selectChoice(
     state: newState,
     node: nextNode,
     ended,
-    action: choice.action,
+    actions,
+    gameState: updatedGameState,
+    notices,
   };
 }
 
 /**
- * Check if a node is a terminal node (end or shop).
+ * Check if a node is a terminal node (end, shop or crafting).
  */
 export function isTerminalNode(node: DialogueNode): boolean {
   return (
-    node.type === DialogueNodeType.End || node.type === DialogueNodeType.Shop
+    node.type === DialogueNodeType.End ||
+    node.type === DialogueNodeType.Shop ||
+    node.type === DialogueNodeType.Crafting
   );
 }
@@ -0,0 +1,201 @@
+/**
+ * Tests for dialogue choice actions.
+ */
+
+import { expect, test } from "bun:test";
+import { getItemQuantity } from "@/game/core/inventory";
+import { FOOD_ITEMS, MATERIAL_ITEMS } from "@/game/data/items";
+import { DialogueMessages } from "@/game/data/messages";
+import { tutorialFirstSteps } from "@/game/data/quests/tutorial";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import { ActivityState } from "@/game/types/constants";
+import { DialogueActionType } from "@/game/types/npc";
+import { QuestState } from "@/game/types/quest";
+import { applyDialogueAction, applyDialogueActions } from "./dialogueActions";
+import { getAffinity, hasDialogueFlag } from "./relationships";
+
+const FERN = "herbalist_fern";
+
+function createStateWithHerbs(quantity: number) {
+  return createTestGameState(undefined, {
+    player: {
+      inventory: {
+        items: [
+          {
+            itemId: MATERIAL_ITEMS.HERB.id,
+            quantity,
+            currentDurability: null,
+          },
+        ],
+      },
+      currency: { coins: 10 },
+    },
+  });
+}
+
+test("GiveItem adds the item to the inventory", () => {
+  const result = applyDialogueAction(
+    createTestGameState(),
+    {
+      type: DialogueActionType.GiveItem,
+      targetId: FOOD_ITEMS.CAKE.id,
+      value: 2,
+    },
+    FERN,
+  );
+
+  expect(result.success).toBe(true);
+  expect(
+    getItemQuantity(result.state.player.inventory, FOOD_ITEMS.CAKE.id),
+  ).toBe(2);
+  expect(result.messages).toEqual([
+    DialogueMessages.receivedItem(2, FOOD_ITEMS.CAKE.name),
+  ]);
+});
+
+test("TakeItem removes the item and fails without enough of it", () => {
+  const action = {
+    type: DialogueActionType.TakeItem,
+    targetId: MATERIAL_ITEMS.HERB.id,
+    value: 3,
+  };
+
+  const taken = applyDialogueAction(createStateWithHerbs(5), action, FERN);
+  expect(taken.success).toBe(true);
+  expect(
+    getItemQuantity(taken.state.player.inventory, MATERIAL_ITEMS.HERB.id),
+  ).toBe(2);
+
+  const state = createStateWithHerbs(2);
+  const missing = applyDialogueAction(state, action, FERN);
+  expect(missing.success).toBe(false);
+  expect(missing.state).toBe(state);
+  expect(missing.messages).toEqual([
+    DialogueMessages.notEnoughItems(3, MATERIAL_ITEMS.HERB.name),
+  ]);
+});
+
+test("GiveCoins adds coins", () => {
+  const result = applyDialogueAction(
+    createStateWithHerbs(0),
+    { type: DialogueActionType.GiveCoins, value: 40 },
+    FERN,
+  );
+
+  expect(result.state.player.currency.coins).toBe(50);
+});
+
+test("ModifyAffinity changes affinity with the current NPC by default", () => {
+  const state = createTestGameState();
+
+  const current = applyDialogueAction(
+    state,
+    { type: DialogueActionType.ModifyAffinity, value: 5 },
+    FERN,
+  );
+  const other = applyDialogueAction(
+    state,
+    {
+      type: DialogueActionType.ModifyAffinity,
+      targetId: "shopkeeper_mira",
+      value: 5,
+    },
+    FERN,
+  );
+
+  expect(getAffinity(current.state, FERN)).toBe(5);
+  expect(getAffinity(other.state, "shopkeeper_mira")).toBe(5);
+  expect(getAffinity(other.state, FERN)).toBe(0);
+});
+
+test("SetFlag sets a dialogue flag", () => {
+  const result = applyDialogueAction(
+    createTestGameState(),
+    { type: DialogueActionType.SetFlag, targetId: "fern_thanked" },
+    FERN,
+  );
+
+  expect(hasDialogueFlag(result.state, "fern_thanked")).toBe(true);
+});
+
+test("StartQuest starts the quest", () => {
+  const result = applyDialogueAction(
+    createTestGameState(),
+    { type: DialogueActionType.StartQuest, targetId: tutorialFirstSteps.id },
+    "trainer_oak",
+  );
+
+  expect(result.success).toBe(true);
+  expect(result.state.quests[0]?.state).toBe(QuestState.Active);
+});
+
+test("StartBattle starts a battle when the pet can fight", () => {
+  const state = createTestGameState();
+  const action = {
+    type: DialogueActionType.StartBattle,
+    targetId: "emberfox",
+    value: 5,
+  };
+
+  const result = applyDialogueAction(state, action, "trainer_blaze");
+  expect(result.success).toBe(true);
+  expect(result.state.activeBattle?.enemySpeciesId).toBe("emberfox");
+  expect(result.state.activeBattle?.enemyLevel).toBe(5);
+
+  const busy = {
+    ...state,
+    pet: state.pet && {
+      ...state.pet,
+      activityState: ActivityState.Sleeping,
+    },
+  };
+  expect(applyDialogueAction(busy, action, "trainer_blaze")).toEqual({
+    success: false,
+    state: busy,
+    messages: [DialogueMessages.cannotBattle],
+  });
+});
+
+test("Travel moves the player to the location", () => {
+  const state = createTestGameState(undefined, {
+    player: { currentLocationId: "willowbrook" },
+  });
+
+  const result = applyDialogueAction(
+    state,
+    { type: DialogueActionType.Travel, targetId: "home" },
+    "shopkeeper_mira",
+  );
+
+  expect(result.success).toBe(true);
+  expect(result.state.player.currentLocationId).toBe("home");
+});
+
+test("OpenShop leaves the game state unchanged", () => {
+  const state = createTestGameState();
+
+  expect(
+    applyDialogueAction(state, { type: DialogueActionType.OpenShop }, FERN),
+  ).toEqual({ success: true, state, messages: [] });
+});
+
+test("applyDialogueActions runs every action or none of them", () => {
+  const actions = [
+    { type: DialogueActionType.GiveCoins, value: 40 },
+    {
+      type: DialogueActionType.TakeItem,
+      targetId: MATERIAL_ITEMS.HERB.id,
+      value: 5,
+    },
+  ];
+
+  const done = applyDialogueActions(createStateWithHerbs(5), actions, FERN);
+  expect(done.success).toBe(true);
+  expect(done.state.player.currency.coins).toBe(50);
+  expect(done.messages).toHaveLength(2);
+
+  const state = createStateWithHerbs(1);
+  const failed = applyDialogueActions(state, actions, FERN);
+  expect(failed.success).toBe(false);
+  expect(failed.state).toBe(state);
+});
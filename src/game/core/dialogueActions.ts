@@ -0,0 +1,173 @@
+/**
+ * Dialogue choice actions.
+ *
+ * Actions run purely against the game state. Opening a shop has no effect
+ * on the state; the dialogue UI takes over once the choice succeeds.
+ */
+
+import { startBattle } from "@/game/core/battle/battleLifecycle";
+import { getItemQuantity, removeItem } from "@/game/core/inventory";
+import { completeQuest, startQuest } from "@/game/core/quests/quests";
+import { modifyAffinity, setDialogueFlag } from "@/game/core/relationships";
+import { addCoins } from "@/game/core/shop";
+import { describeItemOverflow, receiveItem } from "@/game/core/storage";
+import { travelTo } from "@/game/core/travel";
+import { getItemById } from "@/game/data/items";
+import { DialogueMessages } from "@/game/data/messages";
+import type { GameState } from "@/game/types/gameState";
+import {
+  type DialogueAction,
+  DialogueActionType,
+  type DialogueChoice,
+} from "@/game/types/npc";
+
+/**
+ * Default enemy level for battles started from dialogue.
+ */
+const DEFAULT_DIALOGUE_BATTLE_LEVEL = 1;
+
+/**
+ * Result of running dialogue actions.
+ */
+export interface DialogueActionResult {
+  success: boolean;
+  state: GameState;
+  /** Messages for the player, empty for silent actions */
+  messages: string[];
+}
+
+/**
+ * Get every action a choice performs, in order.
+ */
+export function getChoiceActions(choice: DialogueChoice): DialogueAction[] {
+  return [...(choice.action ? [choice.action] : []), ...(choice.actions ?? [])];
+}
+
+function succeed(state: GameState, message?: string): DialogueActionResult {
+  return { success: true, state, messages: message ? [message] : [] };
+}
+
+function fail(state: GameState, message: string): DialogueActionResult {
+  return { success: false, state, messages: [message] };
+}
+
+/**
+ * Run a single dialogue action for a conversation with an NPC.
+ */
+export function applyDialogueAction(
+  state: GameState,
+  action: DialogueAction,
+  npcId: string,
+): DialogueActionResult {
+  const targetId = action.targetId;
+
+  switch (action.type) {
+    case DialogueActionType.StartQuest:
+    case DialogueActionType.CompleteQuest: {
+      if (!targetId) return fail(state, DialogueMessages.invalidAction);
+      const questAction =
+        action.type === DialogueActionType.StartQuest
+          ? startQuest
+          : completeQuest;
+      const result = questAction(state, targetId);
+      return result.success
+        ? succeed(result.state)
+        : fail(state, result.message);
+    }
+    case DialogueActionType.GiveItem: {
+      const item = targetId ? getItemById(targetId) : undefined;
+      if (!item) return fail(state, DialogueMessages.invalidAction);
+      const quantity = action.value ?? 1;
+      const received = receiveItem(state, item.id, quantity);
+      const overflow = describeItemOverflow(item.id, received);
+      return succeed(
+        received.state,
+        [DialogueMessages.receivedItem(quantity, item.name), overflow]
+          .filter(Boolean)
+          .join(" "),
+      );
+    }
+    case DialogueActionType.TakeItem: {
+      const item = targetId ? getItemById(targetId) : undefined;
+      if (!item) return fail(state, DialogueMessages.invalidAction);
+      const quantity = action.value ?? 1;
+      if (getItemQuantity(state.player.inventory, item.id) < quantity) {
+        return fail(
+          state,
+          DialogueMessages.notEnoughItems(quantity, item.name),
+        );
+      }
+      return succeed(
+        {
+          ...state,
+          player: {
+            ...state.player,
+            inventory: removeItem(state.player.inventory, item.id, quantity),
+          },
+        },
+        DialogueMessages.handedOverItem(quantity, item.name),
+      );
+    }
+    case DialogueActionType.GiveCoins: {
+      const amount = action.value ?? 0;
+      if (amount <= 0) return fail(state, DialogueMessages.invalidAction);
+      return succeed(
+        addCoins(state, amount),
+        DialogueMessages.receivedCoins(amount),
+      );
+    }
+    case DialogueActionType.ModifyAffinity:
+      return succeed(
+        modifyAffinity(state, targetId ?? npcId, action.value ?? 0),
+      );
+    case DialogueActionType.SetFlag:
+      if (!targetId) return fail(state, DialogueMessages.invalidAction);
+      return succeed(setDialogueFlag(state, targetId));
+    case DialogueActionType.OpenShop:
+      return succeed(state);
+    case DialogueActionType.StartBattle: {
+      if (!targetId) return fail(state, DialogueMessages.invalidAction);
+      const battleState = startBattle(
+        state,
+        targetId,
+        action.value ?? DEFAULT_DIALOGUE_BATTLE_LEVEL,
+      );
+      return battleState === state
+        ? fail(state, DialogueMessages.cannotBattle)
+        : succeed(battleState);
+    }
+    case DialogueActionType.Travel: {
+      if (!targetId) return fail(state, DialogueMessages.invalidAction);
+      const result = travelTo(state, targetId);
+      return result.success
+        ? succeed(result.state, result.message)
+        : fail(state, result.message);
+    }
+    default: {
+      const _exhaustiveCheck: never = action.type;
+      return _exhaustiveCheck;
+    }
+  }
+}
+
+/**
+ * Run a list of dialogue actions in order. If any action fails, none of
+ * them take effect.
+ */
+export function applyDialogueActions(
+  state: GameState,
+  actions: DialogueAction[],
+  npcId: string,
+): DialogueActionResult {
+  let current = state;
+  const messages: string[] = [];
+  for (const action of actions) {
+    const result = applyDialogueAction(current, action, npcId);
+    if (!result.success) {
+      return { success: false, state, messages: result.messages };
+    }
+    current = result.state;
+    messages.push(...result.messages);
+  }
+  return { success: true, state: current, messages };
+}
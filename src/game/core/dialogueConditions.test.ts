@@ -2,10 +2,20 @@ import { describe, expect, test } from "bun:test";
 import { addItem } from "@/game/core/inventory";
 import { FOOD_ITEMS } from "@/game/data/items";
 import { tutorialFirstSteps } from "@/game/data/quests/tutorial";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import {
+  CombatStat,
+  createInitialCombatRecord,
+} from "@/game/types/combatRecord";
+import { GrowthStage } from "@/game/types/constants";
 import { createInitialGameState } from "@/game/types/gameState";
 import { DialogueConditionType } from "@/game/types/npc";
 import { createQuestProgress, QuestState } from "@/game/types/quest";
 import { checkCondition } from "./dialogue";
+import { modifyAffinity, setDialogueFlag } from "./relationships";
 
 describe("Dialogue Logic", () => {
   test("checkCondition should return true for QuestState condition when met", () => {
@@ -43,6 +53,25 @@ describe("Dialogue Logic", () => {
     expect(checkCondition(state, condition)).toBe(false);
   });
 
+  test("checkCondition should compare CombatRecord stats", () => {
+    const state = {
+      ...createInitialGameState(),
+      combatRecord: { ...createInitialCombatRecord(), bestWinStreak: 3 },
+    };
+
+    const condition = {
+      type: DialogueConditionType.CombatRecord,
+      targetId: CombatStat.BestWinStreak,
+      value: 3,
+    };
+
+    expect(checkCondition(state, condition)).toBe(true);
+    expect(checkCondition(state, { ...condition, value: 4 })).toBe(false);
+    expect(checkCondition(state, { ...condition, comparison: "lt" })).toBe(
+      false,
+    );
+  });
+
   test("checkCondition should return false for QuestState with invalid value type", () => {
     const state = createInitialGameState();
 
@@ -247,3 +276,127 @@ describe("Dialogue Logic", () => {
     expect(checkCondition(state, condition)).toBe(false);
   });
 });
+
+describe("relationship and progress conditions", () => {
+  test("Affinity checks the current NPC unless a target is given", () => {
+    const state = modifyAffinity(createTestGameState(), "shopkeeper_mira", 30);
+    const friend = {
+      type: DialogueConditionType.Affinity,
+      value: 30,
+    };
+
+    expect(checkCondition(state, friend, "shopkeeper_mira")).toBe(true);
+    expect(checkCondition(state, friend, "trainer_oak")).toBe(false);
+    expect(
+      checkCondition(
+        state,
+        { ...friend, targetId: "shopkeeper_mira" },
+        "trainer_oak",
+      ),
+    ).toBe(true);
+    expect(checkCondition(state, friend)).toBe(false);
+  });
+
+  test("PetGrowthStage compares stages in growth order", () => {
+    const state = createTestGameState(
+      createTestPet({ growth: { stage: GrowthStage.Teen } }),
+    );
+
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.PetGrowthStage,
+        value: GrowthStage.Child,
+      }),
+    ).toBe(true);
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.PetGrowthStage,
+        value: GrowthStage.Adult,
+      }),
+    ).toBe(false);
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.PetGrowthStage,
+        value: GrowthStage.Teen,
+        comparison: "eq",
+      }),
+    ).toBe(true);
+    expect(
+      checkCondition(createTestGameState(null), {
+        type: DialogueConditionType.PetGrowthStage,
+        value: GrowthStage.Baby,
+      }),
+    ).toBe(false);
+  });
+
+  test("FlagSet checks whether a dialogue flag is set", () => {
+    const state = setDialogueFlag(createTestGameState(), "met_mira");
+
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.FlagSet,
+        targetId: "met_mira",
+      }),
+    ).toBe(true);
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.FlagSet,
+        targetId: "met_mira",
+        value: false,
+      }),
+    ).toBe(false);
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.FlagSet,
+        targetId: "met_oak",
+        value: false,
+      }),
+    ).toBe(true);
+  });
+
+  test("Coins compares against the player's coins", () => {
+    const state = createTestGameState(undefined, {
+      player: { currency: { coins: 100 } },
+    });
+
+    expect(
+      checkCondition(state, { type: DialogueConditionType.Coins, value: 100 }),
+    ).toBe(true);
+    expect(
+      checkCondition(state, { type: DialogueConditionType.Coins, value: 101 }),
+    ).toBe(false);
+  });
+
+  test("BattleWins counts total wins or wins against a species", () => {
+    const state = {
+      ...createTestGameState(),
+      combatRecord: {
+        ...createInitialCombatRecord(),
+        wins: 12,
+        bySpecies: { emberfox: { wins: 3, losses: 0 } },
+      },
+    };
+
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.BattleWins,
+        value: 10,
+      }),
+    ).toBe(true);
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.BattleWins,
+        targetId: "emberfox",
+        value: 5,
+      }),
+    ).toBe(false);
+    expect(
+      checkCondition(state, {
+        type: DialogueConditionType.BattleWins,
+        targetId: CombatStat.Wins,
+        value: 12,
+        comparison: "eq",
+      }),
+    ).toBe(true);
+  });
+});
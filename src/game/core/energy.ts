@@ -4,6 +4,7 @@
 
 import {
   ENERGY_REGEN_AWAKE,
+  ENERGY_REGEN_INN,
   ENERGY_REGEN_SLEEPING,
 } from "@/game/core/care/constants";
 import type { MicroValue } from "@/game/types/common";
@@ -27,3 +28,14 @@ export function applyEnergyRegen(
   const regenRate = getEnergyRegenRate(isSleeping);
   return Math.min(maxEnergy, currentEnergy + regenRate);
 }
+
+/**
+ * Calculate new energy value after regeneration during an inn stay.
+ * Clamps to maxEnergy.
+ */
+export function applyInnEnergyRegen(
+  currentEnergy: MicroValue,
+  maxEnergy: MicroValue,
+): MicroValue {
+  return Math.min(maxEnergy, currentEnergy + ENERGY_REGEN_INN);
+}
@@ -0,0 +1,207 @@
+/**
+ * Tests for equipment logic.
+ */
+
+import { expect, test } from "bun:test";
+import { EQUIPMENT_ITEMS } from "@/game/data/items/equipment";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { ActivityState } from "@/game/types/constants";
+import type { InventoryItem } from "@/game/types/gameState";
+import type { PetEquipment } from "@/game/types/pet";
+import {
+  calculateEquipmentStatBonuses,
+  degradeEquipment,
+  equipItem,
+  getEquipmentEffectTotal,
+  unequipItem,
+} from "./equipment";
+
+function createInventoryItem(
+  itemId: string,
+  currentDurability: number | null,
+): InventoryItem {
+  return { itemId, quantity: 1, currentDurability };
+}
+
+function createEquippedPet(equipment: Partial<PetEquipment>) {
+  return createTestPet({
+    equipment: { accessory: null, charm: null, ...equipment },
+  });
+}
+
+// calculateEquipmentStatBonuses tests
+test("calculateEquipmentStatBonuses sums bonuses across slots", () => {
+  const bonuses = calculateEquipmentStatBonuses({
+    accessory: { itemId: EQUIPMENT_ITEMS.IRON_BANGLE.id, currentDurability: 5 },
+    charm: {
+      itemId: EQUIPMENT_ITEMS.GUARDIANS_PENDANT.id,
+      currentDurability: 5,
+    },
+  });
+  expect(bonuses).toEqual({
+    strength: 3,
+    endurance: 2,
+    agility: 0,
+    precision: 0,
+    fortitude: 2,
+    cunning: 0,
+  });
+});
+
+// getEquipmentEffectTotal tests
+test("getEquipmentEffectTotal returns the matching special effect value", () => {
+  const pet = createEquippedPet({
+    accessory: {
+      itemId: EQUIPMENT_ITEMS.TRAINING_COLLAR.id,
+      currentDurability: 5,
+    },
+  });
+  expect(getEquipmentEffectTotal(pet, "trainingBonus")).toBe(10);
+  expect(getEquipmentEffectTotal(pet, "critRate")).toBe(0);
+});
+
+// equipItem tests
+test("equipItem moves the item onto the pet and adds its stat bonuses", () => {
+  const pet = createTestPet();
+  const state = createTestGameState(pet, {
+    player: {
+      inventory: {
+        items: [createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 12)],
+      },
+    },
+  });
+
+  const result = equipItem(state, 0);
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet?.equipment.accessory).toEqual({
+    itemId: EQUIPMENT_ITEMS.IRON_BANGLE.id,
+    currentDurability: 12,
+  });
+  expect(result.state.pet?.battleStats.strength).toBe(
+    pet.battleStats.strength + 3,
+  );
+  expect(result.state.player.inventory.items).toHaveLength(0);
+});
+
+test("equipItem swaps out the item already in the slot", () => {
+  const pet = createTestPet();
+  const state = createTestGameState(pet, {
+    player: {
+      inventory: {
+        items: [
+          createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 40),
+          createInventoryItem(EQUIPMENT_ITEMS.SWIFT_ANKLET.id, 35),
+        ],
+      },
+    },
+  });
+
+  const first = equipItem(state, 0);
+  const second = equipItem(first.state, 0);
+
+  expect(second.success).toBe(true);
+  expect(second.state.pet?.equipment.accessory?.itemId).toBe(
+    EQUIPMENT_ITEMS.SWIFT_ANKLET.id,
+  );
+  expect(second.state.pet?.battleStats.strength).toBe(pet.battleStats.strength);
+  expect(second.state.pet?.battleStats.agility).toBe(
+    pet.battleStats.agility + 4,
+  );
+  expect(second.state.player.inventory.items).toEqual([
+    createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 40),
+  ]);
+});
+
+test("equipItem fails for non-equipment items", () => {
+  const state = createTestGameState(createTestPet(), {
+    player: {
+      inventory: { items: [createInventoryItem("food_apple", null)] },
+    },
+  });
+  const result = equipItem(state, 0);
+  expect(result.success).toBe(false);
+  expect(result.state).toBe(state);
+});
+
+test("equipItem fails during battle", () => {
+  const state = createTestGameState(
+    createTestPet({ activityState: ActivityState.Battling }),
+    {
+      player: {
+        inventory: {
+          items: [createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 40)],
+        },
+      },
+    },
+  );
+  expect(equipItem(state, 0).success).toBe(false);
+});
+
+// unequipItem tests
+test("unequipItem returns the item to inventory with its durability", () => {
+  const pet = createTestPet();
+  const state = createTestGameState(pet, {
+    player: {
+      inventory: {
+        items: [createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 7)],
+      },
+    },
+  });
+
+  const equipped = equipItem(state, 0);
+  const result = unequipItem(equipped.state, "accessory");
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet?.equipment.accessory).toBeNull();
+  expect(result.state.pet?.battleStats).toEqual(pet.battleStats);
+  expect(result.state.player.inventory.items).toEqual([
+    createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 7),
+  ]);
+});
+
+test("unequipItem fails for an empty slot", () => {
+  const result = unequipItem(createTestGameState(), "charm");
+  expect(result.success).toBe(false);
+});
+
+// degradeEquipment tests
+test("degradeEquipment reduces durability only for the matching activity", () => {
+  const pet = createEquippedPet({
+    accessory: { itemId: EQUIPMENT_ITEMS.IRON_BANGLE.id, currentDurability: 5 },
+    charm: { itemId: EQUIPMENT_ITEMS.LUCKY_CHARM.id, currentDurability: 5 },
+  });
+
+  const result = degradeEquipment(pet, "battle");
+
+  expect(result.brokenItemIds).toEqual([]);
+  expect(result.pet.equipment.accessory?.currentDurability).toBe(4);
+  expect(result.pet.equipment.charm?.currentDurability).toBe(5);
+});
+
+test("degradeEquipment breaks items at 0 durability and removes their bonuses", () => {
+  const pet = createTestPet();
+  const state = createTestGameState(pet, {
+    player: {
+      inventory: {
+        items: [createInventoryItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 1)],
+      },
+    },
+  });
+  const equippedPet = equipItem(state, 0).state.pet;
+  if (!equippedPet) throw new Error("Expected pet");
+
+  const result = degradeEquipment(equippedPet, "battle");
+
+  expect(result.brokenItemIds).toEqual([EQUIPMENT_ITEMS.IRON_BANGLE.id]);
+  expect(result.pet.equipment.accessory).toBeNull();
+  expect(result.pet.battleStats).toEqual(pet.battleStats);
+});
+
+test("degradeEquipment returns the same pet when nothing is worn", () => {
+  const pet = createTestPet();
+  expect(degradeEquipment(pet, "training").pet).toBe(pet);
+});
@@ -0,0 +1,283 @@
+/**
+ * Equipment logic: equipping items, stat bonuses, special effects and durability.
+ *
+ * Equipped items are moved out of the inventory onto the pet. Their stat
+ * bonuses are folded into the pet's total battle stats while worn, and their
+ * durability drops each time the matching activity completes.
+ */
+
+import {
+  addItem,
+  CARRIED_INVENTORY_CAPACITY,
+  canAddItem,
+} from "@/game/core/inventory";
+import { getItemById } from "@/game/data/items";
+import { EquipmentMessages } from "@/game/data/messages";
+import { ActivityState } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+import {
+  type EquipmentItem,
+  type EquipmentSlot,
+  type EquipmentSpecialEffect,
+  isEquipmentItem,
+} from "@/game/types/item";
+import type { EquippedItem, Pet, PetEquipment } from "@/game/types/pet";
+import type { BattleStats } from "@/game/types/stats";
+
+/**
+ * Result of changing equipment.
+ */
+export interface EquipmentChangeResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Result of degrading equipment after an activity.
+ */
+export interface DegradeEquipmentResult {
+  /** Updated pet with durability reduced and broken items removed */
+  pet: Pet;
+  /** IDs of items that broke */
+  brokenItemIds: string[];
+}
+
+/**
+ * Equipment slots in display order.
+ */
+export const EQUIPMENT_SLOTS: readonly EquipmentSlot[] = ["accessory", "charm"];
+
+/**
+ * Create empty equipment slots for a new pet.
+ */
+export function createDefaultPetEquipment(): PetEquipment {
+  return {
+    accessory: null,
+    charm: null,
+  };
+}
+
+/**
+ * Get the item definitions for the pet's equipped items.
+ * Unknown item IDs are skipped.
+ */
+export function getEquippedItems(equipment: PetEquipment): EquipmentItem[] {
+  const items: EquipmentItem[] = [];
+  for (const slot of EQUIPMENT_SLOTS) {
+    const equipped = equipment[slot];
+    const itemDef = equipped ? getItemById(equipped.itemId) : undefined;
+    if (itemDef && isEquipmentItem(itemDef)) {
+      items.push(itemDef);
+    }
+  }
+  return items;
+}
+
+/**
+ * Sum the stat bonuses of all equipped items.
+ */
+export function calculateEquipmentStatBonuses(
+  equipment: PetEquipment,
+): BattleStats {
+  const bonuses: BattleStats = {
+    strength: 0,
+    endurance: 0,
+    agility: 0,
+    precision: 0,
+    fortitude: 0,
+    cunning: 0,
+  };
+
+  for (const item of getEquippedItems(equipment)) {
+    for (const [stat, value] of Object.entries(item.statBonuses)) {
+      bonuses[stat as keyof BattleStats] += value ?? 0;
+    }
+  }
+
+  return bonuses;
+}
+
+/**
+ * Get the total value (percentage) of a special effect across equipped items.
+ */
+export function getEquipmentEffectTotal(
+  pet: Pet,
+  effectType: EquipmentSpecialEffect["type"],
+): number {
+  let total = 0;
+  for (const item of getEquippedItems(pet.equipment)) {
+    for (const effect of item.specialEffects ?? []) {
+      if (effect.type === effectType) {
+        total += effect.value;
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Replace the pet's equipment, moving its total battle stats by the
+ * difference in equipment stat bonuses.
+ */
+function withEquipment(pet: Pet, equipment: PetEquipment): Pet {
+  const oldBonuses = calculateEquipmentStatBonuses(pet.equipment);
+  const newBonuses = calculateEquipmentStatBonuses(equipment);
+  const battleStats = { ...pet.battleStats };
+  for (const stat of Object.keys(battleStats) as (keyof BattleStats)[]) {
+    battleStats[stat] += newBonuses[stat] - oldBonuses[stat];
+  }
+  return { ...pet, equipment, battleStats };
+}
+
+/**
+ * Equip an item from the inventory.
+ * Any item already in the slot is returned to the inventory.
+ *
+ * @param inventoryIndex - Index of the item in the inventory
+ */
+export function equipItem(
+  state: GameState,
+  inventoryIndex: number,
+): EquipmentChangeResult {
+  const pet = state.pet;
+  if (!pet) {
+    return { success: false, state, message: EquipmentMessages.noPet };
+  }
+
+  if (pet.activityState === ActivityState.Battling) {
+    return { success: false, state, message: EquipmentMessages.inBattle };
+  }
+
+  const invItem = state.player.inventory.items[inventoryIndex];
+  if (!invItem) {
+    return { success: false, state, message: EquipmentMessages.itemNotFound };
+  }
+
+  const itemDef = getItemById(invItem.itemId);
+  if (!itemDef || !isEquipmentItem(itemDef)) {
+    return { success: false, state, message: EquipmentMessages.notEquipment };
+  }
+
+  const previous = pet.equipment[itemDef.slot];
+  let inventory = {
+    items: state.player.inventory.items.filter((_, i) => i !== inventoryIndex),
+  };
+  if (previous) {
+    inventory = addItem(
+      inventory,
+      previous.itemId,
+      1,
+      previous.currentDurability,
+    );
+  }
+
+  const equipped: EquippedItem = {
+    itemId: itemDef.id,
+    currentDurability: invItem.currentDurability ?? itemDef.maxDurability,
+  };
+
+  return {
+    success: true,
+    state: {
+      ...state,
+      pet: withEquipment(pet, { ...pet.equipment, [itemDef.slot]: equipped }),
+      player: { ...state.player, inventory },
+    },
+    message: EquipmentMessages.equipped(itemDef.name),
+  };
+}
+
+/**
+ * Unequip the item in a slot and return it to the inventory.
+ */
+export function unequipItem(
+  state: GameState,
+  slot: EquipmentSlot,
+): EquipmentChangeResult {
+  const pet = state.pet;
+  if (!pet) {
+    return { success: false, state, message: EquipmentMessages.noPet };
+  }
+
+  if (pet.activityState === ActivityState.Battling) {
+    return { success: false, state, message: EquipmentMessages.inBattle };
+  }
+
+  const equipped = pet.equipment[slot];
+  if (!equipped) {
+    return { success: false, state, message: EquipmentMessages.slotEmpty };
+  }
+
+  if (
+    !canAddItem(
+      state.player.inventory,
+      equipped.itemId,
+      1,
+      CARRIED_INVENTORY_CAPACITY,
+    )
+  ) {
+    return { success: false, state, message: EquipmentMessages.inventoryFull };
+  }
+
+  return {
+    success: true,
+    state: {
+      ...state,
+      pet: withEquipment(pet, { ...pet.equipment, [slot]: null }),
+      player: {
+        ...state.player,
+        inventory: addItem(
+          state.player.inventory,
+          equipped.itemId,
+          1,
+          equipped.currentDurability,
+        ),
+      },
+    },
+    message: EquipmentMessages.unequipped(
+      getItemById(equipped.itemId)?.name ?? equipped.itemId,
+    ),
+  };
+}
+
+/**
+ * Reduce the durability of equipped items degraded by a completed activity.
+ * Items that reach 0 durability break and are removed.
+ */
+export function degradeEquipment(
+  pet: Pet,
+  activity: EquipmentItem["degradeActivity"],
+): DegradeEquipmentResult {
+  const equipment: PetEquipment = { ...pet.equipment };
+  const brokenItemIds: string[] = [];
+  let changed = false;
+
+  for (const slot of EQUIPMENT_SLOTS) {
+    const equipped = equipment[slot];
+    const itemDef = equipped ? getItemById(equipped.itemId) : undefined;
+    if (
+      !equipped ||
+      !itemDef ||
+      !isEquipmentItem(itemDef) ||
+      itemDef.degradeActivity !== activity
+    ) {
+      continue;
+    }
+
+    changed = true;
+    const currentDurability = equipped.currentDurability - 1;
+    if (currentDurability <= 0) {
+      equipment[slot] = null;
+      brokenItemIds.push(equipped.itemId);
+    } else {
+      equipment[slot] = { ...equipped, currentDurability };
+    }
+  }
+
+  if (!changed) {
+    return { pet, brokenItemIds };
+  }
+
+  return { pet: withEquipment(pet, equipment), brokenItemIds };
+}
@@ -0,0 +1,46 @@
+/**
+ * Tests for exhaustion after battle defeat.
+ */
+
+import { expect, test } from "bun:test";
+import { createTestPet } from "@/game/testing/createTestPet";
+import {
+  applyExhaustion,
+  EXHAUSTION_DURATION_TICKS,
+  EXHAUSTION_RECOVERY_SLEEPING,
+  isExhausted,
+  processExhaustionTick,
+} from "./exhaustion";
+
+test("isExhausted is false for a rested pet", () => {
+  expect(isExhausted(createTestPet())).toBe(false);
+});
+
+test("applyExhaustion exhausts the pet for the full duration", () => {
+  const pet = applyExhaustion(createTestPet());
+
+  expect(isExhausted(pet)).toBe(true);
+  expect(pet.exhaustionTicks).toBe(EXHAUSTION_DURATION_TICKS);
+});
+
+test("applyExhaustion restarts the countdown instead of stacking", () => {
+  const pet = applyExhaustion(createTestPet({ exhaustionTicks: 10 }));
+
+  expect(pet.exhaustionTicks).toBe(EXHAUSTION_DURATION_TICKS);
+});
+
+test("processExhaustionTick counts down while awake", () => {
+  expect(processExhaustionTick(10, false)).toBe(9);
+});
+
+test("processExhaustionTick recovers faster while sleeping", () => {
+  expect(processExhaustionTick(10, true)).toBe(
+    10 - EXHAUSTION_RECOVERY_SLEEPING,
+  );
+});
+
+test("processExhaustionTick clears exhaustion once recovered", () => {
+  expect(processExhaustionTick(1, false)).toBeUndefined();
+  expect(processExhaustionTick(2, true)).toBeUndefined();
+  expect(processExhaustionTick(undefined, false)).toBeUndefined();
+});
@@ -0,0 +1,62 @@
+/**
+ * Exhaustion after battle defeat.
+ *
+ * Per spec (battle.md): defeated pets are exhausted for a number of ticks.
+ * Exhausted pets cannot battle and train less effectively. Exhaustion wears
+ * off over time, faster while the pet sleeps.
+ */
+
+import { TICKS_PER_HOUR, type Tick } from "@/game/types/common";
+import type { Pet } from "@/game/types/pet";
+
+/**
+ * Ticks of exhaustion applied by a battle defeat (2 hours awake).
+ */
+export const EXHAUSTION_DURATION_TICKS: Tick = 2 * TICKS_PER_HOUR;
+
+/**
+ * Exhaustion recovered per tick while awake.
+ */
+export const EXHAUSTION_RECOVERY_AWAKE: Tick = 1;
+
+/**
+ * Exhaustion recovered per tick while sleeping (rest clears it 3x faster).
+ */
+export const EXHAUSTION_RECOVERY_SLEEPING: Tick = 3;
+
+/**
+ * Multiplier applied to training stat gains while exhausted.
+ */
+export const EXHAUSTION_TRAINING_MULTIPLIER = 0.5;
+
+/**
+ * Check if the pet is exhausted.
+ */
+export function isExhausted(pet: Pet): boolean {
+  return (pet.exhaustionTicks ?? 0) > 0;
+}
+
+/**
+ * Exhaust the pet after a battle defeat.
+ * A fresh defeat restarts the countdown rather than stacking.
+ */
+export function applyExhaustion(pet: Pet): Pet {
+  return { ...pet, exhaustionTicks: EXHAUSTION_DURATION_TICKS };
+}
+
+/**
+ * Process one tick of exhaustion recovery.
+ * Returns the remaining exhaustion ticks, or undefined once recovered.
+ */
+export function processExhaustionTick(
+  exhaustionTicks: Tick | undefined,
+  isSleeping: boolean,
+): Tick | undefined {
+  if (exhaustionTicks === undefined) return undefined;
+
+  const recovery = isSleeping
+    ? EXHAUSTION_RECOVERY_SLEEPING
+    : EXHAUSTION_RECOVERY_AWAKE;
+  const remaining = exhaustionTicks - recovery;
+  return remaining > 0 ? remaining : undefined;
+}
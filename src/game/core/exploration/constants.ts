@@ -21,3 +21,23 @@ export const BASE_EXPLORATION_XP = 15;
  * Default maximum level for wild encounters when location doesn't specify one.
  */
 export const DEFAULT_ENCOUNTER_MAX_LEVEL = 10;
+
+// =============================================================================
+// Location Discovery
+// =============================================================================
+
+/**
+ * Chance of discovering a hidden nearby location when an exploration
+ * completes, before the Scouting bonus.
+ */
+export const DISCOVERY_BASE_CHANCE = 0.02;
+
+/**
+ * Discovery chance added per Scouting level.
+ */
+export const DISCOVERY_CHANCE_PER_SCOUTING_LEVEL = 0.01;
+
+/**
+ * Maximum discovery chance per exploration completion.
+ */
+export const DISCOVERY_MAX_CHANCE = 0.5;
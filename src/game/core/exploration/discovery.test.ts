@@ -0,0 +1,135 @@
+/**
+ * Tests for hidden location discovery.
+ */
+
+import { expect, test } from "bun:test";
+import { createSequenceRng } from "@/game/core/rng";
+import { isUnlocked } from "@/game/core/unlocks";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import type { GameState } from "@/game/types/gameState";
+import { SkillType } from "@/game/types/skill";
+import { createInitialUnlocks, UnlockType } from "@/game/types/unlock";
+import {
+  DISCOVERY_BASE_CHANCE,
+  DISCOVERY_CHANCE_PER_SCOUTING_LEVEL,
+  DISCOVERY_MAX_CHANCE,
+} from "./constants";
+import {
+  discoverLocation,
+  getDiscoveryChance,
+  getUndiscoveredConnections,
+  rollLocationDiscovery,
+} from "./discovery";
+
+function withScoutingLevel(state: GameState, level: number): GameState {
+  return {
+    ...state,
+    player: {
+      ...state.player,
+      skills: {
+        ...state.player.skills,
+        [SkillType.Scouting]: {
+          ...state.player.skills[SkillType.Scouting],
+          level,
+        },
+      },
+    },
+  };
+}
+
+test("getDiscoveryChance grows with Scouting level up to a cap", () => {
+  expect(getDiscoveryChance(1)).toBeCloseTo(
+    DISCOVERY_BASE_CHANCE + DISCOVERY_CHANCE_PER_SCOUTING_LEVEL,
+  );
+  expect(getDiscoveryChance(10)).toBeGreaterThan(getDiscoveryChance(1));
+  expect(getDiscoveryChance(99)).toBe(DISCOVERY_MAX_CHANCE);
+});
+
+test("getUndiscoveredConnections lists hidden connected locations", () => {
+  const unlocks = createInitialUnlocks();
+
+  expect(
+    getUndiscoveredConnections(unlocks, "misty_woods").map((l) => l.id),
+  ).toEqual(["mushroom_hollow"]);
+  expect(getUndiscoveredConnections(unlocks, "meadow")).toEqual([]);
+  expect(getUndiscoveredConnections(unlocks, "unknown_location")).toEqual([]);
+});
+
+test("getUndiscoveredConnections skips discovered locations", () => {
+  const unlocks = {
+    ...createInitialUnlocks(),
+    [UnlockType.Location]: ["mushroom_hollow"],
+  };
+
+  expect(getUndiscoveredConnections(unlocks, "misty_woods")).toEqual([]);
+});
+
+test("discoverLocation unlocks the location and notifies the player", () => {
+  const state = createTestGameState();
+
+  const newState = discoverLocation(state, "mushroom_hollow", 1000);
+
+  expect(
+    isUnlocked(newState.unlocks, UnlockType.Location, "mushroom_hollow"),
+  ).toBe(true);
+  expect(newState.pendingEvents).toContainEqual({
+    type: "locationDiscovered",
+    locationId: "mushroom_hollow",
+    locationName: "Mushroom Hollow",
+    timestamp: 1000,
+  });
+  expect(newState.pendingNotifications).toEqual([
+    {
+      type: "locationDiscovered",
+      locationId: "mushroom_hollow",
+      locationName: "Mushroom Hollow",
+    },
+  ]);
+});
+
+test("discoverLocation ignores known and unknown locations", () => {
+  const discovered = discoverLocation(createTestGameState(), "mushroom_hollow");
+
+  expect(discoverLocation(discovered, "mushroom_hollow")).toBe(discovered);
+  expect(discoverLocation(discovered, "unknown_location")).toBe(discovered);
+});
+
+test("rollLocationDiscovery reveals a hidden connected location on a successful roll", () => {
+  const state = createTestGameState();
+
+  const hit = rollLocationDiscovery(
+    state,
+    "misty_woods",
+    createSequenceRng([0]),
+  );
+  const miss = rollLocationDiscovery(
+    state,
+    "misty_woods",
+    createSequenceRng([0.99]),
+  );
+
+  expect(isUnlocked(hit.unlocks, UnlockType.Location, "mushroom_hollow")).toBe(
+    true,
+  );
+  expect(miss).toBe(state);
+});
+
+test("rollLocationDiscovery succeeds more often with higher Scouting", () => {
+  const roll = createSequenceRng([0.1]);
+  const novice = withScoutingLevel(createTestGameState(), 1);
+  const expert = withScoutingLevel(createTestGameState(), 20);
+
+  expect(rollLocationDiscovery(novice, "misty_woods", roll)).toBe(novice);
+  expect(
+    rollLocationDiscovery(expert, "misty_woods", roll).unlocks[
+      UnlockType.Location
+    ],
+  ).toEqual(["mushroom_hollow"]);
+});
+
+test("rollLocationDiscovery does nothing with nothing left to find", () => {
+  const state = createTestGameState();
+  expect(rollLocationDiscovery(state, "meadow", createSequenceRng([0]))).toBe(
+    state,
+  );
+});
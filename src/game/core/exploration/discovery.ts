@@ -0,0 +1,114 @@
+/**
+ * Hidden location discovery.
+ *
+ * Hidden locations stay off the map until discovered. Finishing an
+ * exploration may reveal a hidden location connected to the one explored,
+ * with a chance that grows with the Scouting skill. Discovery encounters
+ * and quest rewards can reveal them too.
+ */
+
+import { emitEvent } from "@/game/core/events";
+import { type Rng, randomIndex } from "@/game/core/rng";
+import { grantUnlock, isLocationDiscovered } from "@/game/core/unlocks";
+import { getLocation } from "@/game/data/locations";
+import { now } from "@/game/types/common";
+import { createEvent, type LocationDiscoveredEvent } from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import type { Location } from "@/game/types/location";
+import { SkillType } from "@/game/types/skill";
+import { type Unlocks, UnlockType } from "@/game/types/unlock";
+import {
+  DISCOVERY_BASE_CHANCE,
+  DISCOVERY_CHANCE_PER_SCOUTING_LEVEL,
+  DISCOVERY_MAX_CHANCE,
+} from "./constants";
+
+/**
+ * Chance of discovering a hidden location when an exploration completes.
+ */
+export function getDiscoveryChance(scoutingLevel: number): number {
+  return Math.min(
+    DISCOVERY_MAX_CHANCE,
+    DISCOVERY_BASE_CHANCE + scoutingLevel * DISCOVERY_CHANCE_PER_SCOUTING_LEVEL,
+  );
+}
+
+/**
+ * Get the hidden locations connected to a location that are not yet discovered.
+ */
+export function getUndiscoveredConnections(
+  unlocks: Unlocks,
+  locationId: string,
+): Location[] {
+  const location = getLocation(locationId);
+  if (!location) return [];
+
+  return location.connections
+    .map((conn) => getLocation(conn.targetId))
+    .filter(
+      (target): target is Location =>
+        target !== undefined && !isLocationDiscovered(unlocks, target),
+    );
+}
+
+/**
+ * Discover a hidden location, adding it to the map.
+ * Emits a locationDiscovered event and queues a notification for the player.
+ * Returns the state unchanged for unknown or already discovered locations.
+ */
+export function discoverLocation(
+  state: GameState,
+  locationId: string,
+  timestamp: number = now(),
+): GameState {
+  const location = getLocation(locationId);
+  if (!location) return state;
+
+  const { state: unlockedState, unlocked } = grantUnlock(
+    state,
+    UnlockType.Location,
+    locationId,
+  );
+  if (!unlocked) return state;
+
+  const event = createEvent<LocationDiscoveredEvent>(
+    {
+      type: "locationDiscovered",
+      locationId,
+      locationName: location.name,
+    },
+    timestamp,
+  );
+  const stateWithEvent = emitEvent(unlockedState, event);
+  return {
+    ...stateWithEvent,
+    pendingNotifications: [
+      ...stateWithEvent.pendingNotifications,
+      {
+        type: "locationDiscovered",
+        locationId,
+        locationName: location.name,
+      },
+    ],
+  };
+}
+
+/**
+ * Roll the Scouting check for discovering a hidden location connected to
+ * the explored location. Makes no roll when there is nothing left to find.
+ */
+export function rollLocationDiscovery(
+  state: GameState,
+  locationId: string,
+  rng: Rng,
+  timestamp: number = now(),
+): GameState {
+  const candidates = getUndiscoveredConnections(state.unlocks, locationId);
+  if (candidates.length === 0) return state;
+
+  const scoutingLevel = state.player.skills[SkillType.Scouting].level;
+  if (rng.next() >= getDiscoveryChance(scoutingLevel)) return state;
+
+  const discovered = candidates[randomIndex(rng, candidates.length)];
+  return discovered ? discoverLocation(state, discovered.id, timestamp) : state;
+}
@@ -6,9 +6,9 @@ import { describe, expect, spyOn, test } from "bun:test";
 import {
   calculateWildLevel,
   forceEncounter,
-  getApproximatePetLevel,
   rollForEncounter,
 } from "@/game/core/exploration/encounter";
+import { createRng, createSequenceRng } from "@/game/core/rng";
 import * as encounterTables from "@/game/data/tables/encounters";
 import { EncounterType } from "@/game/data/tables/encounters";
 import { createTestPet } from "@/game/testing/createTestPet";
@@ -16,14 +16,16 @@ import { GrowthStage } from "@/game/types/constants";
 
 describe("calculateWildLevel", () => {
   test("returns 1 for unknown location", () => {
-    const result = calculateWildLevel("unknown_location", 5);
+    const rng = createRng(1);
+    const result = calculateWildLevel("unknown_location", 5, rng);
     expect(result).toBe(1);
   });
 
   test("returns level within location range", () => {
     // Meadow has levelMin: 1, levelMax: 5
     // With player level 1, scaling factor is 0, so result is 1-5
-    const result = calculateWildLevel("meadow", 1);
+    const rng = createRng(1);
+    const result = calculateWildLevel("meadow", 1, rng);
     expect(result).toBeGreaterThanOrEqual(1);
     expect(result).toBeLessThanOrEqual(5);
   });
@@ -32,10 +34,11 @@ describe("calculateWildLevel", () => {
     // Higher player level should increase wild level due to scaling factor
     const lowLevelResults: number[] = [];
     const highLevelResults: number[] = [];
+    const rng = createRng(1);
 
     for (let i = 0; i < 100; i++) {
-      lowLevelResults.push(calculateWildLevel("meadow", 1));
-      highLevelResults.push(calculateWildLevel("meadow", 50));
+      lowLevelResults.push(calculateWildLevel("meadow", 1, rng));
+      highLevelResults.push(calculateWildLevel("meadow", 50, rng));
     }
 
     const lowAvg =
@@ -46,62 +49,48 @@ describe("calculateWildLevel", () => {
     // High level player should encounter higher level pets on average
     expect(highAvg).toBeGreaterThan(lowAvg);
   });
-});
-
-describe("getApproximatePetLevel", () => {
-  test("returns level based on battle stats", () => {
-    const pet = createTestPet({
-      battleStats: {
-        strength: 10,
-        endurance: 10,
-        agility: 10,
-        precision: 10,
-        fortitude: 10,
-        cunning: 10,
-      },
-    });
-
-    const level = getApproximatePetLevel(pet);
-    expect(level).toBe(5); // (10+10+10+10+10+10) / 6 / 2 = 5
-  });
 
-  test("returns minimum level of 1", () => {
-    const pet = createTestPet({
-      battleStats: {
-        strength: 1,
-        endurance: 1,
-        agility: 1,
-        precision: 1,
-        fortitude: 1,
-        cunning: 1,
-      },
-    });
-
-    const level = getApproximatePetLevel(pet);
-    expect(level).toBeGreaterThanOrEqual(1);
+  test("offsets the level across the location range with the roll", () => {
+    // Meadow has levelMin: 1, levelMax: 5
+    expect(calculateWildLevel("meadow", 1, createSequenceRng([0]))).toBe(1);
+    expect(calculateWildLevel("meadow", 1, createSequenceRng([0.99]))).toBe(5);
   });
 });
 
 describe("forceEncounter", () => {
   test("returns no encounter for unknown location", () => {
     const pet = createTestPet();
-    const result = forceEncounter("unknown_location", pet);
+    const result = forceEncounter("unknown_location", pet, createRng(1));
     expect(result.hasEncounter).toBe(false);
   });
 
   test("returns no encounter for location without encounter table", () => {
     const pet = createTestPet();
     // Home location doesn't have an encounter table
-    const result = forceEncounter("home", pet);
+    const result = forceEncounter("home", pet, createRng(1));
     expect(result.hasEncounter).toBe(false);
   });
 
+  test("scales the wild level with the pet's level", () => {
+    const lowLevel = createTestPet({ growth: { stage: GrowthStage.Adult } });
+    const highLevel = createTestPet({
+      growth: { stage: GrowthStage.Adult },
+      progression: { level: 20, currentXp: 0 },
+    });
+
+    const low = forceEncounter("meadow", lowLevel, createRng(1));
+    const high = forceEncounter("meadow", highLevel, createRng(1));
+
+    // Every 5 pet levels add a wild level
+    expect((high.level ?? 0) - (low.level ?? 0)).toBe(4);
+  });
+
   test("returns encounter for wild location with encounter table", () => {
     const pet = createTestPet({
       growth: { stage: GrowthStage.Adult },
     });
     // Meadow has an encounter table
-    const result = forceEncounter("meadow", pet);
+    const result = forceEncounter("meadow", pet, createRng(1));
     expect(result.hasEncounter).toBe(true);
     expect(result.speciesId).toBeDefined();
     expect(result.level).toBeDefined();
@@ -117,25 +106,44 @@ describe("forceEncounter", () => {
     });
 
     // Both should get encounters since meadow has no stage requirements
-    const babyResult = forceEncounter("meadow", babyPet);
-    const adultResult = forceEncounter("meadow", adultPet);
+    const babyResult = forceEncounter("meadow", babyPet, createRng(1));
+    const adultResult = forceEncounter("meadow", adultPet, createRng(1));
 
     expect(babyResult.hasEncounter).toBe(true);
     expect(adultResult.hasEncounter).toBe(true);
   });
+
+  test("never returns a discovery", () => {
+    const pet = createTestPet({
+      growth: { stage: GrowthStage.Adult },
+    });
+
+    // Misty Woods lists its Mushroom Hollow discovery last, so the highest
+    // roll would land on it if discoveries could be forced
+    for (const roll of [0, 0.5, 0.99]) {
+      const result = forceEncounter(
+        "misty_woods",
+        pet,
+        createSequenceRng([roll, 0.5]),
+      );
+      expect(result.hasEncounter).toBe(true);
+      expect(result.encounterType).toBe(EncounterType.WildBattle);
+      expect(result.speciesId).toBeDefined();
+    }
+  });
 });
 
 describe("rollForEncounter", () => {
   test("returns no encounter when random roll exceeds encounter chance", () => {
     const pet = createTestPet();
     // With 0 encounter chance, should never trigger
-    const result = rollForEncounter("meadow", pet, "foraging", 0);
+    const result = rollForEncounter("meadow", pet, "foraging", 0, createRng(1));
     expect(result.hasEncounter).toBe(false);
   });
 
   test("returns no encounter for location without encounter table", () => {
     const pet = createTestPet();
-    const result = rollForEncounter("home", pet, "foraging", 1.0);
+    const result = rollForEncounter("home", pet, "foraging", 1.0, createRng(1));
     expect(result.hasEncounter).toBe(false);
   });
 
@@ -144,18 +152,32 @@ describe("rollForEncounter", () => {
       growth: { stage: GrowthStage.Adult },
     });
 
-    // Mock Math.random to ensure encounter triggers and selection is predictable
-    const randomSpy = spyOn(Math, "random").mockReturnValue(0);
-
-    // With 100% encounter chance and mocked random, should always trigger
-    const result = rollForEncounter("meadow", pet, "foraging", 1.0);
+    // With 100% encounter chance and a zero roll, should always trigger
+    const result = rollForEncounter(
+      "meadow",
+      pet,
+      "foraging",
+      1.0,
+      createSequenceRng([0]),
+    );
 
     expect(result.hasEncounter).toBe(true);
     expect(result.speciesId).toBeDefined();
     expect(result.level).toBeDefined();
+  });
+
+  test("gives identical encounters for the same rng seed", () => {
+    const pet = createTestPet({
+      growth: { stage: GrowthStage.Adult },
+    });
 
-    // Restore original Math.random
-    randomSpy.mockRestore();
+    for (let seed = 0; seed < 20; seed++) {
+      expect(
+        rollForEncounter("meadow", pet, "foraging", 0.5, createRng(seed)),
+      ).toEqual(
+        rollForEncounter("meadow", pet, "foraging", 0.5, createRng(seed)),
+      );
+    }
   });
 
   test("filters encounters by activity", () => {
@@ -176,22 +198,57 @@ describe("rollForEncounter", () => {
       ],
     }));
 
-    // Mock Math.random to ensure predictable behavior
-    const randomSpy = spyOn(Math, "random").mockReturnValue(0);
-
     const pet = createTestPet({
       growth: { stage: GrowthStage.Adult },
     });
 
     // Foraging should find an encounter
-    const foragingResult = rollForEncounter("meadow", pet, "foraging", 1.0);
+    const foragingResult = rollForEncounter(
+      "meadow",
+      pet,
+      "foraging",
+      1.0,
+      createSequenceRng([0]),
+    );
     expect(foragingResult.hasEncounter).toBe(true);
 
     // Mining should not find an encounter (filtered out by activityIds)
-    const miningResult = rollForEncounter("meadow", pet, "mining", 1.0);
+    const miningResult = rollForEncounter(
+      "meadow",
+      pet,
+      "mining",
+      1.0,
+      createSequenceRng([0]),
+    );
     expect(miningResult.hasEncounter).toBe(false);
 
     getEncounterTableSpy.mockRestore();
-    randomSpy.mockRestore();
+  });
+
+  test("skips discoveries of locations already discovered", () => {
+    const pet = createTestPet({
+      growth: { stage: GrowthStage.Adult },
+    });
+
+    // Misty Woods lists its Mushroom Hollow discovery last
+    const undiscovered = rollForEncounter(
+      "misty_woods",
+      pet,
+      "foraging",
+      1.0,
+      createSequenceRng([0, 0.99]),
+    );
+    expect(undiscovered.locationId).toBe("mushroom_hollow");
+
+    const discovered = rollForEncounter(
+      "misty_woods",
+      pet,
+      "foraging",
+      1.0,
+      createSequenceRng([0, 0.99, 0.5]),
+      ["mushroom_hollow"],
+    );
+    expect(discovered.encounterType).toBe(EncounterType.WildBattle);
+    expect(discovered.locationId).toBeUndefined();
   });
 });
@@ -2,9 +2,11 @@
  * Encounter generation for exploration.
  */
 
+import { type Rng, randomIndex, randomInt } from "@/game/core/rng";
 import { getLocation } from "@/game/data/locations";
 import {
   type EncounterEntry,
+  type EncounterTable,
   EncounterType,
   getEncounterTable,
 } from "@/game/data/tables/encounters";
@@ -32,6 +34,8 @@ export interface EncounterResult {
   level?: number;
   /** Species ID of the encountered pet */
   speciesId?: string;
+  /** Hidden location revealed by a discovery encounter */
+  locationId?: string;
 }
 
 /**
@@ -40,6 +44,7 @@ export interface EncounterResult {
 export function calculateWildLevel(
   locationId: string,
   playerPetLevel: number,
+  rng: Rng,
 ): number {
   const location = getLocation(locationId);
   if (!location) {
@@ -53,29 +58,11 @@ export function calculateWildLevel(
   const scalingFactor = Math.floor(playerPetLevel / LEVEL_SCALING_DIVISOR);
 
   // Random offset within level range
-  const range = maxLevel - baseLevel;
-  const randomOffset = Math.floor(Math.random() * (range + 1));
+  const randomOffset = randomInt(rng, 0, maxLevel - baseLevel);
 
   return Math.max(1, baseLevel + randomOffset + scalingFactor);
 }
 
-/**
- * Get approximate player pet level from stats.
- * Uses average of battle stats as a proxy for level.
- */
-export function getApproximatePetLevel(pet: Pet): number {
-  const stats = pet.battleStats;
-  const avgStat =
-    (stats.strength +
-      stats.endurance +
-      stats.agility +
-      stats.precision +
-      stats.fortitude +
-      stats.cunning) /
-    6;
-  return Math.max(1, Math.floor(avgStat / 2));
-}
-
 /**
  * Check if an encounter entry is available for the pet's stage and activity.
  * @param entry - The encounter entry to check
@@ -113,6 +100,7 @@ function generateEncounter(
   entry: EncounterEntry,
   locationId: string,
   pet: Pet,
+  rng: Rng,
 ): EncounterResult {
   if (entry.encounterType === EncounterType.WildBattle) {
     // Wild battles require speciesIds and levelOffset
@@ -120,18 +108,20 @@ function generateEncounter(
       return { hasEncounter: false };
     }
 
-    const playerLevel = getApproximatePetLevel(pet);
-    const wildLevel = calculateWildLevel(locationId, playerLevel);
+    const wildLevel = calculateWildLevel(
+      locationId,
+      pet.progression.level,
+      rng,
+    );
 
     // Apply level offset from entry
     const [minOffset, maxOffset] = entry.levelOffset;
-    const offset =
-      minOffset + Math.floor(Math.random() * (maxOffset - minOffset + 1));
+    const offset = randomInt(rng, minOffset, maxOffset);
     const finalLevel = Math.max(1, wildLevel + offset);
 
     // Pick random species from entry
-    const speciesIndex = Math.floor(Math.random() * entry.speciesIds.length);
-    const speciesId = entry.speciesIds[speciesIndex];
+    const speciesId =
+      entry.speciesIds[randomIndex(rng, entry.speciesIds.length)];
 
     if (!speciesId) {
       return { hasEncounter: false };
@@ -148,54 +138,122 @@ function generateEncounter(
     };
   }
 
+  if (entry.encounterType === EncounterType.Discovery && entry.locationId) {
+    return {
+      hasEncounter: true,
+      encounterType: EncounterType.Discovery,
+      locationId: entry.locationId,
+    };
+  }
+
   return { hasEncounter: false };
 }
 
 /**
- * Force an encounter for testing/specific triggers.
- * @param locationId - Location where the encounter occurs
- * @param pet - The pet exploring
- * @param activityId - Optional activity ID to filter encounters
+ * Select an entry weighted by its probability.
+ * Probabilities are normalized over the given entries.
  */
-export function forceEncounter(
+function selectEncounterEntry(
+  entries: EncounterEntry[],
+  rng: Rng,
+): EncounterEntry | undefined {
+  const totalProbability = entries.reduce(
+    (sum, entry) => sum + entry.probability,
+    0,
+  );
+
+  if (totalProbability <= 0) {
+    return undefined;
+  }
+
+  let roll = rng.next() * totalProbability;
+  for (const entry of entries) {
+    roll -= entry.probability;
+    if (roll <= 0) {
+      return entry;
+    }
+  }
+
+  return entries[entries.length - 1];
+}
+
+/**
+ * Get the encounter entries available at a location for the pet's stage
+ * and activity, along with the location's encounter table.
+ * Discovery entries for locations already discovered are left out.
+ */
+function getAvailableEncounters(
   locationId: string,
   pet: Pet,
   activityId?: string,
-): EncounterResult {
+  discoveredLocationIds: readonly string[] = [],
+): { table: EncounterTable; entries: EncounterEntry[] } | null {
   const location = getLocation(locationId);
   if (!location?.encounterTableId) {
-    return { hasEncounter: false };
+    return null;
   }
 
-  const encounterTable = getEncounterTable(location.encounterTableId);
-  if (!encounterTable || encounterTable.entries.length === 0) {
-    return { hasEncounter: false };
+  const table = getEncounterTable(location.encounterTableId);
+  if (!table || table.entries.length === 0) {
+    return null;
   }
 
-  // Get first available entry filtered by stage and activity
-  const availableEntries = encounterTable.entries.filter((entry) =>
-    isEncounterAvailable(entry, pet.growth.stage, activityId),
+  const entries = table.entries.filter(
+    (entry) =>
+      isEncounterAvailable(entry, pet.growth.stage, activityId) &&
+      !(
+        entry.encounterType === EncounterType.Discovery &&
+        entry.locationId &&
+        discoveredLocationIds.includes(entry.locationId)
+      ),
   );
+  return entries.length > 0 ? { table, entries } : null;
+}
 
-  if (availableEntries.length === 0) {
+/**
+ * Force an encounter for testing/specific triggers.
+ * Skips the encounter chance roll but still selects an entry by probability.
+ * Only wild battles can be forced; discovery entries are left out.
+ * @param locationId - Location where the encounter occurs
+ * @param pet - The pet exploring
+ * @param rng - Random source for the encounter's level and species
+ * @param activityId - Optional activity ID to filter encounters
+ */
+export function forceEncounter(
+  locationId: string,
+  pet: Pet,
+  rng: Rng,
+  activityId?: string,
+): EncounterResult {
+  const available = getAvailableEncounters(locationId, pet, activityId);
+  if (!available) {
     return { hasEncounter: false };
   }
 
-  const firstEntry = availableEntries[0];
-  if (!firstEntry) {
+  const selectedEntry = selectEncounterEntry(
+    available.entries.filter(
+      (entry) => entry.encounterType !== EncounterType.Discovery,
+    ),
+    rng,
+  );
+  if (!selectedEntry) {
     return { hasEncounter: false };
   }
-  return generateEncounter(firstEntry, locationId, pet);
+
+  return generateEncounter(selectedEntry, locationId, pet, rng);
 }
 
 /**
- * Roll for an encounter during exploration.
- * Uses the activity's encounter chance and location's encounter table.
+ * Roll for an encounter during one tick of exploration.
+ * The chance per tick is the activity's encounter chance scaled by the
+ * location encounter table's base encounter chance.
  *
  * @param locationId - Location where exploration is occurring
  * @param pet - The pet exploring
  * @param activityId - The activity being performed
- * @param encounterChance - Base probability of triggering an encounter (0.0 to 1.0)
+ * @param encounterChance - Activity's probability of triggering an encounter this tick (0.0 to 1.0)
+ * @param rng - Random source for the encounter roll and selection
+ * @param discoveredLocationIds - Hidden locations the player has already discovered
  * @returns EncounterResult with hasEncounter=true if an encounter occurred
  */
 export function rollForEncounter(
@@ -203,59 +261,28 @@ export function rollForEncounter(
   pet: Pet,
   activityId: string,
   encounterChance: number,
+  rng: Rng,
+  discoveredLocationIds: readonly string[] = [],
 ): EncounterResult {
-  // First check if encounter triggers based on activity's encounter chance
-  if (Math.random() >= encounterChance) {
-    return { hasEncounter: false };
-  }
-
-  const location = getLocation(locationId);
-  if (!location?.encounterTableId) {
-    return { hasEncounter: false };
-  }
-
-  const encounterTable = getEncounterTable(location.encounterTableId);
-  if (!encounterTable || encounterTable.entries.length === 0) {
-    return { hasEncounter: false };
-  }
-
-  // Filter entries by stage and activity, then select based on probability
-  const availableEntries = encounterTable.entries.filter((entry) =>
-    isEncounterAvailable(entry, pet.growth.stage, activityId),
+  const available = getAvailableEncounters(
+    locationId,
+    pet,
+    activityId,
+    discoveredLocationIds,
   );
-
-  if (availableEntries.length === 0) {
+  if (!available) {
     return { hasEncounter: false };
   }
 
-  // Normalize probabilities and select an entry
-  const totalProbability = availableEntries.reduce(
-    (sum, entry) => sum + entry.probability,
-    0,
-  );
-
-  if (totalProbability <= 0) {
+  // Check if an encounter triggers this tick
+  if (rng.next() >= encounterChance * available.table.baseEncounterChance) {
     return { hasEncounter: false };
   }
 
-  let roll = Math.random() * totalProbability;
-  let selectedEntry: EncounterEntry | undefined;
-
-  for (const entry of availableEntries) {
-    roll -= entry.probability;
-    if (roll <= 0) {
-      selectedEntry = entry;
-      break;
-    }
-  }
-
-  if (!selectedEntry) {
-    selectedEntry = availableEntries[availableEntries.length - 1];
-  }
-
+  const selectedEntry = selectEncounterEntry(available.entries, rng);
   if (!selectedEntry) {
     return { hasEncounter: false };
   }
 
-  return generateEncounter(selectedEntry, locationId, pet);
+  return generateEncounter(selectedEntry, locationId, pet, rng);
 }
@@ -14,8 +14,11 @@ import {
   getExplorationProgress,
   meetsRequirements,
   processExplorationTick,
+  resolveEncounterBattle,
+  rollDropTables,
   startExplorationActivity,
 } from "@/game/core/exploration/exploration";
+import { createRng, createSequenceRng } from "@/game/core/rng";
 import { ActivityId } from "@/game/data/exploration/activities";
 import { meadowForagingDropTable } from "@/game/data/exploration/dropTables";
 import { createTestPet } from "@/game/testing/createTestPet";
@@ -253,33 +256,182 @@ describe("startExplorationActivity", () => {
 });
 
 describe("processExplorationTick", () => {
+  const exploration: ActiveExploration = {
+    activityId: ActivityId.Foraging,
+    locationId: "meadow",
+    startTick: 0 as Tick,
+    durationTicks: 10 as Tick,
+    ticksRemaining: 5 as Tick,
+    energyCost: toMicro(15),
+  };
+
   test("decrements ticks remaining", () => {
-    const exploration: ActiveExploration = {
-      activityId: ActivityId.Foraging,
+    // A roll of 0.99 never triggers an encounter
+    const result = processExplorationTick(
+      exploration,
+      createTestPet(),
+      createSequenceRng([0.99]),
+    );
+    expect(result.exploration?.ticksRemaining).toBe(4);
+    expect(result.encounter).toBeNull();
+  });
+
+  test("returns null when exploration completes", () => {
+    const result = processExplorationTick(
+      { ...exploration, ticksRemaining: 1 as Tick },
+      createTestPet(),
+      createSequenceRng([0]),
+    );
+    expect(result.exploration).toBeNull();
+    expect(result.encounter).toBeNull();
+  });
+
+  test("rolls a wild encounter that interrupts the exploration", () => {
+    const result = processExplorationTick(
+      exploration,
+      createTestPet(),
+      createSequenceRng([0]),
+    );
+    expect(result.exploration?.ticksRemaining).toBe(4);
+    expect(result.encounter).toMatchObject({
       locationId: "meadow",
-      startTick: 0 as Tick,
-      durationTicks: 10 as Tick,
-      ticksRemaining: 5 as Tick,
-      energyCost: toMicro(15),
-    };
+      activityId: ActivityId.Foraging,
+    });
+    expect(result.encounter?.speciesId).toBeDefined();
+    expect(result.encounter?.level).toBeGreaterThanOrEqual(1);
+  });
 
-    const result = processExplorationTick(exploration);
-    expect(result).not.toBeNull();
-    expect(result?.ticksRemaining).toBe(4);
+  test("reveals a hidden location without interrupting", () => {
+    // Encounter roll, then the Misty Woods entry roll landing on its discovery
+    const result = processExplorationTick(
+      { ...exploration, locationId: "misty_woods" },
+      createTestPet({ growth: { stage: GrowthStage.Child } }),
+      createSequenceRng([0, 0.99]),
+    );
+    expect(result.exploration?.ticksRemaining).toBe(4);
+    expect(result.encounter).toBeNull();
+    expect(result.discoveredLocationId).toBe("mushroom_hollow");
   });
 
-  test("returns null when exploration completes", () => {
-    const exploration: ActiveExploration = {
+  test("does not interrupt an exhausted pet", () => {
+    const result = processExplorationTick(
+      exploration,
+      createTestPet({ exhaustionTicks: 10 }),
+      createSequenceRng([0]),
+    );
+    expect(result.exploration?.ticksRemaining).toBe(4);
+    expect(result.encounter).toBeNull();
+  });
+
+  test("uses the activity and encounter table chances", () => {
+    // Foraging (0.15 over 10 ticks) in the meadow (0.3) triggers below a
+    // 0.0045 roll
+    const hit = processExplorationTick(
+      exploration,
+      createTestPet(),
+      createSequenceRng([0.004]),
+    );
+    const miss = processExplorationTick(
+      exploration,
+      createTestPet(),
+      createSequenceRng([0.005]),
+    );
+    expect(hit.encounter).not.toBeNull();
+    expect(miss.encounter).toBeNull();
+  });
+
+  test("averages the session encounter chance over a whole session", () => {
+    const sessions = 500;
+    const rng = createRng(42);
+    let encounters = 0;
+    for (let i = 0; i < sessions; i++) {
+      let current: ActiveExploration | null = {
+        ...exploration,
+        activityId: ActivityId.DeepExploration,
+        durationTicks: 30 as Tick,
+        ticksRemaining: 30 as Tick,
+      };
+      while (current) {
+        const result = processExplorationTick(current, createTestPet(), rng);
+        if (result.encounter) encounters++;
+        current = result.exploration;
+      }
+    }
+    // Deep Exploration (0.5) in the meadow (0.3): about 0.15 per session
+    // rather than one or more
+    expect(encounters / sessions).toBeGreaterThan(0.1);
+    expect(encounters / sessions).toBeLessThan(0.2);
+  });
+
+  test("never rolls encounters in locations without an encounter table", () => {
+    const result = processExplorationTick(
+      { ...exploration, locationId: "home" },
+      createTestPet(),
+      createSequenceRng([0]),
+    );
+    expect(result.encounter).toBeNull();
+  });
+});
+
+describe("resolveEncounterBattle", () => {
+  const exploringPet = createTestPet({
+    activityState: ActivityState.Battling,
+    activeExploration: {
       activityId: ActivityId.Foraging,
       locationId: "meadow",
       startTick: 0 as Tick,
       durationTicks: 10 as Tick,
-      ticksRemaining: 1 as Tick,
+      ticksRemaining: 5 as Tick,
       energyCost: toMicro(15),
-    };
+    },
+  });
+
+  test("resumes the exploration after a victory", () => {
+    const pet = resolveEncounterBattle(exploringPet, true);
+    expect(pet.activityState).toBe(ActivityState.Exploring);
+    expect(pet.activeExploration).toEqual(exploringPet.activeExploration);
+  });
 
-    const result = processExplorationTick(exploration);
-    expect(result).toBeNull();
+  test("ends the exploration after a defeat", () => {
+    const pet = resolveEncounterBattle(exploringPet, false);
+    expect(pet.activityState).toBe(ActivityState.Idle);
+    expect(pet.activeExploration).toBeUndefined();
+  });
+
+  test("returns pets that were not exploring to idle", () => {
+    const pet = resolveEncounterBattle(
+      createTestPet({ activityState: ActivityState.Battling }),
+      true,
+    );
+    expect(pet.activityState).toBe(ActivityState.Idle);
+  });
+});
+
+describe("rollDropTables", () => {
+  test("uses one roll across all tables", () => {
+    const tables = [
+      {
+        id: "a",
+        entries: [{ itemId: "material_herb", quantity: 1, minRoll: 0.4 }],
+      },
+      {
+        id: "b",
+        entries: [
+          { itemId: "material_herb", quantity: 2, minRoll: 0.5 },
+          { itemId: "material_stone", quantity: 1, minRoll: 0.7 },
+        ],
+      },
+    ];
+
+    const result = rollDropTables(
+      tables,
+      createTestPet(),
+      createInitialSkills(),
+      [],
+      createSequenceRng([0.6]),
+    );
+
+    expect(result).toEqual([{ itemId: "material_herb", quantity: 3 }]);
   });
 });
 
@@ -292,6 +444,7 @@ describe("calculateExplorationDrops", () => {
       pet,
       skills,
       [],
+      createRng(1),
     );
     expect(result).toEqual([]);
   });
@@ -305,7 +458,7 @@ describe("calculateExplorationDrops", () => {
       pet,
       skills,
       [],
-      0.9, // Inject high roll
+      createSequenceRng([0.9]), // Inject high roll
     );
     expect(result.length).toBeGreaterThan(0);
   });
@@ -319,12 +472,39 @@ describe("calculateExplorationDrops", () => {
       pet,
       skills,
       [],
-      0.01, // Inject very low roll
+      createSequenceRng([0.01]), // Inject very low roll
     );
     // At roll 0.01, no entries should pass (lowest minRoll is 0.2)
     expect(result.length).toBe(0);
   });
 
+  test("equipment drop rate bonus raises the roll", () => {
+    const pet = createTestPet({
+      equipment: {
+        accessory: null,
+        charm: { itemId: "equip_lucky_charm", currentDurability: 10 },
+      },
+    });
+    const skills = createInitialSkills();
+    // Roll 0.16 fails the lowest minRoll (0.2) alone, but +5% lets it pass
+    const withoutCharm = calculateExplorationDrops(
+      [meadowForagingDropTable.id],
+      createTestPet(),
+      skills,
+      [],
+      createSequenceRng([0.16]),
+    );
+    const withCharm = calculateExplorationDrops(
+      [meadowForagingDropTable.id],
+      pet,
+      skills,
+      [],
+      createSequenceRng([0.16]),
+    );
+    expect(withoutCharm.length).toBe(0);
+    expect(withCharm.length).toBeGreaterThan(0);
+  });
+
   test("aggregates quantities for same item", () => {
     const pet = createTestPet();
     const skills = {
@@ -341,7 +521,7 @@ describe("calculateExplorationDrops", () => {
       pet,
       skills,
       [],
-      0.9,
+      createSequenceRng([0.9]),
     );
 
     // Check that items are aggregated
@@ -375,14 +555,14 @@ describe("calculateExplorationDrops", () => {
       pet,
       lowSkills,
       [],
-      0.5,
+      createSequenceRng([0.5]),
     );
     const highSkillDrops = calculateExplorationDrops(
       [meadowForagingDropTable.id],
       pet,
       highSkills,
       [],
-      0.5,
+      createSequenceRng([0.5]),
     );
 
     // High skill should potentially get more drops due to skill-gated entries
@@ -396,7 +576,13 @@ describe("completeExplorationActivity", () => {
   test("returns failure when no active exploration", () => {
     const pet = createTestPet();
     const skills = createInitialSkills();
-    const result = completeExplorationActivity(pet, skills, [], 100 as Tick);
+    const result = completeExplorationActivity(
+      pet,
+      skills,
+      [],
+      100 as Tick,
+      createRng(1),
+    );
     expect(result.success).toBe(false);
   });
 
@@ -413,7 +599,13 @@ describe("completeExplorationActivity", () => {
       },
     });
     const skills = createInitialSkills();
-    const result = completeExplorationActivity(pet, skills, [], 100 as Tick);
+    const result = completeExplorationActivity(
+      pet,
+      skills,
+      [],
+      100 as Tick,
+      createRng(1),
+    );
 
     expect(result.success).toBe(true);
     expect(result.pet.activityState).toBe(ActivityState.Idle);
@@ -437,7 +629,13 @@ describe("completeExplorationActivity", () => {
       },
     });
     const skills = createInitialSkills();
-    const result = completeExplorationActivity(pet, skills, [], 100 as Tick);
+    const result = completeExplorationActivity(
+      pet,
+      skills,
+      [],
+      100 as Tick,
+      createRng(1),
+    );
 
     expect(result.success).toBe(true);
     expect(result.skillXpGains[SkillType.Foraging]).toBeDefined();
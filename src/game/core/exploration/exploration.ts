@@ -9,7 +9,14 @@
  * - Skill XP rewards via skillFactors
  */
 
+import {
+  degradeEquipment,
+  getEquipmentEffectTotal,
+} from "@/game/core/equipment";
+import { isExhausted } from "@/game/core/exhaustion";
 import { BASE_EXPLORATION_XP } from "@/game/core/exploration/constants";
+import { rollForEncounter } from "@/game/core/exploration/encounter";
+import type { Rng } from "@/game/core/rng";
 import { addXpToPlayerSkill } from "@/game/core/skills";
 import { getActivityById } from "@/game/data/exploration/activities";
 import { getDropTableById } from "@/game/data/exploration/dropTables";
@@ -19,11 +26,12 @@ import type {
   ActiveExploration,
   ExplorationDrop,
   ExplorationRequirements,
+  PendingEncounter,
 } from "@/game/types/activity";
 import type { Tick } from "@/game/types/common";
 import { PERCENTAGE_MAX, toMicro } from "@/game/types/common";
 import { ActivityState, GROWTH_STAGE_ORDER } from "@/game/types/constants";
-import type { ExplorationActivity } from "@/game/types/exploration";
+import type { DropTable, ExplorationActivity } from "@/game/types/exploration";
 import type { Pet } from "@/game/types/pet";
 import { type PlayerSkills, SkillType } from "@/game/types/skill";
 
@@ -79,6 +87,18 @@ export interface CompleteExplorationResult {
   message: string;
 }
 
+/**
+ * Result of processing one tick of exploration.
+ */
+export interface ExplorationTickResult {
+  /** Updated exploration, or null if it completed this tick */
+  exploration: ActiveExploration | null;
+  /** Wild encounter that interrupted the exploration this tick (if any) */
+  encounter: PendingEncounter | null;
+  /** Hidden location revealed by a discovery encounter this tick (if any) */
+  discoveredLocationId?: string;
+}
+
 /**
  * Progress information for an active exploration.
  */
@@ -312,43 +332,112 @@ export function startExplorationActivity(
 
 /**
  * Process one tick of exploration progress.
- * Returns updated ActiveExploration or null if exploration completed.
+ * Unless the exploration completes this tick, rolls for an encounter. Wild
+ * encounters pause the exploration until they are resolved; discoveries
+ * reveal a hidden location without interrupting. Exhausted pets are not
+ * interrupted since they cannot battle.
+ * The activity's encounter chance covers the whole session, so each tick
+ * rolls that chance divided by the activity's duration.
+ *
+ * @param discoveredLocationIds - Hidden locations the player has already
+ * discovered, which discovery encounters skip
  */
 export function processExplorationTick(
   exploration: ActiveExploration,
-): ActiveExploration | null {
+  pet: Pet,
+  rng: Rng,
+  discoveredLocationIds: readonly string[] = [],
+): ExplorationTickResult {
   const newTicksRemaining = exploration.ticksRemaining - 1;
 
   if (newTicksRemaining <= 0) {
-    return null; // Exploration completed
+    return { exploration: null, encounter: null }; // Exploration completed
   }
 
-  return {
+  const updatedExploration: ActiveExploration = {
     ...exploration,
     ticksRemaining: newTicksRemaining as Tick,
   };
+
+  const activity = getActivityById(exploration.activityId);
+  if (!activity || isExhausted(pet)) {
+    return { exploration: updatedExploration, encounter: null };
+  }
+
+  const encounterResult = rollForEncounter(
+    exploration.locationId,
+    pet,
+    exploration.activityId,
+    activity.encounterChance / activity.duration,
+    rng,
+    discoveredLocationIds,
+  );
+  if (encounterResult.locationId) {
+    return {
+      exploration: updatedExploration,
+      encounter: null,
+      discoveredLocationId: encounterResult.locationId,
+    };
+  }
+  if (
+    !encounterResult.hasEncounter ||
+    !encounterResult.speciesId ||
+    encounterResult.level === undefined
+  ) {
+    return { exploration: updatedExploration, encounter: null };
+  }
+
+  return {
+    exploration: updatedExploration,
+    encounter: {
+      speciesId: encounterResult.speciesId,
+      level: encounterResult.level,
+      locationId: exploration.locationId,
+      activityId: exploration.activityId,
+    },
+  };
+}
+
+/**
+ * Update a pet whose exploration was interrupted by an encounter battle.
+ * Winning resumes the exploration; losing or fleeing ends it without rewards.
+ * Pets that were not exploring simply return to idle.
+ */
+export function resolveEncounterBattle(pet: Pet, victory: boolean): Pet {
+  if (!pet.activeExploration) {
+    return { ...pet, activityState: ActivityState.Idle };
+  }
+
+  if (victory) {
+    return { ...pet, activityState: ActivityState.Exploring };
+  }
+
+  return {
+    ...pet,
+    activityState: ActivityState.Idle,
+    activeExploration: undefined,
+  };
 }
 
 /**
- * Calculate drops from drop tables using a single roll.
+ * Roll drop tables using a single roll.
  * The roll is compared against each entry's minRoll; entries where roll >= minRoll pass.
+ * Shared by exploration completion and battle victories.
  */
-export function calculateExplorationDrops(
-  dropTableIds: string[],
+export function rollDropTables(
+  dropTables: DropTable[],
   pet: Pet,
   skills: PlayerSkills,
   completedQuestIds: string[],
-  roll?: number,
+  rng: Rng,
 ): ExplorationDrop[] {
-  // Generate roll if not provided (for testing, we allow injecting roll)
-  const actualRoll = roll ?? Math.random();
+  // Equipment drop rate bonuses raise the roll, letting rarer entries pass
+  const actualRoll =
+    rng.next() + getEquipmentEffectTotal(pet, "dropRate") / PERCENTAGE_MAX;
 
   const drops: Map<string, number> = new Map();
 
-  for (const tableId of dropTableIds) {
-    const dropTable = getDropTableById(tableId);
-    if (!dropTable) continue;
-
+  for (const dropTable of dropTables) {
     for (const entry of dropTable.entries) {
       // Check entry requirements
       const reqCheck = meetsRequirements(
@@ -374,6 +463,22 @@ export function calculateExplorationDrops(
   }));
 }
 
+/**
+ * Calculate drops from exploration drop tables using a single roll.
+ */
+export function calculateExplorationDrops(
+  dropTableIds: string[],
+  pet: Pet,
+  skills: PlayerSkills,
+  completedQuestIds: string[],
+  rng: Rng,
+): ExplorationDrop[] {
+  const dropTables = dropTableIds
+    .map((tableId) => getDropTableById(tableId))
+    .filter((table): table is DropTable => table !== undefined);
+  return rollDropTables(dropTables, pet, skills, completedQuestIds, rng);
+}
+
 /**
  * Complete an exploration activity and calculate rewards.
  */
@@ -382,6 +487,7 @@ export function completeExplorationActivity(
   skills: PlayerSkills,
   completedQuestIds: string[],
   totalTicks: Tick,
+  rng: Rng,
 ): CompleteExplorationResult {
   const exploration = pet.activeExploration;
   if (!exploration) {
@@ -419,6 +525,7 @@ export function completeExplorationActivity(
     pet,
     skills,
     completedQuestIds,
+    rng,
   );
 
   // Calculate skill XP gains based on activity's skillFactors
@@ -442,13 +549,16 @@ export function completeExplorationActivity(
     cooldownEndTick,
   );
 
-  // Clear exploration state
-  const updatedPet: Pet = {
-    ...pet,
-    activityState: ActivityState.Idle,
-    activeExploration: undefined,
-    activityCooldowns: updatedCooldowns,
-  };
+  // Clear exploration state and wear down exploration equipment
+  const updatedPet: Pet = degradeEquipment(
+    {
+      ...pet,
+      activityState: ActivityState.Idle,
+      activeExploration: undefined,
+      activityCooldowns: updatedCooldowns,
+    },
+    "exploration",
+  ).pet;
 
   const itemCount = itemsFound.reduce((sum, drop) => sum + drop.quantity, 0);
   const message = ExplorationMessages.explorationComplete(
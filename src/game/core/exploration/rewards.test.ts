@@ -0,0 +1,56 @@
+/**
+ * Tests for applying exploration rewards.
+ */
+
+import { expect, test } from "bun:test";
+import { CARRIED_INVENTORY_CAPACITY } from "@/game/core/inventory";
+import { FOOD_ITEMS, TOY_ITEMS } from "@/game/data/items";
+import { StorageMessages } from "@/game/data/messages";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import { applyExplorationRewards } from "./rewards";
+
+test("applyExplorationRewards adds found items to the bag", () => {
+  const state = createTestGameState();
+
+  const result = applyExplorationRewards(
+    state,
+    [{ itemId: FOOD_ITEMS.KIBBLE.id, quantity: 2 }],
+    {},
+    "unknown_activity",
+  );
+
+  expect(result.state.player.inventory.items).toEqual([
+    { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 2, currentDurability: null },
+  ]);
+  expect(result.overflowNotes).toEqual([]);
+});
+
+test("applyExplorationRewards sends items to storage when the bag is full", () => {
+  const state = createTestGameState(undefined, {
+    player: {
+      currentLocationId: "meadow",
+      inventory: {
+        items: Array.from({ length: CARRIED_INVENTORY_CAPACITY }, () => ({
+          itemId: TOY_ITEMS.BALL.id,
+          quantity: 1,
+          currentDurability: 1,
+        })),
+      },
+    },
+  });
+
+  const result = applyExplorationRewards(
+    state,
+    [{ itemId: FOOD_ITEMS.KIBBLE.id, quantity: 2 }],
+    {},
+    "unknown_activity",
+  );
+
+  expect(result.state.player.inventory).toBe(state.player.inventory);
+  expect(result.state.player.storage.items).toEqual([
+    { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 2, currentDurability: null },
+  ]);
+  expect(result.overflowNotes).toEqual([
+    StorageMessages.sentToStorage(2, FOOD_ITEMS.KIBBLE.name),
+  ]);
+});
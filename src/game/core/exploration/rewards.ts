@@ -3,9 +3,15 @@
  * Used by both the tick processor and the exploration state actions.
  */
 
-import { addItem } from "@/game/core/inventory";
+import {
+  getActivityExperience,
+  grantPetExperience,
+} from "@/game/core/petLevel";
 import { updateQuestProgress } from "@/game/core/quests/quests";
+import { describeItemOverflow, receiveItem } from "@/game/core/storage";
+import { getActivityById } from "@/game/data/exploration/activities";
 import type { ExplorationDrop } from "@/game/types/activity";
+import { now } from "@/game/types/common";
 import type { GameState } from "@/game/types/gameState";
 import { ObjectiveType } from "@/game/types/quest";
 import type { PlayerSkills } from "@/game/types/skill";
@@ -21,23 +27,29 @@ export interface ApplyExplorationRewardsResult {
   skills: PlayerSkills;
   /** Map of skill IDs to whether they leveled up */
   skillLevelUps: Record<string, boolean>;
+  /** Notes for items sent to storage or lost because the bag was full */
+  overflowNotes: string[];
 }
 
 /**
  * Apply exploration rewards to game state.
- * Updates skills, inventory, and quest progress.
+ * Updates skills, inventory, pet experience, and quest progress. Items that
+ * do not fit in the bag go to storage, and only items the player keeps
+ * count towards Collect objectives.
  * This is the shared implementation used by both tick processor and state actions.
  *
  * @param state The current game state (with updated pet already set)
  * @param itemsFound Items to add to inventory
  * @param skillXpGains Skill XP to award
- * @param activityId The activity ID for quest progress
+ * @param activityId The activity ID for quest progress and pet experience
+ * @param timestamp Timestamp for level up events (pass the tick time during offline catch-up)
  */
 export function applyExplorationRewards(
   state: GameState,
   itemsFound: ExplorationDrop[],
   skillXpGains: Record<string, number>,
   activityId: string,
+  timestamp: number = now(),
 ): ApplyExplorationRewardsResult {
   // Apply skill XP gains
   const { skills: updatedSkills, levelUps } = applySkillXpGains(
@@ -45,19 +57,37 @@ export function applyExplorationRewards(
     skillXpGains,
   );
 
-  // Combine skills and inventory updates into a single state update
   let updatedState: GameState = {
     ...state,
-    player: {
-      ...state.player,
-      skills: updatedSkills,
-      inventory: itemsFound.reduce(
-        (inv, drop) => addItem(inv, drop.itemId, drop.quantity),
-        state.player.inventory,
-      ),
-    },
+    player: { ...state.player, skills: updatedSkills },
   };
 
+  // Add found items, tracking how many the player actually kept
+  const keptItems: ExplorationDrop[] = [];
+  const overflowNotes: string[] = [];
+  for (const drop of itemsFound) {
+    const received = receiveItem(updatedState, drop.itemId, drop.quantity);
+    updatedState = received.state;
+    const kept = received.carried + received.stored;
+    if (kept > 0) {
+      keptItems.push({ itemId: drop.itemId, quantity: kept });
+    }
+    const note = describeItemOverflow(drop.itemId, received);
+    if (note) {
+      overflowNotes.push(note);
+    }
+  }
+
+  // The pet gains experience based on the activity's energy cost
+  const activity = getActivityById(activityId);
+  if (activity) {
+    updatedState = grantPetExperience(
+      updatedState,
+      getActivityExperience(activity.energyCost),
+      timestamp,
+    );
+  }
+
   // Update quest progress for Explore objectives
   updatedState = updateQuestProgress(
     updatedState,
@@ -65,8 +95,8 @@ export function applyExplorationRewards(
     activityId,
   );
 
-  // Update quest progress for Collect objectives for each item found
-  updatedState = itemsFound.reduce(
+  // Update quest progress for Collect objectives for each item kept
+  updatedState = keptItems.reduce(
     (s, drop) =>
       updateQuestProgress(s, ObjectiveType.Collect, drop.itemId, drop.quantity),
     updatedState,
@@ -76,5 +106,6 @@ export function applyExplorationRewards(
     state: updatedState,
     skills: updatedSkills,
     skillLevelUps: levelUps,
+    overflowNotes,
   };
 }
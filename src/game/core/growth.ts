@@ -7,6 +7,7 @@ import { getSpeciesStageStats, toGrowthStage } from "@/game/data/growthStages";
 import { GROWTH_STAGE_ORDER, type GrowthStage } from "@/game/types/constants";
 import type { Pet, PetGrowth } from "@/game/types/pet";
 import type { BattleStats } from "@/game/types/stats";
+import { calculateEquipmentStatBonuses } from "./equipment";
 import { calculateTotalBattleStats } from "./petStats";
 
 /**
@@ -30,7 +31,7 @@ export interface GrowthTickResult {
 /**
  * Process growth for a single tick.
  * Increments age and checks for stage/substage transitions.
- * Battle stats are recalculated on transitions as base + trained + bonus.
+ * Battle stats are recalculated on transitions as base + trained + bonus + equipment.
  */
 export function processGrowthTick(pet: Pet): GrowthTickResult {
   const newAgeTicks = pet.growth.ageTicks + 1;
@@ -73,12 +74,13 @@ export function processGrowthTick(pet: Pet): GrowthTickResult {
     previousStage = stageTransitioned ? pet.growth.stage : null;
     previousSubstage = pet.growth.substage;
 
-    // Recalculate total battle stats: new base + trained + bonus
+    // Recalculate total battle stats: new base + trained + bonus + equipment
     // This preserves training gains while updating base stats to match new stage
     newBattleStats = calculateTotalBattleStats(
       newStageStats.baseStats.battle,
       pet.trainedBattleStats,
       pet.bonusMaxStats.battle,
+      calculateEquipmentStatBonuses(pet.equipment),
     );
   }
 
@@ -8,6 +8,7 @@ import { calculateDamage } from "@/game/core/battle/damage";
 import { applyCareLifeChange } from "@/game/core/care/careLife";
 import { applyCareDecay } from "@/game/core/care/careStats";
 import { calculatePetMaxStats } from "@/game/core/petStats";
+import { createRng } from "@/game/core/rng";
 import {
   processGameTick,
   processMultipleTicks,
@@ -188,8 +189,18 @@ describe("Battle system integration", () => {
     const trials = 100;
 
     for (let i = 0; i < trials; i++) {
-      const weakResult = calculateDamage(attacker, weakDefender, move);
-      const tankResult = calculateDamage(attacker, tankDefender, move);
+      const weakResult = calculateDamage(
+        attacker,
+        weakDefender,
+        move,
+        createRng(i),
+      );
+      const tankResult = calculateDamage(
+        attacker,
+        tankDefender,
+        move,
+        createRng(i),
+      );
       if (weakResult.isHit) weakTotal += weakResult.damage;
       if (tankResult.isHit) tankTotal += tankResult.damage;
     }
@@ -246,8 +257,18 @@ describe("Battle system integration", () => {
     const trials = 100;
 
     for (let i = 0; i < trials; i++) {
-      const noResistResult = calculateDamage(attacker, noResistDefender, move);
-      const resistResult = calculateDamage(attacker, resistDefender, move);
+      const noResistResult = calculateDamage(
+        attacker,
+        noResistDefender,
+        move,
+        createRng(i),
+      );
+      const resistResult = calculateDamage(
+        attacker,
+        resistDefender,
+        move,
+        createRng(i),
+      );
       if (noResistResult.isHit) noResistTotal += noResistResult.damage;
       if (resistResult.isHit) resistTotal += resistResult.damage;
     }
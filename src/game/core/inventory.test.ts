@@ -3,11 +3,14 @@
  */
 
 import { expect, test } from "bun:test";
-import { DRINK_ITEMS, FOOD_ITEMS } from "@/game/data/items";
+import { DRINK_ITEMS, FOOD_ITEMS, TOY_ITEMS } from "@/game/data/items";
 import type { Inventory } from "@/game/types/gameState";
 import {
   addItem,
+  addItemWithinCapacity,
+  canAddItem,
   findInventoryItem,
+  getAddableQuantity,
   getItemQuantity,
   hasItem,
   removeItem,
@@ -139,3 +142,51 @@ test("addItem fills existing stack then creates overflow", () => {
   expect(updated.items[0]?.quantity).toBe(99);
   expect(updated.items[1]?.quantity).toBe(6);
 });
+
+test("getAddableQuantity counts room in existing stacks and free slots", () => {
+  const inventory: Inventory = {
+    items: [
+      { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 95, currentDurability: null },
+    ],
+  };
+  const maxStack = FOOD_ITEMS.KIBBLE.maxStack;
+
+  expect(getAddableQuantity(inventory, FOOD_ITEMS.KIBBLE.id, 1)).toBe(
+    maxStack - 95,
+  );
+  expect(getAddableQuantity(inventory, FOOD_ITEMS.KIBBLE.id, 3)).toBe(
+    maxStack - 95 + 2 * maxStack,
+  );
+  expect(getAddableQuantity(inventory, DRINK_ITEMS.WATER.id, 1)).toBe(0);
+  expect(getAddableQuantity(inventory, TOY_ITEMS.BALL.id, 3)).toBe(2);
+  expect(getAddableQuantity(inventory, "nonexistent", 3)).toBe(0);
+});
+
+test("canAddItem checks the whole quantity fits", () => {
+  const inventory = createInventoryWithItems();
+  expect(canAddItem(inventory, FOOD_ITEMS.KIBBLE.id, 10, 2)).toBe(true);
+  expect(canAddItem(inventory, FOOD_ITEMS.KIBBLE.id, 100, 2)).toBe(false);
+  expect(canAddItem(inventory, TOY_ITEMS.BALL.id, 1, 2)).toBe(false);
+  expect(canAddItem(inventory, TOY_ITEMS.BALL.id, 1, 3)).toBe(true);
+});
+
+test("addItemWithinCapacity adds what fits and reports the overflow", () => {
+  const inventory = createInventoryWithItems();
+
+  const result = addItemWithinCapacity(inventory, TOY_ITEMS.BALL.id, 3, 4);
+
+  expect(result.added).toBe(2);
+  expect(result.overflow).toBe(1);
+  expect(result.inventory.items).toHaveLength(4);
+  expect(getItemQuantity(result.inventory, TOY_ITEMS.BALL.id)).toBe(2);
+});
+
+test("addItemWithinCapacity returns the same inventory when full", () => {
+  const inventory = createInventoryWithItems();
+
+  const result = addItemWithinCapacity(inventory, TOY_ITEMS.BALL.id, 2, 2);
+
+  expect(result.inventory).toBe(inventory);
+  expect(result.added).toBe(0);
+  expect(result.overflow).toBe(2);
+});
@@ -5,6 +5,23 @@
 import { getItemById } from "@/game/data/items";
 import type { Inventory, InventoryItem } from "@/game/types/gameState";
 
+/**
+ * Maximum number of item stacks the player can carry.
+ */
+export const CARRIED_INVENTORY_CAPACITY = 30;
+
+/**
+ * Result of adding items to an inventory with limited capacity.
+ */
+export interface AddItemWithinCapacityResult {
+  /** Updated inventory */
+  inventory: Inventory;
+  /** Quantity added */
+  added: number;
+  /** Quantity that did not fit */
+  overflow: number;
+}
+
 /**
  * Find an inventory item by item ID.
  * For stackable items, returns the first matching stack.
@@ -112,6 +129,65 @@ export function addItem(
   return { items: newItems };
 }
 
+/**
+ * Get how many of an item still fit in an inventory holding at most
+ * `capacity` stacks. Stackable items first top up the existing stack.
+ */
+export function getAddableQuantity(
+  inventory: Inventory,
+  itemId: string,
+  capacity: number,
+): number {
+  const itemDef = getItemById(itemId);
+  if (!itemDef) return 0;
+
+  const freeSlots = Math.max(0, capacity - inventory.items.length);
+  if (!itemDef.stackable) return freeSlots;
+
+  const existing = findInventoryItem(inventory, itemId);
+  const existingSpace = existing
+    ? Math.max(0, itemDef.maxStack - existing.quantity)
+    : 0;
+  return existingSpace + freeSlots * itemDef.maxStack;
+}
+
+/**
+ * Check if an inventory holding at most `capacity` stacks has room for items.
+ */
+export function canAddItem(
+  inventory: Inventory,
+  itemId: string,
+  quantity: number,
+  capacity: number,
+): boolean {
+  return getAddableQuantity(inventory, itemId, capacity) >= quantity;
+}
+
+/**
+ * Add as many items as fit in an inventory holding at most `capacity` stacks.
+ * Existing stacks over the capacity (from older saves) are kept.
+ */
+export function addItemWithinCapacity(
+  inventory: Inventory,
+  itemId: string,
+  quantity: number,
+  capacity: number,
+  currentDurability: number | null = null,
+): AddItemWithinCapacityResult {
+  const added = Math.min(
+    quantity,
+    getAddableQuantity(inventory, itemId, capacity),
+  );
+  return {
+    inventory:
+      added > 0
+        ? addItem(inventory, itemId, added, currentDurability)
+        : inventory,
+    added,
+    overflow: quantity - added,
+  };
+}
+
 /**
  * Remove items from inventory.
  * Returns a new inventory object with the items removed.
@@ -14,9 +14,12 @@ import { createNewPet } from "@/game/data/starting";
 import { createSleepingTestPet } from "@/game/testing/createTestPet";
 import { setupTimeFreezing } from "@/game/testing/time";
 import { CURRENT_SAVE_VERSION } from "@/game/types";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
 import { ActivityState } from "@/game/types/constants";
 import type { GameState } from "@/game/types/gameState";
 import { createInitialSkills } from "@/game/types/skill";
+import { createInitialUnlocks } from "@/game/types/unlock";
 import {
   useCleaningItem,
   useDrinkItem,
@@ -40,6 +43,14 @@ function createTestState(): GameState {
     lastDailyReset: Date.now(),
     lastWeeklyReset: Date.now(),
     totalTicks: 0,
+    rngState: 1,
+    unlocks: createInitialUnlocks(),
+    combatRecord: createInitialCombatRecord(),
+    achievements: createInitialAchievementState(),
+    shopStock: {},
+    npcRelationships: {},
+    dialogueFlags: [],
+    skillTrainingSessionsToday: {},
     pet,
     player: {
       inventory: {
@@ -73,12 +84,15 @@ function createTestState(): GameState {
           { itemId: TOY_ITEMS.ROPE.id, quantity: 1, currentDurability: 3 },
         ],
       },
+      storage: { items: [] },
       currency: { coins: 100 },
       currentLocationId: "home",
       skills: createInitialSkills(),
     },
     quests: [],
     isInitialized: true,
+    benchedPets: [],
+    memorial: [],
     pendingEvents: [],
     pendingNotifications: [],
   };
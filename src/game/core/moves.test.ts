@@ -0,0 +1,203 @@
+/**
+ * Tests for pet moveset logic.
+ */
+
+import { expect, test } from "bun:test";
+import { createSequenceRng } from "@/game/core/rng";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { TrainingSessionType } from "@/game/types/activity";
+import { ActivityState } from "@/game/types/constants";
+import { DEFAULT_MOVE_SLOTS, MoveLearnSource } from "@/game/types/move";
+import {
+  equipMove,
+  getPetBattleMoves,
+  grantMove,
+  learnMove,
+  rollBattleMoveLearn,
+  rollTrainingMoveLearn,
+  unequipMove,
+} from "./moves";
+
+function createPetWithMoves(learned: string[], equipped: string[]) {
+  return createTestPet({ moves: { learned, equipped } });
+}
+
+// learnMove tests
+test("learnMove adds the move and equips it into a free slot", () => {
+  const result = learnMove(createTestPet(), "quick_strike");
+  expect(result.success).toBe(true);
+  expect(result.pet.moves.learned).toEqual(["quick_strike"]);
+  expect(result.pet.moves.equipped).toEqual(["quick_strike"]);
+});
+
+test("learnMove does not equip when all slots are full", () => {
+  const full = ["quick_strike", "power_slam", "venom_bite", "harden"];
+  const pet = createPetWithMoves(full, full);
+  const result = learnMove(pet, "heat_wave");
+  expect(result.success).toBe(true);
+  expect(result.pet.moves.learned).toContain("heat_wave");
+  expect(result.pet.moves.equipped).toEqual(full);
+  expect(result.pet.moves.equipped).toHaveLength(DEFAULT_MOVE_SLOTS);
+});
+
+test("learnMove fails for a move already learned", () => {
+  const pet = createPetWithMoves(["quick_strike"], ["quick_strike"]);
+  const result = learnMove(pet, "quick_strike");
+  expect(result.success).toBe(false);
+  expect(result.pet).toBe(pet);
+});
+
+test("learnMove fails for innate and unknown moves", () => {
+  expect(learnMove(createTestPet(), "basic_attack").success).toBe(false);
+  expect(learnMove(createTestPet(), "not_a_move").success).toBe(false);
+});
+
+// equipMove tests
+test("equipMove replaces the move in the target slot", () => {
+  const pet = createPetWithMoves(
+    ["quick_strike", "power_slam", "harden"],
+    ["quick_strike", "power_slam"],
+  );
+  const result = equipMove(pet, "harden", 0);
+  expect(result.success).toBe(true);
+  expect(result.pet.moves.equipped).toEqual(["harden", "power_slam"]);
+});
+
+test("equipMove swaps slots when the move is already equipped", () => {
+  const pet = createPetWithMoves(
+    ["quick_strike", "power_slam"],
+    ["quick_strike", "power_slam"],
+  );
+  const result = equipMove(pet, "power_slam", 0);
+  expect(result.success).toBe(true);
+  expect(result.pet.moves.equipped).toEqual(["power_slam", "quick_strike"]);
+});
+
+test("equipMove fills the next free slot when targeting past the end", () => {
+  const pet = createPetWithMoves(["quick_strike", "harden"], ["quick_strike"]);
+  const result = equipMove(pet, "harden", 3);
+  expect(result.success).toBe(true);
+  expect(result.pet.moves.equipped).toEqual(["quick_strike", "harden"]);
+});
+
+test("equipMove fails for moves not learned", () => {
+  const result = equipMove(createTestPet(), "quick_strike", 0);
+  expect(result.success).toBe(false);
+});
+
+test("equipMove fails for an invalid slot", () => {
+  const pet = createPetWithMoves(["quick_strike"], []);
+  expect(equipMove(pet, "quick_strike", -1).success).toBe(false);
+  expect(equipMove(pet, "quick_strike", DEFAULT_MOVE_SLOTS).success).toBe(
+    false,
+  );
+});
+
+test("equipMove fails during battle", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Battling,
+    moves: { learned: ["quick_strike"], equipped: [] },
+  });
+  const result = equipMove(pet, "quick_strike", 0);
+  expect(result.success).toBe(false);
+});
+
+// unequipMove tests
+test("unequipMove removes the move and shifts later slots down", () => {
+  const pet = createPetWithMoves(
+    ["quick_strike", "power_slam", "harden"],
+    ["quick_strike", "power_slam", "harden"],
+  );
+  const result = unequipMove(pet, 0);
+  expect(result.success).toBe(true);
+  expect(result.pet.moves.equipped).toEqual(["power_slam", "harden"]);
+  expect(result.pet.moves.learned).toHaveLength(3);
+});
+
+test("unequipMove fails for an empty slot", () => {
+  const result = unequipMove(createTestPet(), 0);
+  expect(result.success).toBe(false);
+});
+
+// getPetBattleMoves tests
+test("getPetBattleMoves includes innate moves followed by equipped moves", () => {
+  const pet = createPetWithMoves(["quick_strike", "harden"], ["harden"]);
+  const moveIds = getPetBattleMoves(pet).map((move) => move.id);
+  expect(moveIds).toEqual(["basic_attack", "rest", "harden"]);
+});
+
+// Roll tests
+test("rollTrainingMoveLearn picks from the facility's move pool", () => {
+  const pet = createTestPet();
+  expect(
+    rollTrainingMoveLearn(
+      pet,
+      "facility_agility",
+      TrainingSessionType.Basic,
+      createSequenceRng([0, 0]),
+    ),
+  ).toBe("quick_strike");
+});
+
+test("rollTrainingMoveLearn returns null when the roll fails", () => {
+  const pet = createTestPet();
+  expect(
+    rollTrainingMoveLearn(
+      pet,
+      "facility_strength",
+      TrainingSessionType.Advanced,
+      createSequenceRng([0.5, 0]),
+    ),
+  ).toBeNull();
+});
+
+test("rollTrainingMoveLearn skips moves already learned", () => {
+  const pet = createPetWithMoves(["quick_strike"], ["quick_strike"]);
+  expect(
+    rollTrainingMoveLearn(
+      pet,
+      "facility_agility",
+      TrainingSessionType.Basic,
+      createSequenceRng([0, 0]),
+    ),
+  ).toBeNull();
+});
+
+test("rollBattleMoveLearn returns a learnable move on a successful roll", () => {
+  const pet = createTestPet();
+  expect(rollBattleMoveLearn(pet, createSequenceRng([0, 0]))).toBe(
+    "quick_strike",
+  );
+  expect(rollBattleMoveLearn(pet, createSequenceRng([0.5, 0]))).toBeNull();
+});
+
+// grantMove tests
+test("grantMove teaches the move, emits an event and queues a notification", () => {
+  const state = createTestGameState();
+  const result = grantMove(state, "heat_wave", MoveLearnSource.Quest, 1000);
+  expect(result.learned).toBe(true);
+  expect(result.state.pet?.moves.learned).toEqual(["heat_wave"]);
+  expect(result.state.pendingEvents).toHaveLength(1);
+  expect(result.state.pendingEvents[0]?.type).toBe("moveLearned");
+  expect(result.state.pendingNotifications).toEqual([
+    {
+      type: "moveLearned",
+      petName: state.pet?.identity.name ?? "",
+      moveId: "heat_wave",
+      moveName: "Heat Wave",
+      source: MoveLearnSource.Quest,
+    },
+  ]);
+});
+
+test("grantMove leaves state unchanged when the move is already learned", () => {
+  const state = createTestGameState(
+    createPetWithMoves(["heat_wave"], ["heat_wave"]),
+  );
+  const result = grantMove(state, "heat_wave", MoveLearnSource.Battle);
+  expect(result.learned).toBe(false);
+  expect(result.state).toBe(state);
+});
@@ -0,0 +1,299 @@
+/**
+ * Pet moveset logic: learning moves and managing equipped move slots.
+ *
+ * Per spec (battle.md): All pets have innate moves (Basic Attack, Rest).
+ * Additional moves are acquired rarely via training, quest rewards and
+ * battles, and must be equipped into a limited number of move slots.
+ */
+
+import { emitEvent } from "@/game/core/events";
+import { type Rng, randomIndex } from "@/game/core/rng";
+import { getFacility, getSession } from "@/game/data/facilities";
+import { MoveMessages } from "@/game/data/messages";
+import {
+  getDefaultMoves,
+  getLearnableMoves,
+  getMoveById,
+  isLearnableMove,
+  TRAINING_MOVE_POOLS,
+} from "@/game/data/moves";
+import type { TrainingSessionType } from "@/game/types/activity";
+import { now } from "@/game/types/common";
+import { ActivityState } from "@/game/types/constants";
+import { createEvent, type MoveLearnedEvent } from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import {
+  DEFAULT_MOVE_SLOTS,
+  type Move,
+  type MoveLearnSource,
+} from "@/game/types/move";
+import type { Pet, PetMoves } from "@/game/types/pet";
+import { BATTLE_REWARD_CONSTANTS } from "./battle/constants";
+
+/**
+ * Result of a moveset change.
+ */
+export interface MoveChangeResult {
+  success: boolean;
+  pet: Pet;
+  message: string;
+}
+
+/**
+ * Create the default moveset for a new pet (no learned moves).
+ */
+export function createDefaultPetMoves(): PetMoves {
+  return {
+    learned: [],
+    equipped: [],
+  };
+}
+
+/**
+ * Check if the pet has learned a move.
+ */
+export function hasLearnedMove(pet: Pet, moveId: string): boolean {
+  return pet.moves.learned.includes(moveId);
+}
+
+/**
+ * Get the learned moves equipped in the pet's move slots, in slot order.
+ * Unknown move IDs are skipped.
+ */
+export function getEquippedMoves(pet: Pet): Move[] {
+  return pet.moves.equipped
+    .map((moveId) => getMoveById(moveId))
+    .filter((move): move is Move => move !== undefined);
+}
+
+/**
+ * Get all moves the pet can use in battle: innate moves followed by
+ * the moves equipped in its slots.
+ */
+export function getPetBattleMoves(pet: Pet): Move[] {
+  return [...getDefaultMoves(), ...getEquippedMoves(pet)];
+}
+
+/**
+ * Teach the pet a new move.
+ * The move is equipped automatically if a slot is free.
+ */
+export function learnMove(pet: Pet, moveId: string): MoveChangeResult {
+  const move = getMoveById(moveId);
+  if (!move || !isLearnableMove(moveId)) {
+    return { success: false, pet, message: MoveMessages.unknownMove };
+  }
+
+  if (hasLearnedMove(pet, moveId)) {
+    return {
+      success: false,
+      pet,
+      message: MoveMessages.alreadyLearned(move.name),
+    };
+  }
+
+  const hasFreeSlot = pet.moves.equipped.length < DEFAULT_MOVE_SLOTS;
+
+  return {
+    success: true,
+    pet: {
+      ...pet,
+      moves: {
+        learned: [...pet.moves.learned, moveId],
+        equipped: hasFreeSlot
+          ? [...pet.moves.equipped, moveId]
+          : pet.moves.equipped,
+      },
+    },
+    message: MoveMessages.learned(move.name),
+  };
+}
+
+/**
+ * Equip a learned move into a slot.
+ * Replaces the move already in that slot. If the move is equipped in another
+ * slot, the two slots are swapped. Slots past the last equipped move are
+ * filled in order.
+ */
+export function equipMove(
+  pet: Pet,
+  moveId: string,
+  slotIndex: number,
+): MoveChangeResult {
+  if (pet.activityState === ActivityState.Battling) {
+    return { success: false, pet, message: MoveMessages.inBattle };
+  }
+
+  const move = getMoveById(moveId);
+  if (!move || !hasLearnedMove(pet, moveId)) {
+    return { success: false, pet, message: MoveMessages.notLearned };
+  }
+
+  if (
+    !Number.isInteger(slotIndex) ||
+    slotIndex < 0 ||
+    slotIndex >= DEFAULT_MOVE_SLOTS
+  ) {
+    return { success: false, pet, message: MoveMessages.invalidSlot };
+  }
+
+  const equipped = [...pet.moves.equipped];
+  const currentIndex = equipped.indexOf(moveId);
+  const targetIndex = Math.min(slotIndex, equipped.length);
+
+  if (currentIndex === -1) {
+    equipped[targetIndex] = moveId;
+  } else if (targetIndex < equipped.length) {
+    const displaced = equipped[targetIndex] as string;
+    equipped[targetIndex] = moveId;
+    equipped[currentIndex] = displaced;
+  }
+
+  return {
+    success: true,
+    pet: { ...pet, moves: { ...pet.moves, equipped } },
+    message: MoveMessages.equipped(move.name),
+  };
+}
+
+/**
+ * Remove the move from a slot. Later slots shift down to fill the gap.
+ */
+export function unequipMove(pet: Pet, slotIndex: number): MoveChangeResult {
+  if (pet.activityState === ActivityState.Battling) {
+    return { success: false, pet, message: MoveMessages.inBattle };
+  }
+
+  const moveId = pet.moves.equipped[slotIndex];
+  if (moveId === undefined) {
+    return { success: false, pet, message: MoveMessages.slotEmpty };
+  }
+
+  return {
+    success: true,
+    pet: {
+      ...pet,
+      moves: {
+        ...pet.moves,
+        equipped: pet.moves.equipped.filter((_, i) => i !== slotIndex),
+      },
+    },
+    message: MoveMessages.unequipped(getMoveById(moveId)?.name ?? moveId),
+  };
+}
+
+/**
+ * Pick a move the pet has not learned yet from a list of candidates.
+ */
+function pickUnlearnedMove(
+  pet: Pet,
+  candidateIds: string[],
+  rng: Rng,
+): string | null {
+  const unlearned = candidateIds.filter((id) => !hasLearnedMove(pet, id));
+  if (unlearned.length === 0) return null;
+  return unlearned[randomIndex(rng, unlearned.length)] ?? null;
+}
+
+/**
+ * Roll for a move learned on training completion.
+ * The chance depends on the session intensity, and the move is picked from
+ * the facility type's move pool. Returns null if no move is learned.
+ */
+export function rollTrainingMoveLearn(
+  pet: Pet,
+  facilityId: string,
+  sessionType: TrainingSessionType,
+  rng: Rng,
+): string | null {
+  const facility = getFacility(facilityId);
+  const session = getSession(facilityId, sessionType);
+  if (!facility || !session) return null;
+
+  if (rng.next() >= session.moveLearnChance) return null;
+
+  return pickUnlearnedMove(
+    pet,
+    TRAINING_MOVE_POOLS[facility.facilityType],
+    rng,
+  );
+}
+
+/**
+ * Roll for a move learned after winning a battle (very rare).
+ * Returns null if no move is learned.
+ */
+export function rollBattleMoveLearn(pet: Pet, rng: Rng): string | null {
+  if (rng.next() >= BATTLE_REWARD_CONSTANTS.MOVE_LEARN_CHANCE) return null;
+
+  return pickUnlearnedMove(
+    pet,
+    getLearnableMoves().map((move) => move.id),
+    rng,
+  );
+}
+
+/**
+ * Create the event for a pet learning a move.
+ */
+export function createMoveLearnedEvent(
+  petName: string,
+  move: Move,
+  source: MoveLearnSource,
+  timestamp: number,
+): MoveLearnedEvent {
+  return createEvent<MoveLearnedEvent>(
+    {
+      type: "moveLearned",
+      petName,
+      moveId: move.id,
+      moveName: move.name,
+      source,
+    },
+    timestamp,
+  );
+}
+
+/**
+ * Teach the active pet a move at the game state level.
+ * Emits a moveLearned event and queues a notification for the player.
+ * Returns the state unchanged if there is no pet or the move cannot be learned.
+ */
+export function grantMove(
+  state: GameState,
+  moveId: string,
+  source: MoveLearnSource,
+  timestamp: number = now(),
+): { state: GameState; learned: boolean } {
+  if (!state.pet) return { state, learned: false };
+
+  const result = learnMove(state.pet, moveId);
+  const move = getMoveById(moveId);
+  if (!result.success || !move) return { state, learned: false };
+
+  const event = createMoveLearnedEvent(
+    result.pet.identity.name,
+    move,
+    source,
+    timestamp,
+  );
+
+  const stateWithEvent = emitEvent({ ...state, pet: result.pet }, event);
+
+  return {
+    state: {
+      ...stateWithEvent,
+      pendingNotifications: [
+        ...stateWithEvent.pendingNotifications,
+        {
+          type: "moveLearned",
+          petName: event.petName,
+          moveId: event.moveId,
+          moveName: event.moveName,
+          source,
+        },
+      ],
+    },
+    learned: true,
+  };
+}
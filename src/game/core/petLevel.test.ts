@@ -0,0 +1,145 @@
+/**
+ * Tests for pet experience and levels.
+ */
+
+import { expect, test } from "bun:test";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { GrowthStage } from "@/game/types/constants";
+import {
+  addPetExperience,
+  BASE_PET_XP,
+  getActivityExperience,
+  getPetLevelProgress,
+  grantPetExperience,
+  LEVEL_UP_STAT_GAIN,
+  MAX_PET_LEVEL,
+  petXpForNextLevel,
+} from "./petLevel";
+
+// Level curve tests
+
+test("petXpForNextLevel grows linearly with level", () => {
+  expect(petXpForNextLevel(1)).toBe(BASE_PET_XP);
+  expect(petXpForNextLevel(3)).toBe(BASE_PET_XP * 3);
+  expect(petXpForNextLevel(MAX_PET_LEVEL)).toBe(0);
+});
+
+test("getActivityExperience scales with energy cost", () => {
+  expect(getActivityExperience(10)).toBe(5);
+  expect(getActivityExperience(15)).toBe(7);
+});
+
+test("getPetLevelProgress returns percentage to next level", () => {
+  expect(getPetLevelProgress({ level: 1, currentXp: BASE_PET_XP / 2 })).toBe(
+    50,
+  );
+  expect(getPetLevelProgress({ level: MAX_PET_LEVEL, currentXp: 0 })).toBe(100);
+});
+
+// addPetExperience tests
+
+test("addPetExperience accumulates XP without levelling", () => {
+  const result = addPetExperience(createTestPet(), 5);
+
+  expect(result.levelsGained).toBe(0);
+  expect(result.pet.progression).toEqual({ level: 1, currentXp: 5 });
+  expect(result.statsGained).toEqual({});
+});
+
+test("addPetExperience levels up and raises battle stats", () => {
+  const pet = createTestPet({ growth: { stage: GrowthStage.Child } });
+  // Level 1 → 2 takes 20 XP, level 2 → 3 takes 40 XP
+  const result = addPetExperience(pet, 65);
+
+  expect(result.levelsGained).toBe(2);
+  expect(result.pet.progression).toEqual({ level: 3, currentXp: 5 });
+  expect(result.statsGained.strength).toBe(2 * LEVEL_UP_STAT_GAIN);
+  expect(result.pet.battleStats.strength).toBe(
+    pet.battleStats.strength + 2 * LEVEL_UP_STAT_GAIN,
+  );
+  expect(result.pet.trainedBattleStats.cunning).toBe(
+    pet.trainedBattleStats.cunning + 2 * LEVEL_UP_STAT_GAIN,
+  );
+});
+
+test("addPetExperience holds XP at the growth stage's level cap", () => {
+  const pet = createTestPet({
+    growth: { stage: GrowthStage.Baby },
+    progression: { level: 5, currentXp: 0 },
+  });
+  const result = addPetExperience(pet, 1000);
+
+  expect(result.levelsGained).toBe(0);
+  expect(result.pet.progression).toEqual({
+    level: 5,
+    currentXp: petXpForNextLevel(5),
+  });
+
+  // The held XP levels the pet once it grows into the next stage
+  const grown = addPetExperience(
+    {
+      ...result.pet,
+      growth: { ...result.pet.growth, stage: GrowthStage.Child },
+    },
+    1,
+  );
+  expect(grown.pet.progression).toEqual({ level: 6, currentXp: 1 });
+});
+
+// grantPetExperience tests
+
+test("grantPetExperience emits a level up event and notification", () => {
+  const state = createTestGameState(createTestPet());
+
+  const newState = grantPetExperience(state, BASE_PET_XP, 1000);
+
+  expect(newState.pet?.progression.level).toBe(2);
+  expect(newState.pendingEvents).toContainEqual(
+    expect.objectContaining({
+      type: "petLevelUp",
+      newLevel: 2,
+      timestamp: 1000,
+    }),
+  );
+  expect(newState.pendingNotifications).toContainEqual(
+    expect.objectContaining({ type: "petLevelUp", newLevel: 2 }),
+  );
+});
+
+test("grantPetExperience teaches moves unlocked by the levels reached", () => {
+  const state = createTestGameState(
+    createTestPet({
+      growth: { stage: GrowthStage.Child },
+      progression: { level: 4, currentXp: 0 },
+    }),
+  );
+
+  const newState = grantPetExperience(state, petXpForNextLevel(4));
+
+  expect(newState.pet?.progression.level).toBe(5);
+  expect(newState.pet?.moves.learned).toContain("quick_strike");
+  expect(newState.pendingNotifications).toContainEqual(
+    expect.objectContaining({ type: "moveLearned", source: "level" }),
+  );
+});
+
+test("grantPetExperience only stores XP without a level up", () => {
+  const state = createTestGameState(createTestPet());
+
+  const newState = grantPetExperience(state, 5);
+
+  expect(newState.pet?.progression.currentXp).toBe(5);
+  expect(newState.pendingEvents).toHaveLength(0);
+  expect(newState.pendingNotifications).toHaveLength(0);
+});
+
+test("grantPetExperience does nothing without a pet or XP", () => {
+  const noPet = createTestGameState(null);
+  expect(grantPetExperience(noPet, 50)).toBe(noPet);
+
+  const state = createTestGameState(createTestPet());
+  expect(grantPetExperience(state, 0)).toBe(state);
+});
@@ -0,0 +1,220 @@
+/**
+ * Pet experience and levels.
+ *
+ * Pets earn experience from battles, training and exploration. Each level
+ * raises every battle stat, and some levels teach a move. Levels are capped
+ * by growth stage, so a pet has to grow up to keep levelling.
+ */
+
+import { emitEvent } from "@/game/core/events";
+import { grantMove } from "@/game/core/moves";
+import { LEVEL_UP_MOVES } from "@/game/data/moves";
+import { now, PERCENTAGE_MAX } from "@/game/types/common";
+import type { GrowthStage } from "@/game/types/constants";
+import { createEvent, type PetLevelUpEvent } from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import { MoveLearnSource } from "@/game/types/move";
+import type { Pet, PetProgression } from "@/game/types/pet";
+import type { BattleStats } from "@/game/types/stats";
+
+/**
+ * Maximum pet level.
+ */
+export const MAX_PET_LEVEL = 50;
+
+/**
+ * Base XP constant for the level curve.
+ * Levelling from n to n + 1 takes BASE_PET_XP × n XP.
+ */
+export const BASE_PET_XP = 20;
+
+/**
+ * Highest level a pet can reach in each growth stage.
+ */
+export const PET_LEVEL_CAPS: Record<GrowthStage, number> = {
+  baby: 5,
+  child: 12,
+  teen: 25,
+  youngAdult: 40,
+  adult: MAX_PET_LEVEL,
+};
+
+/**
+ * Battle stat points gained in every stat per level.
+ */
+export const LEVEL_UP_STAT_GAIN = 1;
+
+/**
+ * Pet XP earned per point of energy spent on training or exploration.
+ */
+export const PET_XP_PER_ENERGY = 0.5;
+
+/**
+ * Battle stat points in every stat gained from levelling up to a level.
+ */
+export function getLevelUpStatTotal(level: number): number {
+  return Math.max(0, level - 1) * LEVEL_UP_STAT_GAIN;
+}
+
+/**
+ * Create the progression for a new pet (level 1, no XP).
+ */
+export function createDefaultPetProgression(): PetProgression {
+  return { level: 1, currentXp: 0 };
+}
+
+/**
+ * XP required to advance from the given level to the next.
+ */
+export function petXpForNextLevel(level: number): number {
+  if (level >= MAX_PET_LEVEL) return 0;
+  return BASE_PET_XP * level;
+}
+
+/**
+ * Get the highest level a pet can reach in its growth stage.
+ */
+export function getPetLevelCap(stage: GrowthStage): number {
+  return PET_LEVEL_CAPS[stage];
+}
+
+/**
+ * Pet XP earned by an activity, based on the energy it costs.
+ * @param energyCost - Energy cost in display units
+ */
+export function getActivityExperience(energyCost: number): number {
+  return Math.floor(energyCost * PET_XP_PER_ENERGY);
+}
+
+/**
+ * Calculate progress percentage to next level.
+ */
+export function getPetLevelProgress(progression: PetProgression): number {
+  const xpNeeded = petXpForNextLevel(progression.level);
+  if (xpNeeded <= 0) return PERCENTAGE_MAX;
+  return Math.min(
+    PERCENTAGE_MAX,
+    Math.round((progression.currentXp / xpNeeded) * PERCENTAGE_MAX),
+  );
+}
+
+/**
+ * Result of adding XP to a pet.
+ */
+export interface PetXpGainResult {
+  /** Updated pet */
+  pet: Pet;
+  /** Levels gained (0 if the pet did not level up) */
+  levelsGained: number;
+  /** Battle stats gained from the level ups */
+  statsGained: Partial<BattleStats>;
+}
+
+/**
+ * Add XP to a pet and process level ups.
+ * Each level adds LEVEL_UP_STAT_GAIN to every battle stat (stored with
+ * trained stats so it survives stage transitions). At the stage's level cap,
+ * XP fills up to the next level's requirement and is held until the pet
+ * grows into the next stage.
+ */
+export function addPetExperience(pet: Pet, xpAmount: number): PetXpGainResult {
+  const cap = getPetLevelCap(pet.growth.stage);
+  let level = pet.progression.level;
+  let currentXp = pet.progression.currentXp + Math.max(0, xpAmount);
+
+  while (level < cap) {
+    const xpNeeded = petXpForNextLevel(level);
+    if (currentXp < xpNeeded) break;
+    currentXp -= xpNeeded;
+    level++;
+  }
+
+  currentXp =
+    level >= MAX_PET_LEVEL ? 0 : Math.min(currentXp, petXpForNextLevel(level));
+
+  const levelsGained = level - pet.progression.level;
+  const gain = levelsGained * LEVEL_UP_STAT_GAIN;
+  const statsGained: Partial<BattleStats> = {};
+  const trainedBattleStats = { ...pet.trainedBattleStats };
+  const battleStats = { ...pet.battleStats };
+
+  if (gain > 0) {
+    for (const stat of Object.keys(trainedBattleStats) as Array<
+      keyof BattleStats
+    >) {
+      trainedBattleStats[stat] += gain;
+      battleStats[stat] += gain;
+      statsGained[stat] = gain;
+    }
+  }
+
+  return {
+    pet: {
+      ...pet,
+      progression: { level, currentXp },
+      trainedBattleStats,
+      battleStats,
+    },
+    levelsGained,
+    statsGained,
+  };
+}
+
+/**
+ * Award XP to the active pet at the game state level.
+ * Level ups emit a petLevelUp event, queue a notification for the player,
+ * and teach any moves unlocked at the levels reached.
+ */
+export function grantPetExperience(
+  state: GameState,
+  xpAmount: number,
+  timestamp: number = now(),
+): GameState {
+  if (!state.pet || xpAmount <= 0) return state;
+
+  const previousLevel = state.pet.progression.level;
+  const result = addPetExperience(state.pet, xpAmount);
+  const stateWithPet: GameState = { ...state, pet: result.pet };
+  if (result.levelsGained === 0) return stateWithPet;
+
+  const event = createEvent<PetLevelUpEvent>(
+    {
+      type: "petLevelUp",
+      petName: result.pet.identity.name,
+      newLevel: result.pet.progression.level,
+      statsGained: result.statsGained,
+    },
+    timestamp,
+  );
+  const stateWithEvent = emitEvent(stateWithPet, event);
+  let updatedState: GameState = {
+    ...stateWithEvent,
+    pendingNotifications: [
+      ...stateWithEvent.pendingNotifications,
+      {
+        type: "petLevelUp",
+        petName: event.petName,
+        newLevel: event.newLevel,
+        statsGained: event.statsGained,
+      },
+    ],
+  };
+
+  for (
+    let level = previousLevel + 1;
+    level <= result.pet.progression.level;
+    level++
+  ) {
+    const moveId = LEVEL_UP_MOVES[level];
+    if (moveId) {
+      updatedState = grantMove(
+        updatedState,
+        moveId,
+        MoveLearnSource.Level,
+        timestamp,
+      ).state;
+    }
+  }
+
+  return updatedState;
+}
@@ -97,23 +97,46 @@ export function calculatePetMaxStats(pet: Pet): PetMaxStats | null {
 }
 
 /**
- * Calculate total battle stats by combining base (from growth stage), trained, and bonus stats.
+ * Calculate total battle stats by combining base (from growth stage), trained, bonus
+ * and equipment stats.
  * Use this whenever you need to compute effective battle stats from their components.
  */
 export function calculateTotalBattleStats(
   baseStats: BattleStats,
   trainedStats: BattleStats,
   bonusStats: BattleStats,
+  equipmentStats: Partial<BattleStats> = {},
 ): BattleStats {
   return {
-    strength: baseStats.strength + trainedStats.strength + bonusStats.strength,
+    strength:
+      baseStats.strength +
+      trainedStats.strength +
+      bonusStats.strength +
+      (equipmentStats.strength ?? 0),
     endurance:
-      baseStats.endurance + trainedStats.endurance + bonusStats.endurance,
-    agility: baseStats.agility + trainedStats.agility + bonusStats.agility,
+      baseStats.endurance +
+      trainedStats.endurance +
+      bonusStats.endurance +
+      (equipmentStats.endurance ?? 0),
+    agility:
+      baseStats.agility +
+      trainedStats.agility +
+      bonusStats.agility +
+      (equipmentStats.agility ?? 0),
     precision:
-      baseStats.precision + trainedStats.precision + bonusStats.precision,
+      baseStats.precision +
+      trainedStats.precision +
+      bonusStats.precision +
+      (equipmentStats.precision ?? 0),
     fortitude:
-      baseStats.fortitude + trainedStats.fortitude + bonusStats.fortitude,
-    cunning: baseStats.cunning + trainedStats.cunning + bonusStats.cunning,
+      baseStats.fortitude +
+      trainedStats.fortitude +
+      bonusStats.fortitude +
+      (equipmentStats.fortitude ?? 0),
+    cunning:
+      baseStats.cunning +
+      trainedStats.cunning +
+      bonusStats.cunning +
+      (equipmentStats.cunning ?? 0),
   };
 }
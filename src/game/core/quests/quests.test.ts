@@ -11,11 +11,13 @@ import {
   test,
 } from "bun:test";
 import { dailyCareRoutine } from "@/game/data/quests/daily";
+import { mainCrystalDiscovery } from "@/game/data/quests/main";
 import {
   tutorialExploration,
   tutorialFirstSteps,
 } from "@/game/data/quests/tutorial";
 import { weeklyCaretaker } from "@/game/data/quests/weekly";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
 import { createInitialGameState, type GameState } from "@/game/types/gameState";
 import {
   ObjectiveType,
@@ -23,7 +25,9 @@ import {
   type QuestProgress,
   QuestState,
   QuestType,
+  RequirementType,
 } from "@/game/types/quest";
+import { QUEST_AFFINITY } from "../relationships";
 import { areAllRequiredObjectivesComplete } from "./objectives";
 import {
   completeQuest,
@@ -39,6 +43,7 @@ import {
   startTimedQuest,
   updateQuestProgress,
 } from "./quests";
+import { checkRequirement } from "./requirements";
 
 // Frozen time for deterministic tests: 2024-12-05T12:00:00.000Z
 const FROZEN_TIME = 1_733_400_000_000;
@@ -188,6 +193,22 @@ test("completeQuest succeeds when all objectives complete", () => {
   expect(result.state.quests[0]?.state).toBe(QuestState.Completed);
 });
 
+test("completeQuest raises affinity with the quest giver", () => {
+  const progress: QuestProgress = {
+    questId: tutorialFirstSteps.id,
+    state: QuestState.Active,
+    objectiveProgress: {
+      feed_pet: 1,
+      give_water: 1,
+    },
+  };
+  const state = createTestState({}, [progress]);
+  const result = completeQuest(state, tutorialFirstSteps.id);
+  expect(
+    result.state.npcRelationships[tutorialFirstSteps.giverId]?.affinity,
+  ).toBe(QUEST_AFFINITY);
+});
+
 test("completeQuest grants currency reward", () => {
   const progress: QuestProgress = {
     questId: tutorialFirstSteps.id,
@@ -224,6 +245,36 @@ test("completeQuest grants item reward", () => {
   expect(appleItem?.quantity).toBe(3);
 });
 
+test("completeQuest grants unlock reward once", () => {
+  const progress: QuestProgress = {
+    questId: mainCrystalDiscovery.id,
+    state: QuestState.Active,
+    objectiveProgress: Object.fromEntries(
+      mainCrystalDiscovery.objectives.map((o) => [o.id, o.quantity]),
+    ),
+  };
+  const state = createTestState({}, [progress]);
+  const result = completeQuest(state, mainCrystalDiscovery.id);
+  expect(result.success).toBe(true);
+  expect(result.state.unlocks.species).toEqual(["coralite"]);
+  expect(result.rewardsSummary).toContain("Unlocked: Coralite");
+});
+
+test("checkRequirement checks Battle requirements against the combat record", () => {
+  const requirement = {
+    type: RequirementType.Battle,
+    target: "any",
+    value: 2,
+  };
+  const state = createTestState();
+  expect(checkRequirement(state, requirement)).toBe(false);
+
+  const veteran = createTestState({
+    combatRecord: { ...createInitialCombatRecord(), wins: 2 },
+  });
+  expect(checkRequirement(veteran, requirement)).toBe(true);
+});
+
 test("updateQuestProgress advances matching objectives", () => {
   const progress: QuestProgress = {
     questId: tutorialFirstSteps.id,
@@ -2,6 +2,7 @@
  * Quest state machine and main quest logic.
  */
 
+import { modifyAffinity, QUEST_AFFINITY } from "@/game/core/relationships";
 import { getNextDailyReset, getNextWeeklyReset } from "@/game/core/time";
 import { getLocation } from "@/game/data/locations";
 import { QuestMessages } from "@/game/data/messages";
@@ -274,10 +275,17 @@ export function completeQuest(
   const newQuests = [...rewardResult.state.quests];
   newQuests[progressIndex] = updatedProgress;
 
+  // Completing a quest brings the player closer to the NPC who gave it
+  const rewardedState = modifyAffinity(
+    rewardResult.state,
+    quest.giverId,
+    QUEST_AFFINITY,
+  );
+
   return {
     success: true,
     state: {
-      ...rewardResult.state,
+      ...rewardedState,
       quests: newQuests,
     },
     message: QuestMessages.completedQuest(quest.name),
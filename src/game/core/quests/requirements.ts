@@ -2,6 +2,7 @@
  * Quest requirement checking logic.
  */
 
+import { getCombatRecordValue } from "@/game/core/combatRecord";
 import { GROWTH_STAGE_ORDER } from "@/game/types/constants";
 import type { GameState } from "@/game/types/gameState";
 import {
@@ -64,9 +65,11 @@ export function checkRequirement(
     }
 
     case RequirementType.Battle: {
-      // Check battle win count - would need a battleStats tracker in GameState
-      // For now, return true as we don't track this yet
-      return true;
+      // Target is a combat stat, "any" (total wins), a species or a location
+      return (
+        getCombatRecordValue(state.combatRecord, requirement.target) >=
+        (requirement.value ?? 1)
+      );
     }
 
     default:
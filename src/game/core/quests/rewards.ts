@@ -2,11 +2,16 @@
  * Quest reward granting logic.
  */
 
-import { addItem } from "@/game/core/inventory";
+import { grantMove } from "@/game/core/moves";
 import { addXpToPlayerSkill } from "@/game/core/skills";
+import { describeItemOverflow, receiveItem } from "@/game/core/storage";
+import { getUnlockDisplayName, grantUnlock } from "@/game/core/unlocks";
+import { getMoveById } from "@/game/data/moves";
 import type { GameState } from "@/game/types/gameState";
+import { MoveLearnSource } from "@/game/types/move";
 import { type QuestReward, RewardType } from "@/game/types/quest";
 import { SkillType } from "@/game/types/skill";
+import { UnlockType } from "@/game/types/unlock";
 
 /**
  * Result of granting rewards.
@@ -44,24 +49,16 @@ function grantReward(
     }
 
     case RewardType.Item: {
-      const newInventory = addItem(
-        state.player.inventory,
-        reward.target,
-        reward.quantity,
-      );
-      // Check if item was actually added by comparing inventory reference
-      // addItem returns the original inventory unchanged when item doesn't exist
-      const itemAdded = newInventory !== state.player.inventory;
-      const newState: GameState = {
-        ...state,
-        player: {
-          ...state.player,
-          inventory: newInventory,
-        },
-      };
+      // Items that do not fit in the bag are sent to storage
+      const result = receiveItem(state, reward.target, reward.quantity);
+      if (result.carried + result.stored + result.lost === 0) {
+        return { state, summary: "" };
+      }
+      const summary = `${reward.quantity}x ${reward.target}`;
+      const overflowNote = describeItemOverflow(reward.target, result);
       return {
-        state: newState,
-        summary: itemAdded ? `${reward.quantity}x ${reward.target}` : "",
+        state: result.state,
+        summary: overflowNote ? `${summary} (${overflowNote})` : summary,
       };
     }
 
@@ -92,11 +89,31 @@ function grantReward(
     }
 
     case RewardType.Unlock: {
-      // Unlock rewards would modify unlocked features/locations
-      // For now, just return a summary - would need unlock tracking in GameState
+      const unlockType = reward.unlockType;
+      if (!unlockType || !Object.values(UnlockType).includes(unlockType)) {
+        console.warn(
+          `[QuestReward] Missing or invalid unlock type for "${reward.target}". Reward skipped.`,
+        );
+        return { state, summary: "" };
+      }
+      // Content that is already unlocked is skipped
+      const result = grantUnlock(state, unlockType, reward.target);
+      return {
+        state: result.state,
+        summary: result.unlocked
+          ? `Unlocked: ${getUnlockDisplayName(unlockType, reward.target)}`
+          : "",
+      };
+    }
+
+    case RewardType.Move: {
+      // Moves are taught to the active pet; already known moves are skipped
+      const result = grantMove(state, reward.target, MoveLearnSource.Quest);
       return {
-        state,
-        summary: `Unlocked: ${reward.target}`,
+        state: result.state,
+        summary: result.learned
+          ? `Move: ${getMoveById(reward.target)?.name ?? reward.target}`
+          : "",
       };
     }
 
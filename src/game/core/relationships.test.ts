@@ -0,0 +1,140 @@
+/**
+ * Tests for NPC relationships.
+ */
+
+import { expect, test } from "bun:test";
+import { FOOD_ITEMS } from "@/game/data/items";
+import { DialogueMessages } from "@/game/data/messages";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import { AffinityLevel } from "@/game/types/npc";
+import { SkillType } from "@/game/types/skill";
+import {
+  DAILY_SOCIAL_XP_PER_NPC,
+  DIALOGUE_CHOICE_SOCIAL_XP,
+  GIFT_AFFINITY_BY_RARITY,
+  getAffinity,
+  getAffinityLevel,
+  getNpcRelationship,
+  giftItem,
+  grantDialogueSocialXp,
+  MAX_AFFINITY,
+  modifyAffinity,
+  resetDailyRelationships,
+  TALK_AFFINITY,
+  talkToNpc,
+} from "./relationships";
+
+const MIRA = "shopkeeper_mira";
+
+function createStateWithApples(quantity = 2) {
+  return createTestGameState(undefined, {
+    player: {
+      inventory: {
+        items: [
+          {
+            itemId: FOOD_ITEMS.APPLE.id,
+            quantity,
+            currentDurability: null,
+          },
+        ],
+      },
+    },
+  });
+}
+
+test("NPCs the player has not met have no affinity", () => {
+  expect(getNpcRelationship(createTestGameState(), MIRA)).toEqual({
+    affinity: 0,
+    talkedToday: false,
+    giftedToday: false,
+    socialXpToday: 0,
+  });
+});
+
+test("getAffinityLevel picks the highest level reached", () => {
+  expect(getAffinityLevel(0)).toBe(AffinityLevel.Stranger);
+  expect(getAffinityLevel(29)).toBe(AffinityLevel.Acquaintance);
+  expect(getAffinityLevel(30)).toBe(AffinityLevel.Friend);
+  expect(getAffinityLevel(MAX_AFFINITY)).toBe(AffinityLevel.BestFriend);
+});
+
+test("modifyAffinity keeps affinity between 0 and the maximum", () => {
+  const state = createTestGameState();
+
+  expect(getAffinity(modifyAffinity(state, MIRA, 500), MIRA)).toBe(
+    MAX_AFFINITY,
+  );
+  expect(getAffinity(modifyAffinity(state, MIRA, -5), MIRA)).toBe(0);
+  expect(modifyAffinity(state, "unknown_npc", 5)).toBe(state);
+});
+
+test("talkToNpc raises affinity once a day", () => {
+  const talked = talkToNpc(createTestGameState(), MIRA);
+
+  expect(getAffinity(talked, MIRA)).toBe(TALK_AFFINITY);
+  expect(talkToNpc(talked, MIRA)).toBe(talked);
+  expect(
+    getAffinity(talkToNpc(resetDailyRelationships(talked), MIRA), MIRA),
+  ).toBe(TALK_AFFINITY * 2);
+});
+
+test("giftItem takes the item and raises affinity by its rarity", () => {
+  const result = giftItem(createStateWithApples(), MIRA, FOOD_ITEMS.APPLE.id);
+
+  expect(result.success).toBe(true);
+  expect(result.message).toBe(
+    DialogueMessages.giftAccepted("Mira", FOOD_ITEMS.APPLE.name),
+  );
+  expect(result.state.player.inventory.items[0]?.quantity).toBe(1);
+  expect(getAffinity(result.state, MIRA)).toBe(
+    GIFT_AFFINITY_BY_RARITY[FOOD_ITEMS.APPLE.rarity],
+  );
+});
+
+test("giftItem allows one gift per NPC a day", () => {
+  const { state } = giftItem(
+    createStateWithApples(),
+    MIRA,
+    FOOD_ITEMS.APPLE.id,
+  );
+
+  const again = giftItem(state, MIRA, FOOD_ITEMS.APPLE.id);
+  expect(again.success).toBe(false);
+  expect(again.message).toBe(DialogueMessages.alreadyGifted("Mira"));
+  expect(again.state).toBe(state);
+
+  expect(
+    giftItem(resetDailyRelationships(state), MIRA, FOOD_ITEMS.APPLE.id).success,
+  ).toBe(true);
+});
+
+test("giftItem fails for items the player doesn't carry", () => {
+  const state = createTestGameState();
+
+  const result = giftItem(state, MIRA, FOOD_ITEMS.APPLE.id);
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(DialogueMessages.itemNotOwned);
+  expect(result.state).toBe(state);
+});
+
+test("grantDialogueSocialXp awards Social XP up to a daily limit per NPC", () => {
+  let state = createTestGameState();
+  let total = 0;
+  for (let i = 0; i < DAILY_SOCIAL_XP_PER_NPC; i++) {
+    const result = grantDialogueSocialXp(state, MIRA);
+    state = result.state;
+    total += result.xpGained;
+  }
+
+  expect(total).toBe(DAILY_SOCIAL_XP_PER_NPC);
+  expect(state.player.skills[SkillType.Social].currentXp).toBe(
+    DAILY_SOCIAL_XP_PER_NPC,
+  );
+  expect(grantDialogueSocialXp(state, "trainer_oak").xpGained).toBe(
+    DIALOGUE_CHOICE_SOCIAL_XP,
+  );
+  expect(
+    grantDialogueSocialXp(resetDailyRelationships(state), MIRA).xpGained,
+  ).toBe(DIALOGUE_CHOICE_SOCIAL_XP);
+});
@@ -0,0 +1,265 @@
+/**
+ * NPC relationships: affinity, gifts and Social XP from dialogue.
+ *
+ * Affinity with an NPC rises when the player talks to them for the first
+ * time each day, gives them a gift or completes one of their quests.
+ * Dialogue choices can also change it, and gate choices behind it.
+ */
+
+import { removeItem } from "@/game/core/inventory";
+import { addXpToPlayerSkill } from "@/game/core/skills";
+import { getItemById } from "@/game/data/items";
+import { DialogueMessages } from "@/game/data/messages";
+import { getNpc } from "@/game/data/npcs";
+import { Rarity } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+import {
+  AFFINITY_LEVEL_THRESHOLDS,
+  AffinityLevel,
+  type NpcRelationship,
+} from "@/game/types/npc";
+import { SkillType } from "@/game/types/skill";
+
+/**
+ * Maximum affinity with an NPC.
+ */
+export const MAX_AFFINITY = 100;
+
+/**
+ * Affinity gained from the first conversation with an NPC each day.
+ */
+export const TALK_AFFINITY = 1;
+
+/**
+ * Affinity gained from completing one of an NPC's quests.
+ */
+export const QUEST_AFFINITY = 10;
+
+/**
+ * Affinity gained from a gift, by the gifted item's rarity.
+ */
+export const GIFT_AFFINITY_BY_RARITY: Record<Rarity, number> = {
+  [Rarity.Common]: 2,
+  [Rarity.Uncommon]: 4,
+  [Rarity.Rare]: 6,
+  [Rarity.Epic]: 8,
+  [Rarity.Legendary]: 12,
+};
+
+/**
+ * Social XP gained from each dialogue choice.
+ */
+export const DIALOGUE_CHOICE_SOCIAL_XP = 2;
+
+/**
+ * Maximum Social XP from a single NPC's dialogue each day.
+ */
+export const DAILY_SOCIAL_XP_PER_NPC = 20;
+
+/**
+ * Result of a relationship action.
+ */
+export interface RelationshipActionResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Get the player's relationship with an NPC. NPCs the player has not met
+ * have no affinity yet.
+ */
+export function getNpcRelationship(
+  state: GameState,
+  npcId: string,
+): NpcRelationship {
+  return (
+    state.npcRelationships[npcId] ?? {
+      affinity: 0,
+      talkedToday: false,
+      giftedToday: false,
+      socialXpToday: 0,
+    }
+  );
+}
+
+/**
+ * Get the player's affinity with an NPC.
+ */
+export function getAffinity(state: GameState, npcId: string): number {
+  return getNpcRelationship(state, npcId).affinity;
+}
+
+/**
+ * Get the relationship level reached at an affinity.
+ */
+export function getAffinityLevel(affinity: number): AffinityLevel {
+  const levels = Object.values(AffinityLevel);
+  for (let i = levels.length - 1; i >= 0; i--) {
+    const level = levels[i];
+    if (level && affinity >= AFFINITY_LEVEL_THRESHOLDS[level]) {
+      return level;
+    }
+  }
+  return AffinityLevel.Stranger;
+}
+
+/**
+ * Update the player's relationship with an NPC.
+ */
+function updateRelationship(
+  state: GameState,
+  npcId: string,
+  update: (relationship: NpcRelationship) => NpcRelationship,
+): GameState {
+  return {
+    ...state,
+    npcRelationships: {
+      ...state.npcRelationships,
+      [npcId]: update(getNpcRelationship(state, npcId)),
+    },
+  };
+}
+
+/**
+ * Change affinity with an NPC, keeping it between 0 and the maximum.
+ * Unknown NPCs are ignored.
+ */
+export function modifyAffinity(
+  state: GameState,
+  npcId: string,
+  amount: number,
+): GameState {
+  if (!getNpc(npcId) || amount === 0) return state;
+  return updateRelationship(state, npcId, (relationship) => ({
+    ...relationship,
+    affinity: Math.max(
+      0,
+      Math.min(MAX_AFFINITY, relationship.affinity + amount),
+    ),
+  }));
+}
+
+/**
+ * Record a conversation with an NPC. The first conversation each day
+ * raises affinity.
+ */
+export function talkToNpc(state: GameState, npcId: string): GameState {
+  if (!getNpc(npcId) || getNpcRelationship(state, npcId).talkedToday) {
+    return state;
+  }
+  const talked = updateRelationship(state, npcId, (relationship) => ({
+    ...relationship,
+    talkedToday: true,
+  }));
+  return modifyAffinity(talked, npcId, TALK_AFFINITY);
+}
+
+/**
+ * Give an NPC an item from the carried inventory. Each NPC accepts one gift
+ * a day, and rarer gifts raise affinity more.
+ */
+export function giftItem(
+  state: GameState,
+  npcId: string,
+  itemId: string,
+): RelationshipActionResult {
+  const npc = getNpc(npcId);
+  if (!npc) {
+    return { success: false, state, message: DialogueMessages.npcNotFound };
+  }
+
+  if (getNpcRelationship(state, npcId).giftedToday) {
+    return {
+      success: false,
+      state,
+      message: DialogueMessages.alreadyGifted(npc.name),
+    };
+  }
+
+  const item = getItemById(itemId);
+  const inventory = removeItem(state.player.inventory, itemId);
+  if (!item || inventory === state.player.inventory) {
+    return { success: false, state, message: DialogueMessages.itemNotOwned };
+  }
+
+  const gifted = updateRelationship(
+    { ...state, player: { ...state.player, inventory } },
+    npcId,
+    (relationship) => ({ ...relationship, giftedToday: true }),
+  );
+  return {
+    success: true,
+    state: modifyAffinity(gifted, npcId, GIFT_AFFINITY_BY_RARITY[item.rarity]),
+    message: DialogueMessages.giftAccepted(npc.name, item.name),
+  };
+}
+
+/**
+ * Award Social XP for a dialogue choice with an NPC, up to the daily limit
+ * for that NPC.
+ */
+export function grantDialogueSocialXp(
+  state: GameState,
+  npcId: string,
+  xp: number = DIALOGUE_CHOICE_SOCIAL_XP,
+): { state: GameState; xpGained: number; leveledUp: boolean } {
+  const relationship = getNpcRelationship(state, npcId);
+  const cappedXp = Math.min(
+    xp,
+    DAILY_SOCIAL_XP_PER_NPC - relationship.socialXpToday,
+  );
+  if (!getNpc(npcId) || cappedXp <= 0) {
+    return { state, xpGained: 0, leveledUp: false };
+  }
+
+  const { skills, result } = addXpToPlayerSkill(
+    state.player.skills,
+    SkillType.Social,
+    cappedXp,
+  );
+  const updated = updateRelationship(
+    { ...state, player: { ...state.player, skills } },
+    npcId,
+    (current) => ({
+      ...current,
+      socialXpToday: current.socialXpToday + cappedXp,
+    }),
+  );
+  return {
+    state: updated,
+    xpGained: result.xpGained,
+    leveledUp: result.leveledUp,
+  };
+}
+
+/**
+ * Check if a dialogue flag is set.
+ */
+export function hasDialogueFlag(state: GameState, flag: string): boolean {
+  return state.dialogueFlags.includes(flag);
+}
+
+/**
+ * Set a dialogue flag.
+ */
+export function setDialogueFlag(state: GameState, flag: string): GameState {
+  if (hasDialogueFlag(state, flag)) return state;
+  return { ...state, dialogueFlags: [...state.dialogueFlags, flag] };
+}
+
+/**
+ * Clear the daily conversation, gift and Social XP tracking for every NPC.
+ */
+export function resetDailyRelationships(state: GameState): GameState {
+  const npcRelationships: Record<string, NpcRelationship> = {};
+  for (const [npcId, relationship] of Object.entries(state.npcRelationships)) {
+    npcRelationships[npcId] = {
+      ...relationship,
+      talkedToday: false,
+      giftedToday: false,
+      socialXpToday: 0,
+    };
+  }
+  return { ...state, npcRelationships };
+}
@@ -0,0 +1,170 @@
+/**
+ * Tests for inns and rest points.
+ */
+
+import { expect, test } from "bun:test";
+import { calculatePetMaxStats } from "@/game/core/petStats";
+import { innNap, innNight } from "@/game/data/innStays";
+import { RestMessages } from "@/game/data/messages";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { ActivityState } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+import { FacilityType } from "@/game/types/location";
+import type { Pet } from "@/game/types/pet";
+import {
+  getRestPointCooldownRemaining,
+  processInnStayTick,
+  REST_POINT_COOLDOWN_TICKS,
+  REST_POINT_ENERGY_RESTORE,
+  restAtRestPoint,
+  startInnStay,
+} from "./rest";
+
+function createRestState(
+  locationId: string,
+  pet: Pet = createTestPet(),
+  coins = 100,
+): GameState {
+  return createTestGameState(pet, {
+    player: { currency: { coins }, currentLocationId: locationId },
+  });
+}
+
+function getMaxCareStats(pet: Pet) {
+  const maxStats = calculatePetMaxStats(pet);
+  if (!maxStats) throw new Error("Missing max stats");
+  return maxStats.care;
+}
+
+test("startInnStay charges the cost and puts the pet to bed", () => {
+  const result = startInnStay(createRestState("willowbrook"), innNap.id);
+
+  expect(result.success).toBe(true);
+  expect(result.message).toBe(RestMessages.checkedIn("Test Pet", innNap.name));
+  expect(result.state.player.currency.coins).toBe(100 - innNap.cost);
+  expect(result.state.pet?.activityState).toBe(ActivityState.Sleeping);
+  expect(result.state.pet?.sleep.isSleeping).toBe(true);
+  expect(result.state.pet?.activeInnStay).toEqual({
+    stayId: innNap.id,
+    locationId: "willowbrook",
+    durationTicks: innNap.durationTicks,
+    ticksRemaining: innNap.durationTicks,
+  });
+});
+
+test("startInnStay requires an inn at the current location", () => {
+  const result = startInnStay(createRestState("meadow"), innNap.id);
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(RestMessages.noInn);
+});
+
+test("startInnStay requires enough coins", () => {
+  const state = createRestState("willowbrook", createTestPet(), 0);
+  const result = startInnStay(state, innNap.id);
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(RestMessages.notEnoughCoins(innNap.cost));
+});
+
+test("startInnStay requires an idle pet", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Sleeping,
+    sleep: { isSleeping: true, sleepStartTime: 0, sleepTicksToday: 0 },
+  });
+  const result = startInnStay(createRestState("willowbrook", pet), innNap.id);
+
+  expect(result.success).toBe(false);
+  expect(result.state.player.currency.coins).toBe(100);
+});
+
+test("processInnStayTick wakes the pet and restores care when the stay ends", () => {
+  const pet = createTestPet({
+    careStats: { satiety: 10_000, hydration: 10_000, happiness: 10_000 },
+    activityState: ActivityState.Sleeping,
+    sleep: { isSleeping: true, sleepStartTime: 0, sleepTicksToday: 50 },
+    activeInnStay: {
+      stayId: innNight.id,
+      locationId: "willowbrook",
+      durationTicks: innNight.durationTicks,
+      ticksRemaining: 1,
+    },
+  });
+  const maxCare = getMaxCareStats(pet);
+
+  const updated = processInnStayTick(pet, maxCare);
+
+  expect(updated.activeInnStay).toBeUndefined();
+  expect(updated.activityState).toBe(ActivityState.Idle);
+  expect(updated.sleep.isSleeping).toBe(false);
+  expect(updated.sleep.sleepTicksToday).toBe(50);
+  expect(updated.careStats.satiety).toBe(
+    10_000 + Math.floor(maxCare.satiety * innNight.careRestore),
+  );
+});
+
+test("restAtRestPoint restores energy and starts the cooldown", () => {
+  const pet = createTestPet({ energyStats: { energy: 10_000 } });
+  const maxEnergy = calculatePetMaxStats(pet)?.energy ?? 0;
+  const state = { ...createRestState("meadow", pet), totalTicks: 100 };
+
+  const result = restAtRestPoint(state);
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet?.energyStats.energy).toBe(
+    10_000 + Math.floor(maxEnergy * REST_POINT_ENERGY_RESTORE),
+  );
+  expect(
+    result.state.pet?.activityCooldowns?.meadow?.[FacilityType.RestPoint],
+  ).toBe(100 + REST_POINT_COOLDOWN_TICKS);
+});
+
+test("restAtRestPoint is unavailable until the cooldown ends", () => {
+  const pet = createTestPet({ energyStats: { energy: 10_000 } });
+  const rested = restAtRestPoint(createRestState("meadow", pet)).state;
+  const restedPet = rested.pet;
+  if (!restedPet) throw new Error("Missing pet");
+
+  const again = restAtRestPoint({
+    ...rested,
+    pet: { ...restedPet, energyStats: { energy: 10_000 } },
+  });
+  expect(again.success).toBe(false);
+  expect(getRestPointCooldownRemaining(restedPet, "meadow", 0)).toBe(
+    REST_POINT_COOLDOWN_TICKS,
+  );
+
+  // Other rest points are unaffected
+  expect(getRestPointCooldownRemaining(restedPet, "misty_woods", 0)).toBe(0);
+
+  const later = restAtRestPoint({
+    ...rested,
+    pet: { ...restedPet, energyStats: { energy: 10_000 } },
+    totalTicks: REST_POINT_COOLDOWN_TICKS,
+  });
+  expect(later.success).toBe(true);
+});
+
+test("restAtRestPoint requires a rest point at the current location", () => {
+  const result = restAtRestPoint(createRestState("willowbrook"));
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(RestMessages.noRestPoint);
+});
+
+test("restAtRestPoint does nothing at full energy", () => {
+  const pet = createTestPet();
+  const maxEnergy = calculatePetMaxStats(pet)?.energy ?? 0;
+  const result = restAtRestPoint(
+    createRestState(
+      "meadow",
+      createTestPet({ energyStats: { energy: maxEnergy } }),
+    ),
+  );
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(RestMessages.alreadyRested("Test Pet"));
+});
@@ -0,0 +1,247 @@
+/**
+ * Resting at inns and rest points.
+ *
+ * Town inns offer paid stays: the pet sleeps for the length of the stay,
+ * restoring energy faster than ordinary sleep, and wakes when it ends.
+ * Rest points in the wild restore part of the pet's energy for free, once
+ * per cooldown at each location.
+ */
+
+import { checkActivityIdle } from "@/game/core/activityGating";
+import type { MaxCareStats } from "@/game/core/care/careLife";
+import { getActivityCooldownRemaining } from "@/game/core/exploration/exploration";
+import { calculatePetMaxStats } from "@/game/core/petStats";
+import { canAfford, spendCoins } from "@/game/core/shop";
+import { getInnStay } from "@/game/data/innStays";
+import { getLocation } from "@/game/data/locations";
+import { RestMessages } from "@/game/data/messages";
+import type { Tick } from "@/game/types/common";
+import {
+  formatTicksAsTime,
+  now,
+  TICKS_PER_HOUR,
+  toDisplay,
+} from "@/game/types/common";
+import { ActivityState } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+import { FacilityType } from "@/game/types/location";
+import type { Pet } from "@/game/types/pet";
+
+/**
+ * Share of max energy restored by a rest point (0.0 to 1.0).
+ */
+export const REST_POINT_ENERGY_RESTORE = 0.25;
+
+/**
+ * Ticks before the same rest point can be used again.
+ */
+export const REST_POINT_COOLDOWN_TICKS: Tick = 4 * TICKS_PER_HOUR;
+
+/**
+ * Activity reason string for rest gating checks.
+ */
+const REST_ACTIVITY_REASON = "rest";
+
+/**
+ * Result of a rest action.
+ */
+export interface RestResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Check if the player's current location has a facility.
+ */
+function hasFacility(state: GameState, facility: FacilityType): boolean {
+  return (
+    getLocation(state.player.currentLocationId)?.facilities.includes(
+      facility,
+    ) ?? false
+  );
+}
+
+/**
+ * Check if the player's current location has an inn.
+ */
+export function hasInnAccess(state: GameState): boolean {
+  return hasFacility(state, FacilityType.Inn);
+}
+
+/**
+ * Check if the player's current location has a rest point.
+ */
+export function hasRestPointAccess(state: GameState): boolean {
+  return hasFacility(state, FacilityType.RestPoint);
+}
+
+/**
+ * Get the ticks until the rest point at a location can be used again.
+ */
+export function getRestPointCooldownRemaining(
+  pet: Pet,
+  locationId: string,
+  currentTick: Tick,
+): Tick {
+  return getActivityCooldownRemaining(
+    pet,
+    locationId,
+    FacilityType.RestPoint,
+    currentTick,
+  );
+}
+
+/**
+ * Pay for an inn stay and put the pet to bed for its length.
+ */
+export function startInnStay(state: GameState, stayId: string): RestResult {
+  const pet = state.pet;
+  if (!pet) {
+    return { success: false, state, message: RestMessages.petRequired };
+  }
+
+  if (!hasInnAccess(state)) {
+    return { success: false, state, message: RestMessages.noInn };
+  }
+
+  const stay = getInnStay(stayId);
+  if (!stay) {
+    return { success: false, state, message: RestMessages.stayNotFound };
+  }
+
+  const activityCheck = checkActivityIdle(pet, REST_ACTIVITY_REASON);
+  if (!activityCheck.allowed) {
+    return { success: false, state, message: activityCheck.message };
+  }
+
+  if (!canAfford(state, stay.cost)) {
+    return {
+      success: false,
+      state,
+      message: RestMessages.notEnoughCoins(stay.cost),
+    };
+  }
+
+  return {
+    success: true,
+    state: {
+      ...spendCoins(state, stay.cost),
+      pet: {
+        ...pet,
+        activityState: ActivityState.Sleeping,
+        sleep: { ...pet.sleep, isSleeping: true, sleepStartTime: now() },
+        activeInnStay: {
+          stayId: stay.id,
+          locationId: state.player.currentLocationId,
+          durationTicks: stay.durationTicks,
+          ticksRemaining: stay.durationTicks,
+        },
+      },
+    },
+    message: RestMessages.checkedIn(pet.identity.name, stay.name),
+  };
+}
+
+/**
+ * Advance the pet's inn stay by one tick. When the stay ends, the stay's
+ * share of each care stat is restored and the pet wakes up.
+ */
+export function processInnStayTick(pet: Pet, maxCareStats: MaxCareStats): Pet {
+  const innStay = pet.activeInnStay;
+  if (!innStay) {
+    return pet;
+  }
+
+  const ticksRemaining = innStay.ticksRemaining - 1;
+  if (ticksRemaining > 0) {
+    return { ...pet, activeInnStay: { ...innStay, ticksRemaining } };
+  }
+
+  const careRestore = getInnStay(innStay.stayId)?.careRestore ?? 0;
+  const restore = (current: number, max: number) =>
+    Math.min(max, current + Math.floor(max * careRestore));
+
+  return {
+    ...pet,
+    careStats: {
+      satiety: restore(pet.careStats.satiety, maxCareStats.satiety),
+      hydration: restore(pet.careStats.hydration, maxCareStats.hydration),
+      happiness: restore(pet.careStats.happiness, maxCareStats.happiness),
+    },
+    activityState: ActivityState.Idle,
+    sleep: { ...pet.sleep, isSleeping: false, sleepStartTime: null },
+    activeInnStay: undefined,
+  };
+}
+
+/**
+ * Rest at the current location's rest point, restoring part of the pet's
+ * energy and starting the rest point's cooldown.
+ */
+export function restAtRestPoint(state: GameState): RestResult {
+  const pet = state.pet;
+  if (!pet) {
+    return { success: false, state, message: RestMessages.petRequired };
+  }
+
+  if (!hasRestPointAccess(state)) {
+    return { success: false, state, message: RestMessages.noRestPoint };
+  }
+
+  const activityCheck = checkActivityIdle(pet, REST_ACTIVITY_REASON);
+  if (!activityCheck.allowed) {
+    return { success: false, state, message: activityCheck.message };
+  }
+
+  const locationId = state.player.currentLocationId;
+  const cooldown = getRestPointCooldownRemaining(
+    pet,
+    locationId,
+    state.totalTicks,
+  );
+  if (cooldown > 0) {
+    return {
+      success: false,
+      state,
+      message: RestMessages.restPointCooldown(formatTicksAsTime(cooldown)),
+    };
+  }
+
+  const maxEnergy = calculatePetMaxStats(pet)?.energy ?? 0;
+  const currentEnergy = pet.energyStats.energy;
+  if (currentEnergy >= maxEnergy) {
+    return {
+      success: false,
+      state,
+      message: RestMessages.alreadyRested(pet.identity.name),
+    };
+  }
+
+  const energy = Math.min(
+    maxEnergy,
+    currentEnergy + Math.floor(maxEnergy * REST_POINT_ENERGY_RESTORE),
+  );
+  return {
+    success: true,
+    state: {
+      ...state,
+      pet: {
+        ...pet,
+        energyStats: { energy },
+        activityCooldowns: {
+          ...pet.activityCooldowns,
+          [locationId]: {
+            ...pet.activityCooldowns?.[locationId],
+            [FacilityType.RestPoint]:
+              state.totalTicks + REST_POINT_COOLDOWN_TICKS,
+          },
+        },
+      },
+    },
+    message: RestMessages.rested(
+      pet.identity.name,
+      toDisplay(energy) - toDisplay(currentEnergy),
+    ),
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for seedable random number generation.
+ */
+
+import { expect, test } from "bun:test";
+import {
+  createRandomSeed,
+  createRng,
+  createSequenceRng,
+  deriveSeed,
+  randomIndex,
+  randomInt,
+  withRng,
+} from "./rng";
+
+function draw(rng: { next: () => number }, count: number): number[] {
+  return Array.from({ length: count }, () => rng.next());
+}
+
+test("createRng produces the same sequence for the same state", () => {
+  expect(draw(createRng(42), 10)).toEqual(draw(createRng(42), 10));
+});
+
+test("createRng produces different sequences for different states", () => {
+  expect(draw(createRng(1), 10)).not.toEqual(draw(createRng(2), 10));
+});
+
+test("createRng values are in [0, 1)", () => {
+  const rng = createRng(7);
+  for (const value of draw(rng, 1000)) {
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  }
+});
+
+test("createRng state resumes the sequence where it left off", () => {
+  const rng = createRng(123);
+  draw(rng, 5);
+  const resumed = createRng(rng.state);
+
+  expect(draw(resumed, 5)).toEqual(draw(rng, 5));
+});
+
+test("createRng state is a storable unsigned 32-bit integer", () => {
+  const rng = createRng(-1);
+  rng.next();
+
+  expect(Number.isInteger(rng.state)).toBe(true);
+  expect(rng.state).toBeGreaterThanOrEqual(0);
+  expect(rng.state).toBeLessThan(0x100000000);
+  expect(JSON.parse(JSON.stringify(rng.state))).toBe(rng.state);
+});
+
+test("createSequenceRng returns values in order and repeats", () => {
+  expect(draw(createSequenceRng([0.1, 0.5]), 5)).toEqual([
+    0.1, 0.5, 0.1, 0.5, 0.1,
+  ]);
+});
+
+test("createSequenceRng requires at least one value", () => {
+  expect(() => createSequenceRng([])).toThrow();
+});
+
+test("createRandomSeed returns an unsigned 32-bit integer", () => {
+  const seed = createRandomSeed();
+  expect(Number.isInteger(seed)).toBe(true);
+  expect(seed).toBeGreaterThanOrEqual(0);
+  expect(seed).toBeLessThan(0x100000000);
+});
+
+test("deriveSeed draws a seed from the rng", () => {
+  expect(deriveSeed(createSequenceRng([0]))).toBe(0);
+  expect(deriveSeed(createSequenceRng([0.5]))).toBe(0x80000000);
+});
+
+test("randomInt covers the inclusive range", () => {
+  expect(randomInt(createSequenceRng([0]), 3, 6)).toBe(3);
+  expect(randomInt(createSequenceRng([0.999]), 3, 6)).toBe(6);
+});
+
+test("randomIndex stays within the collection", () => {
+  expect(randomIndex(createSequenceRng([0]), 4)).toBe(0);
+  expect(randomIndex(createSequenceRng([0.999]), 4)).toBe(3);
+});
+
+test("withRng returns the result and the advanced state", () => {
+  const { result, rngState } = withRng(9, (rng) => rng.next());
+
+  const rng = createRng(9);
+  expect(result).toBe(rng.next());
+  expect(rngState).toBe(rng.state);
+});
@@ -0,0 +1,114 @@
+/**
+ * Seedable pseudo-random number generation.
+ *
+ * All random game decisions draw from an Rng so results can be reproduced.
+ * The game state stores a serializable RngState (and each battle stores its
+ * own); logic creates an Rng from it, draws values, and stores the advanced
+ * state back. Tests can inject a fixed sequence with createSequenceRng.
+ */
+
+/**
+ * Serializable PRNG state (an unsigned 32-bit integer).
+ */
+export type RngState = number;
+
+/**
+ * Source of random values.
+ */
+export interface Rng {
+  /** Draw the next value in [0, 1) */
+  next: () => number;
+}
+
+/**
+ * Seeded Rng whose current state can be stored and resumed.
+ */
+export interface SeededRng extends Rng {
+  /** State after all values drawn so far */
+  readonly state: RngState;
+}
+
+/**
+ * Range of an unsigned 32-bit integer (2^32).
+ */
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Create a seeded Rng (mulberry32) from a stored state.
+ * The same state always produces the same sequence of values.
+ */
+export function createRng(state: RngState): SeededRng {
+  let current = state >>> 0;
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+    },
+    get state() {
+      return current;
+    },
+  };
+}
+
+/**
+ * Create an Rng that returns the given values in order, repeating from the
+ * start when exhausted. Intended for tests.
+ */
+export function createSequenceRng(values: readonly number[]): Rng {
+  if (values.length === 0) {
+    throw new Error("Sequence Rng requires at least one value");
+  }
+  let index = 0;
+  return {
+    next: () => {
+      const value = values[index % values.length] ?? 0;
+      index++;
+      return value;
+    },
+  };
+}
+
+/**
+ * Create a fresh random seed for a new game.
+ * This is the only place the game reads from Math.random.
+ */
+export function createRandomSeed(): RngState {
+  return Math.floor(Math.random() * UINT32_RANGE) >>> 0;
+}
+
+/**
+ * Draw a seed for an independent Rng (e.g. a new battle) from an Rng.
+ */
+export function deriveSeed(rng: Rng): RngState {
+  return Math.floor(rng.next() * UINT32_RANGE) >>> 0;
+}
+
+/**
+ * Draw an integer in [min, max] (inclusive).
+ */
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng.next() * (max - min + 1));
+}
+
+/**
+ * Draw an index into a collection of the given length.
+ */
+export function randomIndex(rng: Rng, length: number): number {
+  return Math.min(Math.floor(rng.next() * length), length - 1);
+}
+
+/**
+ * Run a function with an Rng created from the given state.
+ * Returns the function result and the advanced state to store back.
+ */
+export function withRng<T>(
+  state: RngState,
+  fn: (rng: Rng) => T,
+): { result: T; rngState: RngState } {
+  const rng = createRng(state);
+  const result = fn(rng);
+  return { result, rngState: rng.state };
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for the pet roster.
+ */
+
+import { expect, test } from "bun:test";
+import { CARE_DECAY_AWAKE } from "@/game/core/care/constants";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import {
+  DAYCARE_DECAY_MULTIPLIER,
+  getRoster,
+  isRosterFull,
+  MAX_ROSTER_SIZE,
+  processBenchedPets,
+  processBenchedPetTick,
+} from "./roster";
+
+function createBenchedPets(count: number) {
+  return Array.from({ length: count }, (_, i) =>
+    createTestPet({ identity: { id: `benched-${i}` } }),
+  );
+}
+
+test("getRoster lists the active pet first", () => {
+  const [benched] = createBenchedPets(1);
+  if (!benched) throw new Error("No benched pet");
+  const pet = createTestPet();
+  const state = createTestGameState(pet, { benchedPets: [benched] });
+
+  expect(getRoster(state)).toEqual([pet, benched]);
+  expect(getRoster({ ...state, pet: null })).toEqual([benched]);
+});
+
+test("isRosterFull counts the active pet", () => {
+  const pet = createTestPet();
+  expect(
+    isRosterFull(
+      createTestGameState(pet, {
+        benchedPets: createBenchedPets(MAX_ROSTER_SIZE - 2),
+      }),
+    ),
+  ).toBe(false);
+  expect(
+    isRosterFull(
+      createTestGameState(pet, {
+        benchedPets: createBenchedPets(MAX_ROSTER_SIZE - 1),
+      }),
+    ),
+  ).toBe(true);
+});
+
+test("processBenchedPetTick ages the pet", () => {
+  const pet = createTestPet();
+  expect(processBenchedPetTick(pet).growth.ageTicks).toBe(
+    pet.growth.ageTicks + 1,
+  );
+});
+
+test("processBenchedPetTick slows care stat decay in the daycare", () => {
+  const pet = createTestPet();
+  const benched = processBenchedPetTick(pet);
+  const decay = Math.floor(CARE_DECAY_AWAKE * DAYCARE_DECAY_MULTIPLIER);
+
+  expect(benched.careStats).toEqual({
+    satiety: pet.careStats.satiety - decay,
+    hydration: pet.careStats.hydration - decay,
+    happiness: pet.careStats.happiness - decay,
+  });
+});
+
+test("processBenchedPetTick does not generate poop", () => {
+  const pet = createTestPet({ poop: { count: 0, ticksUntilNext: 1 } });
+  expect(processBenchedPetTick(pet).poop).toEqual(pet.poop);
+});
+
+test("processBenchedPets records benched pets that die", () => {
+  const dying = createTestPet({
+    identity: { id: "dying", name: "Dying" },
+    careStats: { satiety: 0, hydration: 0, happiness: 0 },
+    careLifeStats: { careLife: 1 },
+  });
+  const [healthy] = createBenchedPets(1);
+  if (!healthy) throw new Error("No benched pet");
+  const state = createTestGameState(createTestPet(), {
+    benchedPets: [dying, healthy],
+  });
+
+  const result = processBenchedPets(state, 5000);
+
+  expect(result.state.benchedPets.map((p) => p.identity.id)).toEqual([
+    healthy.identity.id,
+  ]);
+  expect(result.state.memorial[0]).toMatchObject({
+    petId: "dying",
+    deathTime: 5000,
+  });
+  expect(result.events).toContainEqual(
+    expect.objectContaining({ type: "petDeath", petId: "dying" }),
+  );
+});
+
+test("processBenchedPets leaves the state alone without benched pets", () => {
+  const state = createTestGameState();
+  expect(processBenchedPets(state, 5000)).toEqual({ state, events: [] });
+});
@@ -0,0 +1,182 @@
+/**
+ * Pet roster: one active pet plus benched pets resting in the home daycare.
+ *
+ * Only the active pet takes part in care actions and activities. Benched
+ * pets keep aging and their care stats keep decaying, though more slowly,
+ * so they still need looking after. A benched pet whose Care Life runs out
+ * dies just like the active pet.
+ */
+
+import {
+  applyCareLifeChange,
+  type MaxCareStats,
+} from "@/game/core/care/careLife";
+import { applyCareDecay } from "@/game/core/care/careStats";
+import {
+  createMemorialEntry,
+  determineDeathCause,
+  isPetDead,
+} from "@/game/core/death";
+import { applyEnergyRegen } from "@/game/core/energy";
+import { processExhaustionTick } from "@/game/core/exhaustion";
+import { processGrowthTick } from "@/game/core/growth";
+import { calculatePetMaxStats } from "@/game/core/petStats";
+import type { MicroValue } from "@/game/types/common";
+import {
+  createEvent,
+  type GameEvent,
+  type PetDeathEvent,
+  type StageTransitionEvent,
+} from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import type { Pet } from "@/game/types/pet";
+
+/**
+ * Maximum number of pets on the roster, including the active pet.
+ */
+export const MAX_ROSTER_SIZE = 4;
+
+/**
+ * Multiplier applied to care stat decay for pets in the daycare.
+ */
+export const DAYCARE_DECAY_MULTIPLIER = 0.5;
+
+/**
+ * Get every pet on the roster, active pet first.
+ */
+export function getRoster(state: GameState): Pet[] {
+  return state.pet ? [state.pet, ...state.benchedPets] : state.benchedPets;
+}
+
+/**
+ * Check if the roster has room for another pet.
+ */
+export function isRosterFull(state: GameState): boolean {
+  return getRoster(state).length >= MAX_ROSTER_SIZE;
+}
+
+/**
+ * Slow down the decay from one care stat value to the next.
+ */
+function slowDecay(before: MicroValue, after: MicroValue): MicroValue {
+  if (after >= before) return after;
+  return before - Math.floor((before - after) * DAYCARE_DECAY_MULTIPLIER);
+}
+
+/**
+ * Process a single tick for a benched pet.
+ * Benched pets stay awake and idle in the daycare: they age, regain energy
+ * and recover from exhaustion, their Care Life drains or recovers as usual,
+ * and their care stats decay at the daycare rate. The daycare keeps them
+ * clean, so they do not poop.
+ */
+export function processBenchedPetTick(pet: Pet): Pet {
+  const maxStats = calculatePetMaxStats(pet);
+  const maxCareStats: MaxCareStats = maxStats
+    ? {
+        satiety: maxStats.care.satiety,
+        hydration: maxStats.care.hydration,
+        happiness: maxStats.care.happiness,
+      }
+    : { satiety: 0, hydration: 0, happiness: 0 };
+
+  const careLife = applyCareLifeChange(
+    pet,
+    maxCareStats,
+    maxStats?.careLife ?? 0,
+  );
+  const decayedCareStats = applyCareDecay(pet, maxStats);
+  const growthResult = processGrowthTick(pet);
+
+  return {
+    ...pet,
+    growth: growthResult.growth,
+    battleStats: growthResult.battleStats,
+    careStats: {
+      satiety: slowDecay(pet.careStats.satiety, decayedCareStats.satiety),
+      hydration: slowDecay(pet.careStats.hydration, decayedCareStats.hydration),
+      happiness: slowDecay(pet.careStats.happiness, decayedCareStats.happiness),
+    },
+    energyStats: {
+      energy: applyEnergyRegen(
+        pet.energyStats.energy,
+        maxStats?.energy ?? 0,
+        false,
+      ),
+    },
+    careLifeStats: { careLife },
+    exhaustionTicks: processExhaustionTick(pet.exhaustionTicks, false),
+  };
+}
+
+/**
+ * Result of processing the benched pets for a tick.
+ */
+export interface BenchedPetsTickResult {
+  /** Updated game state */
+  state: GameState;
+  /** Stage transition and death events for benched pets */
+  events: GameEvent[];
+}
+
+/**
+ * Process a tick for every benched pet.
+ * Pets whose Care Life runs out are moved to the memorial.
+ */
+export function processBenchedPets(
+  state: GameState,
+  currentTime: number,
+): BenchedPetsTickResult {
+  if (state.benchedPets.length === 0) {
+    return { state, events: [] };
+  }
+
+  const events: GameEvent[] = [];
+  const benchedPets: Pet[] = [];
+  const memorial = [...state.memorial];
+
+  for (const pet of state.benchedPets) {
+    const updatedPet = processBenchedPetTick(pet);
+
+    if (updatedPet.growth.stage !== pet.growth.stage) {
+      events.push(
+        createEvent<StageTransitionEvent>(
+          {
+            type: "stageTransition",
+            previousStage: pet.growth.stage,
+            newStage: updatedPet.growth.stage,
+            petName: updatedPet.identity.name,
+          },
+          currentTime,
+        ),
+      );
+    }
+
+    if (!isPetDead(updatedPet)) {
+      benchedPets.push(updatedPet);
+      continue;
+    }
+
+    const memorialEntry = createMemorialEntry(
+      updatedPet,
+      determineDeathCause(updatedPet),
+      currentTime,
+    );
+    memorial.push(memorialEntry);
+    events.push(
+      createEvent<PetDeathEvent>(
+        {
+          type: "petDeath",
+          petId: memorialEntry.petId,
+          petName: memorialEntry.name,
+          speciesId: memorialEntry.speciesId,
+          cause: memorialEntry.cause,
+          ageTicks: memorialEntry.ageTicks,
+        },
+        currentTime,
+      ),
+    );
+  }
+
+  return { state: { ...state, benchedPets, memorial }, events };
+}
@@ -3,16 +3,28 @@
  */
 
 import { describe, expect, test } from "bun:test";
+import { CARRIED_INVENTORY_CAPACITY } from "@/game/core/inventory";
+import { createSequenceRng } from "@/game/core/rng";
 import {
+  addCoins,
   buyItem,
+  calculateBuyTotal,
   calculateSellPrice,
   canAfford,
   getShopItem,
+  getShopListing,
+  getShopListings,
+  restockShops,
   sellItem,
+  spendCoins,
 } from "@/game/core/shop";
-import { FOOD_ITEMS } from "@/game/data/items";
-import { getShop } from "@/game/data/shops";
-import { createInitialGameState } from "@/game/types/gameState";
+import { FOOD_ITEMS, MATERIAL_ITEMS, TOY_ITEMS } from "@/game/data/items";
+import { ShopMessages } from "@/game/data/messages";
+import { getShop, shops } from "@/game/data/shops";
+import { createInitialGameState, type GameState } from "@/game/types/gameState";
+import { ShopListingSource, UNLIMITED_STOCK } from "@/game/types/shop";
+import { SkillType } from "@/game/types/skill";
+import { applyTradingSellBonus, BULK_PURCHASE_QUANTITY } from "./trading";
 
 describe("canAfford", () => {
   test("returns true when player has enough coins", () => {
@@ -41,6 +53,22 @@ describe("canAfford", () => {
   });
 });
 
+describe("spendCoins and addCoins", () => {
+  test("change only the player's coins", () => {
+    const initial = createInitialGameState();
+    const state = {
+      ...initial,
+      player: { ...initial.player, currency: { coins: 100 } },
+    };
+
+    const spent = spendCoins(state, 30);
+    expect(spent.player.currency).toEqual({ coins: 70 });
+    expect(spent.player.inventory).toBe(state.player.inventory);
+
+    expect(addCoins(spent, 5).player.currency).toEqual({ coins: 75 });
+  });
+});
+
 describe("getShopItem", () => {
   test("returns shop item when found", () => {
     const shop = getShop("willowbrook_shop");
@@ -196,6 +224,34 @@ describe("buyItem", () => {
     expect(result2.result.success).toBe(false);
     expect(result2.result.message).toBe("Quantity must be at least 1.");
   });
+
+  test("fails when the bag has no room for the items", () => {
+    const state = {
+      ...createInitialGameState(),
+      player: {
+        ...createInitialGameState().player,
+        currency: { coins: 100 },
+        inventory: {
+          items: Array.from({ length: CARRIED_INVENTORY_CAPACITY }, () => ({
+            itemId: TOY_ITEMS.BALL.id,
+            quantity: 1,
+            currentDurability: 1,
+          })),
+        },
+      },
+    };
+
+    const { result, state: newState } = buyItem(
+      state,
+      "willowbrook_shop",
+      FOOD_ITEMS.KIBBLE.id,
+      1,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(ShopMessages.inventoryFull);
+    expect(newState).toBe(state); // unchanged
+  });
 });
 
 describe("sellItem", () => {
@@ -355,3 +411,306 @@ describe("sellItem", () => {
     expect(result2.result.message).toBe("Quantity must be at least 1.");
   });
 });
+
+describe("shop stock", () => {
+  const willowbrook = getShop("willowbrook_shop");
+  if (!willowbrook) throw new Error("willowbrook_shop not found");
+
+  function createShopperState(coins = 1000): GameState {
+    return {
+      ...createInitialGameState(),
+      player: {
+        ...createInitialGameState().player,
+        currency: { coins },
+        inventory: { items: [] },
+      },
+    };
+  }
+
+  test("shops without stock state are fully stocked", () => {
+    const state = createShopperState();
+
+    expect(getShopListings(state, willowbrook)).toHaveLength(
+      willowbrook.items.filter((item) => !item.minTradingTier).length,
+    );
+    expect(getShopListing(state, willowbrook, TOY_ITEMS.PLUSH.id)).toEqual({
+      shopItem: { itemId: TOY_ITEMS.PLUSH.id, buyPrice: 60, stock: 3 },
+      remaining: 3,
+      source: ShopListingSource.Regular,
+    });
+    expect(
+      getShopListing(state, willowbrook, FOOD_ITEMS.KIBBLE.id)?.remaining,
+    ).toBe(UNLIMITED_STOCK);
+  });
+
+  test("buying a limited item reduces the remaining stock", () => {
+    const { result, state } = buyItem(
+      createShopperState(),
+      "willowbrook_shop",
+      TOY_ITEMS.PLUSH.id,
+      2,
+    );
+
+    expect(result.success).toBe(true);
+    expect(
+      getShopListing(state, willowbrook, TOY_ITEMS.PLUSH.id)?.remaining,
+    ).toBe(1);
+  });
+
+  test("buying an unlimited item leaves the stock untracked", () => {
+    const { state } = buyItem(
+      createShopperState(),
+      "willowbrook_shop",
+      FOOD_ITEMS.KIBBLE.id,
+      5,
+    );
+
+    expect(state.shopStock).toEqual({});
+  });
+
+  test("buying more than the remaining stock fails", () => {
+    const state = createShopperState();
+
+    const tooMany = buyItem(state, "willowbrook_shop", TOY_ITEMS.PLUSH.id, 4);
+    expect(tooMany.result.success).toBe(false);
+    expect(tooMany.result.message).toBe(ShopMessages.notEnoughStock(3));
+
+    const soldOutState = buyItem(
+      state,
+      "willowbrook_shop",
+      TOY_ITEMS.PLUSH.id,
+      3,
+    ).state;
+    const soldOut = buyItem(
+      soldOutState,
+      "willowbrook_shop",
+      TOY_ITEMS.PLUSH.id,
+    );
+    expect(soldOut.result.message).toBe(ShopMessages.soldOut);
+    expect(soldOut.state).toBe(soldOutState);
+  });
+
+  test("selling a limited item returns it to the shop's stock", () => {
+    const bought = buyItem(
+      createShopperState(),
+      "willowbrook_shop",
+      TOY_ITEMS.PLUSH.id,
+    ).state;
+
+    const { state } = sellItem(bought, "willowbrook_shop", TOY_ITEMS.PLUSH.id);
+
+    expect(
+      getShopListing(state, willowbrook, TOY_ITEMS.PLUSH.id)?.remaining,
+    ).toBe(3);
+  });
+
+  test("items the shop does not carry can be bought back", () => {
+    const state: GameState = {
+      ...createShopperState(),
+      player: {
+        ...createShopperState().player,
+        inventory: {
+          items: [
+            {
+              itemId: MATERIAL_ITEMS.WOOD.id,
+              quantity: 4,
+              currentDurability: null,
+            },
+          ],
+        },
+      },
+    };
+
+    const sold = sellItem(
+      state,
+      "willowbrook_shop",
+      MATERIAL_ITEMS.WOOD.id,
+      3,
+    ).state;
+    expect(getShopListing(sold, willowbrook, MATERIAL_ITEMS.WOOD.id)).toEqual({
+      shopItem: {
+        itemId: MATERIAL_ITEMS.WOOD.id,
+        buyPrice: MATERIAL_ITEMS.WOOD.sellValue,
+        stock: 3,
+      },
+      remaining: 3,
+      source: ShopListingSource.Buyback,
+    });
+
+    const boughtBack = buyItem(
+      sold,
+      "willowbrook_shop",
+      MATERIAL_ITEMS.WOOD.id,
+      3,
+    );
+    expect(boughtBack.result.success).toBe(true);
+    expect(boughtBack.state.shopStock.willowbrook_shop?.buyback).toEqual({});
+    expect(
+      getShopListing(boughtBack.state, willowbrook, MATERIAL_ITEMS.WOOD.id),
+    ).toBeUndefined();
+  });
+
+  test("restockShops refills stock, picks rotating items and clears buyback", () => {
+    const state: GameState = {
+      ...createShopperState(),
+      shopStock: {
+        willowbrook_shop: {
+          remaining: { [TOY_ITEMS.PLUSH.id]: 0 },
+          rotatingItemIds: [],
+          buyback: { [MATERIAL_ITEMS.WOOD.id]: 2 },
+        },
+      },
+    };
+
+    const restocked = restockShops(state, createSequenceRng([0]));
+
+    expect(restocked.shopStock.willowbrook_shop).toEqual({
+      remaining: {},
+      rotatingItemIds: [willowbrook.rotatingStock?.pool[0]?.itemId ?? ""],
+      buyback: {},
+    });
+    for (const shop of Object.values(shops)) {
+      expect(restocked.shopStock[shop.id]?.rotatingItemIds).toHaveLength(
+        shop.rotatingStock?.count ?? 0,
+      );
+    }
+  });
+
+  test("rotating items are sold with their own limited stock", () => {
+    const rotating = willowbrook.rotatingStock?.pool[0];
+    if (!rotating) throw new Error("willowbrook_shop has no rotating items");
+    const state = restockShops(createShopperState(), createSequenceRng([0]));
+
+    expect(getShopListing(state, willowbrook, rotating.itemId)?.source).toBe(
+      ShopListingSource.Rotating,
+    );
+
+    const { state: afterBuy } = buyItem(
+      state,
+      "willowbrook_shop",
+      rotating.itemId,
+      rotating.stock,
+    );
+    expect(
+      getShopListing(afterBuy, willowbrook, rotating.itemId)?.remaining,
+    ).toBe(0);
+  });
+});
+
+describe("trading", () => {
+  const willowbrook = getShop("willowbrook_shop");
+  if (!willowbrook) throw new Error("willowbrook_shop not found");
+
+  function createTraderState(tradingLevel: number, coins = 1000): GameState {
+    const initial = createInitialGameState();
+    return {
+      ...initial,
+      player: {
+        ...initial.player,
+        currency: { coins },
+        inventory: { items: [] },
+        skills: {
+          ...initial.player.skills,
+          [SkillType.Trading]: {
+            type: SkillType.Trading,
+            level: tradingLevel,
+            currentXp: 0,
+          },
+        },
+      },
+    };
+  }
+
+  test("a higher Trading level lowers buy prices", () => {
+    const { state } = buyItem(
+      createTraderState(41),
+      "willowbrook_shop",
+      FOOD_ITEMS.KIBBLE.id,
+    );
+
+    expect(state.player.currency.coins).toBe(1000 - 9);
+  });
+
+  test("a higher Trading level raises sell prices", () => {
+    const basePrice = calculateSellPrice(
+      "willowbrook_shop",
+      TOY_ITEMS.PLUSH.id,
+    );
+
+    expect(calculateSellPrice("willowbrook_shop", TOY_ITEMS.PLUSH.id, 41)).toBe(
+      applyTradingSellBonus(basePrice, 41),
+    );
+    expect(
+      calculateSellPrice("willowbrook_shop", TOY_ITEMS.PLUSH.id, 41),
+    ).toBeGreaterThan(basePrice);
+  });
+
+  test("bulk purchases are discounted once the tier allows it", () => {
+    const listing = getShopListing(
+      createTraderState(41),
+      willowbrook,
+      FOOD_ITEMS.KIBBLE.id,
+    );
+    if (!listing) throw new Error("kibble listing not found");
+
+    expect(calculateBuyTotal(listing, BULK_PURCHASE_QUANTITY - 1, 41)).toBe(81);
+    expect(calculateBuyTotal(listing, BULK_PURCHASE_QUANTITY, 41)).toBe(83);
+    expect(calculateBuyTotal(listing, BULK_PURCHASE_QUANTITY, 1)).toBe(100);
+
+    const { state } = buyItem(
+      createTraderState(41),
+      "willowbrook_shop",
+      FOOD_ITEMS.KIBBLE.id,
+      BULK_PURCHASE_QUANTITY,
+    );
+    expect(state.player.currency.coins).toBe(1000 - 83);
+  });
+
+  test("buyback items are not discounted", () => {
+    const listing = {
+      shopItem: { itemId: MATERIAL_ITEMS.WOOD.id, buyPrice: 20, stock: 10 },
+      remaining: 10,
+      source: ShopListingSource.Buyback,
+    };
+
+    expect(calculateBuyTotal(listing, BULK_PURCHASE_QUANTITY, 99)).toBe(200);
+  });
+
+  test("buying and selling award Trading XP", () => {
+    const bought = buyItem(
+      createTraderState(1),
+      "willowbrook_shop",
+      TOY_ITEMS.PLUSH.id,
+    );
+    expect(bought.result.tradingXpGained).toBe(6);
+    expect(bought.state.player.skills[SkillType.Trading].currentXp).toBe(6);
+
+    const sold = sellItem(bought.state, "willowbrook_shop", TOY_ITEMS.PLUSH.id);
+    expect(sold.result.tradingXpGained).toBe(1);
+    expect(sold.state.player.skills[SkillType.Trading].currentXp).toBe(7);
+  });
+
+  test("rare entries are hidden until the player reaches their tier", () => {
+    expect(
+      getShopListing(
+        createTraderState(24),
+        willowbrook,
+        TOY_ITEMS.MAGIC_WAND.id,
+      ),
+    ).toBeUndefined();
+    expect(
+      buyItem(
+        createTraderState(24),
+        "willowbrook_shop",
+        TOY_ITEMS.MAGIC_WAND.id,
+      ).result.success,
+    ).toBe(false);
+    expect(
+      getShopListing(
+        createTraderState(25),
+        willowbrook,
+        TOY_ITEMS.MAGIC_WAND.id,
+      ),
+    ).toBeDefined();
+  });
+});
@@ -1,13 +1,44 @@
 /**
  * Shop transaction logic for buying and selling items.
+ *
+ * Shops may carry limited stock, which is tracked per shop in game state and
+ * restocked at the daily reset. Each restock also picks the day's rotating
+ * rare items and clears items the player sold to the shop.
+ *
+ * Prices are adjusted by the player's Trading skill (see core/trading.ts),
+ * and every transaction earns Trading XP.
  */
 
-import { addItem, hasItem, removeItem } from "@/game/core/inventory";
+import {
+  addItem,
+  CARRIED_INVENTORY_CAPACITY,
+  canAddItem,
+  hasItem,
+  removeItem,
+} from "@/game/core/inventory";
+import { type Rng, randomIndex } from "@/game/core/rng";
+import {
+  applyTradingBuyDiscount,
+  applyTradingSellBonus,
+  getBulkDiscount,
+  grantTradingXp,
+  meetsTradingTier,
+} from "@/game/core/trading";
 import { getItemById } from "@/game/data/items";
 import { ShopMessages } from "@/game/data/messages";
-import { getShop } from "@/game/data/shops";
+import { getShop, shops } from "@/game/data/shops";
 import type { GameState } from "@/game/types/gameState";
-import type { BuyResult, SellResult, Shop, ShopItem } from "@/game/types/shop";
+import {
+  type BuyResult,
+  type SellResult,
+  type Shop,
+  type ShopItem,
+  type ShopListing,
+  ShopListingSource,
+  type ShopStockState,
+  UNLIMITED_STOCK,
+} from "@/game/types/shop";
+import { SkillType } from "@/game/types/skill";
 
 /**
  * Check if player can afford to buy an item.
@@ -16,6 +47,29 @@ export function canAfford(state: GameState, price: number): boolean {
   return state.player.currency.coins >= price;
 }
 
+/**
+ * Deduct coins from the player. Check canAfford first.
+ */
+export function spendCoins(state: GameState, amount: number): GameState {
+  return addCoins(state, -amount);
+}
+
+/**
+ * Give coins to the player.
+ */
+export function addCoins(state: GameState, amount: number): GameState {
+  return {
+    ...state,
+    player: {
+      ...state.player,
+      currency: {
+        ...state.player.currency,
+        coins: state.player.currency.coins + amount,
+      },
+    },
+  };
+}
+
 /**
  * Get the shop item entry for a specific item in a shop.
  */
@@ -24,15 +78,229 @@ export function getShopItem(shop: Shop, itemId: string): ShopItem | undefined {
 }
 
 /**
- * Calculate the sell price for an item based on shop's sell multiplier.
+ * Get the player's Trading level.
  */
-export function calculateSellPrice(shopId: string, itemId: string): number {
+function getTradingLevel(state: GameState): number {
+  return state.player.skills[SkillType.Trading].level;
+}
+
+/**
+ * Calculate the sell price for an item based on shop's sell multiplier
+ * and the player's Trading level.
+ */
+export function calculateSellPrice(
+  shopId: string,
+  itemId: string,
+  tradingLevel = 1,
+): number {
   const shop = getShop(shopId);
   const itemDef = getItemById(itemId);
 
   if (!shop || !itemDef) return 0;
 
-  return Math.floor(itemDef.sellValue * shop.sellMultiplier);
+  return applyTradingSellBonus(
+    Math.floor(itemDef.sellValue * shop.sellMultiplier),
+    tradingLevel,
+  );
+}
+
+/**
+ * Calculate the price of one unit of a listing at a Trading level.
+ * Buyback items are sold at their listed price.
+ */
+export function calculateBuyPrice(
+  listing: ShopListing,
+  tradingLevel: number,
+): number {
+  if (listing.source === ShopListingSource.Buyback) {
+    return listing.shopItem.buyPrice;
+  }
+  return applyTradingBuyDiscount(listing.shopItem.buyPrice, tradingLevel);
+}
+
+/**
+ * Calculate the total cost of buying a quantity of a listing, including the
+ * bulk discount for large purchases. Buyback items get no discounts.
+ */
+export function calculateBuyTotal(
+  listing: ShopListing,
+  quantity: number,
+  tradingLevel: number,
+): number {
+  const subtotal = calculateBuyPrice(listing, tradingLevel) * quantity;
+  if (listing.source === ShopListingSource.Buyback) {
+    return subtotal;
+  }
+  return Math.ceil(subtotal * (1 - getBulkDiscount(tradingLevel, quantity)));
+}
+
+/**
+ * Get a shop's stock state. Shops without one are fully stocked and have no
+ * rotating or buyback items.
+ */
+export function getShopStockState(
+  state: GameState,
+  shopId: string,
+): ShopStockState {
+  return (
+    state.shopStock[shopId] ?? {
+      remaining: {},
+      rotatingItemIds: [],
+      buyback: {},
+    }
+  );
+}
+
+/**
+ * Get everything a shop currently offers: its regular items, today's
+ * rotating items, then items the player sold to it.
+ * Sold out items stay listed with nothing remaining. Entries that need a
+ * higher Trading tier are left out.
+ */
+export function getShopListings(state: GameState, shop: Shop): ShopListing[] {
+  const stock = getShopStockState(state, shop.id);
+  const tradingLevel = getTradingLevel(state);
+  const isOffered = (shopItem: ShopItem): boolean =>
+    !shopItem.minTradingTier ||
+    meetsTradingTier(tradingLevel, shopItem.minTradingTier);
+  const toListing = (
+    shopItem: ShopItem,
+    source: ShopListingSource,
+  ): ShopListing => ({
+    shopItem,
+    remaining:
+      shopItem.stock === UNLIMITED_STOCK
+        ? UNLIMITED_STOCK
+        : (stock.remaining[shopItem.itemId] ?? shopItem.stock),
+    source,
+  });
+
+  const regular = shop.items
+    .filter(isOffered)
+    .map((shopItem) => toListing(shopItem, ShopListingSource.Regular));
+  const rotating = stock.rotatingItemIds.flatMap((itemId) => {
+    const shopItem = shop.rotatingStock?.pool.find(
+      (item) => item.itemId === itemId,
+    );
+    return shopItem && isOffered(shopItem)
+      ? [toListing(shopItem, ShopListingSource.Rotating)]
+      : [];
+  });
+  // Sold items are offered back at the item's full value
+  const buyback = Object.entries(stock.buyback).flatMap(
+    ([itemId, quantity]) => {
+      const itemDef = getItemById(itemId);
+      if (!itemDef || quantity <= 0) return [];
+      return [
+        {
+          shopItem: { itemId, buyPrice: itemDef.sellValue, stock: quantity },
+          remaining: quantity,
+          source: ShopListingSource.Buyback,
+        },
+      ];
+    },
+  );
+
+  return [...regular, ...rotating, ...buyback];
+}
+
+/**
+ * Get a shop's current listing for an item.
+ */
+export function getShopListing(
+  state: GameState,
+  shop: Shop,
+  itemId: string,
+): ShopListing | undefined {
+  return getShopListings(state, shop).find(
+    (listing) => listing.shopItem.itemId === itemId,
+  );
+}
+
+/**
+ * Change how many of an item a shop has left.
+ * Unlimited items are not tracked.
+ */
+function adjustShopStock(
+  state: GameState,
+  shopId: string,
+  listing: ShopListing | undefined,
+  itemId: string,
+  delta: number,
+): GameState {
+  if (listing?.remaining === UNLIMITED_STOCK) {
+    return state;
+  }
+
+  const stock = getShopStockState(state, shopId);
+  const newQuantity = (listing?.remaining ?? 0) + delta;
+  let updatedStock: ShopStockState;
+  if (listing && listing.source !== ShopListingSource.Buyback) {
+    updatedStock = {
+      ...stock,
+      remaining: { ...stock.remaining, [itemId]: newQuantity },
+    };
+  } else {
+    // Items the shop does not normally carry are dropped once bought back
+    const { [itemId]: _, ...buyback } = stock.buyback;
+    updatedStock = {
+      ...stock,
+      buyback:
+        newQuantity > 0 ? { ...buyback, [itemId]: newQuantity } : buyback,
+    };
+  }
+
+  return {
+    ...state,
+    shopStock: { ...state.shopStock, [shopId]: updatedStock },
+  };
+}
+
+/**
+ * Pick a shop's rotating items for the day.
+ */
+function pickRotatingItemIds(shop: Shop, rng: Rng): string[] {
+  const rotatingStock = shop.rotatingStock;
+  if (!rotatingStock) return [];
+
+  const pool = rotatingStock.pool.map((item) => item.itemId);
+  const picked: string[] = [];
+  while (picked.length < rotatingStock.count && pool.length > 0) {
+    const [itemId] = pool.splice(randomIndex(rng, pool.length), 1);
+    if (itemId) picked.push(itemId);
+  }
+  return picked;
+}
+
+/**
+ * Restock every shop: limited items are refilled, new rotating items are
+ * picked, and items the player sold are cleared.
+ */
+export function restockShops(state: GameState, rng: Rng): GameState {
+  return {
+    ...state,
+    shopStock: Object.fromEntries(
+      Object.values(shops).map((shop) => [
+        shop.id,
+        {
+          remaining: {},
+          rotatingItemIds: pickRotatingItemIds(shop, rng),
+          buyback: {},
+        },
+      ]),
+    ),
+  };
+}
+
+/**
+ * Append a Trading level up note to a transaction message.
+ */
+function withTradingLevelUp(
+  message: string,
+  trading: { state: GameState; leveledUp: boolean },
+): string {
+  if (!trading.leveledUp) return message;
+  return `${message} ${ShopMessages.tradingLevelUp(getTradingLevel(trading.state))}`;
 }
 
 /**
@@ -73,8 +341,8 @@ export function buyItem(
     };
   }
 
-  const shopItem = getShopItem(shop, itemId);
-  if (!shopItem) {
+  const listing = getShopListing(state, shop, itemId);
+  if (!listing) {
     return {
       result: { success: false, message: ShopMessages.itemNotInShop },
       state,
@@ -89,7 +357,31 @@ export function buyItem(
     };
   }
 
-  const totalCost = shopItem.buyPrice * normalizedQuantity;
+  if (listing.remaining === 0) {
+    return {
+      result: { success: false, message: ShopMessages.soldOut },
+      state,
+    };
+  }
+
+  if (
+    listing.remaining !== UNLIMITED_STOCK &&
+    listing.remaining < normalizedQuantity
+  ) {
+    return {
+      result: {
+        success: false,
+        message: ShopMessages.notEnoughStock(listing.remaining),
+      },
+      state,
+    };
+  }
+
+  const totalCost = calculateBuyTotal(
+    listing,
+    normalizedQuantity,
+    getTradingLevel(state),
+  );
 
   if (!canAfford(state, totalCost)) {
     return {
@@ -101,34 +393,52 @@ export function buyItem(
     };
   }
 
+  if (
+    !canAddItem(
+      state.player.inventory,
+      itemId,
+      normalizedQuantity,
+      CARRIED_INVENTORY_CAPACITY,
+    )
+  ) {
+    return {
+      result: { success: false, message: ShopMessages.inventoryFull },
+      state,
+    };
+  }
+
   // Deduct coins and add item
   const newInventory = addItem(
     state.player.inventory,
     itemId,
     normalizedQuantity,
   );
-  const newState: GameState = {
-    ...state,
-    player: {
-      ...state.player,
-      inventory: newInventory,
-      currency: {
-        ...state.player.currency,
-        coins: state.player.currency.coins - totalCost,
-      },
-    },
-  };
+  const stateWithPurchase: GameState = adjustShopStock(
+    spendCoins(
+      { ...state, player: { ...state.player, inventory: newInventory } },
+      totalCost,
+    ),
+    shop.id,
+    listing,
+    itemId,
+    -normalizedQuantity,
+  );
+  const trading = grantTradingXp(stateWithPurchase, totalCost);
 
   return {
     result: {
       success: true,
-      message: ShopMessages.purchaseSuccess(
-        normalizedQuantity,
-        itemDef.name,
-        totalCost,
+      message: withTradingLevelUp(
+        ShopMessages.purchaseSuccess(
+          normalizedQuantity,
+          itemDef.name,
+          totalCost,
+        ),
+        trading,
       ),
+      tradingXpGained: trading.xpGained,
     },
-    state: newState,
+    state: trading.state,
   };
 }
 
@@ -173,7 +483,7 @@ export function sellItem(
     };
   }
 
-  const sellPrice = calculateSellPrice(shopId, itemId);
+  const sellPrice = calculateSellPrice(shopId, itemId, getTradingLevel(state));
   const totalEarned = sellPrice * normalizedQuantity;
 
   if (totalEarned === 0) {
@@ -183,34 +493,34 @@ export function sellItem(
     };
   }
 
-  // Remove item and add coins
+  // Remove item and add coins; the sold items join the shop's stock
   const newInventory = removeItem(
     state.player.inventory,
     itemId,
     normalizedQuantity,
   );
-  const newState: GameState = {
-    ...state,
-    player: {
-      ...state.player,
-      inventory: newInventory,
-      currency: {
-        ...state.player.currency,
-        coins: state.player.currency.coins + totalEarned,
-      },
-    },
-  };
+  const stateWithSale: GameState = adjustShopStock(
+    addCoins(
+      { ...state, player: { ...state.player, inventory: newInventory } },
+      totalEarned,
+    ),
+    shop.id,
+    getShopListing(state, shop, itemId),
+    itemId,
+    normalizedQuantity,
+  );
+  const trading = grantTradingXp(stateWithSale, totalEarned);
 
   return {
     result: {
       success: true,
-      message: ShopMessages.saleSuccess(
-        normalizedQuantity,
-        itemDef.name,
-        totalEarned,
+      message: withTradingLevelUp(
+        ShopMessages.saleSuccess(normalizedQuantity, itemDef.name, totalEarned),
+        trading,
       ),
       coinsReceived: totalEarned,
+      tradingXpGained: trading.xpGained,
     },
-    state: newState,
+    state: trading.state,
   };
 }
@@ -0,0 +1,197 @@
+/**
+ * Tests for skill training at trainer NPCs.
+ */
+
+import { expect, test } from "bun:test";
+import { SkillTrainingMessages, TravelMessages } from "@/game/data/messages";
+import { getTrainingOffer } from "@/game/data/npcs";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import type { GameState } from "@/game/types/gameState";
+import { createInitialSkills, SkillType } from "@/game/types/skill";
+import {
+  cancelSkillTraining,
+  canStartSkillTraining,
+  getSessionsRemaining,
+  processSkillTrainingTick,
+  resetDailySkillTraining,
+  startSkillTraining,
+} from "./skillTraining";
+import { canTravel } from "./travel";
+
+const OAK_OFFER = "oak_scouting_lessons";
+const BLAZE_OFFER = "blaze_highland_survival";
+
+function createTrainingState(
+  coins = 100,
+  overrides: Partial<GameState> = {},
+): GameState {
+  return createTestGameState(undefined, {
+    ...overrides,
+    player: { currency: { coins }, currentLocationId: "home" },
+  });
+}
+
+function getOffer(offerId: string) {
+  const found = getTrainingOffer(offerId);
+  if (!found) throw new Error(`Missing offer ${offerId}`);
+  return found.offer;
+}
+
+test("startSkillTraining charges the cost and starts the session", () => {
+  const offer = getOffer(OAK_OFFER);
+  const result = startSkillTraining(createTrainingState(), OAK_OFFER);
+
+  expect(result.success).toBe(true);
+  expect(result.message).toBe(
+    SkillTrainingMessages.trainingStarted(offer.name, "Oak"),
+  );
+  expect(result.state.player.currency.coins).toBe(100 - offer.cost);
+  expect(result.state.activeSkillTraining).toEqual({
+    offerId: OAK_OFFER,
+    npcId: "trainer_oak",
+    durationTicks: offer.durationTicks,
+    ticksRemaining: offer.durationTicks,
+    cost: offer.cost,
+  });
+  expect(result.state.skillTrainingSessionsToday[OAK_OFFER]).toBe(1);
+});
+
+test("canStartSkillTraining rejects unknown offers", () => {
+  expect(canStartSkillTraining(createTrainingState(), "nope")).toEqual({
+    canStart: false,
+    message: SkillTrainingMessages.offerNotFound,
+  });
+});
+
+test("canStartSkillTraining requires being with the trainer", () => {
+  const state = createTestGameState(undefined, {
+    player: { currency: { coins: 100 }, currentLocationId: "willowbrook" },
+  });
+
+  expect(canStartSkillTraining(state, OAK_OFFER).message).toBe(
+    SkillTrainingMessages.notAtTrainer("Oak"),
+  );
+});
+
+test("canStartSkillTraining requires enough coins", () => {
+  const offer = getOffer(OAK_OFFER);
+  const state = createTrainingState(offer.cost - 1);
+
+  expect(canStartSkillTraining(state, OAK_OFFER).message).toBe(
+    SkillTrainingMessages.notEnoughCoins(offer.cost),
+  );
+});
+
+test("canStartSkillTraining allows one session at a time", () => {
+  const started = startSkillTraining(createTrainingState(), OAK_OFFER).state;
+
+  expect(canStartSkillTraining(started, OAK_OFFER).message).toBe(
+    SkillTrainingMessages.alreadyTraining,
+  );
+});
+
+test("canStartSkillTraining enforces the daily limit", () => {
+  const offer = getOffer(OAK_OFFER);
+  const state = createTrainingState(100, {
+    skillTrainingSessionsToday: { [OAK_OFFER]: offer.dailyLimit },
+  });
+
+  expect(getSessionsRemaining(state, offer)).toBe(0);
+  expect(canStartSkillTraining(state, OAK_OFFER).message).toBe(
+    SkillTrainingMessages.dailyLimitReached(offer.name),
+  );
+});
+
+test("canStartSkillTraining enforces the required skill level", () => {
+  const offer = getOffer(BLAZE_OFFER);
+  const state = createTestGameState(undefined, {
+    player: {
+      currency: { coins: 1000 },
+      currentLocationId: "scorched_highlands",
+    },
+  });
+
+  expect(canStartSkillTraining(state, BLAZE_OFFER).message).toBe(
+    SkillTrainingMessages.levelTooLow("Scouting", offer.requiredLevel ?? 0),
+  );
+
+  const skills = createInitialSkills();
+  const skilled = createTestGameState(undefined, {
+    player: {
+      currency: { coins: 1000 },
+      currentLocationId: "scorched_highlands",
+      skills: {
+        ...skills,
+        [SkillType.Scouting]: {
+          ...skills[SkillType.Scouting],
+          level: offer.requiredLevel ?? 1,
+        },
+      },
+    },
+  });
+  expect(canStartSkillTraining(skilled, BLAZE_OFFER).canStart).toBe(true);
+});
+
+test("processSkillTrainingTick counts down the session", () => {
+  const started = startSkillTraining(createTrainingState(), OAK_OFFER).state;
+  const result = processSkillTrainingTick(started);
+
+  expect(result.outcome).toBeUndefined();
+  expect(result.state.activeSkillTraining?.ticksRemaining).toBe(
+    getOffer(OAK_OFFER).durationTicks - 1,
+  );
+});
+
+test("processSkillTrainingTick grants XP when the session finishes", () => {
+  const offer = getOffer(OAK_OFFER);
+  const started = startSkillTraining(createTrainingState(), OAK_OFFER).state;
+  const finishing: GameState = {
+    ...started,
+    activeSkillTraining: started.activeSkillTraining && {
+      ...started.activeSkillTraining,
+      ticksRemaining: 1,
+    },
+  };
+
+  const result = processSkillTrainingTick(finishing);
+
+  expect(result.state.activeSkillTraining).toBeUndefined();
+  expect(result.outcome?.offer.id).toBe(OAK_OFFER);
+  expect(result.outcome?.xpGained).toBe(offer.xpGranted);
+  const scouting = result.state.player.skills[SkillType.Scouting];
+  expect(scouting.level > 1 || scouting.currentXp > 0).toBe(true);
+});
+
+test("cancelSkillTraining refunds the cost but keeps the session counted", () => {
+  const started = startSkillTraining(createTrainingState(), OAK_OFFER).state;
+  const result = cancelSkillTraining(started);
+
+  expect(result.success).toBe(true);
+  expect(result.message).toBe(SkillTrainingMessages.trainingCancelled);
+  expect(result.state.activeSkillTraining).toBeUndefined();
+  expect(result.state.player.currency.coins).toBe(100);
+  expect(result.state.skillTrainingSessionsToday[OAK_OFFER]).toBe(1);
+});
+
+test("cancelSkillTraining fails without a session", () => {
+  const result = cancelSkillTraining(createTrainingState());
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(SkillTrainingMessages.noActiveTraining);
+});
+
+test("resetDailySkillTraining clears the session counts", () => {
+  const state = createTrainingState(100, {
+    skillTrainingSessionsToday: { [OAK_OFFER]: 2 },
+  });
+
+  expect(resetDailySkillTraining(state).skillTrainingSessionsToday).toEqual({});
+});
+
+test("the player cannot travel during a session", () => {
+  const started = startSkillTraining(createTrainingState(), OAK_OFFER).state;
+
+  expect(canTravel(started, "willowbrook").message).toBe(
+    TravelMessages.inSkillTraining,
+  );
+});
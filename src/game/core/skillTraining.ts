@@ -0,0 +1,278 @@
+/**
+ * Skill training: paid, timed sessions with trainer NPCs.
+ *
+ * Coins are paid when a session starts. The player stays with the trainer
+ * until the session finishes through the tick processor and grants its
+ * skill XP. Each training offer can be used a limited number of times a day.
+ */
+
+import { addCoins, canAfford, spendCoins } from "@/game/core/shop";
+import { addXpToPlayerSkill, meetsSkillRequirement } from "@/game/core/skills";
+import { SkillTrainingMessages } from "@/game/data/messages";
+import { getTrainingOffer } from "@/game/data/npcs";
+import { PERCENTAGE_MAX } from "@/game/types/common";
+import {
+  createEvent,
+  type SkillTrainingCompleteEvent,
+} from "@/game/types/event";
+import type { GameState } from "@/game/types/gameState";
+import type { NPC } from "@/game/types/npc";
+import {
+  type ActiveSkillTraining,
+  getSkillDisplayName,
+  type SkillTrainingOffer,
+} from "@/game/types/skill";
+
+/**
+ * Result of checking whether a training session can start.
+ */
+export interface CanStartSkillTrainingResult {
+  canStart: boolean;
+  message: string;
+}
+
+/**
+ * Result of starting or cancelling a training session.
+ */
+export interface SkillTrainingResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Outcome of a finished training session.
+ */
+export interface SkillTrainingOutcome {
+  /** Offer that was trained */
+  offer: SkillTrainingOffer;
+  /** Trainer that ran the session */
+  npc: NPC;
+  /** Skill XP gained */
+  xpGained: number;
+  /** Whether the trained skill leveled up */
+  leveledUp: boolean;
+  /** New skill level if leveled up */
+  newLevel?: number;
+}
+
+/**
+ * Get how many sessions of an offer were started today.
+ */
+export function getSessionsToday(state: GameState, offerId: string): number {
+  return state.skillTrainingSessionsToday[offerId] ?? 0;
+}
+
+/**
+ * Get how many sessions of an offer remain today.
+ */
+export function getSessionsRemaining(
+  state: GameState,
+  offer: SkillTrainingOffer,
+): number {
+  return Math.max(0, offer.dailyLimit - getSessionsToday(state, offer.id));
+}
+
+/**
+ * Calculate session progress as a percentage (0-100).
+ */
+export function getSkillTrainingProgress(
+  training: ActiveSkillTraining,
+): number {
+  const elapsed = training.durationTicks - training.ticksRemaining;
+  return Math.round((elapsed / training.durationTicks) * PERCENTAGE_MAX);
+}
+
+/**
+ * Check whether the player can start a training session.
+ */
+export function canStartSkillTraining(
+  state: GameState,
+  offerId: string,
+): CanStartSkillTrainingResult {
+  const found = getTrainingOffer(offerId);
+  if (!found) {
+    return { canStart: false, message: SkillTrainingMessages.offerNotFound };
+  }
+  const { npc, offer } = found;
+
+  if (state.activeSkillTraining) {
+    return { canStart: false, message: SkillTrainingMessages.alreadyTraining };
+  }
+
+  if (state.player.currentLocationId !== npc.locationId) {
+    return {
+      canStart: false,
+      message: SkillTrainingMessages.notAtTrainer(npc.name),
+    };
+  }
+
+  if (getSessionsRemaining(state, offer) <= 0) {
+    return {
+      canStart: false,
+      message: SkillTrainingMessages.dailyLimitReached(offer.name),
+    };
+  }
+
+  if (
+    offer.requiredLevel !== undefined &&
+    !meetsSkillRequirement(
+      state.player.skills,
+      offer.skill,
+      offer.requiredLevel,
+    )
+  ) {
+    return {
+      canStart: false,
+      message: SkillTrainingMessages.levelTooLow(
+        getSkillDisplayName(offer.skill),
+        offer.requiredLevel,
+      ),
+    };
+  }
+
+  if (!canAfford(state, offer.cost)) {
+    return {
+      canStart: false,
+      message: SkillTrainingMessages.notEnoughCoins(offer.cost),
+    };
+  }
+
+  return { canStart: true, message: SkillTrainingMessages.canTrain };
+}
+
+/**
+ * Pay for a training session and start it.
+ */
+export function startSkillTraining(
+  state: GameState,
+  offerId: string,
+): SkillTrainingResult {
+  const check = canStartSkillTraining(state, offerId);
+  const found = getTrainingOffer(offerId);
+  if (!check.canStart || !found) {
+    return { success: false, state, message: check.message };
+  }
+  const { npc, offer } = found;
+
+  return {
+    success: true,
+    state: {
+      ...spendCoins(state, offer.cost),
+      activeSkillTraining: {
+        offerId: offer.id,
+        npcId: npc.id,
+        durationTicks: offer.durationTicks,
+        ticksRemaining: offer.durationTicks,
+        cost: offer.cost,
+      },
+      skillTrainingSessionsToday: {
+        ...state.skillTrainingSessionsToday,
+        [offer.id]: getSessionsToday(state, offer.id) + 1,
+      },
+    },
+    message: SkillTrainingMessages.trainingStarted(offer.name, npc.name),
+  };
+}
+
+/**
+ * Advance the active training session by one tick.
+ * Grants the session's skill XP and returns its outcome when it finishes
+ * on this tick.
+ */
+export function processSkillTrainingTick(state: GameState): {
+  state: GameState;
+  outcome?: SkillTrainingOutcome;
+} {
+  const training = state.activeSkillTraining;
+  if (!training) {
+    return { state };
+  }
+
+  const found = getTrainingOffer(training.offerId);
+  if (!found) {
+    return { state: { ...state, activeSkillTraining: undefined } };
+  }
+
+  const ticksRemaining = training.ticksRemaining - 1;
+  if (ticksRemaining > 0) {
+    return {
+      state: {
+        ...state,
+        activeSkillTraining: { ...training, ticksRemaining },
+      },
+    };
+  }
+
+  const { npc, offer } = found;
+  const { skills, result } = addXpToPlayerSkill(
+    state.player.skills,
+    offer.skill,
+    offer.xpGranted,
+  );
+  return {
+    state: {
+      ...state,
+      player: { ...state.player, skills },
+      activeSkillTraining: undefined,
+    },
+    outcome: {
+      offer,
+      npc,
+      xpGained: result.xpGained,
+      leveledUp: result.leveledUp,
+      newLevel: result.newLevel,
+    },
+  };
+}
+
+/**
+ * Create a skillTrainingComplete event for a finished session.
+ */
+export function createSkillTrainingCompleteEvent(
+  outcome: SkillTrainingOutcome,
+  timestamp: number,
+): SkillTrainingCompleteEvent {
+  return createEvent<SkillTrainingCompleteEvent>(
+    {
+      type: "skillTrainingComplete",
+      offerName: outcome.offer.name,
+      npcName: outcome.npc.name,
+      skillType: outcome.offer.skill,
+      xpGained: outcome.xpGained,
+      newLevel: outcome.newLevel,
+    },
+    timestamp,
+  );
+}
+
+/**
+ * Cancel the active training session and refund its cost. The session
+ * still counts toward the daily limit.
+ */
+export function cancelSkillTraining(state: GameState): SkillTrainingResult {
+  const training = state.activeSkillTraining;
+  if (!training) {
+    return {
+      success: false,
+      state,
+      message: SkillTrainingMessages.noActiveTraining,
+    };
+  }
+
+  return {
+    success: true,
+    state: {
+      ...addCoins(state, training.cost),
+      activeSkillTraining: undefined,
+    },
+    message: SkillTrainingMessages.trainingCancelled,
+  };
+}
+
+/**
+ * Clear the daily session counts for every training offer.
+ */
+export function resetDailySkillTraining(state: GameState): GameState {
+  return { ...state, skillTrainingSessionsToday: {} };
+}
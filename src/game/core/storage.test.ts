@@ -0,0 +1,151 @@
+/**
+ * Tests for home storage and item overflow.
+ */
+
+import { expect, test } from "bun:test";
+import { CARRIED_INVENTORY_CAPACITY } from "@/game/core/inventory";
+import { FOOD_ITEMS, TOY_ITEMS } from "@/game/data/items";
+import { StorageMessages } from "@/game/data/messages";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import type { Inventory, InventoryItem } from "@/game/types/gameState";
+import {
+  describeItemOverflow,
+  hasStorageAccess,
+  receiveItem,
+  STORAGE_CAPACITY,
+  transferItem,
+} from "./storage";
+
+function createBall(durability: number): InventoryItem {
+  return {
+    itemId: TOY_ITEMS.BALL.id,
+    quantity: 1,
+    currentDurability: durability,
+  };
+}
+
+function createFullInventory(capacity: number): Inventory {
+  return { items: Array.from({ length: capacity }, () => createBall(1)) };
+}
+
+test("hasStorageAccess is true only where there is a Storage facility", () => {
+  expect(hasStorageAccess(createTestGameState())).toBe(true);
+  expect(
+    hasStorageAccess(
+      createTestGameState(undefined, {
+        player: { currentLocationId: "meadow" },
+      }),
+    ),
+  ).toBe(false);
+});
+
+test("receiveItem puts items in the bag while it has room", () => {
+  const state = createTestGameState();
+
+  const result = receiveItem(state, FOOD_ITEMS.KIBBLE.id, 3);
+
+  expect(result.carried).toBe(3);
+  expect(result.stored).toBe(0);
+  expect(result.lost).toBe(0);
+  expect(result.state.player.inventory.items).toEqual([
+    { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 3, currentDurability: null },
+  ]);
+});
+
+test("receiveItem sends items to storage when the bag is full", () => {
+  const state = createTestGameState(undefined, {
+    player: { inventory: createFullInventory(CARRIED_INVENTORY_CAPACITY) },
+  });
+
+  const result = receiveItem(state, FOOD_ITEMS.KIBBLE.id, 3);
+
+  expect(result.carried).toBe(0);
+  expect(result.stored).toBe(3);
+  expect(result.state.player.inventory).toBe(state.player.inventory);
+  expect(result.state.player.storage.items).toEqual([
+    { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 3, currentDurability: null },
+  ]);
+});
+
+test("receiveItem loses items when the bag and storage are full", () => {
+  const state = createTestGameState(undefined, {
+    player: {
+      inventory: createFullInventory(CARRIED_INVENTORY_CAPACITY),
+      storage: createFullInventory(STORAGE_CAPACITY),
+    },
+  });
+
+  const result = receiveItem(state, TOY_ITEMS.BALL.id, 2);
+
+  expect(result.lost).toBe(2);
+  expect(result.state.player.storage).toBe(state.player.storage);
+});
+
+test("receiveItem ignores unknown items", () => {
+  const state = createTestGameState();
+
+  const result = receiveItem(state, "nonexistent", 2);
+
+  expect(result.state).toBe(state);
+  expect(result.carried + result.stored + result.lost).toBe(0);
+});
+
+test("describeItemOverflow notes stored and lost items", () => {
+  const name = FOOD_ITEMS.KIBBLE.name;
+
+  expect(
+    describeItemOverflow(FOOD_ITEMS.KIBBLE.id, { stored: 0, lost: 0 }),
+  ).toBeUndefined();
+  expect(
+    describeItemOverflow(FOOD_ITEMS.KIBBLE.id, { stored: 2, lost: 1 }),
+  ).toBe(
+    `${StorageMessages.sentToStorage(2, name)} ${StorageMessages.lost(1, name)}`,
+  );
+});
+
+test("transferItem moves stackable items between inventories", () => {
+  const from: Inventory = {
+    items: [
+      { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 5, currentDurability: null },
+    ],
+  };
+
+  const result = transferItem(
+    from,
+    { items: [] },
+    FOOD_ITEMS.KIBBLE.id,
+    2,
+    STORAGE_CAPACITY,
+  );
+
+  expect(result?.from.items[0]?.quantity).toBe(3);
+  expect(result?.to.items).toEqual([
+    { itemId: FOOD_ITEMS.KIBBLE.id, quantity: 2, currentDurability: null },
+  ]);
+});
+
+test("transferItem keeps the durability of moved items", () => {
+  const from: Inventory = { items: [createBall(10), createBall(4)] };
+
+  const result = transferItem(
+    from,
+    { items: [] },
+    TOY_ITEMS.BALL.id,
+    1,
+    STORAGE_CAPACITY,
+  );
+
+  expect(result?.from.items).toEqual([createBall(10)]);
+  expect(result?.to.items).toEqual([createBall(4)]);
+});
+
+test("transferItem fails without the items or without room", () => {
+  const from: Inventory = { items: [createBall(10)] };
+
+  expect(
+    transferItem(from, { items: [] }, TOY_ITEMS.BALL.id, 2, STORAGE_CAPACITY),
+  ).toBeNull();
+  expect(
+    transferItem(from, createFullInventory(2), TOY_ITEMS.BALL.id, 1, 2),
+  ).toBeNull();
+});
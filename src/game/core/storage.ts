@@ -0,0 +1,152 @@
+/**
+ * Home storage for items the player is not carrying.
+ *
+ * Storage holds many more stacks than the carried inventory but can only be
+ * used at locations with a Storage facility. Items the player receives
+ * while their bag is full are sent to storage, and items that do not fit
+ * there either are lost.
+ */
+
+import {
+  addItemWithinCapacity,
+  CARRIED_INVENTORY_CAPACITY,
+  canAddItem,
+  hasItem,
+  removeItem,
+} from "@/game/core/inventory";
+import { getItemById } from "@/game/data/items";
+import { getLocation } from "@/game/data/locations";
+import { StorageMessages } from "@/game/data/messages";
+import type { GameState, Inventory } from "@/game/types/gameState";
+import { FacilityType } from "@/game/types/location";
+
+/**
+ * Maximum number of item stacks in home storage.
+ */
+export const STORAGE_CAPACITY = 100;
+
+/**
+ * Check if the player's current location has a Storage facility.
+ */
+export function hasStorageAccess(state: GameState): boolean {
+  return (
+    getLocation(state.player.currentLocationId)?.facilities.includes(
+      FacilityType.Storage,
+    ) ?? false
+  );
+}
+
+/**
+ * Result of giving items to the player.
+ */
+export interface ReceiveItemResult {
+  /** Updated game state */
+  state: GameState;
+  /** Quantity added to the carried inventory */
+  carried: number;
+  /** Quantity sent to storage because the bag was full */
+  stored: number;
+  /** Quantity lost because the bag and storage were full */
+  lost: number;
+}
+
+/**
+ * Give items to the player. Items go into the carried inventory while it
+ * has room, then into storage, and whatever is left is lost.
+ * Unknown items are ignored.
+ */
+export function receiveItem(
+  state: GameState,
+  itemId: string,
+  quantity: number,
+): ReceiveItemResult {
+  if (!getItemById(itemId)) {
+    console.warn(`Attempted to add unknown item: ${itemId}`);
+    return { state, carried: 0, stored: 0, lost: 0 };
+  }
+
+  const carried = addItemWithinCapacity(
+    state.player.inventory,
+    itemId,
+    quantity,
+    CARRIED_INVENTORY_CAPACITY,
+  );
+  const stored = addItemWithinCapacity(
+    state.player.storage,
+    itemId,
+    carried.overflow,
+    STORAGE_CAPACITY,
+  );
+
+  return {
+    state: {
+      ...state,
+      player: {
+        ...state.player,
+        inventory: carried.inventory,
+        storage: stored.inventory,
+      },
+    },
+    carried: carried.added,
+    stored: stored.added,
+    lost: stored.overflow,
+  };
+}
+
+/**
+ * Describe items that did not reach the carried inventory, or undefined if
+ * everything was carried.
+ */
+export function describeItemOverflow(
+  itemId: string,
+  result: Pick<ReceiveItemResult, "stored" | "lost">,
+): string | undefined {
+  const itemName = getItemById(itemId)?.name ?? itemId;
+  const notes = [
+    result.stored > 0
+      ? StorageMessages.sentToStorage(result.stored, itemName)
+      : null,
+    result.lost > 0 ? StorageMessages.lost(result.lost, itemName) : null,
+  ].filter((note): note is string => note !== null);
+  return notes.length > 0 ? notes.join(" ") : undefined;
+}
+
+/**
+ * Move items from one inventory to another holding at most `capacity`
+ * stacks. Durability items keep their current durability.
+ * Returns null if the source lacks the items or the destination lacks room.
+ */
+export function transferItem(
+  from: Inventory,
+  to: Inventory,
+  itemId: string,
+  quantity: number,
+  capacity: number,
+): { from: Inventory; to: Inventory } | null {
+  const itemDef = getItemById(itemId);
+  if (
+    !itemDef ||
+    !hasItem(from, itemId, quantity) ||
+    !canAddItem(to, itemId, quantity, capacity)
+  ) {
+    return null;
+  }
+
+  if (itemDef.stackable) {
+    return {
+      from: removeItem(from, itemId, quantity),
+      to: addItemWithinCapacity(to, itemId, quantity, capacity).inventory,
+    };
+  }
+
+  // Move the most recently added instances, matching removeItem
+  const moved = from.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.itemId === itemId)
+    .slice(-quantity);
+  const movedIndices = new Set(moved.map(({ index }) => index));
+  return {
+    from: { items: from.items.filter((_, index) => !movedIndices.has(index)) },
+    to: { items: [...to.items, ...moved.map(({ item }) => item)] },
+  };
+}
@@ -5,8 +5,10 @@
 import { expect, test } from "bun:test";
 import {
   ENERGY_REGEN_AWAKE,
+  ENERGY_REGEN_INN,
   ENERGY_REGEN_SLEEPING,
 } from "@/game/core/care/constants";
+import { createRng } from "@/game/core/rng";
 import { createTestPet } from "@/game/testing/createTestPet";
 import { setupTimeFreezing } from "@/game/testing/time";
 import { processPetTick } from "./tick";
@@ -17,14 +19,14 @@ test("processPetTick increments ageTicks by 1", () => {
   const pet = createTestPet({
     growth: { stage: "baby", substage: 1, birthTime: Date.now(), ageTicks: 5 },
   });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.growth.ageTicks).toBe(6);
 });
 
 test("processPetTick applies care stat decay when awake", () => {
   const pet = createTestPet();
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   // Care stats should have decreased
   expect(updatedPet.careStats.satiety).toBeLessThan(pet.careStats.satiety);
@@ -42,8 +44,8 @@ test("processPetTick applies care stat decay when sleeping (slower rate)", () =>
     },
   });
 
-  const awakeUpdated = processPetTick(awakePet);
-  const sleepingUpdated = processPetTick(sleepingPet);
+  const awakeUpdated = processPetTick(awakePet, createRng(1));
+  const sleepingUpdated = processPetTick(sleepingPet, createRng(1));
 
   // Sleeping pet should lose less stats than awake pet
   expect(sleepingUpdated.careStats.satiety).toBeGreaterThan(
@@ -59,7 +61,7 @@ test("processPetTick applies care stat decay when sleeping (slower rate)", () =>
 
 test("processPetTick regenerates energy when awake", () => {
   const pet = createTestPet({ energyStats: { energy: 10_000 } });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.energyStats.energy).toBe(10_000 + ENERGY_REGEN_AWAKE);
 });
@@ -73,15 +75,38 @@ test("processPetTick regenerates energy faster when sleeping", () => {
       sleepTicksToday: 0,
     },
   });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.energyStats.energy).toBe(10_000 + ENERGY_REGEN_SLEEPING);
 });
 
+test("processPetTick regenerates energy fastest during an inn stay", () => {
+  const pet = createTestPet({
+    energyStats: { energy: 10_000 },
+    activityState: "sleeping",
+    sleep: {
+      isSleeping: true,
+      sleepStartTime: Date.now(),
+      sleepTicksToday: 0,
+    },
+    activeInnStay: {
+      stayId: "inn_nap",
+      locationId: "willowbrook",
+      durationTicks: 240,
+      ticksRemaining: 10,
+    },
+  });
+  const updatedPet = processPetTick(pet, createRng(1));
+
+  expect(updatedPet.energyStats.energy).toBe(10_000 + ENERGY_REGEN_INN);
+  expect(updatedPet.sleep.sleepTicksToday).toBe(1);
+  expect(updatedPet.activeInnStay?.ticksRemaining).toBe(9);
+});
+
 test("processPetTick clamps energy to max", () => {
   // Baby stage max energy is 50_000
   const pet = createTestPet({ energyStats: { energy: 49_999 } });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.energyStats.energy).toBe(50_000);
 });
@@ -98,7 +123,7 @@ test("processPetTick evaluates care life before stat decay", () => {
       careLife: 50_000,
     },
   });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   // Care life should have increased because stats were above 75% before decay
   expect(updatedPet.careLifeStats.careLife).toBeGreaterThan(50_000);
@@ -115,7 +140,7 @@ test("processPetTick drains care life when stats are at 0", () => {
       careLife: 50_000,
     },
   });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.careLifeStats.careLife).toBeLessThan(50_000);
 });
@@ -132,7 +157,7 @@ test("processPetTick clamps care life to max for stage", () => {
       careLife: 71_999,
     },
   });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.careLifeStats.careLife).toBe(72_000);
 });
@@ -142,7 +167,7 @@ test("processPetTick returns new pet object without mutating original", () => {
   const originalAgeTicks = pet.growth.ageTicks;
   const originalEnergy = pet.energyStats.energy;
 
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   // Original should not be mutated
   expect(pet.growth.ageTicks).toBe(originalAgeTicks);
@@ -161,9 +186,30 @@ test("processPetTick clamps care stats at 0 (not negative)", () => {
       happiness: 10,
     },
   });
-  const updatedPet = processPetTick(pet);
+  const updatedPet = processPetTick(pet, createRng(1));
 
   expect(updatedPet.careStats.satiety).toBeGreaterThanOrEqual(0);
   expect(updatedPet.careStats.hydration).toBeGreaterThanOrEqual(0);
   expect(updatedPet.careStats.happiness).toBeGreaterThanOrEqual(0);
 });
+
+test("processPetTick recovers from exhaustion faster when sleeping", () => {
+  const awake = processPetTick(
+    createTestPet({ exhaustionTicks: 10 }),
+    createRng(1),
+  );
+  const asleep = processPetTick(
+    createTestPet({
+      exhaustionTicks: 10,
+      sleep: {
+        isSleeping: true,
+        sleepStartTime: Date.now(),
+        sleepTicksToday: 0,
+      },
+    }),
+    createRng(1),
+  );
+
+  expect(awake.exhaustionTicks).toBe(9);
+  expect(asleep.exhaustionTicks).toBe(7);
+});
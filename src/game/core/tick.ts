@@ -8,9 +8,12 @@ import {
 } from "@/game/core/care/careLife";
 import { applyCareDecay } from "@/game/core/care/careStats";
 import { processPoopTick } from "@/game/core/care/poop";
-import { applyEnergyRegen } from "@/game/core/energy";
+import { applyEnergyRegen, applyInnEnergyRegen } from "@/game/core/energy";
+import { processExhaustionTick } from "@/game/core/exhaustion";
 import { processGrowthTick } from "@/game/core/growth";
 import { calculatePetMaxStats } from "@/game/core/petStats";
+import { processInnStayTick } from "@/game/core/rest";
+import type { Rng } from "@/game/core/rng";
 import { processSleepTick } from "@/game/core/sleep";
 import {
   applyTrainingCompletion,
@@ -30,9 +33,12 @@ import type { Pet } from "@/game/types/pet";
  * 4. Care stat decay
  * 5. Sleep timer progress
  * 6. Growth stage time
- * 7. Activity timers (training, etc.)
+ * 7. Exhaustion recovery
+ * 8. Activity timers (training, inn stays, etc.)
+ *
+ * @param rng - Random source for training completion rolls
  */
-export function processPetTick(pet: Pet): Pet {
+export function processPetTick(pet: Pet, rng: Rng): Pet {
   // Calculate max stats once per tick to avoid redundant recalculations
   const maxStats = calculatePetMaxStats(pet);
 
@@ -50,12 +56,10 @@ export function processPetTick(pet: Pet): Pet {
   // 1. Care Life drain/recovery (evaluated on current care stat state)
   const newCareLife = applyCareLifeChange(pet, maxCareStats, maxCareLife);
 
-  // 2. Energy regeneration
-  const newEnergy = applyEnergyRegen(
-    pet.energyStats.energy,
-    maxEnergy,
-    pet.sleep.isSleeping,
-  );
+  // 2. Energy regeneration (faster than sleep during an inn stay)
+  const newEnergy = pet.activeInnStay
+    ? applyInnEnergyRegen(pet.energyStats.energy, maxEnergy)
+    : applyEnergyRegen(pet.energyStats.energy, maxEnergy, pet.sleep.isSleeping);
 
   // 3. Poop generation check
   const newPoop = processPoopTick(pet);
@@ -69,7 +73,13 @@ export function processPetTick(pet: Pet): Pet {
   // 6. Growth stage time accumulation and stage transitions
   const growthResult = processGrowthTick(pet);
 
-  // 7. Process training timer
+  // 7. Exhaustion recovery (faster while sleeping)
+  const newExhaustionTicks = processExhaustionTick(
+    pet.exhaustionTicks,
+    pet.sleep.isSleeping,
+  );
+
+  // 8. Process training timer
   let updatedPet: Pet = {
     ...pet,
     growth: growthResult.growth,
@@ -83,6 +93,7 @@ export function processPetTick(pet: Pet): Pet {
     },
     poop: newPoop,
     sleep: newSleep,
+    exhaustionTicks: newExhaustionTicks,
   };
 
   // Process active training
@@ -94,7 +105,7 @@ export function processPetTick(pet: Pet): Pet {
 
     if (newTraining === null) {
       // Training completed - apply stat gains
-      updatedPet = applyTrainingCompletion(updatedPet);
+      updatedPet = applyTrainingCompletion(updatedPet, rng);
     } else {
       updatedPet = {
         ...updatedPet,
@@ -103,5 +114,8 @@ export function processPetTick(pet: Pet): Pet {
     }
   }
 
+  // Process inn stay
+  updatedPet = processInnStayTick(updatedPet, maxCareStats);
+
   return updatedPet;
 }
@@ -66,6 +66,15 @@ test("processGameTick processes pet tick", () => {
   expect(newState.pet?.careStats.satiety).toBeLessThan(pet.careStats.satiety);
 });
 
+test("processGameTick is reproducible from the same rng state", () => {
+  const state = createTestGameState({ pet: createTestPet(), rngState: 99 });
+
+  const first = processGameTick(state, FROZEN_TIME);
+  const second = processGameTick(state, FROZEN_TIME);
+
+  expect(second).toEqual(first);
+});
+
 // Tests for processMultipleTicks
 
 test("processMultipleTicks processes ticks sequentially", () => {
@@ -275,6 +284,171 @@ test("processOfflineCatchup uses provided elapsedMs", () => {
 
 // Tests for daily reset functionality
 
+// Tests for pet death
+
+function createStarvingPet(careLife: number) {
+  return createTestPet({
+    careStats: { satiety: 0, hydration: 0, happiness: 0 },
+    careLifeStats: { careLife },
+  });
+}
+
+test("processGameTick moves the pet to the memorial when Care Life runs out", () => {
+  const state = createTestGameState({ pet: createStarvingPet(50) });
+  const newState = processGameTick(state);
+
+  expect(newState.pet).toBeNull();
+  expect(newState.memorial).toHaveLength(1);
+  expect(newState.memorial[0]?.name).toBe("Test Pet");
+  expect(newState.memorial[0]?.cause).toBe("neglect");
+  expect(newState.totalTicks).toBe(state.totalTicks + 1);
+});
+
+test("processGameTick emits a petDeath event and notification", () => {
+  const state = createTestGameState({ pet: createStarvingPet(50) });
+  const newState = processGameTick(state);
+
+  expect(newState.pendingEvents.map((e) => e.type)).toContain("petDeath");
+  expect(newState.pendingNotifications).toContainEqual(
+    expect.objectContaining({ type: "petDeath", petName: "Test Pet" }),
+  );
+});
+
+test("processGameTick keeps the pet alive while Care Life remains", () => {
+  const state = createTestGameState({ pet: createStarvingPet(51) });
+  const newState = processGameTick(state);
+
+  expect(newState.pet?.careLifeStats.careLife).toBe(1);
+  expect(newState.memorial).toHaveLength(0);
+});
+
+test("processGameTick finishes an active craft and queues a notification", () => {
+  const state = createTestGameState({
+    pet: null,
+    activeCraft: {
+      recipeId: "recipe_potion",
+      durationTicks: 4,
+      ticksRemaining: 1,
+      consumedItems: [],
+    },
+  });
+  const newState = processGameTick(state);
+
+  expect(newState.activeCraft).toBeUndefined();
+  expect(newState.player.inventory.items[0]?.itemId).toBe("medicine_potion");
+  expect(newState.pendingNotifications).toContainEqual(
+    expect.objectContaining({
+      type: "craftingComplete",
+      recipeName: "Health Potion",
+    }),
+  );
+});
+
+test("processGameTick finishes a skill-training session and queues a notification", () => {
+  const state = createTestGameState({
+    pet: null,
+    activeSkillTraining: {
+      offerId: "oak_scouting_lessons",
+      npcId: "trainer_oak",
+      durationTicks: 60,
+      ticksRemaining: 1,
+      cost: 40,
+    },
+  });
+  const newState = processGameTick(state);
+
+  expect(newState.activeSkillTraining).toBeUndefined();
+  expect(newState.player.skills.scouting.currentXp).toBeGreaterThan(0);
+  expect(newState.pendingNotifications).toContainEqual(
+    expect.objectContaining({
+      type: "skillTrainingComplete",
+      offerName: "Scouting Lessons",
+      npcName: "Oak",
+    }),
+  );
+});
+
+test("processOfflineCatchup reports a death during offline time", () => {
+  const state = createTestGameState({ pet: createStarvingPet(500) });
+  const result = processOfflineCatchup(state, 100, 500);
+
+  expect(result.state.pet).toBeNull();
+  expect(result.state.memorial).toHaveLength(1);
+  expect(result.report.petDeath).toEqual({
+    petName: "Test Pet",
+    cause: "neglect",
+    ageTicks: 10,
+  });
+  // Ticks keep advancing after the pet has died
+  expect(result.state.totalTicks).toBe(100);
+});
+
+test("processGameTick ages benched pets even without an active pet", () => {
+  const benched = createTestPet({ identity: { id: "benched" } });
+  const state = createTestGameState({ pet: null, benchedPets: [benched] });
+  const newState = processGameTick(state);
+
+  expect(newState.benchedPets[0]?.growth.ageTicks).toBe(
+    benched.growth.ageTicks + 1,
+  );
+});
+
+test("processGameTick promotes a benched pet when the active pet dies", () => {
+  const benched = createTestPet({ identity: { id: "benched", name: "Bench" } });
+  const state = createTestGameState({
+    pet: createStarvingPet(50),
+    benchedPets: [benched],
+  });
+  const newState = processGameTick(state);
+
+  expect(newState.pet?.identity.id).toBe("benched");
+  expect(newState.benchedPets).toEqual([]);
+  expect(newState.memorial[0]?.name).toBe("Test Pet");
+});
+
+test("processGameTick moves benched pets whose Care Life runs out to the memorial", () => {
+  const state = createTestGameState({
+    pet: createTestPet(),
+    benchedPets: [
+      {
+        ...createStarvingPet(50),
+        identity: { ...createTestPet().identity, id: "benched", name: "Bench" },
+      },
+    ],
+  });
+  const newState = processGameTick(state);
+
+  expect(newState.pet?.identity.name).toBe("Test Pet");
+  expect(newState.benchedPets).toEqual([]);
+  expect(newState.memorial[0]?.name).toBe("Bench");
+  expect(newState.pendingNotifications).toContainEqual(
+    expect.objectContaining({ type: "petDeath", petName: "Bench" }),
+  );
+});
+
+test("processOfflineCatchup only reports the active pet's death", () => {
+  const state = createTestGameState({
+    pet: createTestPet(),
+    benchedPets: [
+      {
+        ...createStarvingPet(500),
+        identity: { ...createTestPet().identity, id: "benched", name: "Bench" },
+      },
+    ],
+  });
+  const result = processOfflineCatchup(state, 100, 500);
+
+  expect(result.state.memorial[0]?.name).toBe("Bench");
+  expect(result.report.petDeath).toBeNull();
+});
+
+test("processOfflineCatchup report has no death when the pet survives", () => {
+  const state = createTestGameState({ pet: createTestPet() });
+  const result = processOfflineCatchup(state, 10, 500);
+
+  expect(result.report.petDeath).toBeNull();
+});
+
 describe("daily reset tests", () => {
   beforeEach(() => setSystemTime(FROZEN_TIME));
   afterEach(() => setSystemTime());
@@ -302,6 +476,20 @@ describe("daily reset tests", () => {
     expect(newState.pet?.sleep.sleepTicksToday).toBe(0);
   });
 
+  test("processGameTick resets trainer session limits at midnight", () => {
+    const yesterday = new Date(FROZEN_TIME);
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    const state = createTestGameState({
+      lastDailyReset: yesterday.getTime(),
+      skillTrainingSessionsToday: { oak_scouting_lessons: 3 },
+    });
+
+    const newState = processGameTick(state, FROZEN_TIME);
+
+    expect(newState.skillTrainingSessionsToday).toEqual({});
+  });
+
   test("processGameTick does not reset when already reset today", () => {
     const todayMidnight = getMidnightTimestamp(FROZEN_TIME);
 
@@ -376,15 +564,34 @@ describe("daily reset tests", () => {
     });
 
     // Process ticks spanning 3 days
+    // The unattended pet dies before the 3 days are up, so capture its
+    // sleep counter right after the first midnight crossing
     const ticksFor3Days = Math.floor((3 * MS_PER_DAY) / TICK_DURATION_MS);
+    const firstMidnight = getMidnightTimestamp(
+      threeDaysAgo.getTime() + MS_PER_DAY,
+    );
+    let sleepTicksAfterFirstReset: number | undefined;
     const newState = processMultipleTicks(
       state,
       ticksFor3Days,
       threeDaysAgo.getTime(),
+      (tickState) => {
+        if (
+          sleepTicksAfterFirstReset === undefined &&
+          tickState.lastDailyReset === firstMidnight
+        ) {
+          sleepTicksAfterFirstReset = tickState.pet?.sleep.sleepTicksToday;
+        }
+      },
     );
 
-    // Sleep counter should be reset (we crossed multiple midnights)
-    expect(newState.pet?.sleep.sleepTicksToday).toBe(0);
+    // Sleep counter should be reset, and resets continue across every midnight
+    expect(sleepTicksAfterFirstReset).toBe(0);
+    expect(newState.lastDailyReset).toBe(
+      getMidnightTimestamp(
+        threeDaysAgo.getTime() + ticksFor3Days * TICK_DURATION_MS,
+      ),
+    );
   });
 
   test("processGameTick handles state with no pet during daily reset", () => {
@@ -434,6 +641,30 @@ describe("daily reset tests", () => {
     expect(dailyQuest?.state).toBe(QuestState.Active);
     expect(dailyQuest?.objectiveProgress).toEqual({});
   });
+
+  test("processGameTick restocks shops on daily reset", () => {
+    const yesterday = new Date(FROZEN_TIME);
+    yesterday.setDate(yesterday.getDate() - 1);
+    yesterday.setHours(12, 0, 0, 0);
+
+    const state = createTestGameState({
+      lastDailyReset: yesterday.getTime(),
+      shopStock: {
+        willowbrook_shop: {
+          remaining: { toy_plush: 0 },
+          rotatingItemIds: [],
+          buyback: { material_wood: 3 },
+        },
+      },
+    });
+
+    const newState = processGameTick(state, FROZEN_TIME);
+
+    const stock = newState.shopStock.willowbrook_shop;
+    expect(stock?.remaining).toEqual({});
+    expect(stock?.buyback).toEqual({});
+    expect(stock?.rotatingItemIds).toHaveLength(1);
+  });
 });
 
 test("processGameTick updates quest progress when training completes", () => {
@@ -534,6 +765,8 @@ test("processOfflineCatchup collects exploration result when exploration complet
       currentLocationId: "meadow",
     },
     totalTicks: 0,
+    // Seed that rolls no wild encounters on the way
+    rngState: 2,
   });
 
   const result = processOfflineCatchup(state, 10, 100);
@@ -581,6 +814,8 @@ test("processOfflineCatchup collects exploration result for in-progress explorat
       currentLocationId: "meadow",
     },
     totalTicks: 0,
+    // Seed that rolls no wild encounters on the way
+    rngState: 2,
   });
 
   const result = processOfflineCatchup(state, 5, 100);
@@ -594,6 +829,65 @@ test("processOfflineCatchup collects exploration result for in-progress explorat
   expect(result.state.pet?.activeExploration).toBeUndefined();
 });
 
+test("processOfflineCatchup pauses exploration when a wild encounter is rolled", () => {
+  const { ActivityState } = require("@/game/types/constants");
+
+  const pet = createTestPet({
+    activityState: ActivityState.Exploring,
+    activeExploration: {
+      locationId: "meadow",
+      activityId: "foraging",
+      ticksRemaining: 10,
+      durationTicks: 10,
+      startTick: 0,
+      energyCost: 0,
+    },
+  });
+
+  // Seed that rolls a wild encounter within the first few ticks
+  const state = createTestGameState({ pet, totalTicks: 0, rngState: 1 });
+  const result = processOfflineCatchup(state, 5, 100);
+
+  expect(result.state.pendingEncounter).toMatchObject({
+    locationId: "meadow",
+    activityId: "foraging",
+  });
+  // The exploration is paused, not completed
+  expect(result.state.pet?.activityState).toBe(ActivityState.Exploring);
+  expect(result.state.pet?.activeExploration?.ticksRemaining).toBeGreaterThan(
+    5,
+  );
+  expect(result.report.explorationResults).toEqual([]);
+});
+
+test("processGameTick does not progress exploration while an encounter is pending", () => {
+  const { ActivityState } = require("@/game/types/constants");
+
+  const pet = createTestPet({
+    activityState: ActivityState.Exploring,
+    activeExploration: {
+      locationId: "meadow",
+      activityId: "foraging",
+      ticksRemaining: 1,
+      durationTicks: 10,
+      startTick: 0,
+      energyCost: 0,
+    },
+  });
+  const pendingEncounter = {
+    speciesId: "florabit",
+    level: 2,
+    locationId: "meadow",
+    activityId: "foraging",
+  };
+
+  const state = createTestGameState({ pet, pendingEncounter });
+  const newState = processGameTick(state);
+
+  expect(newState.pendingEncounter).toEqual(pendingEncounter);
+  expect(newState.pet?.activeExploration?.ticksRemaining).toBe(1);
+});
+
 // Tests for training completion emits event
 
 test("processGameTick emits trainingComplete event when training completes", () => {
@@ -729,3 +1023,50 @@ test("processOfflineCatchup collects training result for in-progress training se
   // Pet should no longer be training
   expect(result.state.pet?.activeTraining).toBeUndefined();
 });
+
+test("processGameTick awards pet experience when training completes", () => {
+  const { ActivityState } = require("@/game/types/constants");
+
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: "intensive",
+      ticksRemaining: 1,
+      durationTicks: 240,
+      startTick: 0,
+      energyCost: 25_000,
+    },
+  });
+
+  const newState = processGameTick(createTestGameState({ pet }));
+
+  // 25 energy spent earns 12 XP
+  expect(newState.pet?.progression).toEqual({ level: 1, currentXp: 12 });
+});
+
+test("processOfflineCatchup reports levels gained while away", () => {
+  const { ActivityState } = require("@/game/types/constants");
+
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: "advanced",
+      ticksRemaining: 2,
+      durationTicks: 480,
+      startTick: 0,
+      energyCost: 50_000,
+    },
+  });
+
+  const state = createTestGameState({ pet, totalTicks: 0 });
+  const result = processOfflineCatchup(state, 5, 100);
+
+  // 50 energy spent earns 25 XP, enough for level 2
+  expect(result.report.levelBefore).toBe(1);
+  expect(result.report.levelAfter).toBe(2);
+  expect(result.state.pendingNotifications).toContainEqual(
+    expect.objectContaining({ type: "petLevelUp", newLevel: 2 }),
+  );
+});
@@ -2,12 +2,27 @@
  * Tick processor for batch processing multiple ticks.
  */
 
+import { processAchievements } from "@/game/core/achievements";
+import {
+  createCraftingCompleteEvent,
+  processCraftingTick,
+} from "@/game/core/crafting";
+import { applyPetDeath } from "@/game/core/death";
 import { emitEvents } from "@/game/core/events";
+import {
+  discoverLocation,
+  rollLocationDiscovery,
+} from "@/game/core/exploration/discovery";
 import {
   completeExplorationActivity,
   processExplorationTick,
 } from "@/game/core/exploration/exploration";
 import { applyExplorationRewards } from "@/game/core/exploration/rewards";
+import { createMoveLearnedEvent } from "@/game/core/moves";
+import {
+  getActivityExperience,
+  grantPetExperience,
+} from "@/game/core/petLevel";
 import { calculatePetMaxStats } from "@/game/core/petStats";
 import {
   processTimedQuestExpiration,
@@ -15,6 +30,15 @@ import {
   refreshWeeklyQuests,
   updateQuestProgress,
 } from "@/game/core/quests/quests";
+import { resetDailyRelationships } from "@/game/core/relationships";
+import { createRng, type Rng } from "@/game/core/rng";
+import { processBenchedPets } from "@/game/core/roster";
+import { restockShops } from "@/game/core/shop";
+import {
+  createSkillTrainingCompleteEvent,
+  processSkillTrainingTick,
+  resetDailySkillTraining,
+} from "@/game/core/skillTraining";
 import { resetDailySleep } from "@/game/core/sleep";
 import { processPetTick } from "@/game/core/tick";
 import {
@@ -26,32 +50,38 @@ import {
 import { completeTraining } from "@/game/core/training";
 import { getFacility } from "@/game/data/facilities";
 import { getLocation } from "@/game/data/locations";
+import { getMoveById } from "@/game/data/moves";
 import { FallbackNames } from "@/game/data/uiText";
 import type { TrainingResult } from "@/game/types/activity";
 import type { Tick } from "@/game/types/common";
-import { now, TICK_DURATION_MS } from "@/game/types/common";
+import { now, TICK_DURATION_MS, toDisplay } from "@/game/types/common";
 import { ActivityState, type GrowthStage } from "@/game/types/constants";
 import {
   createEvent,
   type ExplorationCompleteEvent,
   type GameEvent,
+  type PetDeathEvent,
   type StageTransitionEvent,
   type TrainingCompleteEvent,
 } from "@/game/types/event";
 import type { GameState } from "@/game/types/gameState";
+import { MoveLearnSource } from "@/game/types/move";
 import type { GameNotification } from "@/game/types/notification";
 import type {
   CareStatsSnapshot,
   MaxStatsSnapshot,
   OfflineExplorationResult,
+  OfflinePetDeathResult,
   OfflineReport,
   OfflineTrainingResult,
 } from "@/game/types/offline";
 import { ObjectiveType, QuestState } from "@/game/types/quest";
+import { UnlockType } from "@/game/types/unlock";
 
 /**
  * Convert a game event to a notification for persistence.
- * Returns null for events that don't require user acknowledgment.
+ * Returns null for events that don't require user acknowledgment, and for
+ * level-ups and discoveries, which add their own notifications.
  */
 function eventToNotification(event: GameEvent): GameNotification | null {
   switch (event.type) {
@@ -78,19 +108,77 @@ function eventToNotification(event: GameEvent): GameNotification | null {
         message: event.message,
         petName: event.petName,
       };
+    case "moveLearned":
+      return {
+        type: "moveLearned",
+        petName: event.petName,
+        moveId: event.moveId,
+        moveName: event.moveName,
+        source: event.source,
+      };
+    case "petDeath":
+      return {
+        type: "petDeath",
+        petName: event.petName,
+        speciesId: event.speciesId,
+        cause: event.cause,
+        ageTicks: event.ageTicks,
+      };
+    case "craftingComplete":
+      return {
+        type: "craftingComplete",
+        recipeName: event.recipeName,
+        itemId: event.itemId,
+        quantity: event.quantity,
+        bonusOutput: event.bonusOutput,
+      };
+    case "skillTrainingComplete":
+      return {
+        type: "skillTrainingComplete",
+        offerName: event.offerName,
+        npcName: event.npcName,
+        skillType: event.skillType,
+        xpGained: event.xpGained,
+        newLevel: event.newLevel,
+      };
     default:
       return null;
   }
 }
 
+/**
+ * Add tick events to the transient event bus and persist the ones
+ * that require user acknowledgment as notifications.
+ */
+function addTickEvents(state: GameState, tickEvents: GameEvent[]): GameState {
+  if (tickEvents.length === 0) return state;
+
+  const updatedState = emitEvents(state, ...tickEvents);
+
+  const newNotifications = tickEvents
+    .map(eventToNotification)
+    .filter((n): n is GameNotification => n !== null);
+  if (newNotifications.length === 0) return updatedState;
+
+  return {
+    ...updatedState,
+    pendingNotifications: [
+      ...updatedState.pendingNotifications,
+      ...newNotifications,
+    ],
+  };
+}
+
 /**
  * Apply daily reset if needed.
  * Resets daily counters like sleepTicksToday at midnight local time.
- * Also refreshes daily quests.
+ * Also refreshes daily quests, restocks the shops and resets trainer
+ * session limits.
  */
 function applyDailyResetIfNeeded(
   state: GameState,
-  currentTime: number = now(),
+  currentTime: number,
+  rng: Rng,
 ): GameState {
   if (!shouldDailyReset(state.lastDailyReset, currentTime)) {
     return state;
@@ -111,6 +199,15 @@ function applyDailyResetIfNeeded(
   // Refresh daily quests on daily reset
   updatedState = refreshDailyQuests(updatedState, currentTime);
 
+  // Refill shop stock and pick new rotating items
+  updatedState = restockShops(updatedState, rng);
+
+  // NPCs welcome a new conversation and gift each day
+  updatedState = resetDailyRelationships(updatedState);
+
+  // Trainers offer a fresh set of sessions each day
+  updatedState = resetDailySkillTraining(updatedState);
+
   return updatedState;
 }
 
@@ -141,15 +238,34 @@ function applyWeeklyResetIfNeeded(
 /**
  * Process a single game tick, updating the entire game state.
  * Emits events for significant occurrences (training/exploration completion, stage transitions).
+ * The tick's events then count toward achievements, and any achievement whose condition is met unlocks.
+ * Random decisions draw from the state's rngState, which is advanced.
  * @param state The current game state
  * @param currentTime Optional timestamp for the tick (defaults to now(), pass explicit time for offline catch-up)
  */
 export function processGameTick(
   state: GameState,
   currentTime: number = now(),
+): GameState {
+  const rng = createRng(state.rngState);
+  const tickedState = processTick(state, currentTime, rng);
+  return processAchievements(
+    { ...tickedState, rngState: rng.state },
+    tickedState.pendingEvents,
+    currentTime,
+  );
+}
+
+/**
+ * Tick processing for processGameTick, drawing random values from rng.
+ */
+function processTick(
+  state: GameState,
+  currentTime: number,
+  rng: Rng,
 ): GameState {
   // Check for daily reset first
-  let workingState = applyDailyResetIfNeeded(state, currentTime);
+  let workingState = applyDailyResetIfNeeded(state, currentTime, rng);
 
   // Check for weekly reset
   workingState = applyWeeklyResetIfNeeded(workingState, currentTime);
@@ -163,18 +279,52 @@ export function processGameTick(
     pendingEvents: [],
   };
 
+  // Advance the player's timed craft (independent of the pet)
+  const craftingResult = processCraftingTick(updatedState, rng);
+  updatedState = craftingResult.state;
+  const craftingEvents: GameEvent[] = craftingResult.outcome
+    ? [createCraftingCompleteEvent(craftingResult.outcome, currentTime)]
+    : [];
+
+  // Advance the player's skill-training session (independent of the pet)
+  const skillTrainingResult = processSkillTrainingTick(updatedState);
+  updatedState = skillTrainingResult.state;
+  const skillTrainingEvents: GameEvent[] = skillTrainingResult.outcome
+    ? [
+        createSkillTrainingCompleteEvent(
+          skillTrainingResult.outcome,
+          currentTime,
+        ),
+      ]
+    : [];
+
+  // Benched pets rest in the daycare whether or not there is an active pet
+  const benchedResult = processBenchedPets(updatedState, currentTime);
+  updatedState = benchedResult.state;
+  const backgroundEvents: GameEvent[] = [
+    ...craftingEvents,
+    ...skillTrainingEvents,
+    ...benchedResult.events,
+  ];
+
   // If no pet, just update time
   if (!updatedState.pet) {
-    return {
-      ...updatedState,
-      totalTicks: updatedState.totalTicks + 1,
-      lastSaveTime: currentTime,
-    };
+    return addTickEvents(
+      {
+        ...updatedState,
+        totalTicks: updatedState.totalTicks + 1,
+        lastSaveTime: currentTime,
+      },
+      backgroundEvents,
+    );
   }
 
   // Track previous stage for transition detection
   const previousStage: GrowthStage = updatedState.pet.growth.stage;
 
+  // Track learned moves before tick (to detect moves learned from training)
+  const previouslyLearnedMoves = updatedState.pet.moves.learned;
+
   // Track if training was active before tick (to detect completion)
   const wasTraining =
     updatedState.pet.activityState === ActivityState.Training &&
@@ -184,15 +334,45 @@ export function processGameTick(
   // Training completes when ticksRemaining === 1 (will be decremented to 0)
   let trainingResultBeforeCompletion: TrainingResult | null = null;
   let facilityId: string | null = null;
+  let trainingEnergyCost = 0;
   if (wasTraining && updatedState.pet.activeTraining?.ticksRemaining === 1) {
     trainingResultBeforeCompletion = completeTraining(updatedState.pet);
     facilityId = updatedState.pet.activeTraining.facilityId;
+    trainingEnergyCost = toDisplay(updatedState.pet.activeTraining.energyCost);
   }
 
   // Process pet tick (handles training, care, growth, etc.)
-  const updatedPet = processPetTick(updatedState.pet);
+  const updatedPet = processPetTick(updatedState.pet, rng);
   const petName = updatedPet.identity.name;
 
+  // A pet whose Care Life ran out dies before completing any activity
+  const deathResult = applyPetDeath(
+    {
+      ...updatedState,
+      pet: updatedPet,
+      totalTicks: updatedState.totalTicks + 1,
+      lastSaveTime: currentTime,
+    },
+    currentTime,
+  );
+  if (deathResult) {
+    const { memorialEntry } = deathResult;
+    return addTickEvents(deathResult.state, [
+      ...backgroundEvents,
+      createEvent<PetDeathEvent>(
+        {
+          type: "petDeath",
+          petId: memorialEntry.petId,
+          petName: memorialEntry.name,
+          speciesId: memorialEntry.speciesId,
+          cause: memorialEntry.cause,
+          ageTicks: memorialEntry.ageTicks,
+        },
+        currentTime,
+      ),
+    ]);
+  }
+
   // Detect training completion (was training, now not training)
   const trainingCompleted =
     wasTraining &&
@@ -200,7 +380,7 @@ export function processGameTick(
       updatedPet.activeTraining === undefined);
 
   // Events to emit this tick (use currentTime for consistent timestamps)
-  const tickEvents: GameEvent[] = [];
+  const tickEvents: GameEvent[] = [...backgroundEvents];
 
   // Detect stage transition
   if (updatedPet.growth.stage !== previousStage) {
@@ -224,12 +404,23 @@ export function processGameTick(
     lastSaveTime: currentTime,
   };
 
-  // Process exploration at game state level (needs access to inventory and skills)
+  // Process exploration at game state level (needs access to inventory and skills).
+  // Exploration is paused while a wild encounter is waiting to be resolved.
   if (
     updatedPet.activityState === ActivityState.Exploring &&
-    updatedPet.activeExploration
+    updatedPet.activeExploration &&
+    !updatedState.pendingEncounter
   ) {
-    const newExploration = processExplorationTick(updatedPet.activeExploration);
+    const {
+      exploration: newExploration,
+      encounter,
+      discoveredLocationId,
+    } = processExplorationTick(
+      updatedPet.activeExploration,
+      updatedPet,
+      rng,
+      updatedState.unlocks[UnlockType.Location],
+    );
 
     if (newExploration === null) {
       // Exploration completed - use new exploration system
@@ -249,6 +440,7 @@ export function processGameTick(
         updatedState.player.skills,
         completedQuestIds,
         updatedState.totalTicks,
+        rng,
       );
 
       // Update pet state
@@ -257,6 +449,7 @@ export function processGameTick(
         pet: completionResult.pet,
       };
 
+      let explorationMessage = completionResult.message;
       if (completionResult.success) {
         // Apply exploration rewards using shared helper
         const rewardsResult = applyExplorationRewards(
@@ -264,8 +457,19 @@ export function processGameTick(
           completionResult.itemsFound,
           completionResult.skillXpGains,
           activityId,
+          currentTime,
+        );
+        explorationMessage = [
+          completionResult.message,
+          ...rewardsResult.overflowNotes,
+        ].join(" ");
+        // Scouting may reveal a hidden location nearby
+        updatedStateWithPet = rollLocationDiscovery(
+          rewardsResult.state,
+          locationId,
+          rng,
+          currentTime,
         );
-        updatedStateWithPet = rewardsResult.state;
       }
 
       updatedState = updatedStateWithPet;
@@ -277,7 +481,7 @@ export function processGameTick(
             type: "explorationComplete",
             locationName,
             itemsFound: completionResult.itemsFound,
-            message: completionResult.message,
+            message: explorationMessage,
             petName,
           },
           currentTime,
@@ -291,6 +495,18 @@ export function processGameTick(
           activeExploration: newExploration,
         },
       };
+
+      // A wild encounter pauses the exploration until it is resolved
+      if (encounter) {
+        updatedState = { ...updatedState, pendingEncounter: encounter };
+      }
+      if (discoveredLocationId) {
+        updatedState = discoverLocation(
+          updatedState,
+          discoveredLocationId,
+          currentTime,
+        );
+      }
     }
   }
 
@@ -302,6 +518,13 @@ export function processGameTick(
       "any",
     );
 
+    // The pet gains experience based on the session's energy cost
+    updatedState = grantPetExperience(
+      updatedState,
+      getActivityExperience(trainingEnergyCost),
+      currentTime,
+    );
+
     // Emit training complete event
     if (trainingResultBeforeCompletion && facilityId) {
       const facility = getFacility(facilityId);
@@ -321,28 +544,25 @@ export function processGameTick(
         ),
       );
     }
-  }
-
-  // Add all tick events to state (for transient event bus)
-  if (tickEvents.length > 0) {
-    updatedState = emitEvents(updatedState, ...tickEvents);
 
-    // Also add notifications to pendingNotifications for persistence
-    const newNotifications = tickEvents
-      .map(eventToNotification)
-      .filter((n): n is GameNotification => n !== null);
-    if (newNotifications.length > 0) {
-      updatedState = {
-        ...updatedState,
-        pendingNotifications: [
-          ...updatedState.pendingNotifications,
-          ...newNotifications,
-        ],
-      };
+    // Emit move learned events for moves picked up during the session
+    for (const moveId of updatedPet.moves.learned) {
+      const move = getMoveById(moveId);
+      if (move && !previouslyLearnedMoves.includes(moveId)) {
+        tickEvents.push(
+          createMoveLearnedEvent(
+            petName,
+            move,
+            MoveLearnSource.Training,
+            currentTime,
+          ),
+        );
+      }
     }
   }
 
-  return updatedState;
+  // Add all tick events to state (event bus and persisted notifications)
+  return addTickEvents(updatedState, tickEvents);
 }
 
 /**
@@ -425,7 +645,9 @@ function createMaxStatsSnapshot(state: GameState): MaxStatsSnapshot | null {
 
 /**
  * Process offline catch-up ticks.
- * Collects exploration and training results that complete during offline time.
+ * Collects exploration and training results that complete during offline time,
+ * levels gained, and the pet's death if its Care Life ran out while the player
+ * was away.
  */
 export function processOfflineCatchup(
   state: GameState,
@@ -442,11 +664,14 @@ export function processOfflineCatchup(
   const beforeStats = createCareStatsSnapshot(state);
   const maxStats = createMaxStatsSnapshot(state);
   const poopBefore = state.pet?.poop.count ?? 0;
+  const petId = state.pet?.identity.id;
   const petName = state.pet?.identity.name ?? null;
+  const levelBefore = state.pet?.progression.level ?? null;
 
   // Process ticks and collect exploration/training results using the shared tick processor
   const explorationResults: OfflineExplorationResult[] = [];
   const trainingResults: OfflineTrainingResult[] = [];
+  let petDeath: OfflinePetDeathResult | null = null;
   const currentState = processMultipleTicks(
     state,
     cappedTicks,
@@ -469,13 +694,23 @@ export function processOfflineCatchup(
               statsGained: event.statsGained,
             },
           });
+        } else if (event.type === "petDeath" && event.petId === petId) {
+          petDeath = {
+            petName: event.petName,
+            cause: event.cause,
+            ageTicks: event.ageTicks,
+          };
         }
       }
     },
   );
 
-  const afterStats = createCareStatsSnapshot(currentState);
-  const poopAfter = currentState.pet?.poop.count ?? 0;
+  // The report follows the pet that was active, not one that replaced it
+  const activePet =
+    currentState.pet?.identity.id === petId ? currentState.pet : null;
+  const afterStats = activePet ? createCareStatsSnapshot(currentState) : null;
+  const poopAfter = activePet?.poop.count ?? 0;
+  const levelAfter = activePet?.progression.level ?? null;
 
   const report: OfflineReport = {
     elapsedMs: reportElapsedMs,
@@ -487,8 +722,11 @@ export function processOfflineCatchup(
     maxStats,
     poopBefore,
     poopAfter,
+    levelBefore,
+    levelAfter,
     explorationResults,
     trainingResults,
+    petDeath,
   };
 
   return {
@@ -0,0 +1,72 @@
+/**
+ * Tests for Trading skill price modifiers and XP.
+ */
+
+import { expect, test } from "bun:test";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import { SkillTier, SkillType } from "@/game/types/skill";
+import {
+  applyTradingBuyDiscount,
+  applyTradingSellBonus,
+  BULK_DISCOUNT_BY_TIER,
+  BULK_PURCHASE_QUANTITY,
+  getBulkDiscount,
+  getTradingPriceBonus,
+  getTradingXp,
+  grantTradingXp,
+  meetsTradingTier,
+  TRADING_MAX_PRICE_BONUS,
+} from "./trading";
+
+test("getTradingPriceBonus grows with level up to a cap", () => {
+  expect(getTradingPriceBonus(1)).toBe(0);
+  expect(getTradingPriceBonus(41)).toBeCloseTo(0.1);
+  expect(getTradingPriceBonus(99)).toBe(TRADING_MAX_PRICE_BONUS);
+});
+
+test("applyTradingBuyDiscount rounds up and never goes below 1 coin", () => {
+  expect(applyTradingBuyDiscount(10, 1)).toBe(10);
+  expect(applyTradingBuyDiscount(10, 99)).toBe(8);
+  expect(applyTradingBuyDiscount(15, 41)).toBe(14);
+  expect(applyTradingBuyDiscount(1, 99)).toBe(1);
+  expect(applyTradingBuyDiscount(0, 99)).toBe(0);
+});
+
+test("applyTradingSellBonus rounds down", () => {
+  expect(applyTradingSellBonus(10, 1)).toBe(10);
+  expect(applyTradingSellBonus(10, 99)).toBe(12);
+  expect(applyTradingSellBonus(15, 41)).toBe(16);
+});
+
+test("meetsTradingTier compares against the tier's minimum level", () => {
+  expect(meetsTradingTier(1, SkillTier.Novice)).toBe(true);
+  expect(meetsTradingTier(24, SkillTier.Journeyman)).toBe(false);
+  expect(meetsTradingTier(25, SkillTier.Journeyman)).toBe(true);
+});
+
+test("getBulkDiscount applies the tier's discount to large purchases", () => {
+  expect(getBulkDiscount(1, BULK_PURCHASE_QUANTITY)).toBe(0);
+  expect(getBulkDiscount(10, BULK_PURCHASE_QUANTITY - 1)).toBe(0);
+  expect(getBulkDiscount(10, BULK_PURCHASE_QUANTITY)).toBe(
+    BULK_DISCOUNT_BY_TIER[SkillTier.Apprentice],
+  );
+  expect(getBulkDiscount(75, 50)).toBe(BULK_DISCOUNT_BY_TIER[SkillTier.Master]);
+});
+
+test("getTradingXp scales with coin value", () => {
+  expect(getTradingXp(0)).toBe(0);
+  expect(getTradingXp(5)).toBe(1);
+  expect(getTradingXp(250)).toBe(25);
+});
+
+test("grantTradingXp adds XP to the Trading skill", () => {
+  const state = createTestGameState();
+
+  const result = grantTradingXp(state, 100);
+
+  expect(result.xpGained).toBe(10);
+  expect(result.state.player.skills[SkillType.Trading].currentXp).toBe(
+    state.player.skills[SkillType.Trading].currentXp + 10,
+  );
+  expect(grantTradingXp(state, 0).state).toBe(state);
+});
@@ -0,0 +1,149 @@
+/**
+ * Trading skill effects on shop prices, and Trading XP from transactions.
+ *
+ * Trading lowers buy prices and raises sell prices as the skill levels up.
+ * Higher tiers add a discount on bulk purchases and give access to rare
+ * shop entries.
+ */
+
+import {
+  addXpToPlayerSkill,
+  getSkillEffectMultiplier,
+  getSkillTier,
+} from "@/game/core/skills";
+import type { GameState } from "@/game/types/gameState";
+import {
+  SKILL_TIER_THRESHOLDS,
+  type SkillTier,
+  SkillTier as SkillTierValues,
+  SkillType,
+} from "@/game/types/skill";
+
+/**
+ * Price bonus per point of skill effect multiplier above 1.
+ */
+export const TRADING_PRICE_BONUS_PER_MULTIPLIER = 0.05;
+
+/**
+ * Maximum price bonus from Trading (0.0 to 1.0).
+ */
+export const TRADING_MAX_PRICE_BONUS = 0.2;
+
+/**
+ * Minimum quantity in a single purchase for the bulk discount.
+ */
+export const BULK_PURCHASE_QUANTITY = 10;
+
+/**
+ * Discount on bulk purchases by Trading tier (0.0 to 1.0).
+ */
+export const BULK_DISCOUNT_BY_TIER: Record<SkillTier, number> = {
+  [SkillTierValues.Novice]: 0,
+  [SkillTierValues.Apprentice]: 0.05,
+  [SkillTierValues.Journeyman]: 0.08,
+  [SkillTierValues.Expert]: 0.1,
+  [SkillTierValues.Master]: 0.15,
+};
+
+/**
+ * Trading XP earned per coin spent or earned.
+ */
+export const TRADING_XP_PER_COIN = 0.1;
+
+/**
+ * Get the price bonus (0.0 to 1.0) for a Trading level.
+ * There is no bonus at level 1.
+ */
+export function getTradingPriceBonus(tradingLevel: number): number {
+  return Math.min(
+    TRADING_MAX_PRICE_BONUS,
+    TRADING_PRICE_BONUS_PER_MULTIPLIER *
+      (getSkillEffectMultiplier(tradingLevel) - 1),
+  );
+}
+
+/**
+ * Apply the Trading discount to a buy price. Prices round up and never drop
+ * below 1 coin.
+ */
+export function applyTradingBuyDiscount(
+  price: number,
+  tradingLevel: number,
+): number {
+  if (price <= 0) return price;
+  return Math.max(
+    1,
+    Math.ceil(price * (1 - getTradingPriceBonus(tradingLevel))),
+  );
+}
+
+/**
+ * Apply the Trading bonus to a sell price. Prices round down.
+ */
+export function applyTradingSellBonus(
+  price: number,
+  tradingLevel: number,
+): number {
+  return Math.floor(price * (1 + getTradingPriceBonus(tradingLevel)));
+}
+
+/**
+ * Check if a Trading level has reached a tier.
+ */
+export function meetsTradingTier(
+  tradingLevel: number,
+  tier: SkillTier,
+): boolean {
+  return tradingLevel >= SKILL_TIER_THRESHOLDS[tier].min;
+}
+
+/**
+ * Get the bulk discount rate for a Trading level's tier.
+ */
+export function getBulkDiscountRate(tradingLevel: number): number {
+  return BULK_DISCOUNT_BY_TIER[getSkillTier(tradingLevel)];
+}
+
+/**
+ * Get the bulk discount (0.0 to 1.0) for buying a quantity of an item.
+ */
+export function getBulkDiscount(
+  tradingLevel: number,
+  quantity: number,
+): number {
+  return quantity >= BULK_PURCHASE_QUANTITY
+    ? getBulkDiscountRate(tradingLevel)
+    : 0;
+}
+
+/**
+ * Get the Trading XP for a transaction worth the given coins.
+ */
+export function getTradingXp(coins: number): number {
+  if (coins <= 0) return 0;
+  return Math.max(1, Math.floor(coins * TRADING_XP_PER_COIN));
+}
+
+/**
+ * Award Trading XP for a transaction worth the given coins.
+ */
+export function grantTradingXp(
+  state: GameState,
+  coins: number,
+): { state: GameState; xpGained: number; leveledUp: boolean } {
+  const xp = getTradingXp(coins);
+  if (xp === 0) {
+    return { state, xpGained: 0, leveledUp: false };
+  }
+
+  const { skills, result } = addXpToPlayerSkill(
+    state.player.skills,
+    SkillType.Trading,
+    xp,
+  );
+  return {
+    state: { ...state, player: { ...state.player, skills } },
+    xpGained: result.xpGained,
+    leveledUp: result.leveledUp,
+  };
+}
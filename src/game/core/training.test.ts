@@ -3,12 +3,16 @@
  */
 
 import { expect, test } from "bun:test";
+import { createRng, createSequenceRng } from "@/game/core/rng";
 import {
   applyTrainingCompletion,
+  calculateTrainingGains,
   cancelTraining,
   canStartTraining,
   completeTraining,
+  getTrainingAffinity,
   getTrainingProgress,
+  getTrainingStatCap,
   isSessionAvailable,
   processTrainingTick,
   startTraining,
@@ -200,12 +204,45 @@ test("applyTrainingCompletion clears training and applies stats", () => {
       energyCost: 0,
     },
   });
-  const result = applyTrainingCompletion(pet);
+  const result = applyTrainingCompletion(pet, createRng(1));
   expect(result.activityState).toBe(ActivityState.Idle);
   expect(result.activeTraining).toBeUndefined();
   expect(result.battleStats.strength).toBe(11);
 });
 
+test("applyTrainingCompletion can teach a move from the facility's pool", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: TrainingSessionType.Basic,
+      startTick: 0,
+      durationTicks: 120,
+      ticksRemaining: 0,
+      energyCost: 0,
+    },
+  });
+  const result = applyTrainingCompletion(pet, createSequenceRng([0, 0]));
+  expect(result.moves.learned).toEqual(["power_slam"]);
+  expect(result.moves.equipped).toEqual(["power_slam"]);
+});
+
+test("applyTrainingCompletion teaches no move when the roll fails", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: TrainingSessionType.Basic,
+      startTick: 0,
+      durationTicks: 120,
+      ticksRemaining: 0,
+      energyCost: 0,
+    },
+  });
+  const result = applyTrainingCompletion(pet, createSequenceRng([0.99, 0]));
+  expect(result.moves.learned).toEqual([]);
+});
+
 // cancelTraining tests
 test("cancelTraining clears training state and refunds energy", () => {
   const initialEnergy = toMicro(50);
@@ -284,6 +321,7 @@ test("isSessionAvailable returns true when no minStage required", () => {
     energyCost: 10,
     primaryStatGain: 1,
     secondaryStatGain: 0,
+    moveLearnChance: 0.03,
   };
   expect(isSessionAvailable(session, GrowthStage.Baby)).toBe(true);
 });
@@ -297,6 +335,7 @@ test("isSessionAvailable returns false when stage is insufficient", () => {
     energyCost: 50,
     primaryStatGain: 6,
     secondaryStatGain: 2,
+    moveLearnChance: 0.12,
     minStage: GrowthStage.Teen,
   };
   expect(isSessionAvailable(session, GrowthStage.Child)).toBe(false);
@@ -311,7 +350,230 @@ test("isSessionAvailable returns true when stage meets requirement", () => {
     energyCost: 25,
     primaryStatGain: 3,
     secondaryStatGain: 1,
+    moveLearnChance: 0.06,
     minStage: GrowthStage.Child,
   };
   expect(isSessionAvailable(session, GrowthStage.Teen)).toBe(true);
 });
+
+test("completeTraining increases gains with an equipped training bonus", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: TrainingSessionType.Advanced,
+      startTick: 0,
+      durationTicks: 480,
+      ticksRemaining: 0,
+      energyCost: 0,
+    },
+    equipment: {
+      accessory: { itemId: "equip_training_collar", currentDurability: 10 },
+      charm: null,
+    },
+  });
+  const result = completeTraining(pet);
+  // Advanced primary gain of 6 with +10% rounds to 7
+  expect(result.statsGained?.strength).toBe(7);
+});
+
+test("completeTraining halves gains while the pet is exhausted", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: TrainingSessionType.Advanced,
+      startTick: 0,
+      durationTicks: 480,
+      ticksRemaining: 0,
+      energyCost: 0,
+    },
+    exhaustionTicks: 100,
+  });
+  const result = completeTraining(pet);
+  // Advanced primary gain of 6 is halved to 3
+  expect(result.statsGained?.strength).toBe(3);
+});
+
+test("applyTrainingCompletion wears down training equipment", () => {
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: {
+      facilityId: "facility_strength",
+      sessionType: TrainingSessionType.Basic,
+      startTick: 0,
+      durationTicks: 120,
+      ticksRemaining: 0,
+      energyCost: 0,
+    },
+    equipment: {
+      accessory: { itemId: "equip_training_collar", currentDurability: 10 },
+      charm: null,
+    },
+  });
+  const result = applyTrainingCompletion(pet, createSequenceRng([0.99, 0]));
+  expect(result.equipment.accessory?.currentDurability).toBe(9);
+});
+
+test("canStartTraining fails when a care stat is too low", () => {
+  const pet = createTestPet({ careStats: { satiety: 0 } });
+  const result = canStartTraining(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Basic,
+  );
+  expect(result.canTrain).toBe(false);
+  expect(result.message).toContain("satiety");
+});
+
+test("calculateTrainingGains applies fatigue for repeated sessions at a facility", () => {
+  const pet = createTestPet({
+    trainingHistory: {
+      lastFacilityId: "facility_strength",
+      consecutiveSessions: 2,
+    },
+  });
+  const gains = calculateTrainingGains(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Advanced,
+  );
+  // Advanced primary gain of 6 with 30% fatigue rounds to 4
+  expect(gains?.facilityMultiplier).toBeCloseTo(0.7);
+  expect(gains?.primaryStatGain).toBe(4);
+});
+
+test("calculateTrainingGains limits fatigue to the maximum", () => {
+  const pet = createTestPet({
+    trainingHistory: {
+      lastFacilityId: "facility_strength",
+      consecutiveSessions: 10,
+    },
+  });
+  const gains = calculateTrainingGains(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Advanced,
+  );
+  // Advanced primary gain of 6 with 60% fatigue rounds to 2
+  expect(gains?.primaryStatGain).toBe(2);
+});
+
+test("calculateTrainingGains gives a variety bonus for switching facilities", () => {
+  const pet = createTestPet({
+    trainingHistory: {
+      lastFacilityId: "facility_agility",
+      consecutiveSessions: 3,
+    },
+  });
+  const gains = calculateTrainingGains(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Advanced,
+  );
+  // Advanced primary gain of 6 with +10% rounds to 7
+  expect(gains?.primaryStatGain).toBe(7);
+});
+
+test("calculateTrainingGains applies species training affinity", () => {
+  const pet = createTestPet({ identity: { speciesId: "sparkfin" } });
+  expect(getTrainingAffinity(pet, "strength")).toBe(1.2);
+  expect(getTrainingAffinity(pet, "endurance")).toBe(0.8);
+
+  const gains = calculateTrainingGains(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Advanced,
+  );
+  // Advanced primary gain of 6 with x1.2 affinity rounds to 7
+  expect(gains?.primaryStatGain).toBe(7);
+});
+
+test("balanced species have no training affinity", () => {
+  const pet = createTestPet();
+  expect(getTrainingAffinity(pet, "strength")).toBe(1);
+});
+
+test("getTrainingStatCap rises with each growth stage", () => {
+  expect(getTrainingStatCap(GrowthStage.Baby)).toBe(30);
+  expect(getTrainingStatCap(GrowthStage.Child)).toBe(60);
+  expect(getTrainingStatCap(GrowthStage.Adult)).toBe(150);
+});
+
+test("calculateTrainingGains stops gains at the stage stat cap", () => {
+  const pet = createTestPet({ trainedBattleStats: { strength: 28 } });
+  const gains = calculateTrainingGains(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Advanced,
+  );
+  expect(gains?.primaryStatGain).toBe(2);
+  expect(gains?.capped).toBe(true);
+
+  const cappedPet = createTestPet({ trainedBattleStats: { strength: 30 } });
+  expect(
+    calculateTrainingGains(
+      cappedPet,
+      "facility_strength",
+      TrainingSessionType.Advanced,
+    )?.primaryStatGain,
+  ).toBe(0);
+});
+
+test("calculateTrainingGains leaves level-up gains out of the stat cap", () => {
+  // Level 21 adds 20 to every trained stat, leaving 10 trained points of 30
+  const pet = createTestPet({
+    progression: { level: 21, currentXp: 0 },
+    trainedBattleStats: { strength: 30 },
+  });
+  const gains = calculateTrainingGains(
+    pet,
+    "facility_strength",
+    TrainingSessionType.Advanced,
+  );
+  expect(gains?.primaryStatGain).toBe(6);
+  expect(gains?.capped).toBe(false);
+});
+
+test("applyTrainingCompletion tracks consecutive sessions at a facility", () => {
+  const training: ActiveTraining = {
+    facilityId: "facility_strength",
+    sessionType: TrainingSessionType.Basic,
+    startTick: 0,
+    durationTicks: 120,
+    ticksRemaining: 0,
+    energyCost: 0,
+  };
+  const pet = createTestPet({
+    activityState: ActivityState.Training,
+    activeTraining: training,
+  });
+  const first = applyTrainingCompletion(pet, createSequenceRng([0.99]));
+  expect(first.trainingHistory).toEqual({
+    lastFacilityId: "facility_strength",
+    consecutiveSessions: 1,
+  });
+
+  const second = applyTrainingCompletion(
+    {
+      ...first,
+      activityState: ActivityState.Training,
+      activeTraining: training,
+    },
+    createSequenceRng([0.99]),
+  );
+  expect(second.trainingHistory?.consecutiveSessions).toBe(2);
+
+  const switched = applyTrainingCompletion(
+    {
+      ...second,
+      activityState: ActivityState.Training,
+      activeTraining: { ...training, facilityId: "facility_agility" },
+    },
+    createSequenceRng([0.99]),
+  );
+  expect(switched.trainingHistory).toEqual({
+    lastFacilityId: "facility_agility",
+    consecutiveSessions: 1,
+  });
+});
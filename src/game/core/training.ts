@@ -1,13 +1,34 @@
 /**
  * Training system core logic.
+ *
+ * Stat gains are scaled by equipment, exhaustion, facility fatigue or
+ * variety, and species affinity, then capped by the pet's growth stage.
  */
 
 import { checkActivityRequirements } from "@/game/core/activityGating";
+import {
+  degradeEquipment,
+  getEquipmentEffectTotal,
+} from "@/game/core/equipment";
+import {
+  EXHAUSTION_TRAINING_MULTIPLIER,
+  isExhausted,
+} from "@/game/core/exhaustion";
+import { learnMove, rollTrainingMoveLearn } from "@/game/core/moves";
+import { getLevelUpStatTotal } from "@/game/core/petLevel";
 import { calculatePetMaxStats } from "@/game/core/petStats";
-import { getFacility, getSession } from "@/game/data/facilities";
+import type { Rng } from "@/game/core/rng";
+import {
+  getFacility,
+  getSession,
+  TRAINING_ARCHETYPE_AFFINITIES,
+  TRAINING_MODIFIER_CONFIG,
+} from "@/game/data/facilities";
 import { TrainingMessages } from "@/game/data/messages";
+import { getSpeciesById } from "@/game/data/species";
 import type {
   ActiveTraining,
+  TrainableStat,
   TrainingResult,
   TrainingSession,
   TrainingSessionType,
@@ -19,7 +40,27 @@ import {
   type GrowthStage,
 } from "@/game/types/constants";
 import type { Pet } from "@/game/types/pet";
-import type { BattleStats } from "@/game/types/stats";
+import type { BattleStats, CareStats } from "@/game/types/stats";
+
+/**
+ * Training gains with every modifier applied, for completion and previews.
+ */
+export interface TrainingGainPreview {
+  primaryStat: TrainableStat;
+  primaryStatGain: number;
+  secondaryStat: TrainableStat;
+  secondaryStatGain: number;
+  /** Fatigue or variety multiplier for the facility (1 when neither applies) */
+  facilityMultiplier: number;
+  /** Species affinity multiplier for the primary stat */
+  primaryAffinity: number;
+  /** Species affinity multiplier for the secondary stat */
+  secondaryAffinity: number;
+  /** Trained stat cap at the pet's growth stage */
+  statCap: number;
+  /** Whether either gain was reduced by the stat cap */
+  capped: boolean;
+}
 
 /**
  * Check if a training session is available based on pet's growth stage.
@@ -73,9 +114,135 @@ export function canStartTraining(
     };
   }
 
+  const careCheck = checkTrainingCare(pet);
+  if (!careCheck.allowed) {
+    return { canTrain: false, message: careCheck.message };
+  }
+
   return { canTrain: true, message: TrainingMessages.readyToTrain };
 }
 
+/**
+ * Check that every care stat is above the training minimum.
+ */
+export function checkTrainingCare(pet: Pet): {
+  allowed: boolean;
+  message: string;
+} {
+  const maxStats = calculatePetMaxStats(pet);
+  if (!maxStats) {
+    return { allowed: true, message: "" };
+  }
+
+  for (const stat of Object.keys(pet.careStats) as (keyof CareStats)[]) {
+    const max = maxStats.care[stat];
+    const percent = max > 0 ? (pet.careStats[stat] / max) * PERCENTAGE_MAX : 0;
+    if (percent <= TRAINING_MODIFIER_CONFIG.MIN_CARE_PERCENT) {
+      return { allowed: false, message: TrainingMessages.careTooLow(stat) };
+    }
+  }
+
+  return { allowed: true, message: "" };
+}
+
+/**
+ * Get the cap on each trained stat for a growth stage.
+ * Only points from training count towards it, not level-up gains.
+ */
+export function getTrainingStatCap(stage: GrowthStage): number {
+  return (
+    TRAINING_MODIFIER_CONFIG.BASE_STAT_CAP +
+    GROWTH_STAGE_ORDER.indexOf(stage) * TRAINING_MODIFIER_CONFIG.STAGE_BONUS_CAP
+  );
+}
+
+/**
+ * Get the gain multiplier for training at a facility.
+ * Repeating the last facility adds fatigue for each session in a row there;
+ * switching to a different facility earns the variety bonus.
+ */
+export function getFacilityMultiplier(pet: Pet, facilityId: string): number {
+  const history = pet.trainingHistory;
+  if (!history) return 1;
+
+  if (history.lastFacilityId !== facilityId) {
+    return 1 + TRAINING_MODIFIER_CONFIG.VARIETY_BONUS;
+  }
+
+  const fatigue = Math.min(
+    TRAINING_MODIFIER_CONFIG.MAX_FATIGUE,
+    history.consecutiveSessions * TRAINING_MODIFIER_CONFIG.FATIGUE_PER_SESSION,
+  );
+  return 1 - fatigue;
+}
+
+/**
+ * Get the species affinity multiplier for training a stat.
+ */
+export function getTrainingAffinity(pet: Pet, stat: TrainableStat): number {
+  const archetype = getSpeciesById(pet.identity.speciesId)?.archetype;
+  if (!archetype) return 1;
+  return TRAINING_ARCHETYPE_AFFINITIES[archetype][stat] ?? 1;
+}
+
+/**
+ * Calculate the stat gains a session would give the pet right now.
+ * Returns null if the facility or session does not exist.
+ */
+export function calculateTrainingGains(
+  pet: Pet,
+  facilityId: string,
+  sessionType: TrainingSessionType,
+): TrainingGainPreview | null {
+  const facility = getFacility(facilityId);
+  const session = getSession(facilityId, sessionType);
+  if (!facility || !session) return null;
+
+  // Equipment training bonuses scale the gains (rounded to whole stat points)
+  const equipmentMultiplier =
+    1 + getEquipmentEffectTotal(pet, "trainingBonus") / PERCENTAGE_MAX;
+  const exhaustionMultiplier = isExhausted(pet)
+    ? EXHAUSTION_TRAINING_MULTIPLIER
+    : 1;
+  const facilityMultiplier = getFacilityMultiplier(pet, facilityId);
+  const gainMultiplier =
+    equipmentMultiplier * exhaustionMultiplier * facilityMultiplier;
+
+  const primaryAffinity = getTrainingAffinity(pet, facility.primaryStat);
+  const secondaryAffinity = getTrainingAffinity(pet, facility.secondaryStat);
+  const statCap = getTrainingStatCap(pet.growth.stage);
+  // Level-up gains are stored with trained stats but do not use up the cap
+  const levelUpStats = getLevelUpStatTotal(pet.progression.level);
+
+  const capGain = (stat: TrainableStat, gain: number): number =>
+    Math.max(
+      0,
+      Math.min(gain, statCap - (pet.trainedBattleStats[stat] - levelUpStats)),
+    );
+
+  const rawPrimaryGain = Math.round(
+    session.primaryStatGain * gainMultiplier * primaryAffinity,
+  );
+  const rawSecondaryGain = Math.round(
+    session.secondaryStatGain * gainMultiplier * secondaryAffinity,
+  );
+  const primaryStatGain = capGain(facility.primaryStat, rawPrimaryGain);
+  const secondaryStatGain = capGain(facility.secondaryStat, rawSecondaryGain);
+
+  return {
+    primaryStat: facility.primaryStat,
+    primaryStatGain,
+    secondaryStat: facility.secondaryStat,
+    secondaryStatGain,
+    facilityMultiplier,
+    primaryAffinity,
+    secondaryAffinity,
+    statCap,
+    capped:
+      primaryStatGain < rawPrimaryGain || secondaryStatGain < rawSecondaryGain,
+  };
+}
+
 /**
  * Start a training session.
  * Returns the updated pet state or null if training cannot start.
@@ -145,6 +312,7 @@ export function processTrainingTick(
 
 /**
  * Complete a training session and apply stat gains.
+ * Gains include every modifier from calculateTrainingGains.
  */
 export function completeTraining(pet: Pet): TrainingResult {
   if (!pet.activeTraining) {
@@ -155,10 +323,9 @@ export function completeTraining(pet: Pet): TrainingResult {
   }
 
   const { facilityId, sessionType } = pet.activeTraining;
-  const facility = getFacility(facilityId);
-  const session = getSession(facilityId, sessionType);
+  const gains = calculateTrainingGains(pet, facilityId, sessionType);
 
-  if (!facility || !session) {
+  if (!gains) {
     return {
       success: false,
       message: TrainingMessages.trainingDataNotFound,
@@ -166,17 +333,17 @@ export function completeTraining(pet: Pet): TrainingResult {
   }
 
   const statsGained: Partial<BattleStats> = {
-    [facility.primaryStat]: session.primaryStatGain,
-    [facility.secondaryStat]: session.secondaryStatGain,
+    [gains.primaryStat]: gains.primaryStatGain,
+    [gains.secondaryStat]: gains.secondaryStatGain,
   };
 
   return {
     success: true,
     message: TrainingMessages.trainingComplete(
-      session.primaryStatGain,
-      facility.primaryStat,
-      session.secondaryStatGain,
-      facility.secondaryStat,
+      gains.primaryStatGain,
+      gains.primaryStat,
+      gains.secondaryStatGain,
+      gains.secondaryStat,
     ),
     statsGained,
   };
@@ -187,8 +354,13 @@ export function completeTraining(pet: Pet): TrainingResult {
  * Returns the updated pet with training cleared and trained stats applied.
  * Training gains are added to trainedBattleStats (not battleStats directly)
  * so they are preserved across stage transitions.
+ * Completing a session wears down training equipment, updates the training
+ * history used for fatigue and variety, and has a chance to teach the pet a
+ * new move.
+ *
+ * @param rng - Random source for the move learning chance and pick
  */
-export function applyTrainingCompletion(pet: Pet): Pet {
+export function applyTrainingCompletion(pet: Pet, rng: Rng): Pet {
   const result = completeTraining(pet);
 
   if (!result.success || !result.statsGained) {
@@ -212,13 +384,37 @@ export function applyTrainingCompletion(pet: Pet): Pet {
     }
   }
 
-  return {
-    ...pet,
-    activityState: ActivityState.Idle,
-    activeTraining: undefined,
-    trainedBattleStats: newTrainedBattleStats,
-    battleStats: newBattleStats,
-  };
+  const facilityId = pet.activeTraining?.facilityId ?? "";
+  const consecutiveSessions =
+    pet.trainingHistory?.lastFacilityId === facilityId
+      ? pet.trainingHistory.consecutiveSessions + 1
+      : 1;
+
+  const trainedPet: Pet = degradeEquipment(
+    {
+      ...pet,
+      activityState: ActivityState.Idle,
+      activeTraining: undefined,
+      trainedBattleStats: newTrainedBattleStats,
+      battleStats: newBattleStats,
+      trainingHistory: { lastFacilityId: facilityId, consecutiveSessions },
+    },
+    "training",
+  ).pet;
+
+  const learnedMoveId = pet.activeTraining
+    ? rollTrainingMoveLearn(
+        pet,
+        pet.activeTraining.facilityId,
+        pet.activeTraining.sessionType,
+        rng,
+      )
+    : null;
+  if (!learnedMoveId) {
+    return trainedPet;
+  }
+
+  return learnMove(trainedPet, learnedMoveId).pet;
 }
 
 /**
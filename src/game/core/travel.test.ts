@@ -15,11 +15,13 @@ import {
 } from "@/game/types/constants";
 import { createInitialGameState, type GameState } from "@/game/types/gameState";
 import type { Pet } from "@/game/types/pet";
+import { createInitialUnlocks } from "@/game/types/unlock";
 import {
   calculateTravelCost,
   canTravel,
   checkLocationRequirements,
-  travel,
+  findTravelRoute,
+  travelTo,
 } from "./travel";
 
 function createTestState(options: {
@@ -54,13 +56,17 @@ function createTestState(options: {
 
 test("checkLocationRequirements returns met for no requirements", () => {
   const state = createTestState({});
-  const result = checkLocationRequirements(state, undefined);
+  const result = checkLocationRequirements(state, undefined, "meadow");
   expect(result.met).toBe(true);
 });
 
 test("checkLocationRequirements returns not met when pet is null and stage required", () => {
   const state = createTestState({ pet: null });
-  const result = checkLocationRequirements(state, { stage: GrowthStage.Child });
+  const result = checkLocationRequirements(
+    state,
+    { stage: GrowthStage.Child },
+    "meadow",
+  );
   expect(result.met).toBe(false);
   expect(result.reason).toBe("A pet is required to travel.");
 });
@@ -69,7 +75,11 @@ test("checkLocationRequirements returns not met when stage insufficient", () =>
   const state = createTestState({
     pet: createTestPet({ growth: { stage: GrowthStage.Baby } }),
   });
-  const result = checkLocationRequirements(state, { stage: GrowthStage.Child });
+  const result = checkLocationRequirements(
+    state,
+    { stage: GrowthStage.Child },
+    "meadow",
+  );
   expect(result.met).toBe(false);
   expect(result.reason).toBe(
     `Requires ${GROWTH_STAGE_DISPLAY_NAMES[GrowthStage.Child]} stage.`,
@@ -80,7 +90,11 @@ test("checkLocationRequirements returns met when stage sufficient", () => {
   const state = createTestState({
     pet: createTestPet({ growth: { stage: GrowthStage.Child } }),
   });
-  const result = checkLocationRequirements(state, { stage: GrowthStage.Child });
+  const result = checkLocationRequirements(
+    state,
+    { stage: GrowthStage.Child },
+    "meadow",
+  );
   expect(result.met).toBe(true);
 });
 
@@ -88,7 +102,11 @@ test("checkLocationRequirements returns met when stage exceeds requirement", ()
   const state = createTestState({
     pet: createTestPet({ growth: { stage: GrowthStage.Adult } }),
   });
-  const result = checkLocationRequirements(state, { stage: GrowthStage.Child });
+  const result = checkLocationRequirements(
+    state,
+    { stage: GrowthStage.Child },
+    "meadow",
+  );
   expect(result.met).toBe(true);
 });
 
@@ -96,7 +114,11 @@ test("checkLocationRequirements returns not met for incomplete quest", () => {
   const state = createTestState({
     quests: [{ questId: "test-quest", isCompleted: false }],
   });
-  const result = checkLocationRequirements(state, { questId: "test-quest" });
+  const result = checkLocationRequirements(
+    state,
+    { questId: "test-quest" },
+    "meadow",
+  );
   expect(result.met).toBe(false);
   expect(result.reason).toBe("Quest required");
 });
@@ -105,7 +127,35 @@ test("checkLocationRequirements returns met for completed quest", () => {
   const state = createTestState({
     quests: [{ questId: "test-quest", isCompleted: true }],
   });
-  const result = checkLocationRequirements(state, { questId: "test-quest" });
+  const result = checkLocationRequirements(
+    state,
+    { questId: "test-quest" },
+    "meadow",
+  );
+  expect(result.met).toBe(true);
+});
+
+test("checkLocationRequirements returns not met for an undiscovered location", () => {
+  const state = createTestState({});
+  const result = checkLocationRequirements(
+    state,
+    { discovered: true },
+    "hidden_glade",
+  );
+  expect(result.met).toBe(false);
+  expect(result.reason).toBe("You haven't discovered this location yet.");
+});
+
+test("checkLocationRequirements returns met for a discovered location", () => {
+  const state: GameState = {
+    ...createTestState({}),
+    unlocks: { ...createInitialUnlocks(), location: ["hidden_glade"] },
+  };
+  const result = checkLocationRequirements(
+    state,
+    { discovered: true },
+    "hidden_glade",
+  );
   expect(result.met).toBe(true);
 });
 
@@ -132,6 +182,51 @@ test("calculateTravelCost applies terrain modifier", () => {
   expect(result).toBe(12);
 });
 
+// findTravelRoute tests
+
+test("findTravelRoute returns a single edge for adjacent locations", () => {
+  const state = createTestState({
+    quests: [{ questId: "tutorial_first_steps", isCompleted: true }],
+  });
+  expect(findTravelRoute(state, "meadow")).toEqual({
+    locationIds: ["meadow"],
+    energyCost: 5,
+  });
+});
+
+test("findTravelRoute picks the cheapest route over the fewest hops", () => {
+  const state = createTestState({
+    quests: [
+      { questId: "tutorial_first_steps", isCompleted: true },
+      { questId: "tutorial_training", isCompleted: true },
+    ],
+  });
+  // Direct meadow → coast costs ceil(15 * 1.3) = 20 after the 5 to the meadow;
+  // going through willowbrook costs 10 + 12
+  expect(findTravelRoute(state, "whispering_coast")).toEqual({
+    locationIds: ["willowbrook", "whispering_coast"],
+    energyCost: 22,
+  });
+});
+
+test("findTravelRoute avoids locations whose requirements are not met", () => {
+  const state = createTestState({
+    quests: [{ questId: "tutorial_training", isCompleted: true }],
+  });
+  // The meadow is closer but needs the first steps quest
+  expect(findTravelRoute(state, "whispering_coast")).toEqual({
+    locationIds: ["willowbrook", "whispering_coast"],
+    energyCost: 22,
+  });
+  expect(findTravelRoute(state, "meadow")).toBeNull();
+});
+
+test("findTravelRoute returns null for the current or unknown locations", () => {
+  const state = createTestState({});
+  expect(findTravelRoute(state, "home")).toBeNull();
+  expect(findTravelRoute(state, "unknown-location")).toBeNull();
+});
+
 // canTravel tests
 
 test("canTravel fails when no pet", () => {
@@ -188,13 +283,52 @@ test("canTravel fails for unknown destination", () => {
   expect(result.message).toBe("Unknown destination.");
 });
 
-test("canTravel fails for disconnected locations", () => {
-  const state = createTestState({});
-  const result = canTravel(state, "misty_woods");
+test("canTravel fails when every route passes through inaccessible locations", () => {
+  // Ancient grove is only reachable through the meadow (needs the first steps
+  // quest) or through Child-stage locations
+  const state = createTestState({
+    quests: [{ questId: "tutorial_training", isCompleted: true }],
+  });
+  const result = canTravel(state, "ancient_grove");
   expect(result.success).toBe(false);
   expect(result.message).toBe("You cannot travel to this location from here.");
 });
 
+test("canTravel fails for the current location", () => {
+  const state = createTestState({});
+  const result = canTravel(state, "home");
+  expect(result.success).toBe(false);
+  expect(result.message).toBe("You are already here.");
+});
+
+test("canTravel succeeds for locations reached through other locations", () => {
+  const state = createTestState({
+    pet: createTestPet({ energyStats: { energy: toMicro(50) } }),
+    quests: [
+      { questId: "tutorial_first_steps", isCompleted: true },
+      { questId: "tutorial_training", isCompleted: true },
+    ],
+  });
+  const result = canTravel(state, "ancient_grove");
+  expect(result.success).toBe(true);
+  expect(result.route).toEqual(["meadow", "ancient_grove"]);
+  // 5 to the meadow + ceil(12 * 1.1) to the grove
+  expect(result.energyCost).toBe(19);
+});
+
+test("canTravel checks energy against the whole route", () => {
+  const state = createTestState({
+    pet: createTestPet({ energyStats: { energy: toMicro(10) } }),
+    quests: [
+      { questId: "tutorial_first_steps", isCompleted: true },
+      { questId: "tutorial_training", isCompleted: true },
+    ],
+  });
+  const result = canTravel(state, "ancient_grove");
+  expect(result.success).toBe(false);
+  expect(result.energyCost).toBe(19);
+});
+
 test("canTravel fails when energy insufficient", () => {
   const state = createTestState({
     pet: createTestPet({ energyStats: { energy: toMicro(2) } }),
@@ -266,22 +400,22 @@ test("canTravel fails when quest requirement not started", () => {
   expect(result.message).toBe("Quest required");
 });
 
-// travel tests
+// travelTo tests
 
-test("travel fails when canTravel fails", () => {
+test("travelTo fails when canTravel fails", () => {
   const state = createTestState({ pet: null });
-  const result = travel(state, "meadow");
+  const result = travelTo(state, "meadow");
   expect(result.success).toBe(false);
   expect(result.state).toBe(state);
 });
 
-test("travel succeeds and deducts energy", () => {
+test("travelTo succeeds and deducts energy", () => {
   const initialEnergy = toMicro(50);
   const state = createTestState({
     pet: createTestPet({ energyStats: { energy: initialEnergy } }),
     quests: [{ questId: "tutorial_first_steps", isCompleted: true }],
   });
-  const result = travel(state, "meadow");
+  const result = travelTo(state, "meadow");
 
   expect(result.success).toBe(true);
   expect(result.state.player.currentLocationId).toBe("meadow");
@@ -289,19 +423,19 @@ test("travel succeeds and deducts energy", () => {
   expect(result.message).toContain("Traveled to");
 });
 
-test("travel preserves other state properties", () => {
+test("travelTo preserves other state properties", () => {
   const state = createTestState({
     pet: createTestPet({ energyStats: { energy: toMicro(50) } }),
     quests: [{ questId: "tutorial_first_steps", isCompleted: true }],
   });
   state.player.currency.coins = 100;
-  const result = travel(state, "meadow");
+  const result = travelTo(state, "meadow");
 
   expect(result.success).toBe(true);
   expect(result.state.player.currency.coins).toBe(100);
 });
 
-test("travel does not mutate original state", () => {
+test("travelTo does not mutate original state", () => {
   const state = createTestState({
     pet: createTestPet({ energyStats: { energy: toMicro(50) } }),
     quests: [{ questId: "tutorial_first_steps", isCompleted: true }],
@@ -309,25 +443,25 @@ test("travel does not mutate original state", () => {
   const originalLocation = state.player.currentLocationId;
   const originalEnergy = state.pet?.energyStats.energy;
 
-  travel(state, "meadow");
+  travelTo(state, "meadow");
 
   expect(state.player.currentLocationId).toBe(originalLocation);
   expect(state.pet?.energyStats.energy).toBe(originalEnergy);
 });
 
-test("travel energy cannot go below 0", () => {
+test("travelTo energy cannot go below 0", () => {
   // Set energy to exactly the cost
   const state = createTestState({
     pet: createTestPet({ energyStats: { energy: toMicro(5) } }),
     quests: [{ questId: "tutorial_first_steps", isCompleted: true }],
   });
-  const result = travel(state, "meadow");
+  const result = travelTo(state, "meadow");
 
   expect(result.success).toBe(true);
   expect(result.state.pet?.energyStats.energy).toBe(0);
 });
 
-test("travel updates quest progress for Visit objectives", () => {
+test("travelTo updates quest progress for Visit objectives", () => {
   const state = createTestState({
     pet: createTestPet({ energyStats: { energy: toMicro(50) } }),
     quests: [{ questId: "tutorial_first_steps", isCompleted: true }],
@@ -342,7 +476,52 @@ test("travel updates quest progress for Visit objectives", () => {
     },
   ];
 
-  const result = travel(state, "meadow");
+  const result = travelTo(state, "meadow");
+
+  expect(result.success).toBe(true);
+  const explorationQuest = result.state.quests.find(
+    (q) => q.questId === "tutorial_exploration",
+  );
+  expect(explorationQuest?.objectiveProgress.visit_meadow).toBe(1);
+});
+
+test("travelTo walks the route, deducting energy for every edge", () => {
+  const initialEnergy = toMicro(50);
+  const state = createTestState({
+    pet: createTestPet({ energyStats: { energy: initialEnergy } }),
+    quests: [
+      { questId: "tutorial_first_steps", isCompleted: true },
+      { questId: "tutorial_training", isCompleted: true },
+    ],
+  });
+  const result = travelTo(state, "ancient_grove");
+
+  expect(result.success).toBe(true);
+  expect(result.state.player.currentLocationId).toBe("ancient_grove");
+  expect(result.state.pet?.energyStats.energy).toBe(
+    initialEnergy - toMicro(19),
+  );
+  expect(result.message).toBe("Traveled to Ancient Grove via Sunny Meadow!");
+});
+
+test("travelTo counts locations passed through for Visit objectives", () => {
+  const state = createTestState({
+    pet: createTestPet({ energyStats: { energy: toMicro(50) } }),
+    quests: [
+      { questId: "tutorial_first_steps", isCompleted: true },
+      { questId: "tutorial_training", isCompleted: true },
+    ],
+  });
+  state.quests = [
+    ...state.quests,
+    {
+      questId: "tutorial_exploration",
+      state: "active",
+      objectiveProgress: {},
+    },
+  ];
+
+  const result = travelTo(state, "ancient_grove");
 
   expect(result.success).toBe(true);
   const explorationQuest = result.state.quests.find(
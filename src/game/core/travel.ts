@@ -2,9 +2,12 @@
  * Travel logic for moving between locations.
  */
 
+import { processAchievements } from "@/game/core/achievements";
 import { checkActivityIdle, checkEnergy } from "@/game/core/activityGating";
+import { emitEvent } from "@/game/core/events";
 import { updateQuestProgress } from "@/game/core/quests/quests";
-import { areLocationsConnected, getLocation } from "@/game/data/locations";
+import { isUnlocked } from "@/game/core/unlocks";
+import { getLocation } from "@/game/data/locations";
 import { TravelMessages } from "@/game/data/messages";
 import { toMicro } from "@/game/types/common";
 import {
@@ -12,9 +15,15 @@ import {
   GROWTH_STAGE_ORDER,
   type GrowthStage,
 } from "@/game/types/constants";
+import { createEvent, type TravelEvent } from "@/game/types/event";
 import type { GameState } from "@/game/types/gameState";
-import type { LocationRequirement, TravelResult } from "@/game/types/location";
+import type {
+  LocationRequirement,
+  TravelResult,
+  TravelRoute,
+} from "@/game/types/location";
 import { ObjectiveType } from "@/game/types/quest";
+import { UnlockType } from "@/game/types/unlock";
 
 /**
  * Check if a growth stage meets or exceeds the required stage.
@@ -38,11 +47,23 @@ function meetsStageRequirement(
 export function checkLocationRequirements(
   state: GameState,
   requirements: LocationRequirement | undefined,
+  locationId: string,
 ): { met: boolean; reason?: string } {
   if (!requirements) {
     return { met: true };
   }
 
+  // Hidden locations must be discovered (unlocked) first
+  if (
+    requirements.discovered &&
+    !isUnlocked(state.unlocks, UnlockType.Location, locationId)
+  ) {
+    return {
+      met: false,
+      reason: TravelMessages.notDiscovered,
+    };
+  }
+
   // Check growth stage requirement
   if (requirements.stage) {
     if (!state.pet) {
@@ -100,8 +121,93 @@ export function calculateTravelCost(
   return Math.ceil(baseCost * terrainModifier);
 }
 
+/**
+ * Find the unvisited location with the lowest known route cost.
+ */
+function findClosestUnvisited(
+  costs: Map<string, number>,
+  visited: Set<string>,
+): string | null {
+  let closestId: string | null = null;
+  let closestCost = Number.POSITIVE_INFINITY;
+  for (const [locationId, cost] of costs) {
+    if (!visited.has(locationId) && cost < closestCost) {
+      closestId = locationId;
+      closestCost = cost;
+    }
+  }
+  return closestId;
+}
+
+/**
+ * Find the cheapest route from the current location to a destination.
+ * Every location on the route (including the destination) must have its
+ * requirements met. Returns null if the destination is the current location
+ * or cannot be reached.
+ */
+export function findTravelRoute(
+  state: GameState,
+  destinationId: string,
+): TravelRoute | null {
+  const startId = state.player.currentLocationId;
+  if (startId === destinationId || !getLocation(destinationId)) {
+    return null;
+  }
+
+  // Dijkstra over the world graph, weighted by edge travel cost
+  const costs = new Map<string, number>([[startId, 0]]);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+
+  let currentId = startId;
+  while (currentId !== destinationId) {
+    visited.add(currentId);
+    const currentCost = costs.get(currentId) ?? 0;
+
+    for (const connection of getLocation(currentId)?.connections ?? []) {
+      const nextId = connection.targetId;
+      const next = getLocation(nextId);
+      if (
+        visited.has(nextId) ||
+        !next ||
+        !checkLocationRequirements(state, next.requirements, nextId).met
+      ) {
+        continue;
+      }
+
+      const edgeCost = calculateTravelCost(currentId, nextId);
+      if (edgeCost === null) continue;
+
+      const routeCost = currentCost + edgeCost;
+      if (routeCost < (costs.get(nextId) ?? Number.POSITIVE_INFINITY)) {
+        costs.set(nextId, routeCost);
+        previous.set(nextId, currentId);
+      }
+    }
+
+    const closestId = findClosestUnvisited(costs, visited);
+    if (closestId === null) {
+      return null;
+    }
+    currentId = closestId;
+  }
+
+  const locationIds: string[] = [];
+  for (
+    let stepId: string | undefined = destinationId;
+    stepId !== undefined && stepId !== startId;
+    stepId = previous.get(stepId)
+  ) {
+    locationIds.unshift(stepId);
+  }
+
+  return { locationIds, energyCost: costs.get(destinationId) ?? 0 };
+}
+
 /**
  * Check if the pet can travel to a destination.
+ * The destination does not need to be adjacent; the pet follows the
+ * cheapest route through locations it has access to.
  */
 export function canTravel(
   state: GameState,
@@ -112,7 +218,6 @@ export function canTravel(
     return { success: false, message: TravelMessages.petRequired };
   }
 
-  const currentLocationId = state.player.currentLocationId;
   const destination = getLocation(destinationId);
 
   // Check destination exists
@@ -120,18 +225,20 @@ export function canTravel(
     return { success: false, message: TravelMessages.unknownDestination };
   }
 
-  // Check locations are connected
-  if (!areLocationsConnected(currentLocationId, destinationId)) {
-    return {
-      success: false,
-      message: TravelMessages.notConnected,
-    };
+  if (destinationId === state.player.currentLocationId) {
+    return { success: false, message: TravelMessages.alreadyHere };
+  }
+
+  // The player stays with the trainer until a session ends
+  if (state.activeSkillTraining) {
+    return { success: false, message: TravelMessages.inSkillTraining };
   }
 
   // Check requirements
   const requirementCheck = checkLocationRequirements(
     state,
     destination.requirements,
+    destinationId,
   );
   if (!requirementCheck.met) {
     return {
@@ -140,16 +247,25 @@ export function canTravel(
     };
   }
 
-  // Check energy cost
-  const energyCost = calculateTravelCost(currentLocationId, destinationId);
-  if (energyCost === null) {
-    return { success: false, message: TravelMessages.cannotCalculateCost };
+  // Check a route exists through accessible locations
+  const route = findTravelRoute(state, destinationId);
+  if (!route) {
+    return {
+      success: false,
+      message: TravelMessages.notConnected,
+    };
   }
+  const { energyCost } = route;
 
-  // Check activity state (after calculating energy cost so it's included in response)
+  // Check activity state (after finding the route so it's included in response)
   const activityCheck = checkActivityIdle(state.pet, "travel");
   if (!activityCheck.allowed) {
-    return { success: false, message: activityCheck.message, energyCost };
+    return {
+      success: false,
+      message: activityCheck.message,
+      energyCost,
+      route: route.locationIds,
+    };
   }
 
   const energyCheck = checkEnergy(state.pet.energyStats.energy, energyCost);
@@ -158,33 +274,27 @@ export function canTravel(
       success: false,
       message: energyCheck.message,
       energyCost,
+      route: route.locationIds,
     };
   }
 
-  return { success: true, message: TravelMessages.readyToTravel, energyCost };
+  return {
+    success: true,
+    message: TravelMessages.readyToTravel,
+    energyCost,
+    route: route.locationIds,
+  };
 }
 
 /**
- * Execute travel to a destination, consuming energy.
+ * Move the pet along a single edge, consuming that edge's energy cost,
+ * counting the arrival for Visit objectives and emitting a travel event
+ * that counts toward achievements.
  */
-export function travel(
-  state: GameState,
-  destinationId: string,
-): { success: boolean; state: GameState; message: string } {
-  const canTravelResult = canTravel(state, destinationId);
-
-  if (!canTravelResult.success) {
-    return { success: false, state, message: canTravelResult.message };
-  }
-
-  if (!state.pet || canTravelResult.energyCost === undefined) {
-    return { success: false, state, message: TravelMessages.invalidState };
-  }
-
-  const energyCostMicro = toMicro(canTravelResult.energyCost);
-  const destination = getLocation(destinationId);
+function travelEdge(state: GameState, fromId: string, toId: string): GameState {
+  if (!state.pet) return state;
 
-  // Deduct energy and update location
+  const energyCostMicro = toMicro(calculateTravelCost(fromId, toId) ?? 0);
   const newState: GameState = {
     ...state,
     pet: {
@@ -196,20 +306,61 @@ export function travel(
     },
     player: {
       ...state.player,
-      currentLocationId: destinationId,
+      currentLocationId: toId,
     },
   };
 
-  // Update quest progress for Visit objectives
-  const stateWithQuestProgress = updateQuestProgress(
-    newState,
-    ObjectiveType.Visit,
-    destinationId,
+  const event = createEvent<TravelEvent>({
+    type: "travel",
+    fromLocationId: fromId,
+    toLocationId: toId,
+    toLocationName: getLocation(toId)?.name ?? toId,
+  });
+  return processAchievements(
+    emitEvent(updateQuestProgress(newState, ObjectiveType.Visit, toId), event),
+    [event],
+    event.timestamp,
   );
+}
+
+/**
+ * Travel to a destination by walking the cheapest route, consuming energy
+ * for each edge and counting every location passed through as visited.
+ */
+export function travelTo(
+  state: GameState,
+  destinationId: string,
+): { success: boolean; state: GameState; message: string } {
+  const canTravelResult = canTravel(state, destinationId);
+
+  if (!canTravelResult.success) {
+    return { success: false, state, message: canTravelResult.message };
+  }
+
+  if (!state.pet || !canTravelResult.route) {
+    return { success: false, state, message: TravelMessages.invalidState };
+  }
+
+  let newState = state;
+  for (const locationId of canTravelResult.route) {
+    newState = travelEdge(
+      newState,
+      newState.player.currentLocationId,
+      locationId,
+    );
+  }
+
+  const destinationName = getLocation(destinationId)?.name ?? destinationId;
+  const stopNames = canTravelResult.route
+    .slice(0, -1)
+    .map((locationId) => getLocation(locationId)?.name ?? locationId);
 
   return {
     success: true,
-    state: stateWithQuestProgress,
-    message: TravelMessages.traveledTo(destination?.name ?? destinationId),
+    state: newState,
+    message:
+      stopNames.length > 0
+        ? TravelMessages.traveledVia(destinationName, stopNames)
+        : TravelMessages.traveledTo(destinationName),
   };
 }
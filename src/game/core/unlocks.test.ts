@@ -0,0 +1,98 @@
+/**
+ * Tests for the unlock registry.
+ */
+
+import { expect, test } from "bun:test";
+import { getLocation } from "@/game/data/locations";
+import { SPECIES } from "@/game/data/species";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import type { Location } from "@/game/types/location";
+import { createInitialUnlocks, UnlockType } from "@/game/types/unlock";
+import {
+  getAvailableSpecies,
+  getUnlockDisplayName,
+  grantUnlock,
+  isLocationDiscovered,
+  isUnlocked,
+  unlockDiscoveredSpecies,
+} from "./unlocks";
+
+test("grantUnlock adds content to the registry", () => {
+  const state = createTestGameState();
+
+  const result = grantUnlock(state, UnlockType.Species, SPECIES.CORALITE.id);
+
+  expect(result.unlocked).toBe(true);
+  expect(
+    isUnlocked(result.state.unlocks, UnlockType.Species, SPECIES.CORALITE.id),
+  ).toBe(true);
+  expect(
+    isUnlocked(result.state.unlocks, UnlockType.Location, SPECIES.CORALITE.id),
+  ).toBe(false);
+});
+
+test("grantUnlock leaves already unlocked content unchanged", () => {
+  const state = grantUnlock(
+    createTestGameState(),
+    UnlockType.Feature,
+    "crafting",
+  ).state;
+
+  const result = grantUnlock(state, UnlockType.Feature, "crafting");
+
+  expect(result.unlocked).toBe(false);
+  expect(result.state).toBe(state);
+});
+
+test("isLocationDiscovered hides locations requiring discovery until unlocked", () => {
+  const meadow = getLocation("meadow");
+  if (!meadow) throw new Error("Missing meadow");
+  const hidden: Location = {
+    ...meadow,
+    id: "hidden_glade",
+    requirements: { discovered: true },
+  };
+  const unlocks = createInitialUnlocks();
+
+  expect(isLocationDiscovered(unlocks, meadow)).toBe(true);
+  expect(isLocationDiscovered(unlocks, hidden)).toBe(false);
+  expect(
+    isLocationDiscovered(
+      { ...unlocks, [UnlockType.Location]: ["hidden_glade"] },
+      hidden,
+    ),
+  ).toBe(true);
+});
+
+test("getAvailableSpecies includes starters and unlocked species", () => {
+  const starters = getAvailableSpecies(createInitialUnlocks()).map((s) => s.id);
+  expect(starters).not.toContain(SPECIES.CORALITE.id);
+
+  const withCoralite = getAvailableSpecies({
+    ...createInitialUnlocks(),
+    [UnlockType.Species]: [SPECIES.CORALITE.id, SPECIES.FLORABIT.id],
+  }).map((s) => s.id);
+  expect(withCoralite).toEqual([...starters, SPECIES.CORALITE.id]);
+});
+
+test("unlockDiscoveredSpecies only unlocks species found in the wild", () => {
+  const state = createTestGameState();
+
+  const afterEmberfox = unlockDiscoveredSpecies(state, SPECIES.EMBERFOX.id);
+  expect(
+    isUnlocked(afterEmberfox.unlocks, UnlockType.Species, SPECIES.EMBERFOX.id),
+  ).toBe(true);
+  expect(unlockDiscoveredSpecies(state, SPECIES.CORALITE.id)).toBe(state);
+});
+
+test("getUnlockDisplayName uses species and location names", () => {
+  expect(getUnlockDisplayName(UnlockType.Species, SPECIES.EMBERFOX.id)).toBe(
+    "Emberfox",
+  );
+  expect(getUnlockDisplayName(UnlockType.Location, "meadow")).toBe(
+    getLocation("meadow")?.name ?? "",
+  );
+  expect(getUnlockDisplayName(UnlockType.Shop, "secret_shop")).toBe(
+    "secret_shop",
+  );
+});
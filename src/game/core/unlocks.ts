@@ -0,0 +1,113 @@
+/**
+ * Unlock registry logic.
+ *
+ * Quest rewards and discoveries unlock content (locations, species,
+ * facilities, shops and features). Unlocks are permanent and carry over
+ * when a new pet is adopted.
+ */
+
+import { getLocation } from "@/game/data/locations";
+import { getSpeciesById, getStarterSpecies } from "@/game/data/species";
+import { UnlockMethod } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+import type { Location } from "@/game/types/location";
+import type { Species } from "@/game/types/species";
+import { type Unlocks, UnlockType } from "@/game/types/unlock";
+
+/**
+ * Check if content has been unlocked.
+ */
+export function isUnlocked(
+  unlocks: Unlocks,
+  type: UnlockType,
+  id: string,
+): boolean {
+  return unlocks[type].includes(id);
+}
+
+/**
+ * Result of granting an unlock.
+ */
+export interface GrantUnlockResult {
+  /** Updated game state */
+  state: GameState;
+  /** Whether the content was newly unlocked (false if already unlocked) */
+  unlocked: boolean;
+}
+
+/**
+ * Unlock content. Already unlocked content is left unchanged.
+ */
+export function grantUnlock(
+  state: GameState,
+  type: UnlockType,
+  id: string,
+): GrantUnlockResult {
+  if (isUnlocked(state.unlocks, type, id)) {
+    return { state, unlocked: false };
+  }
+
+  return {
+    state: {
+      ...state,
+      unlocks: { ...state.unlocks, [type]: [...state.unlocks[type], id] },
+    },
+    unlocked: true,
+  };
+}
+
+/**
+ * Check if a location is known to the player.
+ * Locations requiring discovery stay hidden until they are unlocked.
+ */
+export function isLocationDiscovered(
+  unlocks: Unlocks,
+  location: Location,
+): boolean {
+  return (
+    !location.requirements?.discovered ||
+    isUnlocked(unlocks, UnlockType.Location, location.id)
+  );
+}
+
+/**
+ * Get the species a player can adopt: the starters plus any unlocked species.
+ */
+export function getAvailableSpecies(unlocks: Unlocks): Species[] {
+  const starters = getStarterSpecies();
+  const unlockedSpecies = unlocks[UnlockType.Species]
+    .map((id) => getSpeciesById(id))
+    .filter(
+      (species): species is Species =>
+        species !== undefined && !starters.includes(species),
+    );
+  return [...starters, ...unlockedSpecies];
+}
+
+/**
+ * Unlock a species adopted by discovery once the player finds it in the wild.
+ * Returns the state unchanged for other species.
+ */
+export function unlockDiscoveredSpecies(
+  state: GameState,
+  speciesId: string,
+): GameState {
+  if (getSpeciesById(speciesId)?.unlockMethod !== UnlockMethod.Discovery) {
+    return state;
+  }
+  return grantUnlock(state, UnlockType.Species, speciesId).state;
+}
+
+/**
+ * Get a display name for unlocked content.
+ */
+export function getUnlockDisplayName(type: UnlockType, id: string): string {
+  switch (type) {
+    case UnlockType.Location:
+      return getLocation(id)?.name ?? id;
+    case UnlockType.Species:
+      return getSpeciesById(id)?.name ?? id;
+    default:
+      return id;
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Achievement definitions.
+ */
+
+import {
+  type Achievement,
+  AchievementCategory,
+  AchievementConditionType,
+  AchievementRewardType,
+} from "@/game/types/achievement";
+import { GrowthStage } from "@/game/types/constants";
+import { SkillTier } from "@/game/types/skill";
+import { SPECIES } from "./species";
+
+// ========================================
+// CARE
+// ========================================
+
+export const achievementFirstMeal: Achievement = {
+  id: "first_meal",
+  name: "First Meal",
+  description: "Feed your pet for the first time.",
+  emoji: "🍎",
+  category: AchievementCategory.Care,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "careAction",
+    match: { action: "feed" },
+    count: 1,
+  },
+  rewards: [{ type: AchievementRewardType.Currency, amount: 25 }],
+};
+
+export const achievementWellFed: Achievement = {
+  id: "well_fed",
+  name: "Well Fed",
+  description: "Feed your pets 100 times.",
+  emoji: "🍖",
+  category: AchievementCategory.Care,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "careAction",
+    match: { action: "feed" },
+    count: 100,
+  },
+  rewards: [
+    {
+      type: AchievementRewardType.BonusMaxStats,
+      bonus: { satiety: 10_000 },
+    },
+  ],
+};
+
+export const achievementHydrated: Achievement = {
+  id: "hydrated",
+  name: "Stay Hydrated",
+  description: "Give your pets water 100 times.",
+  emoji: "💧",
+  category: AchievementCategory.Care,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "careAction",
+    match: { action: "water" },
+    count: 100,
+  },
+  rewards: [
+    {
+      type: AchievementRewardType.BonusMaxStats,
+      bonus: { hydration: 10_000 },
+    },
+  ],
+};
+
+export const achievementPlaymate: Achievement = {
+  id: "playmate",
+  name: "Playmate",
+  description: "Play with your pets 50 times.",
+  emoji: "🎾",
+  category: AchievementCategory.Care,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "careAction",
+    match: { action: "play" },
+    count: 50,
+  },
+  rewards: [
+    {
+      type: AchievementRewardType.BonusMaxStats,
+      bonus: { happiness: 10_000 },
+    },
+  ],
+};
+
+// ========================================
+// GROWTH
+// ========================================
+
+export const achievementGrowingUp: Achievement = {
+  id: "growing_up",
+  name: "Growing Up",
+  description: "Watch a pet grow into its next stage.",
+  emoji: "🌱",
+  category: AchievementCategory.Growth,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "stageTransition",
+    count: 1,
+  },
+  rewards: [
+    { type: AchievementRewardType.Currency, amount: 50 },
+    { type: AchievementRewardType.Item, itemId: "food_cake", quantity: 1 },
+  ],
+};
+
+export const achievementAllGrownUp: Achievement = {
+  id: "all_grown_up",
+  name: "All Grown Up",
+  description: "Raise a pet to adulthood.",
+  emoji: "🌳",
+  category: AchievementCategory.Growth,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "stageTransition",
+    match: { newStage: GrowthStage.Adult },
+    count: 1,
+  },
+  rewards: [
+    {
+      type: AchievementRewardType.BonusMaxStats,
+      bonus: { careLife: 20_000 },
+    },
+  ],
+};
+
+export const achievementSeasoned: Achievement = {
+  id: "seasoned",
+  name: "Seasoned",
+  description: "Raise a pet to level 10.",
+  emoji: "🎖️",
+  category: AchievementCategory.Growth,
+  condition: { type: AchievementConditionType.PetLevel, level: 10 },
+  rewards: [
+    { type: AchievementRewardType.BonusMaxStats, bonus: { energy: 10_000 } },
+  ],
+};
+
+export const achievementDedicatedTrainer: Achievement = {
+  id: "dedicated_trainer",
+  name: "Dedicated Trainer",
+  description: "Complete 20 training sessions.",
+  emoji: "🏋️",
+  category: AchievementCategory.Growth,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "trainingComplete",
+    count: 20,
+  },
+  rewards: [
+    { type: AchievementRewardType.Currency, amount: 200 },
+    { type: AchievementRewardType.BonusMaxStats, bonus: { energy: 5_000 } },
+  ],
+};
+
+// ========================================
+// BATTLE
+// ========================================
+
+export const achievementFirstVictory: Achievement = {
+  id: "first_victory",
+  name: "First Victory",
+  description: "Win your first battle.",
+  emoji: "⚔️",
+  category: AchievementCategory.Battle,
+  condition: { type: AchievementConditionType.BattlesWon, count: 1 },
+  rewards: [
+    {
+      type: AchievementRewardType.Item,
+      itemId: "medicine_potion",
+      quantity: 3,
+    },
+  ],
+};
+
+export const achievementVeteran: Achievement = {
+  id: "veteran",
+  name: "Veteran",
+  description: "Win 50 battles.",
+  emoji: "🏆",
+  category: AchievementCategory.Battle,
+  condition: { type: AchievementConditionType.BattlesWon, count: 50 },
+  rewards: [
+    { type: AchievementRewardType.Currency, amount: 500 },
+    {
+      type: AchievementRewardType.Species,
+      speciesId: SPECIES.SHADOWMOTH.id,
+    },
+  ],
+};
+
+// ========================================
+// EXPLORATION
+// ========================================
+
+export const achievementTrailblazer: Achievement = {
+  id: "trailblazer",
+  name: "Trailblazer",
+  description: "Complete 25 explorations.",
+  emoji: "🧭",
+  category: AchievementCategory.Exploration,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "explorationComplete",
+    count: 25,
+  },
+  rewards: [{ type: AchievementRewardType.Currency, amount: 200 }],
+};
+
+export const achievementPathfinder: Achievement = {
+  id: "pathfinder",
+  name: "Pathfinder",
+  description: "Discover a hidden location.",
+  emoji: "🔭",
+  category: AchievementCategory.Exploration,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "locationDiscovered",
+    count: 1,
+  },
+  rewards: [
+    {
+      type: AchievementRewardType.Item,
+      itemId: "drink_energy",
+      quantity: 2,
+    },
+  ],
+};
+
+export const achievementCartographer: Achievement = {
+  id: "cartographer",
+  name: "Cartographer",
+  description: "Visit every location in the world.",
+  emoji: "🗺️",
+  category: AchievementCategory.Exploration,
+  condition: { type: AchievementConditionType.LocationsVisited },
+  rewards: [
+    { type: AchievementRewardType.Currency, amount: 500 },
+    {
+      type: AchievementRewardType.BonusMaxStats,
+      bonus: { energy: 10_000, careLife: 10_000 },
+    },
+  ],
+};
+
+// ========================================
+// SKILLS
+// ========================================
+
+export const achievementApprentice: Achievement = {
+  id: "apprentice",
+  name: "Apprentice",
+  description: "Reach the Apprentice tier in any skill.",
+  emoji: "📘",
+  category: AchievementCategory.Skills,
+  condition: {
+    type: AchievementConditionType.SkillTier,
+    tier: SkillTier.Apprentice,
+  },
+  rewards: [{ type: AchievementRewardType.Currency, amount: 100 }],
+};
+
+export const achievementExpert: Achievement = {
+  id: "expert",
+  name: "Expert",
+  description: "Reach the Expert tier in any skill.",
+  emoji: "📚",
+  category: AchievementCategory.Skills,
+  condition: {
+    type: AchievementConditionType.SkillTier,
+    tier: SkillTier.Expert,
+  },
+  rewards: [
+    {
+      type: AchievementRewardType.BonusMaxStats,
+      bonus: { satiety: 5_000, hydration: 5_000, happiness: 5_000 },
+    },
+  ],
+};
+
+export const achievementMasterCrafter: Achievement = {
+  id: "master_crafter",
+  name: "Master Crafter",
+  description: "Finish 10 crafts.",
+  emoji: "🛠️",
+  category: AchievementCategory.Skills,
+  condition: {
+    type: AchievementConditionType.Event,
+    eventType: "craftingComplete",
+    count: 10,
+  },
+  rewards: [{ type: AchievementRewardType.Currency, amount: 150 }],
+};
+
+/**
+ * All achievements in display order.
+ */
+export const achievements: readonly Achievement[] = [
+  achievementFirstMeal,
+  achievementWellFed,
+  achievementHydrated,
+  achievementPlaymate,
+  achievementGrowingUp,
+  achievementAllGrownUp,
+  achievementSeasoned,
+  achievementDedicatedTrainer,
+  achievementFirstVictory,
+  achievementVeteran,
+  achievementTrailblazer,
+  achievementPathfinder,
+  achievementCartographer,
+  achievementApprentice,
+  achievementExpert,
+  achievementMasterCrafter,
+];
+
+/**
+ * Achievements indexed by ID.
+ */
+const achievementsById: ReadonlyMap<string, Achievement> = new Map(
+  achievements.map((achievement) => [achievement.id, achievement]),
+);
+
+/**
+ * Get an achievement by ID.
+ */
+export function getAchievement(id: string): Achievement | undefined {
+  return achievementsById.get(id);
+}
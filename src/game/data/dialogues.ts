@@ -2,6 +2,7 @@
  * Dialogue tree definitions for NPCs.
  */
 
+import { GrowthStage } from "@/game/types/constants";
 import {
   type DialogueAction,
   DialogueActionType,
@@ -40,6 +41,7 @@ function choiceNode(
     nextNodeId: string;
     conditions?: DialogueCondition[];
     action?: DialogueAction;
+    actions?: DialogueAction[];
   }[],
 ): DialogueNode {
   return {
@@ -72,6 +74,17 @@ function shopNode(id: string, text: string): DialogueNode {
   };
 }
 
+/**
+ * Helper to create a crafting node.
+ */
+function craftingNode(id: string, text: string): DialogueNode {
+  return {
+    id,
+    type: DialogueNodeType.Crafting,
+    text,
+  };
+}
+
 // ========================================
 // WILLOWBROOK DIALOGUES
 // ========================================
@@ -89,9 +102,37 @@ export const miraDialogue: DialogueTree = {
       [
         { text: "I'd like to browse your wares.", nextNodeId: "shop" },
         { text: "Tell me about Willowbrook.", nextNodeId: "about_town" },
+        {
+          text: "You look busy. Need a hand?",
+          nextNodeId: "friend_gift",
+          conditions: [
+            {
+              type: DialogueConditionType.Affinity,
+              value: 30,
+              comparison: "gte",
+            },
+            {
+              type: DialogueConditionType.FlagSet,
+              targetId: "mira_friend_gift",
+              value: false,
+            },
+          ],
+          actions: [
+            {
+              type: DialogueActionType.GiveItem,
+              targetId: "food_cake",
+              value: 2,
+            },
+            { type: DialogueActionType.SetFlag, targetId: "mira_friend_gift" },
+          ],
+        },
         { text: "Just passing through. Goodbye!", nextNodeId: "farewell" },
       ],
     ),
+    friend_gift: endNode(
+      "friend_gift",
+      "You're always so kind to me. Here, take these cakes - on the house! Your pet deserves a treat from a friend.",
+    ),
     shop: shopNode(
       "shop",
       "Take your time and look around! Let me know if you need anything.",
@@ -347,6 +388,7 @@ export const gromDialogue: DialogueTree = {
         { text: "I'd like to see your wares.", nextNodeId: "shop" },
         { text: "Tell me about Ironhaven.", nextNodeId: "about_town" },
         { text: "I need ore for crafting.", nextNodeId: "about_ore" },
+        { text: "Can I use your forge?", nextNodeId: "forge" },
         { text: "Just looking around.", nextNodeId: "farewell" },
       ],
     ),
@@ -354,6 +396,10 @@ export const gromDialogue: DialogueTree = {
       "shop",
       "Take a look at what I've got. Everything's made right here in my forge!",
     ),
+    forge: craftingNode(
+      "forge",
+      "*wipes his hands on his apron* Bring your materials and I'll show you how it's done. The anvil's yours.",
+    ),
     about_town: messageNode(
       "about_town",
       "Ironhaven was built by miners centuries ago. The mountains are rich with ore and crystals, but they're also dangerous. Many tunnels lead deep underground...",
@@ -499,6 +545,18 @@ export const torrentDialogue: DialogueTree = {
           text: "Any treasures waiting to be found?",
           nextNodeId: "treasures",
         },
+        {
+          text: "Could you sail me out to the Coral Reef?",
+          nextNodeId: "sail",
+          conditions: [
+            {
+              type: DialogueConditionType.Affinity,
+              value: 10,
+              comparison: "gte",
+            },
+          ],
+          action: { type: DialogueActionType.Travel, targetId: "coral_reef" },
+        },
         { text: "I should go.", nextNodeId: "farewell" },
       ],
     ),
@@ -531,6 +589,10 @@ export const torrentDialogue: DialogueTree = {
       "treasures_2",
       "But treasure is guarded, always. The Coral Reef has minor baubles. The real prizes? They're in the Temple. If you're brave enough.",
     ),
+    sail: endNode(
+      "sail",
+      "*grins* For a friend of the sea? Climb aboard! Mind the railing - the reef's a rough ride.",
+    ),
     farewell: endNode(
       "farewell",
       "*waves his pipe* Fair winds to you, adventurer. And remember - the sea takes what it wants, but rewards those who respect it.",
@@ -663,6 +725,27 @@ export const fernDialogue: DialogueTree = {
         { text: "Show me your remedies.", nextNodeId: "shop" },
         { text: "Tell me about healing herbs.", nextNodeId: "herbs" },
         { text: "What grows in this grove?", nextNodeId: "grove" },
+        {
+          text: "I gathered some herbs for you.",
+          nextNodeId: "herb_delivery",
+          conditions: [
+            {
+              type: DialogueConditionType.HasItem,
+              targetId: "material_herb",
+              value: 5,
+              comparison: "gte",
+            },
+          ],
+          actions: [
+            {
+              type: DialogueActionType.TakeItem,
+              targetId: "material_herb",
+              value: 5,
+            },
+            { type: DialogueActionType.GiveCoins, value: 40 },
+            { type: DialogueActionType.ModifyAffinity, value: 3 },
+          ],
+        },
         { text: "I'll let you work. Goodbye.", nextNodeId: "farewell" },
       ],
     ),
@@ -679,6 +762,10 @@ export const fernDialogue: DialogueTree = {
       "herbs_2",
       "The rarest herbs grow in the strangest places. The Mushroom Hollow has some unique specimens you won't find anywhere else!",
     ),
+    herb_delivery: endNode(
+      "herb_delivery",
+      "*sorts through the bundle* These are wonderful! Please, take these coins for your trouble. The pets I care for will be so grateful.",
+    ),
     grove: messageNode(
       "grove",
       "The Ancient Grove is sacred. The trees here are older than any record. They've seen civilizations rise and fall.",
@@ -709,6 +796,27 @@ export const blazeDialogue: DialogueTree = {
         { text: "Tell me about heat training.", nextNodeId: "training" },
         { text: "What lives in the volcano?", nextNodeId: "volcano" },
         { text: "Is the caldera safe to explore?", nextNodeId: "caldera" },
+        {
+          text: "Spar with my pet!",
+          nextNodeId: "spar",
+          conditions: [
+            {
+              type: DialogueConditionType.PetGrowthStage,
+              value: GrowthStage.Teen,
+              comparison: "gte",
+            },
+            {
+              type: DialogueConditionType.BattleWins,
+              value: 10,
+              comparison: "gte",
+            },
+          ],
+          action: {
+            type: DialogueActionType.StartBattle,
+            targetId: "emberfox",
+            value: 15,
+          },
+        },
         { text: "Not today. See you.", nextNodeId: "farewell" },
       ],
     ),
@@ -739,6 +847,10 @@ export const blazeDialogue: DialogueTree = {
       "caldera_2",
       "But if you want the rarest volcanic materials and the strongest fire training, it's the only place. Risk and reward, my friend.",
     ),
+    spar: endNode(
+      "spar",
+      "*cracks knuckles* Now we're talking! My Emberfox has been itching for a real fight. Don't hold back!",
+    ),
     farewell: endNode(
       "farewell",
       "Stay cool out there... or don't! Ha! *returns to training*",
@@ -2,7 +2,12 @@
  * Training facility constants for session configuration.
  */
 
+import type { TrainableStat } from "@/game/types/activity";
 import { TICKS_PER_HOUR } from "@/game/types/common";
+import {
+  CARE_THRESHOLD_BOUNDARIES,
+  SpeciesArchetype,
+} from "@/game/types/constants";
 
 /**
  * Training session configuration constants.
@@ -18,6 +23,7 @@ export const TRAINING_SESSION_CONFIG = {
     ENERGY_COST: 10,
     PRIMARY_STAT_GAIN: 1,
     SECONDARY_STAT_GAIN: 0,
+    MOVE_LEARN_CHANCE: 0.03,
   },
   /**
    * Intensive training session - moderate workout requiring child stage.
@@ -28,6 +34,7 @@ export const TRAINING_SESSION_CONFIG = {
     ENERGY_COST: 25,
     PRIMARY_STAT_GAIN: 3,
     SECONDARY_STAT_GAIN: 1,
+    MOVE_LEARN_CHANCE: 0.06,
   },
   /**
    * Advanced training session - elite workout requiring teen stage.
@@ -38,5 +45,62 @@ export const TRAINING_SESSION_CONFIG = {
     ENERGY_COST: 50,
     PRIMARY_STAT_GAIN: 6,
     SECONDARY_STAT_GAIN: 2,
+    MOVE_LEARN_CHANCE: 0.12,
   },
 } as const;
+
+/**
+ * Training modifier constants.
+ * These gate training on care and scale stat gains on completion.
+ */
+export const TRAINING_MODIFIER_CONFIG = {
+  /** Each care stat must be above this percentage of its max to train */
+  MIN_CARE_PERCENT: CARE_THRESHOLD_BOUNDARIES.DISTRESSED,
+  /** Gain lost for each earlier session in a row at the same facility */
+  FATIGUE_PER_SESSION: 0.15,
+  /** Maximum gain lost to fatigue */
+  MAX_FATIGUE: 0.6,
+  /** Extra gain for switching to a different facility */
+  VARIETY_BONUS: 0.1,
+  /** Trainable stat cap at the baby stage */
+  BASE_STAT_CAP: 30,
+  /** Added to the trainable stat cap for each growth stage after baby */
+  STAGE_BONUS_CAP: 30,
+} as const;
+
+/**
+ * Training gain multipliers by species archetype.
+ * Stats without an entry train at the normal rate.
+ */
+export const TRAINING_ARCHETYPE_AFFINITIES: Record<
+  SpeciesArchetype,
+  Partial<Record<TrainableStat, number>>
+> = {
+  [SpeciesArchetype.Balanced]: {},
+  [SpeciesArchetype.GlassCannon]: {
+    strength: 1.2,
+    precision: 1.2,
+    endurance: 0.8,
+    fortitude: 0.8,
+  },
+  [SpeciesArchetype.Defender]: {
+    endurance: 1.2,
+    fortitude: 1.2,
+    agility: 0.8,
+  },
+  [SpeciesArchetype.Status]: {
+    cunning: 1.2,
+    precision: 1.1,
+    strength: 0.8,
+  },
+  [SpeciesArchetype.PowerTank]: {
+    strength: 1.2,
+    endurance: 1.2,
+    agility: 0.8,
+  },
+  [SpeciesArchetype.Evasion]: {
+    agility: 1.2,
+    cunning: 1.1,
+    fortitude: 0.8,
+  },
+};
@@ -22,6 +22,7 @@ const basicSession: TrainingSession = {
   energyCost: TRAINING_SESSION_CONFIG.BASIC.ENERGY_COST,
   primaryStatGain: TRAINING_SESSION_CONFIG.BASIC.PRIMARY_STAT_GAIN,
   secondaryStatGain: TRAINING_SESSION_CONFIG.BASIC.SECONDARY_STAT_GAIN,
+  moveLearnChance: TRAINING_SESSION_CONFIG.BASIC.MOVE_LEARN_CHANCE,
 };
 
 /**
@@ -35,6 +36,7 @@ const intensiveSession: TrainingSession = {
   energyCost: TRAINING_SESSION_CONFIG.INTENSIVE.ENERGY_COST,
   primaryStatGain: TRAINING_SESSION_CONFIG.INTENSIVE.PRIMARY_STAT_GAIN,
   secondaryStatGain: TRAINING_SESSION_CONFIG.INTENSIVE.SECONDARY_STAT_GAIN,
+  moveLearnChance: TRAINING_SESSION_CONFIG.INTENSIVE.MOVE_LEARN_CHANCE,
   minStage: GrowthStage.Child,
 };
 
@@ -49,6 +51,7 @@ const advancedSession: TrainingSession = {
   energyCost: TRAINING_SESSION_CONFIG.ADVANCED.ENERGY_COST,
   primaryStatGain: TRAINING_SESSION_CONFIG.ADVANCED.PRIMARY_STAT_GAIN,
   secondaryStatGain: TRAINING_SESSION_CONFIG.ADVANCED.SECONDARY_STAT_GAIN,
+  moveLearnChance: TRAINING_SESSION_CONFIG.ADVANCED.MOVE_LEARN_CHANCE,
   minStage: GrowthStage.Teen,
 };
 
@@ -3,7 +3,11 @@
  * Re-exports all facilities, constants, and helper functions.
  */
 
-export { TRAINING_SESSION_CONFIG } from "./constants";
+export {
+  TRAINING_ARCHETYPE_AFFINITIES,
+  TRAINING_MODIFIER_CONFIG,
+  TRAINING_SESSION_CONFIG,
+} from "./constants";
 export {
   agilityFacility,
   cunningFacility,
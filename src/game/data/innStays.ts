@@ -0,0 +1,42 @@
+/**
+ * Inn stay definitions. Every town inn offers the same stays.
+ */
+
+import type { InnStay } from "@/game/types/activity";
+import { TICKS_PER_HOUR } from "@/game/types/common";
+
+/**
+ * A short rest in a quiet room.
+ */
+export const innNap: InnStay = {
+  id: "inn_nap",
+  name: "Afternoon Nap",
+  description: "A quiet room for a couple of hours.",
+  cost: 15,
+  durationTicks: 2 * TICKS_PER_HOUR,
+  careRestore: 0,
+};
+
+/**
+ * A full night's stay with supper and breakfast.
+ */
+export const innNight: InnStay = {
+  id: "inn_night",
+  name: "Full Night's Rest",
+  description: "A soft bed for the night, with supper and breakfast.",
+  cost: 50,
+  durationTicks: 8 * TICKS_PER_HOUR,
+  careRestore: 0.25,
+};
+
+/**
+ * All inn stays.
+ */
+export const innStays: InnStay[] = [innNap, innNight];
+
+/**
+ * Get an inn stay by ID.
+ */
+export function getInnStay(stayId: string): InnStay | undefined {
+  return innStays.find((stay) => stay.id === stayId);
+}
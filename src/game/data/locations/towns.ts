@@ -62,6 +62,7 @@ export const ironhavenTown: Location = {
     FacilityType.Trainer,
     FacilityType.Inn,
     FacilityType.QuestBoard,
+    FacilityType.Workshop,
   ],
   npcIds: ["blacksmith_grom", "miner_delva"],
   emoji: "⚒️",
@@ -231,6 +231,7 @@ export const ancientGrove: Location = {
 /**
  * Mushroom Hollow - underground fungal caves.
  * A bioluminescent wonderland with unique resources.
+ * Hidden until discovered from the surrounding forests.
  */
 export const mushroomHollow: Location = {
   id: "mushroom_hollow",
@@ -248,6 +249,7 @@ export const mushroomHollow: Location = {
   requirements: {
     stage: GrowthStage.Child,
     questId: "tutorial_training",
+    discovered: true,
   },
   facilities: [
     FacilityType.RestPoint,
@@ -31,6 +31,52 @@ export const SleepMessages = {
   nowAwake: "Pet is now awake.",
 } as const;
 
+/**
+ * Inn and rest point messages.
+ */
+export const RestMessages = {
+  /** When there is no pet to rest */
+  petRequired: "A pet is required to rest.",
+  /** When the current location has no inn */
+  noInn: "There's no inn here.",
+  /** When the current location has no rest point */
+  noRestPoint: "There's no rest point here.",
+  /** When the inn stay ID is unknown */
+  stayNotFound: "That room isn't available.",
+  /**
+   * Generate a message for insufficient coins.
+   * @param cost - Coin cost of the stay
+   */
+  notEnoughCoins: (cost: number): string =>
+    `Not enough coins. The stay costs ${cost} coins.`,
+  /**
+   * Generate a message for checking in to an inn.
+   * @param petName - Name of the pet
+   * @param stayName - Name of the stay
+   */
+  checkedIn: (petName: string, stayName: string): string =>
+    `${petName} settles in for a ${stayName}.`,
+  /**
+   * Generate a message for a rest point still on cooldown.
+   * @param timeLeft - Formatted time until the rest point is ready
+   */
+  restPointCooldown: (timeLeft: string): string =>
+    `This rest point will be ready again in ${timeLeft}.`,
+  /**
+   * Generate a message for a pet that has full energy.
+   * @param petName - Name of the pet
+   */
+  alreadyRested: (petName: string): string =>
+    `${petName} is already fully rested.`,
+  /**
+   * Generate a message for resting at a rest point.
+   * @param petName - Name of the pet
+   * @param energyRestored - Energy restored in display units
+   */
+  rested: (petName: string, energyRestored: number): string =>
+    `${petName} rested and recovered ${energyRestored} energy.`,
+} as const;
+
 /**
  * Energy-related messages.
  */
@@ -65,6 +111,13 @@ export const ActivityMessages = {
     currentActivity: ActivityState,
   ): string =>
     `Cannot ${attemptedAction} while ${getActivityDisplayName(currentActivity)}.`,
+
+  /**
+   * Generate a message when an exhausted pet attempts to battle.
+   * @param recoveryTime - Formatted time until the pet recovers
+   */
+  tooExhaustedToBattle: (recoveryTime: string): string =>
+    `Your pet is too exhausted to battle. It will recover in ${recoveryTime}.`,
 } as const;
 
 /**
@@ -93,6 +146,12 @@ export const TrainingMessages = {
    */
   requiresStage: (minStage: string): string =>
     `Requires ${minStage} stage or higher.`,
+  /**
+   * Generate a message for a care stat too low to train.
+   * @param careStat - The care stat name
+   */
+  careTooLow: (careStat: string): string =>
+    `Your pet's ${careStat} is too low to train.`,
   /**
    * Generate a message for starting training.
    * @param sessionName - The training session name
@@ -154,6 +213,21 @@ export const ShopMessages = {
     itemName: string,
     totalCost: number,
   ): string => `Purchased ${quantity}x ${itemName} for ${totalCost} coins.`,
+  /** When the purchase does not fit in the carried inventory */
+  inventoryFull: "Your bag is full. Make room before buying more.",
+  /** When the shop has none of the item left */
+  soldOut: "Sold out. Check back after the shop restocks.",
+  /**
+   * Generate a message for buying more than the shop has left.
+   * @param remaining - Quantity the shop has left
+   */
+  notEnoughStock: (remaining: number): string =>
+    `Only ${remaining} left in stock.`,
+  /**
+   * Generate a message for the Trading skill leveling up.
+   * @param level - New Trading level
+   */
+  tradingLevelUp: (level: number): string => `Trading reached level ${level}!`,
   /**
    * Generate a message for successful sale.
    * @param quantity - Number of items sold
@@ -179,8 +253,12 @@ export const TravelMessages = {
   notConnected: "You cannot travel to this location from here.",
   /** When requirements are not met */
   requirementsNotMet: "Requirements not met.",
-  /** When travel cost cannot be calculated */
-  cannotCalculateCost: "Cannot calculate travel cost.",
+  /** When the destination is a hidden location not yet discovered */
+  notDiscovered: "You haven't discovered this location yet.",
+  /** When the destination is the current location */
+  alreadyHere: "You are already here.",
+  /** When the player is in a skill-training session */
+  inSkillTraining: "You can't leave in the middle of a training session.",
   /** When state is invalid for travel */
   invalidState: "Invalid state.",
   /** When ready to travel */
@@ -191,6 +269,13 @@ export const TravelMessages = {
    */
   traveledTo: (destinationName: string): string =>
     `Traveled to ${destinationName}!`,
+  /**
+   * Generate a message for successful travel through other locations.
+   * @param destinationName - Name of the destination
+   * @param stopNames - Names of the locations passed through on the way
+   */
+  traveledVia: (destinationName: string, stopNames: string[]): string =>
+    `Traveled to ${destinationName} via ${stopNames.join(", ")}!`,
   /**
    * Generate a message for stage requirement.
    * @param stageName - The required stage display name
@@ -262,6 +347,10 @@ export const ExplorationMessages = {
   noExplorationToCancel: "No active exploration to cancel.",
   /** When exploration is cancelled and energy refunded */
   explorationCancelled: "Exploration cancelled. Energy has been refunded.",
+  /** When there's no wild encounter to run away from */
+  noPendingEncounter: "No wild encounter to run away from.",
+  /** When running away from a wild encounter ends the exploration */
+  fledEncounter: "Ran away from the wild pet and abandoned the exploration.",
   /** When activity is unknown */
   unknownActivity: "Unknown activity.",
   /**
@@ -366,3 +455,303 @@ export const ItemMessages = {
   playedWith: (itemName: string, broke: boolean): string =>
     broke ? `Played with ${itemName}! It broke!` : `Played with ${itemName}!`,
 } as const;
+
+/**
+ * Pet death and adoption messages.
+ */
+export const AdoptionMessages = {
+  /** When the roster has no room for another pet */
+  rosterFull: "Your roster is full. There is no room for another pet.",
+  /** When adopting an extra pet away from home */
+  notAtHome: "New pets can only be welcomed at home.",
+  /** When the new pet could not be created */
+  adoptionFailed: "Failed to adopt a new pet.",
+  /** When the chosen species has not been unlocked */
+  speciesLocked: "That species has not been unlocked yet.",
+  /**
+   * Generate a message for a successful adoption.
+   * @param petName - Name of the adopted pet
+   */
+  adopted: (petName: string): string => `Welcome home, ${petName}!`,
+} as const;
+
+/**
+ * Pet roster messages.
+ */
+export const RosterMessages = {
+  /** When switching pets away from home */
+  notAtHome: "Pets can only be switched at home.",
+  /** When the chosen pet is not benched on the roster */
+  notOnRoster: "That pet is not on your roster.",
+  /**
+   * Generate a message for an active pet that is busy.
+   * @param petName - Name of the active pet
+   */
+  activePetBusy: (petName: string): string =>
+    `${petName} needs to be idle and awake before switching.`,
+  /**
+   * Generate a message for a successful switch.
+   * @param petName - Name of the new active pet
+   */
+  switched: (petName: string): string => `${petName} is now your active pet.`,
+} as const;
+
+/**
+ * Home storage messages.
+ */
+export const StorageMessages = {
+  /** When there is no Storage facility at the current location */
+  noStorage: "There is no storage here.",
+  /** When quantity is invalid */
+  invalidQuantity: "Quantity must be at least 1.",
+  /** When the source does not hold enough of the item */
+  notEnoughItems: "Not enough items to move.",
+  /** When storage has no room for the items */
+  storageFull: "Storage is full.",
+  /** When the carried inventory has no room for the items */
+  inventoryFull: "Your bag is full.",
+  /**
+   * Generate a message for a successful deposit.
+   * @param quantity - Number of items deposited
+   * @param itemName - Name of the item
+   */
+  deposited: (quantity: number, itemName: string): string =>
+    `Stored ${quantity}x ${itemName}.`,
+  /**
+   * Generate a message for a successful withdrawal.
+   * @param quantity - Number of items withdrawn
+   * @param itemName - Name of the item
+   */
+  withdrawn: (quantity: number, itemName: string): string =>
+    `Took ${quantity}x ${itemName} from storage.`,
+  /**
+   * Generate a note for items sent to storage because the bag was full.
+   * @param quantity - Number of items sent to storage
+   * @param itemName - Name of the item
+   */
+  sentToStorage: (quantity: number, itemName: string): string =>
+    `Bag full: ${quantity}x ${itemName} sent to storage.`,
+  /**
+   * Generate a note for items lost because the bag and storage were full.
+   * @param quantity - Number of items lost
+   * @param itemName - Name of the item
+   */
+  lost: (quantity: number, itemName: string): string =>
+    `Bag and storage full: ${quantity}x ${itemName} left behind.`,
+} as const;
+
+/**
+ * Move learning and slot management messages.
+ */
+export const MoveMessages = {
+  /** When there's no pet to manage moves for */
+  noPet: "No pet to manage moves for.",
+  /** When the move ID does not match a learnable move */
+  unknownMove: "That move cannot be learned.",
+  /** When the pet has not learned the move */
+  notLearned: "Your pet has not learned that move.",
+  /** When the slot index is outside the available slots */
+  invalidSlot: "Invalid move slot.",
+  /** When the slot has no move equipped */
+  slotEmpty: "That move slot is already empty.",
+  /** When the pet is in battle */
+  inBattle: "Moves cannot be changed during battle.",
+  /**
+   * Generate a message when the pet already knows a move.
+   * @param moveName - Name of the move
+   */
+  alreadyLearned: (moveName: string): string =>
+    `Your pet already knows ${moveName}.`,
+  /**
+   * Generate a message for learning a move.
+   * @param moveName - Name of the move
+   */
+  learned: (moveName: string): string => `Learned ${moveName}!`,
+  /**
+   * Generate a message for equipping a move.
+   * @param moveName - Name of the move
+   */
+  equipped: (moveName: string): string => `Equipped ${moveName}.`,
+  /**
+   * Generate a message for unequipping a move.
+   * @param moveName - Name of the move
+   */
+  unequipped: (moveName: string): string => `Unequipped ${moveName}.`,
+} as const;
+
+/**
+ * Equipment-related messages.
+ */
+export const EquipmentMessages = {
+  /** When there's no pet to equip items on */
+  noPet: "No pet to equip items on.",
+  /** When the inventory slot does not hold an item */
+  itemNotFound: "Item not found in inventory.",
+  /** When the item is not equipment */
+  notEquipment: "That item cannot be equipped.",
+  /** When the slot has nothing equipped */
+  slotEmpty: "Nothing is equipped in that slot.",
+  /** When the pet is in battle */
+  inBattle: "Equipment cannot be changed during battle.",
+  /** When the carried inventory has no room for the unequipped item */
+  inventoryFull: "Your bag is full. Make room before unequipping.",
+  /**
+   * Generate a message for equipping an item.
+   * @param itemName - Name of the item
+   */
+  equipped: (itemName: string): string => `Equipped ${itemName}.`,
+  /**
+   * Generate a message for unequipping an item.
+   * @param itemName - Name of the item
+   */
+  unequipped: (itemName: string): string => `Unequipped ${itemName}.`,
+} as const;
+
+/**
+ * Crafting-related messages.
+ */
+export const CraftingMessages = {
+  /** When the recipe ID is unknown */
+  recipeNotFound: "Recipe not found.",
+  /** When another craft is still in progress */
+  alreadyCrafting: "Another craft is already in progress.",
+  /** When the player lacks the required ingredients */
+  missingIngredients: "You don't have the required ingredients.",
+  /** When there's no craft in progress to cancel */
+  noActiveCraft: "No craft in progress.",
+  /** When a craft is cancelled and ingredients refunded */
+  craftCancelled: "Crafting cancelled. Ingredients have been returned.",
+  /** When all requirements are met */
+  canCraft: "Ready to craft.",
+  /**
+   * Generate a message for an insufficient Crafting level.
+   * @param requiredLevel - Crafting level the recipe requires
+   */
+  levelTooLow: (requiredLevel: number): string =>
+    `Requires Crafting level ${requiredLevel}.`,
+  /**
+   * Generate a message for starting a timed craft.
+   * @param recipeName - Name of the recipe
+   */
+  craftStarted: (recipeName: string): string =>
+    `Started crafting ${recipeName}.`,
+  /**
+   * Generate a message for a finished craft.
+   * @param itemName - Name of the crafted item
+   * @param quantity - Quantity produced
+   * @param bonusOutput - Whether extra output was produced
+   */
+  crafted: (
+    itemName: string,
+    quantity: number,
+    bonusOutput: boolean,
+  ): string =>
+    bonusOutput
+      ? `Crafted ${quantity}x ${itemName}! Your skill produced a bonus.`
+      : `Crafted ${quantity}x ${itemName}.`,
+} as const;
+
+/**
+ * Skill training messages.
+ */
+export const SkillTrainingMessages = {
+  /** When the training offer ID is unknown */
+  offerNotFound: "Training session not found.",
+  /** When another session is still in progress */
+  alreadyTraining: "You are already in a training session.",
+  /** When there's no session in progress to cancel */
+  noActiveTraining: "No training session in progress.",
+  /** When a session is cancelled and its cost refunded */
+  trainingCancelled: "Training cancelled. Your coins have been refunded.",
+  /** When all requirements are met */
+  canTrain: "Ready to train.",
+  /**
+   * Generate a message for training away from the trainer.
+   * @param npcName - Name of the trainer
+   */
+  notAtTrainer: (npcName: string): string => `${npcName} isn't here.`,
+  /**
+   * Generate a message for a used-up daily limit.
+   * @param offerName - Name of the training session
+   */
+  dailyLimitReached: (offerName: string): string =>
+    `No more ${offerName} sessions today. Come back tomorrow!`,
+  /**
+   * Generate a message for insufficient coins.
+   * @param cost - Coin cost of the session
+   */
+  notEnoughCoins: (cost: number): string =>
+    `Not enough coins. Training costs ${cost} coins.`,
+  /**
+   * Generate a message for an insufficient skill level.
+   * @param skillName - Display name of the trained skill
+   * @param requiredLevel - Level the session requires
+   */
+  levelTooLow: (skillName: string, requiredLevel: number): string =>
+    `Requires ${skillName} level ${requiredLevel}.`,
+  /**
+   * Generate a message for starting a session.
+   * @param offerName - Name of the training session
+   * @param npcName - Name of the trainer
+   */
+  trainingStarted: (offerName: string, npcName: string): string =>
+    `Started ${offerName} with ${npcName}.`,
+} as const;
+
+/**
+ * NPC relationship and dialogue action messages.
+ */
+export const DialogueMessages = {
+  /** When the NPC ID is unknown */
+  npcNotFound: "NPC not found.",
+  /** When the player doesn't have the item to give */
+  itemNotOwned: "You don't have that item.",
+  /** When an action is missing its target */
+  invalidAction: "That can't be done right now.",
+  /** When a battle from dialogue cannot start */
+  cannotBattle: "Your pet can't battle right now.",
+  /**
+   * Generate a message for a gift the NPC already received today.
+   * @param npcName - Name of the NPC
+   */
+  alreadyGifted: (npcName: string): string =>
+    `You've already given ${npcName} a gift today.`,
+  /**
+   * Generate a message for an accepted gift.
+   * @param npcName - Name of the NPC
+   * @param itemName - Name of the gifted item
+   */
+  giftAccepted: (npcName: string, itemName: string): string =>
+    `${npcName} happily accepts the ${itemName}.`,
+  /**
+   * Generate a message for items received from an NPC.
+   * @param quantity - Quantity received
+   * @param itemName - Name of the item
+   */
+  receivedItem: (quantity: number, itemName: string): string =>
+    `Received ${quantity}x ${itemName}.`,
+  /**
+   * Generate a message for items handed to an NPC.
+   * @param quantity - Quantity handed over
+   * @param itemName - Name of the item
+   */
+  handedOverItem: (quantity: number, itemName: string): string =>
+    `Handed over ${quantity}x ${itemName}.`,
+  /**
+   * Generate a message for lacking the items an NPC asks for.
+   * @param quantity - Quantity required
+   * @param itemName - Name of the item
+   */
+  notEnoughItems: (quantity: number, itemName: string): string =>
+    `You need ${quantity}x ${itemName}.`,
+  /**
+   * Generate a message for coins received from an NPC.
+   * @param amount - Coins received
+   */
+  receivedCoins: (amount: number): string => `Received ${amount} coins.`,
+  /**
+   * Generate a message for a Social level up.
+   * @param level - New Social level
+   */
+  socialLevelUp: (level: number): string => `Social reached level ${level}!`,
+} as const;
@@ -2,6 +2,7 @@
  * Move definitions for the battle system.
  */
 
+import { TrainingFacilityType } from "@/game/types/activity";
 import { DamageType, PetStat } from "@/game/types/constants";
 import { type Move, MoveTarget, StatusEffectType } from "@/game/types/move";
 
@@ -215,6 +216,30 @@ const LEARNABLE_MOVES: Move[] = [
   heatWave,
 ];
 
+/**
+ * Moves that can be learned from training, by facility type.
+ * Each facility teaches moves that suit the stats it trains.
+ */
+export const TRAINING_MOVE_POOLS: Record<TrainingFacilityType, string[]> = {
+  [TrainingFacilityType.Strength]: [powerSlam.id, intimidate.id],
+  [TrainingFacilityType.Endurance]: [harden.id],
+  [TrainingFacilityType.Agility]: [quickStrike.id],
+  [TrainingFacilityType.Precision]: [quickStrike.id, thunderJolt.id],
+  [TrainingFacilityType.Fortitude]: [harden.id, heatWave.id],
+  [TrainingFacilityType.Cunning]: [venomBite.id, intimidate.id],
+};
+
+/**
+ * Moves taught when the pet reaches a level, keyed by level.
+ */
+export const LEVEL_UP_MOVES: Record<number, string> = {
+  5: quickStrike.id,
+  10: harden.id,
+  15: powerSlam.id,
+  20: thunderJolt.id,
+  30: heatWave.id,
+};
+
 /**
  * All moves in the game.
  */
@@ -227,6 +252,20 @@ export function getMoveById(id: string): Move | undefined {
   return ALL_MOVES.find((move) => move.id === id);
 }
 
+/**
+ * Get all learnable moves (excluding default moves).
+ */
+export function getLearnableMoves(): Move[] {
+  return [...LEARNABLE_MOVES];
+}
+
+/**
+ * Check if a move ID is a learnable move.
+ */
+export function isLearnableMove(id: string): boolean {
+  return LEARNABLE_MOVES.some((move) => move.id === id);
+}
+
 /**
  * Get default moves for new pets.
  */
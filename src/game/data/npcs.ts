@@ -3,6 +3,7 @@
  */
 
 import { type NPC, NpcRole } from "@/game/types/npc";
+import { type SkillTrainingOffer, SkillType } from "@/game/types/skill";
 
 // ========================================
 // WILLOWBROOK NPCs
@@ -49,6 +50,18 @@ export const trainerOak: NPC = {
     "side_material_gatherer",
     "side_monster_hunter",
   ],
+  trainingOffers: [
+    {
+      id: "oak_scouting_lessons",
+      name: "Scouting Lessons",
+      description: "Oak shows you how to read tracks and spot hidden paths.",
+      skill: SkillType.Scouting,
+      cost: 40,
+      durationTicks: 60,
+      xpGranted: 30,
+      dailyLimit: 3,
+    },
+  ],
   emoji: "👴",
 };
 
@@ -65,7 +78,7 @@ export const blacksmithGrom: NPC = {
   name: "Grom",
   description:
     "A burly blacksmith with arms like tree trunks. His forge produces the finest equipment in the region, and he pays well for quality ore.",
-  roles: [NpcRole.Merchant, NpcRole.QuestGiver],
+  roles: [NpcRole.Merchant, NpcRole.Crafter, NpcRole.QuestGiver],
   locationId: "ironhaven",
   dialogueId: "grom_dialogue",
   shopId: "ironhaven_shop",
@@ -86,6 +99,19 @@ export const minerDelva: NPC = {
   locationId: "ironhaven",
   dialogueId: "delva_dialogue",
   questIds: ["side_deep_mining", "side_crystal_hunter"],
+  trainingOffers: [
+    {
+      id: "delva_mining_drills",
+      name: "Mining Drills",
+      description:
+        "Delva drills you on finding a seam and striking it cleanly.",
+      skill: SkillType.Mining,
+      cost: 60,
+      durationTicks: 120,
+      xpGranted: 50,
+      dailyLimit: 2,
+    },
+  ],
   emoji: "👷‍♀️",
 };
 
@@ -107,6 +133,18 @@ export const fisherMarina: NPC = {
   dialogueId: "marina_dialogue",
   shopId: "tidecrest_shop",
   questIds: ["side_big_catch", "side_pearl_diving"],
+  trainingOffers: [
+    {
+      id: "marina_casting_practice",
+      name: "Casting Practice",
+      description: "Marina corrects your cast until the line lands just right.",
+      skill: SkillType.Fishing,
+      cost: 60,
+      durationTicks: 120,
+      xpGranted: 50,
+      dailyLimit: 2,
+    },
+  ],
   emoji: "🧜‍♀️",
 };
 
@@ -147,6 +185,19 @@ export const sageLumina: NPC = {
     "main_frozen_ascent",
     "side_starlight_gathering",
   ],
+  trainingOffers: [
+    {
+      id: "lumina_etiquette_lessons",
+      name: "Etiquette Lessons",
+      description:
+        "Lumina teaches the courtesies that open doors across the realm.",
+      skill: SkillType.Social,
+      cost: 80,
+      durationTicks: 120,
+      xpGranted: 50,
+      dailyLimit: 2,
+    },
+  ],
   emoji: "🧙‍♀️",
 };
 
@@ -201,6 +252,20 @@ export const trainerBlaze: NPC = {
   locationId: "scorched_highlands",
   dialogueId: "blaze_dialogue",
   questIds: ["side_trial_by_fire", "side_volcanic_champion"],
+  trainingOffers: [
+    {
+      id: "blaze_highland_survival",
+      name: "Highland Survival",
+      description:
+        "Blaze leads a hard march across the lava fields to sharpen your instincts.",
+      skill: SkillType.Scouting,
+      cost: 150,
+      durationTicks: 240,
+      xpGranted: 120,
+      dailyLimit: 1,
+      requiredLevel: 10,
+    },
+  ],
   emoji: "🔥",
 };
 
@@ -290,3 +355,18 @@ export function getNpc(npcId: string): NPC | undefined {
 export function getNpcsAtLocation(locationId: string): NPC[] {
   return Object.values(npcs).filter((npc) => npc.locationId === locationId);
 }
+
+/**
+ * Get a skill-training offer by ID, with the NPC that offers it.
+ */
+export function getTrainingOffer(
+  offerId: string,
+): { npc: NPC; offer: SkillTrainingOffer } | undefined {
+  for (const npc of Object.values(npcs)) {
+    const offer = npc.trainingOffers?.find((o) => o.id === offerId);
+    if (offer) {
+      return { npc, offer };
+    }
+  }
+  return undefined;
+}
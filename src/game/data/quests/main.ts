@@ -2,6 +2,7 @@
  * Main story quest chain.
  */
 
+import { heatWave, quickStrike } from "@/game/data/moves";
 import { SPECIES } from "@/game/data/species";
 import { GrowthStage } from "@/game/types/constants";
 import {
@@ -11,6 +12,7 @@ import {
   RequirementType,
   RewardType,
 } from "@/game/types/quest";
+import { UnlockType } from "@/game/types/unlock";
 
 /**
  * Main Quest 1: A New Journey
@@ -56,6 +58,11 @@ export const mainNewJourney: Quest = {
       target: "medicine_potion",
       quantity: 3,
     },
+    {
+      type: RewardType.Move,
+      target: quickStrike.id,
+      quantity: 1,
+    },
   ],
   chainNext: "main_crystal_discovery",
 };
@@ -112,6 +119,7 @@ export const mainCrystalDiscovery: Quest = {
       type: RewardType.Unlock,
       target: SPECIES.CORALITE.id,
       quantity: 1,
+      unlockType: UnlockType.Species,
     },
   ],
   chainPrevious: "main_new_journey",
@@ -177,6 +185,12 @@ export const mainRisingFlames: Quest = {
       type: RewardType.Unlock,
       target: SPECIES.EMBERFOX.id,
       quantity: 1,
+      unlockType: UnlockType.Species,
+    },
+    {
+      type: RewardType.Move,
+      target: heatWave.id,
+      quantity: 1,
     },
   ],
   chainPrevious: "main_crystal_discovery",
@@ -242,6 +256,7 @@ export const mainShadowDepths: Quest = {
       type: RewardType.Unlock,
       target: SPECIES.SHADOWMOTH.id,
       quantity: 1,
+      unlockType: UnlockType.Species,
     },
   ],
   chainPrevious: "main_rising_flames",
@@ -307,6 +322,7 @@ export const mainSunkenSecrets: Quest = {
       type: RewardType.Unlock,
       target: SPECIES.CORALITE.id,
       quantity: 1,
+      unlockType: UnlockType.Species,
     },
   ],
   chainPrevious: "main_shadow_depths",
@@ -10,6 +10,7 @@ import {
   RequirementType,
   RewardType,
 } from "@/game/types/quest";
+import { UnlockType } from "@/game/types/unlock";
 
 // ========================================
 // WILLOWBROOK SIDE QUESTS
@@ -831,6 +832,12 @@ export const sideRareHerbs: Quest = {
       target: "foraging",
       quantity: 75,
     },
+    {
+      type: RewardType.Unlock,
+      target: "mushroom_hollow",
+      quantity: 1,
+      unlockType: UnlockType.Location,
+    },
   ],
 };
 
@@ -0,0 +1,146 @@
+/**
+ * Crafting recipe definitions.
+ */
+
+import {
+  IngredientType,
+  type ItemIngredient,
+  type Recipe,
+  type TagIngredient,
+} from "@/game/types/crafting";
+import {
+  BATTLE_ITEMS,
+  EQUIPMENT_ITEMS,
+  MATERIAL_ITEMS,
+  MEDICINE_ITEMS,
+} from "./items";
+
+/**
+ * Helper to create an ingredient that requires a specific item.
+ */
+function item(itemId: string, quantity: number): ItemIngredient {
+  return { type: IngredientType.Item, itemId, quantity };
+}
+
+/**
+ * Helper to create an ingredient matched by crafting tag.
+ */
+function tag(tagName: string, quantity: number): TagIngredient {
+  return { type: IngredientType.Tag, tag: tagName, quantity };
+}
+
+/**
+ * Bandage - woven fiber bound with a healing herb.
+ */
+export const bandageRecipe: Recipe = {
+  id: "recipe_bandage",
+  name: "Bandage",
+  description: "Weave plant fibers around a healing herb.",
+  ingredients: [
+    item(MATERIAL_ITEMS.FIBER.id, 2),
+    item(MATERIAL_ITEMS.HERB.id, 1),
+  ],
+  output: { itemId: MEDICINE_ITEMS.BANDAGE.id, quantity: 1 },
+  requiredLevel: 1,
+  xpReward: 10,
+};
+
+/**
+ * Health Potion - brewed from any medicinal materials.
+ */
+export const potionRecipe: Recipe = {
+  id: "recipe_potion",
+  name: "Health Potion",
+  description: "Brew medicinal materials into a restorative potion.",
+  ingredients: [tag("medicinal", 3), tag("basic", 1)],
+  output: { itemId: MEDICINE_ITEMS.POTION.id, quantity: 1 },
+  requiredLevel: 3,
+  xpReward: 20,
+  durationTicks: 4,
+};
+
+/**
+ * Attack Boost - a tonic distilled from monster parts and magic.
+ */
+export const attackBoostRecipe: Recipe = {
+  id: "recipe_attack_boost",
+  name: "Attack Boost",
+  description: "Grind a monster fang into a tonic bound with magic.",
+  ingredients: [
+    item(MATERIAL_ITEMS.MONSTER_FANG.id, 1),
+    tag("magic", 1),
+    tag("organic", 1),
+  ],
+  output: { itemId: BATTLE_ITEMS.ATTACK_BOOST.id, quantity: 1 },
+  requiredLevel: 5,
+  xpReward: 30,
+  durationTicks: 6,
+};
+
+/**
+ * Iron Bangle - hammered from iron ore at the forge.
+ */
+export const ironBangleRecipe: Recipe = {
+  id: "recipe_iron_bangle",
+  name: "Iron Bangle",
+  description: "Forge iron ore into a sturdy bangle.",
+  ingredients: [tag("metal", 3), tag("basic", 2)],
+  output: { itemId: EQUIPMENT_ITEMS.IRON_BANGLE.id, quantity: 1 },
+  requiredLevel: 8,
+  xpReward: 50,
+  durationTicks: 20,
+};
+
+/**
+ * Lucky Charm - a crystal set in woven fiber.
+ */
+export const luckyCharmRecipe: Recipe = {
+  id: "recipe_lucky_charm",
+  name: "Lucky Charm",
+  description: "Set a glittering crystal into a woven charm.",
+  ingredients: [
+    item(MATERIAL_ITEMS.CRYSTAL.id, 1),
+    item(MATERIAL_ITEMS.FIBER.id, 3),
+  ],
+  output: { itemId: EQUIPMENT_ITEMS.LUCKY_CHARM.id, quantity: 1 },
+  requiredLevel: 12,
+  xpReward: 70,
+  durationTicks: 20,
+};
+
+/**
+ * Hunter's Eye - a rare charm of crystal, fang and metal.
+ */
+export const huntersEyeRecipe: Recipe = {
+  id: "recipe_hunters_eye",
+  name: "Hunter's Eye",
+  description: "Combine rare crystal, monster fangs and metal into a charm.",
+  ingredients: [
+    tag("rare", 2),
+    item(MATERIAL_ITEMS.MONSTER_FANG.id, 2),
+    tag("metal", 2),
+  ],
+  output: { itemId: EQUIPMENT_ITEMS.HUNTERS_EYE.id, quantity: 1 },
+  requiredLevel: 20,
+  xpReward: 120,
+  durationTicks: 40,
+};
+
+/**
+ * All recipes in display order.
+ */
+export const ALL_RECIPES: Recipe[] = [
+  bandageRecipe,
+  potionRecipe,
+  attackBoostRecipe,
+  ironBangleRecipe,
+  luckyCharmRecipe,
+  huntersEyeRecipe,
+];
+
+/**
+ * Get a recipe by ID.
+ */
+export function getRecipe(recipeId: string): Recipe | undefined {
+  return ALL_RECIPES.find((recipe) => recipe.id === recipeId);
+}
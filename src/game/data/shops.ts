@@ -2,8 +2,10 @@
  * Shop data definitions for merchant NPCs.
  */
 
-import type { Shop, ShopItem } from "@/game/types/shop";
+import { type Shop, type ShopItem, UNLIMITED_STOCK } from "@/game/types/shop";
+import { SkillTier } from "@/game/types/skill";
 import {
+  BATTLE_ITEMS,
   CLEANING_ITEMS,
   DRINK_ITEMS,
   EQUIPMENT_ITEMS,
@@ -15,9 +17,17 @@ import {
 
 /**
  * Helper to create a shop item entry.
+ * Rare entries can require a Trading tier before the shop offers them.
  */
-function shopItem(itemId: string, buyPrice: number, stock = -1): ShopItem {
-  return { itemId, buyPrice, stock };
+function shopItem(
+  itemId: string,
+  buyPrice: number,
+  stock = UNLIMITED_STOCK,
+  minTradingTier?: SkillTier,
+): ShopItem {
+  return minTradingTier
+    ? { itemId, buyPrice, stock, minTradingTier }
+    : { itemId, buyPrice, stock };
 }
 
 /**
@@ -47,10 +57,22 @@ export const willowbrookShop: Shop = {
     shopItem(CLEANING_ITEMS.SPONGE.id, 30),
 
     // Toys
-    shopItem(TOY_ITEMS.BALL.id, 25),
-    shopItem(TOY_ITEMS.ROPE.id, 35),
-    shopItem(TOY_ITEMS.PLUSH.id, 60),
+    shopItem(TOY_ITEMS.BALL.id, 25, 5),
+    shopItem(TOY_ITEMS.ROPE.id, 35, 5),
+    shopItem(TOY_ITEMS.PLUSH.id, 60, 3),
+
+    // Rare stock for experienced traders
+    shopItem(TOY_ITEMS.MAGIC_WAND.id, 170, 1, SkillTier.Journeyman),
   ],
+  rotatingStock: {
+    count: 1,
+    pool: [
+      shopItem(TOY_ITEMS.SQUEAKY.id, 55, 2),
+      shopItem(TOY_ITEMS.BELL.id, 40, 2),
+      shopItem(TOY_ITEMS.PUZZLE.id, 90, 1),
+      shopItem(FOOD_ITEMS.CAKE.id, 50, 3),
+    ],
+  },
 };
 
 /**
@@ -63,22 +85,33 @@ export const ironhavenShop: Shop = {
   sellMultiplier: 0.6,
   items: [
     // Equipment
-    shopItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 150),
-    shopItem(EQUIPMENT_ITEMS.LUCKY_CHARM.id, 200),
+    shopItem(EQUIPMENT_ITEMS.IRON_BANGLE.id, 150, 2),
+    shopItem(EQUIPMENT_ITEMS.LUCKY_CHARM.id, 200, 2),
 
     // Materials (buy back from players)
     shopItem(MATERIAL_ITEMS.IRON_ORE.id, 25),
     shopItem(MATERIAL_ITEMS.STONE.id, 10),
-    shopItem(MATERIAL_ITEMS.CRYSTAL.id, 75),
+    shopItem(MATERIAL_ITEMS.CRYSTAL.id, 75, 5),
 
     // Medicine
     shopItem(MEDICINE_ITEMS.POTION.id, 30),
     shopItem(MEDICINE_ITEMS.BANDAGE.id, 15),
 
     // Food for long mining trips
-    shopItem(FOOD_ITEMS.STEAK.id, 80),
+    shopItem(FOOD_ITEMS.STEAK.id, 80, 5),
     shopItem(FOOD_ITEMS.MEAT.id, 35),
+
+    // Rare stock for experienced traders
+    shopItem(MATERIAL_ITEMS.ESSENCE.id, 220, 1, SkillTier.Expert),
   ],
+  rotatingStock: {
+    count: 1,
+    pool: [
+      shopItem(EQUIPMENT_ITEMS.TRAINING_COLLAR.id, 220, 1),
+      shopItem(EQUIPMENT_ITEMS.SWIFT_ANKLET.id, 380, 1),
+      shopItem(EQUIPMENT_ITEMS.GUARDIANS_PENDANT.id, 420, 1),
+    ],
+  },
 };
 
 /**
@@ -97,11 +130,11 @@ export const tidecrestShop: Shop = {
     // Drinks
     shopItem(DRINK_ITEMS.WATER.id, 5),
     shopItem(DRINK_ITEMS.JUICE.id, 15),
-    shopItem(DRINK_ITEMS.SMOOTHIE.id, 45),
+    shopItem(DRINK_ITEMS.SMOOTHIE.id, 45, 10),
 
     // Beach toys
-    shopItem(TOY_ITEMS.BALL.id, 25),
-    shopItem(TOY_ITEMS.FRISBEE.id, 40),
+    shopItem(TOY_ITEMS.BALL.id, 25, 5),
+    shopItem(TOY_ITEMS.FRISBEE.id, 40, 3),
 
     // Medicine for water activities
     shopItem(MEDICINE_ITEMS.ANTIDOTE.id, 35),
@@ -109,7 +142,19 @@ export const tidecrestShop: Shop = {
 
     // Cleaning
     shopItem(CLEANING_ITEMS.WIPES.id, 15),
+
+    // Rare stock for experienced traders
+    shopItem(CLEANING_ITEMS.VACUUM.id, 110, 2, SkillTier.Apprentice),
   ],
+  rotatingStock: {
+    count: 1,
+    pool: [
+      shopItem(DRINK_ITEMS.MINERAL_WATER.id, 55, 3),
+      shopItem(DRINK_ITEMS.ENERGY.id, 65, 3),
+      shopItem(DRINK_ITEMS.NECTAR.id, 150, 1),
+      shopItem(CLEANING_ITEMS.SPRAY.id, 75, 2),
+    ],
+  },
 };
 
 /**
@@ -122,27 +167,40 @@ export const sanctuaryShop: Shop = {
   sellMultiplier: 0.7,
   items: [
     // High-tier equipment
-    shopItem(EQUIPMENT_ITEMS.HUNTERS_EYE.id, 500),
-    shopItem(EQUIPMENT_ITEMS.GUARDIANS_PENDANT.id, 400),
-    shopItem(EQUIPMENT_ITEMS.LUCKY_CHARM.id, 180),
+    shopItem(EQUIPMENT_ITEMS.HUNTERS_EYE.id, 500, 1),
+    shopItem(EQUIPMENT_ITEMS.GUARDIANS_PENDANT.id, 400, 1),
+    shopItem(EQUIPMENT_ITEMS.LUCKY_CHARM.id, 180, 2),
 
     // Premium food
-    shopItem(FOOD_ITEMS.FEAST.id, 150),
-    shopItem(FOOD_ITEMS.CAKE.id, 100),
-    shopItem(FOOD_ITEMS.STEAK.id, 75),
+    shopItem(FOOD_ITEMS.FEAST.id, 150, 3),
+    shopItem(FOOD_ITEMS.CAKE.id, 100, 5),
+    shopItem(FOOD_ITEMS.STEAK.id, 75, 5),
 
     // Premium drinks
-    shopItem(DRINK_ITEMS.MINERAL_WATER.id, 60),
+    shopItem(DRINK_ITEMS.MINERAL_WATER.id, 60, 5),
     shopItem(DRINK_ITEMS.SMOOTHIE.id, 50),
 
     // Premium medicine
-    shopItem(MEDICINE_ITEMS.SUPER_POTION.id, 80),
+    shopItem(MEDICINE_ITEMS.SUPER_POTION.id, 80, 5),
     shopItem(MEDICINE_ITEMS.ANTIDOTE.id, 40),
 
     // Rare materials
-    shopItem(MATERIAL_ITEMS.ESSENCE.id, 200),
-    shopItem(MATERIAL_ITEMS.CRYSTAL.id, 80),
+    shopItem(MATERIAL_ITEMS.ESSENCE.id, 200, 2),
+    shopItem(MATERIAL_ITEMS.CRYSTAL.id, 80, 5),
+
+    // Rare stock for experienced traders
+    shopItem(MEDICINE_ITEMS.FULL_RESTORE.id, 420, 1, SkillTier.Expert),
   ],
+  rotatingStock: {
+    count: 2,
+    pool: [
+      shopItem(MEDICINE_ITEMS.FULL_RESTORE.id, 400, 1),
+      shopItem(DRINK_ITEMS.NECTAR.id, 140, 2),
+      shopItem(TOY_ITEMS.MAGIC_WAND.id, 160, 1),
+      shopItem(TOY_ITEMS.TREASURE_BOX.id, 250, 1, SkillTier.Journeyman),
+      shopItem(EQUIPMENT_ITEMS.SWIFT_ANKLET.id, 360, 1),
+    ],
+  },
 };
 
 /**
@@ -156,7 +214,7 @@ export const fernTravelingShop: Shop = {
   items: [
     // Medicine
     shopItem(MEDICINE_ITEMS.POTION.id, 25),
-    shopItem(MEDICINE_ITEMS.SUPER_POTION.id, 70),
+    shopItem(MEDICINE_ITEMS.SUPER_POTION.id, 70, 5),
     shopItem(MEDICINE_ITEMS.ANTIDOTE.id, 30),
     shopItem(MEDICINE_ITEMS.BANDAGE.id, 12),
 
@@ -164,12 +222,20 @@ export const fernTravelingShop: Shop = {
     shopItem(MATERIAL_ITEMS.HERB.id, 8),
     shopItem(FOOD_ITEMS.APPLE.id, 12),
     shopItem(FOOD_ITEMS.MUSHROOM.id, 20),
-    shopItem(FOOD_ITEMS.HONEY.id, 45),
+    shopItem(FOOD_ITEMS.HONEY.id, 45, 5),
 
     // Drinks
     shopItem(DRINK_ITEMS.TEA.id, 28),
     shopItem(DRINK_ITEMS.JUICE.id, 15),
   ],
+  rotatingStock: {
+    count: 1,
+    pool: [
+      shopItem(MEDICINE_ITEMS.SMELLING_SALTS.id, 70, 3),
+      shopItem(MEDICINE_ITEMS.FULL_RESTORE.id, 380, 1, SkillTier.Apprentice),
+      shopItem(DRINK_ITEMS.NECTAR.id, 130, 1),
+    ],
+  },
 };
 
 /**
@@ -182,21 +248,37 @@ export const shadowShop: Shop = {
   sellMultiplier: 0.65,
   items: [
     // Rare materials
-    shopItem(MATERIAL_ITEMS.ESSENCE.id, 180),
-    shopItem(MATERIAL_ITEMS.CRYSTAL.id, 70),
+    shopItem(MATERIAL_ITEMS.ESSENCE.id, 180, 2),
+    shopItem(MATERIAL_ITEMS.CRYSTAL.id, 70, 5),
     shopItem(MATERIAL_ITEMS.MONSTER_FANG.id, 40),
 
     // Equipment
-    shopItem(EQUIPMENT_ITEMS.HUNTERS_EYE.id, 450),
+    shopItem(EQUIPMENT_ITEMS.HUNTERS_EYE.id, 450, 1),
 
     // High-tier medicine
-    shopItem(MEDICINE_ITEMS.SUPER_POTION.id, 75),
+    shopItem(MEDICINE_ITEMS.SUPER_POTION.id, 75, 5),
     shopItem(MEDICINE_ITEMS.ANTIDOTE.id, 35),
 
     // Premium food
-    shopItem(FOOD_ITEMS.FEAST.id, 140),
-    shopItem(FOOD_ITEMS.STEAK.id, 70),
+    shopItem(FOOD_ITEMS.FEAST.id, 140, 3),
+    shopItem(FOOD_ITEMS.STEAK.id, 70, 5),
+
+    // Rare stock for experienced traders
+    shopItem(
+      EQUIPMENT_ITEMS.GUARDIANS_PENDANT.id,
+      380,
+      1,
+      SkillTier.Journeyman,
+    ),
   ],
+  rotatingStock: {
+    count: 1,
+    pool: [
+      shopItem(BATTLE_ITEMS.PRECISION_BOOST.id, 120, 2),
+      shopItem(BATTLE_ITEMS.IRON_SKIN.id, 160, 2),
+      shopItem(BATTLE_ITEMS.CUNNING_ESSENCE.id, 140, 2),
+    ],
+  },
 };
 
 /**
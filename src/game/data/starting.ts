@@ -3,12 +3,20 @@
  */
 
 import { getInitialPoopTimer } from "@/game/core/care/poop";
+import { createDefaultPetEquipment } from "@/game/core/equipment";
+import { createDefaultPetMoves } from "@/game/core/moves";
+import { createDefaultPetProgression } from "@/game/core/petLevel";
 import {
   calculateMaxStatsForAge,
   calculateTotalBattleStats,
   createDefaultBonusMaxStats,
 } from "@/game/core/petStats";
-import { createPetId, GrowthStage, type Pet } from "@/game/types";
+import {
+  type BonusMaxStats,
+  createPetId,
+  GrowthStage,
+  type Pet,
+} from "@/game/types";
 import type { InventoryItem } from "@/game/types/gameState";
 import { getSpeciesStageStats } from "./growthStages";
 import { CLEANING_ITEMS, DRINK_ITEMS, FOOD_ITEMS, TOY_ITEMS } from "./items";
@@ -26,8 +34,13 @@ export const DEFAULT_STARTING_STAGE: GrowthStage = GrowthStage.Baby;
 
 /**
  * Create a new pet with the given name and species.
+ * The pet starts with full stats, including any bonus max stats.
  */
-export function createNewPet(name: string, speciesId: string): Pet {
+export function createNewPet(
+  name: string,
+  speciesId: string,
+  bonusMaxStats: BonusMaxStats = createDefaultBonusMaxStats(),
+): Pet {
   const species = getSpeciesById(speciesId);
   if (!species) {
     throw new Error(`Unknown species: ${speciesId}`);
@@ -40,7 +53,6 @@ export function createNewPet(name: string, speciesId: string): Pet {
   }
 
   // Use centralized max stat calculation
-  const bonusMaxStats = createDefaultBonusMaxStats();
   const maxStats = calculateMaxStatsForAge(
     speciesId,
     initialAgeTicks,
@@ -104,6 +116,9 @@ export function createNewPet(name: string, speciesId: string): Pet {
     },
     activityState: "idle",
     bonusMaxStats,
+    moves: createDefaultPetMoves(),
+    equipment: createDefaultPetEquipment(),
+    progression: createDefaultPetProgression(),
   };
 }
 
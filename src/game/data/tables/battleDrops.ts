@@ -0,0 +1,136 @@
+/**
+ * Battle drop table definitions for wild species.
+ *
+ * Each defeated wild pet rolls its species' drop table once on victory, using
+ * the same single-roll semantics as exploration drop tables: items with
+ * minRoll <= roll are awarded. Higher Scouting levels unlock bonus entries.
+ */
+
+import { FOOD_ITEMS } from "@/game/data/items/food";
+import { MATERIAL_ITEMS } from "@/game/data/items/materials";
+import { SPECIES } from "@/game/data/species";
+import type { DropTable } from "@/game/types/exploration";
+import { SkillType } from "@/game/types/skill";
+
+/**
+ * Florabit drops - herbs and berries.
+ */
+export const florabitBattleDropTable: DropTable = {
+  id: "battle_florabit",
+  entries: [
+    { itemId: MATERIAL_ITEMS.HERB.id, quantity: 1, minRoll: 0.3 },
+    { itemId: FOOD_ITEMS.BERRIES.id, quantity: 1, minRoll: 0.6 },
+    {
+      itemId: MATERIAL_ITEMS.HERB.id,
+      quantity: 1,
+      minRoll: 0.5,
+      requirements: { minSkillLevels: { [SkillType.Scouting]: 3 } },
+    },
+    { itemId: MATERIAL_ITEMS.ESSENCE.id, quantity: 1, minRoll: 0.95 },
+  ],
+};
+
+/**
+ * Sparkfin drops - fish and fiber.
+ */
+export const sparkfinBattleDropTable: DropTable = {
+  id: "battle_sparkfin",
+  entries: [
+    { itemId: FOOD_ITEMS.FISH.id, quantity: 1, minRoll: 0.4 },
+    { itemId: MATERIAL_ITEMS.FIBER.id, quantity: 1, minRoll: 0.6 },
+    {
+      itemId: FOOD_ITEMS.FISH.id,
+      quantity: 1,
+      minRoll: 0.7,
+      requirements: { minSkillLevels: { [SkillType.Scouting]: 3 } },
+    },
+    { itemId: MATERIAL_ITEMS.ESSENCE.id, quantity: 1, minRoll: 0.95 },
+  ],
+};
+
+/**
+ * Rockpup drops - stone and ore.
+ */
+export const rockpupBattleDropTable: DropTable = {
+  id: "battle_rockpup",
+  entries: [
+    { itemId: MATERIAL_ITEMS.STONE.id, quantity: 1, minRoll: 0.3 },
+    { itemId: MATERIAL_ITEMS.MONSTER_FANG.id, quantity: 1, minRoll: 0.7 },
+    {
+      itemId: MATERIAL_ITEMS.IRON_ORE.id,
+      quantity: 1,
+      minRoll: 0.6,
+      requirements: { minSkillLevels: { [SkillType.Scouting]: 3 } },
+    },
+  ],
+};
+
+/**
+ * Coralite drops - fish and crystals.
+ */
+export const coraliteBattleDropTable: DropTable = {
+  id: "battle_coralite",
+  entries: [
+    { itemId: FOOD_ITEMS.FISH.id, quantity: 1, minRoll: 0.4 },
+    { itemId: MATERIAL_ITEMS.CRYSTAL.id, quantity: 1, minRoll: 0.8 },
+    {
+      itemId: MATERIAL_ITEMS.CRYSTAL.id,
+      quantity: 1,
+      minRoll: 0.9,
+      requirements: { minSkillLevels: { [SkillType.Scouting]: 5 } },
+    },
+  ],
+};
+
+/**
+ * Emberfox drops - fangs and meat.
+ */
+export const emberfoxBattleDropTable: DropTable = {
+  id: "battle_emberfox",
+  entries: [
+    { itemId: MATERIAL_ITEMS.MONSTER_FANG.id, quantity: 1, minRoll: 0.4 },
+    { itemId: FOOD_ITEMS.MEAT.id, quantity: 1, minRoll: 0.6 },
+    {
+      itemId: MATERIAL_ITEMS.ESSENCE.id,
+      quantity: 1,
+      minRoll: 0.85,
+      requirements: { minSkillLevels: { [SkillType.Scouting]: 5 } },
+    },
+  ],
+};
+
+/**
+ * Shadowmoth drops - fiber and essence.
+ */
+export const shadowmothBattleDropTable: DropTable = {
+  id: "battle_shadowmoth",
+  entries: [
+    { itemId: MATERIAL_ITEMS.FIBER.id, quantity: 1, minRoll: 0.3 },
+    { itemId: MATERIAL_ITEMS.ESSENCE.id, quantity: 1, minRoll: 0.75 },
+    {
+      itemId: MATERIAL_ITEMS.ESSENCE.id,
+      quantity: 1,
+      minRoll: 0.9,
+      requirements: { minSkillLevels: { [SkillType.Scouting]: 5 } },
+    },
+  ],
+};
+
+/**
+ * Battle drop tables keyed by species ID.
+ */
+export const BATTLE_DROP_TABLES: Record<string, DropTable> = {
+  [SPECIES.FLORABIT.id]: florabitBattleDropTable,
+  [SPECIES.SPARKFIN.id]: sparkfinBattleDropTable,
+  [SPECIES.ROCKPUP.id]: rockpupBattleDropTable,
+  [SPECIES.CORALITE.id]: coraliteBattleDropTable,
+  [SPECIES.EMBERFOX.id]: emberfoxBattleDropTable,
+  [SPECIES.SHADOWMOTH.id]: shadowmothBattleDropTable,
+};
+
+/**
+ * Get the drop table for a defeated wild species.
+ */
+export function getBattleDropTable(speciesId: string): DropTable | undefined {
+  return BATTLE_DROP_TABLES[speciesId];
+}
@@ -34,6 +34,8 @@ export interface EncounterEntry {
   minStage?: GrowthStage;
   /** List of activity IDs that can trigger this encounter. If undefined, all activities can trigger it. */
   activityIds?: string[];
+  /** Hidden location revealed by this encounter (for discoveries) */
+  locationId?: string;
 }
 
 /**
@@ -42,7 +44,7 @@ export interface EncounterEntry {
 export interface EncounterTable {
   /** Table identifier */
   id: string;
-  /** Base encounter chance per exploration tick (0-1) */
+  /** Base encounter chance per exploration session (0-1) */
   baseEncounterChance: number;
   /** Possible encounters */
   entries: EncounterEntry[];
@@ -83,6 +85,11 @@ export const woodsEncounters: EncounterTable = {
       speciesIds: [SPECIES.SPARKFIN.id],
       levelOffset: [2, 5],
     },
+    {
+      encounterType: EncounterType.Discovery,
+      probability: 0.05,
+      locationId: "mushroom_hollow",
+    },
   ],
 };
 
@@ -213,6 +220,12 @@ export const groveEncounters: EncounterTable = {
       speciesIds: [SPECIES.FLORABIT.id, SPECIES.ROCKPUP.id],
       levelOffset: [1, 4],
     },
+    {
+      encounterType: EncounterType.Discovery,
+      probability: 0.1,
+      locationId: "mushroom_hollow",
+      minStage: GrowthStage.Child,
+    },
   ],
 };
 
@@ -56,6 +56,102 @@ export const CareUI = {
   },
 } as const;
 
+/**
+ * Pet roster and daycare UI text.
+ */
+export const RosterUI = {
+  title: "Pet Roster",
+  daycareDescription:
+    "Benched pets rest in the home daycare. They keep growing, and their care stats drop more slowly.",
+  emptyBench: "No other pets on your roster yet.",
+  awayHint: "Return home to switch pets or adopt a new one.",
+  careLifeLabel: "Care Life",
+  switchLabel: "Make Active",
+  adoptTitle: "Adopt Another Pet",
+  nameLabel: "Pet name",
+  namePlaceholder: "Enter a name...",
+  adoptLabel: "Adopt",
+} as const;
+
+/**
+ * Inventory capacity and home storage UI text.
+ */
+export const StorageUI = {
+  title: "Storage",
+  description:
+    "Items you are not carrying. When your bag is full, new items are sent here.",
+  empty: "Storage is empty.",
+  slotsUsed: (used: number, capacity: number) => `${used}/${capacity} slots`,
+  depositLabel: "Store",
+  withdrawLabel: "Take",
+} as const;
+
+/**
+ * Achievements screen UI text.
+ */
+export const AchievementsUI = {
+  title: "Achievements",
+  description:
+    "Reach milestones to earn coins, items, new species and permanent max stat bonuses for all your pets.",
+  unlockedCount: (unlocked: number, total: number) =>
+    `${unlocked} / ${total} unlocked`,
+  rewardsLabel: "Rewards",
+  unlockedOn: (date: string) => `Unlocked ${date}`,
+  categoryNames: {
+    care: "Care",
+    growth: "Growth",
+    battle: "Battle",
+    exploration: "Exploration",
+    skills: "Skills",
+  },
+} as const;
+
+/**
+ * NPC relationship UI text.
+ */
+export const RelationshipUI = {
+  affinityLabel: "Affinity",
+  giftLabel: "Give a Gift",
+  giftDescription: "Each person accepts one gift a day. Rarer gifts mean more.",
+  noGifts: "You have nothing to give.",
+  alreadyGifted: "Come back tomorrow with another gift.",
+  levelNames: {
+    stranger: "Stranger",
+    acquaintance: "Acquaintance",
+    friend: "Friend",
+    closeFriend: "Close Friend",
+    bestFriend: "Best Friend",
+  },
+} as const;
+
+/**
+ * Skill training UI text.
+ */
+export const SkillTrainingUI = {
+  trainLabel: "Train Skills",
+  description: "Pay for a session and stay with your trainer until it ends.",
+  inProgress: "Training in progress",
+  timeRemaining: "Time remaining",
+  cancelLabel: "Cancel Training",
+  startLabel: "Train",
+  sessionsLeft: "Sessions left today:",
+  requiresLevel: "Requires Lv.",
+} as const;
+
+/**
+ * Inn and rest point UI text.
+ */
+export const RestUI = {
+  innDescription: "Your pet sleeps soundly and recovers energy quickly.",
+  stayLabel: "Stay",
+  careRestore: "care restored",
+  resting: "Resting at the inn",
+  timeRemaining: "left",
+  restPointDescription: "Rest here for free to recover some energy.",
+  restLabel: "Rest",
+  readyIn: "Ready in",
+} as const;
+
 /**
  * Battle-related UI text.
  */
@@ -73,6 +169,8 @@ export const LocationUI = {
   facilities: "Facilities",
   peopleHere: "People Here",
   travelHere: "Travel Here",
+  route: "Route:",
+  totalEnergy: "Total Energy:",
 } as const;
 
 /**
@@ -94,6 +192,7 @@ export const FacilityDisplay: Record<
   [FacilityType.RestPoint]: { name: "Rest Point", emoji: "⛺" },
   [FacilityType.ForageZone]: { name: "Forage Zone", emoji: "🌿" },
   [FacilityType.BattleArea]: { name: "Battle Area", emoji: "⚔️" },
+  [FacilityType.Workshop]: { name: "Workshop", emoji: "🔨" },
 };
 
 /**
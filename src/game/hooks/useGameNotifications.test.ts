@@ -3,8 +3,11 @@ import { renderHook } from "@testing-library/react";
 import { setupTimeFreezing } from "@/game/testing/time";
 import type { GameNotification, GameState, Pet } from "@/game/types";
 import { GrowthStage } from "@/game/types";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
 import { createInitialSkills } from "@/game/types/skill";
 import { createDefaultResistances } from "@/game/types/stats";
+import { createInitialUnlocks } from "@/game/types/unlock";
 import { useGameNotifications } from "./useGameNotifications";
 
 setupTimeFreezing();
@@ -75,12 +78,23 @@ describe("useGameNotifications", () => {
           cunning: 0,
         },
       },
+      moves: { learned: [], equipped: [] },
+      equipment: { accessory: null, charm: null },
+      progression: { level: 1, currentXp: 0 },
     };
 
     return {
       version: 1,
       totalTicks: 0,
+      rngState: 1,
       quests: [],
+      unlocks: createInitialUnlocks(),
+      combatRecord: createInitialCombatRecord(),
+      achievements: createInitialAchievementState(),
+      shopStock: {},
+      npcRelationships: {},
+      dialogueFlags: [],
+      skillTrainingSessionsToday: {},
       pet: defaultPet,
       isInitialized: true,
       lastSaveTime: Date.now(),
@@ -88,10 +102,13 @@ describe("useGameNotifications", () => {
       lastWeeklyReset: Date.now(),
       player: {
         inventory: { items: [] },
+        storage: { items: [] },
         currency: { coins: 0 },
         currentLocationId: "home",
         skills: createInitialSkills(),
       },
+      benchedPets: [],
+      memorial: [],
       pendingEvents: [],
       pendingNotifications: [],
       ...overrides,
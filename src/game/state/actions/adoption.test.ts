@@ -0,0 +1,138 @@
+/**
+ * Tests for adoption state actions.
+ */
+
+import { expect, test } from "bun:test";
+import { MAX_ROSTER_SIZE } from "@/game/core/roster";
+import { AdoptionMessages } from "@/game/data/messages";
+import { SPECIES } from "@/game/data/species";
+import {
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { DeathCause } from "@/game/types/memorial";
+import { createInitialUnlocks } from "@/game/types/unlock";
+import { adoptPet } from "./adoption";
+
+test("adoptPet creates a new pet when there is none", () => {
+  const state = createTestGameState(null);
+  const result = adoptPet(state, "Sprout", SPECIES.FLORABIT.id);
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet?.identity.name).toBe("Sprout");
+  expect(result.state.pet?.identity.speciesId).toBe(SPECIES.FLORABIT.id);
+  expect(result.message).toContain("Sprout");
+});
+
+test("adoptPet gives the new pet the achievement max stat bonuses", () => {
+  const state = createTestGameState(null, {
+    achievements: {
+      ...createInitialAchievementState(),
+      unlocked: { well_fed: 1000 },
+    },
+  });
+
+  const pet = adoptPet(state, "Sprout", SPECIES.FLORABIT.id).state.pet;
+  const plainPet = adoptPet(
+    createTestGameState(null),
+    "Sprout",
+    SPECIES.FLORABIT.id,
+  ).state.pet;
+
+  expect(pet?.bonusMaxStats.satiety).toBe(10_000);
+  expect(pet?.careStats.satiety).toBe(
+    (plainPet?.careStats.satiety ?? 0) + 10_000,
+  );
+});
+
+test("adoptPet keeps inventory, currency, skills, quests and memorial", () => {
+  const state = createTestGameState(null, {
+    player: {
+      inventory: {
+        items: [
+          { itemId: "food_kibble", quantity: 3, currentDurability: null },
+        ],
+      },
+      currency: { coins: 120 },
+    },
+    memorial: [
+      {
+        petId: "old-pet",
+        name: "Old Pet",
+        speciesId: SPECIES.FLORABIT.id,
+        stage: "child",
+        ageTicks: 1000,
+        birthTime: 0,
+        deathTime: 30_000_000,
+        cause: DeathCause.Starvation,
+      },
+    ],
+  });
+  const result = adoptPet(state, "Sprout", SPECIES.FLORABIT.id);
+
+  expect(result.state.player).toEqual(state.player);
+  expect(result.state.quests).toEqual(state.quests);
+  expect(result.state.memorial).toEqual(state.memorial);
+});
+
+test("adoptPet benches the new pet when there is an active pet", () => {
+  const state = createTestGameState(createTestPet());
+  const result = adoptPet(state, "Sprout", SPECIES.FLORABIT.id);
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet).toBe(state.pet);
+  expect(result.state.benchedPets.map((p) => p.identity.name)).toEqual([
+    "Sprout",
+  ]);
+});
+
+test("adoptPet fails when the roster is full", () => {
+  const state = createTestGameState(createTestPet(), {
+    benchedPets: Array.from({ length: MAX_ROSTER_SIZE - 1 }, (_, i) =>
+      createTestPet({ identity: { id: `benched-${i}` } }),
+    ),
+  });
+  const result = adoptPet(state, "Sprout", SPECIES.FLORABIT.id);
+
+  expect(result.success).toBe(false);
+  expect(result.state).toBe(state);
+  expect(result.message).toBe(AdoptionMessages.rosterFull);
+});
+
+test("adoptPet only benches new pets at home", () => {
+  const state = createTestGameState(createTestPet(), {
+    player: { currentLocationId: "meadow" },
+  });
+  const result = adoptPet(state, "Sprout", SPECIES.FLORABIT.id);
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(AdoptionMessages.notAtHome);
+});
+
+test("adoptPet fails for an unknown species", () => {
+  const state = createTestGameState(null);
+  const result = adoptPet(state, "Sprout", "not_a_species");
+
+  expect(result.success).toBe(false);
+  expect(result.state.pet).toBeNull();
+  expect(result.message).toContain("not_a_species");
+});
+
+test("adoptPet fails for a species that has not been unlocked", () => {
+  const state = createTestGameState(null);
+  const result = adoptPet(state, "Reef", SPECIES.CORALITE.id);
+
+  expect(result.success).toBe(false);
+  expect(result.state).toBe(state);
+});
+
+test("adoptPet allows unlocked species", () => {
+  const state = createTestGameState(null, {
+    unlocks: { ...createInitialUnlocks(), species: [SPECIES.CORALITE.id] },
+  });
+  const result = adoptPet(state, "Reef", SPECIES.CORALITE.id);
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet?.identity.speciesId).toBe(SPECIES.CORALITE.id);
+});
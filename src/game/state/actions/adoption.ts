@@ -0,0 +1,94 @@
+/**
+ * Adoption state actions.
+ */
+
+import { getAchievementBonusMaxStats } from "@/game/core/achievements";
+import { isRosterFull } from "@/game/core/roster";
+import { getAvailableSpecies } from "@/game/core/unlocks";
+import { AdoptionMessages } from "@/game/data/messages";
+import { getSpeciesById } from "@/game/data/species";
+import { createNewPet } from "@/game/data/starting";
+import { DEFAULT_LOCATION_ID } from "@/game/types/common";
+import type { GameState } from "@/game/types/gameState";
+import type { Pet } from "@/game/types/pet";
+
+/**
+ * Result of an adoption action.
+ */
+export interface AdoptionActionResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Adopt a new pet.
+ * Without an active pet (a new game's first pet, or after the last pet has
+ * died) the new pet becomes active. Otherwise it joins the bench, which
+ * must happen at home and needs room on the roster.
+ * Inventory, currency, skills, quests, unlocks, achievements and the
+ * memorial carry over, and the new pet starts with the bonus max stats
+ * earned from achievements.
+ * Only starter species and unlocked species can be adopted.
+ */
+export function adoptPet(
+  state: GameState,
+  petName: string,
+  speciesId: string,
+): AdoptionActionResult {
+  if (state.pet && state.player.currentLocationId !== DEFAULT_LOCATION_ID) {
+    return {
+      success: false,
+      state,
+      message: AdoptionMessages.notAtHome,
+    };
+  }
+
+  if (isRosterFull(state)) {
+    return {
+      success: false,
+      state,
+      message: AdoptionMessages.rosterFull,
+    };
+  }
+
+  // Unknown species are reported by createNewPet below
+  const isLocked =
+    getSpeciesById(speciesId) !== undefined &&
+    !getAvailableSpecies(state.unlocks).some(
+      (species) => species.id === speciesId,
+    );
+  if (isLocked) {
+    return {
+      success: false,
+      state,
+      message: AdoptionMessages.speciesLocked,
+    };
+  }
+
+  let pet: Pet;
+  try {
+    pet = createNewPet(
+      petName,
+      speciesId,
+      getAchievementBonusMaxStats(state.achievements),
+    );
+  } catch (error) {
+    return {
+      success: false,
+      state,
+      message:
+        error instanceof Error
+          ? error.message
+          : AdoptionMessages.adoptionFailed,
+    };
+  }
+
+  return {
+    success: true,
+    state: state.pet
+      ? { ...state, benchedPets: [...state.benchedPets, pet] }
+      : { ...state, pet },
+    message: AdoptionMessages.adopted(petName),
+  };
+}
@@ -16,10 +16,13 @@ import { createNewPet } from "@/game/data/starting";
 import { createSleepingTestPet } from "@/game/testing/createTestPet";
 import { setupTimeFreezing } from "@/game/testing/time";
 import { CURRENT_SAVE_VERSION } from "@/game/types";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
 import type { GameState } from "@/game/types/gameState";
 import type { QuestProgress } from "@/game/types/quest";
 import { QuestState } from "@/game/types/quest";
 import { createInitialSkills } from "@/game/types/skill";
+import { createInitialUnlocks } from "@/game/types/unlock";
 import { cleanPet, feedPet, playWithPet, waterPet } from "./care";
 
 setupTimeFreezing();
@@ -40,6 +43,14 @@ function createTestState(quests: QuestProgress[] = []): GameState {
     lastDailyReset: Date.now(),
     lastWeeklyReset: Date.now(),
     totalTicks: 0,
+    rngState: 1,
+    unlocks: createInitialUnlocks(),
+    combatRecord: createInitialCombatRecord(),
+    achievements: createInitialAchievementState(),
+    shopStock: {},
+    npcRelationships: {},
+    dialogueFlags: [],
+    skillTrainingSessionsToday: {},
     pet,
     player: {
       inventory: {
@@ -62,12 +73,15 @@ function createTestState(quests: QuestProgress[] = []): GameState {
           { itemId: TOY_ITEMS.BALL.id, quantity: 1, currentDurability: 10 },
         ],
       },
+      storage: { items: [] },
       currency: { coins: 100 },
       currentLocationId: "home",
       skills: createInitialSkills(),
     },
     quests,
     isInitialized: true,
+    benchedPets: [],
+    memorial: [],
     pendingEvents: [],
     pendingNotifications: [],
   };
@@ -183,3 +197,18 @@ test("care actions do not update non-active quests", () => {
   // Progress should not change for completed quest
   expect(result.state.quests[0]?.objectiveProgress.feed_pet).toBe(1);
 });
+
+test("care actions emit a careAction event that counts toward achievements", () => {
+  const state = createTestState([]);
+
+  const result = feedPet(state, FOOD_ITEMS.KIBBLE.id);
+
+  expect(result.state.pendingEvents).toContainEqual(
+    expect.objectContaining({
+      type: "careAction",
+      action: "feed",
+      itemId: FOOD_ITEMS.KIBBLE.id,
+    }),
+  );
+  expect(result.state.achievements.unlocked.first_meal).toBeDefined();
+});
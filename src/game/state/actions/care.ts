@@ -2,6 +2,8 @@
  * Care state actions for feeding, watering, cleaning, and playing.
  */
 
+import { processAchievements } from "@/game/core/achievements";
+import { emitEvent } from "@/game/core/events";
 import {
   useCleaningItem,
   useDrinkItem,
@@ -9,6 +11,7 @@ import {
   useToyItem,
 } from "@/game/core/items";
 import { updateQuestProgress } from "@/game/core/quests/quests";
+import { type CareActionEvent, createEvent } from "@/game/types/event";
 import type { GameState } from "@/game/types/gameState";
 import { ObjectiveType } from "@/game/types/quest";
 
@@ -21,18 +24,39 @@ export interface CareActionResult {
   message: string;
 }
 
+/**
+ * Record a successful care action: count it for Care objectives, emit a
+ * careAction event and count that event toward achievements.
+ */
+function recordCareAction(
+  result: CareActionResult,
+  action: CareActionEvent["action"],
+  itemId: string,
+): CareActionResult {
+  const event = createEvent<CareActionEvent>({
+    type: "careAction",
+    action,
+    itemId,
+    petName: result.state.pet?.identity.name ?? "",
+    message: result.message,
+  });
+  const state = updateQuestProgress(result.state, ObjectiveType.Care, action);
+  return {
+    ...result,
+    state: processAchievements(
+      emitEvent(state, event),
+      [event],
+      event.timestamp,
+    ),
+  };
+}
+
 /**
  * Feed the pet with the specified food item.
  */
 export function feedPet(state: GameState, itemId: string): CareActionResult {
   const result = useFoodItem(state, itemId);
-  if (result.success) {
-    return {
-      ...result,
-      state: updateQuestProgress(result.state, ObjectiveType.Care, "feed"),
-    };
-  }
-  return result;
+  return result.success ? recordCareAction(result, "feed", itemId) : result;
 }
 
 /**
@@ -40,13 +64,7 @@ export function feedPet(state: GameState, itemId: string): CareActionResult {
  */
 export function waterPet(state: GameState, itemId: string): CareActionResult {
   const result = useDrinkItem(state, itemId);
-  if (result.success) {
-    return {
-      ...result,
-      state: updateQuestProgress(result.state, ObjectiveType.Care, "water"),
-    };
-  }
-  return result;
+  return result.success ? recordCareAction(result, "water", itemId) : result;
 }
 
 /**
@@ -54,13 +72,7 @@ export function waterPet(state: GameState, itemId: string): CareActionResult {
  */
 export function cleanPet(state: GameState, itemId: string): CareActionResult {
   const result = useCleaningItem(state, itemId);
-  if (result.success) {
-    return {
-      ...result,
-      state: updateQuestProgress(result.state, ObjectiveType.Care, "clean"),
-    };
-  }
-  return result;
+  return result.success ? recordCareAction(result, "clean", itemId) : result;
 }
 
 /**
@@ -71,11 +83,5 @@ export function playWithPet(
   itemId: string,
 ): CareActionResult {
   const result = useToyItem(state, itemId);
-  if (result.success) {
-    return {
-      ...result,
-      state: updateQuestProgress(result.state, ObjectiveType.Care, "play"),
-    };
-  }
-  return result;
+  return result.success ? recordCareAction(result, "play", itemId) : result;
 }
@@ -10,10 +10,14 @@ import {
   applyExplorationResults,
   cancelExploration,
   canStartExploration,
+  fleeEncounter,
   startExploration,
 } from "@/game/state/actions/exploration";
 import { createTestPet } from "@/game/testing/createTestPet";
-import type { ActiveExploration } from "@/game/types/activity";
+import type {
+  ActiveExploration,
+  PendingEncounter,
+} from "@/game/types/activity";
 import { type Tick, toMicro } from "@/game/types/common";
 import { ActivityState } from "@/game/types/constants";
 import { createInitialGameState, type GameState } from "@/game/types/gameState";
@@ -32,6 +36,22 @@ function createTestState(petOverrides?: Partial<Pet>): GameState {
   };
 }
 
+const pausedExploration: ActiveExploration = {
+  activityId: ActivityId.Foraging,
+  locationId: "meadow",
+  startTick: 0 as Tick,
+  durationTicks: 10 as Tick,
+  ticksRemaining: 5 as Tick,
+  energyCost: toMicro(15),
+};
+
+const pendingEncounter: PendingEncounter = {
+  speciesId: "florabit",
+  level: 2,
+  locationId: "meadow",
+  activityId: ActivityId.Foraging,
+};
+
 describe("canStartExploration", () => {
   test("returns false when no pet", () => {
     const state = { ...createInitialGameState(), pet: null };
@@ -159,6 +179,49 @@ describe("cancelExploration", () => {
     );
     expect(result.message).toContain("refunded");
   });
+
+  test("drops a pending wild encounter", () => {
+    const state: GameState = {
+      ...createTestState({
+        activityState: ActivityState.Exploring,
+        activeExploration: pausedExploration,
+      }),
+      pendingEncounter,
+    };
+
+    const result = cancelExploration(state);
+
+    expect(result.success).toBe(true);
+    expect(result.state.pendingEncounter).toBeUndefined();
+  });
+});
+
+describe("fleeEncounter", () => {
+  test("returns failure when there is no pending encounter", () => {
+    const result = fleeEncounter(createTestState());
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("No wild encounter to run away from.");
+  });
+
+  test("ends the exploration without refunding energy", () => {
+    const initialEnergy = toMicro(50);
+    const state: GameState = {
+      ...createTestState({
+        activityState: ActivityState.Exploring,
+        energyStats: { energy: initialEnergy },
+        activeExploration: pausedExploration,
+      }),
+      pendingEncounter,
+    };
+
+    const result = fleeEncounter(state);
+
+    expect(result.success).toBe(true);
+    expect(result.state.pendingEncounter).toBeUndefined();
+    expect(result.state.pet?.activityState).toBe(ActivityState.Idle);
+    expect(result.state.pet?.activeExploration).toBeUndefined();
+    expect(result.state.pet?.energyStats.energy).toBe(initialEnergy);
+  });
 });
 
 describe("applyExplorationResults", () => {
@@ -7,9 +7,11 @@ import {
   type CompleteExplorationResult,
   cancelExploration as cancelExplorationCore,
   canStartExplorationActivity,
+  resolveEncounterBattle,
   startExplorationActivity,
 } from "@/game/core/exploration/exploration";
 import { applyExplorationRewards } from "@/game/core/exploration/rewards";
+import { ExplorationMessages } from "@/game/data/messages";
 import type { ExplorationDrop } from "@/game/types/activity";
 import type { Tick } from "@/game/types/common";
 import type { GameState } from "@/game/types/gameState";
@@ -106,7 +108,8 @@ export function canStartExploration(
 
 /**
  * Cancel the current exploration session.
- * Energy is fully refunded as per the spec.
+ * Energy is fully refunded as per the spec, and any pending wild encounter
+ * is dropped.
  */
 export function cancelExploration(state: GameState): ExplorationActionResult {
   if (!state.pet) {
@@ -132,11 +135,36 @@ export function cancelExploration(state: GameState): ExplorationActionResult {
     state: {
       ...state,
       pet: result.pet,
+      pendingEncounter: undefined,
     },
     message: result.message,
   };
 }
 
+/**
+ * Run away from a pending wild encounter instead of fighting it.
+ * The interrupted exploration ends without rewards or an energy refund.
+ */
+export function fleeEncounter(state: GameState): ExplorationActionResult {
+  if (!state.pet || !state.pendingEncounter) {
+    return {
+      success: false,
+      state,
+      message: ExplorationMessages.noPendingEncounter,
+    };
+  }
+
+  return {
+    success: true,
+    state: {
+      ...state,
+      pet: resolveEncounterBattle(state.pet, false),
+      pendingEncounter: undefined,
+    },
+    message: ExplorationMessages.fledEncounter,
+  };
+}
+
 /**
  * Result of applying exploration results to game state.
  */
@@ -198,7 +226,7 @@ export function applyExplorationResults(
   return {
     success: true,
     state: rewardsResult.state,
-    message: result.message,
+    message: [result.message, ...rewardsResult.overflowNotes].join(" "),
     itemsFound: result.itemsFound,
     skillXpGains: result.skillXpGains,
     skillLevelUps: rewardsResult.skillLevelUps,
@@ -0,0 +1,60 @@
+/**
+ * Move management state actions.
+ */
+
+import {
+  equipMove as equipMoveCore,
+  unequipMove as unequipMoveCore,
+} from "@/game/core/moves";
+import { MoveMessages } from "@/game/data/messages";
+import type { GameState } from "@/game/types/gameState";
+
+/**
+ * Result of a move management action.
+ */
+export interface MoveActionResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Equip a learned move into one of the pet's move slots.
+ */
+export function equipMove(
+  state: GameState,
+  moveId: string,
+  slotIndex: number,
+): MoveActionResult {
+  if (!state.pet) {
+    return { success: false, state, message: MoveMessages.noPet };
+  }
+
+  const result = equipMoveCore(state.pet, moveId, slotIndex);
+
+  return {
+    success: result.success,
+    state: result.success ? { ...state, pet: result.pet } : state,
+    message: result.message,
+  };
+}
+
+/**
+ * Remove the move from one of the pet's move slots.
+ */
+export function unequipMove(
+  state: GameState,
+  slotIndex: number,
+): MoveActionResult {
+  if (!state.pet) {
+    return { success: false, state, message: MoveMessages.noPet };
+  }
+
+  const result = unequipMoveCore(state.pet, slotIndex);
+
+  return {
+    success: result.success,
+    state: result.success ? { ...state, pet: result.pet } : state,
+    message: result.message,
+  };
+}
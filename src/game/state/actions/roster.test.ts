@@ -0,0 +1,71 @@
+/**
+ * Tests for pet roster state actions.
+ */
+
+import { expect, test } from "bun:test";
+import { RosterMessages } from "@/game/data/messages";
+import {
+  createSleepingTestPet,
+  createTestGameState,
+  createTestPet,
+} from "@/game/testing/createTestPet";
+import { switchActivePet } from "./roster";
+
+const benched = createTestPet({ identity: { id: "benched", name: "Bench" } });
+
+test("switchActivePet swaps the active pet with a benched pet", () => {
+  const active = createTestPet();
+  const state = createTestGameState(active, { benchedPets: [benched] });
+
+  const result = switchActivePet(state, "benched");
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet).toBe(benched);
+  expect(result.state.benchedPets).toEqual([active]);
+  expect(result.message).toBe(RosterMessages.switched("Bench"));
+});
+
+test("switchActivePet picks a benched pet when there is no active pet", () => {
+  const state = createTestGameState(null, { benchedPets: [benched] });
+
+  const result = switchActivePet(state, "benched");
+
+  expect(result.state.pet).toBe(benched);
+  expect(result.state.benchedPets).toEqual([]);
+});
+
+test("switchActivePet only works at home", () => {
+  const state = createTestGameState(createTestPet(), {
+    benchedPets: [benched],
+    player: { currentLocationId: "meadow" },
+  });
+
+  const result = switchActivePet(state, "benched");
+
+  expect(result.success).toBe(false);
+  expect(result.state).toBe(state);
+  expect(result.message).toBe(RosterMessages.notAtHome);
+});
+
+test("switchActivePet fails for pets not on the bench", () => {
+  const state = createTestGameState(createTestPet(), {
+    benchedPets: [benched],
+  });
+
+  const result = switchActivePet(state, "unknown");
+
+  expect(result.success).toBe(false);
+  expect(result.message).toBe(RosterMessages.notOnRoster);
+});
+
+test("switchActivePet requires the active pet to be idle and awake", () => {
+  const state = createTestGameState(createSleepingTestPet(), {
+    benchedPets: [benched],
+  });
+
+  const result = switchActivePet(state, "benched");
+
+  expect(result.success).toBe(false);
+  expect(result.state).toBe(state);
+  expect(result.message).toBe(RosterMessages.activePetBusy("Test Pet"));
+});
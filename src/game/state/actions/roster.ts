@@ -0,0 +1,55 @@
+/**
+ * Pet roster state actions.
+ */
+
+import { RosterMessages } from "@/game/data/messages";
+import { DEFAULT_LOCATION_ID } from "@/game/types/common";
+import { ActivityState } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+
+/**
+ * Result of a roster action.
+ */
+export interface RosterActionResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Make a benched pet the active pet.
+ * Switching happens at home, and the current active pet must be idle and
+ * awake; it takes the new pet's place on the bench.
+ */
+export function switchActivePet(
+  state: GameState,
+  petId: string,
+): RosterActionResult {
+  if (state.player.currentLocationId !== DEFAULT_LOCATION_ID) {
+    return { success: false, state, message: RosterMessages.notAtHome };
+  }
+
+  const newPet = state.benchedPets.find((p) => p.identity.id === petId);
+  if (!newPet) {
+    return { success: false, state, message: RosterMessages.notOnRoster };
+  }
+
+  if (state.pet && state.pet.activityState !== ActivityState.Idle) {
+    return {
+      success: false,
+      state,
+      message: RosterMessages.activePetBusy(state.pet.identity.name),
+    };
+  }
+
+  const benchedPets = state.benchedPets.filter((p) => p !== newPet);
+  return {
+    success: true,
+    state: {
+      ...state,
+      pet: newPet,
+      benchedPets: state.pet ? [...benchedPets, state.pet] : benchedPets,
+    },
+    message: RosterMessages.switched(newPet.identity.name),
+  };
+}
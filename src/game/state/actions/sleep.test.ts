@@ -3,13 +3,19 @@
  */
 
 import { expect, test } from "bun:test";
+import { createDefaultPetEquipment } from "@/game/core/equipment";
+import { createDefaultPetMoves } from "@/game/core/moves";
+import { createDefaultPetProgression } from "@/game/core/petLevel";
 import { createDefaultBonusMaxStats } from "@/game/core/petStats";
 import { createDefaultBattleStats } from "@/game/testing/createTestPet";
 import { setupTimeFreezing } from "@/game/testing/time";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
 import { ActivityState, GrowthStage } from "@/game/types/constants";
 import type { GameState } from "@/game/types/gameState";
 import { createInitialSkills } from "@/game/types/skill";
 import { createDefaultResistances } from "@/game/types/stats";
+import { createInitialUnlocks } from "@/game/types/unlock";
 import { sleepPet, wakePet } from "./sleep";
 
 setupTimeFreezing();
@@ -21,6 +27,14 @@ function createTestGameState(isSleeping: boolean): GameState {
     lastDailyReset: Date.now(),
     lastWeeklyReset: Date.now(),
     totalTicks: 0,
+    rngState: 1,
+    unlocks: createInitialUnlocks(),
+    combatRecord: createInitialCombatRecord(),
+    achievements: createInitialAchievementState(),
+    shopStock: {},
+    npcRelationships: {},
+    dialogueFlags: [],
+    skillTrainingSessionsToday: {},
     pet: {
       identity: {
         id: "test-pet",
@@ -58,15 +72,21 @@ function createTestGameState(isSleeping: boolean): GameState {
         sleepTicksToday: 0,
       },
       activityState: isSleeping ? ActivityState.Sleeping : ActivityState.Idle,
+      moves: createDefaultPetMoves(),
+      equipment: createDefaultPetEquipment(),
+      progression: createDefaultPetProgression(),
     },
     player: {
       inventory: { items: [] },
+      storage: { items: [] },
       currency: { coins: 0 },
       currentLocationId: "home",
       skills: createInitialSkills(),
     },
     quests: [],
     isInitialized: true,
+    benchedPets: [],
+    memorial: [],
     pendingEvents: [],
     pendingNotifications: [],
   };
@@ -79,15 +99,26 @@ function createEmptyGameState(): GameState {
     lastDailyReset: Date.now(),
     lastWeeklyReset: Date.now(),
     totalTicks: 0,
+    rngState: 1,
+    unlocks: createInitialUnlocks(),
+    combatRecord: createInitialCombatRecord(),
+    achievements: createInitialAchievementState(),
+    shopStock: {},
+    npcRelationships: {},
+    dialogueFlags: [],
+    skillTrainingSessionsToday: {},
     pet: null,
     player: {
       inventory: { items: [] },
+      storage: { items: [] },
       currency: { coins: 0 },
       currentLocationId: "home",
       skills: createInitialSkills(),
     },
     quests: [],
     isInitialized: true,
+    benchedPets: [],
+    memorial: [],
     pendingEvents: [],
     pendingNotifications: [],
   };
@@ -139,6 +170,27 @@ test("wakePet succeeds when pet is sleeping", () => {
   expect(result.message).toBe("Pet is now awake.");
 });
 
+test("wakePet ends an inn stay early", () => {
+  const state = createTestGameState(true);
+  const pet = state.pet;
+  if (!pet) throw new Error("Missing pet");
+  const result = wakePet({
+    ...state,
+    pet: {
+      ...pet,
+      activeInnStay: {
+        stayId: "inn_night",
+        locationId: "willowbrook",
+        durationTicks: 960,
+        ticksRemaining: 500,
+      },
+    },
+  });
+
+  expect(result.success).toBe(true);
+  expect(result.state.pet?.activeInnStay).toBeUndefined();
+});
+
 test("wakePet fails when pet is already awake", () => {
   const state = createTestGameState(false);
   const result = wakePet(state);
@@ -64,7 +64,11 @@ export function wakePet(state: GameState): SleepActionResult {
       pet: {
         ...state.pet,
         sleep: result.sleep,
-        ...(result.success && { activityState: ActivityState.Idle }),
+        // Waking early ends any inn stay without a refund
+        ...(result.success && {
+          activityState: ActivityState.Idle,
+          activeInnStay: undefined,
+        }),
       },
     },
     message: result.message,
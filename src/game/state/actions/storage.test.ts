@@ -0,0 +1,117 @@
+/**
+ * Tests for storage state actions.
+ */
+
+import { expect, test } from "bun:test";
+import { CARRIED_INVENTORY_CAPACITY } from "@/game/core/inventory";
+import { STORAGE_CAPACITY } from "@/game/core/storage";
+import { FOOD_ITEMS, TOY_ITEMS } from "@/game/data/items";
+import { StorageMessages } from "@/game/data/messages";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import type { Inventory } from "@/game/types/gameState";
+import { depositItem, withdrawItem } from "./storage";
+
+function createKibble(quantity: number): Inventory {
+  return {
+    items: [
+      { itemId: FOOD_ITEMS.KIBBLE.id, quantity, currentDurability: null },
+    ],
+  };
+}
+
+function createFullInventory(capacity: number): Inventory {
+  return {
+    items: Array.from({ length: capacity }, () => ({
+      itemId: TOY_ITEMS.BALL.id,
+      quantity: 1,
+      currentDurability: 1,
+    })),
+  };
+}
+
+test("depositItem moves items from the bag into storage", () => {
+  const state = createTestGameState(undefined, {
+    player: { inventory: createKibble(5) },
+  });
+
+  const result = depositItem(state, FOOD_ITEMS.KIBBLE.id, 3);
+
+  expect(result.success).toBe(true);
+  expect(result.state.player.inventory).toEqual(createKibble(2));
+  expect(result.state.player.storage).toEqual(createKibble(3));
+  expect(result.message).toBe(
+    StorageMessages.deposited(3, FOOD_ITEMS.KIBBLE.name),
+  );
+});
+
+test("withdrawItem moves items from storage into the bag", () => {
+  const state = createTestGameState(undefined, {
+    player: { storage: createKibble(4) },
+  });
+
+  const result = withdrawItem(state, FOOD_ITEMS.KIBBLE.id, 4);
+
+  expect(result.success).toBe(true);
+  expect(result.state.player.inventory).toEqual(createKibble(4));
+  expect(result.state.player.storage.items).toEqual([]);
+  expect(result.message).toBe(
+    StorageMessages.withdrawn(4, FOOD_ITEMS.KIBBLE.name),
+  );
+});
+
+test("storage actions need a Storage facility", () => {
+  const state = createTestGameState(undefined, {
+    player: {
+      currentLocationId: "meadow",
+      inventory: createKibble(5),
+      storage: createKibble(5),
+    },
+  });
+
+  expect(depositItem(state, FOOD_ITEMS.KIBBLE.id).message).toBe(
+    StorageMessages.noStorage,
+  );
+  expect(withdrawItem(state, FOOD_ITEMS.KIBBLE.id).message).toBe(
+    StorageMessages.noStorage,
+  );
+});
+
+test("storage actions reject invalid quantities and missing items", () => {
+  const state = createTestGameState(undefined, {
+    player: { inventory: createKibble(2) },
+  });
+
+  expect(depositItem(state, FOOD_ITEMS.KIBBLE.id, 0).message).toBe(
+    StorageMessages.invalidQuantity,
+  );
+  expect(depositItem(state, FOOD_ITEMS.KIBBLE.id, 3).message).toBe(
+    StorageMessages.notEnoughItems,
+  );
+  expect(withdrawItem(state, FOOD_ITEMS.KIBBLE.id).message).toBe(
+    StorageMessages.notEnoughItems,
+  );
+});
+
+test("storage actions fail when the destination is full", () => {
+  const fullStorage = createTestGameState(undefined, {
+    player: {
+      inventory: createKibble(1),
+      storage: createFullInventory(STORAGE_CAPACITY),
+    },
+  });
+  const fullBag = createTestGameState(undefined, {
+    player: {
+      inventory: createFullInventory(CARRIED_INVENTORY_CAPACITY),
+      storage: createKibble(1),
+    },
+  });
+
+  const deposit = depositItem(fullStorage, FOOD_ITEMS.KIBBLE.id);
+  const withdraw = withdrawItem(fullBag, FOOD_ITEMS.KIBBLE.id);
+
+  expect(deposit.success).toBe(false);
+  expect(deposit.state).toBe(fullStorage);
+  expect(deposit.message).toBe(StorageMessages.storageFull);
+  expect(withdraw.success).toBe(false);
+  expect(withdraw.message).toBe(StorageMessages.inventoryFull);
+});
@@ -0,0 +1,112 @@
+/**
+ * Storage state actions for moving items between the bag and home storage.
+ */
+
+import { CARRIED_INVENTORY_CAPACITY, hasItem } from "@/game/core/inventory";
+import {
+  hasStorageAccess,
+  STORAGE_CAPACITY,
+  transferItem,
+} from "@/game/core/storage";
+import { getItemById } from "@/game/data/items";
+import { StorageMessages } from "@/game/data/messages";
+import type { GameState } from "@/game/types/gameState";
+
+/**
+ * Result of a storage action.
+ */
+export interface StorageActionResult {
+  success: boolean;
+  state: GameState;
+  message: string;
+}
+
+/**
+ * Check the shared preconditions for storage actions.
+ * Returns an error message, or null if the action can go ahead.
+ */
+function checkStorageAction(state: GameState, quantity: number): string | null {
+  if (!hasStorageAccess(state)) return StorageMessages.noStorage;
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    return StorageMessages.invalidQuantity;
+  }
+  return null;
+}
+
+/**
+ * Move items from the carried inventory into storage.
+ * Only possible at a location with a Storage facility.
+ */
+export function depositItem(
+  state: GameState,
+  itemId: string,
+  quantity = 1,
+): StorageActionResult {
+  const error = checkStorageAction(state, quantity);
+  if (error) return { success: false, state, message: error };
+  if (!hasItem(state.player.inventory, itemId, quantity)) {
+    return { success: false, state, message: StorageMessages.notEnoughItems };
+  }
+
+  const result = transferItem(
+    state.player.inventory,
+    state.player.storage,
+    itemId,
+    quantity,
+    STORAGE_CAPACITY,
+  );
+  if (!result) {
+    return { success: false, state, message: StorageMessages.storageFull };
+  }
+
+  return {
+    success: true,
+    state: {
+      ...state,
+      player: { ...state.player, inventory: result.from, storage: result.to },
+    },
+    message: StorageMessages.deposited(
+      quantity,
+      getItemById(itemId)?.name ?? itemId,
+    ),
+  };
+}
+
+/**
+ * Move items from storage into the carried inventory.
+ * Only possible at a location with a Storage facility.
+ */
+export function withdrawItem(
+  state: GameState,
+  itemId: string,
+  quantity = 1,
+): StorageActionResult {
+  const error = checkStorageAction(state, quantity);
+  if (error) return { success: false, state, message: error };
+  if (!hasItem(state.player.storage, itemId, quantity)) {
+    return { success: false, state, message: StorageMessages.notEnoughItems };
+  }
+
+  const result = transferItem(
+    state.player.storage,
+    state.player.inventory,
+    itemId,
+    quantity,
+    CARRIED_INVENTORY_CAPACITY,
+  );
+  if (!result) {
+    return { success: false, state, message: StorageMessages.inventoryFull };
+  }
+
+  return {
+    success: true,
+    state: {
+      ...state,
+      player: { ...state.player, inventory: result.to, storage: result.from },
+    },
+    message: StorageMessages.withdrawn(
+      quantity,
+      getItemById(itemId)?.name ?? itemId,
+    ),
+  };
+}
@@ -2,7 +2,7 @@
  * Travel state actions.
  */
 
-import { canTravel, travel as travelCore } from "@/game/core/travel";
+import { canTravel, travelTo } from "@/game/core/travel";
 import type { GameState } from "@/game/types/gameState";
 
 /**
@@ -15,13 +15,13 @@ export interface TravelActionResult {
 }
 
 /**
- * Travel to a new location.
+ * Travel to a new location, passing through any locations on the way.
  */
 export function travelToLocation(
   state: GameState,
   destinationId: string,
 ): TravelActionResult {
-  return travelCore(state, destinationId);
+  return travelTo(state, destinationId);
 }
 
 /**
@@ -30,11 +30,17 @@ export function travelToLocation(
 export function checkCanTravel(
   state: GameState,
   destinationId: string,
-): { canTravel: boolean; message: string; energyCost?: number } {
+): {
+  canTravel: boolean;
+  message: string;
+  energyCost?: number;
+  route?: string[];
+} {
   const result = canTravel(state, destinationId);
   return {
     canTravel: result.success,
     message: result.message,
     energyCost: result.energyCost,
+    route: result.route,
   };
 }
@@ -0,0 +1,300 @@
+/**
+ * Tests for save migrations.
+ */
+
+import { expect, test } from "bun:test";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
+import { CURRENT_SAVE_VERSION } from "@/game/types/gameState";
+import { createInitialUnlocks } from "@/game/types/unlock";
+import { migrateSave, SAVE_MIGRATIONS, type SaveMigration } from "./migrations";
+
+test("SAVE_MIGRATIONS covers every version up to the current one", () => {
+  for (let version = 1; version < CURRENT_SAVE_VERSION; version++) {
+    expect(SAVE_MIGRATIONS.some((m) => m.fromVersion === version)).toBe(true);
+  }
+});
+
+test("migrateSave leaves current saves unchanged", () => {
+  const save = { version: CURRENT_SAVE_VERSION, foo: "bar" };
+  const result = migrateSave(save);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data).toBe(save);
+    expect(result.migratedFrom).toBe(CURRENT_SAVE_VERSION);
+  }
+});
+
+test("migrateSave upgrades v1 saves with pet moves, equipment and memorial", () => {
+  const save = { version: 1, pet: { identity: { name: "Old" } } };
+  const result = migrateSave(save, SAVE_MIGRATIONS, 2);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.version).toBe(2);
+    expect(result.data.memorial).toEqual([]);
+    expect(result.data.pet).toEqual({
+      identity: { name: "Old" },
+      moves: { learned: [], equipped: [] },
+      equipment: { accessory: null, charm: null },
+    });
+    expect(result.migratedFrom).toBe(1);
+  }
+  // Input is not mutated
+  expect(save).toEqual({ version: 1, pet: { identity: { name: "Old" } } });
+});
+
+test("migrateSave keeps existing values and a null pet", () => {
+  const memorial = [{ petId: "pet_1" }];
+  const result = migrateSave(
+    { version: 1, pet: null, memorial },
+    SAVE_MIGRATIONS,
+    2,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.pet).toBeNull();
+    expect(result.data.memorial).toBe(memorial);
+  }
+});
+
+test("migrateSave upgrades v2 saves with game and battle rng states", () => {
+  const save = {
+    version: 2,
+    activeBattle: { enemySpeciesId: "x", battleState: { turn: 1 } },
+  };
+  const result = migrateSave(save, SAVE_MIGRATIONS, 3);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.version).toBe(3);
+    expect(typeof result.data.rngState).toBe("number");
+    const battle = result.data.activeBattle as {
+      battleState: { rngState: unknown };
+    };
+    expect(typeof battle.battleState.rngState).toBe("number");
+  }
+});
+
+test("migrateSave keeps an existing rng state and a missing battle", () => {
+  const result = migrateSave({ version: 2, rngState: 5 }, SAVE_MIGRATIONS, 3);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.rngState).toBe(5);
+    expect(result.data.activeBattle).toBeUndefined();
+  }
+});
+
+test("migrateSave upgrades v3 saves with pet progression", () => {
+  const result = migrateSave(
+    { version: 3, pet: { identity: { name: "Old" } } },
+    SAVE_MIGRATIONS,
+    4,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.version).toBe(4);
+    expect(result.data.pet).toEqual({
+      identity: { name: "Old" },
+      progression: { level: 1, currentXp: 0 },
+    });
+  }
+});
+
+test("migrateSave upgrades v4 saves with unlocks from completed quests", () => {
+  const result = migrateSave(
+    {
+      version: 4,
+      quests: [
+        { questId: "main_crystal_discovery", state: "completed" },
+        { questId: "main_rising_flames", state: "active" },
+      ],
+    },
+    SAVE_MIGRATIONS,
+    5,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.version).toBe(5);
+    expect(result.data.unlocks).toEqual({
+      location: [],
+      species: ["coralite"],
+      facility: [],
+      shop: [],
+      feature: [],
+    });
+  }
+});
+
+test("migrateSave upgrades v5 saves with an empty combat record", () => {
+  const result = migrateSave({ version: 5 }, SAVE_MIGRATIONS, 6);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.combatRecord).toEqual(createInitialCombatRecord());
+  }
+});
+
+test("migrateSave discovers hidden locations v6 saves already reached", () => {
+  const unlocks = { ...createInitialUnlocks(), location: ["secret_spot"] };
+  const result = migrateSave(
+    {
+      version: 6,
+      unlocks,
+      quests: [{ questId: "side_rare_herbs", state: "completed" }],
+    },
+    SAVE_MIGRATIONS,
+    7,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.unlocks).toEqual({
+      ...unlocks,
+      location: ["secret_spot", "mushroom_hollow"],
+    });
+  }
+});
+
+test("migrateSave discovers the hidden location a v6 save is standing in", () => {
+  const result = migrateSave(
+    {
+      version: 6,
+      unlocks: createInitialUnlocks(),
+      player: { currentLocationId: "mushroom_hollow" },
+      quests: [],
+    },
+    SAVE_MIGRATIONS,
+    7,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.unlocks).toEqual({
+      ...createInitialUnlocks(),
+      location: ["mushroom_hollow"],
+    });
+  }
+});
+
+test("migrateSave upgrades v7 single-pet saves with an empty bench", () => {
+  const pet = { identity: { id: "pet-1" } };
+  const result = migrateSave({ version: 7, pet }, SAVE_MIGRATIONS, 8);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.pet).toEqual(pet);
+    expect(result.data.benchedPets).toEqual([]);
+  }
+});
+
+test("migrateSave adds achievements to v8 saves", () => {
+  const result = migrateSave(
+    { version: 8, player: { currentLocationId: "willowbrook" } },
+    SAVE_MIGRATIONS,
+    9,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.achievements).toEqual({
+      progress: {},
+      unlocked: {},
+      visitedLocations: ["home", "willowbrook"],
+    });
+  }
+});
+
+test("migrateSave adds empty storage to v9 saves", () => {
+  const inventory = { items: [{ itemId: "food_kibble", quantity: 3 }] };
+  const result = migrateSave(
+    { version: 9, player: { inventory } },
+    SAVE_MIGRATIONS,
+    10,
+  );
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data.player).toEqual({ inventory, storage: { items: [] } });
+  }
+});
+
+test("migrateSave adds empty shop stock to v10 saves", () => {
+  const result = migrateSave({ version: 10 }, SAVE_MIGRATIONS, 11);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data).toEqual({ version: 11, shopStock: {} });
+  }
+});
+
+test("migrateSave adds empty NPC relationships and dialogue flags to v11 saves", () => {
+  const result = migrateSave({ version: 11 }, SAVE_MIGRATIONS, 12);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data).toEqual({
+      version: 12,
+      npcRelationships: {},
+      dialogueFlags: [],
+    });
+  }
+});
+
+test("migrateSave adds empty skill-training session counts to v12 saves", () => {
+  const result = migrateSave({ version: 12 }, SAVE_MIGRATIONS, 13);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data).toEqual({
+      version: 13,
+      skillTrainingSessionsToday: {},
+    });
+  }
+});
+
+test("migrateSave runs migrations in order", () => {
+  const migrations: SaveMigration[] = [
+    {
+      fromVersion: 2,
+      description: "Append b",
+      migrate: (save) => ({ ...save, steps: `${save.steps}b` }),
+    },
+    {
+      fromVersion: 1,
+      description: "Append a",
+      migrate: (save) => ({ ...save, steps: `${save.steps}a` }),
+    },
+  ];
+  const result = migrateSave({ version: 1, steps: "" }, migrations, 3);
+
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.data).toEqual({ version: 3, steps: "ab" });
+  }
+});
+
+test("migrateSave fails when a migration is missing", () => {
+  const result = migrateSave({ version: 1 }, [], 2);
+
+  expect(result.success).toBe(false);
+  if (!result.success) {
+    expect(result.error).toBe("No migration available from save version 1");
+  }
+});
+
+test("migrateSave fails for saves from a newer version", () => {
+  const result = migrateSave({ version: CURRENT_SAVE_VERSION + 1 });
+  expect(result.success).toBe(false);
+});
+
+test("migrateSave fails for saves without a valid version", () => {
+  expect(migrateSave({}).success).toBe(false);
+  expect(migrateSave({ version: "1" }).success).toBe(false);
+  expect(migrateSave({ version: 0 }).success).toBe(false);
+  expect(migrateSave({ version: 1.5 }).success).toBe(false);
+});
@@ -0,0 +1,366 @@
+/**
+ * Save migrations for upgrading older save data to the current version.
+ *
+ * Each migration upgrades a save from `fromVersion` to `fromVersion + 1`.
+ * Migrations run in order on raw parsed save data before validation, so
+ * they must tolerate missing or malformed fields (validation reports those).
+ */
+
+import { createDefaultPetEquipment } from "@/game/core/equipment";
+import { createDefaultPetMoves } from "@/game/core/moves";
+import { createDefaultPetProgression } from "@/game/core/petLevel";
+import { createRandomSeed } from "@/game/core/rng";
+import { getLocation } from "@/game/data/locations";
+import { getQuest } from "@/game/data/quests";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
+import { CURRENT_SAVE_VERSION } from "@/game/types/gameState";
+import { QuestState, RewardType } from "@/game/types/quest";
+import { createInitialUnlocks, type Unlocks } from "@/game/types/unlock";
+
+/**
+ * Raw save data as parsed from JSON.
+ */
+export type SaveData = Record<string, unknown>;
+
+/**
+ * A single save migration step.
+ */
+export interface SaveMigration {
+  /** Version this migration upgrades from (the result is fromVersion + 1) */
+  fromVersion: number;
+  /** Short description of what the migration changes */
+  description: string;
+  /** Upgrade the save data (must not mutate the input) */
+  migrate: (save: SaveData) => SaveData;
+}
+
+/**
+ * Result of migrating save data.
+ */
+export type MigrationResult =
+  | { success: true; data: SaveData; migratedFrom: number }
+  | { success: false; error: string };
+
+/**
+ * Check if a value is a non-null, non-array object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * v1 → v2: pets gained movesets and equipment, and the game state gained
+ * the memorial of pets that have passed away.
+ */
+function migrateV1ToV2(save: SaveData): SaveData {
+  const pet = isRecord(save.pet)
+    ? {
+        ...save.pet,
+        moves: save.pet.moves ?? createDefaultPetMoves(),
+        equipment: save.pet.equipment ?? createDefaultPetEquipment(),
+      }
+    : save.pet;
+
+  return {
+    ...save,
+    pet,
+    memorial: save.memorial ?? [],
+  };
+}
+
+/**
+ * v2 → v3: random decisions draw from a seeded rng stored in the game state
+ * and in each active battle.
+ */
+function migrateV2ToV3(save: SaveData): SaveData {
+  const battle = save.activeBattle;
+  const activeBattle =
+    isRecord(battle) && isRecord(battle.battleState)
+      ? {
+          ...battle,
+          battleState: {
+            ...battle.battleState,
+            rngState: battle.battleState.rngState ?? createRandomSeed(),
+          },
+        }
+      : battle;
+
+  return {
+    ...save,
+    rngState: save.rngState ?? createRandomSeed(),
+    activeBattle,
+  };
+}
+
+/**
+ * v3 → v4: pets gained experience and levels.
+ */
+function migrateV3ToV4(save: SaveData): SaveData {
+  const pet = isRecord(save.pet)
+    ? {
+        ...save.pet,
+        progression: save.pet.progression ?? createDefaultPetProgression(),
+      }
+    : save.pet;
+
+  return { ...save, pet };
+}
+
+/**
+ * Collect the unlock rewards of every completed quest in the save.
+ */
+function collectCompletedQuestUnlocks(save: SaveData): Unlocks {
+  const unlocks = createInitialUnlocks();
+  const quests = Array.isArray(save.quests) ? save.quests : [];
+
+  for (const progress of quests) {
+    if (!isRecord(progress) || progress.state !== QuestState.Completed) {
+      continue;
+    }
+    const quest =
+      typeof progress.questId === "string"
+        ? getQuest(progress.questId)
+        : undefined;
+    for (const reward of quest?.rewards ?? []) {
+      if (
+        reward.type === RewardType.Unlock &&
+        reward.unlockType &&
+        !unlocks[reward.unlockType].includes(reward.target)
+      ) {
+        unlocks[reward.unlockType].push(reward.target);
+      }
+    }
+  }
+
+  return unlocks;
+}
+
+/**
+ * v4 → v5: the game state gained an unlock registry. Unlock rewards from
+ * quests completed before the registry existed are granted retroactively.
+ */
+function migrateV4ToV5(save: SaveData): SaveData {
+  return {
+    ...save,
+    unlocks: save.unlocks ?? collectCompletedQuestUnlocks(save),
+  };
+}
+
+/**
+ * v5 → v6: the game state gained a combat record.
+ */
+function migrateV5ToV6(save: SaveData): SaveData {
+  return {
+    ...save,
+    combatRecord: save.combatRecord ?? createInitialCombatRecord(),
+  };
+}
+
+/**
+ * v6 → v7: some locations became hidden until discovered. Hidden locations
+ * revealed by quests the save already completed, or where the player is
+ * standing, are discovered so they stay on the map.
+ */
+function migrateV6ToV7(save: SaveData): SaveData {
+  if (!isRecord(save.unlocks) || !Array.isArray(save.unlocks.location)) {
+    return save;
+  }
+
+  const discovered = new Set<unknown>(save.unlocks.location);
+  for (const id of collectCompletedQuestUnlocks(save).location) {
+    discovered.add(id);
+  }
+  if (
+    isRecord(save.player) &&
+    typeof save.player.currentLocationId === "string"
+  ) {
+    const current = getLocation(save.player.currentLocationId);
+    if (current?.requirements?.discovered) {
+      discovered.add(current.id);
+    }
+  }
+
+  return { ...save, unlocks: { ...save.unlocks, location: [...discovered] } };
+}
+
+/**
+ * v7 → v8: the single pet became a roster with one active pet. The existing
+ * pet stays active and the bench starts empty.
+ */
+function migrateV7ToV8(save: SaveData): SaveData {
+  return { ...save, benchedPets: save.benchedPets ?? [] };
+}
+
+/**
+ * v8 → v9: added achievements. Only the current location counts as
+ * visited; achievements checked against state (battles won, skill tiers,
+ * pet levels) unlock on the first tick after loading.
+ */
+function migrateV8ToV9(save: SaveData): SaveData {
+  if (save.achievements !== undefined) return save;
+
+  const achievements = createInitialAchievementState();
+  const currentLocationId = isRecord(save.player)
+    ? save.player.currentLocationId
+    : undefined;
+  if (
+    typeof currentLocationId === "string" &&
+    !achievements.visitedLocations.includes(currentLocationId)
+  ) {
+    achievements.visitedLocations.push(currentLocationId);
+  }
+  return { ...save, achievements };
+}
+
+/**
+ * v9 → v10: added home storage. Storage starts empty; a carried inventory
+ * over the new capacity keeps its stacks but cannot gain new ones.
+ */
+function migrateV9ToV10(save: SaveData): SaveData {
+  if (!isRecord(save.player) || save.player.storage !== undefined) {
+    return save;
+  }
+  return { ...save, player: { ...save.player, storage: { items: [] } } };
+}
+
+/**
+ * v10 → v11: added shop stock. Shops start fully stocked; rotating items
+ * first appear at the next daily restock.
+ */
+function migrateV10ToV11(save: SaveData): SaveData {
+  if (save.shopStock !== undefined) {
+    return save;
+  }
+  return { ...save, shopStock: {} };
+}
+
+/**
+ * v11 → v12: added NPC relationships and dialogue flags.
+ */
+function migrateV11ToV12(save: SaveData): SaveData {
+  return {
+    ...save,
+    npcRelationships: save.npcRelationships ?? {},
+    dialogueFlags: save.dialogueFlags ?? [],
+  };
+}
+
+/**
+ * v12 → v13: added skill training at trainers. No sessions have been
+ * started today.
+ */
+function migrateV12ToV13(save: SaveData): SaveData {
+  if (save.skillTrainingSessionsToday !== undefined) {
+    return save;
+  }
+  return { ...save, skillTrainingSessionsToday: {} };
+}
+
+/**
+ * Registered migrations, ordered by fromVersion.
+ * Add a new entry (and bump CURRENT_SAVE_VERSION) whenever saved state changes shape.
+ */
+export const SAVE_MIGRATIONS: readonly SaveMigration[] = [
+  {
+    fromVersion: 1,
+    description: "Add pet moves, pet equipment and the memorial",
+    migrate: migrateV1ToV2,
+  },
+  {
+    fromVersion: 2,
+    description: "Add the game and battle rng states",
+    migrate: migrateV2ToV3,
+  },
+  {
+    fromVersion: 3,
+    description: "Add pet experience and levels",
+    migrate: migrateV3ToV4,
+  },
+  {
+    fromVersion: 4,
+    description: "Add the unlock registry",
+    migrate: migrateV4ToV5,
+  },
+  {
+    fromVersion: 5,
+    description: "Add the combat record",
+    migrate: migrateV5ToV6,
+  },
+  {
+    fromVersion: 6,
+    description: "Discover hidden locations the save has already reached",
+    migrate: migrateV6ToV7,
+  },
+  {
+    fromVersion: 7,
+    description: "Add the pet roster bench",
+    migrate: migrateV7ToV8,
+  },
+  {
+    fromVersion: 8,
+    description: "Add achievements",
+    migrate: migrateV8ToV9,
+  },
+  {
+    fromVersion: 9,
+    description: "Add home storage",
+    migrate: migrateV9ToV10,
+  },
+  {
+    fromVersion: 10,
+    description: "Add shop stock",
+    migrate: migrateV10ToV11,
+  },
+  {
+    fromVersion: 11,
+    description: "Add NPC relationships and dialogue flags",
+    migrate: migrateV11ToV12,
+  },
+  {
+    fromVersion: 12,
+    description: "Add daily skill-training session counts",
+    migrate: migrateV12ToV13,
+  },
+];
+
+/**
+ * Run all migrations needed to bring save data up to the target version.
+ * Fails for saves without a valid version, saves from a newer version,
+ * and gaps in the migration registry.
+ */
+export function migrateSave(
+  save: SaveData,
+  migrations: readonly SaveMigration[] = SAVE_MIGRATIONS,
+  targetVersion: number = CURRENT_SAVE_VERSION,
+): MigrationResult {
+  const migratedFrom = save.version;
+  if (
+    typeof migratedFrom !== "number" ||
+    !Number.isInteger(migratedFrom) ||
+    migratedFrom < 1
+  ) {
+    return { success: false, error: "Save data has no valid version" };
+  }
+
+  if (migratedFrom > targetVersion) {
+    return {
+      success: false,
+      error: `Save version ${migratedFrom} is newer than the supported version ${targetVersion}`,
+    };
+  }
+
+  let data = save;
+  for (let version = migratedFrom; version < targetVersion; version++) {
+    const migration = migrations.find((m) => m.fromVersion === version);
+    if (!migration) {
+      return {
+        success: false,
+        error: `No migration available from save version ${version}`,
+      };
+    }
+    data = { ...migration.migrate(data), version: version + 1 };
+  }
+
+  return { success: true, data, migratedFrom };
+}
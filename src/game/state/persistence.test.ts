@@ -10,8 +10,11 @@ import {
   setSystemTime,
   test,
 } from "bun:test";
+import { initializeBattle } from "@/game/core/battle/battle";
+import { createTestCombatant } from "@/game/testing/createTestCombatant";
 import { createTestGameState } from "@/game/testing/createTestPet";
 import { FROZEN_TIME } from "@/game/testing/time";
+import { CURRENT_SAVE_VERSION } from "@/game/types/gameState";
 import {
   deleteSave,
   exportSave,
@@ -132,12 +135,29 @@ describe("validateGameState", () => {
       activeBattle: {
         enemySpeciesId: "enemy_1",
         enemyLevel: 5,
-        battleState: { turn: 1 },
+        battleState: initializeBattle(
+          createTestCombatant(),
+          createTestCombatant({ name: "Enemy", isPlayer: false }),
+          1,
+        ),
       },
     };
     expect(validateGameState(stateWithBattle)).toBe(true);
   });
 
+  test("returns false for incomplete battle state", () => {
+    const state = createTestGameState();
+    const invalid = {
+      ...state,
+      activeBattle: {
+        enemySpeciesId: "enemy_1",
+        enemyLevel: 5,
+        battleState: { turn: 1 },
+      },
+    };
+    expect(validateGameState(invalid)).toBe(false);
+  });
+
   test("returns false for invalid activeBattle structure", () => {
     const state = createTestGameState();
     const invalidMissingFields = { ...state, activeBattle: {} };
@@ -208,6 +228,95 @@ describe("saveGame and loadGame", () => {
     }
   });
 
+  test("loadGame reports the path of an invalid value", () => {
+    const state = createTestGameState();
+    const invalid = {
+      ...state,
+      player: {
+        ...state.player,
+        inventory: {
+          items: [
+            {
+              itemId: "food_kibble",
+              quantity: "many",
+              currentDurability: null,
+            },
+          ],
+        },
+      },
+    };
+    mockLocalStorage.setItem("digital_pets_save", JSON.stringify(invalid));
+
+    const loaded = loadGame();
+    expect(loaded.success).toBe(false);
+    if (!loaded.success) {
+      expect(loaded.error).toBe(
+        'Invalid save data at "player.inventory.items[0].quantity": expected number',
+      );
+      expect(loaded.canRepair).toBe(true);
+    }
+  });
+
+  test("loadGame repairs invalid values when requested", () => {
+    const state = createTestGameState();
+    const invalid = { ...state, pet: { ...state.pet, sleep: null } };
+    mockLocalStorage.setItem("digital_pets_save", JSON.stringify(invalid));
+
+    const loaded = loadGame({ repair: true });
+    expect(loaded.success).toBe(true);
+    if (loaded.success) {
+      expect(loaded.state.pet?.sleep.isSleeping).toBe(false);
+      expect(loaded.repairedPaths).toEqual(["pet.sleep"]);
+    }
+  });
+
+  test("loadGame cannot repair values without defaults", () => {
+    const state = createTestGameState();
+    const invalid = { ...state, player: { ...state.player, currency: null } };
+    mockLocalStorage.setItem("digital_pets_save", JSON.stringify(invalid));
+
+    const loaded = loadGame({ repair: true });
+    expect(loaded.success).toBe(false);
+    if (!loaded.success) {
+      expect(loaded.canRepair).toBe(false);
+    }
+  });
+
+  test("loadGame migrates version 1 saves", () => {
+    const state = createTestGameState();
+    const { memorial: _memorial, ...v1State } = {
+      ...state,
+      version: 1,
+      pet: { ...state.pet, moves: undefined, equipment: undefined },
+    };
+    mockLocalStorage.setItem("digital_pets_save", JSON.stringify(v1State));
+
+    const loaded = loadGame();
+    expect(loaded.success).toBe(true);
+    if (loaded.success) {
+      expect(loaded.state.version).toBe(CURRENT_SAVE_VERSION);
+      expect(loaded.state.memorial).toEqual([]);
+      expect(loaded.state.pet?.moves).toEqual({ learned: [], equipped: [] });
+      expect(loaded.state.pet?.equipment).toEqual({
+        accessory: null,
+        charm: null,
+      });
+    }
+  });
+
+  test("loadGame fails for saves from a newer version", () => {
+    const state = createTestGameState(undefined, {
+      version: CURRENT_SAVE_VERSION + 1,
+    });
+    saveGame(state);
+
+    const loaded = loadGame();
+    expect(loaded.success).toBe(false);
+    if (!loaded.success) {
+      expect(loaded.error).toContain("newer than the supported version");
+    }
+  });
+
   test("saveGame clears pendingEvents before saving", () => {
     const state = createTestGameState();
     state.pendingEvents = [
@@ -303,6 +412,22 @@ describe("exportSave and importSave", () => {
     }
   });
 
+  test("import with repairs stores the repaired save", () => {
+    const state = createTestGameState();
+    const invalid = { ...state, pendingNotifications: "none" };
+
+    const rejected = importSave(JSON.stringify(invalid));
+    expect(rejected.success).toBe(false);
+    expect(hasSave()).toBe(false);
+
+    const result = importSave(JSON.stringify(invalid), { repair: true });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.state.pendingNotifications).toEqual([]);
+    }
+    expect(loadGame().success).toBe(true);
+  });
+
   test("import/export round-trip preserves state", () => {
     const state = createTestGameState();
     saveGame(state);
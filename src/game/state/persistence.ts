@@ -2,92 +2,104 @@
  * Persistence module for save/load game state to localStorage.
  */
 
+import { createInitialGameState, type GameState } from "@/game/types";
+import { migrateSave } from "./migrations";
 import {
-  CURRENT_SAVE_VERSION,
-  createInitialGameState,
-  type GameState,
-} from "@/game/types";
+  repairSaveData,
+  type SaveValidationIssue,
+  validateSaveData,
+} from "./saveValidation";
 
 const STORAGE_KEY = "digital_pets_save";
 
 /**
  * Validate that an unknown value is a valid GameState structure.
- * Performs runtime checks on required fields and types.
+ * Checks every field of the save, including nested pet, quest, inventory
+ * and battle data. Use validateSaveData to get the failing paths.
  */
 export function validateGameState(value: unknown): value is GameState {
-  if (typeof value !== "object" || value === null) {
-    return false;
-  }
+  return validateSaveData(value).length === 0;
+}
 
-  const obj = value as Record<string, unknown>;
-
-  // Check required top-level fields exist with correct types
-  if (typeof obj.version !== "number") return false;
-  if (typeof obj.lastSaveTime !== "number") return false;
-  if (typeof obj.totalTicks !== "number") return false;
-  if (typeof obj.isInitialized !== "boolean") return false;
-  if (typeof obj.lastDailyReset !== "number") return false;
-  if (typeof obj.lastWeeklyReset !== "number") return false;
-
-  // Pet can be null or an object with required structure
-  if (obj.pet !== null) {
-    if (typeof obj.pet !== "object") return false;
-    const pet = obj.pet as Record<string, unknown>;
-    if (typeof pet.identity !== "object" || pet.identity === null) return false;
-    if (typeof pet.growth !== "object" || pet.growth === null) return false;
-    if (typeof pet.careStats !== "object" || pet.careStats === null)
-      return false;
-    if (typeof pet.energyStats !== "object" || pet.energyStats === null)
-      return false;
-  }
+/**
+ * Options for loading or importing a save.
+ */
+export interface LoadOptions {
+  /** Replace invalid values with defaults instead of failing */
+  repair?: boolean;
+}
 
-  // Player state must exist with required structure
-  if (typeof obj.player !== "object" || obj.player === null) return false;
-  const player = obj.player as Record<string, unknown>;
-  if (typeof player.inventory !== "object" || player.inventory === null)
-    return false;
-  const inventory = player.inventory as Record<string, unknown>;
-  if (!Array.isArray(inventory.items)) return false;
-  if (typeof player.currency !== "object" || player.currency === null)
-    return false;
-  const currency = player.currency as Record<string, unknown>;
-  if (typeof currency.coins !== "number") return false;
-  if (typeof player.currentLocationId !== "string") return false;
-  if (typeof player.skills !== "object" || player.skills === null) return false;
+/**
+ * Result of a load operation.
+ * Failures caused by invalid values report every issue and whether the
+ * save can be loaded with repairs.
+ */
+export type LoadResult =
+  | { success: true; state: GameState; repairedPaths?: string[] }
+  | {
+      success: false;
+      error: string;
+      issues?: SaveValidationIssue[];
+      canRepair?: boolean;
+    };
 
-  // Quests must be an array
-  if (!Array.isArray(obj.quests)) return false;
+/**
+ * Format the error message for a save that failed validation.
+ */
+function formatValidationError(issues: SaveValidationIssue[]): string {
+  const [first] = issues;
+  if (!first) return "Invalid save data";
+  const location = first.path ? ` at "${first.path}"` : "";
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+  return `Invalid save data${location}: expected ${first.expected}${more}`;
+}
 
-  // pendingEvents must be an array (or undefined, will be initialized)
-  if (obj.pendingEvents !== undefined && !Array.isArray(obj.pendingEvents)) {
-    return false;
+/**
+ * Migrate, validate and optionally repair parsed save data.
+ * Clears transient pendingEvents (not persisted).
+ */
+function processSaveData(parsed: unknown, options: LoadOptions): LoadResult {
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { success: false, error: "Invalid save data: expected an object" };
   }
 
-  // pendingNotifications must be an array
-  if (!Array.isArray(obj.pendingNotifications)) {
-    return false;
+  const migration = migrateSave(parsed as Record<string, unknown>);
+  if (!migration.success) {
+    return { success: false, error: `Invalid save data: ${migration.error}` };
   }
 
-  // activeBattle is optional but must have correct structure if present
-  if (obj.activeBattle !== undefined) {
-    if (typeof obj.activeBattle !== "object" || obj.activeBattle === null)
-      return false;
-    const battle = obj.activeBattle as Record<string, unknown>;
-    if (typeof battle.enemySpeciesId !== "string") return false;
-    if (typeof battle.enemyLevel !== "number") return false;
-    if (typeof battle.battleState !== "object" || battle.battleState === null)
-      return false;
+  const issues = validateSaveData(migration.data);
+  if (issues.length === 0) {
+    const state = migration.data as unknown as GameState;
+    return { success: true, state: { ...state, pendingEvents: [] } };
   }
 
-  return true;
-}
+  const repair = repairSaveData(migration.data);
+  if (!repair.success) {
+    return {
+      success: false,
+      error: formatValidationError(issues),
+      issues,
+      canRepair: false,
+    };
+  }
 
-/**
- * Result of a load operation.
- */
-export type LoadResult =
-  | { success: true; state: GameState }
-  | { success: false; error: string };
+  if (!options.repair) {
+    return {
+      success: false,
+      error: formatValidationError(issues),
+      issues,
+      canRepair: true,
+    };
+  }
+
+  console.warn("Repaired save data at:", repair.repairedPaths.join(", "));
+  return {
+    success: true,
+    state: { ...repair.state, pendingEvents: [] },
+    repairedPaths: repair.repairedPaths,
+  };
+}
 
 /**
  * Save game state to localStorage.
@@ -113,9 +125,10 @@ export function saveGame(state: GameState): boolean {
 /**
  * Load game state from localStorage.
  * Returns initial state if no save exists.
- * Initializes pendingEvents to empty array (not persisted).
+ * Older saves are migrated to the current version, then validated.
+ * With `repair`, invalid values are replaced with defaults where possible.
  */
-export function loadGame(): LoadResult {
+export function loadGame(options: LoadOptions = {}): LoadResult {
   try {
     const serialized = localStorage.getItem(STORAGE_KEY);
 
@@ -124,30 +137,7 @@ export function loadGame(): LoadResult {
     }
 
     const parsed: unknown = JSON.parse(serialized);
-
-    // Validate the parsed data structure
-    if (!validateGameState(parsed)) {
-      return {
-        success: false,
-        error: "Invalid save data structure",
-      };
-    }
-
-    // Version check for future migrations
-    if (parsed.version !== CURRENT_SAVE_VERSION) {
-      // In the future, handle migrations here
-      console.warn(
-        `Save version mismatch: ${parsed.version} vs ${CURRENT_SAVE_VERSION}`,
-      );
-    }
-
-    // Ensure pendingEvents is initialized (not persisted)
-    const stateWithEvents: GameState = {
-      ...parsed,
-      pendingEvents: [],
-    };
-
-    return { success: true, state: stateWithEvents };
+    return processSaveData(parsed, options);
   } catch (error) {
     console.error("Failed to load game:", error);
     return {
@@ -191,26 +181,22 @@ export function exportSave(): string | null {
 
 /**
  * Import save data from a JSON string.
+ * The save is migrated and validated like loadGame, then stored.
  */
-export function importSave(data: string): LoadResult {
+export function importSave(
+  data: string,
+  options: LoadOptions = {},
+): LoadResult {
   try {
     const parsed: unknown = JSON.parse(data);
 
-    // Validate the parsed data structure
-    if (!validateGameState(parsed)) {
-      return { success: false, error: "Invalid save data structure" };
+    // Keeps pendingNotifications (user-facing, must persist)
+    const result = processSaveData(parsed, options);
+    if (result.success) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(result.state));
     }
 
-    // Create a clean state object to save, clearing transient pendingEvents
-    // but keeping pendingNotifications (user-facing, must persist)
-    const cleanState: GameState = {
-      ...parsed,
-      pendingEvents: [],
-    };
-
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(cleanState));
-
-    return { success: true, state: cleanState };
+    return result;
   } catch (error) {
     return {
       success: false,
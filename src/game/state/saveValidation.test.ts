@@ -0,0 +1,215 @@
+/**
+ * Tests for save data validation and repair.
+ */
+
+import { expect, test } from "bun:test";
+import { initializeBattle } from "@/game/core/battle/battle";
+import { createTestCombatant } from "@/game/testing/createTestCombatant";
+import { createTestGameState } from "@/game/testing/createTestPet";
+import { QuestState } from "@/game/types/quest";
+import { SkillType } from "@/game/types/skill";
+import {
+  formatSaveValidationIssue,
+  repairSaveData,
+  validateSaveData,
+} from "./saveValidation";
+
+function createBattleState() {
+  return initializeBattle(
+    createTestCombatant(),
+    createTestCombatant({ name: "Enemy", isPlayer: false }),
+    1,
+  );
+}
+
+test("validateSaveData accepts a complete game state", () => {
+  const state = createTestGameState(undefined, {
+    quests: [
+      {
+        questId: "quest_1",
+        state: QuestState.Active,
+        objectiveProgress: { obj_1: 2 },
+        startedAt: Date.now(),
+      },
+    ],
+    activeBattle: {
+      enemySpeciesId: "florabit",
+      enemyLevel: 3,
+      battleState: createBattleState(),
+    },
+  });
+
+  expect(validateSaveData(state)).toEqual([]);
+});
+
+test("validateSaveData accepts a game state without a pet", () => {
+  expect(validateSaveData(createTestGameState(null))).toEqual([]);
+});
+
+test("validateSaveData reports the path of nested pet values", () => {
+  const state = createTestGameState();
+  const invalid = {
+    ...state,
+    pet: { ...state.pet, sleep: { ...state.pet?.sleep, isSleeping: "no" } },
+  };
+
+  expect(validateSaveData(invalid)).toEqual([
+    { path: "pet.sleep.isSleeping", expected: "boolean" },
+  ]);
+});
+
+test("validateSaveData reports array indices", () => {
+  const state = createTestGameState(undefined, {
+    player: {
+      inventory: {
+        items: [
+          { itemId: "food_kibble", quantity: 1, currentDurability: null },
+          { itemId: 5, quantity: 1, currentDurability: null },
+        ],
+      },
+    },
+  } as never);
+
+  expect(validateSaveData(state)).toEqual([
+    { path: "player.inventory.items[1].itemId", expected: "string" },
+  ]);
+});
+
+test("validateSaveData reports invalid enum values", () => {
+  const state = createTestGameState(undefined, {
+    quests: [{ questId: "quest_1", state: "finished", objectiveProgress: {} }],
+  } as never);
+
+  const [issue] = validateSaveData(state);
+  expect(issue?.path).toBe("quests[0].state");
+  expect(issue?.expected).toContain('"completed"');
+});
+
+test("validateSaveData reports incomplete battle state", () => {
+  const battleState = createBattleState();
+  const state = createTestGameState(undefined, {
+    activeBattle: {
+      enemySpeciesId: "florabit",
+      enemyLevel: 3,
+      battleState: {
+        ...battleState,
+        enemy: { ...battleState.enemy, derivedStats: undefined },
+      },
+    },
+  } as never);
+
+  expect(validateSaveData(state)).toEqual([
+    { path: "activeBattle.battleState.enemy.derivedStats", expected: "object" },
+  ]);
+});
+
+test("validateSaveData rejects non-finite numbers and non-objects", () => {
+  const state = createTestGameState();
+  expect(validateSaveData({ ...state, totalTicks: null })).toEqual([
+    { path: "totalTicks", expected: "number" },
+  ]);
+  expect(validateSaveData("save")).toEqual([{ path: "", expected: "object" }]);
+});
+
+test("repairSaveData replaces invalid values with defaults", () => {
+  const state = createTestGameState();
+  const invalid = {
+    ...state,
+    pet: { ...state.pet, moves: "none", activityState: "dancing" },
+    player: {
+      ...state.player,
+      skills: { ...state.player.skills, [SkillType.Crafting]: null },
+    },
+  };
+
+  const result = repairSaveData(invalid);
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.state.pet?.moves).toEqual({ learned: [], equipped: [] });
+    expect(result.state.pet?.activityState).toBe("idle");
+    expect(result.state.player.skills[SkillType.Crafting]).toEqual({
+      type: SkillType.Crafting,
+      level: 1,
+      currentXp: 0,
+    });
+    expect(result.repairedPaths).toEqual([
+      "pet.activityState",
+      "pet.moves",
+      `player.skills.${SkillType.Crafting}`,
+    ]);
+    expect(validateSaveData(result.state)).toEqual([]);
+  }
+});
+
+test("repairSaveData drops invalid array entries and optional fields", () => {
+  const state = createTestGameState(undefined, {
+    player: {
+      inventory: {
+        items: [
+          { itemId: "food_kibble", quantity: 2, currentDurability: null },
+          { itemId: "food_kibble" },
+        ],
+      },
+    },
+    activeBattle: { enemySpeciesId: "florabit" },
+  } as never);
+
+  const result = repairSaveData(state);
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(result.state.player.inventory.items).toEqual([
+      { itemId: "food_kibble", quantity: 2, currentDurability: null },
+    ]);
+    expect(result.state.activeBattle).toBeUndefined();
+    expect("activeBattle" in result.state).toBe(false);
+    expect(result.repairedPaths).toEqual([
+      "player.inventory.items[1]",
+      "activeBattle",
+    ]);
+  }
+});
+
+test("repairSaveData fills a missing inventory item durability", () => {
+  const state = createTestGameState(undefined, {
+    player: { inventory: { items: [{ itemId: "food_kibble", quantity: 2 }] } },
+  } as never);
+
+  const result = repairSaveData(state);
+  expect(result.success).toBe(true);
+  if (result.success) {
+    expect(
+      result.state.player.inventory.items[0]?.currentDurability,
+    ).toBeNull();
+  }
+});
+
+test("repairSaveData fails when a required value has no default", () => {
+  const state = createTestGameState();
+  const invalid = { ...state, pet: { ...state.pet, identity: null } };
+
+  const result = repairSaveData(invalid);
+  expect(result.success).toBe(false);
+  if (!result.success) {
+    expect(result.issues).toEqual([
+      { path: "pet.identity", expected: "object" },
+    ]);
+  }
+});
+
+test("repairSaveData does not mutate the input", () => {
+  const state = createTestGameState();
+  const invalid = { ...state, pendingNotifications: null };
+  const snapshot = JSON.stringify(invalid);
+
+  repairSaveData(invalid);
+  expect(JSON.stringify(invalid)).toBe(snapshot);
+});
+
+test("formatSaveValidationIssue includes the path", () => {
+  expect(
+    formatSaveValidationIssue({ path: "pet.sleep", expected: "object" }),
+  ).toBe("pet.sleep: expected object");
+  expect(formatSaveValidationIssue({ path: "", expected: "object" })).toBe(
+    "save: expected object",
+  );
+});
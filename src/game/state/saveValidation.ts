@@ -0,0 +1,586 @@
+/**
+ * Structural validation and repair of save data.
+ *
+ * The save schema mirrors GameState. Validation reports the exact path of
+ * every invalid value. Repair replaces invalid values that have a default,
+ * drops invalid array entries and optional fields, and fails only when a
+ * required value without a default is invalid.
+ */
+
+import { BattlePhase } from "@/game/core/battle/battle";
+import { getInitialPoopTimer } from "@/game/core/care/poop";
+import { createDefaultPetEquipment } from "@/game/core/equipment";
+import { createDefaultPetMoves } from "@/game/core/moves";
+import { createDefaultPetProgression } from "@/game/core/petLevel";
+import { createDefaultBonusMaxStats } from "@/game/core/petStats";
+import { createRandomSeed } from "@/game/core/rng";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
+import { DEFAULT_LOCATION_ID, now } from "@/game/types/common";
+import { ActivityState, GrowthStage } from "@/game/types/constants";
+import type { GameState } from "@/game/types/gameState";
+import { QuestState } from "@/game/types/quest";
+import { createInitialSkills, SkillType } from "@/game/types/skill";
+import { createDefaultResistances } from "@/game/types/stats";
+import { createInitialUnlocks, UnlockType } from "@/game/types/unlock";
+
+/**
+ * An invalid value found in save data.
+ */
+export interface SaveValidationIssue {
+  /** Path to the invalid value (e.g. "pet.sleep.isSleeping") */
+  path: string;
+  /** Description of the expected value */
+  expected: string;
+}
+
+/**
+ * Result of repairing save data.
+ */
+export type SaveRepairResult =
+  | { success: true; state: GameState; repairedPaths: string[] }
+  | { success: false; issues: SaveValidationIssue[] };
+
+/**
+ * Schema node describing the expected shape of a save value.
+ */
+type Schema =
+  | {
+      kind: "number" | "string" | "boolean" | "unknown";
+      default?: () => unknown;
+    }
+  | { kind: "oneOf"; values: readonly unknown[]; default?: () => unknown }
+  | {
+      kind: "object";
+      fields: Record<string, Schema>;
+      default?: () => unknown;
+    }
+  | { kind: "array"; items: Schema; default?: () => unknown }
+  | { kind: "record"; values: Schema; default?: () => unknown }
+  | { kind: "nullable"; inner: Schema; default?: () => unknown }
+  | { kind: "optional"; inner: Schema; default?: () => unknown };
+
+// Schema constructors
+const num = (): Schema => ({ kind: "number" });
+const str = (): Schema => ({ kind: "string" });
+const bool = (): Schema => ({ kind: "boolean" });
+const unknownValue = (): Schema => ({ kind: "unknown" });
+const oneOf = (values: Record<string, unknown>): Schema => ({
+  kind: "oneOf",
+  values: Object.values(values),
+});
+const obj = (fields: Record<string, Schema>): Schema => ({
+  kind: "object",
+  fields,
+});
+const arrayOf = (items: Schema): Schema => ({ kind: "array", items });
+const recordOf = (values: Schema): Schema => ({ kind: "record", values });
+const nullable = (inner: Schema): Schema => ({ kind: "nullable", inner });
+const optional = (inner: Schema): Schema => ({ kind: "optional", inner });
+const withDefault = (schema: Schema, value: () => unknown): Schema => ({
+  ...schema,
+  default: value,
+});
+
+const battleStatsSchema = obj({
+  strength: num(),
+  endurance: num(),
+  agility: num(),
+  precision: num(),
+  fortitude: num(),
+  cunning: num(),
+});
+
+const zeroBattleStats = () => ({
+  strength: 0,
+  endurance: 0,
+  agility: 0,
+  precision: 0,
+  fortitude: 0,
+  cunning: 0,
+});
+
+const equippedItemSchema = nullable(
+  obj({ itemId: str(), currentDurability: num() }),
+);
+
+const petSchema = obj({
+  identity: obj({ id: str(), name: str(), speciesId: str() }),
+  growth: obj({
+    stage: oneOf(GrowthStage),
+    substage: num(),
+    birthTime: num(),
+    ageTicks: num(),
+  }),
+  careStats: obj({ satiety: num(), hydration: num(), happiness: num() }),
+  energyStats: obj({ energy: num() }),
+  careLifeStats: obj({ careLife: num() }),
+  battleStats: battleStatsSchema,
+  trainedBattleStats: withDefault(battleStatsSchema, zeroBattleStats),
+  resistances: withDefault(recordOf(num()), createDefaultResistances),
+  poop: withDefault(obj({ count: num(), ticksUntilNext: num() }), () => ({
+    count: 0,
+    ticksUntilNext: getInitialPoopTimer(),
+  })),
+  sleep: withDefault(
+    obj({
+      isSleeping: bool(),
+      sleepStartTime: nullable(num()),
+      sleepTicksToday: num(),
+    }),
+    () => ({ isSleeping: false, sleepStartTime: null, sleepTicksToday: 0 }),
+  ),
+  activityState: withDefault(oneOf(ActivityState), () => ActivityState.Idle),
+  activeTraining: optional(
+    obj({
+      facilityId: str(),
+      sessionType: str(),
+      startTick: num(),
+      durationTicks: num(),
+      ticksRemaining: num(),
+      energyCost: num(),
+    }),
+  ),
+  trainingHistory: optional(
+    obj({ lastFacilityId: str(), consecutiveSessions: num() }),
+  ),
+  activeExploration: optional(
+    obj({
+      activityId: str(),
+      locationId: str(),
+      startTick: num(),
+      durationTicks: num(),
+      ticksRemaining: num(),
+      energyCost: num(),
+    }),
+  ),
+  activeInnStay: optional(
+    obj({
+      stayId: str(),
+      locationId: str(),
+      durationTicks: num(),
+      ticksRemaining: num(),
+    }),
+  ),
+  activityCooldowns: optional(recordOf(recordOf(num()))),
+  exhaustionTicks: optional(num()),
+  bonusMaxStats: withDefault(
+    obj({
+      satiety: num(),
+      hydration: num(),
+      happiness: num(),
+      energy: num(),
+      careLife: num(),
+      battle: battleStatsSchema,
+    }),
+    createDefaultBonusMaxStats,
+  ),
+  moves: withDefault(
+    obj({ learned: arrayOf(str()), equipped: arrayOf(str()) }),
+    createDefaultPetMoves,
+  ),
+  equipment: withDefault(
+    obj({ accessory: equippedItemSchema, charm: equippedItemSchema }),
+    createDefaultPetEquipment,
+  ),
+  progression: withDefault(
+    obj({ level: num(), currentXp: num() }),
+    createDefaultPetProgression,
+  ),
+});
+
+const inventoryItemSchema = obj({
+  itemId: str(),
+  quantity: num(),
+  currentDurability: withDefault(nullable(num()), () => null),
+});
+
+const skillsSchema = withDefault(
+  obj(
+    Object.fromEntries(
+      Object.values(SkillType).map((type) => [
+        type,
+        withDefault(
+          obj({ type: oneOf(SkillType), level: num(), currentXp: num() }),
+          () => ({ type, level: 1, currentXp: 0 }),
+        ),
+      ]),
+    ),
+  ),
+  createInitialSkills,
+);
+
+const winLossSchema = obj({ wins: num(), losses: num() });
+
+const questProgressSchema = obj({
+  questId: str(),
+  state: oneOf(QuestState),
+  objectiveProgress: withDefault(recordOf(num()), () => ({})),
+  startedAt: optional(num()),
+  completedAt: optional(num()),
+  expiresAt: optional(num()),
+});
+
+const combatantSchema = obj({
+  name: str(),
+  speciesId: str(),
+  battleStats: battleStatsSchema,
+  derivedStats: obj({
+    maxHealth: num(),
+    currentHealth: num(),
+    maxStamina: num(),
+    currentStamina: num(),
+    initiative: num(),
+    dodgeChance: num(),
+    criticalChance: num(),
+    criticalDamage: num(),
+  }),
+  resistances: recordOf(num()),
+  statusEffects: arrayOf(
+    obj({ id: str(), type: str(), name: str(), duration: num() }),
+  ),
+  moveSlots: arrayOf(
+    obj({ move: obj({ id: str(), name: str() }), currentCooldown: num() }),
+  ),
+  isPlayer: bool(),
+});
+
+const activeBattleSchema = obj({
+  enemySpeciesId: str(),
+  enemyLevel: num(),
+  battleState: obj({
+    phase: oneOf(BattlePhase),
+    turn: num(),
+    player: combatantSchema,
+    enemy: combatantSchema,
+    log: arrayOf(obj({ turn: num(), message: str() })),
+    turnOrder: arrayOf(oneOf({ player: "player", enemy: "enemy" })),
+    turnOrderIndex: num(),
+    playerActed: bool(),
+    enemyActed: bool(),
+    rngState: withDefault(num(), createRandomSeed),
+  }),
+});
+
+/**
+ * Schema for the complete save (GameState).
+ */
+const saveSchema = obj({
+  version: num(),
+  lastSaveTime: num(),
+  totalTicks: num(),
+  isInitialized: bool(),
+  rngState: withDefault(num(), createRandomSeed),
+  lastDailyReset: withDefault(num(), now),
+  lastWeeklyReset: withDefault(num(), now),
+  pet: nullable(petSchema),
+  benchedPets: withDefault(arrayOf(petSchema), () => []),
+  memorial: withDefault(
+    arrayOf(
+      obj({
+        petId: str(),
+        name: str(),
+        speciesId: str(),
+        stage: oneOf(GrowthStage),
+        ageTicks: num(),
+        birthTime: num(),
+        deathTime: num(),
+        cause: str(),
+      }),
+    ),
+    () => [],
+  ),
+  player: obj({
+    inventory: obj({ items: arrayOf(inventoryItemSchema) }),
+    storage: withDefault(obj({ items: arrayOf(inventoryItemSchema) }), () => ({
+      items: [],
+    })),
+    currency: obj({ coins: num() }),
+    currentLocationId: str(),
+    skills: skillsSchema,
+  }),
+  quests: arrayOf(questProgressSchema),
+  unlocks: withDefault(
+    obj(
+      Object.fromEntries(
+        Object.values(UnlockType).map((type) => [
+          type,
+          withDefault(arrayOf(str()), () => []),
+        ]),
+      ),
+    ),
+    createInitialUnlocks,
+  ),
+  combatRecord: withDefault(
+    obj({
+      wins: num(),
+      losses: num(),
+      fled: num(),
+      currentWinStreak: num(),
+      bestWinStreak: num(),
+      highestLevelDefeated: num(),
+      totalDamageDealt: num(),
+      bySpecies: recordOf(winLossSchema),
+      byLocation: recordOf(winLossSchema),
+    }),
+    createInitialCombatRecord,
+  ),
+  achievements: withDefault(
+    obj({
+      progress: withDefault(recordOf(num()), () => ({})),
+      unlocked: withDefault(recordOf(num()), () => ({})),
+      visitedLocations: withDefault(arrayOf(str()), () => [
+        DEFAULT_LOCATION_ID,
+      ]),
+    }),
+    createInitialAchievementState,
+  ),
+  shopStock: withDefault(
+    recordOf(
+      obj({
+        remaining: withDefault(recordOf(num()), () => ({})),
+        rotatingItemIds: withDefault(arrayOf(str()), () => []),
+        buyback: withDefault(recordOf(num()), () => ({})),
+      }),
+    ),
+    () => ({}),
+  ),
+  npcRelationships: withDefault(
+    recordOf(
+      obj({
+        affinity: num(),
+        talkedToday: withDefault(bool(), () => false),
+        giftedToday: withDefault(bool(), () => false),
+        socialXpToday: withDefault(num(), () => 0),
+      }),
+    ),
+    () => ({}),
+  ),
+  dialogueFlags: withDefault(arrayOf(str()), () => []),
+  skillTrainingSessionsToday: withDefault(recordOf(num()), () => ({})),
+  activeBattle: optional(activeBattleSchema),
+  pendingEncounter: optional(
+    obj({
+      speciesId: str(),
+      level: num(),
+      locationId: str(),
+      activityId: str(),
+    }),
+  ),
+  activeCraft: optional(
+    obj({
+      recipeId: str(),
+      durationTicks: num(),
+      ticksRemaining: num(),
+      consumedItems: arrayOf(obj({ itemId: str(), quantity: num() })),
+    }),
+  ),
+  activeSkillTraining: optional(
+    obj({
+      offerId: str(),
+      npcId: str(),
+      durationTicks: num(),
+      ticksRemaining: num(),
+      cost: num(),
+    }),
+  ),
+  // Transient; reset on load
+  pendingEvents: optional(unknownValue()),
+  pendingNotifications: withDefault(arrayOf(obj({ type: str() })), () => []),
+});
+
+/**
+ * Marker for a value that failed validation and could not be repaired.
+ */
+const INVALID = Symbol("invalid");
+
+/**
+ * Traversal context shared across a validate or repair pass.
+ */
+interface WalkContext {
+  /** Whether invalid values should be repaired */
+  repair: boolean;
+  /** Issues found (validation pass) */
+  issues: SaveValidationIssue[];
+  /** Paths that were repaired (repair pass) */
+  repairedPaths: string[];
+}
+
+/**
+ * Describe what a schema expects, for issue messages.
+ */
+function describe(schema: Schema): string {
+  switch (schema.kind) {
+    case "oneOf":
+      return `one of ${schema.values.map((v) => JSON.stringify(v)).join(", ")}`;
+    case "record":
+      return "object";
+    case "nullable":
+      return `${describe(schema.inner)} or null`;
+    case "optional":
+      return describe(schema.inner);
+    default:
+      return schema.kind;
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Handle an invalid value: use the schema default when repairing,
+ * otherwise record an issue (only for the node that actually mismatched).
+ */
+function fail(
+  schema: Schema,
+  path: string,
+  ctx: WalkContext,
+  mismatch: boolean,
+): unknown | typeof INVALID {
+  if (ctx.repair) {
+    if (schema.default) {
+      ctx.repairedPaths.push(path);
+      return schema.default();
+    }
+    return INVALID;
+  }
+  if (mismatch) {
+    ctx.issues.push({ path, expected: describe(schema) });
+  }
+  return INVALID;
+}
+
+/**
+ * Validate (and optionally repair) a value against a schema.
+ * Returns the (possibly repaired) value, or INVALID.
+ */
+function walk(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  ctx: WalkContext,
+): unknown | typeof INVALID {
+  switch (schema.kind) {
+    case "unknown":
+      return value;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? value
+        : fail(schema, path, ctx, true);
+    case "string":
+    case "boolean":
+      return typeof value === schema.kind
+        ? value
+        : fail(schema, path, ctx, true);
+    case "oneOf":
+      return schema.values.includes(value)
+        ? value
+        : fail(schema, path, ctx, true);
+    case "nullable": {
+      if (value === null) return null;
+      const result = walk(schema.inner, value, path, ctx);
+      return result === INVALID ? fail(schema, path, ctx, false) : result;
+    }
+    case "optional": {
+      if (value === undefined) return undefined;
+      const repairedCount = ctx.repairedPaths.length;
+      const result = walk(schema.inner, value, path, ctx);
+      if (result === INVALID && ctx.repair) {
+        // Drop invalid optional values (and any repairs made within them)
+        ctx.repairedPaths.length = repairedCount;
+        ctx.repairedPaths.push(path);
+        return undefined;
+      }
+      return result;
+    }
+    case "object": {
+      if (!isPlainObject(value)) return fail(schema, path, ctx, true);
+      const result: Record<string, unknown> = { ...value };
+      let invalid = false;
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const field = walk(fieldSchema, value[key], joinPath(path, key), ctx);
+        if (field === INVALID) {
+          invalid = true;
+        } else if (field === undefined) {
+          delete result[key];
+        } else {
+          result[key] = field;
+        }
+      }
+      return invalid ? fail(schema, path, ctx, false) : result;
+    }
+    case "record": {
+      if (!isPlainObject(value)) return fail(schema, path, ctx, true);
+      const result: Record<string, unknown> = {};
+      let invalid = false;
+      for (const [key, entry] of Object.entries(value)) {
+        const item = walk(schema.values, entry, joinPath(path, key), ctx);
+        if (item === INVALID) {
+          invalid = true;
+        } else {
+          result[key] = item;
+        }
+      }
+      return invalid ? fail(schema, path, ctx, false) : result;
+    }
+    case "array": {
+      if (!Array.isArray(value)) return fail(schema, path, ctx, true);
+      const result: unknown[] = [];
+      let invalid = false;
+      value.forEach((entry, index) => {
+        const itemPath = `${path}[${index}]`;
+        const repairedCount = ctx.repairedPaths.length;
+        const item = walk(schema.items, entry, itemPath, ctx);
+        if (item !== INVALID) {
+          result.push(item);
+        } else if (ctx.repair) {
+          // Drop invalid entries (and any repairs made within them)
+          ctx.repairedPaths.length = repairedCount;
+          ctx.repairedPaths.push(itemPath);
+        } else {
+          invalid = true;
+        }
+      });
+      return invalid ? fail(schema, path, ctx, false) : result;
+    }
+  }
+}
+
+/**
+ * Validate save data against the full GameState schema.
+ * Returns every invalid value with its path (empty if the save is valid).
+ */
+export function validateSaveData(value: unknown): SaveValidationIssue[] {
+  const ctx: WalkContext = { repair: false, issues: [], repairedPaths: [] };
+  walk(saveSchema, value, "", ctx);
+  return ctx.issues;
+}
+
+/**
+ * Repair save data by replacing invalid values with defaults.
+ * Fails with the validation issues if a required value has no default.
+ */
+export function repairSaveData(value: unknown): SaveRepairResult {
+  const ctx: WalkContext = { repair: true, issues: [], repairedPaths: [] };
+  const result = walk(saveSchema, value, "", ctx);
+  if (result === INVALID) {
+    return { success: false, issues: validateSaveData(value) };
+  }
+  return {
+    success: true,
+    state: result as GameState,
+    repairedPaths: ctx.repairedPaths,
+  };
+}
+
+/**
+ * Format a validation issue for display.
+ */
+export function formatSaveValidationIssue(issue: SaveValidationIssue): string {
+  return `${issue.path || "save"}: expected ${issue.expected}`;
+}
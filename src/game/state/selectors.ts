@@ -2,7 +2,14 @@
  * Selectors for deriving values from game state.
  */
 
+import type { BattleRewards } from "@/game/core/battle/battle";
+import { getBattleRewards } from "@/game/core/battle/battleLifecycle";
 import { getNextStage } from "@/game/core/growth";
+import {
+  getPetLevelCap,
+  getPetLevelProgress,
+  petXpForNextLevel,
+} from "@/game/core/petLevel";
 import { calculatePetMaxStats } from "@/game/core/petStats";
 import {
   getNextSpeciesStage,
@@ -12,6 +19,8 @@ import {
 } from "@/game/data/growthStages";
 import { getSpeciesById } from "@/game/data/species";
 import type { Pet } from "@/game/types";
+import type { AchievementState } from "@/game/types/achievement";
+import type { CombatRecord } from "@/game/types/combatRecord";
 import type { Tick } from "@/game/types/common";
 import {
   formatTicksAsTime,
@@ -31,10 +40,18 @@ import type {
   Inventory,
   PlayerState,
 } from "@/game/types/gameState";
+import type { MemorialEntry } from "@/game/types/memorial";
 import type { QuestProgress } from "@/game/types/quest";
 import type { PlayerSkills } from "@/game/types/skill";
 import type { Species, SpeciesGrowthStageStats } from "@/game/types/species";
 
+/**
+ * Get the rewards for the finished active battle, or null mid-battle.
+ */
+export function selectBattleRewards(state: GameState): BattleRewards | null {
+  return getBattleRewards(state);
+}
+
 /**
  * Get the active pet from game state.
  */
@@ -42,6 +59,20 @@ export function selectPet(state: GameState): Pet | null {
   return state.pet;
 }
 
+/**
+ * Get the benched pets resting in the home daycare.
+ */
+export function selectBenchedPets(state: GameState): Pet[] {
+  return state.benchedPets;
+}
+
+/**
+ * Get the memorial of pets that have died, oldest first.
+ */
+export function selectMemorial(state: GameState): MemorialEntry[] {
+  return state.memorial;
+}
+
 /**
  * Get the player state.
  */
@@ -56,6 +87,13 @@ export function selectInventory(state: GameState): Inventory {
   return state.player.inventory;
 }
 
+/**
+ * Get the items in the player's home storage.
+ */
+export function selectStorage(state: GameState): Inventory {
+  return state.player.storage;
+}
+
 /**
  * Get the player's currency.
  */
@@ -77,6 +115,20 @@ export function selectSkills(state: GameState): PlayerSkills {
   return state.player.skills;
 }
 
+/**
+ * Get the player's combat record.
+ */
+export function selectCombatRecord(state: GameState): CombatRecord {
+  return state.combatRecord;
+}
+
+/**
+ * Get the player's achievement progress and unlocks.
+ */
+export function selectAchievements(state: GameState): AchievementState {
+  return state.achievements;
+}
+
 /**
  * Get the quests progress.
  */
@@ -241,6 +293,12 @@ export interface PetInfoDisplay {
   substageCount: number;
   ageDays: number;
   isSleeping: boolean;
+  level: number;
+  /** Whether the pet is at its growth stage's level cap */
+  isAtLevelCap: boolean;
+  currentXp: number;
+  xpForNextLevel: number;
+  levelProgress: number;
 }
 
 /**
@@ -319,6 +377,11 @@ export function selectPetInfo(state: GameState): PetInfoDisplay | null {
     substageCount,
     ageDays,
     isSleeping: pet.sleep.isSleeping,
+    level: pet.progression.level,
+    isAtLevelCap: pet.progression.level >= getPetLevelCap(pet.growth.stage),
+    currentXp: pet.progression.currentXp,
+    xpForNextLevel: petXpForNextLevel(pet.progression.level),
+    levelProgress: getPetLevelProgress(pet.progression),
   };
 }
 
@@ -2,14 +2,20 @@
  * Shared test utilities for creating mock Pet objects.
  */
 
+import { createDefaultPetEquipment } from "@/game/core/equipment";
+import { createDefaultPetMoves } from "@/game/core/moves";
+import { createDefaultPetProgression } from "@/game/core/petLevel";
 import { createDefaultBonusMaxStats } from "@/game/core/petStats";
 import { SPECIES } from "@/game/data/species";
+import { createInitialAchievementState } from "@/game/types/achievement";
+import { createInitialCombatRecord } from "@/game/types/combatRecord";
 import { ActivityState, GrowthStage } from "@/game/types/constants";
-import type { GameState } from "@/game/types/gameState";
+import { CURRENT_SAVE_VERSION, type GameState } from "@/game/types/gameState";
 import type { Pet } from "@/game/types/pet";
 import { createInitialSkills } from "@/game/types/skill";
 import type { BattleStats } from "@/game/types/stats";
 import { createDefaultResistances } from "@/game/types/stats";
+import { createInitialUnlocks } from "@/game/types/unlock";
 
 /**
  * Create default (zero) battle stats for testing.
@@ -80,6 +86,9 @@ const createDefaultTestPet = (): Pet => ({
   },
   activityState: ActivityState.Idle,
   bonusMaxStats: createDefaultBonusMaxStats(),
+  moves: createDefaultPetMoves(),
+  equipment: createDefaultPetEquipment(),
+  progression: createDefaultPetProgression(),
 });
 
 /**
@@ -161,19 +170,30 @@ export function createTestGameState(
   const { player: playerOverrides, ...stateOverrides } = overrides;
 
   return {
-    version: 1,
+    version: CURRENT_SAVE_VERSION,
     lastSaveTime: now,
     totalTicks: 0,
     pet,
+    benchedPets: [],
+    memorial: [],
     player: {
       inventory: { items: [] },
+      storage: { items: [] },
       currency: { coins: 0 },
       currentLocationId: "home",
       skills: createInitialSkills(),
       ...playerOverrides,
     },
     quests: [],
+    unlocks: createInitialUnlocks(),
+    combatRecord: createInitialCombatRecord(),
+    achievements: createInitialAchievementState(),
+    shopStock: {},
+    npcRelationships: {},
+    dialogueFlags: [],
+    skillTrainingSessionsToday: {},
     isInitialized: true,
+    rngState: 1,
     lastDailyReset: now,
     lastWeeklyReset: now,
     pendingEvents: [],
@@ -0,0 +1,156 @@
+/**
+ * Achievement types for long-term milestones and their permanent rewards.
+ */
+
+import { DEFAULT_LOCATION_ID, type MicroValue, type Timestamp } from "./common";
+import type { GameEvent } from "./event";
+import type { SkillTier } from "./skill";
+
+/**
+ * Achievement categories for grouping on the achievements screen.
+ */
+export const AchievementCategory = {
+  Care: "care",
+  Growth: "growth",
+  Battle: "battle",
+  Exploration: "exploration",
+  Skills: "skills",
+} as const;
+
+export type AchievementCategory =
+  (typeof AchievementCategory)[keyof typeof AchievementCategory];
+
+/**
+ * Condition types for achievements.
+ */
+export const AchievementConditionType = {
+  /** Count game events of a type, optionally matching some of their fields */
+  Event: "event",
+  /** Win battles (from the combat record) */
+  BattlesWon: "battlesWon",
+  /** Visit every location in the world */
+  LocationsVisited: "locationsVisited",
+  /** Reach a skill tier in any skill */
+  SkillTier: "skillTier",
+  /** Raise any pet on the roster to a level */
+  PetLevel: "petLevel",
+} as const;
+
+export type AchievementConditionType =
+  (typeof AchievementConditionType)[keyof typeof AchievementConditionType];
+
+/**
+ * Condition that completes an achievement.
+ */
+export type AchievementCondition =
+  | {
+      type: typeof AchievementConditionType.Event;
+      /** Event type to count */
+      eventType: GameEvent["type"];
+      /** Event fields that must match for the event to count */
+      match?: Record<string, string | number | boolean>;
+      /** Number of matching events needed */
+      count: number;
+    }
+  | {
+      type: typeof AchievementConditionType.BattlesWon;
+      /** Number of battles to win */
+      count: number;
+    }
+  | {
+      type: typeof AchievementConditionType.LocationsVisited;
+    }
+  | {
+      type: typeof AchievementConditionType.SkillTier;
+      /** Tier any skill must reach */
+      tier: SkillTier;
+    }
+  | {
+      type: typeof AchievementConditionType.PetLevel;
+      /** Level any pet must reach */
+      level: number;
+    };
+
+/**
+ * Achievement reward types.
+ */
+export const AchievementRewardType = {
+  Currency: "currency",
+  Item: "item",
+  BonusMaxStats: "bonusMaxStats",
+  Species: "species",
+} as const;
+
+export type AchievementRewardType =
+  (typeof AchievementRewardType)[keyof typeof AchievementRewardType];
+
+/**
+ * Care, energy and Care Life maximums an achievement can raise (micro-units).
+ */
+export interface AchievementMaxStatBonus {
+  satiety?: MicroValue;
+  hydration?: MicroValue;
+  happiness?: MicroValue;
+  energy?: MicroValue;
+  careLife?: MicroValue;
+}
+
+/**
+ * Reward granted when an achievement is unlocked.
+ */
+export type AchievementReward =
+  | { type: typeof AchievementRewardType.Currency; amount: number }
+  | {
+      type: typeof AchievementRewardType.Item;
+      itemId: string;
+      quantity: number;
+    }
+  | {
+      type: typeof AchievementRewardType.BonusMaxStats;
+      bonus: AchievementMaxStatBonus;
+    }
+  | { type: typeof AchievementRewardType.Species; speciesId: string };
+
+/**
+ * Achievement definition.
+ */
+export interface Achievement {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** What the player needs to do */
+  description: string;
+  /** Emoji icon */
+  emoji: string;
+  /** Category for grouping */
+  category: AchievementCategory;
+  /** Condition that completes the achievement */
+  condition: AchievementCondition;
+  /** Rewards granted on unlock */
+  rewards: AchievementReward[];
+}
+
+/**
+ * Achievement progress and unlocks.
+ * Carries over when a new pet is adopted.
+ */
+export interface AchievementState {
+  /** Matching events counted so far, by event-based achievement ID */
+  progress: Record<string, number>;
+  /** Unlock timestamps by achievement ID */
+  unlocked: Record<string, Timestamp>;
+  /** Every location the player has been to */
+  visitedLocations: string[];
+}
+
+/**
+ * Create the achievement state for a new game.
+ */
+export function createInitialAchievementState(): AchievementState {
+  return {
+    progress: {},
+    unlocked: {},
+    visitedLocations: [DEFAULT_LOCATION_ID],
+  };
+}
@@ -68,6 +68,8 @@ export interface TrainingSession {
   primaryStatGain: number;
   /** Secondary stat gain amount */
   secondaryStatGain: number;
+  /** Chance (0-1) to learn a new move on completion */
+  moveLearnChance: number;
   /** Minimum growth stage required (if any) */
   minStage?: GrowthStage;
 }
@@ -112,6 +114,48 @@ export interface ActiveTraining {
   energyCost: number;
 }
 
+/**
+ * Recent training, used for fatigue and facility variety.
+ */
+export interface TrainingHistory {
+  /** Facility of the most recent completed session */
+  lastFacilityId: string;
+  /** Completed sessions in a row at that facility */
+  consecutiveSessions: number;
+}
+
+/**
+ * A paid stay offered by town inns.
+ */
+export interface InnStay {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Stay description */
+  description: string;
+  /** Coin cost */
+  cost: number;
+  /** Length of the stay in ticks */
+  durationTicks: Tick;
+  /** Share of each max care stat restored when the stay ends (0.0 to 1.0) */
+  careRestore: number;
+}
+
+/**
+ * Inn stay in progress, stored on the pet.
+ */
+export interface ActiveInnStay {
+  /** Stay being taken */
+  stayId: string;
+  /** Location of the inn */
+  locationId: string;
+  /** Total ticks of the stay */
+  durationTicks: Tick;
+  /** Ticks remaining */
+  ticksRemaining: Tick;
+}
+
 /**
  * Training completion result.
  */
@@ -152,6 +196,21 @@ export interface ActiveExploration {
   energyCost: number;
 }
 
+/**
+ * Wild encounter rolled during exploration, waiting for the player to
+ * fight or run away. The exploration is paused until it is resolved.
+ */
+export interface PendingEncounter {
+  /** Species ID of the wild pet */
+  speciesId: string;
+  /** Level of the wild pet */
+  level: number;
+  /** Location where the encounter occurred */
+  locationId: string;
+  /** Activity that was interrupted */
+  activityId: string;
+}
+
 /**
  * Exploration completion result.
  */
@@ -0,0 +1,68 @@
+/**
+ * Combat record types for the player's battle history.
+ */
+
+/**
+ * Wins and losses against a species or at a location.
+ */
+export interface WinLossRecord {
+  wins: number;
+  losses: number;
+}
+
+/**
+ * Persistent record of every battle the player has fought.
+ * Carries over when a new pet is adopted.
+ */
+export interface CombatRecord {
+  /** Total battles won */
+  wins: number;
+  /** Total battles lost */
+  losses: number;
+  /** Battles escaped by fleeing */
+  fled: number;
+  /** Consecutive wins since the last loss or escape */
+  currentWinStreak: number;
+  /** Longest win streak ever reached */
+  bestWinStreak: number;
+  /** Highest enemy level defeated (0 if none) */
+  highestLevelDefeated: number;
+  /** Total damage dealt to enemies */
+  totalDamageDealt: number;
+  /** Results by enemy species ID */
+  bySpecies: Record<string, WinLossRecord>;
+  /** Results by location ID */
+  byLocation: Record<string, WinLossRecord>;
+}
+
+/**
+ * Combat record statistics that requirements and dialogue can query.
+ */
+export const CombatStat = {
+  Wins: "wins",
+  Losses: "losses",
+  Fled: "fled",
+  WinStreak: "winStreak",
+  BestWinStreak: "bestWinStreak",
+  HighestLevelDefeated: "highestLevelDefeated",
+  DamageDealt: "damageDealt",
+} as const;
+
+export type CombatStat = (typeof CombatStat)[keyof typeof CombatStat];
+
+/**
+ * Create an empty combat record for a new game.
+ */
+export function createInitialCombatRecord(): CombatRecord {
+  return {
+    wins: 0,
+    losses: 0,
+    fled: 0,
+    currentWinStreak: 0,
+    bestWinStreak: 0,
+    highestLevelDefeated: 0,
+    totalDamageDealt: 0,
+    bySpecies: {},
+    byLocation: {},
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Types for the crafting system.
+ */
+
+import type { Tick } from "./common";
+
+/**
+ * How a recipe ingredient is matched against inventory items.
+ */
+export const IngredientType = {
+  /** A specific item by ID */
+  Item: "item",
+  /** Any material carrying a crafting tag */
+  Tag: "tag",
+} as const;
+
+export type IngredientType =
+  (typeof IngredientType)[keyof typeof IngredientType];
+
+/**
+ * Ingredient that requires a specific item.
+ */
+export interface ItemIngredient {
+  type: typeof IngredientType.Item;
+  /** Item definition ID */
+  itemId: string;
+  /** Quantity consumed */
+  quantity: number;
+}
+
+/**
+ * Ingredient satisfied by any material with a matching crafting tag.
+ */
+export interface TagIngredient {
+  type: typeof IngredientType.Tag;
+  /** Crafting tag to match (see MaterialItem.craftingTags) */
+  tag: string;
+  /** Quantity consumed (may be split across different materials) */
+  quantity: number;
+}
+
+/**
+ * A single recipe ingredient.
+ */
+export type RecipeIngredient = ItemIngredient | TagIngredient;
+
+/**
+ * A crafting recipe definition.
+ */
+export interface Recipe {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Recipe description */
+  description: string;
+  /** Ingredients consumed when crafting starts */
+  ingredients: RecipeIngredient[];
+  /** Item produced on completion */
+  output: {
+    itemId: string;
+    quantity: number;
+  };
+  /** Minimum Crafting skill level */
+  requiredLevel: number;
+  /** Crafting XP granted on completion */
+  xpReward: number;
+  /** Time to complete in ticks (omit for instant crafts) */
+  durationTicks?: Tick;
+}
+
+/**
+ * Quantity of a specific item consumed by a craft.
+ */
+export interface ConsumedMaterial {
+  /** Item definition ID */
+  itemId: string;
+  /** Quantity consumed */
+  quantity: number;
+}
+
+/**
+ * A timed craft in progress.
+ */
+export interface ActiveCraft {
+  /** Recipe being crafted */
+  recipeId: string;
+  /** Total duration in ticks */
+  durationTicks: Tick;
+  /** Ticks remaining until completion */
+  ticksRemaining: Tick;
+  /** Items consumed when the craft started (refunded on cancel) */
+  consumedItems: ConsumedMaterial[];
+}
@@ -7,7 +7,11 @@
  */
 
 import type { ExplorationDrop } from "./activity";
+import type { Tick } from "./common";
 import type { GrowthStage } from "./constants";
+import type { DeathCause } from "./memorial";
+import type { MoveLearnSource } from "./move";
+import type { SkillType } from "./skill";
 import type { BattleStats } from "./stats";
 
 /**
@@ -85,7 +89,12 @@ export interface SkillLevelUpEvent extends BaseGameEvent {
 /**
  * Battle action types for battle events.
  */
-export type BattleActionType = "playerAttack" | "enemyAttack" | "turnResolved";
+export type BattleActionType =
+  | "playerAttack"
+  | "playerUseItem"
+  | "playerFlee"
+  | "enemyAttack"
+  | "turnResolved";
 
 /**
  * Event emitted when a battle action occurs.
@@ -97,6 +106,7 @@ export interface BattleActionEvent extends BaseGameEvent {
   actorName: string;
   targetName?: string;
   moveName?: string;
+  itemName?: string;
   damage?: number;
   isCritical?: boolean;
   isDodged?: boolean;
@@ -113,6 +123,80 @@ export interface BattleEndEvent extends BaseGameEvent {
   enemyName: string;
 }
 
+/**
+ * Event emitted when the pet dies from neglect (Care Life reached 0).
+ */
+export interface PetDeathEvent extends BaseGameEvent {
+  type: "petDeath";
+  petId: string;
+  petName: string;
+  speciesId: string;
+  cause: DeathCause;
+  ageTicks: Tick;
+}
+
+/**
+ * Event emitted when the pet learns a new move.
+ */
+export interface MoveLearnedEvent extends BaseGameEvent {
+  type: "moveLearned";
+  petName: string;
+  moveId: string;
+  moveName: string;
+  source: MoveLearnSource;
+}
+
+/**
+ * Event emitted when the pet gains one or more levels.
+ */
+export interface PetLevelUpEvent extends BaseGameEvent {
+  type: "petLevelUp";
+  petName: string;
+  newLevel: number;
+  statsGained: Partial<BattleStats>;
+}
+
+/**
+ * Event emitted when a timed craft finishes.
+ */
+export interface CraftingCompleteEvent extends BaseGameEvent {
+  type: "craftingComplete";
+  recipeName: string;
+  itemId: string;
+  quantity: number;
+  bonusOutput: boolean;
+}
+
+/**
+ * Event emitted when a skill-training session finishes.
+ */
+export interface SkillTrainingCompleteEvent extends BaseGameEvent {
+  type: "skillTrainingComplete";
+  offerName: string;
+  npcName: string;
+  skillType: SkillType;
+  xpGained: number;
+  newLevel?: number;
+}
+
+/**
+ * Event emitted when a hidden location is discovered.
+ */
+export interface LocationDiscoveredEvent extends BaseGameEvent {
+  type: "locationDiscovered";
+  locationId: string;
+  locationName: string;
+}
+
+/**
+ * Event emitted when an achievement is unlocked.
+ */
+export interface AchievementUnlockedEvent extends BaseGameEvent {
+  type: "achievementUnlocked";
+  achievementId: string;
+  achievementName: string;
+}
+
 /**
  * Union type of all game events.
  */
@@ -124,7 +208,14 @@ export type GameEvent =
   | TravelEvent
   | SkillLevelUpEvent
   | BattleActionEvent
-  | BattleEndEvent;
+  | BattleEndEvent
+  | PetDeathEvent
+  | MoveLearnedEvent
+  | PetLevelUpEvent
+  | CraftingCompleteEvent
+  | SkillTrainingCompleteEvent
+  | LocationDiscoveredEvent
+  | AchievementUnlockedEvent;
 
 /**
  * Create a new event with the specified or current timestamp.
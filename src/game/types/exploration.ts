@@ -21,7 +21,10 @@ export interface ExplorationActivity {
   energyCost: number;
   /** Conditions that must be met to perform this activity */
   requirements?: ExplorationRequirements;
-  /** Base probability of triggering an encounter (0.0 to 1.0) */
+  /**
+   * Base probability of an encounter over a whole session (0.0 to 1.0),
+   * spread evenly across the activity's duration
+   */
   encounterChance: number;
   /** Ticks before this activity can be performed again at the same location */
   cooldownDuration?: Tick;
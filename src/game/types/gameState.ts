@@ -3,12 +3,28 @@
  */
 
 import type { BattleState } from "@/game/core/battle/battle";
+import { createRandomSeed, type RngState } from "@/game/core/rng";
+import {
+  type AchievementState,
+  createInitialAchievementState,
+} from "./achievement";
+import type { PendingEncounter } from "./activity";
+import { type CombatRecord, createInitialCombatRecord } from "./combatRecord";
 import { DEFAULT_LOCATION_ID, type Tick, type Timestamp } from "./common";
+import type { ActiveCraft } from "./crafting";
 import type { GameEvent } from "./event";
+import type { MemorialEntry } from "./memorial";
 import type { GameNotification } from "./notification";
+import type { NpcRelationship } from "./npc";
 import type { Pet } from "./pet";
 import type { QuestProgress } from "./quest";
-import { createInitialSkills, type PlayerSkills } from "./skill";
+import type { ShopStockState } from "./shop";
+import {
+  type ActiveSkillTraining,
+  createInitialSkills,
+  type PlayerSkills,
+} from "./skill";
+import { createInitialUnlocks, type Unlocks } from "./unlock";
 
 /**
  * Active battle state stored in game state.
@@ -55,8 +71,10 @@ export interface Currency {
  * Player state including inventory and resources.
  */
 export interface PlayerState {
-  /** Player's inventory */
+  /** Items the player is carrying */
   inventory: Inventory;
+  /** Items kept in home storage, usable only at a Storage facility */
+  storage: Inventory;
   /** Player's currency */
   currency: Currency;
   /** Current location ID */
@@ -75,19 +93,55 @@ export interface GameState {
   lastSaveTime: Timestamp;
   /** Total ticks processed since game start */
   totalTicks: Tick;
-  /** The player's active pet (null if no pet yet) */
+  /** The player's active pet (null if no pet yet or the pet has died) */
   pet: Pet | null;
+  /**
+   * The rest of the pet roster, resting in the home daycare.
+   * Benched pets keep aging, but their care stats decay more slowly.
+   */
+  benchedPets: Pet[];
+  /** Pets that have passed away, oldest first */
+  memorial: MemorialEntry[];
   /** Player state (inventory, currency, location) */
   player: PlayerState;
   /** Active and completed quest progress */
   quests: QuestProgress[];
+  /** Locations, species, facilities, shops and features unlocked so far */
+  unlocks: Unlocks;
+  /** Battle history: wins, losses, streaks and other combat statistics */
+  combatRecord: CombatRecord;
+  /** Achievement progress, visited locations and unlock times */
+  achievements: AchievementState;
+  /** Remaining shop stock by shop ID, restocked at the daily reset */
+  shopStock: Record<string, ShopStockState>;
+  /** Relationships with NPCs by NPC ID; NPCs the player has not met are absent */
+  npcRelationships: Record<string, NpcRelationship>;
+  /** Flags set by dialogue choices */
+  dialogueFlags: string[];
+  /** Skill-training sessions started today, by training offer ID */
+  skillTrainingSessionsToday: Record<string, number>;
   /** Whether the game has been initialized */
   isInitialized: boolean;
+  /**
+   * Random number generator state.
+   * Every random decision draws from it, so replaying the same state and
+   * inputs gives identical results.
+   */
+  rngState: RngState;
   /**
    * Active battle (if in combat).
    * Persisted to allow resuming battle after page refresh.
    */
   activeBattle?: ActiveBattle;
+  /**
+   * Wild encounter interrupting the pet's exploration (if any).
+   * Exploration progress is paused until the encounter is resolved.
+   */
+  pendingEncounter?: PendingEncounter;
+  /** Timed craft in progress (if any) */
+  activeCraft?: ActiveCraft;
+  /** Skill-training session in progress at a trainer (if any) */
+  activeSkillTraining?: ActiveSkillTraining;
   /**
    * Timestamp of the last daily reset.
    * Used to track when to reset daily counters like sleepTicksToday.
@@ -118,7 +172,7 @@ export interface GameState {
 /**
  * Current save version for compatibility checks.
  */
-export const CURRENT_SAVE_VERSION = 1;
+export const CURRENT_SAVE_VERSION = 13;
 
 /**
  * Create an empty initial game state.
@@ -130,14 +184,25 @@ export function createInitialGameState(): GameState {
     lastSaveTime: currentTime,
     totalTicks: 0,
     pet: null,
+    benchedPets: [],
+    memorial: [],
     player: {
       inventory: { items: [] },
+      storage: { items: [] },
       currency: { coins: 0 },
       currentLocationId: DEFAULT_LOCATION_ID,
       skills: createInitialSkills(),
     },
     quests: [],
+    unlocks: createInitialUnlocks(),
+    combatRecord: createInitialCombatRecord(),
+    achievements: createInitialAchievementState(),
+    shopStock: {},
+    npcRelationships: {},
+    dialogueFlags: [],
+    skillTrainingSessionsToday: {},
     isInitialized: false,
+    rngState: createRandomSeed(),
     lastDailyReset: currentTime,
     lastWeeklyReset: currentTime,
     pendingEvents: [],
@@ -2,14 +2,18 @@
  * Re-export all game types from a single entry point.
  */
 
+export * from "./achievement";
 export * from "./activity";
+export * from "./combatRecord";
 export * from "./common";
 export * from "./constants";
+export * from "./crafting";
 export * from "./event";
 export * from "./exploration";
 export * from "./gameState";
 export * from "./item";
 export * from "./location";
+export * from "./memorial";
 export * from "./move";
 export * from "./notification";
 export * from "./npc";
@@ -19,3 +23,4 @@ export * from "./quest";
 export * from "./skill";
 export * from "./species";
 export * from "./stats";
+export * from "./unlock";
@@ -58,6 +58,7 @@ export const FacilityType = {
   RestPoint: "restPoint",
   ForageZone: "forageZone",
   BattleArea: "battleArea",
+  Workshop: "workshop",
 } as const;
 
 export type FacilityType = (typeof FacilityType)[keyof typeof FacilityType];
@@ -104,6 +105,16 @@ export interface WorldMap {
   startingLocationId: string;
 }
 
+/**
+ * Shortest route between two locations across the world graph.
+ */
+export interface TravelRoute {
+  /** Location IDs passed through in order, ending with the destination (excludes the start) */
+  locationIds: string[];
+  /** Total energy cost of every edge on the route (in display units) */
+  energyCost: number;
+}
+
 /**
  * Travel result containing new state and any messages.
  */
@@ -111,4 +122,6 @@ export interface TravelResult {
   success: boolean;
   message: string;
   energyCost?: number;
+  /** Location IDs the route passes through, ending with the destination */
+  route?: string[];
 }
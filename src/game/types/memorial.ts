@@ -0,0 +1,58 @@
+/**
+ * Memorial types for pets that have passed away.
+ */
+
+import type { Tick, Timestamp } from "./common";
+import type { GrowthStage } from "./constants";
+
+/**
+ * Causes of pet death.
+ * Pets only die from neglect, when Care Life reaches 0.
+ */
+export const DeathCause = {
+  /** Satiety was the only care stat at 0 */
+  Starvation: "starvation",
+  /** Hydration was the only care stat at 0 */
+  Dehydration: "dehydration",
+  /** Happiness was the only care stat at 0 */
+  Heartbreak: "heartbreak",
+  /** Care stats were fine but poop was left to pile up */
+  Filth: "filth",
+  /** Multiple care stats were at 0 */
+  Neglect: "neglect",
+} as const;
+
+export type DeathCause = (typeof DeathCause)[keyof typeof DeathCause];
+
+/**
+ * Human-friendly descriptions for death causes.
+ */
+export const DEATH_CAUSE_DISPLAY_NAMES: Record<DeathCause, string> = {
+  starvation: "Starvation",
+  dehydration: "Dehydration",
+  heartbreak: "Heartbreak",
+  filth: "Illness from an unclean home",
+  neglect: "Neglect",
+} as const;
+
+/**
+ * A memorial record for a pet that has died.
+ */
+export interface MemorialEntry {
+  /** ID of the pet that died */
+  petId: string;
+  /** Pet's name */
+  name: string;
+  /** Species identifier */
+  speciesId: string;
+  /** Growth stage at time of death */
+  stage: GrowthStage;
+  /** Age in ticks at time of death */
+  ageTicks: Tick;
+  /** Timestamp when the pet was born */
+  birthTime: Timestamp;
+  /** Timestamp when the pet died */
+  deathTime: Timestamp;
+  /** Cause of death */
+  cause: DeathCause;
+}
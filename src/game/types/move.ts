@@ -2,6 +2,7 @@
  * Move and status effect types for the battle system.
  */
 
+import type { Rng } from "@/game/core/rng";
 import type { DamageType } from "./constants";
 import type { BattleStats } from "./stats";
 
@@ -113,9 +114,22 @@ export interface MoveSlot {
  */
 export const DEFAULT_MOVE_SLOTS = 4;
 
+/**
+ * Ways a pet can learn a new move.
+ */
+export const MoveLearnSource = {
+  Training: "training",
+  Quest: "quest",
+  Battle: "battle",
+  Level: "level",
+} as const;
+
+export type MoveLearnSource =
+  (typeof MoveLearnSource)[keyof typeof MoveLearnSource];
+
 /**
  * Generate a unique status effect ID.
  */
-export function createStatusEffectId(): string {
-  return `effect_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+export function createStatusEffectId(rng: Rng): string {
+  return `effect_${Math.floor(rng.next() * 0x100000000).toString(36)}`;
 }
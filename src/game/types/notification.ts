@@ -3,7 +3,11 @@
  */
 
 import type { ExplorationDrop } from "./activity";
+import type { Tick } from "./common";
 import type { GrowthStage } from "./constants";
+import type { DeathCause } from "./memorial";
+import type { MoveLearnSource } from "./move";
+import type { SkillType } from "./skill";
 import type { BattleStats } from "./stats";
 
 /**
@@ -49,10 +53,116 @@ export interface ExplorationCompleteNotification {
   petName: string;
 }
 
+/**
+ * Notification for pet death.
+ */
+export interface PetDeathNotification {
+  type: "petDeath";
+  /** Pet name */
+  petName: string;
+  /** Species identifier */
+  speciesId: string;
+  /** Cause of death */
+  cause: DeathCause;
+  /** Age in ticks at time of death */
+  ageTicks: Tick;
+}
+
+/**
+ * Notification for learning a new move.
+ */
+export interface MoveLearnedNotification {
+  type: "moveLearned";
+  /** Pet name */
+  petName: string;
+  /** ID of the learned move */
+  moveId: string;
+  /** Display name of the learned move */
+  moveName: string;
+  /** How the move was learned */
+  source: MoveLearnSource;
+}
+
+/**
+ * Notification for the pet gaining levels.
+ */
+export interface PetLevelUpNotification {
+  type: "petLevelUp";
+  /** Pet name */
+  petName: string;
+  /** Level reached */
+  newLevel: number;
+  /** Battle stats gained from the level ups */
+  statsGained: Partial<BattleStats>;
+}
+
+/**
+ * Notification for a finished timed craft.
+ */
+export interface CraftingCompleteNotification {
+  type: "craftingComplete";
+  /** Recipe display name */
+  recipeName: string;
+  /** ID of the crafted item */
+  itemId: string;
+  /** Quantity produced (including any bonus output) */
+  quantity: number;
+  /** Whether the bonus output roll succeeded */
+  bonusOutput: boolean;
+}
+
+/**
+ * Notification for a finished skill-training session.
+ */
+export interface SkillTrainingCompleteNotification {
+  type: "skillTrainingComplete";
+  /** Training session display name */
+  offerName: string;
+  /** Trainer display name */
+  npcName: string;
+  /** Skill that was trained */
+  skillType: SkillType;
+  /** Skill XP gained */
+  xpGained: number;
+  /** New skill level if the skill leveled up */
+  newLevel?: number;
+}
+
+/**
+ * Notification for discovering a hidden location.
+ */
+export interface LocationDiscoveredNotification {
+  type: "locationDiscovered";
+  /** ID of the discovered location */
+  locationId: string;
+  /** Display name of the discovered location */
+  locationName: string;
+}
+
+/**
+ * Notification for unlocking an achievement.
+ */
+export interface AchievementUnlockedNotification {
+  type: "achievementUnlocked";
+  /** ID of the unlocked achievement */
+  achievementId: string;
+  /** Display name of the achievement */
+  achievementName: string;
+  /** Descriptions of the rewards granted */
+  rewards: string[];
+}
+
 /**
  * Union type for all notification types.
  */
 export type GameNotification =
   | StageTransitionNotification
   | TrainingCompleteNotification
-  | ExplorationCompleteNotification;
+  | ExplorationCompleteNotification
+  | PetDeathNotification
+  | MoveLearnedNotification
+  | PetLevelUpNotification
+  | CraftingCompleteNotification
+  | SkillTrainingCompleteNotification
+  | LocationDiscoveredNotification
+  | AchievementUnlockedNotification;
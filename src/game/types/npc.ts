@@ -2,6 +2,8 @@
  * NPC and Dialogue types for town interactions.
  */
 
+import type { SkillTrainingOffer } from "./skill";
+
 /**
  * NPC role types.
  */
@@ -11,6 +13,7 @@ export const NpcRole = {
   Trainer: "trainer",
   Guide: "guide",
   Lore: "lore",
+  Crafter: "crafter",
 } as const;
 
 export type NpcRole = (typeof NpcRole)[keyof typeof NpcRole];
@@ -25,6 +28,8 @@ export const DialogueNodeType = {
   Choice: "choice",
   /** Opens shop interface */
   Shop: "shop",
+  /** Opens crafting interface */
+  Crafting: "crafting",
   /** Ends the dialogue */
   End: "end",
 } as const;
@@ -40,6 +45,17 @@ export const DialogueConditionType = {
   HasItem: "hasItem",
   SkillLevel: "skillLevel",
   QuestObjectivesComplete: "questObjectivesComplete",
+  CombatRecord: "combatRecord",
+  /** Affinity with an NPC (the current NPC if no target) */
+  Affinity: "affinity",
+  /** The active pet's growth stage, compared in stage order */
+  PetGrowthStage: "petGrowthStage",
+  /** Whether a dialogue flag is set */
+  FlagSet: "flagSet",
+  /** The player's coins */
+  Coins: "coins",
+  /** Battle wins, in total or against a species or at a location */
+  BattleWins: "battleWins",
 } as const;
 
 export type DialogueConditionType =
@@ -51,9 +67,9 @@ export type DialogueConditionType =
 export interface DialogueCondition {
   /** Type of condition */
   type: DialogueConditionType;
-  /** Target ID (quest ID, item ID, skill ID) */
-  targetId: string;
-  /** Value to compare against (quest state, item quantity, skill level) */
+  /** Target ID (quest ID, item ID, skill ID, combat record stat, NPC ID, flag) */
+  targetId?: string;
+  /** Value to compare against (quest state, item quantity, skill level, combat stat, affinity, growth stage, coins) */
   value?: string | number | boolean;
   /** Comparison operator (default: 'eq') */
   comparison?: "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
@@ -65,6 +81,22 @@ export interface DialogueCondition {
 export const DialogueActionType = {
   StartQuest: "startQuest",
   CompleteQuest: "completeQuest",
+  /** Give the player an item */
+  GiveItem: "giveItem",
+  /** Take an item from the player */
+  TakeItem: "takeItem",
+  /** Give the player coins */
+  GiveCoins: "giveCoins",
+  /** Change affinity with an NPC (the current NPC if no target) */
+  ModifyAffinity: "modifyAffinity",
+  /** Set a dialogue flag */
+  SetFlag: "setFlag",
+  /** Open an NPC's shop (the current NPC if no target) */
+  OpenShop: "openShop",
+  /** Start a battle against a wild pet */
+  StartBattle: "startBattle",
+  /** Travel to a location */
+  Travel: "travel",
 } as const;
 
 export type DialogueActionType =
@@ -76,8 +108,10 @@ export type DialogueActionType =
 export interface DialogueAction {
   /** Type of action */
   type: DialogueActionType;
-  /** Target ID (quest ID) */
-  targetId: string;
+  /** Target ID (quest ID, item ID, NPC ID, flag, species ID, location ID) */
+  targetId?: string;
+  /** Amount (item quantity, coins, affinity change, enemy level) */
+  value?: number;
 }
 
 /**
@@ -92,6 +126,8 @@ export interface DialogueChoice {
   conditions?: DialogueCondition[];
   /** Action to perform when selected */
   action?: DialogueAction;
+  /** Further actions to perform after `action`, in order */
+  actions?: DialogueAction[];
 }
 
 /**
@@ -142,6 +178,8 @@ export interface NPC {
   questIds?: string[];
   /** Shop inventory ID (if merchant) */
   shopId?: string;
+  /** Skill-training sessions offered (if trainer) */
+  trainingOffers?: SkillTrainingOffer[];
   /** Visual representation emoji */
   emoji: string;
 }
@@ -157,3 +195,41 @@ export interface DialogueState {
   /** Current node ID within the tree */
   currentNodeId: string;
 }
+
+/**
+ * The player's relationship with an NPC.
+ */
+export interface NpcRelationship {
+  /** Affinity with the NPC (0-100) */
+  affinity: number;
+  /** Whether the player has talked to the NPC since the daily reset */
+  talkedToday: boolean;
+  /** Whether the player has given the NPC a gift since the daily reset */
+  giftedToday: boolean;
+  /** Social XP earned from this NPC's dialogue since the daily reset */
+  socialXpToday: number;
+}
+
+/**
+ * Relationship levels, reached at increasing affinity.
+ */
+export const AffinityLevel = {
+  Stranger: "stranger",
+  Acquaintance: "acquaintance",
+  Friend: "friend",
+  CloseFriend: "closeFriend",
+  BestFriend: "bestFriend",
+} as const;
+
+export type AffinityLevel = (typeof AffinityLevel)[keyof typeof AffinityLevel];
+
+/**
+ * Minimum affinity for each relationship level.
+ */
+export const AFFINITY_LEVEL_THRESHOLDS: Record<AffinityLevel, number> = {
+  [AffinityLevel.Stranger]: 0,
+  [AffinityLevel.Acquaintance]: 10,
+  [AffinityLevel.Friend]: 30,
+  [AffinityLevel.CloseFriend]: 60,
+  [AffinityLevel.BestFriend]: 90,
+};
@@ -4,6 +4,7 @@
 
 import type { ExplorationDrop, TrainingResult } from "./activity";
 import type { MicroValue, Tick } from "./common";
+import type { DeathCause } from "./memorial";
 
 /**
  * Snapshot of care stats for comparison.
@@ -37,6 +38,18 @@ export interface OfflineTrainingResult {
   result: TrainingResult;
 }
 
+/**
+ * Details of a pet death that occurred during offline time.
+ */
+export interface OfflinePetDeathResult {
+  /** Name of the pet that died */
+  petName: string;
+  /** Cause of death */
+  cause: DeathCause;
+  /** Age in ticks at time of death */
+  ageTicks: Tick;
+}
+
 /**
  * Maximum stat values for the pet at the time of the report.
  */
@@ -72,10 +85,16 @@ export interface OfflineReport {
   poopBefore: number;
   /** Poop count after offline processing */
   poopAfter: number;
+  /** Pet level before offline processing (null if no pet) */
+  levelBefore: number | null;
+  /** Pet level after offline processing (null if no pet) */
+  levelAfter: number | null;
   /** Exploration results that completed during offline time */
   explorationResults: OfflineExplorationResult[];
   /** Training results that completed during offline time */
   trainingResults: OfflineTrainingResult[];
+  /** Pet death during offline time (null if the pet survived) */
+  petDeath: OfflinePetDeathResult | null;
 }
 
 /**
@@ -2,9 +2,15 @@
  * Pet types and interfaces.
  */
 
-import type { ActiveExploration, ActiveTraining } from "./activity";
+import type {
+  ActiveExploration,
+  ActiveInnStay,
+  ActiveTraining,
+  TrainingHistory,
+} from "./activity";
 import type { Tick, Timestamp } from "./common";
 import type { ActivityState, GrowthStage } from "./constants";
+import type { EquipmentSlot } from "./item";
 import type {
   BattleStats,
   CareLifeStats,
@@ -61,6 +67,43 @@ export interface PetSleep {
   sleepTicksToday: Tick;
 }
 
+/**
+ * Pet moveset tracking.
+ * Innate moves (Basic Attack, Rest) are always available and are not stored here.
+ */
+export interface PetMoves {
+  /** IDs of all moves the pet has learned, in the order they were learned */
+  learned: string[];
+  /** IDs of learned moves equipped into battle slots (at most DEFAULT_MOVE_SLOTS) */
+  equipped: string[];
+}
+
+/**
+ * Pet experience and level tracking.
+ */
+export interface PetProgression {
+  /** Current level (1-MAX_PET_LEVEL) */
+  level: number;
+  /** Current XP towards next level */
+  currentXp: number;
+}
+
+/**
+ * An equipment item worn by the pet.
+ * Equipped items are removed from the inventory and keep their durability here.
+ */
+export interface EquippedItem {
+  /** Equipment item ID */
+  itemId: string;
+  /** Remaining durability */
+  currentDurability: number;
+}
+
+/**
+ * Equipment worn by the pet, one item per slot.
+ */
+export type PetEquipment = Record<EquipmentSlot, EquippedItem | null>;
+
 /**
  * Bonus max stats that can be added to a pet from items, quests, or events.
  * These are added on top of the base max stats from the species growth stage.
@@ -94,10 +137,10 @@ export interface Pet {
   energyStats: EnergyStats;
   /** Hidden care life stat */
   careLifeStats: CareLifeStats;
-  /** Battle stats (total = base from growth stage + trained + bonus) */
+  /** Battle stats (total = base from growth stage + trained + bonus + equipment) */
   battleStats: BattleStats;
   /**
-   * Trained battle stats accumulated from training sessions.
+   * Trained battle stats accumulated from training sessions and level ups.
    * These are preserved across stage transitions and added to base stats.
    */
   trainedBattleStats: BattleStats;
@@ -111,12 +154,24 @@ export interface Pet {
   activityState: ActivityState;
   /** Active training session (if training) */
   activeTraining?: ActiveTraining;
+  /** Recent training for fatigue and variety (absent before the first session) */
+  trainingHistory?: TrainingHistory;
   /** Active exploration session (if exploring) */
   activeExploration?: ActiveExploration;
+  /** Inn stay in progress (if resting at an inn) */
+  activeInnStay?: ActiveInnStay;
   /** Activity cooldowns: locationId → activityId → cooldown end tick */
   activityCooldowns?: Record<string, Record<string, Tick>>;
+  /** Ticks until the pet recovers from a battle defeat (absent when not exhausted) */
+  exhaustionTicks?: Tick;
   /** Bonus max stats from items, quests, events */
   bonusMaxStats: BonusMaxStats;
+  /** Learned and equipped battle moves */
+  moves: PetMoves;
+  /** Equipment worn in each slot */
+  equipment: PetEquipment;
+  /** Experience and level */
+  progression: PetProgression;
 }
 
 /**
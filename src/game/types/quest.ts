@@ -2,6 +2,8 @@
  * Quest system types for tracking objectives, rewards, and quest state.
  */
 
+import type { UnlockType } from "./unlock";
+
 /**
  * Quest types.
  */
@@ -73,6 +75,7 @@ export const RewardType = {
   Item: "item",
   XP: "xp",
   Unlock: "unlock",
+  Move: "move",
 } as const;
 
 export type RewardType = (typeof RewardType)[keyof typeof RewardType];
@@ -117,6 +120,8 @@ export interface QuestReward {
   target: string;
   /** Quantity or amount */
   quantity: number;
+  /** Category of content unlocked (for unlock rewards) */
+  unlockType?: UnlockType;
 }
 
 /**
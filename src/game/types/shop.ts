@@ -2,6 +2,13 @@
  * Shop types for merchant NPCs.
  */
 
+import type { SkillTier } from "./skill";
+
+/**
+ * Stock value for items a shop never runs out of.
+ */
+export const UNLIMITED_STOCK = -1;
+
 /**
  * A single item listing in a shop.
  */
@@ -12,6 +19,18 @@ export interface ShopItem {
   buyPrice: number;
   /** Maximum quantity available per restock (-1 for unlimited) */
   stock: number;
+  /** Trading tier needed before the shop offers this entry */
+  minTradingTier?: SkillTier;
+}
+
+/**
+ * Rare items a shop offers on rotation, a few at a time.
+ */
+export interface RotatingStock {
+  /** Items the shop can pick from */
+  pool: ShopItem[];
+  /** Number of pool items offered each day */
+  count: number;
 }
 
 /**
@@ -26,6 +45,48 @@ export interface Shop {
   items: ShopItem[];
   /** Sell price multiplier (0.0 to 1.0 of item's sellValue) */
   sellMultiplier: number;
+  /** Rare items picked fresh at each daily restock */
+  rotatingStock?: RotatingStock;
+}
+
+/**
+ * Persisted stock of a single shop, restocked at the daily reset.
+ */
+export interface ShopStockState {
+  /**
+   * Remaining quantity of limited items by item ID.
+   * Items without an entry are fully stocked.
+   */
+  remaining: Record<string, number>;
+  /** Rotating items offered until the next restock */
+  rotatingItemIds: string[];
+  /** Items sold by the player that the shop does not normally carry */
+  buyback: Record<string, number>;
+}
+
+/**
+ * Where a shop listing comes from.
+ */
+export const ShopListingSource = {
+  /** The shop's regular items */
+  Regular: "regular",
+  /** Today's rotating rare items */
+  Rotating: "rotating",
+  /** Items the player sold to the shop */
+  Buyback: "buyback",
+} as const;
+
+export type ShopListingSource =
+  (typeof ShopListingSource)[keyof typeof ShopListingSource];
+
+/**
+ * An item currently offered by a shop, with its remaining stock.
+ */
+export interface ShopListing {
+  shopItem: ShopItem;
+  /** Quantity left until the next restock (-1 for unlimited) */
+  remaining: number;
+  source: ShopListingSource;
 }
 
 /**
@@ -34,6 +95,8 @@ export interface Shop {
 export interface BuyResult {
   success: boolean;
   message: string;
+  /** Trading XP earned */
+  tradingXpGained?: number;
 }
 
 /**
@@ -44,4 +107,6 @@ export interface SellResult {
   message: string;
   /** Amount of coins received */
   coinsReceived?: number;
+  /** Trading XP earned */
+  tradingXpGained?: number;
 }
@@ -2,6 +2,8 @@
  * Skill types for the skills system.
  */
 
+import type { Tick } from "./common";
+
 /**
  * Available skills in the game.
  */
@@ -97,6 +99,46 @@ export interface PlayerSkills {
   [SkillType.Social]: Skill;
 }
 
+/**
+ * A paid skill-training session offered by a trainer NPC.
+ */
+export interface SkillTrainingOffer {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Offer description */
+  description: string;
+  /** Skill that is trained */
+  skill: SkillType;
+  /** Coin cost per session */
+  cost: number;
+  /** Time to complete in ticks */
+  durationTicks: Tick;
+  /** Skill XP granted on completion */
+  xpGranted: number;
+  /** Sessions allowed per day */
+  dailyLimit: number;
+  /** Minimum level in the trained skill (omit for no requirement) */
+  requiredLevel?: number;
+}
+
+/**
+ * A skill-training session in progress.
+ */
+export interface ActiveSkillTraining {
+  /** Offer being trained */
+  offerId: string;
+  /** Trainer NPC running the session */
+  npcId: string;
+  /** Total duration in ticks */
+  durationTicks: Tick;
+  /** Ticks remaining until completion */
+  ticksRemaining: Tick;
+  /** Coins paid for the session (refunded on cancel) */
+  cost: number;
+}
+
 /**
  * Create initial skills at level 1 with 0 XP.
  */
@@ -0,0 +1,35 @@
+/**
+ * Unlock registry types for content earned during play.
+ */
+
+/**
+ * Categories of unlockable content.
+ */
+export const UnlockType = {
+  Location: "location",
+  Species: "species",
+  Facility: "facility",
+  Shop: "shop",
+  Feature: "feature",
+} as const;
+
+export type UnlockType = (typeof UnlockType)[keyof typeof UnlockType];
+
+/**
+ * Unlocked content IDs grouped by category.
+ * Content is only listed once unlocked; base content is always available.
+ */
+export type Unlocks = Record<UnlockType, string[]>;
+
+/**
+ * Create an empty unlock registry for a new game.
+ */
+export function createInitialUnlocks(): Unlocks {
+  return {
+    [UnlockType.Location]: [],
+    [UnlockType.Species]: [],
+    [UnlockType.Facility]: [],
+    [UnlockType.Shop]: [],
+    [UnlockType.Feature]: [],
+  };
+}